@@ -11,9 +11,12 @@
 import type * as beliefPipeline from "../beliefPipeline.js";
 import type * as beliefToInitiative from "../beliefToInitiative.js";
 import type * as beliefToInitiativeV2 from "../beliefToInitiativeV2.js";
+import type * as beliefs from "../beliefs.js";
 import type * as cron from "../cron.js";
 import type * as dailyMetrics from "../dailyMetrics.js";
+import type * as decisionRecords from "../decisionRecords.js";
 import type * as events from "../events.js";
+import type * as featureFlags from "../featureFlags.js";
 import type * as initiativeAudit from "../initiativeAudit.js";
 import type * as initiativeComments from "../initiativeComments.js";
 import type * as initiativeEventStore from "../initiativeEventStore.js";
@@ -21,15 +24,28 @@ import type * as initiativeExample from "../initiativeExample.js";
 import type * as initiativeExternalLinks from "../initiativeExternalLinks.js";
 import type * as initiativeSuggestions from "../initiativeSuggestions.js";
 import type * as initiatives from "../initiatives.js";
+import type * as learnedConfigs from "../learnedConfigs.js";
+import type * as llmProvider from "../llmProvider.js";
 import type * as newInitiatives from "../newInitiatives.js";
+import type * as noteAssertions from "../noteAssertions.js";
+import type * as noteAnalysis from "../noteAnalysis.js";
+import type * as noteImport from "../noteImport.js";
 import type * as notes from "../notes.js";
 import type * as ruleQuality from "../ruleQuality.js";
+import type * as shadowRuns from "../shadowRuns.js";
+import type * as statusReports from "../statusReports.js";
+import type * as suggestionBridge from "../suggestionBridge.js";
+import type * as suggestionClusters from "../suggestionClusters.js";
 import type * as suggestionDebug from "../suggestionDebug.js";
 import type * as suggestionDecisions from "../suggestionDecisions.js";
 import type * as suggestionEngine from "../suggestionEngine.js";
+import type * as suggestionKeyMigration from "../suggestionKeyMigration.js";
 import type * as suggestionRanking from "../suggestionRanking.js";
 import type * as suggestions from "../suggestions.js";
+import type * as triage from "../triage.js";
+import type * as users from "../users.js";
 import type * as v0Initiatives from "../v0Initiatives.js";
+import type * as workspaces from "../workspaces.js";
 
 import type {
   ApiFromModules,
@@ -41,9 +57,12 @@ declare const fullApi: ApiFromModules<{
   beliefPipeline: typeof beliefPipeline;
   beliefToInitiative: typeof beliefToInitiative;
   beliefToInitiativeV2: typeof beliefToInitiativeV2;
+  beliefs: typeof beliefs;
   cron: typeof cron;
   dailyMetrics: typeof dailyMetrics;
+  decisionRecords: typeof decisionRecords;
   events: typeof events;
+  featureFlags: typeof featureFlags;
   initiativeAudit: typeof initiativeAudit;
   initiativeComments: typeof initiativeComments;
   initiativeEventStore: typeof initiativeEventStore;
@@ -51,15 +70,28 @@ declare const fullApi: ApiFromModules<{
   initiativeExternalLinks: typeof initiativeExternalLinks;
   initiativeSuggestions: typeof initiativeSuggestions;
   initiatives: typeof initiatives;
+  learnedConfigs: typeof learnedConfigs;
+  llmProvider: typeof llmProvider;
   newInitiatives: typeof newInitiatives;
+  noteAssertions: typeof noteAssertions;
+  noteAnalysis: typeof noteAnalysis;
+  noteImport: typeof noteImport;
   notes: typeof notes;
   ruleQuality: typeof ruleQuality;
+  shadowRuns: typeof shadowRuns;
+  statusReports: typeof statusReports;
+  suggestionBridge: typeof suggestionBridge;
+  suggestionClusters: typeof suggestionClusters;
   suggestionDebug: typeof suggestionDebug;
   suggestionDecisions: typeof suggestionDecisions;
   suggestionEngine: typeof suggestionEngine;
+  suggestionKeyMigration: typeof suggestionKeyMigration;
   suggestionRanking: typeof suggestionRanking;
   suggestions: typeof suggestions;
+  triage: typeof triage;
+  users: typeof users;
   v0Initiatives: typeof v0Initiatives;
+  workspaces: typeof workspaces;
 }>;
 
 /**
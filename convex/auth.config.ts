@@ -0,0 +1,17 @@
+/**
+ * Convex auth configuration
+ *
+ * Identity comes from an OpenID Connect provider. AUTH_ISSUER_URL is the
+ * provider's issuer and AUTH_APPLICATION_ID the audience (client ID) of
+ * the tokens the app sends; the app side reads VITE_AUTH_ISSUER_URL and
+ * VITE_AUTH_CLIENT_ID (src/lib/auth.ts).
+ */
+
+export default {
+  providers: [
+    {
+      domain: process.env.AUTH_ISSUER_URL,
+      applicationID: process.env.AUTH_APPLICATION_ID ?? "convex",
+    },
+  ],
+};
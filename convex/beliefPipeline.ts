@@ -1,11 +1,15 @@
 /**
  * Belief-First Reasoning Pipeline API
  * 
- * Convex functions for executing the belief-first pipeline
+ * Convex functions for executing the belief-first pipeline.
+ * Beliefs extracted from a stored note are persisted (see beliefs.ts).
  */
 
 import { v } from 'convex/values';
 import { query, mutation } from './_generated/server';
+import { replaceNoteBeliefs } from './beliefs';
+import { requireRole } from './users';
+import { getOwned } from './workspaces';
 
 // Validator for MeetingNote input
 const meetingNoteValidator = v.object({
@@ -31,7 +35,8 @@ const pipelineConfigValidator = v.optional(
  * Extract beliefs from a meeting note
  * 
  * This is the main API endpoint for the belief-first pipeline.
- * Takes a meeting note and returns structured beliefs.
+ * Takes a meeting note and returns structured beliefs. When the note id is
+ * an existing, non-deleted note, its stored beliefs are replaced.
  */
 export const extractBeliefs = mutation({
   args: {
@@ -39,6 +44,7 @@ export const extractBeliefs = mutation({
     config: pipelineConfigValidator,
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, 'editor');
     // Dynamic import to avoid issues with server-side execution
     const { executeBeliefPipeline, DEFAULT_PIPELINE_CONFIG } = await import(
       '../src/lib/belief-pipeline/index'
@@ -52,6 +58,13 @@ export const extractBeliefs = mutation({
     // Execute the pipeline
     const result = await executeBeliefPipeline(args.note, config);
     
+    // Persist when the input is a stored note
+    const noteId = ctx.db.normalizeId('notes', args.note.id);
+    const storedNote = noteId ? await getOwned(ctx, user.workspaceId, noteId) : null;
+    if (storedNote && !storedNote.isDeleted) {
+      await replaceNoteBeliefs(ctx, storedNote, result.beliefs, args.note.raw_markdown);
+    }
+    
     return result;
   },
 });
@@ -59,7 +72,8 @@ export const extractBeliefs = mutation({
 /**
  * Extract beliefs from an existing note in the database
  * 
- * Convenience function that loads a note from the database and runs the pipeline
+ * Convenience function that loads a note from the database, runs the pipeline
+ * and replaces the note's stored beliefs
  */
 export const extractBeliefsFromNote = mutation({
   args: {
@@ -67,8 +81,9 @@ export const extractBeliefsFromNote = mutation({
     config: pipelineConfigValidator,
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, 'editor');
     // Load the note
-    const note = await ctx.db.get(args.noteId);
+    const note = await getOwned(ctx, user.workspaceId, args.noteId);
     
     if (!note) {
       throw new Error(`Note not found: ${args.noteId}`);
@@ -101,6 +116,8 @@ export const extractBeliefsFromNote = mutation({
     // Execute the pipeline
     const result = await executeBeliefPipeline(meetingNote, config);
     
+    await replaceNoteBeliefs(ctx, note, result.beliefs, note.body);
+    
     return result;
   },
 });
@@ -112,7 +129,8 @@ export const extractBeliefsFromNote = mutation({
  */
 export const getPipelineConfig = query({
   args: {},
-  handler: async () => {
+  handler: async (ctx) => {
+    await requireRole(ctx, 'viewer');
     const { DEFAULT_PIPELINE_CONFIG } = await import(
       '../src/lib/belief-pipeline/index'
     );
@@ -6,7 +6,12 @@
 
 import { v } from 'convex/values';
 import { query, mutation, action, internalMutation } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
 import { internal } from './_generated/api';
+import type { Doc } from './_generated/dataModel';
+import { eventActorFields, requireRole, requireActionRole } from './users';
+import type { WorkspaceUser } from './users';
+import { getOwned } from './workspaces';
 
 // ============================================
 // Validators
@@ -63,10 +68,14 @@ const initiativeSuggestionValidator = v.object({
  */
 export const storeInitiativeSuggestions = internalMutation({
   args: {
+    workspaceId: v.id('workspaces'),
     noteId: v.id('notes'),
     suggestions: v.array(initiativeSuggestionValidator),
   },
   handler: async (ctx, args) => {
+    if (!(await getOwned(ctx, args.workspaceId, args.noteId))) {
+      throw new Error('Note not found');
+    }
     const ids = [];
     
     for (const suggestion of args.suggestions) {
@@ -74,6 +83,7 @@ export const storeInitiativeSuggestions = internalMutation({
       const content = formatSuggestionContent(suggestion);
       
       const id = await ctx.db.insert('suggestions', {
+        workspaceId: args.workspaceId,
         noteId: args.noteId,
         content,
         status: 'new',
@@ -133,22 +143,73 @@ const dismissReasonValidator = v.union(
   v.literal('other')
 );
 
+const editTypeValidator = v.union(
+  v.literal('minor_refinement'),
+  v.literal('major_correction'),
+  v.literal('changed_target')
+);
+
+/**
+ * Recover action and status from content written by formatSuggestionContent
+ */
+function parseSuggestionContent(content: string) {
+  const status = content.startsWith('[Needs Clarification] ') ? 'needs_clarification' as const : 'suggested' as const;
+  const body = status === 'needs_clarification' ? content.slice('[Needs Clarification] '.length) : content;
+  const action = /^\[Timeline (Change|Risk)\]/.test(body) ? 'mutate_release_date' as const : 'comment' as const;
+  return { action, status };
+}
+
+/**
+ * Write a beliefFeedbackEvent for the learned-config feedback loop
+ * (learnedConfigs.proposeFromFeedback). Every path that applies, dismisses
+ * or edits a stored suggestion calls this next to its suggestionEvent.
+ */
+export async function insertFeedbackEvent(
+  ctx: MutationCtx,
+  user: WorkspaceUser,
+  suggestion: Doc<'suggestions'>,
+  feedback: {
+    action: Doc<'beliefFeedbackEvents'>['action'];
+    dismissReason?: string;
+    editType?: Doc<'beliefFeedbackEvents'>['editType'];
+    timeToActionSeconds?: number;
+  },
+  createdAt: number
+) {
+  const parsed = parseSuggestionContent(suggestion.content);
+  await ctx.db.insert('beliefFeedbackEvents', {
+    workspaceId: user.workspaceId,
+    suggestionId: suggestion._id,
+    noteId: suggestion.noteId,
+    action: feedback.action,
+    dismissReason: feedback.dismissReason,
+    editType: feedback.editType,
+    timeToActionSeconds: feedback.timeToActionSeconds,
+    userId: user._id,
+    suggestionAction: parsed.action,
+    suggestionStatus: parsed.status,
+    suggestionText: suggestion.content,
+    createdAt,
+  });
+}
+
 /**
  * Record feedback on a suggestion
+ *
+ * Writes a suggestionEvent for the metrics pipeline and a
+ * beliefFeedbackEvent for the learned-config feedback loop.
  */
 export const recordSuggestionFeedback = mutation({
   args: {
     suggestionId: v.id('suggestions'),
     action: feedbackActionValidator,
     dismissReason: v.optional(dismissReasonValidator),
+    editType: v.optional(editTypeValidator),
     timeToActionSeconds: v.optional(v.number()),
-    userId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    // For now, we can store this as a suggestion event
-    // In a full implementation, we'd have a dedicated feedbackEvents table
-    
-    const suggestion = await ctx.db.get(args.suggestionId);
+    const user = await requireRole(ctx, 'editor');
+    const suggestion = await getOwned(ctx, user.workspaceId, args.suggestionId);
     if (!suggestion) {
       throw new Error('Suggestion not found');
     }
@@ -159,15 +220,20 @@ export const recordSuggestionFeedback = mutation({
       eventType = 'dismissed';
     }
     
+    const now = Date.now();
     await ctx.db.insert('suggestionEvents', {
+      workspaceId: user.workspaceId,
       noteId: suggestion.noteId,
       suggestionId: args.suggestionId,
       eventType,
-      createdAt: Date.now(),
+      createdAt: now,
       timeToEventSeconds: args.timeToActionSeconds,
       dismissReason: args.dismissReason as any,
+      ...eventActorFields(user),
     });
     
+    await insertFeedbackEvent(ctx, user, suggestion, args, now);
+    
     return { success: true };
   },
 });
@@ -181,18 +247,20 @@ export const getFeedbackStats = query({
     endDate: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    // Get all suggestion events in date range
-    let eventsQuery = ctx.db.query('suggestionEvents');
-    
-    if (args.startDate) {
-      eventsQuery = eventsQuery.filter(q => q.gte(q.field('createdAt'), args.startDate!));
-    }
-    
-    if (args.endDate) {
-      eventsQuery = eventsQuery.filter(q => q.lte(q.field('createdAt'), args.endDate!));
-    }
-    
-    const events = await eventsQuery.collect();
+    const user = await requireRole(ctx, 'viewer');
+    // Get the workspace's suggestion events in date range
+    const events = await ctx.db
+      .query('suggestionEvents')
+      .withIndex('by_workspaceId_createdAt', (q) => {
+        const scoped = q.eq('workspaceId', user.workspaceId);
+        if (args.startDate !== undefined && args.endDate !== undefined) {
+          return scoped.gte('createdAt', args.startDate).lte('createdAt', args.endDate);
+        }
+        if (args.startDate !== undefined) return scoped.gte('createdAt', args.startDate);
+        if (args.endDate !== undefined) return scoped.lte('createdAt', args.endDate);
+        return scoped;
+      })
+      .collect();
     
     // Compute basic stats
     const totalApplied = events.filter(e => e.eventType === 'applied').length;
@@ -233,6 +301,7 @@ export const generateFromBeliefs = action({
     noteId: v.id('notes'),
   },
   handler: async (ctx, args) => {
+    await requireActionRole(ctx, 'editor');
     // 1. Extract beliefs from note
     const beliefResult = await ctx.runMutation(internal.beliefPipeline.extractBeliefsFromNote, {
       noteId: args.noteId,
@@ -250,6 +319,7 @@ export const generateFromBeliefs = action({
     
     // 3. Store suggestions
     // await ctx.runMutation(internal.beliefToInitiative.storeInitiativeSuggestions, {
+    //   workspaceId,
     //   noteId: args.noteId,
     //   suggestions: result.suggestions,
     // });
@@ -7,34 +7,45 @@
 
 import { v } from 'convex/values';
 import { query, mutation, action, internalMutation } from './_generated/server';
-import { internal } from './_generated/api';
+import type { ActionCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import { api, internal } from './_generated/api';
+import { resolveFeatureFlags } from './featureFlags';
+import { fromInitiativeSuggestions } from '../src/lib/shadow-runs';
+import type { ResolvedFlags } from '../src/lib/feature-flags';
+import type { BeliefToSuggestionResult, BeliefWithRouting, InitiativeSuggestion } from '../src/lib/belief-to-initiative';
+import type { BeliefToSuggestionResultV2 } from '../src/lib/belief-to-initiative-v2';
+import { requireRole, requireActionRole } from './users';
 
 // Feature flag configuration
 const FEATURE_FLAG_VALIDATOR = v.union(
   v.literal('v1'),
   v.literal('v2'),
-  v.literal('dual_run')  // Run both V1 and V2, log comparison
+  v.literal('dual_run')  // Run both V1 and V2, record the comparison
 );
 
 /**
  * Get current feature flag setting
  * 
- * Default: v1 (safe rollout)
- * Can be overridden per-note or globally via config
+ * Resolves the belief_pipeline flag (featureFlags.ts): note override, then
+ * percentage rollout / global override, then the default (v1).
  */
 export const getFeatureFlag = query({
   args: {
     noteId: v.optional(v.id('notes')),
   },
   handler: async (ctx, args) => {
-    // For now, return a hardcoded default
-    // In production, this would read from a config table
-    return 'v1' as const;
+    const user = await requireRole(ctx, 'viewer');
+    const flags = await resolveFeatureFlags(ctx, user.workspaceId, { noteId: args.noteId });
+    return flags.belief_pipeline.value;
   },
 });
 
 /**
  * Set feature flag for testing/gradual rollout
+ * 
+ * Sets a note override when noteId is given, otherwise the global override.
+ * Percentage rollouts and team overrides are managed in Settings.
  */
 export const setFeatureFlag = mutation({
   args: {
@@ -42,11 +53,16 @@ export const setFeatureFlag = mutation({
     noteId: v.optional(v.id('notes')),
   },
   handler: async (ctx, args) => {
-    // Store flag in a config table
-    // For now, this is a placeholder
+    await requireRole(ctx, 'admin');
+    await ctx.runMutation(api.featureFlags.setOverride, {
+      flagKey: 'belief_pipeline',
+      scope: args.noteId ? 'note' : 'global',
+      scopeId: args.noteId,
+      value: args.flag,
+    });
     return {
       success: true,
-      message: `Feature flag would be set to ${args.flag}`,
+      message: `Feature flag set to ${args.flag}${args.noteId ? ` for note ${args.noteId}` : ''}`,
     };
   },
 });
@@ -57,7 +73,10 @@ export const setFeatureFlag = mutation({
  * Supports three modes via feature flag:
  * - v1: Use original pipeline
  * - v2: Use new belief-driven visibility pipeline
- * - dual_run: Run both, compare, log differences
+ * - dual_run: Run both, compare, record the diff as a shadow run
+ *
+ * In v1 and v2 mode, running belief_pipeline shadow experiments
+ * (shadowRuns.ts) also run their candidate version and record the diff.
  */
 export const generateFromBeliefsV2 = action({
   args: {
@@ -65,8 +84,14 @@ export const generateFromBeliefsV2 = action({
     featureFlag: v.optional(FEATURE_FLAG_VALIDATOR),
   },
   handler: async (ctx, args) => {
-    // Determine which pipeline to use
-    const flag = args.featureFlag || 'v1';
+    const { workspaceId } = await requireActionRole(ctx, 'editor');
+    // Determine which pipeline to use: explicit argument, else the flag service
+    const resolved: ResolvedFlags = await ctx.runQuery(internal.featureFlags.evaluateInternal, {
+      workspaceId,
+      noteId: args.noteId,
+    });
+    const flag = args.featureFlag ?? resolved.belief_pipeline.value;
+    const flags: ResolvedFlags = { ...resolved, belief_pipeline: { ...resolved.belief_pipeline, value: flag } };
     
     // 1. Extract beliefs from note
     const beliefResult = await ctx.runMutation(internal.beliefPipeline.extractBeliefsFromNote, {
@@ -77,36 +102,100 @@ export const generateFromBeliefsV2 = action({
     
     if (flag === 'v1') {
       // Use V1 pipeline (existing)
-      return await runV1Pipeline(ctx, args.noteId, beliefs);
+      return await runV1Pipeline(ctx, workspaceId, args.noteId, beliefs, flags);
     } else if (flag === 'v2') {
       // Use V2 pipeline (new)
-      return await runV2Pipeline(ctx, args.noteId, beliefs);
+      return await runV2Pipeline(ctx, workspaceId, args.noteId, beliefs, flags);
     } else if (flag === 'dual_run') {
       // Run both and compare
-      return await runDualPipeline(ctx, args.noteId, beliefs);
+      return await runDualPipeline(ctx, workspaceId, args.noteId, beliefs);
     }
     
     throw new Error(`Invalid feature flag: ${flag}`);
   },
 });
 
+/**
+ * Execute one pipeline version without storing its suggestions
+ */
+async function executeBeliefPipeline(ctx: ActionCtx, version: 'v1', beliefs: BeliefWithRouting[]): Promise<BeliefToSuggestionResult>;
+async function executeBeliefPipeline(ctx: ActionCtx, version: 'v2', beliefs: BeliefWithRouting[]): Promise<BeliefToSuggestionResultV2>;
+async function executeBeliefPipeline(
+  ctx: ActionCtx,
+  version: 'v1' | 'v2',
+  beliefs: BeliefWithRouting[]
+): Promise<BeliefToSuggestionResult | BeliefToSuggestionResultV2>;
+async function executeBeliefPipeline(
+  ctx: ActionCtx,
+  version: 'v1' | 'v2',
+  beliefs: BeliefWithRouting[]
+): Promise<BeliefToSuggestionResult | BeliefToSuggestionResultV2> {
+  if (version === 'v1') {
+    const { executeBeliefToSuggestionPipeline } = await import('../src/lib/belief-to-initiative');
+    return executeBeliefToSuggestionPipeline(beliefs, []);
+  }
+  const { executeBeliefToSuggestionPipelineV2 } = await import('../src/lib/belief-to-initiative-v2');
+  // With the approved learned config, if any
+  const learnedConfig = await ctx.runQuery(internal.learnedConfigs.getActiveInternal, {});
+  return executeBeliefToSuggestionPipelineV2(beliefs, {}, learnedConfig);
+}
+
+/**
+ * Run the candidate of each running belief_pipeline experiment in the
+ * workspace on the same beliefs and record its diff against the production
+ * suggestions
+ */
+async function shadowBeliefPipeline(
+  ctx: ActionCtx,
+  workspaceId: Id<'workspaces'>,
+  noteId: Id<'notes'>,
+  beliefs: BeliefWithRouting[],
+  flags: ResolvedFlags,
+  suggestions: InitiativeSuggestion[]
+): Promise<void> {
+  const experiments = await ctx.runQuery(internal.shadowRuns.listRunningInternal, {
+    workspaceId,
+    pipeline: 'belief_to_initiative',
+  });
+  for (const experiment of experiments) {
+    if (experiment.candidateValue === flags.belief_pipeline.value) continue;
+    try {
+      const candidate = await executeBeliefPipeline(ctx, experiment.candidateValue as 'v1' | 'v2', beliefs);
+      await ctx.runMutation(internal.shadowRuns.recordDiff, {
+        experimentId: experiment._id,
+        noteId,
+        productionValue: flags.belief_pipeline.value,
+        production: fromInitiativeSuggestions(suggestions),
+        candidate: fromInitiativeSuggestions(candidate.suggestions),
+      });
+    } catch (error) {
+      // A failing candidate must not fail the production run
+      console.error(`Shadow run failed for belief_pipeline=${experiment.candidateValue}:`, error);
+    }
+  }
+}
+
 /**
  * Run V1 pipeline (original)
  */
-async function runV1Pipeline(ctx: any, noteId: any, beliefs: any[]): Promise<any> {
-  // Import V1 pipeline
-  const { executeBeliefToSuggestionPipeline } = await import('../src/lib/belief-to-initiative');
-  
-  // Execute V1 pipeline
-  const result = executeBeliefToSuggestionPipeline(beliefs, []);
+async function runV1Pipeline(
+  ctx: any,
+  workspaceId: Id<'workspaces'>,
+  noteId: any,
+  beliefs: any[],
+  flags: ResolvedFlags
+): Promise<any> {
+  const result = await executeBeliefPipeline(ctx, 'v1', beliefs);
   
   // Store suggestions
   if (result.suggestions.length > 0) {
     await ctx.runMutation(internal.beliefToInitiative.storeInitiativeSuggestions, {
+      workspaceId,
       noteId,
       suggestions: result.suggestions,
     });
   }
+  await shadowBeliefPipeline(ctx, workspaceId, noteId, beliefs, flags, result.suggestions);
   
   return {
     pipeline: 'v1',
@@ -119,20 +208,24 @@ async function runV1Pipeline(ctx: any, noteId: any, beliefs: any[]): Promise<any
 /**
  * Run V2 pipeline (new belief-driven visibility)
  */
-async function runV2Pipeline(ctx: any, noteId: any, beliefs: any[]): Promise<any> {
-  // Import V2 pipeline
-  const { executeBeliefToSuggestionPipelineV2 } = await import('../src/lib/belief-to-initiative-v2');
-  
-  // Execute V2 pipeline
-  const result = executeBeliefToSuggestionPipelineV2(beliefs);
+async function runV2Pipeline(
+  ctx: any,
+  workspaceId: Id<'workspaces'>,
+  noteId: any,
+  beliefs: any[],
+  flags: ResolvedFlags
+): Promise<any> {
+  const result = await executeBeliefPipeline(ctx, 'v2', beliefs);
   
   // Store suggestions
   if (result.suggestions.length > 0) {
     await ctx.runMutation(internal.beliefToInitiative.storeInitiativeSuggestions, {
+      workspaceId,
       noteId,
       suggestions: result.suggestions,
     });
   }
+  await shadowBeliefPipeline(ctx, workspaceId, noteId, beliefs, flags, result.suggestions);
   
   return {
     pipeline: 'v2',
@@ -145,14 +238,10 @@ async function runV2Pipeline(ctx: any, noteId: any, beliefs: any[]): Promise<any
 /**
  * Run both pipelines and compare (for validation)
  */
-async function runDualPipeline(ctx: any, noteId: any, beliefs: any[]): Promise<any> {
-  // Import both pipelines
-  const { executeBeliefToSuggestionPipeline } = await import('../src/lib/belief-to-initiative');
-  const { executeBeliefToSuggestionPipelineV2 } = await import('../src/lib/belief-to-initiative-v2');
-  
+async function runDualPipeline(ctx: any, workspaceId: Id<'workspaces'>, noteId: any, beliefs: any[]): Promise<any> {
   // Run both
-  const v1Result = executeBeliefToSuggestionPipeline(beliefs, []);
-  const v2Result = executeBeliefToSuggestionPipelineV2(beliefs);
+  const v1Result = await executeBeliefPipeline(ctx, 'v1', beliefs);
+  const v2Result = await executeBeliefPipeline(ctx, 'v2', beliefs);
   
   // Compare results
   const comparison = {
@@ -173,13 +262,28 @@ async function runDualPipeline(ctx: any, noteId: any, beliefs: any[]): Promise<a
   // Store V2 suggestions (prefer V2 in dual-run mode for testing)
   if (v2Result.suggestions.length > 0) {
     await ctx.runMutation(internal.beliefToInitiative.storeInitiativeSuggestions, {
+      workspaceId,
       noteId,
       suggestions: v2Result.suggestions,
     });
   }
   
-  // Log comparison for analysis
-  console.log('V1 vs V2 Comparison:', JSON.stringify(comparison, null, 2));
+  // Record the V1 -> V2 diff under the belief_pipeline = v2 experiment
+  // (started on first use; skipped while another candidate is shadowed)
+  const experimentId = await ctx.runMutation(internal.shadowRuns.ensureExperimentInternal, {
+    workspaceId,
+    flagKey: 'belief_pipeline',
+    candidateValue: 'v2',
+  });
+  if (experimentId) {
+    await ctx.runMutation(internal.shadowRuns.recordDiff, {
+      experimentId,
+      noteId,
+      productionValue: 'dual_run',
+      production: fromInitiativeSuggestions(v1Result.suggestions),
+      candidate: fromInitiativeSuggestions(v2Result.suggestions),
+    });
+  }
   
   return {
     pipeline: 'dual_run',
@@ -226,10 +330,11 @@ export const getV2PipelineStats = query({
     noteId: v.id('notes'),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, 'viewer');
     // Get suggestions for this note
     const suggestions = await ctx.db
       .query('suggestions')
-      .withIndex('by_noteId', (q) => q.eq('noteId', args.noteId))
+      .withIndex('by_workspaceId_noteId', (q) => q.eq('workspaceId', user.workspaceId).eq('noteId', args.noteId))
       .collect();
     
     // Compute stats
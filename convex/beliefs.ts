@@ -0,0 +1,275 @@
+import { query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { adaptConvexInitiative } from "../src/lib/suggestion-engine-v2";
+import { routeText } from "../src/lib/suggestion-engine-v2/routing";
+import { DEFAULT_CONFIG } from "../src/lib/suggestion-engine-v2/types";
+import {
+  beliefChainKey,
+  beliefRoutingText,
+  effectiveBeforeState,
+  linkBeliefChain,
+  orderBeliefChain,
+  toStoredEvidence,
+} from "../src/lib/belief-pipeline/history";
+import type { Belief } from "../src/lib/belief-pipeline/types";
+import { normalizeSubjectHandle } from "../src/lib/belief-pipeline/utils";
+import { requireRole } from "./users";
+
+/**
+ * Beliefs Module
+ *
+ * Stores belief pipeline output (beliefPipeline.ts) per note, with evidence
+ * spans mapped to note lines and lexical routing to a v0 initiative. Each
+ * extraction replaces the note's beliefs; the supersession chains they
+ * belong to (src/lib/belief-pipeline/history.ts) are then relinked, so a
+ * note processed out of date order, re-extracted or deleted leaves every
+ * chain consistent. Chains never cross workspaces: beliefs take the note's
+ * workspaceId and every lookup is prefixed by it.
+ */
+
+const dimensionValidator = v.union(
+  v.literal("timeline"),
+  v.literal("scope"),
+  v.literal("ownership"),
+  v.literal("priority"),
+  v.literal("dependency"),
+  v.literal("risk"),
+  v.literal("status"),
+  v.literal("decision"),
+  v.literal("other")
+);
+
+/** Recompute supersession links for the given chains and patch what changed */
+async function relinkBeliefChains(
+  ctx: MutationCtx,
+  workspaceId: Id<"workspaces"> | undefined,
+  chainKeys: Iterable<string>
+): Promise<void> {
+  for (const chainKey of new Set(chainKeys)) {
+    const members = await ctx.db
+      .query("beliefs")
+      .withIndex("by_workspaceId_chainKey_notedAt", (q) => q.eq("workspaceId", workspaceId).eq("chainKey", chainKey))
+      .collect();
+    const byId = new Map(members.map((row) => [row._id as string, row]));
+
+    const links = linkBeliefChain(
+      members.map((row) => ({
+        id: row._id,
+        noteId: row.noteId,
+        notedAt: row.notedAt,
+        position: row.evidence[0]?.startChar ?? 0,
+        sourceType: row.sourceType,
+        beforeState: row.beforeState,
+        afterState: row.afterState,
+      }))
+    );
+
+    for (const link of links) {
+      const row = byId.get(link.id)!;
+      const next = link.supersededById ? byId.get(link.supersededById) : undefined;
+      const fields = {
+        supersedesBeliefId: link.supersedesId as Id<"beliefs"> | undefined,
+        supersededByBeliefId: link.supersededById as Id<"beliefs"> | undefined,
+        supersededAt: next?.notedAt,
+        resolvedBeforeState: link.resolvedBeforeState,
+      };
+      if (
+        row.supersedesBeliefId !== fields.supersedesBeliefId ||
+        row.supersededByBeliefId !== fields.supersededByBeliefId ||
+        row.supersededAt !== fields.supersededAt ||
+        row.resolvedBeforeState !== fields.resolvedBeforeState
+      ) {
+        await ctx.db.patch(row._id, fields);
+      }
+    }
+  }
+}
+
+/**
+ * Replace a note's stored beliefs with the latest pipeline output and
+ * relink the chains it touched. rawMarkdown is the text the pipeline ran on.
+ */
+export async function replaceNoteBeliefs(
+  ctx: MutationCtx,
+  note: Doc<"notes">,
+  beliefs: Belief[],
+  rawMarkdown: string
+): Promise<Id<"beliefs">[]> {
+  const existing = await ctx.db
+    .query("beliefs")
+    .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", note.workspaceId).eq("noteId", note._id))
+    .collect();
+  const touched = new Set(existing.map((row) => row.chainKey));
+  for (const row of existing) {
+    await ctx.db.delete(row._id);
+  }
+
+  const initiatives = (
+    await ctx.db
+      .query("v0Initiatives")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", note.workspaceId))
+      .collect()
+  ).map(adaptConvexInitiative);
+  const notedAt = note.meetingAt ?? note.capturedAt;
+  const now = Date.now();
+
+  const ids: Id<"beliefs">[] = [];
+  for (const belief of beliefs) {
+    const routing = routeText(beliefRoutingText(belief), initiatives, DEFAULT_CONFIG.thresholds);
+    const initiativeId = routing.attached_initiative_id as Id<"v0Initiatives"> | undefined;
+    const chainKey = beliefChainKey({
+      initiativeId,
+      dimension: belief.dimension,
+      subjectHandle: belief.subject_handle,
+    });
+    touched.add(chainKey);
+
+    ids.push(await ctx.db.insert("beliefs", {
+      workspaceId: note.workspaceId,
+      noteId: note._id,
+      dimension: belief.dimension,
+      subjectHandle: belief.subject_handle,
+      chainKey,
+      summary: belief.summary,
+      beforeState: belief.before_state,
+      afterState: belief.after_state,
+      sourceType: belief.source_type,
+      evidence: toStoredEvidence(belief, rawMarkdown),
+      confidence: belief.confidence_score,
+      confidenceBand: belief.confidence_band,
+      needsClarification: belief.needs_clarification,
+      modelVersion: belief.model_version,
+      initiativeId,
+      routingSimilarity: initiativeId ? routing.similarity : undefined,
+      notedAt,
+      createdAt: now,
+    }));
+  }
+
+  await relinkBeliefChains(ctx, note.workspaceId, touched);
+  return ids;
+}
+
+/** Drop a deleted note's beliefs; later beliefs in its chains move up */
+export async function removeNoteBeliefs(ctx: MutationCtx, note: Doc<"notes">): Promise<number> {
+  const existing = await ctx.db
+    .query("beliefs")
+    .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", note.workspaceId).eq("noteId", note._id))
+    .collect();
+  for (const row of existing) {
+    await ctx.db.delete(row._id);
+  }
+  await relinkBeliefChains(ctx, note.workspaceId, existing.map((row) => row.chainKey));
+  return existing.length;
+}
+
+// Current belief per dimension and subject for an initiative, with chain length
+export const getCurrentState = query({
+  args: { initiativeId: v.id("v0Initiatives") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    const rows = await ctx.db
+      .query("beliefs")
+      .withIndex("by_workspaceId_initiativeId_notedAt", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
+      )
+      .order("desc")
+      .collect();
+
+    const revisions = new Map<string, number>();
+    for (const row of rows) {
+      revisions.set(row.chainKey, (revisions.get(row.chainKey) ?? 0) + 1);
+    }
+
+    const current = rows.filter((row) => !row.supersededByBeliefId);
+    return await Promise.all(
+      current.map(async (row) => {
+        const note = await ctx.db.get(row.noteId);
+        return {
+          ...row,
+          noteTitle: note?.title ?? "Untitled Note",
+          effectiveBeforeState: effectiveBeforeState(row),
+          revisionCount: revisions.get(row.chainKey) ?? 1,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * How the belief about a subject changed over time, oldest first. Without
+ * a dimension, every dimension's chain for the subject is returned, merged
+ * by date. Without an initiative, unrouted beliefs are searched.
+ */
+export const getHistory = query({
+  args: {
+    initiativeId: v.optional(v.id("v0Initiatives")),
+    subjectHandle: v.string(),
+    dimension: v.optional(dimensionValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    let rows: Doc<"beliefs">[];
+    if (args.dimension) {
+      const chainKey = beliefChainKey({
+        initiativeId: args.initiativeId,
+        dimension: args.dimension,
+        subjectHandle: args.subjectHandle,
+      });
+      rows = await ctx.db
+        .query("beliefs")
+        .withIndex("by_workspaceId_chainKey_notedAt", (q) => q.eq("workspaceId", user.workspaceId).eq("chainKey", chainKey))
+        .collect();
+    } else {
+      const handle = normalizeSubjectHandle(args.subjectHandle);
+      rows = (
+        await ctx.db
+          .query("beliefs")
+          .withIndex("by_workspaceId_initiativeId_notedAt", (q) =>
+            q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
+          )
+          .collect()
+      ).filter((row) => normalizeSubjectHandle(row.subjectHandle) === handle);
+    }
+
+    const ordered = orderBeliefChain(
+      rows.map((row) => ({
+        id: row._id,
+        noteId: row.noteId,
+        notedAt: row.notedAt,
+        position: row.evidence[0]?.startChar ?? 0,
+        sourceType: row.sourceType,
+        beforeState: row.beforeState,
+        afterState: row.afterState,
+        row,
+      }))
+    ).map((member) => member.row);
+
+    return await Promise.all(
+      ordered.map(async (row) => {
+        const note = await ctx.db.get(row.noteId);
+        return {
+          ...row,
+          noteTitle: note?.title ?? "Untitled Note",
+          effectiveBeforeState: effectiveBeforeState(row),
+          isCurrent: !row.supersededByBeliefId,
+        };
+      })
+    );
+  },
+});
+
+// Beliefs extracted from a note, in note order
+export const listByNote = query({
+  args: { noteId: v.id("notes") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    const rows = await ctx.db
+      .query("beliefs")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId))
+      .collect();
+    return rows.sort((a, b) => (a.evidence[0]?.startChar ?? 0) - (b.evidence[0]?.startChar ?? 0));
+  },
+});
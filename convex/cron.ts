@@ -1,8 +1,8 @@
 /**
  * Cron Jobs for Shipit
  * 
- * This module configures scheduled jobs for metrics aggregation and
- * rule quality score computation.
+ * This module configures scheduled jobs for metrics aggregation,
+ * rule quality score computation and learned-config proposals.
  */
 
 import { cronJobs } from "convex/server";
@@ -33,4 +33,16 @@ crons.daily(
   }
 );
 
+// Propose a learned belief-to-initiative config at 3:00 AM UTC
+// Runs the feedback recommenders over a 30-day rolling window; an admin
+// approves the proposal before the v2 pipeline uses it
+crons.daily(
+  "Propose learned config from feedback",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.learnedConfigs.proposeFromFeedback,
+  {
+    windowDays: 30,
+  }
+);
+
 export default crons;
@@ -2,12 +2,16 @@
  * Daily Metrics Aggregation
  * 
  * This module implements the daily batch job that aggregates suggestion events
- * into compact daily metrics for reporting and analysis.
+ * into compact daily metrics for reporting and analysis. Metrics are
+ * computed and stored per workspace, like the events they count.
  */
 
 import { v } from "convex/values";
-import { action, mutation, query, internalMutation, internalQuery } from "./_generated/server";
+import { internalAction, mutation, query, internalMutation, internalQuery } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { requireRole } from "./users";
+import { aggregateDailyMetrics } from "../src/lib/daily-metrics";
+import type { DailyMetricsFact } from "../src/lib/daily-metrics";
 
 // ============================================
 // Daily Aggregation Job
@@ -17,122 +21,42 @@ import { internal } from "./_generated/api";
  * Action to compute daily metrics for a specific date
  * Run this daily via cron for the previous day
  */
-export const computeDailyMetrics = action({
+export const computeDailyMetrics = internalAction({
   args: {
     dateUtc: v.string(), // YYYY-MM-DD format
   },
   handler: async (ctx, args) => {
     const startOfDay = new Date(args.dateUtc + "T00:00:00Z").getTime();
     const endOfDay = new Date(args.dateUtc + "T23:59:59.999Z").getTime();
-
-    // Get all events for the day
-    const events = await ctx.runQuery(internal.dailyMetrics.getEventsForDateRange, {
-      startTime: startOfDay,
-      endTime: endOfDay,
-    });
-
-    // Group by dimensions and compute metrics
-    const metricsMap = new Map<string, DailyMetricsFact>();
-
-    for (const event of events) {
-      // Skip events marked for exclusion
-      if (event.excludeFromMetrics) {
-        continue;
-      }
-
-      // Compute dimension keys
-      const dimensions = [
-        // Global
-        { teamId: "global", surface: undefined, suggestionFamily: undefined },
-        // By team
-        { teamId: event.teamId || "global", surface: undefined, suggestionFamily: undefined },
-        // By surface
-        { teamId: "global", surface: event.uiSurface, suggestionFamily: undefined },
-        // By family
-        { teamId: "global", surface: undefined, suggestionFamily: event.suggestionFamily },
-        // By team + surface
-        { teamId: event.teamId || "global", surface: event.uiSurface, suggestionFamily: undefined },
-        // By team + family
-        { teamId: event.teamId || "global", surface: undefined, suggestionFamily: event.suggestionFamily },
-        // By surface + family
-        { teamId: "global", surface: event.uiSurface, suggestionFamily: event.suggestionFamily },
-        // By all dimensions
-        { teamId: event.teamId || "global", surface: event.uiSurface, suggestionFamily: event.suggestionFamily },
-      ];
-
-      for (const dim of dimensions) {
-        const key = `${dim.teamId}|${dim.surface || ""}|${dim.suggestionFamily || ""}`;
-        
-        if (!metricsMap.has(key)) {
-          metricsMap.set(key, {
-            dateUtc: args.dateUtc,
-            teamId: dim.teamId === "global" ? undefined : dim.teamId,
-            surface: dim.surface,
-            suggestionFamily: dim.suggestionFamily,
-            suggestionsGenerated: 0,
-            suggestionsApplied: 0,
-            suggestionsDismissed: 0,
-            clarificationRequests: 0,
-          });
-        }
-
-        const metrics = metricsMap.get(key)!;
-
-        // Increment counters based on event type
-        switch (event.eventType) {
-          case "generated":
-            metrics.suggestionsGenerated++;
-            break;
-          case "applied":
-            metrics.suggestionsApplied++;
-            break;
-          case "dismissed":
-            metrics.suggestionsDismissed++;
-            break;
-          case "clarification_requested":
-            metrics.clarificationRequests++;
-            break;
-        }
-      }
-    }
-
-    // Compute rates and store metrics
     const now = Date.now();
-    const metricsToStore: DailyMetricsFact[] = [];
 
-    for (const [_, metrics] of metricsMap) {
-      // Compute rates
-      const applyRate = metrics.suggestionsGenerated > 0
-        ? metrics.suggestionsApplied / metrics.suggestionsGenerated
-        : 0;
-      const dismissRate = metrics.suggestionsGenerated > 0
-        ? metrics.suggestionsDismissed / metrics.suggestionsGenerated
-        : 0;
-      const clarificationRate = metrics.suggestionsGenerated > 0
-        ? metrics.clarificationRequests / metrics.suggestionsGenerated
-        : 0;
-      const nhi = applyRate - dismissRate;
-
-      metricsToStore.push({
-        ...metrics,
-        applyRate,
-        dismissRate,
-        clarificationRate,
-        nhi,
+    // Metrics are per workspace: aggregate and store each one's events
+    let metricsComputed = 0;
+    let totalEvents = 0;
+    const workspaceIds = await ctx.runQuery(internal.workspaces.listIdsInternal, {});
+    for (const workspaceId of workspaceIds) {
+      const events = await ctx.runQuery(internal.dailyMetrics.getEventsForDateRange, {
+        workspaceId,
+        startTime: startOfDay,
+        endTime: endOfDay,
+      });
+      const metricsToStore = aggregateDailyMetrics(args.dateUtc, events);
+
+      // Store metrics (idempotent - will overwrite if exists)
+      await ctx.runMutation(internal.dailyMetrics.storeDailyMetrics, {
+        workspaceId,
+        dateUtc: args.dateUtc,
+        metrics: metricsToStore,
+        timestamp: now,
       });
+      metricsComputed += metricsToStore.length;
+      totalEvents += events.length;
     }
 
-    // Store metrics (idempotent - will overwrite if exists)
-    await ctx.runMutation(internal.dailyMetrics.storeDailyMetrics, {
-      dateUtc: args.dateUtc,
-      metrics: metricsToStore,
-      timestamp: now,
-    });
-
     return {
       date: args.dateUtc,
-      metricsComputed: metricsToStore.length,
-      totalEvents: events.length,
+      metricsComputed,
+      totalEvents,
     };
   },
 });
@@ -143,18 +67,15 @@ export const computeDailyMetrics = action({
 
 export const getEventsForDateRange = internalQuery({
   args: {
+    workspaceId: v.id("workspaces"),
     startTime: v.number(),
     endTime: v.number(),
   },
   handler: async (ctx, args) => {
     return await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_createdAt")
-      .filter((q) => 
-        q.and(
-          q.gte(q.field("createdAt"), args.startTime),
-          q.lte(q.field("createdAt"), args.endTime)
-        )
+      .withIndex("by_workspaceId_createdAt", (q) =>
+        q.eq("workspaceId", args.workspaceId).gte("createdAt", args.startTime).lte("createdAt", args.endTime)
       )
       .collect();
   },
@@ -166,6 +87,7 @@ export const getEventsForDateRange = internalQuery({
 
 export const storeDailyMetrics = internalMutation({
   args: {
+    workspaceId: v.id("workspaces"),
     dateUtc: v.string(),
     metrics: v.any(), // Array of DailyMetricsFact
     timestamp: v.number(),
@@ -177,8 +99,8 @@ export const storeDailyMetrics = internalMutation({
       // Check if metric already exists (for idempotency)
       const existing = await ctx.db
         .query("dailySuggestionMetrics")
-        .withIndex("by_dateUtc_teamId", (q) => 
-          q.eq("dateUtc", args.dateUtc).eq("teamId", metric.teamId)
+        .withIndex("by_workspaceId_dateUtc_teamId", (q) =>
+          q.eq("workspaceId", args.workspaceId).eq("dateUtc", args.dateUtc).eq("teamId", metric.teamId)
         )
         .filter((q) => 
           q.and(
@@ -204,6 +126,7 @@ export const storeDailyMetrics = internalMutation({
       } else {
         // Insert new record
         await ctx.db.insert("dailySuggestionMetrics", {
+          workspaceId: args.workspaceId,
           dateUtc: args.dateUtc,
           teamId: metric.teamId,
           surface: metric.surface,
@@ -240,15 +163,17 @@ export const getDailyMetrics = query({
     suggestionFamily: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    let queryBuilder = ctx.db.query("dailySuggestionMetrics");
+    const user = await requireRole(ctx, "viewer");
+    const queryBuilder = ctx.db
+      .query("dailySuggestionMetrics")
+      .withIndex("by_workspaceId_dateUtc", (q) =>
+        q.eq("workspaceId", user.workspaceId).gte("dateUtc", args.startDate).lte("dateUtc", args.endDate)
+      );
 
     // Apply filters
     const results = await queryBuilder
       .filter((q) => {
-        const filters = [
-          q.gte(q.field("dateUtc"), args.startDate),
-          q.lte(q.field("dateUtc"), args.endDate),
-        ];
+        const filters = [];
 
         if (args.teamId !== undefined) {
           filters.push(q.eq(q.field("teamId"), args.teamId));
@@ -277,10 +202,11 @@ export const getDailyReport = query({
     dateUtc: v.string(), // YYYY-MM-DD
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     // Get global metrics for the day
     const globalMetrics = await ctx.db
       .query("dailySuggestionMetrics")
-      .withIndex("by_dateUtc", (q) => q.eq("dateUtc", args.dateUtc))
+      .withIndex("by_workspaceId_dateUtc", (q) => q.eq("workspaceId", user.workspaceId).eq("dateUtc", args.dateUtc))
       .filter((q) => 
         q.and(
           q.eq(q.field("teamId"), undefined),
@@ -293,7 +219,9 @@ export const getDailyReport = query({
     // Get metrics by family
     const byFamily = await ctx.db
       .query("dailySuggestionMetrics")
-      .withIndex("by_dateUtc_family", (q) => q.eq("dateUtc", args.dateUtc))
+      .withIndex("by_workspaceId_dateUtc_family", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("dateUtc", args.dateUtc)
+      )
       .filter((q) => 
         q.and(
           q.eq(q.field("teamId"), undefined),
@@ -306,7 +234,9 @@ export const getDailyReport = query({
     // Get metrics by surface
     const bySurface = await ctx.db
       .query("dailySuggestionMetrics")
-      .withIndex("by_dateUtc_surface", (q) => q.eq("dateUtc", args.dateUtc))
+      .withIndex("by_workspaceId_dateUtc_surface", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("dateUtc", args.dateUtc)
+      )
       .filter((q) => 
         q.and(
           q.eq(q.field("teamId"), undefined),
@@ -324,22 +254,3 @@ export const getDailyReport = query({
     };
   },
 });
-
-// ============================================
-// Types
-// ============================================
-
-type DailyMetricsFact = {
-  dateUtc: string;
-  teamId?: string;
-  surface?: string;
-  suggestionFamily?: string;
-  suggestionsGenerated: number;
-  suggestionsApplied: number;
-  suggestionsDismissed: number;
-  clarificationRequests: number;
-  applyRate?: number;
-  dismissRate?: number;
-  clarificationRate?: number;
-  nhi?: number;
-};
@@ -0,0 +1,118 @@
+import { query, internalMutation } from "./_generated/server";
+import { v } from "convex/values";
+import { requireRole } from "./users";
+
+/**
+ * Decision Records Module
+ *
+ * Decisions extracted from notes by the v2 engine (decisionRecords.ts).
+ * Each engine run replaces the note's records, keyed by decisionKey so a
+ * decision keeps its row (and createdAt) while its wording is unchanged.
+ * Records are routed to v0 initiatives and listed as a decision log on the
+ * initiative page.
+ */
+
+const decisionInputValidator = v.object({
+  decisionKey: v.string(),
+  statement: v.string(),
+  rationale: v.optional(v.string()),
+  alternatives: v.array(v.string()),
+  participants: v.array(v.string()),
+  sectionHeading: v.optional(v.string()),
+  evidence: v.array(v.object({
+    startLine: v.number(),
+    endLine: v.number(),
+    text: v.string(),
+  })),
+  confidence: v.number(),
+  initiativeId: v.optional(v.id("v0Initiatives")),
+  routingSimilarity: v.optional(v.number()),
+});
+
+// Replace a note's decision records with its latest engine output
+export const replaceNoteDecisions = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+    decidedAt: v.number(),
+    decisions: v.array(decisionInputValidator),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("decisionRecords")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId))
+      .collect();
+    const byKey = new Map(existing.map((row) => [row.decisionKey, row]));
+
+    const now = Date.now();
+    const kept = new Set<string>();
+    for (const decision of args.decisions) {
+      kept.add(decision.decisionKey);
+      const row = byKey.get(decision.decisionKey);
+      const fields = {
+        ...decision,
+        // Optional fields must be cleared explicitly on patch
+        rationale: decision.rationale,
+        sectionHeading: decision.sectionHeading,
+        initiativeId: decision.initiativeId,
+        routingSimilarity: decision.routingSimilarity,
+        decidedAt: args.decidedAt,
+        updatedAt: now,
+      };
+      if (row) {
+        await ctx.db.patch(row._id, fields);
+      } else {
+        await ctx.db.insert("decisionRecords", {
+          workspaceId: args.workspaceId,
+          noteId: args.noteId,
+          createdAt: now,
+          ...fields,
+        });
+      }
+    }
+
+    for (const row of existing) {
+      if (!kept.has(row.decisionKey)) {
+        await ctx.db.delete(row._id);
+      }
+    }
+  },
+});
+
+// Decision log for an initiative, newest decision first, with source notes
+export const listByInitiative = query({
+  args: { initiativeId: v.id("v0Initiatives") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    const records = await ctx.db
+      .query("decisionRecords")
+      .withIndex("by_workspaceId_initiativeId_decidedAt", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
+      )
+      .order("desc")
+      .collect();
+
+    const withNotes = await Promise.all(
+      records.map(async (record) => {
+        const note = await ctx.db.get(record.noteId);
+        if (!note || note.isDeleted) return null;
+        return { ...record, noteTitle: note.title };
+      })
+    );
+
+    return withNotes.filter((record) => record !== null);
+  },
+});
+
+// Decision records extracted from a note, in note order
+export const listByNote = query({
+  args: { noteId: v.id("notes") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    const records = await ctx.db
+      .query("decisionRecords")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId))
+      .collect();
+    return records.sort((a, b) => (a.evidence[0]?.startLine ?? 0) - (b.evidence[0]?.startLine ?? 0));
+  },
+});
@@ -1,13 +1,17 @@
 import { query } from "./_generated/server";
 import { v } from "convex/values";
+import { requireRole } from "./users";
 
 // Query to get all events for a suggestion
 export const listBySuggestion = query({
   args: { suggestionId: v.id("suggestions") },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     return await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.suggestionId))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.suggestionId)
+      )
       .collect();
   },
 });
@@ -16,9 +20,11 @@ export const listBySuggestion = query({
 export const listRecent = query({
   args: { limit: v.optional(v.number()) },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     const limit = args.limit ?? 50;
     return await ctx.db
       .query("suggestionEvents")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
       .order("desc")
       .take(limit);
   },
@@ -31,19 +37,28 @@ export const getReportData = query({
     endDate: v.number(),
   },
   handler: async (ctx, args) => {
-    // Get all notes in date range
-    const allNotes = await ctx.db.query("notes").collect();
-    const notes = allNotes.filter(
-      (n) => n.createdAt >= args.startDate && n.createdAt <= args.endDate
-    );
+    const user = await requireRole(ctx, "viewer");
+    // Get the workspace's notes in date range
+    const notes = await ctx.db
+      .query("notes")
+      .withIndex("by_workspaceId_createdAt", (q) =>
+        q.eq("workspaceId", user.workspaceId).gte("createdAt", args.startDate).lte("createdAt", args.endDate)
+      )
+      .collect();
     
     // Get all suggestions for those notes
     const noteIds = new Set(notes.map((n) => n._id));
-    const allSuggestions = await ctx.db.query("suggestions").collect();
+    const allSuggestions = await ctx.db
+      .query("suggestions")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
     const suggestions = allSuggestions.filter((s) => noteIds.has(s.noteId));
     
     // Get all events for those notes
-    const allEvents = await ctx.db.query("suggestionEvents").collect();
+    const allEvents = await ctx.db
+      .query("suggestionEvents")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
     const events = allEvents.filter((e) => noteIds.has(e.noteId));
     
     // Calculate metrics
@@ -109,7 +124,10 @@ export const getReportData = query({
       : 0;
     
     // Get all initiatives to calculate avg suggestions per initiative
-    const allInitiatives = await ctx.db.query("v0Initiatives").collect();
+    const allInitiatives = await ctx.db
+      .query("v0Initiatives")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
     const initiativesWithSuggestions = allInitiatives.filter((i) => {
       return suggestions.some((s) => s.initiativeId === i._id);
     });
@@ -0,0 +1,255 @@
+import { query, mutation, internalQuery } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { resolveFlags, validateFlagOverride } from "../src/lib/feature-flags";
+import type { FlagOverride, FlagTarget, ResolvedFlags } from "../src/lib/feature-flags";
+import { actorDisplayName, requireRole } from "./users";
+import { getOwned } from "./workspaces";
+
+/**
+ * Feature Flags Module
+ *
+ * Stores flag overrides at global, team and note scope and records every
+ * change in featureFlagAuditLog. Both belong to a workspace: "global" means
+ * the whole workspace, and one workspace's overrides never apply in
+ * another. Flag definitions, validation and resolution (scope precedence,
+ * sticky percentage rollouts) are in src/lib/feature-flags.ts.
+ *
+ * Other modules resolve flags with resolveFeatureFlags (queries and
+ * mutations) or internal.featureFlags.evaluateInternal (actions), and
+ * set them from mutations with writeFlagOverride.
+ */
+
+const scopeValidator = v.union(v.literal("global"), v.literal("team"), v.literal("note"));
+const flagValueValidator = v.union(v.boolean(), v.string());
+
+async function loadFlagOverrides(ctx: QueryCtx, workspaceId: Id<"workspaces">): Promise<FlagOverride[]> {
+  const rows = await ctx.db
+    .query("featureFlagOverrides")
+    .withIndex("by_workspaceId_flagKey_scope_scopeId", (q) => q.eq("workspaceId", workspaceId))
+    .collect();
+  return rows.map((row) => ({
+    flagKey: row.flagKey,
+    scope: row.scope,
+    scopeId: row.scopeId,
+    value: row.value,
+    rolloutPercent: row.rolloutPercent,
+  }));
+}
+
+/**
+ * Resolve every flag in a workspace for a note and/or team. A note without
+ * an explicit team resolves with the team it was created in.
+ */
+export async function resolveFeatureFlags(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  target: FlagTarget = {}
+): Promise<ResolvedFlags> {
+  let teamId = target.teamId;
+  if (teamId === undefined && target.noteId) {
+    const noteId = ctx.db.normalizeId("notes", target.noteId);
+    teamId = noteId ? (await getOwned(ctx, workspaceId, noteId))?.teamId : undefined;
+  }
+  return resolveFlags(await loadFlagOverrides(ctx, workspaceId), { ...target, teamId });
+}
+
+// Resolved flags (value and deciding scope) for a note and/or team
+export const evaluate = query({
+  args: {
+    noteId: v.optional(v.id("notes")),
+    teamId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    return await resolveFeatureFlags(ctx, user.workspaceId, args);
+  },
+});
+
+export const evaluateInternal = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.optional(v.id("notes")),
+    teamId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { workspaceId, ...target } = args;
+    return await resolveFeatureFlags(ctx, workspaceId, target);
+  },
+});
+
+// The workspace's overrides, by flag then scope
+export const listOverrides = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireRole(ctx, "viewer");
+    const order = { global: 0, team: 1, note: 2 };
+    const rows = await ctx.db
+      .query("featureFlagOverrides")
+      .withIndex("by_workspaceId_flagKey_scope_scopeId", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
+    return rows.sort(
+      (a, b) =>
+        a.flagKey.localeCompare(b.flagKey) ||
+        order[a.scope] - order[b.scope] ||
+        (a.scopeId ?? "").localeCompare(b.scopeId ?? "")
+    );
+  },
+});
+
+// The workspace's recent flag changes, newest first
+export const listAuditLog = query({
+  args: {
+    flagKey: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    const limit = args.limit ?? 50;
+    const entries = args.flagKey
+      ? await ctx.db
+          .query("featureFlagAuditLog")
+          .withIndex("by_workspaceId_flagKey_changedAt", (q) =>
+            q.eq("workspaceId", user.workspaceId).eq("flagKey", args.flagKey!)
+          )
+          .order("desc")
+          .take(limit)
+      : await ctx.db
+          .query("featureFlagAuditLog")
+          .withIndex("by_workspaceId_changedAt", (q) => q.eq("workspaceId", user.workspaceId))
+          .order("desc")
+          .take(limit);
+    return await Promise.all(
+      entries.map(async (entry) => ({ ...entry, actorName: await actorDisplayName(ctx, entry.actorUserId) }))
+    );
+  },
+});
+
+export interface FlagOverrideWrite {
+  workspaceId: Id<"workspaces">;
+  flagKey: string;
+  scope: "global" | "team" | "note";
+  scopeId?: string;
+  value: boolean | string;
+  rolloutPercent?: number;
+  actorUserId: string;
+}
+
+/**
+ * Validate and set (or replace) a workspace's override, recording it in
+ * the audit log. Team and note overrides need a scopeId (a note from the
+ * same workspace); global overrides must not have one.
+ */
+export async function writeFlagOverride(ctx: MutationCtx, args: FlagOverrideWrite): Promise<{ created: boolean }> {
+  const error = validateFlagOverride(args.flagKey, args.value, args.rolloutPercent);
+  if (error) throw new Error(error);
+  if (args.scope === "global" ? args.scopeId !== undefined : !args.scopeId) {
+    throw new Error(args.scope === "global" ? "Global overrides take no scopeId" : `A ${args.scope} override needs a scopeId`);
+  }
+  if (args.scope === "note") {
+    const noteId = ctx.db.normalizeId("notes", args.scopeId!);
+    if (!noteId || !(await getOwned(ctx, args.workspaceId, noteId))) throw new Error("Note not found");
+  }
+
+  const { workspaceId, actorUserId } = args;
+  const now = Date.now();
+  const existing = await ctx.db
+    .query("featureFlagOverrides")
+    .withIndex("by_workspaceId_flagKey_scope_scopeId", (q) =>
+      q
+        .eq("workspaceId", workspaceId)
+        .eq("flagKey", args.flagKey)
+        .eq("scope", args.scope)
+        .eq("scopeId", args.scopeId)
+    )
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      value: args.value,
+      rolloutPercent: args.rolloutPercent,
+      updatedByUserId: actorUserId,
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.insert("featureFlagOverrides", {
+      workspaceId,
+      flagKey: args.flagKey,
+      scope: args.scope,
+      scopeId: args.scopeId,
+      value: args.value,
+      rolloutPercent: args.rolloutPercent,
+      updatedByUserId: actorUserId,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  await ctx.db.insert("featureFlagAuditLog", {
+    workspaceId,
+    flagKey: args.flagKey,
+    action: "set",
+    scope: args.scope,
+    scopeId: args.scopeId,
+    previousValue: existing?.value,
+    previousRolloutPercent: existing?.rolloutPercent,
+    value: args.value,
+    rolloutPercent: args.rolloutPercent,
+    actorUserId,
+    changedAt: now,
+  });
+
+  return { created: !existing };
+}
+
+// Set (or replace) an override; see writeFlagOverride
+export const setOverride = mutation({
+  args: {
+    flagKey: v.string(),
+    scope: scopeValidator,
+    scopeId: v.optional(v.string()),
+    value: flagValueValidator,
+    rolloutPercent: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "admin");
+    return await writeFlagOverride(ctx, { ...args, workspaceId: user.workspaceId, actorUserId: user._id });
+  },
+});
+
+// Remove one of the workspace's overrides; the next scope (or the default) applies again
+export const clearOverride = mutation({
+  args: {
+    flagKey: v.string(),
+    scope: scopeValidator,
+    scopeId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "admin");
+    const existing = await ctx.db
+      .query("featureFlagOverrides")
+      .withIndex("by_workspaceId_flagKey_scope_scopeId", (q) =>
+        q
+          .eq("workspaceId", user.workspaceId)
+          .eq("flagKey", args.flagKey)
+          .eq("scope", args.scope)
+          .eq("scopeId", args.scopeId)
+      )
+      .first();
+    if (!existing) throw new Error("Override not found");
+
+    await ctx.db.delete(existing._id);
+    await ctx.db.insert("featureFlagAuditLog", {
+      workspaceId: user.workspaceId,
+      flagKey: args.flagKey,
+      action: "cleared",
+      scope: args.scope,
+      scopeId: args.scopeId,
+      previousValue: existing.value,
+      previousRolloutPercent: existing.rolloutPercent,
+      actorUserId: user._id,
+      changedAt: Date.now(),
+    });
+  },
+});
@@ -17,6 +17,8 @@ import {
   foldEvents,
 } from "./initiativeEventStore";
 import { loadInitiativeState, appendEvents, materializeState } from "./newInitiatives";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
 
 // ============================================
 // Helper: Generate UUIDs
@@ -33,15 +35,15 @@ function generateUUID(): string {
 export const undoEvent = mutation({
   args: {
     eventId: v.id("initiativeEvents"),
-    actorUserId: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const commandId = generateUUID();
     const correlationId = generateUUID();
     const now = Date.now();
     
     // Load the event to undo
-    const eventToUndo = await ctx.db.get(args.eventId);
+    const eventToUndo = await getOwned(ctx, user.workspaceId, args.eventId);
     if (!eventToUndo) {
       throw new Error("Event not found");
     }
@@ -53,8 +55,8 @@ export const undoEvent = mutation({
     // Check if already undone
     const existingUndo = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_initiativeId_sequence", (q) =>
-        q.eq("initiativeId", eventToUndo.initiativeId!)
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", eventToUndo.initiativeId!)
       )
       .filter((q) => {
         const payload = q.field("payload") as any;
@@ -118,15 +120,15 @@ export const undoEvent = mutation({
     }
     
     // Append compensating events
-    await appendEvents(ctx, eventToUndo.initiativeId, compensatingEvents, {
+    await appendEvents(ctx, user.workspaceId, eventToUndo.initiativeId, compensatingEvents, {
       commandId,
       correlationId,
-      actorUserId: args.actorUserId,
+      actorUserId: user._id,
       origin: "ui",
     });
     
     // Reload and materialize
-    const { state } = await loadInitiativeState(ctx, eventToUndo.initiativeId);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, eventToUndo.initiativeId);
     await materializeState(ctx, eventToUndo.initiativeId, state);
     
     return {
@@ -143,15 +145,15 @@ export const undoEvent = mutation({
 export const undoSuggestion = mutation({
   args: {
     suggestionId: v.id("initiativeSuggestions"),
-    actorUserId: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const commandId = generateUUID();
     const correlationId = generateUUID();
     const now = Date.now();
     
     // Load suggestion
-    const suggestion = await ctx.db.get(args.suggestionId);
+    const suggestion = await getOwned(ctx, user.workspaceId, args.suggestionId);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -163,7 +165,9 @@ export const undoSuggestion = mutation({
     // Find all events created by this suggestion
     const suggestionEvents = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.suggestionId))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.suggestionId)
+      )
       .collect();
     
     if (suggestionEvents.length === 0) {
@@ -239,16 +243,16 @@ export const undoSuggestion = mutation({
     });
     
     // Append compensating events
-    await appendEvents(ctx, suggestion.initiativeId, compensatingEvents, {
+    await appendEvents(ctx, user.workspaceId, suggestion.initiativeId, compensatingEvents, {
       commandId,
       correlationId,
-      actorUserId: args.actorUserId,
+      actorUserId: user._id,
       origin: "ui",
       suggestionId: args.suggestionId,
     });
     
     // Reload and materialize
-    const { state } = await loadInitiativeState(ctx, suggestion.initiativeId);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, suggestion.initiativeId);
     await materializeState(ctx, suggestion.initiativeId, state);
     
     // Update suggestion status (could add "undone" status, but keeping "applied" for now)
@@ -256,6 +260,7 @@ export const undoSuggestion = mutation({
     
     // Add system comment
     await ctx.db.insert("initiativeComments", {
+      workspaceId: user.workspaceId,
       initiativeId: suggestion.initiativeId,
       authorUserId: "system",
       body: `Undid suggestion: ${suggestion.kind}`,
@@ -283,10 +288,11 @@ export const getAuditTrail = query({
     actorUserId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     let events = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_initiativeId_sequence", (q) =>
-        q.eq("initiativeId", args.initiativeId)
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
       )
       .collect();
     
@@ -322,10 +328,11 @@ export const getFieldHistory = query({
     field: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     const events = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_initiativeId_sequence", (q) =>
-        q.eq("initiativeId", args.initiativeId)
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
       )
       .filter((q) => q.eq(q.field("type"), "InitiativeFieldUpdated"))
       .collect();
@@ -365,11 +372,12 @@ export const getVersionDiff = query({
     toVersion: v.number(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     // Load events for both versions
     const allEvents = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_initiativeId_sequence", (q) =>
-        q.eq("initiativeId", args.initiativeId)
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
       )
       .collect();
     
@@ -421,11 +429,12 @@ export const getStateAtTime = query({
     timestamp: v.number(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     // Load all events up to timestamp
     const events = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_initiativeId_sequence", (q) =>
-        q.eq("initiativeId", args.initiativeId)
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
       )
       .filter((q) => q.lte(q.field("occurredAt"), args.timestamp))
       .collect();
@@ -445,10 +454,11 @@ export const getWhoChangedWhat = query({
     initiativeId: v.id("newInitiatives"),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     const events = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_initiativeId_sequence", (q) =>
-        q.eq("initiativeId", args.initiativeId)
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
       )
       .collect();
     
@@ -497,7 +507,8 @@ export const getSuggestionImpact = query({
     suggestionId: v.id("initiativeSuggestions"),
   },
   handler: async (ctx, args) => {
-    const suggestion = await ctx.db.get(args.suggestionId);
+    const user = await requireRole(ctx, "viewer");
+    const suggestion = await getOwned(ctx, user.workspaceId, args.suggestionId);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -505,7 +516,9 @@ export const getSuggestionImpact = query({
     // Get events from this suggestion
     const events = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.suggestionId))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.suggestionId)
+      )
       .collect();
     
     // Extract changed fields and values
@@ -12,6 +12,9 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { hasRole } from "../src/lib/roles";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
 
 // ============================================
 // Command: Add Comment
@@ -20,23 +23,23 @@ import { Id } from "./_generated/dataModel";
 export const addComment = mutation({
   args: {
     initiativeId: v.id("newInitiatives"),
-    authorUserId: v.string(),
     body: v.string(),
     parentCommentId: v.optional(v.id("initiativeComments")),
     isSystem: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const now = Date.now();
     
     // Verify initiative exists
-    const initiative = await ctx.db.get(args.initiativeId);
+    const initiative = await getOwned(ctx, user.workspaceId, args.initiativeId);
     if (!initiative) {
       throw new Error("Initiative not found");
     }
     
     // If replying, verify parent exists
     if (args.parentCommentId) {
-      const parent = await ctx.db.get(args.parentCommentId);
+      const parent = await getOwned(ctx, user.workspaceId, args.parentCommentId);
       if (!parent) {
         throw new Error("Parent comment not found");
       }
@@ -47,8 +50,9 @@ export const addComment = mutation({
     
     // Create comment
     const commentId = await ctx.db.insert("initiativeComments", {
+      workspaceId: user.workspaceId,
       initiativeId: args.initiativeId,
-      authorUserId: args.authorUserId,
+      authorUserId: user._id,
       body: args.body,
       createdAt: now,
       parentCommentId: args.parentCommentId,
@@ -67,10 +71,10 @@ export const editComment = mutation({
   args: {
     id: v.id("initiativeComments"),
     body: v.string(),
-    editorUserId: v.string(),
   },
   handler: async (ctx, args) => {
-    const comment = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const comment = await getOwned(ctx, user.workspaceId, args.id);
     if (!comment) {
       throw new Error("Comment not found");
     }
@@ -83,8 +87,8 @@ export const editComment = mutation({
       throw new Error("Cannot edit system comment");
     }
     
-    // Verify editor is author (in production, you'd check permissions)
-    if (comment.authorUserId !== args.editorUserId) {
+    // Only the author edits a comment
+    if (comment.authorUserId !== user._id) {
       throw new Error("Only comment author can edit");
     }
     
@@ -106,10 +110,10 @@ export const editComment = mutation({
 export const deleteComment = mutation({
   args: {
     id: v.id("initiativeComments"),
-    deleterUserId: v.string(),
   },
   handler: async (ctx, args) => {
-    const comment = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const comment = await getOwned(ctx, user.workspaceId, args.id);
     if (!comment) {
       throw new Error("Comment not found");
     }
@@ -118,9 +122,9 @@ export const deleteComment = mutation({
       throw new Error("Comment already deleted");
     }
     
-    // Verify deleter is author (in production, check permissions)
-    if (comment.authorUserId !== args.deleterUserId) {
-      throw new Error("Only comment author can delete");
+    // Authors delete their own comments; admins can delete any
+    if (comment.authorUserId !== user._id && !hasRole(user.role, "admin")) {
+      throw new Error("Only comment author or an admin can delete");
     }
     
     const now = Date.now();
@@ -140,10 +144,10 @@ export const deleteComment = mutation({
 export const resolveComment = mutation({
   args: {
     id: v.id("initiativeComments"),
-    resolverUserId: v.string(),
   },
   handler: async (ctx, args) => {
-    const comment = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const comment = await getOwned(ctx, user.workspaceId, args.id);
     if (!comment) {
       throw new Error("Comment not found");
     }
@@ -160,7 +164,7 @@ export const resolveComment = mutation({
     
     await ctx.db.patch(args.id, {
       resolvedAt: now,
-      resolvedByUserId: args.resolverUserId,
+      resolvedByUserId: user._id,
     });
     
     return { id: args.id, resolvedAt: now };
@@ -176,7 +180,8 @@ export const unresolveComment = mutation({
     id: v.id("initiativeComments"),
   },
   handler: async (ctx, args) => {
-    const comment = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const comment = await getOwned(ctx, user.workspaceId, args.id);
     if (!comment) {
       throw new Error("Comment not found");
     }
@@ -201,10 +206,11 @@ export const listByInitiative = query({
     includeResolved: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     let comments = await ctx.db
       .query("initiativeComments")
-      .withIndex("by_initiativeId_createdAt", (q) =>
-        q.eq("initiativeId", args.initiativeId)
+      .withIndex("by_workspaceId_initiativeId_createdAt", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
       )
       .collect();
     
@@ -231,7 +237,8 @@ export const get = query({
     id: v.id("initiativeComments"),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    return await getOwned(ctx, user.workspaceId, args.id);
   },
 });
 
@@ -244,15 +251,16 @@ export const getThread = query({
     rootCommentId: v.id("initiativeComments"),
   },
   handler: async (ctx, args) => {
-    const root = await ctx.db.get(args.rootCommentId);
+    const user = await requireRole(ctx, "viewer");
+    const root = await getOwned(ctx, user.workspaceId, args.rootCommentId);
     if (!root) {
       throw new Error("Root comment not found");
     }
     
     const replies = await ctx.db
       .query("initiativeComments")
-      .withIndex("by_parentCommentId", (q) =>
-        q.eq("parentCommentId", args.rootCommentId)
+      .withIndex("by_workspaceId_parentCommentId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("parentCommentId", args.rootCommentId)
       )
       .collect();
     
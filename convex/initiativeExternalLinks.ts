@@ -11,6 +11,8 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
 
 // ============================================
 // Command: Create External Link
@@ -26,10 +28,11 @@ export const create = mutation({
     lastSyncState: v.optional(v.any()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const now = Date.now();
     
     // Verify initiative exists
-    const initiative = await ctx.db.get(args.initiativeId);
+    const initiative = await getOwned(ctx, user.workspaceId, args.initiativeId);
     if (!initiative) {
       throw new Error("Initiative not found");
     }
@@ -37,8 +40,9 @@ export const create = mutation({
     // Check if link already exists
     const existing = await ctx.db
       .query("initiativeExternalLinks")
-      .withIndex("by_externalSystem_resourceId", (q) =>
-        q.eq("externalSystem", args.externalSystem)
+      .withIndex("by_workspaceId_externalSystem_resourceId", (q) =>
+        q.eq("workspaceId", user.workspaceId)
+         .eq("externalSystem", args.externalSystem)
          .eq("externalResourceId", args.externalResourceId)
       )
       .filter((q) => q.eq(q.field("initiativeId"), args.initiativeId))
@@ -50,6 +54,7 @@ export const create = mutation({
     
     // Create link
     const linkId = await ctx.db.insert("initiativeExternalLinks", {
+      workspaceId: user.workspaceId,
       initiativeId: args.initiativeId,
       externalSystem: args.externalSystem,
       externalResourceType: args.externalResourceType,
@@ -75,7 +80,8 @@ export const update = mutation({
     lastSyncState: v.optional(v.any()),
   },
   handler: async (ctx, args) => {
-    const link = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const link = await getOwned(ctx, user.workspaceId, args.id);
     if (!link) {
       throw new Error("External link not found");
     }
@@ -109,6 +115,11 @@ export const remove = mutation({
     id: v.id("initiativeExternalLinks"),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const link = await getOwned(ctx, user.workspaceId, args.id);
+    if (!link) {
+      throw new Error("External link not found");
+    }
     await ctx.db.delete(args.id);
   },
 });
@@ -123,9 +134,12 @@ export const listByInitiative = query({
     externalSystem: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     let links = await ctx.db
       .query("initiativeExternalLinks")
-      .withIndex("by_initiativeId", (q) => q.eq("initiativeId", args.initiativeId))
+      .withIndex("by_workspaceId_initiativeId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
+      )
       .collect();
     
     if (args.externalSystem) {
@@ -146,10 +160,12 @@ export const findByExternalResource = query({
     externalResourceId: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     const link = await ctx.db
       .query("initiativeExternalLinks")
-      .withIndex("by_externalSystem_resourceId", (q) =>
-        q.eq("externalSystem", args.externalSystem)
+      .withIndex("by_workspaceId_externalSystem_resourceId", (q) =>
+        q.eq("workspaceId", user.workspaceId)
+         .eq("externalSystem", args.externalSystem)
          .eq("externalResourceId", args.externalResourceId)
       )
       .first();
@@ -177,7 +193,8 @@ export const get = query({
     id: v.id("initiativeExternalLinks"),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    return await getOwned(ctx, user.workspaceId, args.id);
   },
 });
 
@@ -190,7 +207,11 @@ export const list = query({
     externalSystem: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    let links = await ctx.db.query("initiativeExternalLinks").collect();
+    const user = await requireRole(ctx, "viewer");
+    let links = await ctx.db
+      .query("initiativeExternalLinks")
+      .withIndex("by_workspaceId_updatedAt", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
     
     if (args.externalSystem) {
       links = links.filter(l => l.externalSystem === args.externalSystem);
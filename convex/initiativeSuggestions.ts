@@ -21,6 +21,8 @@ import {
   isValidTransition,
 } from "./initiativeEventStore";
 import { loadInitiativeState, appendEvents, materializeState } from "./newInitiatives";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
 
 // ============================================
 // Types
@@ -55,21 +57,21 @@ function generateUUID(): string {
 export const create = mutation({
   args: {
     initiativeId: v.id("newInitiatives"),
-    createdByUserId: v.string(),
     kind: v.string(), // e.g., "update_fields", "change_status"
     operations: v.any(), // Array of PatchOperation
     sourceKind: v.optional(v.string()), // "user", "system", etc.
     sourceReference: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     // Verify initiative exists
-    const initiative = await ctx.db.get(args.initiativeId);
+    const initiative = await getOwned(ctx, user.workspaceId, args.initiativeId);
     if (!initiative) {
       throw new Error("Initiative not found");
     }
     
     // Get current version
-    const { state } = await loadInitiativeState(ctx, args.initiativeId);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, args.initiativeId);
     
     // Validate operations format
     const operations = args.operations as PatchOperation[];
@@ -86,8 +88,9 @@ export const create = mutation({
     
     // Create suggestion
     const suggestionId = await ctx.db.insert("initiativeSuggestions", {
+      workspaceId: user.workspaceId,
       initiativeId: args.initiativeId,
-      createdByUserId: args.createdByUserId,
+      createdByUserId: user._id,
       status: "pending" as SuggestionStatus,
       createdAt: now,
       kind: args.kind,
@@ -111,15 +114,15 @@ export const create = mutation({
 export const apply = mutation({
   args: {
     id: v.id("initiativeSuggestions"),
-    appliedByUserId: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const commandId = generateUUID();
     const correlationId = generateUUID();
     const now = Date.now();
     
     // Load suggestion
-    const suggestion = await ctx.db.get(args.id);
+    const suggestion = await getOwned(ctx, user.workspaceId, args.id);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -129,7 +132,7 @@ export const apply = mutation({
     }
     
     // Load current initiative state
-    const { state } = await loadInitiativeState(ctx, suggestion.initiativeId);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, suggestion.initiativeId);
     
     // Validate and apply operations
     const payload = suggestion.payload as SuggestionPayload;
@@ -184,10 +187,10 @@ export const apply = mutation({
         },
       ];
       
-      await appendEvents(ctx, suggestion.initiativeId, failedEvents, {
+      await appendEvents(ctx, user.workspaceId, suggestion.initiativeId, failedEvents, {
         commandId,
         correlationId,
-        actorUserId: args.appliedByUserId,
+        actorUserId: user._id,
         origin: "ui",
         suggestionId: args.id,
       });
@@ -270,28 +273,29 @@ export const apply = mutation({
     }
     
     // Append events
-    await appendEvents(ctx, suggestion.initiativeId, events, {
+    await appendEvents(ctx, user.workspaceId, suggestion.initiativeId, events, {
       commandId,
       correlationId,
-      actorUserId: args.appliedByUserId,
+      actorUserId: user._id,
       origin: "ui",
       suggestionId: args.id,
     });
     
     // Reload and materialize
-    const { state: newState } = await loadInitiativeState(ctx, suggestion.initiativeId);
+    const { state: newState } = await loadInitiativeState(ctx, user.workspaceId, suggestion.initiativeId);
     await materializeState(ctx, suggestion.initiativeId, newState);
     
     // Update suggestion status
     await ctx.db.patch(args.id, {
       status: "applied" as SuggestionStatus,
       appliedAt: now,
-      appliedByUserId: args.appliedByUserId,
+      appliedByUserId: user._id,
       resultingInitiativeVersion: newState.currentVersion,
     });
     
     // Optionally create a system comment
     await ctx.db.insert("initiativeComments", {
+      workspaceId: user.workspaceId,
       initiativeId: suggestion.initiativeId,
       authorUserId: "system",
       body: `Applied suggestion: ${suggestion.kind}. Changed fields: ${changedFields.join(", ")}`,
@@ -315,14 +319,14 @@ export const dismiss = mutation({
   args: {
     id: v.id("initiativeSuggestions"),
     reason: v.string(),
-    dismissedByUserId: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const commandId = generateUUID();
     const correlationId = generateUUID();
     const now = Date.now();
     
-    const suggestion = await ctx.db.get(args.id);
+    const suggestion = await getOwned(ctx, user.workspaceId, args.id);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -352,10 +356,10 @@ export const dismiss = mutation({
       },
     ];
     
-    await appendEvents(ctx, suggestion.initiativeId, events, {
+    await appendEvents(ctx, user.workspaceId, suggestion.initiativeId, events, {
       commandId,
       correlationId,
-      actorUserId: args.dismissedByUserId,
+      actorUserId: user._id,
       origin: "ui",
       suggestionId: args.id,
     });
@@ -373,7 +377,8 @@ export const get = query({
     id: v.id("initiativeSuggestions"),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    return await getOwned(ctx, user.workspaceId, args.id);
   },
 });
 
@@ -387,10 +392,11 @@ export const listByInitiative = query({
     status: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     let query = ctx.db
       .query("initiativeSuggestions")
-      .withIndex("by_initiativeId_status", (q: any) =>
-        q.eq("initiativeId", args.initiativeId)
+      .withIndex("by_workspaceId_initiativeId_status", (q: any) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.initiativeId)
       );
     
     if (args.status) {
@@ -411,13 +417,18 @@ export const list = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    let query = ctx.db.query("initiativeSuggestions");
-    
-    if (args.status) {
-      query = query.withIndex("by_status", (q: any) => q.eq("status", args.status));
-    }
-    
-    query = query.order("desc");
+    const user = await requireRole(ctx, "viewer");
+    const query = args.status
+      ? ctx.db
+          .query("initiativeSuggestions")
+          .withIndex("by_workspaceId_status", (q) =>
+            q.eq("workspaceId", user.workspaceId).eq("status", args.status as SuggestionStatus)
+          )
+          .order("desc")
+      : ctx.db
+          .query("initiativeSuggestions")
+          .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
+          .order("desc");
     
     if (args.limit) {
       return await query.take(args.limit);
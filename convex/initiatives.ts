@@ -1,10 +1,16 @@
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
 
 // Query to get all initiatives
 export const list = query({
   handler: async (ctx) => {
-    return await ctx.db.query("initiatives").collect();
+    const user = await requireRole(ctx, "viewer");
+    return await ctx.db
+      .query("initiatives")
+      .withIndex("by_workspaceId", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
   },
 });
 
@@ -12,7 +18,8 @@ export const list = query({
 export const get = query({
   args: { id: v.id("initiatives") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    return await getOwned(ctx, user.workspaceId, args.id);
   },
 });
 
@@ -26,7 +33,9 @@ export const create = mutation({
     description: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const initiativeId = await ctx.db.insert("initiatives", {
+      workspaceId: user.workspaceId,
       name: args.name,
       owner: args.owner,
       status: args.status,
@@ -50,8 +59,9 @@ export const update = mutation({
     description: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const { id, ...updates } = args;
-    const existing = await ctx.db.get(id);
+    const existing = await getOwned(ctx, user.workspaceId, id);
     if (!existing) {
       throw new Error("Initiative not found");
     }
@@ -77,6 +87,11 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("initiatives") },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const existing = await getOwned(ctx, user.workspaceId, args.id);
+    if (!existing) {
+      throw new Error("Initiative not found");
+    }
     await ctx.db.delete(args.id);
   },
 });
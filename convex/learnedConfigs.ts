@@ -0,0 +1,286 @@
+import { query, mutation, action, internalAction, internalMutation, internalQuery } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import { proposeLearnedConfig, BASELINE_LEARNED_CONFIG } from "../src/lib/belief-to-initiative-v2/learnedConfig";
+import type { LearnedConfig } from "../src/lib/belief-to-initiative-v2/learnedConfig";
+import type { FeedbackEvent } from "../src/lib/belief-to-initiative/feedbackLoop";
+import { requireRole, requireActionRole } from "./users";
+
+/**
+ * Learned Configs Module
+ *
+ * Closes the belief-to-initiative feedback loop. A daily job runs the
+ * feedbackLoop recommenders over the last N days of beliefFeedbackEvents and
+ * stores the result as a versioned proposal. An admin approves a proposal
+ * (making it the single active config) or rolls the active config back to
+ * the one it replaced. The v2 belief pipeline runs with the active config.
+ * Configs are deployment-wide, learned from every workspace's feedback.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const thresholdsValidator = v.object({
+  min_initiative_match_score: v.number(),
+  min_match_gap: v.number(),
+  ambiguous_match_threshold: v.number(),
+  min_belief_confidence: v.number(),
+  min_impact_level: v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+  max_delta_days: v.number(),
+  max_comment_suggestions_per_initiative_per_meeting: v.number(),
+  max_release_date_suggestions_per_initiative_per_meeting: v.number(),
+  embedding_similarity_threshold: v.number(),
+});
+
+const decisionModelValidator = v.object({
+  T_MIN_CONF_FOR_MUTATION: v.number(),
+  T_MIN_ACT_FOR_MUTATION: v.number(),
+  T_MIN_CONF_FOR_EXECUTION_ELIGIBLE: v.number(),
+  T_MIN_ACT_FOR_EXECUTION_ELIGIBLE: v.number(),
+  T_MAX_CONF_FOR_NEEDS_CLARIFICATION_FALSE: v.number(),
+  T_OVERALL_SCORE_ORDERING_ONLY: v.boolean(),
+});
+
+function toLearnedConfig(row: Doc<"learnedConfigs">): LearnedConfig {
+  return {
+    version: row.version,
+    thresholds: row.thresholds,
+    decision_model: row.decisionModel,
+  };
+}
+
+async function getActiveRow(ctx: QueryCtx): Promise<Doc<"learnedConfigs"> | null> {
+  return await ctx.db
+    .query("learnedConfigs")
+    .withIndex("by_status", (q) => q.eq("status", "active"))
+    .first();
+}
+
+// Active config in the shape executeBeliefToSuggestionPipelineV2 takes
+export const getActiveInternal = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const row = await getActiveRow(ctx);
+    return row ? toLearnedConfig(row) : null;
+  },
+});
+
+// Active config, pending proposal and recent history for the admin view
+export const getOverview = query({
+  args: { limit: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, "viewer");
+    const history = await ctx.db
+      .query("learnedConfigs")
+      .withIndex("by_version")
+      .order("desc")
+      .take(args.limit ?? 20);
+
+    return {
+      active: history.find((row) => row.status === "active") ?? (await getActiveRow(ctx)),
+      proposed: history.find((row) => row.status === "proposed") ?? null,
+      baseline: BASELINE_LEARNED_CONFIG,
+      history,
+    };
+  },
+});
+
+// A workspace's feedback events recorded in [since, until]
+export const listFeedbackWindow = internalQuery({
+  args: { workspaceId: v.id("workspaces"), since: v.number(), until: v.number() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("beliefFeedbackEvents")
+      .withIndex("by_workspaceId_createdAt", (q) =>
+        q.eq("workspaceId", args.workspaceId).gte("createdAt", args.since).lte("createdAt", args.until)
+      )
+      .collect();
+  },
+});
+
+// Store a proposal as the next version; an unapproved earlier proposal is superseded
+export const storeProposal = internalMutation({
+  args: {
+    thresholds: thresholdsValidator,
+    decisionModel: decisionModelValidator,
+    adjustments: v.array(v.object({
+      thresholdName: v.string(),
+      currentValue: v.number(),
+      recommendedValue: v.number(),
+      reason: v.string(),
+      confidence: v.number(),
+    })),
+    patterns: v.array(v.object({
+      patternType: v.string(),
+      pattern: v.string(),
+      scoreAdjustment: v.number(),
+      confidence: v.number(),
+      supportingExamples: v.number(),
+    })),
+    stats: v.object({
+      acceptanceRate: v.number(),
+      dismissalRate: v.number(),
+      editRate: v.number(),
+      totalSuggestions: v.number(),
+    }),
+    validationErrors: v.array(v.string()),
+    eventCount: v.number(),
+    windowStart: v.number(),
+    windowEnd: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const pending = await ctx.db
+      .query("learnedConfigs")
+      .withIndex("by_status", (q) => q.eq("status", "proposed"))
+      .collect();
+    for (const row of pending) {
+      await ctx.db.patch(row._id, { status: "superseded" });
+    }
+
+    const latest = await ctx.db.query("learnedConfigs").withIndex("by_version").order("desc").first();
+    return await ctx.db.insert("learnedConfigs", {
+      ...args,
+      version: (latest?.version ?? 0) + 1,
+      status: "proposed",
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Run the recommenders over the rolling window and store a proposal when
+// the active thresholds would change (scheduled daily in cron.ts)
+export const proposeFromFeedback = internalAction({
+  args: { windowDays: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const windowDays = args.windowDays ?? 30;
+    const windowEnd = Date.now();
+    const windowStart = windowEnd - windowDays * DAY_MS;
+
+    const rows = [];
+    const workspaceIds = await ctx.runQuery(internal.workspaces.listIdsInternal, {});
+    for (const workspaceId of workspaceIds) {
+      rows.push(
+        ...(await ctx.runQuery(internal.learnedConfigs.listFeedbackWindow, {
+          workspaceId,
+          since: windowStart,
+          until: windowEnd,
+        }))
+      );
+    }
+    const events: FeedbackEvent[] = rows.map((row) => ({
+      suggestion_id: row.suggestionId,
+      action: row.action,
+      timestamp: new Date(row.createdAt).toISOString(),
+      user_id: row.userId,
+      dismiss_reason: row.dismissReason as FeedbackEvent["dismiss_reason"],
+      edit_type: row.editType,
+      time_to_action_seconds: row.timeToActionSeconds,
+      suggestion_action: row.suggestionAction,
+      suggestion_status: row.suggestionStatus,
+      suggestion_text: row.suggestionText,
+    }));
+
+    const active = await ctx.runQuery(internal.learnedConfigs.getActiveInternal, {});
+    const proposal = proposeLearnedConfig(events, active ?? BASELINE_LEARNED_CONFIG);
+    if (!proposal || !proposal.changed) {
+      return { proposed: false, eventCount: events.length };
+    }
+
+    const id = await ctx.runMutation(internal.learnedConfigs.storeProposal, {
+      thresholds: proposal.thresholds,
+      decisionModel: proposal.decision_model,
+      adjustments: proposal.adjustments.map((a) => ({
+        thresholdName: a.threshold_name,
+        currentValue: a.current_value,
+        recommendedValue: a.recommended_value,
+        reason: a.reason,
+        confidence: a.confidence,
+      })),
+      patterns: proposal.patterns.map((p) => ({
+        patternType: p.pattern_type,
+        pattern: p.pattern,
+        scoreAdjustment: p.score_adjustment,
+        confidence: p.confidence,
+        supportingExamples: p.supporting_examples,
+      })),
+      stats: {
+        acceptanceRate: proposal.stats.acceptance_rate,
+        dismissalRate: proposal.stats.dismissal_rate,
+        editRate: proposal.stats.edit_rate,
+        totalSuggestions: proposal.stats.total_suggestions,
+      },
+      validationErrors: proposal.validation_errors,
+      eventCount: proposal.event_count,
+      windowStart,
+      windowEnd,
+    });
+
+    return { proposed: true, eventCount: events.length, id };
+  },
+});
+
+// Run the proposal job now (admin view)
+export const proposeNow = action({
+  args: { windowDays: v.optional(v.number()) },
+  handler: async (ctx, args): Promise<{ proposed: boolean; eventCount: number }> => {
+    await requireActionRole(ctx, "admin");
+    return await ctx.runAction(internal.learnedConfigs.proposeFromFeedback, args);
+  },
+});
+
+// Make a proposal the active config; the previous active config is retired
+export const approve = mutation({
+  args: {
+    id: v.id("learnedConfigs"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "admin");
+    const proposal = await ctx.db.get(args.id);
+    if (!proposal) {
+      throw new Error("Learned config not found");
+    }
+    if (proposal.status !== "proposed") {
+      throw new Error(`Learned config v${proposal.version} is ${proposal.status}, not proposed`);
+    }
+    if (proposal.validationErrors.length > 0) {
+      throw new Error(`Learned config v${proposal.version} failed validation: ${proposal.validationErrors[0]}`);
+    }
+
+    const now = Date.now();
+    const active = await getActiveRow(ctx);
+    if (active) {
+      await ctx.db.patch(active._id, { status: "retired", deactivatedAt: now });
+    }
+    await ctx.db.patch(args.id, {
+      status: "active",
+      activatedAt: now,
+      approvedBy: user._id,
+      previousActiveId: active?._id,
+    });
+
+    return { version: proposal.version };
+  },
+});
+
+// Roll the active config back to the one it replaced (or to the defaults)
+export const rollback = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, "admin");
+    const active = await getActiveRow(ctx);
+    if (!active) {
+      throw new Error("No active learned config");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(active._id, { status: "rolled_back", deactivatedAt: now });
+
+    const previous = active.previousActiveId ? await ctx.db.get(active.previousActiveId) : null;
+    if (previous) {
+      await ctx.db.patch(previous._id, { status: "active", activatedAt: now, deactivatedAt: undefined });
+    }
+
+    return { rolledBack: active.version, restored: previous?.version ?? null };
+  },
+});
@@ -0,0 +1,66 @@
+/**
+ * LLM provider configuration for suggestion engine actions.
+ *
+ * Set LLM_BASE_URL and LLM_MODEL in the deployment environment to classify
+ * section intent with an OpenAI-compatible endpoint (a hosted model, or a
+ * local llama.cpp / Ollama server during development). LLM_API_KEY and
+ * LLM_TOKEN_BUDGET are optional; LLM_REWRITE=true also rewrites titles and
+ * bodies (grounded rewrites only). Without LLM_BASE_URL the engine stays
+ * rule-based.
+ *
+ * Only call from actions: the provider makes HTTP requests.
+ */
+
+import {
+  OpenAICompatibleProvider,
+  registerLLMProvider,
+  unregisterLLMProvider,
+  DEFAULT_LLM_TOKEN_BUDGET,
+} from "../src/lib/suggestion-engine-v2";
+
+export const LLM_PROVIDER_NAME = "openai-compatible";
+
+let registeredKey: string | null = null;
+
+/**
+ * Context and config fields that enable LLM classification for one run.
+ * Spread them into the generateSuggestionsAsync / ...WithDebugAsync args.
+ */
+export function getLLMEngineOptions(): {
+  context: { llm_model?: string };
+  config: { use_llm_classifiers: boolean; use_llm_rewrite: boolean; llm_token_budget: number };
+} {
+  const baseUrl = process.env.LLM_BASE_URL;
+  const model = process.env.LLM_MODEL;
+  const tokenBudget = Number(process.env.LLM_TOKEN_BUDGET) || DEFAULT_LLM_TOKEN_BUDGET;
+
+  if (!baseUrl || !model) {
+    if (registeredKey) {
+      unregisterLLMProvider(LLM_PROVIDER_NAME);
+      registeredKey = null;
+    }
+    return {
+      context: {},
+      config: { use_llm_classifiers: false, use_llm_rewrite: false, llm_token_budget: tokenBudget },
+    };
+  }
+
+  // Re-register only when the endpoint changes, so the response cache survives
+  const key = `${baseUrl}|${model}`;
+  if (registeredKey !== key) {
+    registerLLMProvider(
+      LLM_PROVIDER_NAME,
+      new OpenAICompatibleProvider({ base_url: baseUrl, model, api_key: process.env.LLM_API_KEY })
+    );
+    registeredKey = key;
+  }
+
+  return {
+    context: { llm_model: LLM_PROVIDER_NAME },
+    config: {
+      use_llm_classifiers: true,
+      use_llm_rewrite: process.env.LLM_REWRITE === "true",
+      llm_token_budget: tokenBudget,
+    },
+  };
+}
@@ -6,10 +6,14 @@
  * - Queries (get, list, time-travel reads)
  * - Event appending and idempotency
  * - Materialized view updates
+ *
+ * Event streams, sequences and slugs are per workspace: the helpers take
+ * the workspace and only read and write its events.
  */
 
 import { v } from "convex/values";
 import { mutation, query, internalMutation, internalQuery } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
 import {
   InitiativeEvent,
@@ -26,6 +30,8 @@ import {
   InitiativeStatusChangedPayload,
   ReleaseDateChangedPayload,
 } from "./initiativeEventStore";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
 
 // ============================================
 // Helper: Generate UUIDs
@@ -41,12 +47,13 @@ function generateUUID(): string {
 
 async function loadInitiativeState(
   ctx: any,
+  workspaceId: Id<"workspaces">,
   initiativeId: Id<"newInitiatives">
 ): Promise<{ state: InitiativeState; events: any[] }> {
   const events = await ctx.db
     .query("initiativeEvents")
-    .withIndex("by_initiativeId_sequence", (q: any) => 
-      q.eq("initiativeId", initiativeId)
+    .withIndex("by_workspaceId_initiativeId_sequence", (q: any) =>
+      q.eq("workspaceId", workspaceId).eq("initiativeId", initiativeId)
     )
     .collect();
   
@@ -63,7 +70,8 @@ async function loadInitiativeState(
 // ============================================
 
 async function appendEvents(
-  ctx: any,
+  ctx: MutationCtx,
+  workspaceId: Id<"workspaces">,
   initiativeId: Id<"newInitiatives"> | undefined,
   events: Omit<InitiativeEvent, "id" | "globalSequence" | "sequence">[],
   options: {
@@ -76,10 +84,10 @@ async function appendEvents(
 ): Promise<Id<"initiativeEvents">[]> {
   const eventIds: Id<"initiativeEvents">[] = [];
   
-  // Get next global sequence
+  // Get next workspace-wide sequence
   const lastGlobalEvent = await ctx.db
     .query("initiativeEvents")
-    .withIndex("by_globalSequence")
+    .withIndex("by_workspaceId_globalSequence", (q) => q.eq("workspaceId", workspaceId))
     .order("desc")
     .first();
   
@@ -90,8 +98,8 @@ async function appendEvents(
   if (initiativeId) {
     const lastEvent = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_initiativeId_sequence", (q: any) =>
-        q.eq("initiativeId", initiativeId)
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", workspaceId).eq("initiativeId", initiativeId)
       )
       .order("desc")
       .first();
@@ -102,6 +110,7 @@ async function appendEvents(
   // Append events
   for (const event of events) {
     const eventId = await ctx.db.insert("initiativeEvents", {
+      workspaceId,
       initiativeId,
       sequence: nextSeq++,
       globalSequence: nextGlobalSeq++,
@@ -179,9 +188,9 @@ export const create = mutation({
     title: v.string(),
     description: v.string(),
     ownerUserId: v.optional(v.string()),
-    actorUserId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const commandId = generateUUID();
     const correlationId = generateUUID();
     const now = Date.now();
@@ -189,7 +198,7 @@ export const create = mutation({
     // Check slug uniqueness
     const existing = await ctx.db
       .query("newInitiatives")
-      .withIndex("by_slug", (q) => q.eq("slug", args.slug))
+      .withIndex("by_workspaceId_slug", (q) => q.eq("workspaceId", user.workspaceId).eq("slug", args.slug))
       .first();
     
     if (existing) {
@@ -198,6 +207,7 @@ export const create = mutation({
     
     // Create initiative record (empty shell for ID)
     const initiativeId = await ctx.db.insert("newInitiatives", {
+      workspaceId: user.workspaceId,
       slug: args.slug,
       title: args.title,
       description: args.description,
@@ -228,15 +238,15 @@ export const create = mutation({
     ];
     
     // Append events
-    await appendEvents(ctx, initiativeId, events, {
+    await appendEvents(ctx, user.workspaceId, initiativeId, events, {
       commandId,
       correlationId,
-      actorUserId: args.actorUserId,
+      actorUserId: user._id,
       origin: "ui",
     });
     
     // Reload state and materialize
-    const { state } = await loadInitiativeState(ctx, initiativeId);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, initiativeId);
     await materializeState(ctx, initiativeId, state);
     
     return initiativeId;
@@ -251,15 +261,15 @@ export const updateFields = mutation({
   args: {
     id: v.id("newInitiatives"),
     fields: v.any(), // Map of field -> value
-    actorUserId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const commandId = generateUUID();
     const correlationId = generateUUID();
     const now = Date.now();
     
     // Load current state
-    const { state } = await loadInitiativeState(ctx, args.id);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, args.id);
     
     // Build field update events
     const events: Omit<InitiativeEvent, "id" | "globalSequence" | "sequence">[] = [];
@@ -291,15 +301,15 @@ export const updateFields = mutation({
     }
     
     // Append events
-    await appendEvents(ctx, args.id, events, {
+    await appendEvents(ctx, user.workspaceId, args.id, events, {
       commandId,
       correlationId,
-      actorUserId: args.actorUserId,
+      actorUserId: user._id,
       origin: "ui",
     });
     
     // Reload and materialize
-    const { state: newState } = await loadInitiativeState(ctx, args.id);
+    const { state: newState } = await loadInitiativeState(ctx, user.workspaceId, args.id);
     await materializeState(ctx, args.id, newState);
     
     return { changed: true, version: newState.currentVersion };
@@ -315,15 +325,15 @@ export const changeStatus = mutation({
     id: v.id("newInitiatives"),
     newStatus: v.string(), // InitiativeStatus
     reason: v.optional(v.string()),
-    actorUserId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const commandId = generateUUID();
     const correlationId = generateUUID();
     const now = Date.now();
     
     // Load current state
-    const { state } = await loadInitiativeState(ctx, args.id);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, args.id);
     
     // Validate transition
     const newStatus = args.newStatus as InitiativeStatus;
@@ -349,15 +359,15 @@ export const changeStatus = mutation({
     ];
     
     // Append events
-    await appendEvents(ctx, args.id, events, {
+    await appendEvents(ctx, user.workspaceId, args.id, events, {
       commandId,
       correlationId,
-      actorUserId: args.actorUserId,
+      actorUserId: user._id,
       origin: "ui",
     });
     
     // Reload and materialize
-    const { state: newState } = await loadInitiativeState(ctx, args.id);
+    const { state: newState } = await loadInitiativeState(ctx, user.workspaceId, args.id);
     await materializeState(ctx, args.id, newState);
     
     return { version: newState.currentVersion, status: newState.status };
@@ -373,15 +383,15 @@ export const updateReleaseDate = mutation({
     id: v.id("newInitiatives"),
     dateType: v.union(v.literal("target"), v.literal("windowStart"), v.literal("windowEnd")),
     newDate: v.optional(v.number()),
-    actorUserId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const commandId = generateUUID();
     const correlationId = generateUUID();
     const now = Date.now();
     
     // Load current state
-    const { state } = await loadInitiativeState(ctx, args.id);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, args.id);
     
     // Get old date
     let oldDate: number | null = null;
@@ -416,15 +426,15 @@ export const updateReleaseDate = mutation({
     ];
     
     // Append events
-    await appendEvents(ctx, args.id, events, {
+    await appendEvents(ctx, user.workspaceId, args.id, events, {
       commandId,
       correlationId,
-      actorUserId: args.actorUserId,
+      actorUserId: user._id,
       origin: "ui",
     });
     
     // Reload and materialize
-    const { state: newState } = await loadInitiativeState(ctx, args.id);
+    const { state: newState } = await loadInitiativeState(ctx, user.workspaceId, args.id);
     await materializeState(ctx, args.id, newState);
     
     return { changed: true, version: newState.currentVersion };
@@ -441,14 +451,14 @@ export const get = query({
     asOfVersion: v.optional(v.number()), // Time-travel read
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     if (args.asOfVersion !== undefined) {
       // Time-travel read: fold events up to version
       const events = await ctx.db
         .query("initiativeEvents")
-        .withIndex("by_initiativeId_sequence", (q) =>
-          q.eq("initiativeId", args.id)
+        .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+          q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.id).lte("sequence", args.asOfVersion!)
         )
-        .filter((q) => q.lte(q.field("sequence"), args.asOfVersion!))
         .collect();
       
       const state = foldEvents(events);
@@ -456,7 +466,7 @@ export const get = query({
     }
     
     // Current state: read from materialized view
-    return await ctx.db.get(args.id);
+    return await getOwned(ctx, user.workspaceId, args.id);
   },
 });
 
@@ -470,15 +480,15 @@ export const list = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    let query = ctx.db.query("newInitiatives");
-    
-    if (args.status) {
-      query = query.withIndex("by_status", (q) =>
-        q.eq("status", args.status as any)
-      );
-    }
-    
-    query = query.order("desc");
+    const user = await requireRole(ctx, "viewer");
+    const initiatives = ctx.db.query("newInitiatives");
+    const query = (
+      args.status
+        ? initiatives.withIndex("by_workspaceId_status", (q) =>
+            q.eq("workspaceId", user.workspaceId).eq("status", args.status as any)
+          )
+        : initiatives.withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
+    ).order("desc");
     
     if (args.limit) {
       return await query.take(args.limit);
@@ -499,10 +509,11 @@ export const getEvents = query({
     toSequence: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     let query = ctx.db
       .query("initiativeEvents")
-      .withIndex("by_initiativeId_sequence", (q) =>
-        q.eq("initiativeId", args.id)
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.id)
       );
     
     if (args.fromSequence !== undefined) {
@@ -523,12 +534,15 @@ export const getEvents = query({
 
 export const checkCommandIdempotency = internalQuery({
   args: {
+    workspaceId: v.id("workspaces"),
     commandId: v.string(),
   },
   handler: async (ctx, args) => {
     const existingEvent = await ctx.db
       .query("initiativeEvents")
-      .withIndex("by_commandId", (q) => q.eq("commandId", args.commandId))
+      .withIndex("by_workspaceId_commandId", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("commandId", args.commandId)
+      )
       .first();
     
     return existingEvent ? { exists: true, eventId: existingEvent._id } : { exists: false };
@@ -0,0 +1,190 @@
+import { internalAction } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  DEFAULT_CONFIG,
+  generateSuggestionsAsync,
+  adaptConvexNote,
+  adaptConvexInitiative,
+  extractDecisionRecords,
+  applyDecisionEmbeddingRouting,
+  extractNoteAssertions,
+} from "../src/lib/suggestion-engine-v2";
+import type { GeneratorConfig, GeneratorContext, Suggestion as EngineSuggestion } from "../src/lib/suggestion-engine-v2";
+import { getLLMEngineOptions } from "./llmProvider";
+import { toEngineFeatureFlags } from "../src/lib/feature-flags";
+import { toEditableSuggestion } from "../src/lib/suggestion-edits";
+import { remapSuggestionKeys } from "../src/lib/suggestion-keys";
+import type { KeyedSuggestionSnapshot } from "../src/lib/suggestion-keys";
+import { applyWorkspaceThresholds, filterEnabledSuggestions } from "../src/lib/workspace-config";
+
+/**
+ * Note Analysis Module
+ *
+ * Records derived from a note's engine output, saved whenever the note is
+ * generated, regenerated or imported (suggestions.generate / regenerate and
+ * noteImport.importFiles schedule `analyze`):
+ *
+ * - suggestion snapshots for cross-note clusters (suggestionClusters.ts)
+ * - decision records for the initiative decision log (decisionRecords.ts)
+ * - initiative assertions for contradiction checks (noteAssertions.ts)
+ * - decisions stored under keys the run no longer produces are moved to
+ *   the matching current suggestion (suggestionDecisions.remapKeys)
+ *
+ * Reading a note (notes.getWithComputedSuggestions) only reads them.
+ */
+
+// What key remapping and cross-note snapshots need from an engine suggestion
+export function toKeyedSnapshot(s: EngineSuggestion): KeyedSuggestionSnapshot {
+  return {
+    suggestionKey: s.suggestionKey,
+    legacySuggestionKey: s.legacySuggestionKey,
+    type: s.type,
+    title: s.title,
+    evidenceText: s.evidence_spans.map((span) => span.text).join("\n"),
+  };
+}
+
+// Rerun the engine on a note and replace its derived records
+export const analyze = internalAction({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const { workspaceId, noteId } = args;
+    const note: Doc<"notes"> | null = await ctx.runQuery(internal.notes.getInternal, { workspaceId, id: noteId });
+    if (!note || note.isDeleted) return;
+
+    const v0Initiatives = await ctx.runQuery(internal.suggestions.listV0InitiativesInternal, { workspaceId });
+    const workspaceConfig = await ctx.runQuery(internal.workspaces.getEngineConfigInternal, { workspaceId });
+    const flags = await ctx.runQuery(internal.featureFlags.evaluateInternal, { workspaceId, noteId });
+    const llm = getLLMEngineOptions();
+
+    // Same context and config as suggestions.generate
+    const engineNote = adaptConvexNote({
+      _id: note._id,
+      body: note.body,
+      createdAt: note.createdAt,
+      title: note.title,
+      source: note.source,
+      importFileType: note.importFileType,
+      meetingAt: note.meetingAt,
+    });
+    const engineContext: GeneratorContext = {
+      initiatives: v0Initiatives.map(adaptConvexInitiative),
+      embedding_model: "local",
+      ...llm.context,
+      feature_flags: toEngineFeatureFlags(flags),
+    };
+    const engineConfig: Partial<GeneratorConfig> = {
+      ...llm.config,
+      embedding_enabled: true,
+      thresholds: applyWorkspaceThresholds({
+        ...DEFAULT_CONFIG.thresholds,
+        T_overall_min: 0.65,
+        T_section_min: 0.6,
+      }, workspaceConfig),
+    };
+    const result = await generateSuggestionsAsync(engineNote, engineContext, engineConfig);
+    const current = filterEnabledSuggestions(result.suggestions, workspaceConfig);
+    const currentKeyed = current.map(toKeyedSnapshot);
+    const notedAt = note.meetingAt ?? note.capturedAt;
+
+    // Carry decisions stored under keys this run no longer produces (v1 keys,
+    // reworded suggestions) over to the matching current suggestion. Runs
+    // before the snapshots are replaced, since matching needs the old ones.
+    const storedDecisions: Doc<"suggestionDecisions">[] = await ctx.runQuery(
+      internal.suggestionDecisions.listByNoteInternal,
+      { workspaceId, noteId }
+    );
+    const currentKeys = new Set(currentKeyed.map((s) => s.suggestionKey));
+    if (storedDecisions.some((d) => !currentKeys.has(d.suggestionKey))) {
+      const previousSnapshots = await ctx.runQuery(internal.suggestionClusters.listNoteSnapshots, {
+        workspaceId,
+        noteId,
+      });
+      const remaps = remapSuggestionKeys(
+        storedDecisions.map((d) => d.suggestionKey),
+        previousSnapshots.map((p) => ({
+          suggestionKey: p.suggestionKey,
+          type: p.suggestionType,
+          title: p.title,
+          evidenceText: p.evidenceText,
+        })),
+        currentKeyed,
+      );
+      if (remaps.size > 0) {
+        await ctx.runMutation(internal.suggestionDecisions.remapKeys, {
+          workspaceId,
+          noteId,
+          remaps: [...remaps].map(([from, to]) => ({ from, to })),
+        });
+      }
+    }
+
+    // Snapshot the full engine output so other notes can cluster against it
+    await ctx.runMutation(internal.suggestionClusters.replaceNoteSnapshots, {
+      workspaceId,
+      noteId,
+      notedAt,
+      suggestions: currentKeyed.map((s, i) => ({
+        suggestionKey: s.suggestionKey,
+        suggestionType: s.type,
+        title: s.title,
+        evidenceText: s.evidenceText,
+        editable: toEditableSuggestion(current[i]),
+      })),
+    });
+
+    // Decision records for the initiative decision log (same routing as suggestions)
+    const decisionRecords = await applyDecisionEmbeddingRouting(
+      extractDecisionRecords(engineNote, engineContext),
+      engineContext,
+      { embedding_enabled: true },
+    );
+    await ctx.runMutation(internal.decisionRecords.replaceNoteDecisions, {
+      workspaceId,
+      noteId,
+      decidedAt: notedAt,
+      decisions: decisionRecords.map((d) => ({
+        decisionKey: d.decisionKey,
+        statement: d.statement,
+        rationale: d.rationale,
+        alternatives: d.alternatives,
+        participants: d.participants,
+        sectionHeading: d.section_heading,
+        evidence: d.evidence_spans.map((span) => ({
+          startLine: span.start_line,
+          endLine: span.end_line,
+          text: span.text,
+        })),
+        confidence: d.confidence,
+        initiativeId: d.routing.attached_initiative_id as Id<"v0Initiatives"> | undefined,
+        routingSimilarity: d.routing.attached_initiative_id ? d.routing.similarity : undefined,
+      })),
+    });
+
+    // What this note asserts about its initiatives, for contradiction checks
+    const noteAssertions = await extractNoteAssertions(engineNote, engineContext, { embedding_enabled: true });
+    await ctx.runMutation(internal.noteAssertions.replaceNoteAssertions, {
+      workspaceId,
+      noteId,
+      notedAt,
+      assertions: noteAssertions.map((a) => ({
+        initiativeId: a.initiative_id as Id<"v0Initiatives">,
+        dimension: a.dimension,
+        value: a.value,
+        qualifier: a.qualifier,
+        label: a.label,
+        isChange: a.is_change,
+        previous: a.previous,
+        startLine: a.evidence.start_line,
+        endLine: a.evidence.end_line,
+        text: a.evidence.text,
+        routingSimilarity: a.routing_similarity,
+      })),
+    });
+  },
+});
@@ -0,0 +1,142 @@
+import { internalMutation, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import type { Id } from "./_generated/dataModel";
+import { getOwned } from "./workspaces";
+
+/**
+ * Note Assertions Module
+ *
+ * What each note states about an initiative's timeline, scope, ownership and
+ * status (extracted by contradictions.ts). Each engine run replaces the
+ * note's assertions; later notes are checked against the latest earlier
+ * assertion per initiative and dimension, and against the initiative's
+ * recorded state.
+ */
+
+const dimensionValidator = v.union(
+  v.literal("timeline"),
+  v.literal("scope"),
+  v.literal("ownership"),
+  v.literal("status")
+);
+
+const assertionInputValidator = v.object({
+  initiativeId: v.id("v0Initiatives"),
+  dimension: dimensionValidator,
+  value: v.string(),
+  qualifier: v.optional(v.string()),
+  label: v.string(),
+  isChange: v.boolean(),
+  previous: v.optional(v.object({
+    value: v.string(),
+    qualifier: v.optional(v.string()),
+    label: v.string(),
+  })),
+  startLine: v.number(),
+  endLine: v.number(),
+  text: v.string(),
+  routingSimilarity: v.optional(v.number()),
+});
+
+// Replace a note's assertions with its latest engine output
+export const replaceNoteAssertions = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+    notedAt: v.number(),
+    assertions: v.array(assertionInputValidator),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("noteAssertions")
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId)
+      )
+      .collect();
+    for (const row of existing) {
+      await ctx.db.delete(row._id);
+    }
+
+    const now = Date.now();
+    for (const assertion of args.assertions) {
+      await ctx.db.insert("noteAssertions", {
+        workspaceId: args.workspaceId,
+        noteId: args.noteId,
+        notedAt: args.notedAt,
+        createdAt: now,
+        ...assertion,
+      });
+    }
+  },
+});
+
+// Assertions from other, non-deleted notes taken before `notedAt`
+export const listEarlier = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+    notedAt: v.number(),
+    initiativeIds: v.array(v.id("v0Initiatives")),
+  },
+  handler: async (ctx, args) => {
+    const noteTitles = new Map<Id<"notes">, string | undefined>();
+    const deleted = new Set<Id<"notes">>();
+    const results = [];
+
+    for (const initiativeId of new Set(args.initiativeIds)) {
+      const rows = await ctx.db
+        .query("noteAssertions")
+        .withIndex("by_workspaceId_initiativeId_notedAt", (q) =>
+          q.eq("workspaceId", args.workspaceId).eq("initiativeId", initiativeId).lt("notedAt", args.notedAt)
+        )
+        .collect();
+
+      for (const row of rows) {
+        if (row.noteId === args.noteId || deleted.has(row.noteId)) continue;
+        if (!noteTitles.has(row.noteId)) {
+          const note = await ctx.db.get(row.noteId);
+          if (!note || note.isDeleted) {
+            deleted.add(row.noteId);
+            continue;
+          }
+          noteTitles.set(row.noteId, note.title);
+        }
+        results.push({ ...row, noteTitle: noteTitles.get(row.noteId) });
+      }
+    }
+
+    return results;
+  },
+});
+
+// Recorded state of v0 initiatives, from their event-sourced records when linked
+export const getInitiativeStates = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    initiativeIds: v.array(v.id("v0Initiatives")),
+  },
+  handler: async (ctx, args) => {
+    const states = [];
+    for (const initiativeId of new Set(args.initiativeIds)) {
+      const v0Initiative = await getOwned(ctx, args.workspaceId, initiativeId);
+      if (!v0Initiative) continue;
+
+      const linked = await ctx.db
+        .query("newInitiatives")
+        .withIndex("by_workspaceId_v0InitiativeId", (q) =>
+          q.eq("workspaceId", args.workspaceId).eq("v0InitiativeId", initiativeId)
+        )
+        .first();
+
+      states.push({
+        initiativeId,
+        title: v0Initiative.title,
+        releaseTargetDate: linked?.releaseTargetDate,
+        ownerUserId: linked?.ownerUserId,
+        status: linked?.status ?? (v0Initiative.status === "done" ? "completed" : undefined),
+        scope: linked?.scope,
+      });
+    }
+    return states;
+  },
+});
@@ -0,0 +1,166 @@
+/**
+ * Note Import
+ *
+ * Bulk import of exported meeting notes (.md, .txt, .html, .vtt, .srt).
+ * Parsing lives in src/lib/note-import.ts; this module persists the parsed
+ * notes with source "file_import", skips files whose body matches an
+ * existing note (computeNoteHash, then the normalized body) and schedules
+ * note analysis (noteAnalysis.ts) for each imported note.
+ *
+ * Notes created before contentHash existed are hashed once by
+ * backfillContentHashes; until then imports do not see them as duplicates.
+ */
+
+import { v } from "convex/values";
+import { action, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { parseImportFile, NoteImportError } from "../src/lib/note-import";
+import { computeNoteHash } from "../src/lib/suggestion-engine-v2/noteHash";
+import { requireActionRole } from "./users";
+
+const importFileTypeValidator = v.union(
+  v.literal("md"),
+  v.literal("txt"),
+  v.literal("html"),
+  v.literal("vtt"),
+  v.literal("srt")
+);
+
+// Notes hashed per backfillContentHashes call, to stay inside mutation limits
+const BACKFILL_BATCH_SIZE = 500;
+
+// Line endings and surrounding whitespace do not make a note different
+function normalizeBody(body: string): string {
+  return body.replace(/\r\n?/g, "\n").trim();
+}
+
+// Per-file import outcome returned to the upload UI
+type ImportFileResult =
+  | { fileName: string; status: "imported"; noteId: string; meetingAtSource?: string }
+  | { fileName: string; status: "duplicate"; noteId: string }
+  | { fileName: string; status: "failed"; error: string };
+
+// Action: parse and import a batch of files
+// Files are processed sequentially so duplicates within the same batch are caught.
+export const importFiles = action({
+  args: {
+    files: v.array(
+      v.object({
+        fileName: v.string(),
+        content: v.string(),
+        lastModified: v.optional(v.number()),
+      })
+    ),
+  },
+  handler: async (ctx, args): Promise<ImportFileResult[]> => {
+    const user = await requireActionRole(ctx, "editor");
+    const results: ImportFileResult[] = [];
+
+    for (const file of args.files) {
+      let parsed;
+      try {
+        parsed = parseImportFile(file);
+      } catch (error) {
+        if (!(error instanceof NoteImportError)) throw error;
+        results.push({ fileName: file.fileName, status: "failed", error: error.message });
+        continue;
+      }
+
+      const outcome = await ctx.runMutation(internal.noteImport.insertImportedNote, {
+        workspaceId: user.workspaceId,
+        title: parsed.title,
+        body: parsed.body,
+        meetingAt: parsed.meetingAt,
+        importFileName: file.fileName,
+        importFileType: parsed.fileType,
+        createdByUserId: user._id,
+        teamId: user.teamId,
+      });
+
+      // Snapshots, decision records and assertions, as after generation
+      if (!outcome.duplicate) {
+        await ctx.scheduler.runAfter(0, internal.noteAnalysis.analyze, {
+          workspaceId: user.workspaceId,
+          noteId: outcome.noteId,
+        });
+      }
+
+      results.push(
+        outcome.duplicate
+          ? { fileName: file.fileName, status: "duplicate", noteId: outcome.noteId }
+          : {
+              fileName: file.fileName,
+              status: "imported",
+              noteId: outcome.noteId,
+              meetingAtSource: parsed.meetingAtSource,
+            }
+      );
+    }
+
+    return results;
+  },
+});
+
+// Internal mutation: insert an imported note unless an active note in the
+// workspace has the same body. The 32-bit hash only narrows the candidates.
+export const insertImportedNote = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    title: v.string(),
+    body: v.string(),
+    meetingAt: v.optional(v.number()),
+    importFileName: v.string(),
+    importFileType: importFileTypeValidator,
+    createdByUserId: v.id("users"),
+    teamId: v.optional(v.id("teams")),
+  },
+  handler: async (ctx, args) => {
+    const contentHash = computeNoteHash(args.body);
+
+    const hashed = await ctx.db
+      .query("notes")
+      .withIndex("by_workspaceId_contentHash", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("contentHash", contentHash)
+      )
+      .collect();
+    const body = normalizeBody(args.body);
+    const existing = hashed.find((note) => note.isDeleted !== true && normalizeBody(note.body) === body);
+    if (existing) {
+      return { duplicate: true, noteId: existing._id };
+    }
+
+    const now = Date.now();
+    const noteId = await ctx.db.insert("notes", {
+      workspaceId: args.workspaceId,
+      title: args.title,
+      body: args.body,
+      source: "file_import",
+      capturedAt: now,
+      meetingAt: args.meetingAt,
+      createdAt: now,
+      updatedAt: now,
+      contentHash,
+      importFileName: args.importFileName,
+      importFileType: args.importFileType,
+      createdByUserId: args.createdByUserId,
+      teamId: args.teamId,
+    });
+    return { duplicate: false, noteId };
+  },
+});
+
+// Internal mutation (one-off): hash notes created before contentHash existed.
+// Run until done is true: npx convex run noteImport:backfillContentHashes
+export const backfillContentHashes = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const legacy = await ctx.db
+      .query("notes")
+      .filter((q) => q.eq(q.field("contentHash"), undefined))
+      .take(BACKFILL_BATCH_SIZE);
+    for (const note of legacy) {
+      await ctx.db.patch(note._id, { contentHash: computeNoteHash(note.body) });
+    }
+    return { hashed: legacy.length, done: legacy.length < BACKFILL_BATCH_SIZE };
+  },
+});
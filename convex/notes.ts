@@ -1,14 +1,24 @@
-import { query, mutation, action, internalQuery } from "./_generated/server";
+import { query, mutation, action, internalQuery, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { removeNoteBeliefs } from "./beliefs";
+import { computeNoteHash } from "../src/lib/suggestion-engine-v2/noteHash";
+import { toEngineFeatureFlags } from "../src/lib/feature-flags";
+import { applyWorkspaceThresholds, filterEnabledSuggestions } from "../src/lib/workspace-config";
+import { remapSuggestionKeys } from "../src/lib/suggestion-keys";
+import { requireRole, requireActionRole } from "./users";
+import { getOwned } from "./workspaces";
+import { toKeyedSnapshot } from "./noteAnalysis";
 
 // Query to get all notes with suggestion counts
 // v0-correct: Excludes soft-deleted notes by default
 export const list = query({
   handler: async (ctx) => {
+    const user = await requireRole(ctx, "viewer");
     const notes = await ctx.db
       .query("notes")
-      .withIndex("by_isDeleted", (q) => q.eq("isDeleted", undefined))
+      .withIndex("by_workspaceId_isDeleted", (q) => q.eq("workspaceId", user.workspaceId).eq("isDeleted", undefined))
       .order("desc")
       .collect();
     
@@ -18,14 +28,14 @@ export const list = query({
         // v0-correct: Exclude invalidated suggestions from counts
         const suggestions = await ctx.db
           .query("suggestions")
-          .withIndex("by_noteId", (q) => q.eq("noteId", note._id))
+          .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", note._id))
           .filter((q) => q.neq(q.field("invalidatedByNoteDeletion"), true))
           .collect();
         
         // v0-correct: Exclude invalidated events from counts
         const events = await ctx.db
           .query("suggestionEvents")
-          .withIndex("by_noteId", (q) => q.eq("noteId", note._id))
+          .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", note._id))
           .filter((q) => q.neq(q.field("excludeFromMetrics"), true))
           .collect();
         
@@ -49,7 +59,8 @@ export const list = query({
 export const get = query({
   args: { id: v.id("notes") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    return await getOwned(ctx, user.workspaceId, args.id);
   },
 });
 
@@ -57,12 +68,13 @@ export const get = query({
 export const getWithSuggestions = query({
   args: { id: v.id("notes") },
   handler: async (ctx, args) => {
-    const note = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    const note = await getOwned(ctx, user.workspaceId, args.id);
     if (!note) return null;
 
     const suggestions = await ctx.db
       .query("suggestions")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.id))
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
       .collect();
 
     return {
@@ -84,34 +96,68 @@ export const getWithSuggestions = query({
 export const getWithComputedSuggestions = action({
   args: { id: v.id("notes") },
   handler: async (ctx, args) => {
+    const { workspaceId } = await requireActionRole(ctx, "viewer");
     // Get note from database
-    const note = await ctx.runQuery(api.notes.getInternal, { id: args.id });
+    const note = await ctx.runQuery(internal.notes.getInternal, { workspaceId, id: args.id });
     if (!note) return null;
 
     // Dynamically import suggestion engine (only works in actions)
     const {
-      generateSuggestionsWithDebug: generateSuggestionsWithDebugImport,
+      generateSuggestionsWithDebugAsync: generateSuggestionsWithDebugAsyncImport,
       adaptConvexNote: adaptConvexNoteImport,
+      adaptConvexInitiative: adaptConvexInitiativeImport,
+      applyEmbeddingRouting: applyEmbeddingRoutingImport,
+      applyCrossNoteClusters: applyCrossNoteClustersImport,
       computeNoteHash: computeNoteHashImport,
+      extractNoteAssertions: extractNoteAssertionsImport,
+      detectConflicts: detectConflictsImport,
+      DEFAULT_CONFIG: defaultConfigImport,
     } = await import("../src/lib/suggestion-engine-v2");
 
+    const { getLLMEngineOptions } = await import("./llmProvider");
+    const llm = getLLMEngineOptions();
+
+    // Existing initiatives for Stage 6 routing
+    const v0Initiatives = await ctx.runQuery(internal.suggestions.listV0InitiativesInternal, { workspaceId });
+    const flags = await ctx.runQuery(internal.featureFlags.evaluateInternal, { workspaceId, noteId: args.id });
+    // Workspace threshold overrides and enabled types, as in suggestions.generate
+    const workspaceConfig = await ctx.runQuery(internal.workspaces.getEngineConfigInternal, { workspaceId });
+    const thresholds = applyWorkspaceThresholds(defaultConfigImport.thresholds, workspaceConfig);
+    const engineContext = {
+      initiatives: v0Initiatives.map(adaptConvexInitiativeImport),
+      embedding_model: "local" as const,
+      ...llm.context,
+      feature_flags: toEngineFeatureFlags(flags),
+    };
+
     // Adapt note to engine format
     const engineNote = adaptConvexNoteImport({
       _id: note._id,
       body: note.body,
       createdAt: note.createdAt,
       title: note.title,
+      source: note.source,
+      importFileType: note.importFileType,
+      meetingAt: note.meetingAt,
     });
 
     // Run suggestion engine v2 with debug instrumentation — single engine call
     // produces both the UI suggestions and the debug run data.
-    const engineResult = generateSuggestionsWithDebugImport(
+    const engineResult = await generateSuggestionsWithDebugAsyncImport(
       engineNote,
-      undefined,
-      { enable_debug: true },
+      engineContext,
+      { enable_debug: true, ...llm.config, thresholds },
       { verbosity: "REDACTED" },
     );
-    const finalSuggestions = engineResult.suggestions;
+    // Replace lexical routing with embedding routing (same as suggestions.generate)
+    const finalSuggestions = filterEnabledSuggestions(
+      await applyEmbeddingRoutingImport(
+        engineResult.suggestions,
+        engineContext,
+        { embedding_enabled: true, thresholds },
+      ),
+      workspaceConfig,
+    );
     const debugRun = engineResult.debugRun ?? null;
 
     // Build a RunResult wrapper from the engine output
@@ -119,13 +165,112 @@ export const getWithComputedSuggestions = action({
     const lineCount = engineNote.raw_markdown.split("\n").length;
     const runId = debugRun?.meta?.runId ?? `run-${Date.now()}`;
 
-    // Load existing decisions for this note
-    const decisions = await ctx.runQuery(api.suggestionDecisions.getByNote, { noteId: args.id });
-    const decisionMap = new Map(decisions.map(d => [d.suggestionKey, d]));
+    // Decisions stored under keys this run no longer produces (v1 keys,
+    // reworded suggestions) count for the matching current suggestion. The
+    // stored keys are only rewritten by note analysis (noteAnalysis.ts), so
+    // viewing a note stays read-only.
+    const decisions: Doc<"suggestionDecisions">[] = await ctx.runQuery(api.suggestionDecisions.getByNote, { noteId: args.id });
+    const currentKeyed = finalSuggestions.map(toKeyedSnapshot);
+    const currentKeys = new Set(currentKeyed.map((s) => s.suggestionKey));
+    let remaps = new Map<string, string>();
+    if (decisions.some((d) => !currentKeys.has(d.suggestionKey))) {
+      const previousSnapshots = await ctx.runQuery(internal.suggestionClusters.listNoteSnapshots, {
+        workspaceId,
+        noteId: args.id,
+      });
+      remaps = remapSuggestionKeys(
+        decisions.map((d) => d.suggestionKey),
+        previousSnapshots.map((p) => ({
+          suggestionKey: p.suggestionKey,
+          type: p.suggestionType,
+          title: p.title,
+          evidenceText: p.evidenceText,
+        })),
+        currentKeyed,
+      );
+    }
+    const decisionMap = new Map(decisions.map(d => [remaps.get(d.suggestionKey) ?? d.suggestionKey, d]));
+
+    // Predicate: has the user dismissed or applied this suggestion?
+    const isDecided = (key: string) => {
+      const d = decisionMap.get(key);
+      return d != null && (d.status === "dismissed" || d.status === "applied");
+    };
+
+    // Snapshots, decision records and assertions are saved when the note is
+    // generated, regenerated or imported (noteAnalysis.ts), not here.
+    // Contradictions: what this note asserts about its initiatives, checked
+    // against their recorded state and earlier notes' assertions
+    const notedAt = note.meetingAt ?? note.capturedAt;
+    const noteAssertions = await extractNoteAssertionsImport(
+      engineNote,
+      engineContext,
+      { embedding_enabled: true },
+    );
+    const assertedInitiativeIds = [
+      ...new Set(noteAssertions.map((a) => a.initiative_id as Id<"v0Initiatives">)),
+    ];
+    const initiativeStates = assertedInitiativeIds.length > 0
+      ? await ctx.runQuery(internal.noteAssertions.getInitiativeStates, { workspaceId, initiativeIds: assertedInitiativeIds })
+      : [];
+    const earlierAssertions = assertedInitiativeIds.length > 0
+      ? await ctx.runQuery(internal.noteAssertions.listEarlier, {
+          workspaceId,
+          noteId: args.id,
+          notedAt,
+          initiativeIds: assertedInitiativeIds,
+        })
+      : [];
+    const conflicts = detectConflictsImport(
+      noteAssertions,
+      initiativeStates.map((state) => ({
+        initiative_id: state.initiativeId,
+        title: state.title,
+        release_target_date: state.releaseTargetDate !== undefined
+          ? new Date(state.releaseTargetDate).toISOString().slice(0, 10)
+          : undefined,
+        owner: state.ownerUserId,
+        status: state.status,
+        scope: state.scope,
+      })),
+      earlierAssertions.map((row) => ({
+        note_id: row.noteId,
+        note_title: row.noteTitle,
+        noted_at: row.notedAt,
+        initiative_id: row.initiativeId,
+        dimension: row.dimension,
+        value: row.value,
+        qualifier: row.qualifier,
+        label: row.label,
+        is_change: row.isChange,
+        previous: row.previous,
+        evidence: { start_line: row.startLine, end_line: row.endLine, text: row.text },
+      })),
+    );
+
+    // Cross-note clusters: hide suggestions decided in another note and
+    // merge evidence from every other note that raised the same suggestion.
+    // Filtering finalSuggestions keeps the UI's single source of truth
+    // (lastRunResult.finalSuggestions) free of decided items.
+    const undecidedSuggestions = filterEnabledSuggestions([...finalSuggestions, ...conflicts], workspaceConfig)
+      .filter((sug) => !isDecided(sug.suggestionKey));
+    const otherNoteMembers = undecidedSuggestions.length > 0
+      ? await ctx.runQuery(internal.suggestionClusters.listOtherNoteMembers, {
+          workspaceId,
+          noteId: args.id,
+          suggestionTypes: [...new Set(undecidedSuggestions.map((s) => s.type))],
+        })
+      : [];
+    const { suggestions: filteredFinalSuggestions } = applyCrossNoteClustersImport(
+      undecidedSuggestions,
+      otherNoteMembers,
+      notedAt,
+    );
 
     // Transform engine suggestions to UI-ready format.
-    // Source: finalSuggestions (canonical post-threshold, post-dedupe list).
-    const uiSuggestions = finalSuggestions.map((engineSug) => {
+    // Source: filteredFinalSuggestions (canonical post-threshold, post-dedupe,
+    // post-decision list).
+    const filteredSuggestions = filteredFinalSuggestions.map((engineSug) => {
       // Map to V0Suggestion-like structure for UI compatibility
       return {
         _id: engineSug.suggestion_id as any, // Use engine ID as UI ID
@@ -157,21 +302,6 @@ export const getWithComputedSuggestions = action({
       };
     });
 
-    // Predicate: has the user dismissed or applied this suggestion?
-    const isDecided = (key: string) => {
-      const d = decisionMap.get(key);
-      return d != null && (d.status === "dismissed" || d.status === "applied");
-    };
-
-    // Filter out dismissed and applied suggestions based on decisions
-    const filteredSuggestions = uiSuggestions.filter((sug) => !isDecided(sug.suggestionKey));
-
-    // Filter finalSuggestions by the same decisions so the UI's single
-    // source of truth (lastRunResult.finalSuggestions) never includes decided items.
-    const filteredFinalSuggestions = finalSuggestions.filter(
-      (sug) => !isDecided(sug.suggestionKey)
-    );
-
     return {
       note,
       suggestions: filteredSuggestions,
@@ -199,22 +329,30 @@ export const getWithComputedSuggestions = action({
 });
 
 // Mutation to create a new note
+// `source: "granola_manual"` marks the body as a raw speaker-turn transcript,
+// which the v2 engine segments by speaker turns instead of markdown headings.
 export const create = mutation({
   args: {
     title: v.optional(v.string()),
     body: v.string(),
     meetingAt: v.optional(v.number()),
+    source: v.optional(v.union(v.literal("manual"), v.literal("granola_manual"))),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const now = Date.now();
     const noteId = await ctx.db.insert("notes", {
+      workspaceId: user.workspaceId,
       title: args.title,
       body: args.body,
-      source: "manual",
+      source: args.source ?? "manual",
       capturedAt: now,
       meetingAt: args.meetingAt,
       createdAt: now,
       updatedAt: now,
+      contentHash: computeNoteHash(args.body),
+      createdByUserId: user._id,
+      teamId: user.teamId,
     });
     return noteId;
   },
@@ -229,14 +367,16 @@ export const update = mutation({
     meetingAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const { id, ...updates } = args;
-    const existing = await ctx.db.get(id);
+    const existing = await getOwned(ctx, user.workspaceId, id);
     if (!existing) {
       throw new Error("Note not found");
     }
 
     await ctx.db.patch(id, {
       ...updates,
+      ...(updates.body !== undefined ? { contentHash: computeNoteHash(updates.body) } : {}),
       updatedAt: Date.now(),
     });
     return id;
@@ -249,7 +389,8 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("notes") },
   handler: async (ctx, args) => {
-    const note = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const note = await getOwned(ctx, user.workspaceId, args.id);
     if (!note) {
       throw new Error("Note not found");
     }
@@ -265,7 +406,7 @@ export const remove = mutation({
     // Mark all suggestions as invalidated
     const suggestions = await ctx.db
       .query("suggestions")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.id))
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
       .collect();
     
     for (const suggestion of suggestions) {
@@ -278,7 +419,7 @@ export const remove = mutation({
     // Mark all events as excluded from metrics
     const events = await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.id))
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
       .collect();
     
     for (const event of events) {
@@ -288,6 +429,9 @@ export const remove = mutation({
       });
     }
 
+    // Drop its beliefs so they no longer count as current or in history
+    await removeNoteBeliefs(ctx, note);
+
     return {
       deletedNote: args.id,
       invalidatedSuggestions: suggestions.length,
@@ -301,10 +445,16 @@ export const remove = mutation({
 export const permanentlyDelete = mutation({
   args: { id: v.id("notes") },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "admin");
+    const note = await getOwned(ctx, user.workspaceId, args.id);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+
     // Delete all suggestion events for this note
     const events = await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.id))
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
       .collect();
     for (const event of events) {
       await ctx.db.delete(event._id);
@@ -313,11 +463,43 @@ export const permanentlyDelete = mutation({
     // Delete all suggestions for this note
     const suggestions = await ctx.db
       .query("suggestions")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.id))
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
       .collect();
     for (const suggestion of suggestions) {
       await ctx.db.delete(suggestion._id);
     }
+
+    // Delete the note's decisions, snapshots, decision records and assertions
+    const decisions = await ctx.db
+      .query("suggestionDecisions")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
+      .collect();
+    for (const decision of decisions) {
+      await ctx.db.delete(decision._id);
+    }
+    const snapshots = await ctx.db
+      .query("suggestionSnapshots")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
+      .collect();
+    for (const snapshot of snapshots) {
+      await ctx.db.delete(snapshot._id);
+    }
+    const decisionRecords = await ctx.db
+      .query("decisionRecords")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
+      .collect();
+    for (const record of decisionRecords) {
+      await ctx.db.delete(record._id);
+    }
+    const assertions = await ctx.db
+      .query("noteAssertions")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId).eq("noteId", args.id))
+      .collect();
+    for (const assertion of assertions) {
+      await ctx.db.delete(assertion._id);
+    }
+    
+    await removeNoteBeliefs(ctx, note);
     
     // Hard delete the note
     await ctx.db.delete(args.id);
@@ -326,8 +508,16 @@ export const permanentlyDelete = mutation({
 
 // Internal query for actions to use
 export const getInternal = internalQuery({
-  args: { id: v.id("notes") },
+  args: { workspaceId: v.id("workspaces"), id: v.id("notes") },
+  handler: async (ctx, args) => {
+    return await getOwned(ctx, args.workspaceId, args.id);
+  },
+});
+
+// Record section content hashes after suggestion generation (does not bump updatedAt)
+export const setSectionHashes = internalMutation({
+  args: { id: v.id("notes"), sectionHashes: v.array(v.string()) },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    await ctx.db.patch(args.id, { sectionHashes: args.sectionHashes });
   },
 });
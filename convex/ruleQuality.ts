@@ -3,21 +3,31 @@
  * 
  * This module computes quality scores for rules/prompts based on user behavior
  * without retraining models. Scores are used to adjust ranking and thresholds.
+ * Rules are shared by every workspace, so scores are deployment-wide and
+ * computed from all workspaces' events; they carry no note content.
  */
 
 import { v } from "convex/values";
-import { action, mutation, query, internalMutation, internalQuery } from "./_generated/server";
+import { internalAction, mutation, query, internalMutation, internalQuery } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { requireRole } from "./users";
 
 // ============================================
 // Rule Quality Score Computation
 // ============================================
 
+/** Share of an apply discounted when it needed a major correction first */
+const MAJOR_EDIT_APPLY_DISCOUNT = 0.5;
+
 /**
  * Action to compute rule quality scores based on recent events
  * Run this daily after metrics aggregation
+ *
+ * Applied events carry the edit made before applying (editType, from
+ * suggestionDecisions.recordApplyEdit); applies after a major correction
+ * count for less, and the as-is share is stored with the score.
  */
-export const computeRuleQualityScores = action({
+export const computeRuleQualityScores = internalAction({
   args: {
     windowDays: v.optional(v.number()), // Rolling window in days (default: 30)
   },
@@ -30,11 +40,18 @@ export const computeRuleQualityScores = action({
     const windowStartDate = new Date(windowStart).toISOString().split('T')[0];
     const windowEndDate = new Date(now).toISOString().split('T')[0];
 
-    // Get all events in the window
-    const events = await ctx.runQuery(internal.ruleQuality.getEventsForWindow, {
-      startTime: windowStart,
-      endTime: now,
-    });
+    // Get every workspace's events in the window
+    const events = [];
+    const workspaceIds = await ctx.runQuery(internal.workspaces.listIdsInternal, {});
+    for (const workspaceId of workspaceIds) {
+      events.push(
+        ...(await ctx.runQuery(internal.ruleQuality.getEventsForWindow, {
+          workspaceId,
+          startTime: windowStart,
+          endTime: now,
+        }))
+      );
+    }
 
     // Group by rule/prompt ID and suggestion family
     const ruleStatsMap = new Map<string, RuleStats>();
@@ -55,6 +72,10 @@ export const computeRuleQualityScores = action({
           totalApplied: 0,
           totalDismissed: 0,
           totalClarificationRequests: 0,
+          totalAppliedAsIs: 0,
+          totalAppliedMinorEdit: 0,
+          totalAppliedMajorEdit: 0,
+          totalAppliedRetargeted: 0,
         });
       }
 
@@ -66,6 +87,10 @@ export const computeRuleQualityScores = action({
           break;
         case "applied":
           stats.totalApplied++;
+          if (event.editType === "major_correction") stats.totalAppliedMajorEdit++;
+          else if (event.editType === "minor_refinement") stats.totalAppliedMinorEdit++;
+          else if (event.editType === "changed_target") stats.totalAppliedRetargeted++;
+          else stats.totalAppliedAsIs++;
           break;
         case "dismissed":
           stats.totalDismissed++;
@@ -88,7 +113,12 @@ export const computeRuleQualityScores = action({
       const applyRate = stats.totalApplied / stats.totalGenerated;
       const dismissRate = stats.totalDismissed / stats.totalGenerated;
       const clarificationRate = stats.totalClarificationRequests / stats.totalGenerated;
-      const nhi = applyRate - dismissRate;
+      // An apply after a major correction means the rule found the right
+      // spot but got the content wrong: it counts half
+      const effectiveApplyRate =
+        (stats.totalApplied - MAJOR_EDIT_APPLY_DISCOUNT * stats.totalAppliedMajorEdit) / stats.totalGenerated;
+      const nhi = effectiveApplyRate - dismissRate;
+      const asIsApplyRate = stats.totalApplied > 0 ? stats.totalAppliedAsIs / stats.totalApplied : 0;
 
       // Compute quality score using exponential decay
       // Formula: NHI * confidence_factor
@@ -107,6 +137,11 @@ export const computeRuleQualityScores = action({
         totalGenerated: stats.totalGenerated,
         totalApplied: stats.totalApplied,
         totalDismissed: stats.totalDismissed,
+        totalAppliedAsIs: stats.totalAppliedAsIs,
+        totalAppliedMinorEdit: stats.totalAppliedMinorEdit,
+        totalAppliedMajorEdit: stats.totalAppliedMajorEdit,
+        totalAppliedRetargeted: stats.totalAppliedRetargeted,
+        asIsApplyRate,
         windowStartDate,
         windowEndDate,
       });
@@ -133,18 +168,15 @@ export const computeRuleQualityScores = action({
 
 export const getEventsForWindow = internalQuery({
   args: {
+    workspaceId: v.id("workspaces"),
     startTime: v.number(),
     endTime: v.number(),
   },
   handler: async (ctx, args) => {
     return await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_createdAt")
-      .filter((q) => 
-        q.and(
-          q.gte(q.field("createdAt"), args.startTime),
-          q.lte(q.field("createdAt"), args.endTime)
-        )
+      .withIndex("by_workspaceId_createdAt", (q) =>
+        q.eq("workspaceId", args.workspaceId).gte("createdAt", args.startTime).lte("createdAt", args.endTime)
       )
       .collect();
   },
@@ -185,6 +217,11 @@ export const storeRuleQualityScores = internalMutation({
           totalGenerated: score.totalGenerated,
           totalApplied: score.totalApplied,
           totalDismissed: score.totalDismissed,
+          totalAppliedAsIs: score.totalAppliedAsIs,
+          totalAppliedMinorEdit: score.totalAppliedMinorEdit,
+          totalAppliedMajorEdit: score.totalAppliedMajorEdit,
+          totalAppliedRetargeted: score.totalAppliedRetargeted,
+          asIsApplyRate: score.asIsApplyRate,
           lastComputedAt: args.timestamp,
           windowStartDate: score.windowStartDate,
           windowEndDate: score.windowEndDate,
@@ -202,6 +239,11 @@ export const storeRuleQualityScores = internalMutation({
           totalGenerated: score.totalGenerated,
           totalApplied: score.totalApplied,
           totalDismissed: score.totalDismissed,
+          totalAppliedAsIs: score.totalAppliedAsIs,
+          totalAppliedMinorEdit: score.totalAppliedMinorEdit,
+          totalAppliedMajorEdit: score.totalAppliedMajorEdit,
+          totalAppliedRetargeted: score.totalAppliedRetargeted,
+          asIsApplyRate: score.asIsApplyRate,
           lastComputedAt: args.timestamp,
           windowStartDate: score.windowStartDate,
           windowEndDate: score.windowEndDate,
@@ -225,6 +267,7 @@ export const getRuleQualityScores = query({
     minQualityScore: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "viewer");
     let queryBuilder = ctx.db.query("ruleQualityScores");
 
     // Apply filters
@@ -260,6 +303,7 @@ export const getQualityScoreForRule = query({
     suggestionFamily: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "viewer");
     return await ctx.db
       .query("ruleQualityScores")
       .withIndex("by_ruleOrPromptId", (q) => 
@@ -282,6 +326,7 @@ export const getTopRules = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "viewer");
     const limit = args.limit || 10;
 
     const scores = await ctx.db
@@ -303,6 +348,7 @@ export const getLowQualityRules = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, "viewer");
     const threshold = args.threshold !== undefined ? args.threshold : -0.2;
     const limit = args.limit || 10;
 
@@ -327,6 +373,10 @@ type RuleStats = {
   totalApplied: number;
   totalDismissed: number;
   totalClarificationRequests: number;
+  totalAppliedAsIs: number;
+  totalAppliedMinorEdit: number;
+  totalAppliedMajorEdit: number;
+  totalAppliedRetargeted: number;
 };
 
 type RuleQualityScore = {
@@ -340,6 +390,11 @@ type RuleQualityScore = {
   totalGenerated: number;
   totalApplied: number;
   totalDismissed: number;
+  totalAppliedAsIs: number;
+  totalAppliedMinorEdit: number;
+  totalAppliedMajorEdit: number;
+  totalAppliedRetargeted: number;
+  asIsApplyRate: number;
   windowStartDate: string;
   windowEndDate: string;
 };
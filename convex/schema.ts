@@ -24,16 +24,52 @@ const dismissReasonValidator = v.union(
 // Note source enum values
 const noteSourceValidator = v.union(
   v.literal("manual"),
-  v.literal("granola_manual")
+  v.literal("granola_manual"),
+  v.literal("file_import")
+);
+
+// Imported file type enum values (see src/lib/note-import.ts)
+const importFileTypeValidator = v.union(
+  v.literal("md"),
+  v.literal("txt"),
+  v.literal("html"),
+  v.literal("vtt"),
+  v.literal("srt")
 );
 
 // Suggestion status enum values
 const suggestionStatusValidator = v.union(
   v.literal("new"),
   v.literal("applied"),
-  v.literal("dismissed")
+  v.literal("dismissed"),
+  v.literal("superseded") // evidence deleted from the note before a decision
+);
+
+// Edit made before applying a suggestion (EditType in feedbackLoop.ts)
+const suggestionEditTypeValidator = v.union(
+  v.literal("minor_refinement"),
+  v.literal("major_correction"),
+  v.literal("changed_target")
 );
 
+// Suggestion engine v2 output types
+const suggestionTypeValidator = v.union(
+  v.literal("idea"),
+  v.literal("project_update"),
+  v.literal("bug"),
+  v.literal("risk"),
+  v.literal("action_item"),
+  v.literal("conflict")
+);
+
+// User-editable part of a suggestion (src/lib/suggestion-edits.ts)
+const editableSuggestionValidator = v.object({
+  type: suggestionTypeValidator,
+  title: v.string(),
+  body: v.string(),
+  initiativeId: v.optional(v.string()), // Target initiative; absent = create new
+});
+
 // Suggestion event type enum values
 const suggestionEventTypeValidator = v.union(
   v.literal("generated"),
@@ -110,9 +146,71 @@ const suggestionSourceKindValidator = v.union(
   v.literal("integration")
 );
 
+// One suggestion in a shadow run diff (src/lib/shadow-runs.ts ShadowItem)
+const shadowItemValidator = v.object({
+  key: v.string(),
+  type: v.string(),
+  title: v.string(),
+  score: v.optional(v.number()),
+});
+
 export default defineSchema({
+  // Users (users.ts) - one row per auth identity, created on first sign-in.
+  // Roles and their ordering are in src/lib/roles.ts.
+  users: defineTable({
+    tokenIdentifier: v.string(), // Auth provider issuer + subject
+    name: v.optional(v.string()),
+    email: v.optional(v.string()),
+    role: v.union(v.literal("viewer"), v.literal("editor"), v.literal("admin")),
+    teamId: v.optional(v.id("teams")),
+    activeWorkspaceId: v.optional(v.id("workspaces")), // Workspace the app is showing; must be a membership
+    createdAt: v.number(),
+    lastSeenAt: v.number(),
+  })
+    .index("by_tokenIdentifier", ["tokenIdentifier"])
+    .index("by_teamId", ["teamId"]),
+
+  // Teams - users belong to at most one; used for team-scoped flags and metrics
+  teams: defineTable({
+    name: v.string(),
+    createdAt: v.number(),
+  }),
+
+  // Workspaces (workspaces.ts) - tenants. Every notes, suggestions and
+  // initiative record below carries workspaceId and every index on those
+  // tables starts with it, so reads are always scoped to one workspace.
+  // workspaceId is optional only for rows written before workspaces
+  // existed; those are invisible until an admin adopts them.
+  workspaces: defineTable({
+    name: v.string(),
+    createdByUserId: v.id("users"),
+    // Suggestion engine overrides (src/lib/workspace-config.ts)
+    engineConfig: v.optional(v.object({
+      thresholds: v.optional(v.object({
+        T_action: v.optional(v.number()),
+        T_overall_min: v.optional(v.number()),
+        T_section_min: v.optional(v.number()),
+        T_attach_embedding: v.optional(v.number()),
+        MIN_EVIDENCE_CHARS: v.optional(v.number()),
+      })),
+      enabledTypes: v.optional(v.array(suggestionTypeValidator)),
+    })),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  // Workspace membership; a user only sees workspaces they belong to
+  workspaceMembers: defineTable({
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_userId", ["userId"])
+    .index("by_workspaceId_userId", ["workspaceId", "userId"]),
+
   // Legacy initiatives table (keeping for backward compatibility)
   initiatives: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     name: v.string(),
     owner: v.string(),
     status: v.union(v.literal("planned"), v.literal("in_progress"), v.literal("done")),
@@ -129,24 +227,27 @@ export default defineSchema({
         suggestionId: v.optional(v.string()),
       })
     ),
-  }),
+  })
+    .index("by_workspaceId", ["workspaceId"]),
 
   // V0 Initiatives table - simple initiative model for linking applied suggestions
   v0Initiatives: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     title: v.string(),
     description: v.string(),
     status: v0InitiativeStatusValidator, // draft, active, done
     createdAt: v.number(),
     updatedAt: v.number(),
   })
-    .index("by_status", ["status"])
-    .index("by_createdAt", ["createdAt"]),
+    .index("by_workspaceId_status", ["workspaceId", "status"])
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"]),
 
   // Notes table - stores meeting notes pasted or uploaded by user
   notes: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     title: v.optional(v.string()),
     body: v.string(), // Required - the note content
-    source: noteSourceValidator, // manual or granola_manual
+    source: noteSourceValidator, // manual, granola_manual or file_import
     capturedAt: v.number(), // Timestamp when note was captured
     meetingAt: v.optional(v.number()), // Optional timestamp for when meeting occurred
     createdAt: v.number(),
@@ -154,30 +255,51 @@ export default defineSchema({
     // v0-correct: Soft deletion for epistemic hygiene
     deletedAt: v.optional(v.number()), // Timestamp when note was soft-deleted
     isDeleted: v.optional(v.boolean()), // Quick filter for active notes
+    // Content hash of body (computeNoteHash) for import deduplication
+    contentHash: v.optional(v.string()),
+    // File import provenance (source === "file_import")
+    importFileName: v.optional(v.string()),
+    importFileType: v.optional(importFileTypeValidator),
+    // Section content hashes at the last suggestion generation; regenerate
+    // only re-runs sections whose hash is not in this list
+    sectionHashes: v.optional(v.array(v.string())),
+    // Creator and their team at creation (team-scoped feature flags)
+    createdByUserId: v.optional(v.id("users")),
+    teamId: v.optional(v.id("teams")),
   })
-    .index("by_capturedAt", ["capturedAt"])
-    .index("by_createdAt", ["createdAt"])
-    .index("by_isDeleted", ["isDeleted"]),
+    .index("by_workspaceId_capturedAt", ["workspaceId", "capturedAt"])
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"])
+    .index("by_workspaceId_isDeleted", ["workspaceId", "isDeleted"])
+    .index("by_workspaceId_contentHash", ["workspaceId", "contentHash"]),
 
   // Suggestions table - AI-generated suggestions linked to notes
   suggestions: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     noteId: v.id("notes"), // FK to notes
     content: v.string(), // The suggestion text (legacy; kept for backward compatibility)
     // Structured suggestion fields (v2 engine output)
-    suggestionType: v.optional(v.union(v.literal("idea"), v.literal("project_update"), v.literal("bug"), v.literal("risk"))),
+    suggestionType: v.optional(suggestionTypeValidator),
     title: v.optional(v.string()),
     body: v.optional(v.string()),
     evidencePreview: v.optional(v.string()),
     sourceSectionId: v.optional(v.string()),
     suggestionKey: v.optional(v.string()),
-    status: suggestionStatusValidator, // new, applied, dismissed
+    status: suggestionStatusValidator, // new, applied, dismissed, superseded
     createdAt: v.number(),
     appliedAt: v.optional(v.number()),
     dismissedAt: v.optional(v.number()),
+    supersededAt: v.optional(v.number()),
+    // Incremental regeneration: source section content hash and own-note
+    // evidence text, used to carry the suggestion across note edits
+    sourceSectionHash: v.optional(v.string()),
+    evidenceTexts: v.optional(v.array(v.string())),
     dismissReason: v.optional(dismissReasonValidator),
     dismissReasonOther: v.optional(v.string()),
     modelVersion: v.optional(v.string()), // Which LLM/prompt was used
     initiativeId: v.optional(v.id("v0Initiatives")), // FK to initiative when applied
+    // Stage 6 routing: initiative the engine attached this suggestion to (not yet applied)
+    routedInitiativeId: v.optional(v.id("v0Initiatives")),
+    routingSimilarity: v.optional(v.number()),
     // v0-correct: Regeneration support
     regenerated: v.optional(v.boolean()), // Whether this suggestion was generated via regenerate
     noteVersionAtCreation: v.optional(v.number()), // Note's updatedAt when suggestion was created
@@ -197,16 +319,17 @@ export default defineSchema({
     suggestionFamily: v.optional(v.string()), // Category/type for analytics
     estimatedDiffSize: v.optional(v.string()), // small, medium, large
   })
-    .index("by_noteId", ["noteId"])
-    .index("by_status", ["status"])
-    .index("by_createdAt", ["createdAt"])
-    .index("by_initiativeId", ["initiativeId"])
-    .index("by_fingerprint", ["noteId", "fingerprint"])
-    .index("by_invalidated", ["invalidatedByNoteDeletion"])
-    .index("by_clarificationState", ["clarificationState"]),
+    .index("by_workspaceId_noteId", ["workspaceId", "noteId"])
+    .index("by_workspaceId_status", ["workspaceId", "status"])
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"])
+    .index("by_workspaceId_initiativeId", ["workspaceId", "initiativeId"])
+    .index("by_workspaceId_fingerprint", ["workspaceId", "noteId", "fingerprint"])
+    .index("by_workspaceId_invalidated", ["workspaceId", "invalidatedByNoteDeletion"])
+    .index("by_workspaceId_clarificationState", ["workspaceId", "clarificationState"]),
 
   // Suggestion events table - primary for observability
   suggestionEvents: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     noteId: v.id("notes"),
     suggestionId: v.id("suggestions"),
     eventType: suggestionEventTypeValidator, // generated, viewed, shown, applied, dismissed, clarification_requested, clarification_answered
@@ -231,17 +354,19 @@ export default defineSchema({
     timeToClarificationMs: v.optional(v.number()), // For clarification_requested events
     timeToAnswerMs: v.optional(v.number()), // For clarification_answered events
     partialApply: v.optional(v.boolean()), // For applied events
+    editType: v.optional(suggestionEditTypeValidator), // For applied events; absent = applied as-is
     rank: v.optional(v.number()), // Position in list for viewed events
   })
-    .index("by_noteId", ["noteId"])
-    .index("by_suggestionId", ["suggestionId"])
-    .index("by_eventType", ["eventType"])
-    .index("by_createdAt", ["createdAt"])
-    .index("by_excludeFromMetrics", ["excludeFromMetrics"])
-    .index("by_teamId_eventType", ["teamId", "eventType"]),
+    .index("by_workspaceId_noteId", ["workspaceId", "noteId"])
+    .index("by_workspaceId_suggestionId", ["workspaceId", "suggestionId"])
+    .index("by_workspaceId_eventType", ["workspaceId", "eventType"])
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"])
+    .index("by_workspaceId_excludeFromMetrics", ["workspaceId", "excludeFromMetrics"])
+    .index("by_workspaceId_teamId_eventType", ["workspaceId", "teamId", "eventType"]),
 
   // Suggestion debug runs table - stores debug reports for admin analysis
   suggestionDebugRuns: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     noteId: v.id("notes"), // FK to notes
     runId: v.string(), // UUID for the debug run
     createdAt: v.number(), // Timestamp
@@ -253,9 +378,9 @@ export default defineSchema({
     sizeBytes: v.number(), // Size of payloadJson for limits
     expiresAt: v.number(), // TTL timestamp (created_at + 14 days)
   })
-    .index("by_noteId_createdAt", ["noteId", "createdAt"])
-    .index("by_expiresAt", ["expiresAt"])
-    .index("by_runId", ["runId"]),
+    .index("by_workspaceId_noteId_createdAt", ["workspaceId", "noteId", "createdAt"])
+    .index("by_workspaceId_expiresAt", ["workspaceId", "expiresAt"])
+    .index("by_workspaceId_runId", ["workspaceId", "runId"]),
 
   // ============================================
   // NEW: Event-Sourced Initiative System
@@ -263,6 +388,7 @@ export default defineSchema({
 
   // Initiative table - materialized view (current state)
   newInitiatives: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     // Identity & ownership
     slug: v.string(), // Unique human-readable identifier
     title: v.string(),
@@ -308,20 +434,25 @@ export default defineSchema({
     productArea: v.optional(v.string()),
     quarter: v.optional(v.string()),
     integrationHints: v.optional(v.any()), // JSON object for future use
+
+    // v0 initiative this event-sourced record tracks (set by suggestionBridge)
+    v0InitiativeId: v.optional(v.id("v0Initiatives")),
   })
-    .index("by_slug", ["slug"])
-    .index("by_status", ["status"])
-    .index("by_createdAt", ["createdAt"])
-    .index("by_updatedAt", ["updatedAt"])
-    .index("by_ownerUserId", ["ownerUserId"])
-    .index("by_quarter", ["quarter"])
-    .index("by_releaseTargetDate", ["releaseTargetDate"]),
+    .index("by_workspaceId_slug", ["workspaceId", "slug"])
+    .index("by_workspaceId_status", ["workspaceId", "status"])
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"])
+    .index("by_workspaceId_updatedAt", ["workspaceId", "updatedAt"])
+    .index("by_workspaceId_ownerUserId", ["workspaceId", "ownerUserId"])
+    .index("by_workspaceId_quarter", ["workspaceId", "quarter"])
+    .index("by_workspaceId_releaseTargetDate", ["workspaceId", "releaseTargetDate"])
+    .index("by_workspaceId_v0InitiativeId", ["workspaceId", "v0InitiativeId"]),
 
   // Initiative event table - append-only authoritative log
   initiativeEvents: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     initiativeId: v.optional(v.id("newInitiatives")), // Nullable for cross-initiative events
     sequence: v.number(), // Per-initiative monotonic sequence
-    globalSequence: v.number(), // System-wide ordering
+    globalSequence: v.number(), // Workspace-wide ordering
     type: v.string(), // Event type (InitiativeCreated, InitiativeFieldUpdated, etc.)
     payload: v.any(), // JSON event payload
     schemaVersion: v.number(), // Event payload schema version
@@ -334,26 +465,28 @@ export default defineSchema({
     correlationId: v.string(), // UUID for tracing workflows
     suggestionId: v.optional(v.id("initiativeSuggestions")), // Link to suggestion if applicable
   })
-    .index("by_initiativeId_sequence", ["initiativeId", "sequence"])
-    .index("by_globalSequence", ["globalSequence"])
-    .index("by_commandId", ["commandId"])
-    .index("by_correlationId", ["correlationId"])
-    .index("by_suggestionId", ["suggestionId"])
-    .index("by_occurredAt", ["occurredAt"]),
+    .index("by_workspaceId_initiativeId_sequence", ["workspaceId", "initiativeId", "sequence"])
+    .index("by_workspaceId_globalSequence", ["workspaceId", "globalSequence"])
+    .index("by_workspaceId_commandId", ["workspaceId", "commandId"])
+    .index("by_workspaceId_correlationId", ["workspaceId", "correlationId"])
+    .index("by_workspaceId_suggestionId", ["workspaceId", "suggestionId"])
+    .index("by_workspaceId_occurredAt", ["workspaceId", "occurredAt"]),
 
   // Initiative version table - materialized snapshots
   initiativeVersions: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     initiativeId: v.id("newInitiatives"),
     version: v.number(), // Matches sequence of last applied event
     state: v.any(), // Full canonical JSON representation
     createdAt: v.number(),
     createdFromEventId: v.id("initiativeEvents"),
   })
-    .index("by_initiativeId_version", ["initiativeId", "version"])
-    .index("by_createdAt", ["createdAt"]),
+    .index("by_workspaceId_initiativeId_version", ["workspaceId", "initiativeId", "version"])
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"]),
 
   // Initiative comment table
   initiativeComments: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     initiativeId: v.id("newInitiatives"),
     authorUserId: v.string(),
     body: v.string(), // Rich text/markdown
@@ -365,13 +498,14 @@ export default defineSchema({
     resolvedAt: v.optional(v.number()),
     resolvedByUserId: v.optional(v.string()),
   })
-    .index("by_initiativeId_createdAt", ["initiativeId", "createdAt"])
-    .index("by_authorUserId", ["authorUserId"])
-    .index("by_parentCommentId", ["parentCommentId"])
-    .index("by_deletedAt", ["deletedAt"]),
+    .index("by_workspaceId_initiativeId_createdAt", ["workspaceId", "initiativeId", "createdAt"])
+    .index("by_workspaceId_authorUserId", ["workspaceId", "authorUserId"])
+    .index("by_workspaceId_parentCommentId", ["workspaceId", "parentCommentId"])
+    .index("by_workspaceId_deletedAt", ["workspaceId", "deletedAt"]),
 
   // Initiative suggestion table (deterministic patch-based)
   initiativeSuggestions: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     initiativeId: v.id("newInitiatives"),
     createdByUserId: v.string(),
     status: initiativeSuggestionStatusValidator,
@@ -390,13 +524,14 @@ export default defineSchema({
     sourceKind: suggestionSourceKindValidator,
     sourceReference: v.optional(v.string()), // Opaque external ID
   })
-    .index("by_initiativeId_status", ["initiativeId", "status"])
-    .index("by_status", ["status"])
-    .index("by_createdAt", ["createdAt"])
-    .index("by_appliedAt", ["appliedAt"]),
+    .index("by_workspaceId_initiativeId_status", ["workspaceId", "initiativeId", "status"])
+    .index("by_workspaceId_status", ["workspaceId", "status"])
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"])
+    .index("by_workspaceId_appliedAt", ["workspaceId", "appliedAt"]),
 
   // Initiative external link table (generic integration support)
   initiativeExternalLinks: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     initiativeId: v.id("newInitiatives"),
     externalSystem: v.string(), // e.g., "issue_tracker", "roadmap_tool"
     externalResourceType: v.string(), // e.g., "project", "epic"
@@ -406,9 +541,9 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
   })
-    .index("by_initiativeId", ["initiativeId"])
-    .index("by_externalSystem_resourceId", ["externalSystem", "externalResourceId"])
-    .index("by_updatedAt", ["updatedAt"]),
+    .index("by_workspaceId_initiativeId", ["workspaceId", "initiativeId"])
+    .index("by_workspaceId_externalSystem_resourceId", ["workspaceId", "externalSystem", "externalResourceId"])
+    .index("by_workspaceId_updatedAt", ["workspaceId", "updatedAt"]),
 
   // ============================================
   // Shipit Behavioral Learning & Reporting
@@ -416,8 +551,9 @@ export default defineSchema({
 
   // Daily suggestion metrics table - aggregated facts per day/dimension
   dailySuggestionMetrics: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     dateUtc: v.string(), // Date in YYYY-MM-DD format
-    teamId: v.optional(v.string()), // Team/workspace ID or "global"
+    teamId: v.optional(v.string()), // Team ID; absent = all teams
     surface: v.optional(v.string()), // UI surface (pr_review, editor_inline, etc.)
     suggestionFamily: v.optional(v.string()), // Suggestion type/category
     // Core metrics
@@ -434,10 +570,10 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
   })
-    .index("by_dateUtc", ["dateUtc"])
-    .index("by_dateUtc_teamId", ["dateUtc", "teamId"])
-    .index("by_dateUtc_surface", ["dateUtc", "surface"])
-    .index("by_dateUtc_family", ["dateUtc", "suggestionFamily"]),
+    .index("by_workspaceId_dateUtc", ["workspaceId", "dateUtc"])
+    .index("by_workspaceId_dateUtc_teamId", ["workspaceId", "dateUtc", "teamId"])
+    .index("by_workspaceId_dateUtc_surface", ["workspaceId", "dateUtc", "surface"])
+    .index("by_workspaceId_dateUtc_family", ["workspaceId", "dateUtc", "suggestionFamily"]),
 
   // Rule quality scores - config-level weights for learning without retraining
   ruleQualityScores: defineTable({
@@ -453,6 +589,12 @@ export default defineSchema({
     totalGenerated: v.number(),
     totalApplied: v.number(),
     totalDismissed: v.number(),
+    // Applies split by edit before apply (absent on scores computed before edit tracking)
+    totalAppliedAsIs: v.optional(v.number()),
+    totalAppliedMinorEdit: v.optional(v.number()),
+    totalAppliedMajorEdit: v.optional(v.number()),
+    totalAppliedRetargeted: v.optional(v.number()),
+    asIsApplyRate: v.optional(v.number()), // Applied as-is / applied
     // Metadata
     lastComputedAt: v.number(),
     windowStartDate: v.string(), // Start of rolling window (YYYY-MM-DD)
@@ -462,6 +604,91 @@ export default defineSchema({
     .index("by_qualityScore", ["qualityScore"])
     .index("by_lastComputedAt", ["lastComputedAt"]),
 
+  // Belief-to-initiative feedback events (feedbackLoop.ts), with a snapshot
+  // of the suggestion so the recommenders can run over a rolling window
+  beliefFeedbackEvents: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    suggestionId: v.id("suggestions"),
+    noteId: v.id("notes"),
+    action: v.union(v.literal("accepted"), v.literal("dismissed"), v.literal("edited")),
+    dismissReason: v.optional(v.string()), // feedbackLoop DismissReason
+    editType: v.optional(v.union(
+      v.literal("minor_refinement"),
+      v.literal("major_correction"),
+      v.literal("changed_target")
+    )),
+    timeToActionSeconds: v.optional(v.number()),
+    userId: v.optional(v.string()),
+    suggestionAction: v.union(v.literal("comment"), v.literal("mutate_release_date")),
+    suggestionStatus: v.union(v.literal("suggested"), v.literal("needs_clarification")),
+    suggestionText: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"]),
+
+  // Learned configs - versioned threshold proposals from the feedback loop.
+  // At most one is active; the v2 belief pipeline runs with it.
+  learnedConfigs: defineTable({
+    version: v.number(),
+    status: v.union(
+      v.literal("proposed"),
+      v.literal("active"),
+      v.literal("retired"), // Replaced by a newer approval
+      v.literal("rolled_back"),
+      v.literal("superseded") // Newer proposal arrived before approval
+    ),
+    thresholds: v.object({
+      min_initiative_match_score: v.number(),
+      min_match_gap: v.number(),
+      ambiguous_match_threshold: v.number(),
+      min_belief_confidence: v.number(),
+      min_impact_level: v.union(v.literal("low"), v.literal("medium"), v.literal("high")),
+      max_delta_days: v.number(),
+      max_comment_suggestions_per_initiative_per_meeting: v.number(),
+      max_release_date_suggestions_per_initiative_per_meeting: v.number(),
+      embedding_similarity_threshold: v.number(),
+    }),
+    decisionModel: v.object({
+      T_MIN_CONF_FOR_MUTATION: v.number(),
+      T_MIN_ACT_FOR_MUTATION: v.number(),
+      T_MIN_CONF_FOR_EXECUTION_ELIGIBLE: v.number(),
+      T_MIN_ACT_FOR_EXECUTION_ELIGIBLE: v.number(),
+      T_MAX_CONF_FOR_NEEDS_CLARIFICATION_FALSE: v.number(),
+      T_OVERALL_SCORE_ORDERING_ONLY: v.boolean(),
+    }),
+    adjustments: v.array(v.object({
+      thresholdName: v.string(),
+      currentValue: v.number(),
+      recommendedValue: v.number(),
+      reason: v.string(),
+      confidence: v.number(),
+    })),
+    patterns: v.array(v.object({
+      patternType: v.string(),
+      pattern: v.string(),
+      scoreAdjustment: v.number(),
+      confidence: v.number(),
+      supportingExamples: v.number(),
+    })),
+    stats: v.object({
+      acceptanceRate: v.number(),
+      dismissalRate: v.number(),
+      editRate: v.number(),
+      totalSuggestions: v.number(),
+    }),
+    validationErrors: v.array(v.string()),
+    eventCount: v.number(),
+    windowStart: v.number(),
+    windowEnd: v.number(),
+    createdAt: v.number(),
+    activatedAt: v.optional(v.number()),
+    approvedBy: v.optional(v.string()),
+    deactivatedAt: v.optional(v.number()),
+    previousActiveId: v.optional(v.id("learnedConfigs")), // Restored on rollback
+  })
+    .index("by_status", ["status"])
+    .index("by_version", ["version"]),
+
   // ============================================
   // Suggestion Decisions - Stable Apply/Dismiss Persistence
   // ============================================
@@ -469,6 +696,7 @@ export default defineSchema({
   // Suggestion decisions table - persists user actions keyed by (noteId, suggestionKey)
   // This allows dismissed/applied suggestions to remain hidden across regenerations
   suggestionDecisions: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
     noteId: v.id("notes"),
     suggestionKey: v.string(), // Stable key computed from suggestion content
     status: v.union(
@@ -482,9 +710,229 @@ export default defineSchema({
     appliedAt: v.optional(v.number()), // Timestamp when applied
     appliedToInitiativeId: v.optional(v.id("v0Initiatives")), // Deprecated: use initiativeId
     appliedToType: v.optional(v.union(v.literal("existing"), v.literal("new"))), // Deprecated: use appliedMode
+    // Set when applied through suggestionBridge (event-sourced initiative model)
+    eventSourcedInitiativeId: v.optional(v.id("newInitiatives")),
+    initiativeSuggestionId: v.optional(v.id("initiativeSuggestions")), // Undo via initiativeAudit.undoSuggestion
+    initiativeCommentId: v.optional(v.id("initiativeComments")), // action_item / conflict comment; undo deletes it
+    // Edit-then-apply: engine output vs what was applied (suggestionDecisions.recordApplyEdit)
+    originalSuggestion: v.optional(editableSuggestionValidator),
+    editedSuggestion: v.optional(editableSuggestionValidator),
+    editType: v.optional(suggestionEditTypeValidator), // Absent on an applied decision = applied as-is
+    editedFields: v.optional(v.array(v.string())),
     updatedAt: v.number(), // Timestamp of decision
   })
-    .index("by_noteId", ["noteId"])
-    .index("by_noteId_suggestionKey", ["noteId", "suggestionKey"])
-    .index("by_initiativeId", ["initiativeId"]),
+    .index("by_workspaceId_noteId", ["workspaceId", "noteId"])
+    .index("by_workspaceId_noteId_suggestionKey", ["workspaceId", "noteId", "suggestionKey"])
+    .index("by_workspaceId_initiativeId", ["workspaceId", "initiativeId"]),
+
+  // Suggestion snapshots - latest engine output per note (before decision
+  // filtering), used to cluster equivalent suggestions across notes
+  suggestionSnapshots: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    noteId: v.id("notes"),
+    suggestionKey: v.string(),
+    suggestionType: suggestionTypeValidator,
+    title: v.string(),
+    evidenceText: v.string(),
+    // Editable fields of the engine output: the original for edit-then-apply
+    // (absent on snapshots written before it was stored)
+    editable: v.optional(editableSuggestionValidator),
+    notedAt: v.number(), // Note's meetingAt ?? capturedAt; orders cluster members
+    updatedAt: v.number(),
+  })
+    .index("by_workspaceId_noteId", ["workspaceId", "noteId"])
+    .index("by_workspaceId_suggestionType", ["workspaceId", "suggestionType"]),
+
+  // Decision records - decisions extracted from notes (decisionRecords.ts),
+  // replaced on each engine run and shown as a per-initiative decision log
+  decisionRecords: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    noteId: v.id("notes"),
+    decisionKey: v.string(), // computeDecisionKey(noteId, statement); stable across runs
+    statement: v.string(),
+    rationale: v.optional(v.string()),
+    alternatives: v.array(v.string()),
+    participants: v.array(v.string()),
+    sectionHeading: v.optional(v.string()),
+    // Note lines the decision, rationale and alternatives came from
+    evidence: v.array(v.object({
+      startLine: v.number(),
+      endLine: v.number(),
+      text: v.string(),
+    })),
+    confidence: v.number(),
+    initiativeId: v.optional(v.id("v0Initiatives")), // Routed initiative, if any
+    routingSimilarity: v.optional(v.number()),
+    decidedAt: v.number(), // Note's meetingAt ?? capturedAt
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_workspaceId_noteId", ["workspaceId", "noteId"])
+    .index("by_workspaceId_initiativeId_decidedAt", ["workspaceId", "initiativeId", "decidedAt"]),
+
+  // Note assertions - what each note states about an initiative's timeline,
+  // scope, ownership and status (see contradictions.ts). Later notes are
+  // checked against them for conflicts.
+  noteAssertions: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    noteId: v.id("notes"),
+    initiativeId: v.id("v0Initiatives"),
+    dimension: v.union(v.literal("timeline"), v.literal("scope"), v.literal("ownership"), v.literal("status")),
+    value: v.string(), // Comparable value: YYYY-MM-DD, lowercase owner, status, scope item
+    qualifier: v.optional(v.string()), // Date precision or scope polarity (in/out)
+    label: v.string(),
+    isChange: v.boolean(),
+    previous: v.optional(v.object({
+      value: v.string(),
+      qualifier: v.optional(v.string()),
+      label: v.string(),
+    })),
+    startLine: v.number(),
+    endLine: v.number(),
+    text: v.string(),
+    routingSimilarity: v.optional(v.number()),
+    notedAt: v.number(), // Note's meetingAt ?? capturedAt
+    createdAt: v.number(),
+  })
+    .index("by_workspaceId_noteId", ["workspaceId", "noteId"])
+    .index("by_workspaceId_initiativeId_notedAt", ["workspaceId", "initiativeId", "notedAt"]),
+
+  // Beliefs - belief pipeline output per note (beliefs.ts), replaced on each
+  // extraction. Beliefs on the same initiative, dimension and subject form a
+  // supersession chain ordered by note date; the last one is current.
+  beliefs: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    noteId: v.id("notes"),
+    dimension: v.union(
+      v.literal("timeline"),
+      v.literal("scope"),
+      v.literal("ownership"),
+      v.literal("priority"),
+      v.literal("dependency"),
+      v.literal("risk"),
+      v.literal("status"),
+      v.literal("decision"),
+      v.literal("other")
+    ),
+    subjectHandle: v.string(),
+    chainKey: v.string(), // beliefChainKey(initiativeId, dimension, subjectHandle)
+    summary: v.string(),
+    beforeState: v.string(),
+    afterState: v.string(),
+    sourceType: v.union(v.literal("explicit"), v.literal("implicit"), v.literal("external")),
+    // Before state of an external belief, taken from the belief it supersedes
+    resolvedBeforeState: v.optional(v.string()),
+    evidence: v.array(v.object({
+      role: v.union(v.literal("before"), v.literal("after"), v.literal("supporting"), v.literal("contradicting")),
+      startChar: v.number(),
+      endChar: v.number(),
+      startLine: v.number(),
+      endLine: v.number(),
+      text: v.string(),
+    })),
+    confidence: v.number(),
+    confidenceBand: v.union(v.literal("none"), v.literal("high"), v.literal("uncertain")),
+    needsClarification: v.boolean(),
+    modelVersion: v.optional(v.string()),
+    initiativeId: v.optional(v.id("v0Initiatives")), // Routed initiative, if any
+    routingSimilarity: v.optional(v.number()),
+    supersedesBeliefId: v.optional(v.id("beliefs")),
+    supersededByBeliefId: v.optional(v.id("beliefs")),
+    supersededAt: v.optional(v.number()), // notedAt of the superseding belief
+    notedAt: v.number(), // Note's meetingAt ?? capturedAt
+    createdAt: v.number(),
+  })
+    .index("by_workspaceId_noteId", ["workspaceId", "noteId"])
+    .index("by_workspaceId_chainKey_notedAt", ["workspaceId", "chainKey", "notedAt"])
+    .index("by_workspaceId_initiativeId_notedAt", ["workspaceId", "initiativeId", "notedAt"]),
+
+  // Feature flag overrides (featureFlags.ts); definitions and resolution
+  // live in src/lib/feature-flags.ts. One row per workspace, flag, scope and
+  // scope ID; "global" means the whole workspace.
+  featureFlagOverrides: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    flagKey: v.string(),
+    scope: v.union(v.literal("global"), v.literal("team"), v.literal("note")),
+    scopeId: v.optional(v.string()), // Team or note ID; absent for global
+    value: v.union(v.boolean(), v.string()),
+    rolloutPercent: v.optional(v.number()), // 0-100, sticky by note ID; absent = all
+    updatedByUserId: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_workspaceId_flagKey_scope_scopeId", ["workspaceId", "flagKey", "scope", "scopeId"]),
+
+  // Feature flag audit log - one row per override set or cleared
+  featureFlagAuditLog: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    flagKey: v.string(),
+    action: v.union(v.literal("set"), v.literal("cleared")),
+    scope: v.union(v.literal("global"), v.literal("team"), v.literal("note")),
+    scopeId: v.optional(v.string()),
+    previousValue: v.optional(v.union(v.boolean(), v.string())),
+    previousRolloutPercent: v.optional(v.number()),
+    value: v.optional(v.union(v.boolean(), v.string())),
+    rolloutPercent: v.optional(v.number()),
+    actorUserId: v.string(),
+    changedAt: v.number(),
+  })
+    .index("by_workspaceId_changedAt", ["workspaceId", "changedAt"])
+    .index("by_workspaceId_flagKey_changedAt", ["workspaceId", "flagKey", "changedAt"]),
+
+  // Shadow experiments (shadowRuns.ts): a candidate value for a pipeline
+  // flag, run alongside production in one workspace until it is promoted
+  // or stopped
+  shadowExperiments: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    flagKey: v.string(),
+    candidateValue: v.union(v.boolean(), v.string()),
+    pipeline: v.union(v.literal("belief_to_initiative"), v.literal("suggestion_engine")),
+    description: v.optional(v.string()),
+    status: v.union(
+      v.literal("running"),
+      v.literal("paused"),
+      v.literal("stopped"),
+      v.literal("promoted")
+    ),
+    criteria: v.object({
+      minRuns: v.number(),
+      maxDiffRate: v.number(),
+      maxTypeFlipRate: v.number(),
+    }),
+    createdByUserId: v.string(),
+    promotedByUserId: v.optional(v.string()),
+    promotedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_workspaceId_createdAt", ["workspaceId", "createdAt"])
+    .index("by_workspaceId_pipeline_status", ["workspaceId", "pipeline", "status"])
+    .index("by_workspaceId_flagKey_status", ["workspaceId", "flagKey", "status"]),
+
+  // Shadow run diffs - one row per production run compared against the
+  // experiment's candidate (diff from src/lib/shadow-runs.ts, anchors dropped)
+  shadowRunDiffs: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    experimentId: v.id("shadowExperiments"),
+    noteId: v.id("notes"),
+    productionValue: v.union(v.boolean(), v.string()),
+    productionCount: v.number(),
+    candidateCount: v.number(),
+    added: v.array(shadowItemValidator),
+    removed: v.array(shadowItemValidator),
+    changed: v.array(v.object({
+      production: shadowItemValidator,
+      candidate: shadowItemValidator,
+      typeFlip: v.boolean(),
+      titleChanged: v.boolean(),
+      scoreDelta: v.optional(v.number()),
+    })),
+    unchangedCount: v.number(),
+    typeFlipCount: v.number(),
+    meanAbsScoreDelta: v.optional(v.number()),
+    hasDifferences: v.boolean(),
+    createdAt: v.number(),
+  })
+    .index("by_workspaceId_experimentId_createdAt", ["workspaceId", "experimentId", "createdAt"])
+    .index("by_workspaceId_noteId", ["workspaceId", "noteId"]),
 });
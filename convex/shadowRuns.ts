@@ -0,0 +1,376 @@
+import { query, mutation, internalQuery, internalMutation } from "./_generated/server";
+import type { ActionCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { writeFlagOverride } from "./featureFlags";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  DEFAULT_PROMOTION_CRITERIA,
+  SHADOW_FLAG_PIPELINES,
+  diffShadowRun,
+  evaluatePromotion,
+  summarizeShadowRuns,
+  validateShadowExperiment,
+} from "../src/lib/shadow-runs";
+import type { ShadowItem, ShadowPipeline } from "../src/lib/shadow-runs";
+import type { FlagKey, ResolvedFlags } from "../src/lib/feature-flags";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
+
+/**
+ * Shadow Runs Module
+ *
+ * Shadow experiments run a candidate pipeline version (a value of a
+ * pipeline flag) next to production in one workspace and store a diff per
+ * run in shadowRunDiffs. Diffing, aggregation and the promotion check are in
+ * src/lib/shadow-runs.ts.
+ *
+ * After each production run the pipeline runs the candidate and stores the
+ * diff with recordDiff (suggestion engine: runShadowComparisons; belief
+ * pipeline: beliefToInitiativeV2.ts). Candidate output is never stored.
+ * Experiments and diffs belong to the workspace they run in; promoting an
+ * experiment sets the candidate as the flag's global override there.
+ */
+
+// Creator of experiments started by belief_pipeline = dual_run
+const DUAL_RUN_USER_ID = "dual_run";
+
+const flagValueValidator = v.union(v.boolean(), v.string());
+const pipelineValidator = v.union(v.literal("belief_to_initiative"), v.literal("suggestion_engine"));
+const criteriaValidator = v.object({
+  minRuns: v.number(),
+  maxDiffRate: v.number(),
+  maxTypeFlipRate: v.number(),
+});
+const runItemValidator = v.object({
+  key: v.string(),
+  type: v.string(),
+  title: v.string(),
+  anchor: v.string(),
+  score: v.optional(v.number()),
+});
+
+async function findRunningExperiment(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  flagKey: string
+): Promise<Doc<"shadowExperiments"> | null> {
+  return await ctx.db
+    .query("shadowExperiments")
+    .withIndex("by_workspaceId_flagKey_status", (q) =>
+      q.eq("workspaceId", workspaceId).eq("flagKey", flagKey).eq("status", "running")
+    )
+    .first();
+}
+
+async function listExperimentDiffs(
+  ctx: QueryCtx,
+  experiment: Doc<"shadowExperiments">
+): Promise<Doc<"shadowRunDiffs">[]> {
+  return await ctx.db
+    .query("shadowRunDiffs")
+    .withIndex("by_workspaceId_experimentId_createdAt", (q) =>
+      q.eq("workspaceId", experiment.workspaceId).eq("experimentId", experiment._id)
+    )
+    .collect();
+}
+
+function summarizeDiffs(experiment: Doc<"shadowExperiments">, diffs: Doc<"shadowRunDiffs">[]) {
+  const summary = summarizeShadowRuns(
+    diffs.map((diff) => ({
+      productionCount: diff.productionCount,
+      candidateCount: diff.candidateCount,
+      addedCount: diff.added.length,
+      removedCount: diff.removed.length,
+      changedCount: diff.changed.length,
+      unchangedCount: diff.unchangedCount,
+      typeFlipCount: diff.typeFlipCount,
+      meanAbsScoreDelta: diff.meanAbsScoreDelta,
+      hasDifferences: diff.hasDifferences,
+    }))
+  );
+  return { summary, promotion: evaluatePromotion(summary, experiment.criteria) };
+}
+
+// Experiments in the active workspace with their diff summary and
+// promotion check, newest first
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireRole(ctx, "viewer");
+    const experiments = await ctx.db
+      .query("shadowExperiments")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
+      .order("desc")
+      .collect();
+    return await Promise.all(
+      experiments.map(async (experiment) => {
+        const diffs = await listExperimentDiffs(ctx, experiment);
+        return {
+          ...experiment,
+          ...summarizeDiffs(experiment, diffs),
+          lastRunAt: diffs.length > 0 ? diffs[diffs.length - 1].createdAt : undefined,
+        };
+      })
+    );
+  },
+});
+
+// Recent diffs for an experiment, newest first, with note titles
+export const listDiffs = query({
+  args: {
+    experimentId: v.id("shadowExperiments"),
+    onlyDifferences: v.optional(v.boolean()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    const experiment = await getOwned(ctx, user.workspaceId, args.experimentId);
+    if (!experiment) return [];
+    const diffs = await ctx.db
+      .query("shadowRunDiffs")
+      .withIndex("by_workspaceId_experimentId_createdAt", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("experimentId", experiment._id)
+      )
+      .order("desc")
+      .collect();
+    const limit = args.limit ?? 20;
+    const selected = [];
+    for (const diff of diffs) {
+      if (selected.length === limit) break;
+      if (args.onlyDifferences && !diff.hasDifferences) continue;
+      const note = await getOwned(ctx, user.workspaceId, diff.noteId);
+      if (note) selected.push({ ...diff, noteTitle: note.title });
+    }
+    return selected;
+  },
+});
+
+export const listRunningInternal = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    pipeline: pipelineValidator,
+  },
+  handler: async (ctx, args): Promise<Doc<"shadowExperiments">[]> => {
+    return await ctx.db
+      .query("shadowExperiments")
+      .withIndex("by_workspaceId_pipeline_status", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("pipeline", args.pipeline).eq("status", "running")
+      )
+      .collect();
+  },
+});
+
+/**
+ * Start an experiment in the caller's workspace. Only one experiment per
+ * flag runs there at a time.
+ */
+export const create = mutation({
+  args: {
+    flagKey: v.string(),
+    candidateValue: flagValueValidator,
+    description: v.optional(v.string()),
+    criteria: v.optional(criteriaValidator),
+  },
+  handler: async (ctx, args): Promise<Id<"shadowExperiments">> => {
+    const user = await requireRole(ctx, "admin");
+    const error = validateShadowExperiment(args.flagKey, args.candidateValue);
+    if (error) throw new Error(error);
+    if (await findRunningExperiment(ctx, user.workspaceId, args.flagKey)) {
+      throw new Error(`An experiment is already running for ${args.flagKey}`);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("shadowExperiments", {
+      workspaceId: user.workspaceId,
+      flagKey: args.flagKey,
+      candidateValue: args.candidateValue,
+      pipeline: SHADOW_FLAG_PIPELINES[args.flagKey as FlagKey]!,
+      description: args.description,
+      status: "running",
+      criteria: args.criteria ?? DEFAULT_PROMOTION_CRITERIA,
+      createdByUserId: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Pause, resume or stop an experiment; promoted experiments are final
+export const setStatus = mutation({
+  args: {
+    experimentId: v.id("shadowExperiments"),
+    status: v.union(v.literal("running"), v.literal("paused"), v.literal("stopped")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "admin");
+    const experiment = await getOwned(ctx, user.workspaceId, args.experimentId);
+    if (!experiment) throw new Error("Experiment not found");
+    if (experiment.status === "promoted") throw new Error("Experiment already promoted");
+    if (args.status === "running") {
+      const running = await findRunningExperiment(ctx, user.workspaceId, experiment.flagKey);
+      if (running && running._id !== experiment._id) {
+        throw new Error(`An experiment is already running for ${experiment.flagKey}`);
+      }
+    }
+    await ctx.db.patch(args.experimentId, { status: args.status, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Promote the candidate: set it as the flag's global override in the
+ * experiment's workspace and close the experiment. Fails while the promotion
+ * criteria are not met.
+ */
+export const promote = mutation({
+  args: {
+    experimentId: v.id("shadowExperiments"),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const user = await requireRole(ctx, "admin");
+    const experiment = await getOwned(ctx, user.workspaceId, args.experimentId);
+    if (!experiment) throw new Error("Experiment not found");
+    if (experiment.status === "promoted") throw new Error("Experiment already promoted");
+
+    const diffs = await listExperimentDiffs(ctx, experiment);
+    const { promotion } = summarizeDiffs(experiment, diffs);
+    if (!promotion.eligible) {
+      throw new Error(`Not ready to promote: ${promotion.reasons.join("; ")}`);
+    }
+
+    const actorUserId = user._id;
+    await writeFlagOverride(ctx, {
+      workspaceId: user.workspaceId,
+      flagKey: experiment.flagKey,
+      scope: "global",
+      value: experiment.candidateValue,
+      actorUserId,
+    });
+    const now = Date.now();
+    await ctx.db.patch(experiment._id, {
+      status: "promoted",
+      promotedByUserId: actorUserId,
+      promotedAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Running experiment for a flag and candidate in a workspace, for dual_run
+ * comparisons. Starts one with the default criteria when the flag has none
+ * running there;
+ * returns null when another candidate is already being shadowed.
+ */
+export const ensureExperimentInternal = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    flagKey: v.string(),
+    candidateValue: flagValueValidator,
+  },
+  handler: async (ctx, args): Promise<Id<"shadowExperiments"> | null> => {
+    const running = await findRunningExperiment(ctx, args.workspaceId, args.flagKey);
+    if (running) return running.candidateValue === args.candidateValue ? running._id : null;
+
+    const error = validateShadowExperiment(args.flagKey, args.candidateValue);
+    if (error) throw new Error(error);
+    const now = Date.now();
+    return await ctx.db.insert("shadowExperiments", {
+      workspaceId: args.workspaceId,
+      flagKey: args.flagKey,
+      candidateValue: args.candidateValue,
+      pipeline: SHADOW_FLAG_PIPELINES[args.flagKey as FlagKey]!,
+      status: "running",
+      criteria: DEFAULT_PROMOTION_CRITERIA,
+      createdByUserId: DUAL_RUN_USER_ID,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Anchors are only needed for pairing; keep stored diffs small
+function storedItem({ key, type, title, score }: ShadowItem) {
+  return { key, type, title, score };
+}
+
+// Diff a candidate run against production output and store it in the
+// experiment's workspace
+export const recordDiff = internalMutation({
+  args: {
+    experimentId: v.id("shadowExperiments"),
+    noteId: v.id("notes"),
+    productionValue: flagValueValidator,
+    production: v.array(runItemValidator),
+    candidate: v.array(runItemValidator),
+  },
+  handler: async (ctx, args): Promise<Id<"shadowRunDiffs">> => {
+    const experiment = await ctx.db.get(args.experimentId);
+    if (!experiment) throw new Error("Experiment not found");
+    const diff = diffShadowRun(args.production, args.candidate);
+    return await ctx.db.insert("shadowRunDiffs", {
+      workspaceId: experiment.workspaceId,
+      experimentId: args.experimentId,
+      noteId: args.noteId,
+      productionValue: args.productionValue,
+      productionCount: diff.productionCount,
+      candidateCount: diff.candidateCount,
+      added: diff.added.map(storedItem),
+      removed: diff.removed.map(storedItem),
+      changed: diff.changed.map((change) => ({
+        production: storedItem(change.production),
+        candidate: storedItem(change.candidate),
+        typeFlip: change.typeFlip,
+        titleChanged: change.titleChanged,
+        scoreDelta: change.scoreDelta,
+      })),
+      unchangedCount: diff.unchangedCount,
+      typeFlipCount: diff.typeFlipCount,
+      meanAbsScoreDelta: diff.meanAbsScoreDelta,
+      hasDifferences: diff.hasDifferences,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Shadow a production run: for each running experiment on the pipeline in
+ * the note's workspace whose candidate differs from the value production used, run the
+ * candidate and record the diff. Failures are logged and never surface to
+ * the production caller.
+ *
+ * @param runCandidate - Runs the pipeline with the flag set to the candidate value
+ */
+export async function runShadowComparisons(
+  ctx: ActionCtx,
+  params: {
+    workspaceId: Id<"workspaces">;
+    pipeline: ShadowPipeline;
+    noteId: Id<"notes">;
+    flags: ResolvedFlags;
+    production: ShadowItem[];
+    runCandidate: (flagKey: FlagKey, candidateValue: boolean | string) => Promise<ShadowItem[]>;
+  }
+): Promise<void> {
+  const experiments: Doc<"shadowExperiments">[] = await ctx.runQuery(internal.shadowRuns.listRunningInternal, {
+    workspaceId: params.workspaceId,
+    pipeline: params.pipeline,
+  });
+  for (const experiment of experiments) {
+    const flagKey = experiment.flagKey as FlagKey;
+    const productionValue = params.flags[flagKey]?.value;
+    if (productionValue === undefined || productionValue === experiment.candidateValue) continue;
+    try {
+      const candidate = await params.runCandidate(flagKey, experiment.candidateValue);
+      await ctx.runMutation(internal.shadowRuns.recordDiff, {
+        experimentId: experiment._id,
+        noteId: params.noteId,
+        productionValue,
+        production: params.production,
+        candidate,
+      });
+    } catch (error) {
+      console.error(`Shadow run failed for ${flagKey}=${String(experiment.candidateValue)}:`, error);
+    }
+  }
+}
@@ -0,0 +1,318 @@
+import { query, mutation } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { api } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { ensureEventSourcedInitiative } from "./suggestionBridge";
+import { buildStatusReport, renderStatusReportMarkdown } from "../src/lib/status-report";
+import type {
+  ReportAppliedSuggestion,
+  ReportDateChange,
+  ReportNextStep,
+  ReportNote,
+  ReportRisk,
+  StatusReportInput,
+} from "../src/lib/status-report";
+import type { SuggestionType } from "../src/lib/suggestion-engine-v2/types";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
+
+/**
+ * Status Reports Module
+ *
+ * Collects what the notes recorded about an initiative over a date range
+ * and builds a status report (src/lib/status-report.ts):
+ * - applied suggestions: suggestionDecisions, plus applied suggestions rows
+ * - beliefs: noteAssertions
+ * - decisions: decisionRecords
+ * - date changes: ReleaseDateChanged events, and releaseTargetDate field
+ *   updates from applied suggestions, on the event-sourced initiative
+ * - open risks / next steps: undecided risk and action_item suggestions
+ *   routed to the initiative, plus action items applied in the range
+ *
+ * Reports accept a v0Initiatives or a newInitiatives id; the two are linked
+ * by newInitiatives.v0InitiativeId. Deleted notes are never cited.
+ */
+
+interface ResolvedInitiative {
+  v0Initiative: Doc<"v0Initiatives"> | null;
+  eventSourced: Doc<"newInitiatives"> | null;
+}
+
+async function resolveInitiative(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  initiativeId: string
+): Promise<ResolvedInitiative> {
+  const v0Id = ctx.db.normalizeId("v0Initiatives", initiativeId);
+  if (v0Id) {
+    const v0Initiative = await getOwned(ctx, workspaceId, v0Id);
+    if (!v0Initiative) throw new Error("Initiative not found");
+    const eventSourced = await ctx.db
+      .query("newInitiatives")
+      .withIndex("by_workspaceId_v0InitiativeId", (q) =>
+        q.eq("workspaceId", workspaceId).eq("v0InitiativeId", v0Id)
+      )
+      .first();
+    return { v0Initiative, eventSourced };
+  }
+
+  const newId = ctx.db.normalizeId("newInitiatives", initiativeId);
+  const eventSourced = newId ? await getOwned(ctx, workspaceId, newId) : null;
+  if (!eventSourced) throw new Error("Initiative not found");
+  const v0Initiative = eventSourced.v0InitiativeId
+    ? await getOwned(ctx, workspaceId, eventSourced.v0InitiativeId)
+    : null;
+  return { v0Initiative, eventSourced };
+}
+
+/** "note:<noteId>#<suggestionKey>" (suggestionBridge.applyProjectUpdate) */
+function noteIdFromSourceReference(sourceReference: string | undefined): string | undefined {
+  return sourceReference?.match(/^note:([^#]+)#/)?.[1];
+}
+
+async function collectReportInput(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  initiativeId: string,
+  from: number,
+  to: number
+): Promise<StatusReportInput> {
+  const { v0Initiative, eventSourced } = await resolveInitiative(ctx, workspaceId, initiativeId);
+  const v0Id = v0Initiative?._id;
+
+  // Active notes, loaded on first reference
+  const notes = new Map<string, ReportNote | null>();
+  const loadNote = async (noteId: Id<"notes">): Promise<ReportNote | null> => {
+    if (!notes.has(noteId)) {
+      const note = await getOwned(ctx, workspaceId, noteId);
+      notes.set(noteId, note && !note.isDeleted
+        ? { noteId, title: note.title, notedAt: note.meetingAt ?? note.capturedAt }
+        : null);
+    }
+    return notes.get(noteId)!;
+  };
+
+  const appliedSuggestions: ReportAppliedSuggestion[] = [];
+  const nextSteps: ReportNextStep[] = [];
+  const openRisks: ReportRisk[] = [];
+  const applied = (noteId: string, type: SuggestionType, title: string, appliedAt: number) => {
+    if (type === "action_item") {
+      if (appliedAt >= from) nextSteps.push({ noteId, title, raisedAt: appliedAt });
+    } else {
+      appliedSuggestions.push({ noteId, type, title, appliedAt });
+    }
+  };
+
+  const beliefs: StatusReportInput["beliefs"] = [];
+  const decisions: StatusReportInput["decisions"] = [];
+
+  if (v0Id) {
+    // Applied from the note page; the engine output is on the decision
+    const seen = new Set<string>();
+    const appliedDecisions = await ctx.db
+      .query("suggestionDecisions")
+      .withIndex("by_workspaceId_initiativeId", (q) =>
+        q.eq("workspaceId", workspaceId).eq("initiativeId", v0Id)
+      )
+      .collect();
+    for (const decision of appliedDecisions) {
+      if (decision.status !== "applied" || !decision.appliedAt) continue;
+      if (!(await loadNote(decision.noteId))) continue;
+      const version = decision.editedSuggestion ?? decision.originalSuggestion;
+      const row = version
+        ? null
+        : (await ctx.db
+            .query("suggestions")
+            .withIndex("by_workspaceId_noteId", (q) =>
+              q.eq("workspaceId", workspaceId).eq("noteId", decision.noteId)
+            )
+            .collect()
+          ).find((s) => s.suggestionKey === decision.suggestionKey);
+      const type = version?.type ?? row?.suggestionType;
+      const title = version?.title ?? row?.title;
+      if (!type || !title) continue;
+      seen.add(`${decision.noteId}::${decision.suggestionKey}`);
+      applied(decision.noteId, type, title, decision.appliedAt);
+    }
+
+    // Applied through the suggestions row (triage inbox, legacy apply)
+    const appliedRows = await ctx.db
+      .query("suggestions")
+      .withIndex("by_workspaceId_initiativeId", (q) =>
+        q.eq("workspaceId", workspaceId).eq("initiativeId", v0Id)
+      )
+      .collect();
+    for (const row of appliedRows) {
+      if (row.status !== "applied" || !row.appliedAt || !row.suggestionType) continue;
+      if (row.suggestionKey && seen.has(`${row.noteId}::${row.suggestionKey}`)) continue;
+      if (!(await loadNote(row.noteId))) continue;
+      applied(row.noteId, row.suggestionType, row.title ?? row.content, row.appliedAt);
+    }
+
+    // Undecided risks and action items routed here
+    const openRows = await ctx.db
+      .query("suggestions")
+      .withIndex("by_workspaceId_status", (q) => q.eq("workspaceId", workspaceId).eq("status", "new"))
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("routedInitiativeId"), v0Id),
+          q.neq(q.field("invalidatedByNoteDeletion"), true)
+        )
+      )
+      .collect();
+    for (const row of openRows) {
+      if (row.suggestionType !== "risk" && row.suggestionType !== "action_item") continue;
+      const note = await loadNote(row.noteId);
+      if (!note) continue;
+      if (row.suggestionKey) {
+        const decision = await ctx.db
+          .query("suggestionDecisions")
+          .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+            q.eq("workspaceId", workspaceId).eq("noteId", row.noteId).eq("suggestionKey", row.suggestionKey!)
+          )
+          .first();
+        if (decision) continue;
+      }
+      const item = { noteId: row.noteId, title: row.title ?? row.content, raisedAt: note.notedAt };
+      if (row.suggestionType === "risk") openRisks.push(item);
+      else nextSteps.push(item);
+    }
+
+    const assertions = await ctx.db
+      .query("noteAssertions")
+      .withIndex("by_workspaceId_initiativeId_notedAt", (q) =>
+        q.eq("workspaceId", workspaceId).eq("initiativeId", v0Id).gte("notedAt", from).lte("notedAt", to)
+      )
+      .collect();
+    for (const assertion of assertions) {
+      if (!(await loadNote(assertion.noteId))) continue;
+      beliefs.push({
+        noteId: assertion.noteId,
+        dimension: assertion.dimension,
+        label: assertion.label,
+        previousLabel: assertion.previous?.label,
+        isChange: assertion.isChange,
+        notedAt: assertion.notedAt,
+        lines: { startLine: assertion.startLine, endLine: assertion.endLine },
+      });
+    }
+
+    const records = await ctx.db
+      .query("decisionRecords")
+      .withIndex("by_workspaceId_initiativeId_decidedAt", (q) =>
+        q.eq("workspaceId", workspaceId).eq("initiativeId", v0Id).gte("decidedAt", from).lte("decidedAt", to)
+      )
+      .collect();
+    for (const record of records) {
+      if (!(await loadNote(record.noteId))) continue;
+      const span = record.evidence[0];
+      decisions.push({
+        noteId: record.noteId,
+        statement: record.statement,
+        rationale: record.rationale,
+        decidedAt: record.decidedAt,
+        lines: span ? { startLine: span.startLine, endLine: span.endLine } : undefined,
+      });
+    }
+  }
+
+  const dateChanges: ReportDateChange[] = [];
+  if (eventSourced) {
+    const events = await ctx.db
+      .query("initiativeEvents")
+      .withIndex("by_workspaceId_initiativeId_sequence", (q) =>
+        q.eq("workspaceId", workspaceId).eq("initiativeId", eventSourced._id)
+      )
+      .collect();
+    for (const event of events) {
+      if (event.occurredAt < from || event.occurredAt > to) continue;
+
+      let change: Omit<ReportDateChange, "noteId"> | undefined;
+      if (event.type === "ReleaseDateChanged") {
+        change = {
+          dateType: event.payload.dateType,
+          oldDate: event.payload.oldDate ?? null,
+          newDate: event.payload.newDate ?? null,
+          occurredAt: event.occurredAt,
+        };
+      } else if (event.type === "InitiativeFieldUpdated" && event.payload.field === "releaseTargetDate") {
+        change = {
+          dateType: "target",
+          oldDate: event.payload.oldValue ?? null,
+          newDate: event.payload.newValue ?? null,
+          occurredAt: event.occurredAt,
+        };
+      }
+      if (!change) continue;
+
+      // Cite the note when the change came from an applied suggestion
+      const source = event.suggestionId ? await getOwned(ctx, workspaceId, event.suggestionId) : null;
+      const noteId = ctx.db.normalizeId("notes", noteIdFromSourceReference(source?.sourceReference) ?? "");
+      dateChanges.push({ ...change, noteId: noteId && (await loadNote(noteId)) ? noteId : undefined });
+    }
+  }
+
+  return {
+    initiative: {
+      title: eventSourced?.title ?? v0Initiative!.title,
+      status: eventSourced?.status ?? v0Initiative?.status,
+      releaseTargetDate: eventSourced?.releaseTargetDate,
+      riskLevel: eventSourced?.riskLevel,
+    },
+    from,
+    to,
+    notes: [...notes.values()].filter((note): note is ReportNote => note !== null),
+    appliedSuggestions,
+    beliefs,
+    decisions,
+    dateChanges,
+    openRisks,
+    nextSteps,
+  };
+}
+
+// Status report for a v0Initiatives or newInitiatives id over [from, to]
+export const generate = query({
+  args: {
+    initiativeId: v.string(),
+    from: v.number(),
+    to: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    return buildStatusReport(
+      await collectReportInput(ctx, user.workspaceId, args.initiativeId, args.from, args.to)
+    );
+  },
+});
+
+/**
+ * Generate the report and save its markdown as a comment on the
+ * event-sourced initiative (created for a v0 initiative if needed).
+ */
+export const saveAsComment = mutation({
+  args: {
+    initiativeId: v.string(),
+    from: v.number(),
+    to: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const report = buildStatusReport(
+      await collectReportInput(ctx, user.workspaceId, args.initiativeId, args.from, args.to)
+    );
+    const body = renderStatusReportMarkdown(report);
+
+    const { v0Initiative, eventSourced } = await resolveInitiative(ctx, user.workspaceId, args.initiativeId);
+    const eventSourcedInitiativeId = eventSourced?._id
+      ?? await ensureEventSourcedInitiative(ctx, user.workspaceId, v0Initiative!);
+
+    const commentId: Id<"initiativeComments"> = await ctx.runMutation(api.initiativeComments.addComment, {
+      initiativeId: eventSourcedInitiativeId,
+      body,
+    });
+
+    return { commentId, eventSourcedInitiativeId };
+  },
+});
@@ -0,0 +1,346 @@
+/**
+ * Suggestion Bridge (v2 engine → event-sourced initiatives)
+ *
+ * Applying a suggestion from the note page used to touch only v0Initiatives.
+ * This module also feeds the event-sourced model:
+ * - project_update → initiativeSuggestions patch (description,
+ *   releaseTargetDate, riskLevel, status), applied via
+ *   initiativeSuggestions.apply so it emits events and can be undone with
+ *   initiativeAudit.undoSuggestion
+ * - idea → InitiativeCreated via newInitiatives.create
+ * - action_item → task comment via initiativeComments.addComment
+ * - conflict → comment quoting both statements via initiativeComments.addComment
+ *
+ * Each v0 initiative is tracked by one event-sourced initiative
+ * (newInitiatives.v0InitiativeId), created on first use. The existing
+ * commands are reused through ctx.runMutation so validation, events and
+ * materialization stay in one place.
+ */
+
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { api } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { isValidTransition, toCanonicalJSON } from "./initiativeEventStore";
+import { loadInitiativeState } from "./newInitiatives";
+import {
+  buildActionItemComment,
+  buildConflictComment,
+  buildInitiativeCreatedCommand,
+  buildProjectUpdatePatch,
+} from "../src/lib/initiative-bridge";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
+
+const resolvedDateValidator = v.object({
+  date: v.string(),
+  precision: v.union(
+    v.literal("day"),
+    v.literal("week"),
+    v.literal("month"),
+    v.literal("quarter"),
+    v.literal("year")
+  ),
+  text: v.string(),
+});
+
+// payload.schedule_delta (see src/lib/suggestion-engine-v2/dateResolver.ts)
+const scheduleDeltaValidator = v.object({
+  anchor: v.string(),
+  before: v.optional(resolvedDateValidator),
+  after: v.optional(resolvedDateValidator),
+  shift: v.optional(
+    v.object({
+      amount: v.number(),
+      unit: v.union(
+        v.literal("day"),
+        v.literal("week"),
+        v.literal("sprint"),
+        v.literal("month"),
+        v.literal("quarter")
+      ),
+      days: v.number(),
+      text: v.string(),
+    })
+  ),
+  shift_days: v.optional(v.number()),
+  source_text: v.string(),
+});
+
+// payload.action_item (see src/lib/suggestion-engine-v2/actionItemSeeding.ts)
+const actionItemValidator = v.object({
+  assignee: v.union(v.string(), v.null()),
+  deliverable: v.string(),
+  due_text: v.optional(v.string()),
+  due: v.optional(resolvedDateValidator),
+});
+
+// payload.conflict (see src/lib/suggestion-engine-v2/contradictions.ts)
+const conflictValidator = v.object({
+  dimension: v.union(v.literal("timeline"), v.literal("scope"), v.literal("ownership"), v.literal("status")),
+  initiative_id: v.string(),
+  initiative_title: v.string(),
+  note_statement: v.string(),
+  conflicting_statement: v.string(),
+  conflicting_source: v.union(v.literal("initiative"), v.literal("note")),
+  conflicting_note_id: v.optional(v.string()),
+});
+
+const bridgeSuggestionValidator = v.object({
+  type: v.literal("project_update"),
+  title: v.string(),
+  afterDescription: v.optional(v.string()),
+  evidenceText: v.string(),
+  scheduleDelta: v.optional(scheduleDeltaValidator),
+});
+
+// ============================================
+// Helper: Event-Sourced Initiative for a v0 Initiative
+// ============================================
+
+export async function ensureEventSourcedInitiative(
+  ctx: MutationCtx,
+  workspaceId: Id<"workspaces">,
+  v0Initiative: Doc<"v0Initiatives">
+): Promise<Id<"newInitiatives">> {
+  const linked = await ctx.db
+    .query("newInitiatives")
+    .withIndex("by_workspaceId_v0InitiativeId", (q) =>
+      q.eq("workspaceId", workspaceId).eq("v0InitiativeId", v0Initiative._id)
+    )
+    .first();
+  if (linked) return linked._id;
+
+  const base = buildInitiativeCreatedCommand(v0Initiative).slug;
+  const taken = await ctx.db
+    .query("newInitiatives")
+    .withIndex("by_workspaceId_slug", (q) =>
+      q.eq("workspaceId", workspaceId).gte("slug", base).lt("slug", `${base}\uffff`)
+    )
+    .collect();
+  const takenSlugs = new Set(taken.map((i) => i.slug));
+  const command = buildInitiativeCreatedCommand(v0Initiative, (slug) => takenSlugs.has(slug));
+
+  const initiativeId: Id<"newInitiatives"> = await ctx.runMutation(api.newInitiatives.create, {
+    ...command,
+  });
+  await ctx.db.patch(initiativeId, { v0InitiativeId: v0Initiative._id });
+  return initiativeId;
+}
+
+// ============================================
+// Command: Apply project_update to Existing Initiative
+// ============================================
+
+export const applyProjectUpdate = mutation({
+  args: {
+    noteId: v.id("notes"),
+    suggestionKey: v.string(),
+    initiativeId: v.id("v0Initiatives"),
+    suggestion: bridgeSuggestionValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const note = await getOwned(ctx, user.workspaceId, args.noteId);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+    const v0Initiative = await getOwned(ctx, user.workspaceId, args.initiativeId);
+    if (!v0Initiative) {
+      throw new Error("Initiative not found");
+    }
+    const eventSourcedInitiativeId = await ensureEventSourcedInitiative(ctx, user.workspaceId, v0Initiative);
+    const { state } = await loadInitiativeState(ctx, user.workspaceId, eventSourcedInitiativeId);
+    const canonical = toCanonicalJSON(state);
+
+    const patch = buildProjectUpdatePatch(
+      { ...args.suggestion, meetingAt: note.meetingAt ?? note.capturedAt },
+      {
+        description: canonical.description,
+        status: canonical.status,
+        riskLevel: canonical.riskLevel,
+        releaseTargetDate: canonical.releaseTargetDate,
+      },
+      (to) => isValidTransition(state.status, to)
+    );
+
+    let initiativeSuggestionId: Id<"initiativeSuggestions"> | undefined;
+    if (patch.operations.length > 0) {
+      initiativeSuggestionId = await ctx.runMutation(api.initiativeSuggestions.create, {
+        initiativeId: eventSourcedInitiativeId,
+        kind: patch.kind,
+        operations: patch.operations,
+        sourceKind: "system",
+        sourceReference: `note:${args.noteId}#${args.suggestionKey}`,
+      });
+      await ctx.runMutation(api.initiativeSuggestions.apply, {
+        id: initiativeSuggestionId,
+      });
+    }
+
+    const { decisionId, initiative } = await ctx.runMutation(api.suggestionDecisions.applySuggestionToExisting, {
+      noteId: args.noteId,
+      suggestionKey: args.suggestionKey,
+      initiativeId: args.initiativeId,
+    });
+    await ctx.db.patch(decisionId, { eventSourcedInitiativeId, initiativeSuggestionId });
+
+    return {
+      decisionId,
+      initiative,
+      eventSourcedInitiativeId,
+      initiativeSuggestionId: initiativeSuggestionId ?? null,
+      changedFields: patch.operations.map((op) => op.path.slice(1)),
+      skippedStatus: patch.skippedStatus ?? null,
+    };
+  },
+});
+
+// ============================================
+// Command: Apply idea as New Initiative
+// ============================================
+
+export const applyIdeaAsInitiative = mutation({
+  args: {
+    noteId: v.id("notes"),
+    suggestionKey: v.string(),
+    title: v.string(),
+    description: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const { decisionId, initiative } = await ctx.runMutation(api.suggestionDecisions.applySuggestionCreateNew, {
+      noteId: args.noteId,
+      suggestionKey: args.suggestionKey,
+      title: args.title,
+      description: args.description,
+    });
+
+    // Emits InitiativeCreated for the new initiative
+    const eventSourcedInitiativeId = await ensureEventSourcedInitiative(ctx, user.workspaceId, initiative);
+    await ctx.db.patch(decisionId, { eventSourcedInitiativeId });
+
+    return { decisionId, initiative, eventSourcedInitiativeId };
+  },
+});
+
+// ============================================
+// Command: Apply action_item to Existing Initiative
+// ============================================
+
+export const applyActionItem = mutation({
+  args: {
+    noteId: v.id("notes"),
+    suggestionKey: v.string(),
+    initiativeId: v.id("v0Initiatives"),
+    actionItem: actionItemValidator,
+    evidenceText: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const note = await getOwned(ctx, user.workspaceId, args.noteId);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+    const v0Initiative = await getOwned(ctx, user.workspaceId, args.initiativeId);
+    if (!v0Initiative) {
+      throw new Error("Initiative not found");
+    }
+    const body = buildActionItemComment({ actionItem: args.actionItem, evidenceText: args.evidenceText });
+    const eventSourcedInitiativeId = await ensureEventSourcedInitiative(ctx, user.workspaceId, v0Initiative);
+    const initiativeCommentId: Id<"initiativeComments"> = await ctx.runMutation(api.initiativeComments.addComment, {
+      initiativeId: eventSourcedInitiativeId,
+      body,
+    });
+
+    const { decisionId, initiative } = await ctx.runMutation(api.suggestionDecisions.applySuggestionToExisting, {
+      noteId: args.noteId,
+      suggestionKey: args.suggestionKey,
+      initiativeId: args.initiativeId,
+    });
+    await ctx.db.patch(decisionId, { eventSourcedInitiativeId, initiativeCommentId });
+
+    return { decisionId, initiative, eventSourcedInitiativeId, initiativeCommentId };
+  },
+});
+
+// ============================================
+// Command: Apply conflict to its Initiative
+// ============================================
+
+export const applyConflict = mutation({
+  args: {
+    noteId: v.id("notes"),
+    suggestionKey: v.string(),
+    initiativeId: v.id("v0Initiatives"),
+    conflict: conflictValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const note = await getOwned(ctx, user.workspaceId, args.noteId);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+    const v0Initiative = await getOwned(ctx, user.workspaceId, args.initiativeId);
+    if (!v0Initiative) {
+      throw new Error("Initiative not found");
+    }
+    const body = buildConflictComment(args.conflict, note.title);
+    const eventSourcedInitiativeId = await ensureEventSourcedInitiative(ctx, user.workspaceId, v0Initiative);
+    const initiativeCommentId: Id<"initiativeComments"> = await ctx.runMutation(api.initiativeComments.addComment, {
+      initiativeId: eventSourcedInitiativeId,
+      body,
+    });
+
+    const { decisionId, initiative } = await ctx.runMutation(api.suggestionDecisions.applySuggestionToExisting, {
+      noteId: args.noteId,
+      suggestionKey: args.suggestionKey,
+      initiativeId: args.initiativeId,
+    });
+    await ctx.db.patch(decisionId, { eventSourcedInitiativeId, initiativeCommentId });
+
+    return { decisionId, initiative, eventSourcedInitiativeId, initiativeCommentId };
+  },
+});
+
+// ============================================
+// Command: Undo Applied project_update / action_item / conflict
+// ============================================
+
+export const undoApply = mutation({
+  args: {
+    noteId: v.id("notes"),
+    suggestionKey: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const decision = await ctx.db
+      .query("suggestionDecisions")
+      .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId).eq("suggestionKey", args.suggestionKey)
+      )
+      .first();
+
+    if (!decision || decision.status !== "applied") {
+      throw new Error("Applied decision not found");
+    }
+    let result;
+    if (decision.initiativeCommentId) {
+      result = await ctx.runMutation(api.initiativeComments.deleteComment, {
+        id: decision.initiativeCommentId,
+      });
+    } else if (decision.initiativeSuggestionId) {
+      result = await ctx.runMutation(api.initiativeAudit.undoSuggestion, {
+        suggestionId: decision.initiativeSuggestionId,
+      });
+    } else {
+      throw new Error("Only initiative updates, action items and conflicts can be undone");
+    }
+
+    // The suggestion shows up as new on the note page again
+    await ctx.db.delete(decision._id);
+
+    return result;
+  },
+});
@@ -0,0 +1,204 @@
+import { query, internalMutation, internalQuery } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+  clusterAcrossNotes,
+  getClusterDecision,
+  memberKey,
+} from "../src/lib/suggestion-engine-v2/crossNoteClustering";
+import type { ClusterableSuggestion, MemberDecision } from "../src/lib/suggestion-engine-v2/crossNoteClustering";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
+
+/**
+ * Suggestion Clusters Module
+ *
+ * Cross-note deduplication. Each note's latest engine output is snapshotted
+ * in suggestionSnapshots; equivalent suggestions from different notes are
+ * clustered (see crossNoteClustering.ts) and a dismissal or application on
+ * any member note decides the whole cluster.
+ */
+
+const suggestionTypeValidator = v.union(
+  v.literal("idea"),
+  v.literal("project_update"),
+  v.literal("bug"),
+  v.literal("risk"),
+  v.literal("action_item"),
+  v.literal("conflict")
+);
+
+const editableSuggestionValidator = v.object({
+  type: suggestionTypeValidator,
+  title: v.string(),
+  body: v.string(),
+  initiativeId: v.optional(v.string()),
+});
+
+type SnapshotMember = ClusterableSuggestion & { decision?: MemberDecision };
+
+function toMember(snapshot: Doc<"suggestionSnapshots">): ClusterableSuggestion {
+  return {
+    note_id: snapshot.noteId,
+    suggestionKey: snapshot.suggestionKey,
+    type: snapshot.suggestionType,
+    title: snapshot.title,
+    evidence_text: snapshot.evidenceText,
+    noted_at: snapshot.notedAt,
+  };
+}
+
+/**
+ * Load snapshots from non-deleted notes with their decisions attached.
+ * Decisions come from suggestionDecisions, plus legacy suggestions.status.
+ */
+async function loadMembers(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  snapshots: Doc<"suggestionSnapshots">[]
+): Promise<SnapshotMember[]> {
+  const noteIds = [...new Set(snapshots.map((s) => s.noteId))];
+  const activeNotes = new Set<Id<"notes">>();
+  const decisions = new Map<string, MemberDecision>();
+
+  for (const noteId of noteIds) {
+    const note = await getOwned(ctx, workspaceId, noteId);
+    if (!note || note.isDeleted) continue;
+    activeNotes.add(noteId);
+
+    const noteDecisions = await ctx.db
+      .query("suggestionDecisions")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", workspaceId).eq("noteId", noteId))
+      .collect();
+    for (const d of noteDecisions) {
+      if (d.status === "dismissed" || d.status === "applied") {
+        decisions.set(`${noteId}::${d.suggestionKey}`, d.status);
+      }
+    }
+
+    const legacy = await ctx.db
+      .query("suggestions")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", workspaceId).eq("noteId", noteId))
+      .collect();
+    for (const s of legacy) {
+      const key = `${noteId}::${s.suggestionKey}`;
+      if (!s.suggestionKey || decisions.has(key)) continue;
+      if (s.status === "dismissed" || s.status === "applied") decisions.set(key, s.status);
+    }
+  }
+
+  return snapshots
+    .filter((s) => activeNotes.has(s.noteId))
+    .map((s) => {
+      const member = toMember(s);
+      return { ...member, decision: decisions.get(memberKey(member)) };
+    });
+}
+
+// Replace a note's snapshot with its latest engine output
+export const replaceNoteSnapshots = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+    notedAt: v.number(),
+    suggestions: v.array(
+      v.object({
+        suggestionKey: v.string(),
+        suggestionType: suggestionTypeValidator,
+        title: v.string(),
+        evidenceText: v.string(),
+        editable: editableSuggestionValidator,
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("suggestionSnapshots")
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId)
+      )
+      .collect();
+    for (const row of existing) {
+      await ctx.db.delete(row._id);
+    }
+
+    const now = Date.now();
+    for (const s of args.suggestions) {
+      await ctx.db.insert("suggestionSnapshots", {
+        workspaceId: args.workspaceId,
+        noteId: args.noteId,
+        notedAt: args.notedAt,
+        updatedAt: now,
+        ...s,
+      });
+    }
+  },
+});
+
+// This note's snapshot from its last engine run (previous keys for key remapping)
+export const listNoteSnapshots = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("suggestionSnapshots")
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId)
+      )
+      .collect();
+  },
+});
+
+// Snapshots from other notes that could cluster with this note's suggestions
+export const listOtherNoteMembers = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+    suggestionTypes: v.array(suggestionTypeValidator),
+  },
+  handler: async (ctx, args) => {
+    const snapshots: Doc<"suggestionSnapshots">[] = [];
+    for (const suggestionType of new Set(args.suggestionTypes)) {
+      const rows = await ctx.db
+        .query("suggestionSnapshots")
+        .withIndex("by_workspaceId_suggestionType", (q) =>
+          q.eq("workspaceId", args.workspaceId).eq("suggestionType", suggestionType)
+        )
+        .collect();
+      snapshots.push(...rows.filter((row) => row.noteId !== args.noteId));
+    }
+    return await loadMembers(ctx, args.workspaceId, snapshots);
+  },
+});
+
+// Open suggestions raised in more than one note, titled with the latest wording
+export const listOpen = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireRole(ctx, "viewer");
+    const snapshots = await ctx.db
+      .query("suggestionSnapshots")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
+    const members = await loadMembers(ctx, user.workspaceId, snapshots);
+    const decisions = new Map(
+      members.filter((m) => m.decision).map((m) => [memberKey(m), m.decision as MemberDecision])
+    );
+
+    return clusterAcrossNotes(members)
+      .filter((cluster) => cluster.note_ids.length > 1 && !getClusterDecision(cluster, decisions))
+      .map((cluster) => ({
+        clusterKey: cluster.cluster_key,
+        suggestionType: cluster.type,
+        title: cluster.representative.title,
+        noteIds: cluster.note_ids as Id<"notes">[],
+        evidence: cluster.members.map((m) => ({
+          noteId: m.note_id as Id<"notes">,
+          text: m.evidence_text,
+        })),
+      }));
+  },
+});
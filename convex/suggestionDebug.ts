@@ -2,20 +2,30 @@
  * Suggestion Debug API
  *
  * Convex functions for creating, retrieving, and managing suggestion debug runs.
- * All endpoints are admin-only and require the suggestionDebugEnabled feature flag.
+ * All endpoints are admin-only and require the suggestion_debug feature flag
+ * (featureFlags.ts), resolved for the note.
  */
 
 import { query, mutation, action, internalMutation, internalQuery } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
 import {
-  generateSuggestionsWithDebug,
+  generateSuggestionsWithDebugAsync,
   adaptConvexNote,
   adaptConvexInitiative,
   type DebugRun,
   type DebugVerbosity,
   computeDebugRunSummary,
+  DEFAULT_CONFIG,
 } from "../src/lib/suggestion-engine-v2";
+import { getLLMEngineOptions } from "./llmProvider";
+import { resolveFeatureFlags } from "./featureFlags";
+import { toEngineFeatureFlags } from "../src/lib/feature-flags";
+import type { ResolvedFlags } from "../src/lib/feature-flags";
+import { hasRole } from "../src/lib/roles";
+import { applyWorkspaceThresholds, filterEnabledSuggestions } from "../src/lib/workspace-config";
+import type { Doc } from "./_generated/dataModel";
+import { eventActorFields, requireRole, requireActionRole } from "./users";
 
 // ============================================
 // Configuration
@@ -25,27 +35,15 @@ const RETENTION_DAYS = 14;
 const MAX_PAYLOAD_BYTES = 512 * 1024; // 512 KB
 const RATE_LIMIT_HOURS = 1;
 
-// Simulated feature flags (in a real app, these would come from a config service)
-const FEATURE_FLAGS = {
-  suggestionDebugEnabled: true, // Enable/disable the feature
-  allowFullTextDebug: false, // Only allow in dev environments
-};
-
-// Simulated admin check (in a real app, this would check auth)
-function isAdmin(_userId?: string): boolean {
-  // For now, allow all users (would check user.isAdmin in production)
-  return true;
-}
-
 // ============================================
 // Guards
 // ============================================
 
-function guardAdminAndFeature(userId?: string): { allowed: boolean; reason?: string } {
-  if (!FEATURE_FLAGS.suggestionDebugEnabled) {
+function guardAdminAndFeature(flags: ResolvedFlags, user: Doc<"users">): { allowed: boolean; reason?: string } {
+  if (!flags.suggestion_debug.value) {
     return { allowed: false, reason: "Debug feature is disabled" };
   }
-  if (!isAdmin(userId)) {
+  if (!hasRole(user.role, "admin")) {
     return { allowed: false, reason: "Admin access required" };
   }
   return { allowed: true };
@@ -59,11 +57,16 @@ function guardAdminAndFeature(userId?: string): { allowed: boolean; reason?: str
  * Get the latest debug run for a note (internal)
  */
 export const getLatestByNoteInternal = internalQuery({
-  args: { noteId: v.id("notes") },
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+  },
   handler: async (ctx, args) => {
     return await ctx.db
       .query("suggestionDebugRuns")
-      .withIndex("by_noteId_createdAt", (q) => q.eq("noteId", args.noteId))
+      .withIndex("by_workspaceId_noteId_createdAt", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId)
+      )
       .order("desc")
       .first();
   },
@@ -73,14 +76,18 @@ export const getLatestByNoteInternal = internalQuery({
  * Check rate limit for a note (internal)
  */
 export const checkRateLimitInternal = internalQuery({
-  args: { noteId: v.id("notes") },
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+  },
   handler: async (ctx, args) => {
     const hourAgo = Date.now() - RATE_LIMIT_HOURS * 60 * 60 * 1000;
 
     const recentRun = await ctx.db
       .query("suggestionDebugRuns")
-      .withIndex("by_noteId_createdAt", (q) => q.eq("noteId", args.noteId))
-      .filter((q) => q.gt(q.field("createdAt"), hourAgo))
+      .withIndex("by_workspaceId_noteId_createdAt", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId).gt("createdAt", hourAgo)
+      )
       .first();
 
     return {
@@ -99,6 +106,7 @@ export const checkRateLimitInternal = internalQuery({
  */
 export const storeDebugRunInternal = internalMutation({
   args: {
+    workspaceId: v.id("workspaces"),
     noteId: v.id("notes"),
     runId: v.string(),
     createdByUserId: v.optional(v.string()),
@@ -113,6 +121,7 @@ export const storeDebugRunInternal = internalMutation({
     const expiresAt = now + RETENTION_DAYS * 24 * 60 * 60 * 1000;
 
     const id = await ctx.db.insert("suggestionDebugRuns", {
+      workspaceId: args.workspaceId,
       noteId: args.noteId,
       runId: args.runId,
       createdAt: now,
@@ -130,17 +139,19 @@ export const storeDebugRunInternal = internalMutation({
 });
 
 /**
- * Clean up expired debug runs (internal)
+ * Clean up a workspace's expired debug runs (internal)
  */
 export const cleanupExpiredRunsInternal = internalMutation({
-  handler: async (ctx) => {
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, args) => {
     const now = Date.now();
 
     // Find expired runs
     const expiredRuns = await ctx.db
       .query("suggestionDebugRuns")
-      .withIndex("by_expiresAt")
-      .filter((q) => q.lt(q.field("expiresAt"), now))
+      .withIndex("by_workspaceId_expiresAt", (q) =>
+        q.eq("workspaceId", args.workspaceId).lt("expiresAt", now)
+      )
       .take(100); // Batch delete
 
     let deletedCount = 0;
@@ -163,14 +174,17 @@ export const cleanupExpiredRunsInternal = internalMutation({
 export const getLatestByNote = query({
   args: { noteId: v.id("notes") },
   handler: async (ctx, args) => {
-    const guard = guardAdminAndFeature();
+    const user = await requireRole(ctx, "viewer");
+    const guard = guardAdminAndFeature(await resolveFeatureFlags(ctx, user.workspaceId, { noteId: args.noteId }), user);
     if (!guard.allowed) {
       return { debugRun: null, error: guard.reason };
     }
 
     const run = await ctx.db
       .query("suggestionDebugRuns")
-      .withIndex("by_noteId_createdAt", (q) => q.eq("noteId", args.noteId))
+      .withIndex("by_workspaceId_noteId_createdAt", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId)
+      )
       .order("desc")
       .first();
 
@@ -190,16 +204,19 @@ export const getLatestByNote = query({
 export const getByRunId = query({
   args: { runId: v.string() },
   handler: async (ctx, args) => {
-    const guard = guardAdminAndFeature();
-    if (!guard.allowed) {
-      return { debugRun: null, error: guard.reason };
-    }
-
+    const user = await requireRole(ctx, "viewer");
     const run = await ctx.db
       .query("suggestionDebugRuns")
-      .withIndex("by_runId", (q) => q.eq("runId", args.runId))
+      .withIndex("by_workspaceId_runId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("runId", args.runId)
+      )
       .first();
 
+    const guard = guardAdminAndFeature(await resolveFeatureFlags(ctx, user.workspaceId, { noteId: run?.noteId }), user);
+    if (!guard.allowed) {
+      return { debugRun: null, error: guard.reason };
+    }
+
     if (!run) {
       return { debugRun: null };
     }
@@ -219,7 +236,8 @@ export const listByNote = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const guard = guardAdminAndFeature();
+    const user = await requireRole(ctx, "viewer");
+    const guard = guardAdminAndFeature(await resolveFeatureFlags(ctx, user.workspaceId, { noteId: args.noteId }), user);
     if (!guard.allowed) {
       return { runs: [], error: guard.reason };
     }
@@ -228,7 +246,9 @@ export const listByNote = query({
 
     const runs = await ctx.db
       .query("suggestionDebugRuns")
-      .withIndex("by_noteId_createdAt", (q) => q.eq("noteId", args.noteId))
+      .withIndex("by_workspaceId_noteId_createdAt", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId)
+      )
       .order("desc")
       .take(limit);
 
@@ -270,8 +290,13 @@ export const createDebugRun = action({
     error?: string;
     suggestionsCreated?: number;
   }> => {
+    const user = await requireActionRole(ctx, "viewer");
     // Check guards
-    const guard = guardAdminAndFeature();
+    const flags: ResolvedFlags = await ctx.runQuery(internal.featureFlags.evaluateInternal, {
+      workspaceId: user.workspaceId,
+      noteId: args.noteId,
+    });
+    const guard = guardAdminAndFeature(flags, user);
     if (!guard.allowed) {
       return {
         debugRun: null,
@@ -282,6 +307,7 @@ export const createDebugRun = action({
 
     // Check rate limit
     const rateLimit = await ctx.runQuery(internal.suggestionDebug.checkRateLimitInternal, {
+      workspaceId: user.workspaceId,
       noteId: args.noteId,
     });
 
@@ -294,7 +320,10 @@ export const createDebugRun = action({
     }
 
     // Get the note
-    const note = await ctx.runQuery(internal.notes.getInternal, { id: args.noteId });
+    const note = await ctx.runQuery(internal.notes.getInternal, {
+      workspaceId: user.workspaceId,
+      id: args.noteId,
+    });
     if (!note) {
       return {
         debugRun: null,
@@ -304,12 +333,17 @@ export const createDebugRun = action({
     }
 
     // Get initiatives for context
-    const v0Initiatives = await ctx.runQuery(internal.suggestions.listV0InitiativesInternal, {});
+    const v0Initiatives = await ctx.runQuery(internal.suggestions.listV0InitiativesInternal, {
+      workspaceId: user.workspaceId,
+    });
     const initiatives = v0Initiatives.map(adaptConvexInitiative);
+    const workspaceConfig = await ctx.runQuery(internal.workspaces.getEngineConfigInternal, {
+      workspaceId: user.workspaceId,
+    });
 
     // Resolve verbosity
     let verbosity: DebugVerbosity = "REDACTED";
-    if (args.verbosity === "FULL_TEXT" && FEATURE_FLAGS.allowFullTextDebug) {
+    if (args.verbosity === "FULL_TEXT" && flags.suggestion_debug_full_text.value) {
       verbosity = "FULL_TEXT";
     } else if (args.verbosity === "OFF") {
       verbosity = "OFF";
@@ -321,14 +355,19 @@ export const createDebugRun = action({
       body: note.body,
       createdAt: note.createdAt,
       title: note.title,
+      source: note.source,
+      importFileType: note.importFileType,
+      meetingAt: note.meetingAt,
     });
 
-    const result = generateSuggestionsWithDebug(
+    const llm = getLLMEngineOptions();
+    const result = await generateSuggestionsWithDebugAsync(
       noteInput,
-      { initiatives },
-      { enable_debug: true },
+      { initiatives, ...llm.context, feature_flags: toEngineFeatureFlags(flags) },
+      { enable_debug: true, ...llm.config, thresholds: applyWorkspaceThresholds(DEFAULT_CONFIG.thresholds, workspaceConfig) },
       { verbosity }
     );
+    const suggestions = filterEnabledSuggestions(result.suggestions, workspaceConfig);
 
     const debugRun = result.debugRun;
 
@@ -342,9 +381,9 @@ export const createDebugRun = action({
 
     // Optionally persist suggestions to the suggestions table
     let suggestionsCreated = 0;
-    if (args.persistSuggestions && result.suggestions.length > 0) {
+    if (args.persistSuggestions && suggestions.length > 0) {
       // Build structured suggestion records from v2 engine output
-      const suggestionRecords = result.suggestions.map(s => ({
+      const suggestionRecords = suggestions.map(s => ({
         type: s.type as "idea" | "project_update",
         title: s.title,
         body: s.suggestion?.body ?? s.payload.after_description ?? s.payload.draft_initiative?.description ?? "",
@@ -355,7 +394,9 @@ export const createDebugRun = action({
 
       // Store suggestions using the same mutation as generate/regenerate
       const suggestionIds = await ctx.runMutation(internal.suggestions.storeSuggestions, {
+        workspaceId: user.workspaceId,
         noteId: args.noteId,
+        ...eventActorFields(user),
         suggestions: suggestionRecords,
         modelVersion: "suggestion-engine-v2-debug",
         regenerated: false,
@@ -382,8 +423,10 @@ export const createDebugRun = action({
 
     // Store the debug run
     await ctx.runMutation(internal.suggestionDebug.storeDebugRunInternal, {
+      workspaceId: user.workspaceId,
       noteId: args.noteId,
       runId: debugRun.meta.runId,
+      createdByUserId: user._id,
       generatorVersion: debugRun.meta.generatorVersion,
       verbosity: debugRun.meta.verbosity,
       configSnapshotJson: debugRun.config,
@@ -400,13 +443,16 @@ export const createDebugRun = action({
 });
 
 /**
- * Cleanup expired debug runs
+ * Cleanup expired debug runs in the active workspace
  *
  * This should be called periodically (e.g., via cron) to remove old debug runs.
  */
 export const cleanupExpiredRuns = action({
   handler: async (ctx) => {
-    const result = await ctx.runMutation(internal.suggestionDebug.cleanupExpiredRunsInternal);
+    const user = await requireActionRole(ctx, "admin");
+    const result = await ctx.runMutation(internal.suggestionDebug.cleanupExpiredRunsInternal, {
+      workspaceId: user.workspaceId,
+    });
     return result;
   },
 });
@@ -421,14 +467,17 @@ export const cleanupExpiredRuns = action({
 export const getDebugRunSummary = query({
   args: { noteId: v.id("notes") },
   handler: async (ctx, args) => {
-    const guard = guardAdminAndFeature();
+    const user = await requireRole(ctx, "viewer");
+    const guard = guardAdminAndFeature(await resolveFeatureFlags(ctx, user.workspaceId, { noteId: args.noteId }), user);
     if (!guard.allowed) {
       return { summary: null, error: guard.reason };
     }
 
     const run = await ctx.db
       .query("suggestionDebugRuns")
-      .withIndex("by_noteId_createdAt", (q) => q.eq("noteId", args.noteId))
+      .withIndex("by_workspaceId_noteId_createdAt", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId)
+      )
       .order("desc")
       .first();
 
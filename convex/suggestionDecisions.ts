@@ -1,20 +1,62 @@
-import { mutation, query } from "./_generated/server";
+import { mutation, query, internalMutation, internalQuery } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { summarizeSuggestionEdit } from "../src/lib/suggestion-edits";
+import type { EditableSuggestion } from "../src/lib/suggestion-edits";
+import { stripLegacyPrefix } from "../src/lib/suggestion-engine-v2/suggestionDisplay";
+import { eventActorFields, requireRole } from "./users";
+import { getOwned } from "./workspaces";
+import { insertFeedbackEvent } from "./beliefToInitiative";
 
 /**
  * Suggestion Decisions Module
  *
  * Manages persistent user decisions (dismiss/apply) for suggestions.
- * Keyed by (noteId, suggestionKey) to remain stable across regenerations.
+ * Keyed by (workspaceId, noteId, suggestionKey) to remain stable across
+ * regenerations.
  */
 
+const editableSuggestionValidator = v.object({
+  type: v.union(
+    v.literal("idea"),
+    v.literal("project_update"),
+    v.literal("bug"),
+    v.literal("risk"),
+    v.literal("action_item"),
+    v.literal("conflict")
+  ),
+  title: v.string(),
+  body: v.string(),
+  initiativeId: v.optional(v.string()),
+});
+
 // Query to get all decisions for a note
 export const getByNote = query({
   args: { noteId: v.id("notes") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    return await ctx.db
+      .query("suggestionDecisions")
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId)
+      )
+      .collect();
+  },
+});
+
+// Internal query: a note's decisions, for note analysis (noteAnalysis.ts)
+export const listByNoteInternal = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+  },
   handler: async (ctx, args) => {
     return await ctx.db
       .query("suggestionDecisions")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.noteId))
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId)
+      )
       .collect();
   },
 });
@@ -26,13 +68,18 @@ export const dismissSuggestion = mutation({
     suggestionKey: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const now = Date.now();
 
+    if (!(await getOwned(ctx, user.workspaceId, args.noteId))) {
+      throw new Error("Note not found");
+    }
+
     // Check if decision already exists
     const existing = await ctx.db
       .query("suggestionDecisions")
-      .withIndex("by_noteId_suggestionKey", (q) =>
-        q.eq("noteId", args.noteId).eq("suggestionKey", args.suggestionKey)
+      .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId).eq("suggestionKey", args.suggestionKey)
       )
       .first();
 
@@ -50,6 +97,7 @@ export const dismissSuggestion = mutation({
     } else {
       // Create new decision
       return await ctx.db.insert("suggestionDecisions", {
+        workspaceId: user.workspaceId,
         noteId: args.noteId,
         suggestionKey: args.suggestionKey,
         status: "dismissed",
@@ -68,10 +116,15 @@ export const applySuggestionToExisting = mutation({
     initiativeId: v.id("v0Initiatives"),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const now = Date.now();
 
+    if (!(await getOwned(ctx, user.workspaceId, args.noteId))) {
+      throw new Error("Note not found");
+    }
+
     // Verify initiative exists
-    const initiative = await ctx.db.get(args.initiativeId);
+    const initiative = await getOwned(ctx, user.workspaceId, args.initiativeId);
     if (!initiative) {
       throw new Error("Initiative not found");
     }
@@ -79,8 +132,8 @@ export const applySuggestionToExisting = mutation({
     // Check if decision already exists
     const existing = await ctx.db
       .query("suggestionDecisions")
-      .withIndex("by_noteId_suggestionKey", (q) =>
-        q.eq("noteId", args.noteId).eq("suggestionKey", args.suggestionKey)
+      .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId).eq("suggestionKey", args.suggestionKey)
       )
       .first();
 
@@ -100,6 +153,7 @@ export const applySuggestionToExisting = mutation({
     } else {
       // Create new decision
       const decisionId = await ctx.db.insert("suggestionDecisions", {
+        workspaceId: user.workspaceId,
         noteId: args.noteId,
         suggestionKey: args.suggestionKey,
         status: "applied",
@@ -124,10 +178,16 @@ export const applySuggestionCreateNew = mutation({
     description: v.string(),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const now = Date.now();
 
+    if (!(await getOwned(ctx, user.workspaceId, args.noteId))) {
+      throw new Error("Note not found");
+    }
+
     // Create the new initiative
     const initiativeId = await ctx.db.insert("v0Initiatives", {
+      workspaceId: user.workspaceId,
       title: args.title,
       description: args.description,
       status: "active",
@@ -143,8 +203,8 @@ export const applySuggestionCreateNew = mutation({
     // Check if decision already exists
     const existing = await ctx.db
       .query("suggestionDecisions")
-      .withIndex("by_noteId_suggestionKey", (q) =>
-        q.eq("noteId", args.noteId).eq("suggestionKey", args.suggestionKey)
+      .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId).eq("suggestionKey", args.suggestionKey)
       )
       .first();
 
@@ -164,6 +224,7 @@ export const applySuggestionCreateNew = mutation({
     } else {
       // Create new decision
       const decisionId = await ctx.db.insert("suggestionDecisions", {
+        workspaceId: user.workspaceId,
         noteId: args.noteId,
         suggestionKey: args.suggestionKey,
         status: "applied",
@@ -178,3 +239,137 @@ export const applySuggestionCreateNew = mutation({
     }
   },
 });
+
+/**
+ * Move decisions to new suggestion keys (key scheme migration, fuzzy
+ * re-matching after rewording). A decision whose target key already has a
+ * decision is left alone so the newer decision wins.
+ */
+export const remapKeys = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+    remaps: v.array(v.object({ from: v.string(), to: v.string() })),
+  },
+  handler: async (ctx, args) => {
+    let remapped = 0;
+    for (const { from, to } of args.remaps) {
+      const decision = await ctx.db
+        .query("suggestionDecisions")
+        .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+          q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId).eq("suggestionKey", from)
+        )
+        .first();
+      if (!decision) continue;
+
+      const target = await ctx.db
+        .query("suggestionDecisions")
+        .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+          q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId).eq("suggestionKey", to)
+        )
+        .first();
+      if (target) continue;
+
+      await ctx.db.patch(decision._id, { suggestionKey: to });
+      remapped++;
+    }
+    return remapped;
+  },
+});
+
+/**
+ * Engine output for a suggestion key: the editable fields from the note's
+ * latest snapshot, else the stored suggestion row
+ */
+async function loadEngineSuggestion(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  noteId: Id<"notes">,
+  suggestion: Doc<"suggestions"> | null,
+  suggestionKey: string
+): Promise<EditableSuggestion | null> {
+  const snapshot = await ctx.db
+    .query("suggestionSnapshots")
+    .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", workspaceId).eq("noteId", noteId))
+    .filter((q) => q.eq(q.field("suggestionKey"), suggestionKey))
+    .first();
+  if (snapshot?.editable) return snapshot.editable;
+
+  if (!suggestion?.suggestionType || suggestion.title === undefined) return null;
+  return {
+    type: suggestion.suggestionType,
+    title: stripLegacyPrefix(suggestion.title),
+    body: suggestion.body ?? "",
+    initiativeId: suggestion.routedInitiativeId,
+  };
+}
+
+/**
+ * Record what was applied next to the engine output (edit-then-apply).
+ * Call after a successful apply, also when nothing was edited, so rule
+ * quality can count applies as-is. The engine output is loaded from the
+ * note's snapshot or stored suggestion, not taken from the caller. Logs an
+ * "applied" event and a feedback event with the edit type when the
+ * suggestion is also persisted in the suggestions table. Only the first
+ * call per decision is recorded.
+ */
+export const recordApplyEdit = mutation({
+  args: {
+    noteId: v.id("notes"),
+    suggestionKey: v.string(),
+    edited: editableSuggestionValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const decision = await ctx.db
+      .query("suggestionDecisions")
+      .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId).eq("suggestionKey", args.suggestionKey)
+      )
+      .first();
+    if (!decision || decision.status !== "applied") {
+      throw new Error("Applied decision not found");
+    }
+    if (decision.editedSuggestion || decision.editType) {
+      return { editType: decision.editType, editedFields: decision.editedFields ?? [] };
+    }
+
+    const suggestion = await ctx.db
+      .query("suggestions")
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId)
+      )
+      .filter((q) => q.eq(q.field("suggestionKey"), args.suggestionKey))
+      .first();
+    const original = await loadEngineSuggestion(ctx, user.workspaceId, args.noteId, suggestion, args.suggestionKey);
+    if (!original) throw new Error("Suggestion not found");
+
+    const { editType, editedFields } = summarizeSuggestionEdit(original, args.edited);
+    const now = Date.now();
+    await ctx.db.patch(decision._id, {
+      originalSuggestion: original,
+      editedSuggestion: args.edited,
+      editType,
+      editedFields,
+      updatedAt: now,
+    });
+
+    if (suggestion) {
+      await ctx.db.insert("suggestionEvents", {
+        workspaceId: user.workspaceId,
+        noteId: args.noteId,
+        suggestionId: suggestion._id,
+        eventType: "applied",
+        createdAt: now,
+        uiSurface: "note_detail_main",
+        suggestionFamily: suggestion.suggestionFamily,
+        ruleOrPromptId: suggestion.ruleOrPromptId,
+        editType,
+        ...eventActorFields(user),
+      });
+      await insertFeedbackEvent(ctx, user, suggestion, { action: editType ? "edited" : "accepted", editType }, now);
+    }
+
+    return { editType, editedFields };
+  },
+});
@@ -0,0 +1,118 @@
+/**
+ * Suggestion Key Migration
+ *
+ * Moves suggestionDecisions stored under v1 (title-based) keys to v2
+ * evidence-anchored keys. Each affected note is re-run through the engine;
+ * a decision follows the suggestion that carries its key as
+ * legacySuggestionKey, or else the one its last snapshot fuzzy-matches
+ * (see remapSuggestionKeys). Decisions with no match are left as they are
+ * and reported.
+ *
+ * Safe to re-run: notes without v1 decision keys are skipped. Note analysis
+ * (noteAnalysis.analyze) applies the same remapping after each generation;
+ * notes.getWithComputedSuggestions applies it in memory without writing.
+ */
+
+import { action, internalQuery } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { getSuggestionKeyVersion, remapSuggestionKeys } from "../src/lib/suggestion-keys";
+import { toEngineFeatureFlags } from "../src/lib/feature-flags";
+import { requireActionRole } from "./users";
+
+// A workspace's notes with decisions still stored under v1 keys
+export const listNotesWithLegacyDecisionKeys = internalQuery({
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, args) => {
+    const decisions = await ctx.db
+      .query("suggestionDecisions")
+      .withIndex("by_workspaceId_noteId", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+    const keysByNote = new Map<Id<"notes">, string[]>();
+    for (const decision of decisions) {
+      if (getSuggestionKeyVersion(decision.suggestionKey) !== 1) continue;
+      const keys = keysByNote.get(decision.noteId) ?? [];
+      keys.push(decision.suggestionKey);
+      keysByNote.set(decision.noteId, keys);
+    }
+    return [...keysByNote].map(([noteId, keys]) => ({ noteId, keys }));
+  },
+});
+
+/**
+ * Remap v1 decision keys to v2 keys for every note in the active workspace
+ * (or one note).
+ * dryRun reports what would change without writing.
+ */
+export const migrateDecisionKeys = action({
+  args: {
+    noteId: v.optional(v.id("notes")),
+    dryRun: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { workspaceId } = await requireActionRole(ctx, "admin");
+    const { generateSuggestionsWithDebugAsync, adaptConvexNote } = await import("../src/lib/suggestion-engine-v2");
+
+    const pending = (await ctx.runQuery(internal.suggestionKeyMigration.listNotesWithLegacyDecisionKeys, { workspaceId }))
+      .filter((entry) => !args.noteId || entry.noteId === args.noteId);
+
+    let remapped = 0;
+    const unmatched: { noteId: Id<"notes">; suggestionKey: string }[] = [];
+
+    for (const { noteId, keys } of pending) {
+      const note = await ctx.runQuery(internal.notes.getInternal, { workspaceId, id: noteId });
+      if (!note || note.isDeleted) continue;
+
+      const engineNote = adaptConvexNote({
+        _id: note._id,
+        body: note.body,
+        createdAt: note.createdAt,
+        title: note.title,
+        source: note.source,
+        importFileType: note.importFileType,
+        meetingAt: note.meetingAt,
+      });
+      const flags = await ctx.runQuery(internal.featureFlags.evaluateInternal, { workspaceId, noteId });
+      const { suggestions } = await generateSuggestionsWithDebugAsync(
+        engineNote,
+        { feature_flags: toEngineFeatureFlags(flags) },
+        { enable_debug: false },
+        { verbosity: "OFF" },
+      );
+
+      const snapshots = await ctx.runQuery(internal.suggestionClusters.listNoteSnapshots, { workspaceId, noteId });
+      const remaps = remapSuggestionKeys(
+        keys,
+        snapshots.map((s) => ({
+          suggestionKey: s.suggestionKey,
+          type: s.suggestionType,
+          title: s.title,
+          evidenceText: s.evidenceText,
+        })),
+        suggestions.map((s) => ({
+          suggestionKey: s.suggestionKey,
+          legacySuggestionKey: s.legacySuggestionKey,
+          type: s.type,
+          title: s.title,
+          evidenceText: s.evidence_spans.map((span) => span.text).join("\n"),
+        })),
+      );
+
+      for (const key of keys) {
+        if (!remaps.has(key)) unmatched.push({ noteId, suggestionKey: key });
+      }
+      if (args.dryRun) {
+        remapped += remaps.size;
+      } else if (remaps.size > 0) {
+        remapped += await ctx.runMutation(internal.suggestionDecisions.remapKeys, {
+          workspaceId,
+          noteId,
+          remaps: [...remaps].map(([from, to]) => ({ from, to })),
+        });
+      }
+    }
+
+    return { notesScanned: pending.length, remapped, unmatched, dryRun: args.dryRun ?? false };
+  },
+});
@@ -8,6 +8,8 @@
 import { v } from "convex/values";
 import { query, internalQuery } from "./_generated/server";
 import { Id } from "./_generated/dataModel";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
 
 // ============================================
 // Ranking Logic
@@ -47,10 +49,13 @@ export const rankSuggestions = query({
     noteId: v.id("notes"),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     // Get all new suggestions for the note
     const suggestions = await ctx.db
       .query("suggestions")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.noteId))
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId)
+      )
       .filter((q) => q.eq(q.field("status"), "new"))
       .collect();
 
@@ -112,7 +117,8 @@ export const getSuggestionWithRanking = query({
     id: v.id("suggestions"),
   },
   handler: async (ctx, args) => {
-    const suggestion = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    const suggestion = await getOwned(ctx, user.workspaceId, args.id);
     if (!suggestion) {
       return null;
     }
@@ -2,7 +2,33 @@ import { query, mutation, action, internalMutation, internalQuery } from "./_gen
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
 import { generateSuggestionsFromNote, adaptV0Initiative } from "./suggestionEngine";
-import { generateSuggestions, adaptConvexNote, adaptConvexInitiative } from "../src/lib/suggestion-engine-v2";
+import {
+  generateSuggestionsAsync,
+  regenerateIncrementally,
+  computeNoteSectionHashes,
+  getParentSectionId,
+  getOwnEvidenceTexts,
+  adaptConvexNote,
+  adaptConvexInitiative,
+} from "../src/lib/suggestion-engine-v2";
+import { getLLMEngineOptions } from "./llmProvider";
+import { runShadowComparisons } from "./shadowRuns";
+import { toEngineFeatureFlags } from "../src/lib/feature-flags";
+import { fromEngineSuggestions } from "../src/lib/shadow-runs";
+import {
+  applyWorkspaceThresholds,
+  filterEnabledSuggestions,
+  isSuggestionTypeEnabled,
+} from "../src/lib/workspace-config";
+import type {
+  GeneratorConfig,
+  GeneratorContext,
+  Suggestion as EngineSuggestion,
+} from "../src/lib/suggestion-engine-v2";
+import { Id } from "./_generated/dataModel";
+import { eventActorFields, requireRole, requireActionRole } from "./users";
+import { getOwned } from "./workspaces";
+import { insertFeedbackEvent } from "./beliefToInitiative";
 
 // ============================================
 // Suggestion Fingerprinting (v0-correct)
@@ -39,14 +65,42 @@ function computeStructuredFingerprint(type: string, title: string, body: string)
  * Structured suggestion record from the v2 engine.
  */
 type SuggestionRecord = {
-  type: "idea" | "project_update" | "bug" | "risk";
+  type: "idea" | "project_update" | "bug" | "risk" | "action_item" | "conflict";
   title: string;
   body: string;
   evidencePreview: string;
   sourceSectionId?: string;
   suggestionKey?: string;
+  routedInitiativeId?: Id<"v0Initiatives">;
+  routingSimilarity?: number;
+  sourceSectionHash?: string;
+  evidenceTexts?: string[];
+  confidence?: number;
 };
 
+/**
+ * Map a v2 engine suggestion to a storable record.
+ * Routing targets come from adaptConvexInitiative, so IDs are v0Initiatives IDs.
+ * sectionHash is the source section's content hash (incremental regeneration).
+ */
+function toSuggestionRecord(s: EngineSuggestion, sectionHash?: string): SuggestionRecord {
+  return {
+    type: s.type,
+    title: s.title,
+    body: s.suggestion?.body ?? s.payload.after_description ?? s.payload.draft_initiative?.description ?? "",
+    evidencePreview: s.suggestion?.evidencePreview?.[0] ?? s.evidence_spans?.[0]?.text ?? "",
+    sourceSectionId: s.section_id,
+    suggestionKey: s.suggestionKey,
+    routedInitiativeId: s.routing.create_new
+      ? undefined
+      : (s.routing.attached_initiative_id as Id<"v0Initiatives"> | undefined),
+    routingSimilarity: s.routing.similarity,
+    sourceSectionHash: sectionHash,
+    evidenceTexts: getOwnEvidenceTexts(s),
+    confidence: s.scores.overall,
+  };
+}
+
 const dismissReasonValidator = v.union(
   v.literal("not_relevant"),
   v.literal("incorrect_or_low_quality"),
@@ -72,9 +126,12 @@ export const listByNote = query({
     includeInvalidated: v.optional(v.boolean()), // Optional: include invalidated suggestions
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     let query = ctx.db
       .query("suggestions")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.noteId));
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("noteId", args.noteId)
+      );
     
     // v0-correct: Exclude invalidated suggestions unless explicitly requested
     if (!args.includeInvalidated) {
@@ -89,18 +146,24 @@ export const listByNote = query({
 export const get = query({
   args: { id: v.id("suggestions") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    return await getOwned(ctx, user.workspaceId, args.id);
   },
 });
 
 // Validator for a structured suggestion record
 const suggestionRecordValidator = v.object({
-  type: v.union(v.literal("idea"), v.literal("project_update"), v.literal("bug"), v.literal("risk")),
+  type: v.union(v.literal("idea"), v.literal("project_update"), v.literal("bug"), v.literal("risk"), v.literal("action_item"), v.literal("conflict")),
   title: v.string(),
   body: v.string(),
   evidencePreview: v.string(),
   sourceSectionId: v.optional(v.string()),
   suggestionKey: v.optional(v.string()),
+  routedInitiativeId: v.optional(v.id("v0Initiatives")),
+  routingSimilarity: v.optional(v.number()),
+  sourceSectionHash: v.optional(v.string()),
+  evidenceTexts: v.optional(v.array(v.string())),
+  confidence: v.optional(v.number()),
 });
 
 // Internal mutation to store suggestions (called from action)
@@ -108,6 +171,7 @@ const suggestionRecordValidator = v.object({
 // Accepts structured SuggestionRecord[] with type/title/body/evidencePreview.
 export const storeSuggestions = internalMutation({
   args: {
+    workspaceId: v.id("workspaces"),
     noteId: v.id("notes"),
     suggestions: v.array(suggestionRecordValidator),
     modelVersion: v.string(),
@@ -118,6 +182,9 @@ export const storeSuggestions = internalMutation({
     modelConfidenceScore: v.optional(v.number()),
     ruleOrPromptId: v.optional(v.string()),
     suggestionFamily: v.optional(v.string()),
+    // Who triggered generation (eventActorFields), for the generated events
+    userIdHash: v.optional(v.string()),
+    teamId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const now = Date.now();
@@ -129,6 +196,7 @@ export const storeSuggestions = internalMutation({
       const content = rec.title;
 
       const id = await ctx.db.insert("suggestions", {
+        workspaceId: args.workspaceId,
         noteId: args.noteId,
         content,
         suggestionType: rec.type,
@@ -137,6 +205,10 @@ export const storeSuggestions = internalMutation({
         evidencePreview: rec.evidencePreview,
         sourceSectionId: rec.sourceSectionId,
         suggestionKey: rec.suggestionKey,
+        routedInitiativeId: rec.routedInitiativeId,
+        routingSimilarity: rec.routingSimilarity,
+        sourceSectionHash: rec.sourceSectionHash,
+        evidenceTexts: rec.evidenceTexts,
         status: "new",
         createdAt: now,
         modelVersion: args.modelVersion,
@@ -145,7 +217,7 @@ export const storeSuggestions = internalMutation({
         fingerprint,
         clarificationState: args.clarificationState || "none",
         clarificationPrompt: args.clarificationPrompt,
-        modelConfidenceScore: args.modelConfidenceScore,
+        modelConfidenceScore: rec.confidence ?? args.modelConfidenceScore,
         ruleOrPromptId: args.ruleOrPromptId || args.modelVersion,
         suggestionFamily: args.suggestionFamily || rec.type,
         estimatedDiffSize: "medium",
@@ -154,6 +226,7 @@ export const storeSuggestions = internalMutation({
 
       // Log suggestion_generated event
       await ctx.db.insert("suggestionEvents", {
+        workspaceId: args.workspaceId,
         noteId: args.noteId,
         suggestionId: id,
         eventType: "generated",
@@ -162,6 +235,8 @@ export const storeSuggestions = internalMutation({
         suggestionFamily: args.suggestionFamily || rec.type,
         ruleOrPromptId: args.ruleOrPromptId || args.modelVersion,
         clarificationState: args.clarificationState || "none",
+        userIdHash: args.userIdHash,
+        teamId: args.teamId,
       });
     }
 
@@ -175,7 +250,8 @@ export const apply = mutation({
     id: v.id("suggestions"),
   },
   handler: async (ctx, args) => {
-    const suggestion = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const suggestion = await getOwned(ctx, user.workspaceId, args.id);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -194,7 +270,9 @@ export const apply = mutation({
     // Get the first shown event to calculate time to event
     const shownEvent = await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.id))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.id)
+      )
       .filter((q) => q.eq(q.field("eventType"), "shown"))
       .first();
 
@@ -204,13 +282,16 @@ export const apply = mutation({
 
     // Create applied event
     const eventId = await ctx.db.insert("suggestionEvents", {
+      workspaceId: user.workspaceId,
       noteId: suggestion.noteId,
       suggestionId: args.id,
       eventType: "applied",
       createdAt: now,
       timeToEventSeconds,
       uiSurface: "note_detail_main",
+      ...eventActorFields(user),
     });
+    await insertFeedbackEvent(ctx, user, suggestion, { action: "accepted", timeToActionSeconds: timeToEventSeconds }, now);
 
     return eventId;
   },
@@ -231,7 +312,8 @@ export const applyToInitiative = mutation({
     ),
   },
   handler: async (ctx, args) => {
-    const suggestion = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const suggestion = await getOwned(ctx, user.workspaceId, args.id);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -248,6 +330,7 @@ export const applyToInitiative = mutation({
       const note = await ctx.db.get(suggestion.noteId);
       
       finalInitiativeId = await ctx.db.insert("v0Initiatives", {
+        workspaceId: user.workspaceId,
         title: args.newInitiative.title,
         description: args.newInitiative.description,
         status: "active",
@@ -261,7 +344,7 @@ export const applyToInitiative = mutation({
     }
 
     // Verify the initiative exists
-    const initiative = await ctx.db.get(finalInitiativeId);
+    const initiative = await getOwned(ctx, user.workspaceId, finalInitiativeId);
     if (!initiative) {
       throw new Error("Initiative not found");
     }
@@ -276,7 +359,9 @@ export const applyToInitiative = mutation({
     // Get the first shown event to calculate time to event
     const shownEvent = await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.id))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.id)
+      )
       .filter((q) => q.eq(q.field("eventType"), "shown"))
       .first();
 
@@ -286,13 +371,16 @@ export const applyToInitiative = mutation({
 
     // Create applied event
     const eventId = await ctx.db.insert("suggestionEvents", {
+      workspaceId: user.workspaceId,
       noteId: suggestion.noteId,
       suggestionId: args.id,
       eventType: "applied",
       createdAt: now,
       timeToEventSeconds,
       uiSurface: "note_detail_main",
+      ...eventActorFields(user),
     });
+    await insertFeedbackEvent(ctx, user, suggestion, { action: "accepted", timeToActionSeconds: timeToEventSeconds }, now);
 
     // Get updated suggestion
     const updatedSuggestion = await ctx.db.get(args.id);
@@ -312,6 +400,10 @@ export const updateTimeSaved = mutation({
     timeSavedMinutes: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    if (!(await getOwned(ctx, user.workspaceId, args.eventId))) {
+      throw new Error("Event not found");
+    }
     await ctx.db.patch(args.eventId, {
       selfReportedTimeSavedMinutes: args.timeSavedMinutes,
     });
@@ -326,7 +418,8 @@ export const dismiss = mutation({
     dismissReasonOther: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const suggestion = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "editor");
+    const suggestion = await getOwned(ctx, user.workspaceId, args.id);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -347,7 +440,9 @@ export const dismiss = mutation({
     // Get the first shown event to calculate time to event
     const shownEvent = await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.id))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.id)
+      )
       .filter((q) => q.eq(q.field("eventType"), "shown"))
       .first();
 
@@ -357,6 +452,7 @@ export const dismiss = mutation({
 
     // Create dismissed event
     await ctx.db.insert("suggestionEvents", {
+      workspaceId: user.workspaceId,
       noteId: suggestion.noteId,
       suggestionId: args.id,
       eventType: "dismissed",
@@ -365,7 +461,15 @@ export const dismiss = mutation({
       dismissReason: args.dismissReason,
       dismissReasonOther: args.dismissReasonOther,
       uiSurface: "note_detail_main",
+      ...eventActorFields(user),
     });
+    await insertFeedbackEvent(
+      ctx,
+      user,
+      suggestion,
+      { action: "dismissed", dismissReason: args.dismissReason, timeToActionSeconds: timeToEventSeconds },
+      now
+    );
   },
 });
 
@@ -375,7 +479,8 @@ export const recordShown = mutation({
     suggestionId: v.id("suggestions"),
   },
   handler: async (ctx, args) => {
-    const suggestion = await ctx.db.get(args.suggestionId);
+    const user = await requireRole(ctx, "viewer");
+    const suggestion = await getOwned(ctx, user.workspaceId, args.suggestionId);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -383,7 +488,9 @@ export const recordShown = mutation({
     // Check if already shown
     const existingShown = await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.suggestionId))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.suggestionId)
+      )
       .filter((q) => q.eq(q.field("eventType"), "shown"))
       .first();
 
@@ -394,6 +501,7 @@ export const recordShown = mutation({
 
     // Create shown event
     const eventId = await ctx.db.insert("suggestionEvents", {
+      workspaceId: user.workspaceId,
       noteId: suggestion.noteId,
       suggestionId: args.suggestionId,
       eventType: "shown",
@@ -402,6 +510,7 @@ export const recordShown = mutation({
       suggestionFamily: suggestion.suggestionFamily,
       ruleOrPromptId: suggestion.ruleOrPromptId,
       clarificationState: suggestion.clarificationState || "none",
+      ...eventActorFields(user),
     });
 
     return eventId;
@@ -414,7 +523,8 @@ export const requestClarification = mutation({
     suggestionId: v.id("suggestions"),
   },
   handler: async (ctx, args) => {
-    const suggestion = await ctx.db.get(args.suggestionId);
+    const user = await requireRole(ctx, "editor");
+    const suggestion = await getOwned(ctx, user.workspaceId, args.suggestionId);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -433,7 +543,9 @@ export const requestClarification = mutation({
     // Get first viewed/shown event for time calculation
     const firstViewEvent = await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.suggestionId))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.suggestionId)
+      )
       .filter((q) => 
         q.or(
           q.eq(q.field("eventType"), "shown"),
@@ -448,6 +560,7 @@ export const requestClarification = mutation({
 
     // Log clarification_requested event
     const eventId = await ctx.db.insert("suggestionEvents", {
+      workspaceId: user.workspaceId,
       noteId: suggestion.noteId,
       suggestionId: args.suggestionId,
       eventType: "clarification_requested",
@@ -457,6 +570,7 @@ export const requestClarification = mutation({
       ruleOrPromptId: suggestion.ruleOrPromptId,
       clarificationState: "requested",
       timeToClarificationMs,
+      ...eventActorFields(user),
     });
 
     return eventId;
@@ -470,7 +584,8 @@ export const answerClarification = mutation({
     clarificationText: v.string(),
   },
   handler: async (ctx, args) => {
-    const suggestion = await ctx.db.get(args.suggestionId);
+    const user = await requireRole(ctx, "editor");
+    const suggestion = await getOwned(ctx, user.workspaceId, args.suggestionId);
     if (!suggestion) {
       throw new Error("Suggestion not found");
     }
@@ -484,7 +599,9 @@ export const answerClarification = mutation({
     // Find the clarification_requested event
     const requestEvent = await ctx.db
       .query("suggestionEvents")
-      .withIndex("by_suggestionId", (q) => q.eq("suggestionId", args.suggestionId))
+      .withIndex("by_workspaceId_suggestionId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("suggestionId", args.suggestionId)
+      )
       .filter((q) => q.eq(q.field("eventType"), "clarification_requested"))
       .order("desc")
       .first();
@@ -495,6 +612,7 @@ export const answerClarification = mutation({
 
     // Log clarification_answered event
     const answerEventId = await ctx.db.insert("suggestionEvents", {
+      workspaceId: user.workspaceId,
       noteId: suggestion.noteId,
       suggestionId: args.suggestionId,
       eventType: "clarification_answered",
@@ -504,6 +622,7 @@ export const answerClarification = mutation({
       ruleOrPromptId: suggestion.ruleOrPromptId,
       clarificationState: "answered",
       timeToAnswerMs,
+      ...eventActorFields(user),
     });
 
     // Update suggestion state
@@ -516,10 +635,14 @@ export const answerClarification = mutation({
   },
 });
 
-// Internal query to get all v0 initiatives for suggestion generation
+// Internal query to get a workspace's v0 initiatives for suggestion generation
 export const listV0InitiativesInternal = internalQuery({
-  handler: async (ctx) => {
-    return await ctx.db.query("v0Initiatives").collect();
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("v0Initiatives")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
   },
 });
 
@@ -528,15 +651,24 @@ export const listV0InitiativesInternal = internalQuery({
 export const generate = action({
   args: { noteId: v.id("notes") },
   handler: async (ctx, args) => {
+    const user = await requireActionRole(ctx, "editor");
     // Get the note
-    const note = await ctx.runQuery(internal.notes.getInternal, { id: args.noteId });
+    const note = await ctx.runQuery(internal.notes.getInternal, {
+      workspaceId: user.workspaceId,
+      id: args.noteId,
+    });
     if (!note) {
       throw new Error("Note not found");
     }
 
     // Get existing initiatives for context
-    const v0Initiatives = await ctx.runQuery(internal.suggestions.listV0InitiativesInternal, {});
+    const v0Initiatives = await ctx.runQuery(internal.suggestions.listV0InitiativesInternal, {
+      workspaceId: user.workspaceId,
+    });
     const initiatives = v0Initiatives.map(adaptConvexInitiative);
+    const workspaceConfig = await ctx.runQuery(internal.workspaces.getEngineConfigInternal, {
+      workspaceId: user.workspaceId,
+    });
 
     // Generate suggestions using the v2 deterministic engine
     // The engine:
@@ -550,27 +682,69 @@ export const generate = action({
       body: note.body,
       createdAt: note.createdAt,
       title: note.title,
+      source: note.source,
+      importFileType: note.importFileType,
+      meetingAt: note.meetingAt,
     });
 
-    const result = generateSuggestions(
+    // Embedding routing attaches paraphrased updates ("new payment flow")
+    // to existing initiatives ("Checkout revamp"); LLM intent classification
+    // runs when an endpoint is configured (see llmProvider.ts)
+    const llm = getLLMEngineOptions();
+    const flags = await ctx.runQuery(internal.featureFlags.evaluateInternal, {
+      workspaceId: user.workspaceId,
+      noteId: args.noteId,
+    });
+    const engineContext: GeneratorContext = { initiatives, embedding_model: "local", ...llm.context };
+    const engineConfig: Partial<GeneratorConfig> = {
+      ...llm.config,
+      embedding_enabled: true,
+      thresholds: applyWorkspaceThresholds({
+        T_overall_min: 0.65,
+        T_section_min: 0.6,
+      }, workspaceConfig),
+    };
+    const result = await generateSuggestionsAsync(
       noteInput,
-      { initiatives },
-      {
-        thresholds: {
-          T_overall_min: 0.65,
-          T_section_min: 0.6,
-        },
-      }
+      { ...engineContext, feature_flags: toEngineFeatureFlags(flags) },
+      engineConfig
     );
+    const suggestions = filterEnabledSuggestions(result.suggestions, workspaceConfig);
 
-    const records: SuggestionRecord[] = result.suggestions.map(s => ({
-      type: s.type,
-      title: s.title,
-      body: s.suggestion?.body ?? s.payload.after_description ?? s.payload.draft_initiative?.description ?? "",
-      evidencePreview: s.suggestion?.evidencePreview?.[0] ?? s.evidence_spans?.[0]?.text ?? "",
-      sourceSectionId: s.section_id,
-      suggestionKey: s.suggestionKey,
-    }));
+    // Running suggestion_engine shadow experiments (shadowRuns.ts) rerun the
+    // engine with their candidate flag value; only the diff is stored
+    await runShadowComparisons(ctx, {
+      workspaceId: user.workspaceId,
+      pipeline: "suggestion_engine",
+      noteId: args.noteId,
+      flags,
+      production: fromEngineSuggestions(suggestions),
+      runCandidate: async (flagKey, candidateValue) => {
+        const candidate = await generateSuggestionsAsync(
+          noteInput,
+          { ...engineContext, feature_flags: { ...toEngineFeatureFlags(flags), [flagKey]: candidateValue === true } },
+          engineConfig
+        );
+        return fromEngineSuggestions(filterEnabledSuggestions(candidate.suggestions, workspaceConfig));
+      },
+    });
+
+    // Section hashes let the next regenerate skip unchanged sections
+    const sectionHashes = computeNoteSectionHashes(noteInput);
+    await ctx.runMutation(internal.notes.setSectionHashes, {
+      id: args.noteId,
+      sectionHashes: sectionHashes.hashes,
+    });
+
+    // Snapshots, decision records and assertions for this version of the note
+    await ctx.scheduler.runAfter(0, internal.noteAnalysis.analyze, {
+      workspaceId: user.workspaceId,
+      noteId: args.noteId,
+    });
+
+    const records: SuggestionRecord[] = suggestions.map((s) =>
+      toSuggestionRecord(s, sectionHashes.by_section_id.get(getParentSectionId(s.section_id)))
+    );
 
     // If the engine produces no suggestions, return early (this is expected behavior)
     if (records.length === 0) {
@@ -579,7 +753,9 @@ export const generate = action({
 
     // Store the suggestions
     await ctx.runMutation(internal.suggestions.storeSuggestions, {
+      workspaceId: user.workspaceId,
       noteId: args.noteId,
+      ...eventActorFields(user),
       suggestions: records,
       modelVersion: "suggestion-engine-v2.0",
       regenerated: false,
@@ -596,9 +772,14 @@ export const generate = action({
 
 /**
  * Action to regenerate suggestions for a note
- * This reruns the full suggestion pipeline with current note content and initiatives
- * 
+ * Re-runs the pipeline only for sections edited since the last generation
+ * (see regenerateIncrementally), using current initiatives.
+ *
  * Behavioral rules:
+ * - Suggestions from unchanged sections are left exactly as they are
+ * - Fresh output that matches an existing suggestion updates it in place;
+ *   dismissed/applied suggestions keep their decision
+ * - Undecided suggestions whose evidence was deleted become "superseded"
  * - Do not resurrect previously dismissed suggestions if note content is unchanged
  * - Mark all new suggestions with regenerated=true
  * - Log a regeneration event for analytics
@@ -606,54 +787,75 @@ export const generate = action({
 export const regenerate = action({
   args: { noteId: v.id("notes") },
   handler: async (ctx, args) => {
+    const user = await requireActionRole(ctx, "editor");
     // Get the note
-    const note = await ctx.runQuery(internal.notes.getInternal, { id: args.noteId });
+    const note = await ctx.runQuery(internal.notes.getInternal, {
+      workspaceId: user.workspaceId,
+      id: args.noteId,
+    });
     if (!note) {
       throw new Error("Note not found");
     }
 
     // Get existing suggestions for this note (all statuses)
     const existingSuggestions = await ctx.runQuery(internal.suggestions.listAllByNoteInternal, {
+      workspaceId: user.workspaceId,
       noteId: args.noteId,
     });
 
     // Get existing initiatives for context
-    const v0Initiatives = await ctx.runQuery(internal.suggestions.listV0InitiativesInternal, {});
+    const v0Initiatives = await ctx.runQuery(internal.suggestions.listV0InitiativesInternal, {
+      workspaceId: user.workspaceId,
+    });
     const initiatives = v0Initiatives.map(adaptConvexInitiative);
+    const workspaceConfig = await ctx.runQuery(internal.workspaces.getEngineConfigInternal, {
+      workspaceId: user.workspaceId,
+    });
 
-    // Generate fresh suggestions using the v2 deterministic engine
     const noteInput = adaptConvexNote({
       _id: note._id,
       body: note.body,
       createdAt: note.createdAt,
       title: note.title,
+      source: note.source,
+      importFileType: note.importFileType,
+      meetingAt: note.meetingAt,
     });
 
-    const result = generateSuggestions(
+    // Embedding routing attaches paraphrased updates ("new payment flow")
+    // to existing initiatives ("Checkout revamp"); LLM intent classification
+    // runs when an endpoint is configured (see llmProvider.ts)
+    const llm = getLLMEngineOptions();
+    const flags = await ctx.runQuery(internal.featureFlags.evaluateInternal, {
+      workspaceId: user.workspaceId,
+      noteId: args.noteId,
+    });
+    const incremental = await regenerateIncrementally(
+      {
+        section_hashes: note.sectionHashes,
+        suggestions: existingSuggestions
+          .filter((s) => s.suggestionType && s.status !== "superseded" && !s.invalidatedByNoteDeletion)
+          .map((s) => ({
+            id: s._id,
+            type: s.suggestionType!,
+            status: s.status,
+            suggestion_key: s.suggestionKey,
+            section_hash: s.sourceSectionHash,
+            evidence_texts: s.evidenceTexts,
+          })),
+      },
       noteInput,
-      { initiatives },
+      { initiatives, embedding_model: "local", ...llm.context, feature_flags: toEngineFeatureFlags(flags) },
       {
-        thresholds: {
+        ...llm.config,
+        embedding_enabled: true,
+        thresholds: applyWorkspaceThresholds({
           T_overall_min: 0.65,
           T_section_min: 0.6,
-        },
+        }, workspaceConfig),
       }
     );
 
-    const freshRecords: SuggestionRecord[] = result.suggestions.map(s => ({
-      type: s.type,
-      title: s.title,
-      body: s.suggestion?.body ?? s.payload.after_description ?? s.payload.draft_initiative?.description ?? "",
-      evidencePreview: s.suggestion?.evidencePreview?.[0] ?? s.evidence_spans?.[0]?.text ?? "",
-      sourceSectionId: s.section_id,
-      suggestionKey: s.suggestionKey,
-    }));
-
-    // Compute fingerprints for fresh suggestions using the new structured scheme
-    const freshFingerprints = freshRecords.map(r =>
-      computeStructuredFingerprint(r.type, r.title, r.body)
-    );
-
     // Filter out suggestions that were previously dismissed (if note hasn't changed)
     const previousDismissedFingerprints = new Set<string>();
     const noteVersionChanged = existingSuggestions.some(
@@ -670,19 +872,10 @@ export const regenerate = action({
       }
     }
 
-    // Filter fresh suggestions to exclude previously dismissed ones (if note unchanged)
-    const recordsToStore: SuggestionRecord[] = [];
-    for (let i = 0; i < freshRecords.length; i++) {
-      const rec = freshRecords[i];
-      const fingerprint = freshFingerprints[i];
-
-      if (previousDismissedFingerprints.has(fingerprint)) {
-        // Skip this suggestion - it was dismissed and note hasn't changed
-        continue;
-      }
-
-      recordsToStore.push(rec);
-    }
+    const recordsToStore: SuggestionRecord[] = incremental.fresh
+      .filter((item) => isSuggestionTypeEnabled(item.suggestion.type, workspaceConfig))
+      .map((item) => toSuggestionRecord(item.suggestion, item.section_hash))
+      .filter((rec) => !previousDismissedFingerprints.has(computeStructuredFingerprint(rec.type, rec.title, rec.body)));
 
     // Count previous new suggestions for comparison
     const previousNewCount = existingSuggestions.filter(s => s.status === "new").length;
@@ -691,7 +884,9 @@ export const regenerate = action({
     // Store the regenerated suggestions
     if (recordsToStore.length > 0) {
       await ctx.runMutation(internal.suggestions.storeSuggestions, {
+        workspaceId: user.workspaceId,
         noteId: args.noteId,
+        ...eventActorFields(user),
         suggestions: recordsToStore,
         modelVersion: "suggestion-engine-v2.0-regenerate",
         regenerated: true,
@@ -699,6 +894,30 @@ export const regenerate = action({
       });
     }
 
+    // Carry existing suggestions across the edit
+    await ctx.runMutation(internal.suggestions.applyIncrementalChanges, {
+      continued: incremental.continued.map((item) => ({
+        id: item.previous_id as Id<"suggestions">,
+        record: toSuggestionRecord(item.suggestion, item.section_hash),
+      })),
+      carried: incremental.carried_forward.map((item) => ({
+        id: item.previous_id as Id<"suggestions">,
+        sourceSectionId: item.section_id,
+      })),
+      superseded: incremental.superseded as Id<"suggestions">[],
+      noteVersion: note.updatedAt,
+    });
+    await ctx.runMutation(internal.notes.setSectionHashes, {
+      id: args.noteId,
+      sectionHashes: incremental.section_hashes,
+    });
+
+    // Snapshots, decision records and assertions for this version of the note
+    await ctx.scheduler.runAfter(0, internal.noteAnalysis.analyze, {
+      workspaceId: user.workspaceId,
+      noteId: args.noteId,
+    });
+
     // Log regeneration event
     await ctx.runMutation(internal.suggestions.logRegenerationEvent, {
       noteId: args.noteId,
@@ -710,19 +929,82 @@ export const regenerate = action({
     return {
       previousCount: previousNewCount,
       newCount,
-      added: newCount - previousNewCount,
-      noteChanged: noteVersionChanged,
+      added: newCount,
+      updated: incremental.continued.length,
+      superseded: incremental.superseded.length,
+      sectionsChanged: incremental.stats.sections_changed,
+      sectionsReused: incremental.stats.sections_reused,
+      noteChanged: incremental.stats.sections_changed > 0,
     };
   },
 });
 
+/**
+ * Apply the reconciliation from an incremental regenerate.
+ * Continued suggestions still undecided take the fresh text; decided ones
+ * only move to their new section (and key) so the text the user acted on is kept.
+ */
+export const applyIncrementalChanges = internalMutation({
+  args: {
+    continued: v.array(v.object({ id: v.id("suggestions"), record: suggestionRecordValidator })),
+    carried: v.array(v.object({ id: v.id("suggestions"), sourceSectionId: v.string() })),
+    superseded: v.array(v.id("suggestions")),
+    noteVersion: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    for (const { id, record } of args.continued) {
+      const existing = await ctx.db.get(id);
+      if (!existing) continue;
+      const location = {
+        suggestionKey: record.suggestionKey,
+        sourceSectionId: record.sourceSectionId,
+        sourceSectionHash: record.sourceSectionHash,
+        evidenceTexts: record.evidenceTexts,
+      };
+      if (existing.status !== "new") {
+        await ctx.db.patch(id, location);
+        continue;
+      }
+      await ctx.db.patch(id, {
+        ...location,
+        content: record.title,
+        title: record.title,
+        body: record.body,
+        evidencePreview: record.evidencePreview,
+        routedInitiativeId: record.routedInitiativeId,
+        routingSimilarity: record.routingSimilarity,
+        modelConfidenceScore: record.confidence ?? existing.modelConfidenceScore,
+        fingerprint: computeStructuredFingerprint(record.type, record.title, record.body),
+        noteVersionAtCreation: args.noteVersion,
+      });
+    }
+
+    for (const { id, sourceSectionId } of args.carried) {
+      await ctx.db.patch(id, { sourceSectionId });
+    }
+
+    for (const id of args.superseded) {
+      const existing = await ctx.db.get(id);
+      if (!existing || existing.status !== "new") continue;
+      await ctx.db.patch(id, { status: "superseded", supersededAt: now });
+    }
+  },
+});
+
 // Internal query to get all suggestions for a note (any status)
 export const listAllByNoteInternal = internalQuery({
-  args: { noteId: v.id("notes") },
+  args: {
+    workspaceId: v.id("workspaces"),
+    noteId: v.id("notes"),
+  },
   handler: async (ctx, args) => {
     return await ctx.db
       .query("suggestions")
-      .withIndex("by_noteId", (q) => q.eq("noteId", args.noteId))
+      .withIndex("by_workspaceId_noteId", (q) =>
+        q.eq("workspaceId", args.workspaceId).eq("noteId", args.noteId)
+      )
       .collect();
   },
 });
@@ -766,8 +1048,12 @@ export const getMetrics = query({
     includeDeleted: v.optional(v.boolean()), // Optional: include deleted notes in metrics
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
     // Get all suggestions, optionally excluding invalidated ones
-    const allSuggestions = await ctx.db.query("suggestions").collect();
+    const allSuggestions = await ctx.db
+      .query("suggestions")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
     
     // Filter suggestions based on deletion status
     const validSuggestions = args.includeDeleted
@@ -775,7 +1061,10 @@ export const getMetrics = query({
       : allSuggestions.filter(s => !s.invalidatedByNoteDeletion);
 
     // Get all events, optionally excluding excluded ones
-    const allEvents = await ctx.db.query("suggestionEvents").collect();
+    const allEvents = await ctx.db
+      .query("suggestionEvents")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
+      .collect();
     
     const validEvents = args.includeDeleted
       ? allEvents
@@ -0,0 +1,284 @@
+import { query, mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { matchesTriageFilters } from "../src/lib/triage-inbox";
+import type { TriageItem } from "../src/lib/triage-inbox";
+import { eventActorFields, requireRole } from "./users";
+import { getOwned } from "./workspaces";
+import { insertFeedbackEvent } from "./beliefToInitiative";
+
+/**
+ * Triage Inbox Module
+ *
+ * Undecided suggestions across the workspace's notes. A suggestion is undecided while
+ * its row is "new", its note still exists (invalidatedByNoteDeletion is not
+ * set), and no suggestionDecisions entry exists for its (noteId,
+ * suggestionKey) — the note page records decisions there without touching
+ * the row.
+ *
+ * Decisions made here update both the row and suggestionDecisions, so the
+ * note page hides them too.
+ */
+
+const suggestionTypeValidator = v.union(
+  v.literal("idea"),
+  v.literal("project_update"),
+  v.literal("bug"),
+  v.literal("risk"),
+  v.literal("action_item"),
+  v.literal("conflict")
+);
+
+const dismissReasonValidator = v.union(
+  v.literal("not_relevant"),
+  v.literal("incorrect_or_low_quality"),
+  v.literal("too_risky_or_disruptive"),
+  v.literal("already_done_or_in_progress"),
+  v.literal("needs_more_clarification"),
+  v.literal("wrong_scope_or_target"),
+  v.literal("other")
+);
+
+const triageFiltersValidator = v.object({
+  types: v.optional(v.array(suggestionTypeValidator)),
+  minConfidence: v.optional(v.number()),
+  routedInitiativeId: v.optional(v.string()), // v0Initiatives id or "unrouted"
+  notedFrom: v.optional(v.number()),
+  notedTo: v.optional(v.number()),
+});
+
+const UI_SURFACE = "triage_inbox";
+
+/**
+ * Paginated inbox, newest suggestions first.
+ *
+ * Pages are read from the "new" rows and then joined and filtered, so a page
+ * can hold fewer than numItems items (or none) while more remain; keep
+ * loading until isDone. Rows from before structured suggestions (no type or
+ * key) cannot be decided by key and are not listed.
+ */
+export const listInbox = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    filters: v.optional(triageFiltersValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "viewer");
+    const result = await ctx.db
+      .query("suggestions")
+      .withIndex("by_workspaceId_status", (q) => q.eq("workspaceId", user.workspaceId).eq("status", "new"))
+      .order("desc")
+      .filter((q) => q.neq(q.field("invalidatedByNoteDeletion"), true))
+      .paginate(args.paginationOpts);
+
+    const notes = new Map<Id<"notes">, Doc<"notes"> | null>();
+    const page: TriageItem[] = [];
+
+    for (const row of result.page) {
+      if (!row.suggestionType || !row.suggestionKey) continue;
+
+      if (!notes.has(row.noteId)) notes.set(row.noteId, await getOwned(ctx, user.workspaceId, row.noteId));
+      const note = notes.get(row.noteId);
+      if (!note || note.isDeleted) continue;
+
+      const decision = await ctx.db
+        .query("suggestionDecisions")
+        .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+          q.eq("workspaceId", user.workspaceId).eq("noteId", row.noteId).eq("suggestionKey", row.suggestionKey!)
+        )
+        .first();
+      if (decision) continue;
+
+      const item: TriageItem = {
+        id: row._id,
+        noteId: row.noteId,
+        noteTitle: note.title,
+        notedAt: note.meetingAt ?? note.capturedAt,
+        suggestionKey: row.suggestionKey,
+        type: row.suggestionType,
+        title: row.title ?? row.content,
+        body: row.body ?? "",
+        evidencePreview: row.evidencePreview ?? "",
+        confidence: row.modelConfidenceScore,
+        routedInitiativeId: row.routedInitiativeId,
+        createdAt: row.createdAt,
+      };
+      if (matchesTriageFilters(item, args.filters ?? {})) page.push(item);
+    }
+
+    return { ...result, page };
+  },
+});
+
+/**
+ * Seconds since the suggestion was first shown, if it was
+ */
+async function secondsSinceShown(ctx: MutationCtx, row: Doc<"suggestions">, now: number) {
+  const shownEvent = await ctx.db
+    .query("suggestionEvents")
+    .withIndex("by_workspaceId_suggestionId", (q) =>
+      q.eq("workspaceId", row.workspaceId).eq("suggestionId", row._id)
+    )
+    .filter((q) => q.eq(q.field("eventType"), "shown"))
+    .first();
+  return shownEvent ? Math.floor((now - shownEvent.createdAt) / 1000) : undefined;
+}
+
+async function upsertDecision(
+  ctx: MutationCtx,
+  row: Doc<"suggestions">,
+  decision: Partial<Doc<"suggestionDecisions">> & { status: Doc<"suggestionDecisions">["status"]; updatedAt: number }
+) {
+  const existing = await ctx.db
+    .query("suggestionDecisions")
+    .withIndex("by_workspaceId_noteId_suggestionKey", (q) =>
+      q.eq("workspaceId", row.workspaceId).eq("noteId", row.noteId).eq("suggestionKey", row.suggestionKey!)
+    )
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, decision);
+  } else {
+    await ctx.db.insert("suggestionDecisions", {
+      workspaceId: row.workspaceId,
+      noteId: row.noteId,
+      suggestionKey: row.suggestionKey!,
+      ...decision,
+    });
+  }
+}
+
+// Dismiss several suggestions with one reason. Already-decided ones are skipped.
+export const dismissMany = mutation({
+  args: {
+    ids: v.array(v.id("suggestions")),
+    dismissReason: dismissReasonValidator,
+    dismissReasonOther: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    const now = Date.now();
+    let dismissed = 0;
+
+    for (const id of args.ids) {
+      const row = await getOwned(ctx, user.workspaceId, id);
+      if (!row || row.status !== "new" || !row.suggestionKey) continue;
+
+      await ctx.db.patch(id, {
+        status: "dismissed",
+        dismissedAt: now,
+        dismissReason: args.dismissReason,
+        dismissReasonOther: args.dismissReasonOther,
+      });
+      const timeToEventSeconds = await secondsSinceShown(ctx, row, now);
+      await ctx.db.insert("suggestionEvents", {
+        workspaceId: user.workspaceId,
+        noteId: row.noteId,
+        suggestionId: id,
+        eventType: "dismissed",
+        createdAt: now,
+        timeToEventSeconds,
+        dismissReason: args.dismissReason,
+        dismissReasonOther: args.dismissReasonOther,
+        uiSurface: UI_SURFACE,
+        suggestionFamily: row.suggestionFamily,
+        ruleOrPromptId: row.ruleOrPromptId,
+        ...eventActorFields(user),
+      });
+      await insertFeedbackEvent(
+        ctx,
+        user,
+        row,
+        { action: "dismissed", dismissReason: args.dismissReason, timeToActionSeconds: timeToEventSeconds },
+        now
+      );
+      await upsertDecision(ctx, row, {
+        status: "dismissed",
+        dismissedAt: now,
+        appliedAt: undefined,
+        initiativeId: undefined,
+        appliedMode: undefined,
+        updatedAt: now,
+      });
+      dismissed++;
+    }
+
+    return { dismissed };
+  },
+});
+
+/**
+ * Apply several suggestions to an existing initiative. Without initiativeId
+ * each suggestion goes to the initiative it was routed to; suggestions with
+ * no routed initiative are skipped.
+ */
+export const applyManyToInitiative = mutation({
+  args: {
+    ids: v.array(v.id("suggestions")),
+    initiativeId: v.optional(v.id("v0Initiatives")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    if (args.initiativeId && !(await getOwned(ctx, user.workspaceId, args.initiativeId))) {
+      throw new Error("Initiative not found");
+    }
+
+    const now = Date.now();
+    let applied = 0;
+    let skipped = 0;
+
+    for (const id of args.ids) {
+      const row = await getOwned(ctx, user.workspaceId, id);
+      if (!row || row.status !== "new" || !row.suggestionKey) continue;
+
+      const initiativeId = args.initiativeId ?? row.routedInitiativeId;
+      if (!initiativeId || !(await getOwned(ctx, user.workspaceId, initiativeId))) {
+        skipped++;
+        continue;
+      }
+
+      // Applied somewhere other than where it was routed
+      const editType = row.routedInitiativeId && row.routedInitiativeId !== initiativeId ? "changed_target" as const : undefined;
+
+      await ctx.db.patch(id, { status: "applied", appliedAt: now, initiativeId });
+      const timeToEventSeconds = await secondsSinceShown(ctx, row, now);
+      await ctx.db.insert("suggestionEvents", {
+        workspaceId: user.workspaceId,
+        noteId: row.noteId,
+        suggestionId: id,
+        eventType: "applied",
+        createdAt: now,
+        timeToEventSeconds,
+        uiSurface: UI_SURFACE,
+        suggestionFamily: row.suggestionFamily,
+        ruleOrPromptId: row.ruleOrPromptId,
+        editType,
+        ...eventActorFields(user),
+      });
+      await insertFeedbackEvent(
+        ctx,
+        user,
+        row,
+        { action: editType ? "edited" : "accepted", editType, timeToActionSeconds: timeToEventSeconds },
+        now
+      );
+      await upsertDecision(ctx, row, {
+        status: "applied",
+        appliedAt: now,
+        dismissedAt: undefined,
+        initiativeId,
+        appliedMode: "existing",
+        appliedToInitiativeId: initiativeId,
+        appliedToType: "existing",
+        editType,
+        editedFields: editType ? ["initiative"] : undefined,
+        updatedAt: now,
+      });
+      applied++;
+    }
+
+    return { applied, skipped };
+  },
+});
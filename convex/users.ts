@@ -0,0 +1,272 @@
+import { query, mutation, internalQuery } from "./_generated/server";
+import type { ActionCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { makeFunctionReference } from "convex/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { hasRole, hashUserId, roleForNewUser } from "../src/lib/roles";
+import type { Role } from "../src/lib/roles";
+
+/**
+ * Users Module
+ *
+ * Identity comes from Convex auth (auth.config.ts, an OIDC provider). A
+ * users row is created on first sign-in (store) and carries the role, team
+ * and active workspace. Every public query, mutation and action starts with
+ * requireRole (requireActionRole in actions), which also resolves the
+ * workspace the call is scoped to (see workspaces.ts), and takes actor IDs
+ * from the returned user rather than from arguments. Roles are
+ * deployment-wide; functions that manage users and workspaces themselves
+ * use requireUser, which checks the role only.
+ *
+ * Role ordering and the first-user bootstrap rule are in src/lib/roles.ts.
+ */
+
+const roleValidator = v.union(v.literal("viewer"), v.literal("editor"), v.literal("admin"));
+
+// ============================================
+// Helpers
+// ============================================
+
+/** The signed-in user, or null when signed out or not stored yet */
+export async function getViewer(ctx: QueryCtx): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+  return await ctx.db
+    .query("users")
+    .withIndex("by_tokenIdentifier", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+    .first();
+}
+
+function checkRole(user: Doc<"users"> | null, role: Role): Doc<"users"> {
+  if (!user) throw new Error("Not signed in");
+  if (!hasRole(user.role, role)) throw new Error(`Requires ${role} role`);
+  return user;
+}
+
+/** A signed-in user and the workspace their call is scoped to */
+export type WorkspaceUser = Doc<"users"> & { workspaceId: Id<"workspaces"> };
+
+/** The user's active workspace, if they are still a member of it */
+export async function getActiveWorkspaceId(
+  ctx: QueryCtx,
+  user: Doc<"users">
+): Promise<Id<"workspaces"> | null> {
+  const workspaceId = user.activeWorkspaceId;
+  if (!workspaceId) return null;
+  const membership = await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspaceId_userId", (q) => q.eq("workspaceId", workspaceId).eq("userId", user._id))
+    .first();
+  return membership ? workspaceId : null;
+}
+
+function checkWorkspace(user: Doc<"users">, workspaceId: Id<"workspaces"> | null): WorkspaceUser {
+  if (!workspaceId) throw new Error("No workspace selected");
+  return { ...user, workspaceId };
+}
+
+/**
+ * The signed-in user, if they have at least `role`; throws otherwise. For
+ * functions outside any workspace (users and workspace management).
+ */
+export async function requireUser(ctx: QueryCtx, role: Role): Promise<Doc<"users">> {
+  return checkRole(await getViewer(ctx), role);
+}
+
+/**
+ * The signed-in user with at least `role`, and the active workspace they
+ * are a member of; throws otherwise. Queries and mutations call this first
+ * and scope every read and write to the returned workspaceId.
+ */
+export async function requireRole(ctx: QueryCtx, role: Role): Promise<WorkspaceUser> {
+  const user = checkRole(await getViewer(ctx), role);
+  return checkWorkspace(user, await getActiveWorkspaceId(ctx, user));
+}
+
+// Referenced by name: every module imports this file, and importing the
+// generated api here would make their types circular
+const viewerInternalRef = makeFunctionReference<
+  "query",
+  Record<string, never>,
+  (Doc<"users"> & { workspaceId: Id<"workspaces"> | null }) | null
+>("users:viewerInternal");
+
+/** requireRole for actions, which have no database access */
+export async function requireActionRole(ctx: ActionCtx, role: Role): Promise<WorkspaceUser> {
+  const viewer = await ctx.runQuery(viewerInternalRef, {});
+  const user = checkRole(viewer, role);
+  return checkWorkspace(user, viewer?.workspaceId ?? null);
+}
+
+/**
+ * Display name for a stored actor ID. Actors recorded before sign-in
+ * existed are free-form strings and are returned unchanged.
+ */
+export async function actorDisplayName(ctx: QueryCtx, actorUserId: string): Promise<string> {
+  const userId = ctx.db.normalizeId("users", actorUserId);
+  const user = userId ? await ctx.db.get(userId) : null;
+  return user ? user.name ?? user.email ?? actorUserId : actorUserId;
+}
+
+/**
+ * Analytics envelope for suggestionEvents: salted user hash and team.
+ * The salt comes from USER_ID_HASH_SALT so hashes cannot be reversed by
+ * hashing known IDs.
+ */
+export function eventActorFields(user: Doc<"users">): { userIdHash: string; teamId?: string } {
+  return {
+    userIdHash: hashUserId(user._id, process.env.USER_ID_HASH_SALT ?? ""),
+    teamId: user.teamId,
+  };
+}
+
+// ============================================
+// Queries
+// ============================================
+
+// The signed-in user, their team and active workspace (null when they
+// belong to none); null when signed out or not stored yet
+export const viewer = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getViewer(ctx);
+    if (!user) return null;
+    const team = user.teamId ? await ctx.db.get(user.teamId) : null;
+    return { ...user, teamName: team?.name, workspaceId: await getActiveWorkspaceId(ctx, user) };
+  },
+});
+
+export const viewerInternal = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<(Doc<"users"> & { workspaceId: Id<"workspaces"> | null }) | null> => {
+    const user = await getViewer(ctx);
+    return user ? { ...user, workspaceId: await getActiveWorkspaceId(ctx, user) } : null;
+  },
+});
+
+// All users with team names, by name
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireUser(ctx, "admin");
+    const users = await ctx.db.query("users").collect();
+    const teams = new Map((await ctx.db.query("teams").collect()).map((team) => [team._id, team.name]));
+    return users
+      .map((user) => ({ ...user, teamName: user.teamId ? teams.get(user.teamId) : undefined }))
+      .sort((a, b) => (a.name ?? a.email ?? "").localeCompare(b.name ?? b.email ?? ""));
+  },
+});
+
+export const listTeams = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireUser(ctx, "viewer");
+    const teams = await ctx.db.query("teams").collect();
+    return teams.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Create or refresh the signed-in user's row from their identity. Called by
+ * the app after sign-in; the first user of a deployment becomes admin. The
+ * first sign-in after workspaces were introduced creates a Default
+ * workspace with that user in it; everyone else waits for an admin to add
+ * them. A user whose active workspace is gone falls back to their first
+ * membership.
+ */
+export const store = mutation({
+  args: {},
+  handler: async (ctx): Promise<Id<"users">> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Not signed in");
+
+    const now = Date.now();
+    let user = await getViewer(ctx);
+    if (user) {
+      await ctx.db.patch(user._id, {
+        name: identity.name ?? user.name,
+        email: identity.email ?? user.email,
+        lastSeenAt: now,
+      });
+    } else {
+      const anyUser = await ctx.db.query("users").first();
+      const userId = await ctx.db.insert("users", {
+        tokenIdentifier: identity.tokenIdentifier,
+        name: identity.name,
+        email: identity.email,
+        role: roleForNewUser(anyUser ? 1 : 0),
+        createdAt: now,
+        lastSeenAt: now,
+      });
+      user = (await ctx.db.get(userId))!;
+    }
+
+    if (await getActiveWorkspaceId(ctx, user)) return user._id;
+
+    const membership = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .first();
+    if (membership) {
+      await ctx.db.patch(user._id, { activeWorkspaceId: membership.workspaceId });
+    } else if (!(await ctx.db.query("workspaces").first())) {
+      const workspaceId = await ctx.db.insert("workspaces", {
+        name: "Default",
+        createdByUserId: user._id,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await ctx.db.insert("workspaceMembers", { workspaceId, userId: user._id, createdAt: now });
+      await ctx.db.patch(user._id, { activeWorkspaceId: workspaceId });
+    }
+    return user._id;
+  },
+});
+
+// Change a user's role; the last admin cannot be demoted
+export const setRole = mutation({
+  args: {
+    userId: v.id("users"),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, "admin");
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error("User not found");
+    if (user.role === "admin" && args.role !== "admin") {
+      const admins = (await ctx.db.query("users").collect()).filter((u) => u.role === "admin");
+      if (admins.length === 1) throw new Error("Cannot demote the last admin");
+    }
+    await ctx.db.patch(args.userId, { role: args.role });
+  },
+});
+
+// Move a user to a team, or out of any team
+export const setTeam = mutation({
+  args: {
+    userId: v.id("users"),
+    teamId: v.optional(v.id("teams")),
+  },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, "admin");
+    if (!(await ctx.db.get(args.userId))) throw new Error("User not found");
+    if (args.teamId && !(await ctx.db.get(args.teamId))) throw new Error("Team not found");
+    await ctx.db.patch(args.userId, { teamId: args.teamId });
+  },
+});
+
+export const createTeam = mutation({
+  args: {
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, "admin");
+    const name = args.name.trim();
+    if (!name) throw new Error("Team name is required");
+    return await ctx.db.insert("teams", { name, createdAt: Date.now() });
+  },
+});
@@ -1,5 +1,7 @@
 import { query, mutation } from "./_generated/server";
 import { v } from "convex/values";
+import { requireRole } from "./users";
+import { getOwned } from "./workspaces";
 
 const v0InitiativeStatusValidator = v.union(
   v.literal("draft"),
@@ -10,8 +12,10 @@ const v0InitiativeStatusValidator = v.union(
 // Query to get all v0 initiatives
 export const list = query({
   handler: async (ctx) => {
+    const user = await requireRole(ctx, "viewer");
     return await ctx.db
       .query("v0Initiatives")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
       .order("desc")
       .collect();
   },
@@ -20,8 +24,10 @@ export const list = query({
 // Query to get active initiatives (for dropdown selection)
 export const listActive = query({
   handler: async (ctx) => {
+    const user = await requireRole(ctx, "viewer");
     const allInitiatives = await ctx.db
       .query("v0Initiatives")
+      .withIndex("by_workspaceId_createdAt", (q) => q.eq("workspaceId", user.workspaceId))
       .collect();
     // Return draft and active initiatives (not done)
     return allInitiatives.filter(
@@ -34,7 +40,8 @@ export const listActive = query({
 export const get = query({
   args: { id: v.id("v0Initiatives") },
   handler: async (ctx, args) => {
-    return await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    return await getOwned(ctx, user.workspaceId, args.id);
   },
 });
 
@@ -42,7 +49,8 @@ export const get = query({
 export const getWithSuggestions = query({
   args: { id: v.id("v0Initiatives") },
   handler: async (ctx, args) => {
-    const initiative = await ctx.db.get(args.id);
+    const user = await requireRole(ctx, "viewer");
+    const initiative = await getOwned(ctx, user.workspaceId, args.id);
     if (!initiative) {
       return null;
     }
@@ -50,7 +58,9 @@ export const getWithSuggestions = query({
     // Get all suggestions linked to this initiative
     const suggestions = await ctx.db
       .query("suggestions")
-      .withIndex("by_initiativeId", (q) => q.eq("initiativeId", args.id))
+      .withIndex("by_workspaceId_initiativeId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.id)
+      )
       .collect();
 
     // Get notes for each suggestion
@@ -85,8 +95,10 @@ export const create = mutation({
     status: v.optional(v0InitiativeStatusValidator),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const now = Date.now();
     const initiativeId = await ctx.db.insert("v0Initiatives", {
+      workspaceId: user.workspaceId,
       title: args.title,
       description: args.description,
       status: args.status || "active",
@@ -106,8 +118,9 @@ export const update = mutation({
     status: v.optional(v0InitiativeStatusValidator),
   },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
     const { id, ...updates } = args;
-    const existing = await ctx.db.get(id);
+    const existing = await getOwned(ctx, user.workspaceId, id);
     if (!existing) {
       throw new Error("Initiative not found");
     }
@@ -129,10 +142,17 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("v0Initiatives") },
   handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "editor");
+    if (!(await getOwned(ctx, user.workspaceId, args.id))) {
+      throw new Error("Initiative not found");
+    }
+
     // Unlink any suggestions from this initiative first
     const linkedSuggestions = await ctx.db
       .query("suggestions")
-      .withIndex("by_initiativeId", (q) => q.eq("initiativeId", args.id))
+      .withIndex("by_workspaceId_initiativeId", (q) =>
+        q.eq("workspaceId", user.workspaceId).eq("initiativeId", args.id)
+      )
       .collect();
 
     for (const suggestion of linkedSuggestions) {
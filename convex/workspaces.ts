@@ -0,0 +1,338 @@
+import { query, mutation, internalQuery } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id, TableNames } from "./_generated/dataModel";
+import { validateWorkspaceEngineConfig } from "../src/lib/workspace-config";
+import type { WorkspaceEngineConfig } from "../src/lib/workspace-config";
+import { getActiveWorkspaceId, requireRole, requireUser } from "./users";
+
+/**
+ * Workspaces Module
+ *
+ * Workspaces are the tenants: every note, suggestion and initiative record
+ * (and everything derived from them) carries the workspaceId of the
+ * workspace it was written in, and every index on those tables starts with
+ * workspaceId. Functions get the workspace from requireRole (the caller's
+ * active workspace, checked against their memberships) and never from
+ * arguments, so a call can only reach its own workspace:
+ *
+ * - lists and lookups go through a by_workspaceId_* index
+ * - records fetched by ID go through getOwned, which treats a record from
+ *   another workspace as missing
+ * - inserts copy workspaceId from the caller or the parent record
+ *
+ * Feature flag overrides, their audit log, shadow experiments and the daily
+ * metric aggregates belong to a workspace too. Users, teams, learned
+ * configs and rule quality scores stay deployment-wide.
+ * Records written before workspaces existed have no workspaceId and are
+ * invisible until an admin adopts them (adoptUnassigned).
+ *
+ * Each workspace can override suggestion engine thresholds and enabled
+ * suggestion types (src/lib/workspace-config.ts); engine runs read them
+ * with getEngineConfig.
+ */
+
+const suggestionTypeValidator = v.union(
+  v.literal("idea"),
+  v.literal("project_update"),
+  v.literal("bug"),
+  v.literal("risk"),
+  v.literal("action_item"),
+  v.literal("conflict")
+);
+
+const engineConfigValidator = v.object({
+  thresholds: v.optional(v.object({
+    T_action: v.optional(v.number()),
+    T_overall_min: v.optional(v.number()),
+    T_section_min: v.optional(v.number()),
+    T_attach_embedding: v.optional(v.number()),
+    MIN_EVIDENCE_CHARS: v.optional(v.number()),
+  })),
+  enabledTypes: v.optional(v.array(suggestionTypeValidator)),
+});
+
+// Workspace-owned tables and a by_workspaceId_* index on each, used to
+// find rows without a workspace
+const TENANT_TABLE_INDEXES = {
+  notes: "by_workspaceId_createdAt",
+  suggestions: "by_workspaceId_createdAt",
+  suggestionEvents: "by_workspaceId_createdAt",
+  suggestionDecisions: "by_workspaceId_noteId",
+  suggestionSnapshots: "by_workspaceId_noteId",
+  suggestionDebugRuns: "by_workspaceId_expiresAt",
+  decisionRecords: "by_workspaceId_noteId",
+  noteAssertions: "by_workspaceId_noteId",
+  beliefs: "by_workspaceId_noteId",
+  beliefFeedbackEvents: "by_workspaceId_createdAt",
+  initiatives: "by_workspaceId",
+  v0Initiatives: "by_workspaceId_createdAt",
+  newInitiatives: "by_workspaceId_createdAt",
+  initiativeEvents: "by_workspaceId_occurredAt",
+  initiativeVersions: "by_workspaceId_createdAt",
+  initiativeComments: "by_workspaceId_deletedAt",
+  initiativeSuggestions: "by_workspaceId_createdAt",
+  initiativeExternalLinks: "by_workspaceId_updatedAt",
+  featureFlagOverrides: "by_workspaceId_flagKey_scope_scopeId",
+  featureFlagAuditLog: "by_workspaceId_changedAt",
+  shadowExperiments: "by_workspaceId_createdAt",
+  shadowRunDiffs: "by_workspaceId_noteId",
+} as const;
+
+export type TenantTable = keyof typeof TENANT_TABLE_INDEXES & TableNames;
+
+// The part of an index range builder adoptUnassigned needs; the table and
+// index vary per loop iteration, so the generated types cannot follow
+type UnassignedIndexRange = { eq(field: "workspaceId", value: undefined): unknown };
+
+// Rows adopted per adoptUnassigned call, to stay inside mutation limits
+const ADOPT_BATCH_SIZE = 500;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * A workspace-owned record by ID, or null when it does not exist or
+ * belongs to another workspace. Use for every ID that comes from a caller.
+ */
+export async function getOwned<T extends TenantTable>(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  id: Id<T>
+): Promise<Doc<T> | null> {
+  const doc = await ctx.db.get(id);
+  return doc && (doc as { workspaceId?: Id<"workspaces"> }).workspaceId === workspaceId ? doc : null;
+}
+
+/** The workspace's engine overrides; undefined = deployment defaults */
+export async function getEngineConfig(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">
+): Promise<WorkspaceEngineConfig | undefined> {
+  return (await ctx.db.get(workspaceId))?.engineConfig;
+}
+
+async function getMembership(ctx: QueryCtx, workspaceId: Id<"workspaces">, userId: Id<"users">) {
+  return await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspaceId_userId", (q) => q.eq("workspaceId", workspaceId).eq("userId", userId))
+    .first();
+}
+
+async function addMembership(ctx: MutationCtx, workspaceId: Id<"workspaces">, userId: Id<"users">) {
+  if (await getMembership(ctx, workspaceId, userId)) return;
+  await ctx.db.insert("workspaceMembers", { workspaceId, userId, createdAt: Date.now() });
+  const user = await ctx.db.get(userId);
+  if (user && !(await getActiveWorkspaceId(ctx, user))) {
+    await ctx.db.patch(userId, { activeWorkspaceId: workspaceId });
+  }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+// Workspaces the signed-in user belongs to, by name, with the active one flagged
+export const listMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx, "viewer");
+    const activeWorkspaceId = await getActiveWorkspaceId(ctx, user);
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_userId", (q) => q.eq("userId", user._id))
+      .collect();
+    const workspaces = await Promise.all(memberships.map((m) => ctx.db.get(m.workspaceId)));
+    return workspaces
+      .filter((workspace): workspace is Doc<"workspaces"> => workspace !== null)
+      .map((workspace) => ({
+        _id: workspace._id,
+        name: workspace.name,
+        isActive: workspace._id === activeWorkspaceId,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// The active workspace with its engine config
+export const getActive = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireRole(ctx, "viewer");
+    return await ctx.db.get(user.workspaceId);
+  },
+});
+
+// All workspaces with their member user IDs, by name
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireUser(ctx, "admin");
+    const workspaces = await ctx.db.query("workspaces").collect();
+    const result = [];
+    for (const workspace of workspaces) {
+      const members = await ctx.db
+        .query("workspaceMembers")
+        .withIndex("by_workspaceId_userId", (q) => q.eq("workspaceId", workspace._id))
+        .collect();
+      result.push({ ...workspace, memberUserIds: members.map((m) => m.userId) });
+    }
+    return result.sort((a, b) => a.name.localeCompare(b.name));
+  },
+});
+
+// Every workspace ID, for crons that aggregate per workspace
+export const listIdsInternal = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<Id<"workspaces">[]> => {
+    return (await ctx.db.query("workspaces").collect()).map((workspace) => workspace._id);
+  },
+});
+
+// A workspace's engine overrides, for engine runs in actions
+export const getEngineConfigInternal = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args): Promise<WorkspaceEngineConfig | undefined> => {
+    return await getEngineConfig(ctx, args.workspaceId);
+  },
+});
+
+// ============================================
+// Mutations
+// ============================================
+
+// Make one of the signed-in user's workspaces the active one
+export const switchTo = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, "viewer");
+    if (!(await getMembership(ctx, args.workspaceId, user._id))) {
+      throw new Error("Workspace not found");
+    }
+    await ctx.db.patch(user._id, { activeWorkspaceId: args.workspaceId });
+  },
+});
+
+// Create a workspace; the creator joins it and switches to it
+export const create = mutation({
+  args: {
+    name: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"workspaces">> => {
+    const user = await requireUser(ctx, "admin");
+    const name = args.name.trim();
+    if (!name) throw new Error("Workspace name is required");
+    const now = Date.now();
+    const workspaceId = await ctx.db.insert("workspaces", {
+      name,
+      createdByUserId: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await addMembership(ctx, workspaceId, user._id);
+    await ctx.db.patch(user._id, { activeWorkspaceId: workspaceId });
+    return workspaceId;
+  },
+});
+
+export const rename = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, "admin");
+    const name = args.name.trim();
+    if (!name) throw new Error("Workspace name is required");
+    if (!(await ctx.db.get(args.workspaceId))) throw new Error("Workspace not found");
+    await ctx.db.patch(args.workspaceId, { name, updatedAt: Date.now() });
+  },
+});
+
+// Add a user to a workspace; it becomes their active one if they had none
+export const addMember = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, "admin");
+    if (!(await ctx.db.get(args.workspaceId))) throw new Error("Workspace not found");
+    if (!(await ctx.db.get(args.userId))) throw new Error("User not found");
+    await addMembership(ctx, args.workspaceId, args.userId);
+  },
+});
+
+// Remove a user from a workspace; the last member cannot be removed
+export const removeMember = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    await requireUser(ctx, "admin");
+    const membership = await getMembership(ctx, args.workspaceId, args.userId);
+    if (!membership) throw new Error("Membership not found");
+    const members = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspaceId_userId", (q) => q.eq("workspaceId", args.workspaceId))
+      .take(2);
+    if (members.length === 1) throw new Error("Cannot remove the last member of a workspace");
+    await ctx.db.delete(membership._id);
+
+    // Fall back to another membership; store does the same on next sign-in
+    const user = await ctx.db.get(args.userId);
+    if (user?.activeWorkspaceId === args.workspaceId) {
+      const next = await ctx.db
+        .query("workspaceMembers")
+        .withIndex("by_userId", (q) => q.eq("userId", args.userId))
+        .first();
+      await ctx.db.patch(args.userId, { activeWorkspaceId: next?.workspaceId });
+    }
+  },
+});
+
+// Replace the active workspace's engine overrides; {} restores the defaults
+export const setEngineConfig = mutation({
+  args: {
+    engineConfig: engineConfigValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, "admin");
+    const errors = validateWorkspaceEngineConfig(args.engineConfig);
+    if (errors.length > 0) throw new Error(errors.join("; "));
+    await ctx.db.patch(user.workspaceId, { engineConfig: args.engineConfig, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Move records written before workspaces existed into the active
+ * workspace, up to ADOPT_BATCH_SIZE per call. Call again while `done` is
+ * false.
+ */
+export const adoptUnassigned = mutation({
+  args: {},
+  handler: async (ctx): Promise<{ adopted: number; done: boolean }> => {
+    const user = await requireRole(ctx, "admin");
+    let adopted = 0;
+    for (const [table, index] of Object.entries(TENANT_TABLE_INDEXES) as [TenantTable, string][]) {
+      const remaining = ADOPT_BATCH_SIZE - adopted;
+      if (remaining === 0) return { adopted, done: false };
+      // Every table in TENANT_TABLE_INDEXES has this index with workspaceId first
+      const rows = await ctx.db
+        .query(table)
+        .withIndex(index as never, ((q: UnassignedIndexRange) => q.eq("workspaceId", undefined)) as never)
+        .take(remaining);
+      for (const row of rows) {
+        await ctx.db.patch(row._id, { workspaceId: user.workspaceId });
+      }
+      adopted += rows.length;
+    }
+    return { adopted, done: adopted < ADOPT_BATCH_SIZE };
+  },
+});
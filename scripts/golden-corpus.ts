@@ -0,0 +1,43 @@
+/**
+ * Golden Corpus Runner
+ *
+ * Run: npx tsx scripts/golden-corpus.ts [--out report.json] [--baseline base.json]
+ *
+ * Scores the v2 engine against the labeled golden corpus and prints
+ * precision/recall/F1 per suggestion type and per drop stage.
+ *
+ * To see which notes gain or lose suggestions with a classifier change:
+ *   1. On the base branch:  npx tsx scripts/golden-corpus.ts --out /tmp/base.json
+ *   2. On your branch:      npx tsx scripts/golden-corpus.ts --baseline /tmp/base.json
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import {
+  runGoldenCorpus,
+  diffGoldenReports,
+  formatGoldenReport,
+  formatGoldenDiff,
+  GOLDEN_CORPUS,
+} from '../src/lib/suggestion-engine-v2';
+import type { GoldenReport } from '../src/lib/suggestion-engine-v2';
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const outPath = argValue('--out');
+const baselinePath = argValue('--baseline');
+
+const report = runGoldenCorpus(GOLDEN_CORPUS);
+console.log(formatGoldenReport(report));
+
+if (outPath) {
+  writeFileSync(outPath, JSON.stringify(report, null, 2));
+  console.log(`\nReport written to ${outPath}`);
+}
+
+if (baselinePath) {
+  const baseline = JSON.parse(readFileSync(baselinePath, 'utf8')) as GoldenReport;
+  console.log('\n' + formatGoldenDiff(diffGoldenReports(baseline, report)));
+}
@@ -0,0 +1,41 @@
+/**
+ * Threshold Sweep
+ *
+ * Run: npx tsx scripts/threshold-sweep.ts [--random N] [--seed S] [--out patch.json]
+ *
+ * Searches DEFAULT_THRESHOLD_SWEEP_SPACE (grid by default, or N random
+ * combinations) against the golden corpus, prints the precision/recall
+ * Pareto frontier and the DEFAULT_THRESHOLDS patch for the best trial.
+ * Apply the patch by hand in src/lib/suggestion-engine-v2/types.ts and
+ * rerun scripts/golden-corpus.ts to review per-note changes.
+ */
+
+import { writeFileSync } from 'fs';
+import {
+  sweepGeneratorThresholds,
+  formatSweepResult,
+  DEFAULT_THRESHOLD_SWEEP_SPACE,
+  GOLDEN_CORPUS,
+} from '../src/lib/suggestion-engine-v2';
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const samples = argValue('--random');
+const seed = argValue('--seed');
+const outPath = argValue('--out');
+
+const result = sweepGeneratorThresholds(GOLDEN_CORPUS, DEFAULT_THRESHOLD_SWEEP_SPACE, {
+  strategy: samples ? 'random' : 'grid',
+  samples: samples ? Number(samples) : undefined,
+  seed: seed ? Number(seed) : undefined,
+});
+
+console.log(formatSweepResult(result));
+
+if (outPath) {
+  writeFileSync(outPath, JSON.stringify(result.patch, null, 2));
+  console.log(`\nPatch written to ${outPath}`);
+}
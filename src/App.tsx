@@ -2,17 +2,21 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { ConvexProvider } from "convex/react";
+import { ConvexProviderWithAuth } from "convex/react";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { Layout } from "@/components/layout/Layout";
+import { AuthGate } from "@/components/layout/AuthGate";
 import { convex } from "@/lib/convex";
 import { ThemeProvider } from "@/hooks/use-theme";
+import { AuthProvider } from "@/components/layout/AuthProvider";
+import { useAuth } from "@/hooks/use-auth";
 import Notes from "./pages/Notes";
 import AddNote from "./pages/AddNote";
 import NoteDetail from "./pages/NoteDetail";
 import V0Initiatives from "./pages/V0Initiatives";
 import InitiativeDetail from "./pages/InitiativeDetail";
 import InternalReport from "./pages/InternalReport";
+import Triage from "./pages/Triage";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
@@ -20,12 +24,14 @@ const queryClient = new QueryClient();
 
 const App = () => (
   <ThemeProvider>
-  <ConvexProvider client={convex}>
+  <AuthProvider>
+  <ConvexProviderWithAuth client={convex} useAuth={useAuth}>
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
         <Sonner />
         <BrowserRouter>
+          <AuthGate>
           <Layout>
             <Routes>
               {/* Redirect root to notes */}
@@ -40,6 +46,9 @@ const App = () => (
               <Route path="/initiatives" element={<V0Initiatives />} />
               <Route path="/initiatives/:id" element={<InitiativeDetail />} />
               
+              {/* Triage inbox */}
+              <Route path="/triage" element={<Triage />} />
+              
               {/* Internal report */}
               <Route path="/report" element={<InternalReport />} />
               
@@ -50,10 +59,12 @@ const App = () => (
               <Route path="*" element={<NotFound />} />
             </Routes>
           </Layout>
+          </AuthGate>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
-  </ConvexProvider>
+  </ConvexProviderWithAuth>
+  </AuthProvider>
   </ThemeProvider>
 );
 
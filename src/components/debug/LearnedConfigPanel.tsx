@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { Loader2, RotateCcw, Check, RefreshCw } from "lucide-react";
+
+/**
+ * Learned Config Panel
+ *
+ * Admin view of the belief-to-initiative feedback loop: the pending proposal
+ * next to the active thresholds, with approve / rollback, and the version
+ * history.
+ */
+export function LearnedConfigPanel() {
+  const { toast } = useToast();
+  const overview = useQuery(api.learnedConfigs.getOverview, {});
+  const approve = useMutation(api.learnedConfigs.approve);
+  const rollback = useMutation(api.learnedConfigs.rollback);
+  const proposeNow = useAction(api.learnedConfigs.proposeNow);
+  const [busy, setBusy] = useState<"approve" | "rollback" | "propose" | null>(null);
+
+  if (overview === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const { active, proposed, baseline, history } = overview;
+  const activeThresholds = active?.thresholds ?? baseline.thresholds;
+  const activeModel = active?.decisionModel ?? baseline.decision_model;
+
+  const run = async (kind: "approve" | "rollback" | "propose", fn: () => Promise<string>) => {
+    setBusy(kind);
+    try {
+      toast({ title: await fn() });
+    } catch (error) {
+      toast({
+        title: "Learned config update failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const thresholdNames = Object.keys(activeThresholds) as (keyof typeof activeThresholds)[];
+  const modelNames = (Object.keys(activeModel) as (keyof typeof activeModel)[]).filter(
+    (name) => name !== "T_OVERALL_SCORE_ORDERING_ONLY"
+  );
+  const rows: { name: string; active: number | string; proposed?: number | string }[] = [
+    ...thresholdNames.map((name) => ({
+      name: String(name),
+      active: activeThresholds[name] as number | string,
+      proposed: proposed?.thresholds[name] as number | string | undefined,
+    })),
+    ...modelNames.map((name) => ({
+      name: String(name),
+      active: activeModel[name] as number,
+      proposed: proposed?.decisionModel[name] as number | undefined,
+    })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Proposed vs Active</CardTitle>
+            <CardDescription>
+              {active ? `Active: v${active.version}` : "Active: defaults"}
+              {proposed
+                ? ` · Proposed: v${proposed.version} from ${proposed.eventCount} feedback events`
+                : " · No pending proposal"}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={busy !== null}
+              onClick={() =>
+                run("propose", async () => {
+                  const result = await proposeNow({});
+                  return result.proposed
+                    ? "New proposal created"
+                    : `No change proposed (${result.eventCount} events)`;
+                })
+              }
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Run now
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!active || busy !== null}
+              onClick={() =>
+                run("rollback", async () => {
+                  const result = await rollback({});
+                  return result.restored
+                    ? `Rolled back v${result.rolledBack} to v${result.restored}`
+                    : `Rolled back v${result.rolledBack} to defaults`;
+                })
+              }
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Rollback
+            </Button>
+            <Button
+              size="sm"
+              disabled={!proposed || proposed.validationErrors.length > 0 || busy !== null}
+              onClick={() =>
+                proposed &&
+                run("approve", async () => {
+                  const result = await approve({ id: proposed._id });
+                  return `Approved v${result.version}`;
+                })
+              }
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Approve
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Threshold</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Proposed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.name}>
+                  <TableCell className="font-mono text-xs">{row.name}</TableCell>
+                  <TableCell>{row.active}</TableCell>
+                  <TableCell
+                    className={
+                      row.proposed !== undefined && row.proposed !== row.active ? "font-semibold text-blue-600" : ""
+                    }
+                  >
+                    {row.proposed ?? "-"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {proposed && proposed.adjustments.length > 0 && (
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">Why</p>
+              {proposed.adjustments.map((adjustment) => (
+                <p key={adjustment.thresholdName + adjustment.reason} className="text-muted-foreground">
+                  {adjustment.thresholdName}: {adjustment.currentValue} → {adjustment.recommendedValue} ·{" "}
+                  {adjustment.reason} ({Math.round(adjustment.confidence * 100)}% confidence)
+                </p>
+              ))}
+            </div>
+          )}
+
+          {proposed && proposed.validationErrors.length > 0 && (
+            <div className="space-y-1 text-sm text-destructive">
+              {proposed.validationErrors.map((error) => (
+                <p key={error}>{error}</p>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+          <CardDescription>Proposals and approvals, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No learned configs yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Acceptance</TableHead>
+                  <TableHead>Proposed</TableHead>
+                  <TableHead>Activated</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((row) => (
+                  <TableRow key={row._id}>
+                    <TableCell>v{row.version}</TableCell>
+                    <TableCell>
+                      <Badge variant={row.status === "active" ? "default" : "secondary"}>{row.status}</Badge>
+                    </TableCell>
+                    <TableCell>{row.eventCount}</TableCell>
+                    <TableCell>{Math.round(row.stats.acceptanceRate * 100)}%</TableCell>
+                    <TableCell className="font-mono text-xs">{format(row.createdAt, "MMM dd HH:mm")}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {row.activatedAt ? format(row.activatedAt, "MMM dd HH:mm") : "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
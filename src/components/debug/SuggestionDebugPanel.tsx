@@ -6,6 +6,7 @@
  * - Run debug: Trigger a fresh debug run for a note
  * - Copy JSON: Copy the full debug report to clipboard
  * - Summary metrics: Quick overview of suggestion generation results
+ * - LLM rewrite: Rule title/body next to the LLM rewrite, when enabled
  * - Section accordion: Drill down into individual section details
  */
 
@@ -46,6 +47,7 @@ import type {
   DebugRunSummary,
   DropStage,
   DropReason,
+  LLMRewriteDebug,
 } from "@/lib/suggestion-engine-v2/debugTypes";
 import { computeDebugRunSummary } from "@/lib/suggestion-engine-v2/debugTypes";
 import type { RunResult } from "@/lib/suggestion-engine-v2/types";
@@ -317,6 +319,7 @@ export function SuggestionDebugPanel({
           <ScrollArea className="h-96 mt-2 pr-2">
             <DebugRunHeader debugRun={debugRun} />
             <DebugRunSummaryView summary={summary} />
+            {debugRun.llmRewrite && <LLMRewriteView rewrite={debugRun.llmRewrite} />}
             <SectionAccordion sections={debugRun.sections} />
           </ScrollArea>
         )}
@@ -416,6 +419,59 @@ function DebugRunSummaryView({ summary }: { summary: DebugRunSummary }) {
   );
 }
 
+function LLMRewriteView({ rewrite }: { rewrite: LLMRewriteDebug }) {
+  const applied = rewrite.items.filter(item => item.applied).length;
+
+  return (
+    <div className="text-xs mb-4 p-2 bg-background rounded border space-y-2">
+      <div className="flex gap-3 items-center flex-wrap">
+        <span className="font-medium">LLM rewrite:</span>
+        <Badge variant={applied > 0 ? "default" : "outline"}>
+          {applied} / {rewrite.items.length} applied
+        </Badge>
+        <span className="text-muted-foreground">
+          {rewrite.providerId} · {rewrite.calls} calls · {rewrite.cacheHits} cached · {rewrite.tokensUsed} tokens
+        </span>
+      </div>
+
+      {rewrite.items.map(item => (
+        <div key={item.suggestionId} className="grid grid-cols-2 gap-2 border-t pt-2">
+          <div>
+            <div className="text-muted-foreground mb-0.5">Rules</div>
+            <div className="font-medium">{item.ruleTitle}</div>
+            {item.ruleBody && <div className="text-muted-foreground">{item.ruleBody}</div>}
+          </div>
+          <div>
+            <div className="flex items-center gap-1 text-muted-foreground mb-0.5">
+              LLM
+              {item.applied ? (
+                <CheckCircle2 className="h-3 w-3 text-green-600" />
+              ) : (
+                <Badge variant="outline" className="text-[10px]">
+                  {item.fallbackReason ?? "not applied"}
+                </Badge>
+              )}
+            </div>
+            {item.rewriteTitle ? (
+              <>
+                <div className="font-medium">{item.rewriteTitle}</div>
+                {item.rewriteBody && <div className="text-muted-foreground">{item.rewriteBody}</div>}
+              </>
+            ) : (
+              <div className="text-muted-foreground italic">No rewrite</div>
+            )}
+            {item.ungroundedTerms && item.ungroundedTerms.length > 0 && (
+              <div className="text-destructive mt-0.5">
+                Not in evidence: {item.ungroundedTerms.join(", ")}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function SectionAccordion({ sections }: { sections: SectionDebug[] }) {
   if (sections.length === 0) {
     return (
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Brain, ChevronDown, ChevronRight, ExternalLink, History, Loader2 } from "lucide-react";
+
+type CurrentBelief = FunctionReturnType<typeof api.beliefs.getCurrentState>[number];
+
+interface BeliefStateCardProps {
+  initiativeId: Id<"v0Initiatives">;
+}
+
+/**
+ * Belief State Card
+ *
+ * Current belief per dimension and subject for an initiative, from the
+ * stored belief pipeline output. Subjects with earlier beliefs expand to
+ * show how the belief changed over time.
+ */
+export function BeliefStateCard({ initiativeId }: BeliefStateCardProps) {
+  const beliefs = useQuery(api.beliefs.getCurrentState, { initiativeId });
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Brain className="h-5 w-5" />
+          Current Beliefs ({beliefs?.length ?? 0})
+        </CardTitle>
+        <CardDescription>
+          What the latest notes say about this initiative, and how it changed
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {beliefs === undefined ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : beliefs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No beliefs extracted for this initiative yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {beliefs.map((belief) => (
+              <div key={belief._id} className="p-4 rounded-lg border">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="outline" className="text-xs capitalize">{belief.dimension}</Badge>
+                    <span className="text-sm font-medium">{belief.subjectHandle}</span>
+                    {belief.needsClarification && (
+                      <Badge variant="secondary" className="text-xs">Needs clarification</Badge>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {format(belief.notedAt, "PP")}
+                  </span>
+                </div>
+                <p className="text-sm mt-2">{belief.afterState}</p>
+                {belief.supersedesBeliefId && (
+                  <p className="text-xs text-muted-foreground mt-1">Was: {belief.effectiveBeforeState}</p>
+                )}
+                <BeliefSource belief={belief} />
+
+                {belief.revisionCount > 1 && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="mt-2 h-7 px-2 text-xs"
+                      onClick={() => setExpanded(expanded === belief._id ? null : belief._id)}
+                    >
+                      {expanded === belief._id ? (
+                        <ChevronDown className="h-3 w-3 mr-1" />
+                      ) : (
+                        <ChevronRight className="h-3 w-3 mr-1" />
+                      )}
+                      <History className="h-3 w-3 mr-1" />
+                      History ({belief.revisionCount})
+                    </Button>
+                    {expanded === belief._id && (
+                      <BeliefHistory
+                        initiativeId={initiativeId}
+                        subjectHandle={belief.subjectHandle}
+                        dimension={belief.dimension}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BeliefSource({ belief }: { belief: Pick<CurrentBelief, "noteId" | "noteTitle" | "evidence"> }) {
+  const span = belief.evidence[0];
+  return (
+    <Link
+      to={span ? `/notes/${belief.noteId}?lines=${span.startLine + 1}-${span.endLine + 1}` : `/notes/${belief.noteId}`}
+      className="text-xs text-muted-foreground hover:text-foreground hover:underline flex items-center gap-1 mt-2"
+    >
+      {belief.noteTitle || "Untitled Note"}
+      {span && ` · L${span.startLine + 1}`}
+      <ExternalLink className="h-3 w-3" />
+    </Link>
+  );
+}
+
+interface BeliefHistoryProps {
+  initiativeId: Id<"v0Initiatives">;
+  subjectHandle: string;
+  dimension: CurrentBelief["dimension"];
+}
+
+// How the belief changed, oldest first
+function BeliefHistory({ initiativeId, subjectHandle, dimension }: BeliefHistoryProps) {
+  const history = useQuery(api.beliefs.getHistory, { initiativeId, subjectHandle, dimension });
+
+  if (history === undefined) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <ol className="mt-2 ml-2 border-l pl-4 space-y-3">
+      {history.map((entry) => (
+        <li key={entry._id}>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>{format(entry.notedAt, "PP")}</span>
+            {entry.isCurrent && <Badge variant="secondary" className="text-xs">Current</Badge>}
+          </div>
+          <p className="text-sm">{entry.afterState}</p>
+          <BeliefSource belief={entry} />
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,133 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { format, subDays } from "date-fns";
+import { Copy, Download, Loader2, MessageSquare } from "lucide-react";
+import { renderStatusReportMarkdown } from "@/lib/status-report";
+import { slugifyInitiativeTitle } from "@/lib/initiative-bridge";
+
+interface StatusReportDialogProps {
+  /** v0Initiatives or newInitiatives id */
+  initiativeId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Status Report Dialog
+ *
+ * Generates a status update for an initiative over a date range (last 7
+ * days by default) from the notes, with copy, markdown download and save as
+ * an initiative comment.
+ */
+export function StatusReportDialog({ initiativeId, open, onOpenChange }: StatusReportDialogProps) {
+  const { toast } = useToast();
+  const [fromDay, setFromDay] = useState(() => format(subDays(new Date(), 6), "yyyy-MM-dd"));
+  const [toDay, setToDay] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const from = new Date(`${fromDay}T00:00:00`).getTime();
+  const to = new Date(`${toDay}T23:59:59.999`).getTime();
+  const validRange = !Number.isNaN(from) && !Number.isNaN(to) && from <= to;
+
+  const report = useQuery(
+    api.statusReports.generate,
+    open && validRange ? { initiativeId, from, to } : "skip"
+  );
+  const saveAsComment = useMutation(api.statusReports.saveAsComment);
+
+  // Exported copies link back to this app
+  const markdown = useMemo(
+    () => (report ? renderStatusReportMarkdown(report, { linkBase: window.location.origin }) : ""),
+    [report]
+  );
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(markdown);
+    toast({ title: "Copied", description: "Status report copied as markdown" });
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([markdown], { type: "text/markdown" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${slugifyInitiativeTitle(report?.title ?? "initiative")}-status-${toDay}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveAsComment({ initiativeId, from, to });
+      toast({ title: "Saved", description: "Status report saved as an initiative comment" });
+    } catch (error) {
+      console.error("Failed to save status report:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save status report",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Status report</DialogTitle>
+          <DialogDescription>
+            Progress, changes, risks and next steps from the notes, with citations.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="status-report-from" className="text-xs">From</Label>
+            <Input id="status-report-from" type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="status-report-to" className="text-xs">To</Label>
+            <Input id="status-report-to" type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} />
+          </div>
+        </div>
+
+        <ScrollArea className="h-[420px] rounded-md border bg-muted/30">
+          {!validRange ? (
+            <p className="p-4 text-sm text-muted-foreground">Pick a start date on or before the end date.</p>
+          ) : report === undefined ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <pre className="p-4 text-xs whitespace-pre-wrap font-mono">{markdown}</pre>
+          )}
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCopy} disabled={!report}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button variant="outline" onClick={handleDownload} disabled={!report}>
+            <Download className="h-4 w-4 mr-2" />
+            Download .md
+          </Button>
+          <Button onClick={handleSave} disabled={!report || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <MessageSquare className="h-4 w-4 mr-2" />}
+            Save as comment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
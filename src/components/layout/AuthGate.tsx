@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { useConvexAuth, useMutation, useQuery } from 'convex/react';
+import { Loader2, LogIn, LogOut, Rocket } from 'lucide-react';
+import { api } from '../../../convex/_generated/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/use-auth';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+function FullScreen({ children }: AuthGateProps) {
+  return <div className="h-screen flex items-center justify-center bg-background p-6">{children}</div>;
+}
+
+/**
+ * Renders the app once the user is signed in, has a users row and belongs
+ * to a workspace. Shows the sign-in screen otherwise; stores (or
+ * refreshes) the users row after each sign-in.
+ */
+export function AuthGate({ children }: AuthGateProps) {
+  const { isLoading, isAuthenticated } = useConvexAuth();
+  const { signIn, signOut, error } = useAuth();
+  const storeUser = useMutation(api.users.store);
+  const viewer = useQuery(api.users.viewer, isAuthenticated ? {} : 'skip');
+  const [storeError, setStoreError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    storeUser().catch((err: unknown) => setStoreError(err instanceof Error ? err.message : 'Could not load your account'));
+  }, [isAuthenticated, storeUser]);
+
+  if (isLoading || (isAuthenticated && !viewer && !storeError)) {
+    return (
+      <FullScreen>
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </FullScreen>
+    );
+  }
+
+  if (!isAuthenticated || storeError) {
+    return (
+      <FullScreen>
+        <Card className="w-full max-w-sm">
+          <CardHeader className="items-center text-center">
+            <div className="p-2 bg-coral rounded mb-2">
+              <Rocket className="h-5 w-5 text-white" />
+            </div>
+            <CardTitle>Sign in to ShipIt</CardTitle>
+            <CardDescription>Use your company account to continue.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-3">
+            {(error || storeError) && <p className="text-sm text-destructive">{error ?? storeError}</p>}
+            <Button onClick={() => void signIn()}>
+              <LogIn className="h-4 w-4 mr-2" />
+              Sign in
+            </Button>
+          </CardContent>
+        </Card>
+      </FullScreen>
+    );
+  }
+
+  if (viewer && !viewer.workspaceId) {
+    return (
+      <FullScreen>
+        <Card className="w-full max-w-sm">
+          <CardHeader className="items-center text-center">
+            <div className="p-2 bg-coral rounded mb-2">
+              <Rocket className="h-5 w-5 text-white" />
+            </div>
+            <CardTitle>No workspace yet</CardTitle>
+            <CardDescription>
+              You are signed in as {viewer.email ?? viewer.name}. Ask an admin to add you to a workspace.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-3">
+            <Button variant="outline" onClick={() => void signOut()}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </Button>
+          </CardContent>
+        </Card>
+      </FullScreen>
+    );
+  }
+
+  return <>{children}</>;
+}
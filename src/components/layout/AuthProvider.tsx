@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  AUTH_CALLBACK_PATH,
+  completeSignIn,
+  getAuthConfig,
+  isSessionFresh,
+  loadSession,
+  refreshSession,
+  saveSession,
+  signOutUrl,
+  startSignIn,
+} from "@/lib/auth";
+import type { AuthSession } from "@/lib/auth";
+import { AuthContext } from "@/hooks/use-auth";
+
+/**
+ * OIDC session for the app (see src/lib/auth.ts). Finishes the provider
+ * redirect on /auth/callback, keeps the session in localStorage and
+ * refreshes the ID token when Convex asks for a fresh one.
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const config = useMemo(() => getAuthConfig(), []);
+  const [session, setSession] = useState<AuthSession | null>(() => loadSession());
+  const [isLoading, setIsLoading] = useState(() => window.location.pathname === AUTH_CALLBACK_PATH);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef(session);
+
+  const updateSession = useCallback((next: AuthSession | null) => {
+    sessionRef.current = next;
+    saveSession(next);
+    setSession(next);
+  }, []);
+
+  useEffect(() => {
+    if (window.location.pathname !== AUTH_CALLBACK_PATH) return;
+    completeSignIn(config, new URLSearchParams(window.location.search))
+      .then(({ session, returnTo }) => {
+        updateSession(session);
+        window.history.replaceState(null, "", returnTo);
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : "Sign-in failed");
+        window.history.replaceState(null, "", "/");
+      })
+      .finally(() => setIsLoading(false));
+  }, [config, updateSession]);
+
+  const fetchAccessToken = useCallback(
+    async ({ forceRefreshToken }: { forceRefreshToken: boolean }) => {
+      const current = sessionRef.current;
+      if (!current) return null;
+      if (!forceRefreshToken && isSessionFresh(current, Date.now())) return current.idToken;
+      const refreshed = await refreshSession(config, current);
+      updateSession(refreshed);
+      return refreshed?.idToken ?? null;
+    },
+    [config, updateSession]
+  );
+
+  const signIn = useCallback(async () => {
+    setError(null);
+    await startSignIn(config, window.location.pathname + window.location.search);
+  }, [config]);
+
+  const signOut = useCallback(async () => {
+    const url = await signOutUrl(config, sessionRef.current).catch(() => null);
+    updateSession(null);
+    if (url) window.location.assign(url);
+  }, [config, updateSession]);
+
+  const value = useMemo(
+    () => ({ isLoading, isAuthenticated: session !== null, error, signIn, signOut, fetchAccessToken }),
+    [isLoading, session, error, signIn, signOut, fetchAccessToken]
+  );
+
+  // The router mounts after the callback has replaced the URL
+  return <AuthContext.Provider value={value}>{isLoading ? null : children}</AuthContext.Provider>;
+}
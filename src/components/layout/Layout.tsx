@@ -1,3 +1,4 @@
+import { useNavigate } from 'react-router-dom';
 import { NavLink } from '@/components/NavLink';
 import {
   FileText,
@@ -8,8 +9,16 @@ import {
   User,
   Sun,
   Moon,
+  Inbox,
+  LogOut,
 } from 'lucide-react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useTheme } from '@/hooks/use-theme';
+import { useAuth } from '@/hooks/use-auth';
+import { ROLE_LABELS } from '@/lib/roles';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -17,12 +26,25 @@ interface LayoutProps {
 
 const navItems = [
   { to: '/notes', icon: LayoutDashboard, label: 'Dashboard' },
+  { to: '/triage', icon: Inbox, label: 'Triage' },
   { to: '/initiatives', icon: Target, label: 'Projects' },
   { to: '/report', icon: FileText, label: 'Reports' },
 ];
 
 export function Layout({ children }: LayoutProps) {
   const { theme, toggleTheme } = useTheme();
+  const { signOut } = useAuth();
+  const viewer = useQuery(api.users.viewer);
+  const workspaces = useQuery(api.workspaces.listMine);
+  const switchWorkspace = useMutation(api.workspaces.switchTo);
+  const navigate = useNavigate();
+
+  // Open pages show records from the old workspace, so start over on the dashboard
+  const handleSwitch = async (workspaceId: string) => {
+    await switchWorkspace({ workspaceId: workspaceId as Id<'workspaces'> });
+    navigate('/notes');
+  };
+
   return (
     <div className="h-screen flex flex-row">
       {/* Sidebar */}
@@ -35,6 +57,28 @@ export function Layout({ children }: LayoutProps) {
           <span className="font-bold text-lg text-sidebar-primary">ShipIt</span>
         </div>
 
+        {/* Workspace switcher */}
+        {workspaces && workspaces.length > 0 && (
+          <div className="px-3">
+            <Select
+              value={workspaces.find((w) => w.isActive)?._id ?? ''}
+              onValueChange={(value) => void handleSwitch(value)}
+            >
+              <SelectTrigger
+                className="h-8 text-sm bg-transparent border-sidebar-border text-sidebar-muted"
+                aria-label="Workspace"
+              >
+                <SelectValue placeholder="Select workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.map((workspace) => (
+                  <SelectItem key={workspace._id} value={workspace._id}>{workspace.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Primary navigation */}
         <nav className="flex flex-col gap-0.5 px-3 mt-2">
           {navItems.map(({ to, icon: Icon, label }) => (
@@ -64,9 +108,23 @@ export function Layout({ children }: LayoutProps) {
             Settings
           </NavLink>
           <div className="flex items-center gap-[10px] px-3 py-2 text-sm text-sidebar-muted">
-            <User className="h-4 w-4" />
-            <span>Profile</span>
+            <User className="h-4 w-4 shrink-0" />
+            <div className="min-w-0">
+              <div className="truncate">{viewer?.name ?? viewer?.email ?? 'Profile'}</div>
+              {viewer && (
+                <div className="text-xs truncate">
+                  {ROLE_LABELS[viewer.role]}{viewer.teamName ? ` · ${viewer.teamName}` : ''}
+                </div>
+              )}
+            </div>
           </div>
+          <button
+            onClick={() => void signOut()}
+            className="flex items-center gap-[10px] px-3 py-2 rounded-md text-sm font-medium text-sidebar-muted hover:bg-sidebar-accent hover:text-sidebar-accent-foreground transition-colors w-full"
+          >
+            <LogOut className="h-4 w-4" />
+            Sign out
+          </button>
           <button
             onClick={toggleTheme}
             className="flex items-center gap-[10px] px-3 py-2 rounded-md text-sm font-medium text-sidebar-muted hover:bg-sidebar-accent hover:text-sidebar-accent-foreground transition-colors w-full"
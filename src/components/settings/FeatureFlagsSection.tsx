@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Doc } from '../../../convex/_generated/dataModel';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { Flag, History, Loader2, Plus, X } from 'lucide-react';
+import { FLAG_DEFINITIONS, FLAG_KEYS } from '@/lib/feature-flags';
+import type { FlagDefinition, FlagKey } from '@/lib/feature-flags';
+
+type FlagOverrideRow = Doc<'featureFlagOverrides'>;
+type FlagValue = boolean | string;
+
+interface SetOverrideInput {
+  flagKey: FlagKey;
+  scope: FlagOverrideRow['scope'];
+  scopeId?: string;
+  value: FlagValue;
+  rolloutPercent?: number;
+}
+
+function formatValue(value: FlagValue | undefined): string {
+  if (value === undefined) return '—';
+  return typeof value === 'boolean' ? (value ? 'on' : 'off') : value;
+}
+
+/** Empty input = all notes */
+function parseRollout(text: string): number | undefined {
+  return text.trim() === '' ? undefined : Number(text);
+}
+
+function FlagValueInput({
+  definition,
+  value,
+  onChange,
+  disabled,
+}: {
+  definition: FlagDefinition;
+  value: FlagValue;
+  onChange: (value: FlagValue) => void;
+  disabled?: boolean;
+}) {
+  if (definition.kind === 'boolean') {
+    return <Switch checked={value === true} onCheckedChange={onChange} disabled={disabled} />;
+  }
+  return (
+    <Select value={String(value)} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="w-[140px] h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {definition.variants.map((variant) => (
+          <SelectItem key={variant} value={variant}>{variant}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function FlagCard({
+  flagKey,
+  overrides,
+  onSet,
+  onClear,
+}: {
+  flagKey: FlagKey;
+  overrides: FlagOverrideRow[];
+  onSet: (input: SetOverrideInput) => Promise<boolean>;
+  onClear: (row: FlagOverrideRow) => Promise<void>;
+}) {
+  const definition: FlagDefinition = FLAG_DEFINITIONS[flagKey];
+  const global = overrides.find((o) => o.scope === 'global');
+  const scoped = overrides.filter((o) => o.scope !== 'global');
+  const globalValue = global?.value ?? definition.defaultValue;
+
+  const [globalRollout, setGlobalRollout] = useState(global?.rolloutPercent?.toString() ?? '');
+  const [newScope, setNewScope] = useState<'team' | 'note'>('team');
+  const [newScopeId, setNewScopeId] = useState('');
+  const [newValue, setNewValue] = useState<FlagValue>(definition.defaultValue);
+  const [newRollout, setNewRollout] = useState('');
+
+  const handleAdd = async () => {
+    const saved = await onSet({
+      flagKey,
+      scope: newScope,
+      scopeId: newScopeId.trim(),
+      value: newValue,
+      rolloutPercent: parseRollout(newRollout),
+    });
+    if (saved) {
+      setNewScopeId('');
+      setNewRollout('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base">{definition.label}</CardTitle>
+            <CardDescription>{definition.description}</CardDescription>
+          </div>
+          <code className="text-xs text-muted-foreground shrink-0">{flagKey}</code>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Global (the whole workspace) */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="font-medium">Workspace</span>
+            <Badge variant="outline" className="text-xs">
+              {global ? 'override' : `default: ${formatValue(definition.defaultValue)}`}
+            </Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <FlagValueInput
+              definition={definition}
+              value={globalValue}
+              onChange={(value) => onSet({
+                flagKey,
+                scope: 'global',
+                value,
+                rolloutPercent: parseRollout(globalRollout),
+              })}
+            />
+            <Input
+              aria-label="Workspace rollout percentage"
+              className="w-20 h-8"
+              placeholder="100%"
+              value={globalRollout}
+              onChange={(e) => setGlobalRollout(e.target.value)}
+              onBlur={() => {
+                if (global && parseRollout(globalRollout) !== global.rolloutPercent) {
+                  void onSet({ flagKey, scope: 'global', value: global.value, rolloutPercent: parseRollout(globalRollout) });
+                }
+              }}
+            />
+            {global && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={async () => {
+                  await onClear(global);
+                  setGlobalRollout('');
+                }}
+              >
+                Reset
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Team and note overrides */}
+        {scoped.length > 0 && (
+          <div className="space-y-2">
+            {scoped.map((row) => (
+              <div key={row._id} className="flex items-center justify-between gap-2 text-sm rounded-md border px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Badge variant="secondary" className="text-xs capitalize">{row.scope}</Badge>
+                  <code className="text-xs truncate">{row.scopeId}</code>
+                  <span>→ {formatValue(row.value)}</span>
+                  {row.rolloutPercent !== undefined && (
+                    <span className="text-xs text-muted-foreground">({row.rolloutPercent}% of notes)</span>
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onClear(row)} aria-label="Remove override">
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-end gap-2 flex-wrap">
+          <div className="space-y-1">
+            <Label className="text-xs">Scope</Label>
+            <Select value={newScope} onValueChange={(value) => setNewScope(value as 'team' | 'note')}>
+              <SelectTrigger className="w-[100px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="team">Team</SelectItem>
+                <SelectItem value="note">Note</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 flex-1 min-w-[160px]">
+            <Label className="text-xs">{newScope === 'team' ? 'Team ID' : 'Note ID'}</Label>
+            <Input className="h-8" value={newScopeId} onChange={(e) => setNewScopeId(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Value</Label>
+            <div className="h-8 flex items-center">
+              <FlagValueInput definition={definition} value={newValue} onChange={setNewValue} />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Rollout %</Label>
+            <Input className="w-20 h-8" placeholder="100" value={newRollout} onChange={(e) => setNewRollout(e.target.value)} />
+          </div>
+          <Button size="sm" variant="outline" onClick={handleAdd} disabled={!newScopeId.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add override
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Feature Flags Section
+ *
+ * Manage pipeline flags (src/lib/feature-flags.ts): global value and
+ * percentage rollout, team and note overrides, and the change history.
+ */
+export function FeatureFlagsSection() {
+  const { toast } = useToast();
+  const overrides = useQuery(api.featureFlags.listOverrides, {});
+  const auditLog = useQuery(api.featureFlags.listAuditLog, { limit: 20 });
+  const setOverride = useMutation(api.featureFlags.setOverride);
+  const clearOverride = useMutation(api.featureFlags.clearOverride);
+
+  const handleSet = async (input: SetOverrideInput): Promise<boolean> => {
+    try {
+      await setOverride(input);
+      return true;
+    } catch (error) {
+      console.error('Failed to set feature flag:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to set feature flag',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleClear = async (row: FlagOverrideRow) => {
+    try {
+      await clearOverride({ flagKey: row.flagKey, scope: row.scope, scopeId: row.scopeId });
+    } catch (error) {
+      console.error('Failed to clear feature flag:', error);
+      toast({ title: 'Error', description: 'Failed to clear feature flag', variant: 'destructive' });
+    }
+  };
+
+  if (overrides === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {FLAG_KEYS.map((flagKey) => (
+        <FlagCard
+          key={flagKey}
+          flagKey={flagKey}
+          overrides={overrides.filter((o) => o.flagKey === flagKey)}
+          onSet={handleSet}
+          onClear={handleClear}
+        />
+      ))}
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Recent changes
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!auditLog || auditLog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No flag changes yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {auditLog.map((entry) => (
+                <div key={entry._id} className="flex items-center justify-between gap-4 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Flag className="h-3 w-3 text-muted-foreground shrink-0" />
+                    <code className="text-xs">{entry.flagKey}</code>
+                    <span className="text-muted-foreground truncate">
+                      {entry.scope}{entry.scopeId ? ` ${entry.scopeId}` : ''}:{' '}
+                      {entry.action === 'cleared'
+                        ? `cleared (was ${formatValue(entry.previousValue)})`
+                        : `${formatValue(entry.previousValue)} → ${formatValue(entry.value)}${
+                            entry.rolloutPercent !== undefined ? ` at ${entry.rolloutPercent}%` : ''
+                          }`}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {entry.actorName} · {formatDistanceToNow(entry.changedAt, { addSuffix: true })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import type { FunctionReturnType } from 'convex/server';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ChevronDown, ChevronRight, Loader2, Pause, Play, Plus, Rocket, Square } from 'lucide-react';
+import { FLAG_DEFINITIONS } from '@/lib/feature-flags';
+import type { FlagDefinition, FlagKey } from '@/lib/feature-flags';
+import { SHADOW_FLAG_PIPELINES, describeFlagValue, validateShadowExperiment } from '@/lib/shadow-runs';
+
+type Experiment = FunctionReturnType<typeof api.shadowRuns.list>[number];
+type FlagValue = boolean | string;
+
+const SHADOW_FLAG_KEYS = Object.keys(SHADOW_FLAG_PIPELINES) as FlagKey[];
+
+const PIPELINE_LABELS: Record<Experiment['pipeline'], string> = {
+  belief_to_initiative: 'Belief-to-initiative',
+  suggestion_engine: 'Suggestion engine',
+};
+
+const STATUS_VARIANTS: Record<Experiment['status'], 'default' | 'secondary' | 'outline'> = {
+  running: 'default',
+  paused: 'secondary',
+  stopped: 'outline',
+  promoted: 'outline',
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/** Values a flag can be shadowed with */
+function candidateValues(flagKey: FlagKey): FlagValue[] {
+  const definition: FlagDefinition = FLAG_DEFINITIONS[flagKey];
+  const values: FlagValue[] = definition.kind === 'boolean' ? [true, false] : [...definition.variants];
+  return values.filter((value) => validateShadowExperiment(flagKey, value) === null);
+}
+
+function NewExperimentForm({ onCreate }: { onCreate: (flagKey: FlagKey, value: FlagValue, description: string) => Promise<boolean> }) {
+  const [flagKey, setFlagKey] = useState<FlagKey>(SHADOW_FLAG_KEYS[0]);
+  const [valueIndex, setValueIndex] = useState('0');
+  const [description, setDescription] = useState('');
+  const values = candidateValues(flagKey);
+
+  const handleCreate = async () => {
+    if (await onCreate(flagKey, values[Number(valueIndex)], description.trim())) {
+      setDescription('');
+    }
+  };
+
+  return (
+    <div className="flex items-end gap-2 flex-wrap">
+      <div className="space-y-1">
+        <Label className="text-xs">Flag</Label>
+        <Select
+          value={flagKey}
+          onValueChange={(key) => {
+            setFlagKey(key as FlagKey);
+            setValueIndex('0');
+          }}
+        >
+          <SelectTrigger className="w-[180px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHADOW_FLAG_KEYS.map((key) => (
+              <SelectItem key={key} value={key}>{key}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Candidate</Label>
+        <Select value={valueIndex} onValueChange={setValueIndex}>
+          <SelectTrigger className="w-[100px] h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {values.map((value, index) => (
+              <SelectItem key={String(value)} value={String(index)}>{describeFlagValue(flagKey, value)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1 flex-1 min-w-[160px]">
+        <Label className="text-xs">Description</Label>
+        <Input className="h-8" value={description} onChange={(e) => setDescription(e.target.value)} />
+      </div>
+      <Button size="sm" variant="outline" onClick={handleCreate}>
+        <Plus className="h-4 w-4 mr-1" />
+        Start experiment
+      </Button>
+    </div>
+  );
+}
+
+// Recent runs that differed, with the changed suggestions
+function RecentDiffs({ experimentId }: { experimentId: Id<'shadowExperiments'> }) {
+  const diffs = useQuery(api.shadowRuns.listDiffs, { experimentId, onlyDifferences: true, limit: 10 });
+
+  if (diffs === undefined) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (diffs.length === 0) {
+    return <p className="text-sm text-muted-foreground">No runs with differences yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {diffs.map((diff) => (
+        <div key={diff._id} className="rounded-md border px-3 py-2 text-sm space-y-1">
+          <div className="flex items-center justify-between gap-4">
+            <Link to={`/notes/${diff.noteId}`} className="font-medium truncate hover:underline">
+              {diff.noteTitle || 'Untitled Note'}
+            </Link>
+            <span className="text-xs text-muted-foreground shrink-0">
+              {diff.productionCount} → {diff.candidateCount} · {formatDistanceToNow(diff.createdAt, { addSuffix: true })}
+            </span>
+          </div>
+          {diff.added.map((item) => (
+            <p key={`added-${item.key}`} className="text-xs text-green-700 dark:text-green-400 truncate">
+              + [{item.type}] {item.title}
+            </p>
+          ))}
+          {diff.removed.map((item) => (
+            <p key={`removed-${item.key}`} className="text-xs text-red-700 dark:text-red-400 truncate">
+              − [{item.type}] {item.title}
+            </p>
+          ))}
+          {diff.changed.map((change) => (
+            <p key={`changed-${change.production.key}`} className="text-xs text-muted-foreground truncate">
+              ~ {change.typeFlip ? `[${change.production.type} → ${change.candidate.type}]` : `[${change.candidate.type}]`}{' '}
+              {change.candidate.title}
+              {change.scoreDelta !== undefined && ` (score ${change.scoreDelta >= 0 ? '+' : ''}${change.scoreDelta.toFixed(2)})`}
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ExperimentCard({
+  experiment,
+  onSetStatus,
+  onPromote,
+}: {
+  experiment: Experiment;
+  onSetStatus: (status: 'running' | 'paused' | 'stopped') => Promise<void>;
+  onPromote: () => Promise<void>;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const flagKey = experiment.flagKey as FlagKey;
+  const { summary, promotion, criteria } = experiment;
+  const closed = experiment.status === 'promoted' || experiment.status === 'stopped';
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <code>{flagKey} = {describeFlagValue(flagKey, experiment.candidateValue)}</code>
+              <Badge variant={STATUS_VARIANTS[experiment.status]} className="text-xs capitalize">{experiment.status}</Badge>
+            </CardTitle>
+            <CardDescription>
+              {PIPELINE_LABELS[experiment.pipeline]}
+              {experiment.description ? ` · ${experiment.description}` : ''}
+              {experiment.lastRunAt ? ` · last run ${formatDistanceToNow(experiment.lastRunAt, { addSuffix: true })}` : ''}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {experiment.status === 'running' && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onSetStatus('paused')} aria-label="Pause">
+                <Pause className="h-4 w-4" />
+              </Button>
+            )}
+            {experiment.status === 'paused' && (
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onSetStatus('running')} aria-label="Resume">
+                <Play className="h-4 w-4" />
+              </Button>
+            )}
+            {!closed && (
+              <>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onSetStatus('stopped')} aria-label="Stop">
+                  <Square className="h-4 w-4" />
+                </Button>
+                <Button size="sm" onClick={onPromote} disabled={!promotion.eligible}>
+                  <Rocket className="h-4 w-4 mr-1" />
+                  Promote
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">Runs</p>
+            <p className="font-medium">{summary.runs} / {criteria.minRuns}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Diff rate (max {percent(criteria.maxDiffRate)})</p>
+            <p className="font-medium">{percent(summary.diffRate)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Type flips (max {percent(criteria.maxTypeFlipRate)})</p>
+            <p className="font-medium">{summary.typeFlips} · {percent(summary.typeFlipRate)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Mean |score delta|</p>
+            <p className="font-medium">{summary.meanAbsScoreDelta?.toFixed(3) ?? '—'}</p>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          +{summary.added} added · −{summary.removed} removed · {summary.changed} changed
+        </p>
+        {!closed && !promotion.eligible && (
+          <p className="text-xs text-muted-foreground">Not ready: {promotion.reasons.join('; ')}</p>
+        )}
+
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setExpanded(!expanded)}>
+          {expanded ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+          Recent differences ({summary.runsWithDifferences})
+        </Button>
+        {expanded && <RecentDiffs experimentId={experiment._id} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Shadow Runs Section
+ *
+ * Shadow experiments (convex/shadowRuns.ts): start a candidate pipeline
+ * version, watch its diff rates against production, and promote it to the
+ * flag's global value once the criteria are met.
+ */
+export function ShadowRunsSection() {
+  const { toast } = useToast();
+  const experiments = useQuery(api.shadowRuns.list, {});
+  const createExperiment = useMutation(api.shadowRuns.create);
+  const setStatus = useMutation(api.shadowRuns.setStatus);
+  const promote = useMutation(api.shadowRuns.promote);
+
+  const run = async (action: () => Promise<unknown>, failure: string): Promise<boolean> => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : failure,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  if (experiments === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <NewExperimentForm
+        onCreate={(flagKey, candidateValue, description) =>
+          run(
+            () => createExperiment({ flagKey, candidateValue, description: description || undefined }),
+            'Failed to start experiment'
+          )
+        }
+      />
+      {experiments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No shadow experiments yet. Running belief_pipeline = dual_run starts one for v2.
+        </p>
+      ) : (
+        experiments.map((experiment) => (
+          <ExperimentCard
+            key={experiment._id}
+            experiment={experiment}
+            onSetStatus={async (status) => {
+              await run(() => setStatus({ experimentId: experiment._id, status }), 'Failed to update experiment');
+            }}
+            onPromote={async () => {
+              const promoted = await run(() => promote({ experimentId: experiment._id }), 'Failed to promote');
+              if (promoted) toast({ title: 'Promoted', description: `${experiment.flagKey} is now set globally` });
+            }}
+          />
+        ))
+      )}
+    </div>
+  );
+}
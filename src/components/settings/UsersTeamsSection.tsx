@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Plus } from 'lucide-react';
+import { ROLES, ROLE_LABELS } from '@/lib/roles';
+import type { Role } from '@/lib/roles';
+
+const NO_TEAM = 'none';
+
+/**
+ * Users & Teams Section
+ *
+ * Admin-only: set each user's role and team, and create teams. Roles are
+ * described in src/lib/roles.ts.
+ */
+export function UsersTeamsSection() {
+  const { toast } = useToast();
+  const viewer = useQuery(api.users.viewer);
+  const users = useQuery(api.users.list);
+  const teams = useQuery(api.users.listTeams);
+  const setRole = useMutation(api.users.setRole);
+  const setTeam = useMutation(api.users.setTeam);
+  const createTeam = useMutation(api.users.createTeam);
+  const [teamName, setTeamName] = useState('');
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : failure,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCreateTeam = async () => {
+    const name = teamName.trim();
+    if (!name) return;
+    await run(async () => {
+      await createTeam({ name });
+      setTeamName('');
+    }, 'Failed to create team');
+  };
+
+  if (users === undefined || teams === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Users</CardTitle>
+          <CardDescription>
+            Viewers can read everything, editors can also change notes, suggestions and initiatives, admins can also
+            manage users, flags and experiments. New users start as viewers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {users.map((user) => (
+            <div key={user._id} className="flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium truncate">
+                  {user.name ?? user.email ?? user._id}
+                  {user._id === viewer?._id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {user.email ? `${user.email} · ` : ''}last seen {formatDistanceToNow(user.lastSeenAt, { addSuffix: true })}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Select
+                  value={user.teamId ?? NO_TEAM}
+                  onValueChange={(value) =>
+                    void run(
+                      () => setTeam({ userId: user._id, teamId: value === NO_TEAM ? undefined : (value as Id<'teams'>) }),
+                      'Failed to change team'
+                    )
+                  }
+                >
+                  <SelectTrigger className="w-[140px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TEAM}>No team</SelectItem>
+                    {teams.map((team) => (
+                      <SelectItem key={team._id} value={team._id}>{team.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={user.role}
+                  onValueChange={(value) =>
+                    void run(() => setRole({ userId: user._id, role: value as Role }), 'Failed to change role')
+                  }
+                >
+                  <SelectTrigger className="w-[110px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Teams</CardTitle>
+          <CardDescription>
+            Notes are tagged with their creator's team; team flag overrides and per-team metrics use the team ID.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {teams.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No teams yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {teams.map((team) => (
+                <div key={team._id} className="flex items-center justify-between gap-4 text-sm">
+                  <span>{team.name}</span>
+                  <code className="text-xs text-muted-foreground">{team._id}</code>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Input
+              value={teamName}
+              onChange={(e) => setTeamName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && void handleCreateTeam()}
+              placeholder="Team name"
+              className="h-8"
+            />
+            <Button size="sm" onClick={() => void handleCreateTeam()} disabled={!teamName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add team
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, X } from 'lucide-react';
+import {
+  EDITABLE_THRESHOLDS,
+  SUGGESTION_TYPES,
+  SUGGESTION_TYPE_LABELS,
+  validateWorkspaceEngineConfig,
+} from '@/lib/workspace-config';
+import type { EditableThresholdKey, WorkspaceEngineConfig } from '@/lib/workspace-config';
+import type { SuggestionType } from '@/lib/suggestion-engine-v2/types';
+
+const THRESHOLD_KEYS = Object.keys(EDITABLE_THRESHOLDS) as EditableThresholdKey[];
+
+/** Threshold inputs as typed; blank = deployment default */
+type ThresholdDraft = Record<EditableThresholdKey, string>;
+
+function toThresholdDraft(config: WorkspaceEngineConfig | undefined): ThresholdDraft {
+  return Object.fromEntries(
+    THRESHOLD_KEYS.map((key) => [key, config?.thresholds?.[key]?.toString() ?? ''])
+  ) as ThresholdDraft;
+}
+
+function fromDraft(thresholds: ThresholdDraft, enabledTypes: SuggestionType[]): WorkspaceEngineConfig {
+  const config: WorkspaceEngineConfig = {};
+  const set = THRESHOLD_KEYS.filter((key) => thresholds[key].trim() !== '');
+  if (set.length > 0) {
+    config.thresholds = Object.fromEntries(set.map((key) => [key, Number(thresholds[key])]));
+  }
+  if (enabledTypes.length < SUGGESTION_TYPES.length) config.enabledTypes = enabledTypes;
+  return config;
+}
+
+/**
+ * Workspaces Section
+ *
+ * Admin-only: create and rename workspaces, manage their members, edit the
+ * active workspace's engine overrides (src/lib/workspace-config.ts) and
+ * move records from before workspaces into the active workspace.
+ */
+export function WorkspacesSection() {
+  const { toast } = useToast();
+  const workspaces = useQuery(api.workspaces.list);
+  const active = useQuery(api.workspaces.getActive);
+  const users = useQuery(api.users.list);
+  const create = useMutation(api.workspaces.create);
+  const rename = useMutation(api.workspaces.rename);
+  const addMember = useMutation(api.workspaces.addMember);
+  const removeMember = useMutation(api.workspaces.removeMember);
+  const setEngineConfig = useMutation(api.workspaces.setEngineConfig);
+  const adoptUnassigned = useMutation(api.workspaces.adoptUnassigned);
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [thresholds, setThresholds] = useState<ThresholdDraft>(() => toThresholdDraft(undefined));
+  const [enabledTypes, setEnabledTypes] = useState<SuggestionType[]>([...SUGGESTION_TYPES]);
+  const [adopting, setAdopting] = useState(false);
+
+  // Reset the engine config form when the active workspace changes
+  const activeId = active?._id;
+  useEffect(() => {
+    if (!active) return;
+    setThresholds(toThresholdDraft(active.engineConfig));
+    setEnabledTypes(active.engineConfig?.enabledTypes ?? [...SUGGESTION_TYPES]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeId]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : failure,
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = workspaceName.trim();
+    if (!name) return;
+    await run(async () => {
+      await create({ name });
+      setWorkspaceName('');
+    }, 'Failed to create workspace');
+  };
+
+  const handleRename = (workspaceId: Id<'workspaces'>, current: string, next: string) => {
+    const name = next.trim();
+    if (!name || name === current) return;
+    void run(() => rename({ workspaceId, name }), 'Failed to rename workspace');
+  };
+
+  const draft = fromDraft(thresholds, enabledTypes);
+  const draftErrors = validateWorkspaceEngineConfig(draft);
+
+  const handleSaveConfig = async () => {
+    if (await run(() => setEngineConfig({ engineConfig: draft }), 'Failed to save engine settings')) {
+      toast({ title: 'Engine settings saved', description: 'They apply to the next suggestion run.' });
+    }
+  };
+
+  const handleAdopt = async () => {
+    setAdopting(true);
+    let total = 0;
+    await run(async () => {
+      for (;;) {
+        const { adopted, done } = await adoptUnassigned();
+        total += adopted;
+        if (done) break;
+      }
+    }, 'Failed to move records');
+    setAdopting(false);
+    toast({
+      title: total > 0 ? `Moved ${total} record${total === 1 ? '' : 's'}` : 'Nothing to move',
+      description: `Records from before workspaces now belong to ${active?.name ?? 'this workspace'}.`,
+    });
+  };
+
+  if (workspaces === undefined || active === undefined || users === undefined) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const userName = (userId: Id<'users'>) => {
+    const user = users.find((u) => u._id === userId);
+    return user?.name ?? user?.email ?? userId;
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Workspaces</CardTitle>
+          <CardDescription>
+            Notes, suggestions and initiatives belong to one workspace and are only visible to its members. Roles
+            apply in every workspace.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {workspaces.map((workspace) => {
+            const nonMembers = users.filter((user) => !workspace.memberUserIds.includes(user._id));
+            return (
+              <div key={workspace._id} className="space-y-2 border-b pb-4 last:border-b-0 last:pb-0">
+                <div className="flex items-center gap-2">
+                  <Input
+                    defaultValue={workspace.name}
+                    onBlur={(e) => handleRename(workspace._id, workspace.name, e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className="h-8 max-w-[240px]"
+                    aria-label="Workspace name"
+                  />
+                  {workspace._id === active?._id && <Badge variant="secondary">Active</Badge>}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {workspace.memberUserIds.map((userId) => (
+                    <Badge key={userId} variant="outline" className="gap-1">
+                      {userName(userId)}
+                      <button
+                        onClick={() =>
+                          void run(
+                            () => removeMember({ workspaceId: workspace._id, userId }),
+                            'Failed to remove member'
+                          )
+                        }
+                        aria-label={`Remove ${userName(userId)}`}
+                        className="hover:text-destructive"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                  {nonMembers.length > 0 && (
+                    <Select
+                      value=""
+                      onValueChange={(value) =>
+                        void run(
+                          () => addMember({ workspaceId: workspace._id, userId: value as Id<'users'> }),
+                          'Failed to add member'
+                        )
+                      }
+                    >
+                      <SelectTrigger className="w-[160px] h-7 text-xs">
+                        <SelectValue placeholder="Add member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {nonMembers.map((user) => (
+                          <SelectItem key={user._id} value={user._id}>{user.name ?? user.email ?? user._id}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex items-center gap-2">
+            <Input
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && void handleCreate()}
+              placeholder="Workspace name"
+              className="h-8"
+            />
+            <Button size="sm" onClick={() => void handleCreate()} disabled={!workspaceName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add workspace
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {active && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Engine settings for {active.name}</CardTitle>
+            <CardDescription>
+              Overrides for suggestion runs in this workspace. Leave a threshold blank to use the default.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {THRESHOLD_KEYS.map((key) => {
+                const bounds = EDITABLE_THRESHOLDS[key];
+                return (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`threshold-${key}`} className="text-xs">
+                      {bounds.label} <span className="text-muted-foreground">({key})</span>
+                    </Label>
+                    <Input
+                      id={`threshold-${key}`}
+                      type="number"
+                      min={bounds.min}
+                      max={bounds.max}
+                      step={bounds.step}
+                      value={thresholds[key]}
+                      onChange={(e) => setThresholds({ ...thresholds, [key]: e.target.value })}
+                      placeholder="Default"
+                      className="h-8"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs">Suggestion types</Label>
+              <div className="flex flex-wrap gap-4">
+                {SUGGESTION_TYPES.map((type) => (
+                  <label key={type} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={enabledTypes.includes(type)}
+                      onCheckedChange={(checked) =>
+                        setEnabledTypes(
+                          checked
+                            ? SUGGESTION_TYPES.filter((t) => t === type || enabledTypes.includes(t))
+                            : enabledTypes.filter((t) => t !== type)
+                        )
+                      }
+                    />
+                    {SUGGESTION_TYPE_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {draftErrors.length > 0 && (
+              <ul className="text-sm text-destructive list-disc pl-5">
+                {draftErrors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+            <Button size="sm" onClick={() => void handleSaveConfig()} disabled={draftErrors.length > 0}>
+              Save engine settings
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {active && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Records from before workspaces</CardTitle>
+            <CardDescription>
+              Notes, suggestions and initiatives created before workspaces existed are hidden until they are moved
+              into a workspace.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button size="sm" variant="outline" onClick={() => void handleAdopt()} disabled={adopting}>
+              {adopting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Move into {active.name}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
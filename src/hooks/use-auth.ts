@@ -0,0 +1,20 @@
+import { createContext, useContext } from "react";
+
+interface AuthContextValue {
+  isLoading: boolean;
+  isAuthenticated: boolean;
+  error: string | null;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+  /** ID token for Convex (ConvexProviderWithAuth calls this) */
+  fetchAccessToken: (args: { forceRefreshToken: boolean }) => Promise<string | null>;
+}
+
+/** Provided by AuthProvider (src/components/layout/AuthProvider.tsx) */
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used within AuthProvider");
+  return ctx;
+}
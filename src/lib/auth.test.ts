@@ -0,0 +1,64 @@
+/**
+ * Tests for auth
+ *
+ * Tests:
+ *   1. parseTokenResponse / readJwtExpiry: ID token expiry wins
+ *   2. isSessionFresh: refresh before expiry
+ *   3. buildAuthorizeUrl: PKCE parameters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TOKEN_EXPIRY_SKEW_MS, buildAuthorizeUrl, isSessionFresh, parseTokenResponse, readJwtExpiry } from './auth';
+
+function makeJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/=+$/, '');
+  return `${encode({ alg: 'RS256' })}.${encode(claims)}.signature`;
+}
+
+describe('parseTokenResponse', () => {
+  it('uses the ID token exp claim', () => {
+    const idToken = makeJwt({ sub: 'u1', exp: 2_000 });
+    const session = parseTokenResponse({ id_token: idToken, expires_in: 10 }, 0);
+    expect(session.expiresAt).toBe(2_000_000);
+    expect(readJwtExpiry(idToken)).toBe(2_000_000);
+  });
+
+  it('falls back to expires_in and keeps the previous refresh token', () => {
+    const previous = { idToken: 'old', refreshToken: 'r1', expiresAt: 0 };
+    const session = parseTokenResponse({ id_token: 'not-a-jwt', expires_in: 60 }, 1_000, previous);
+    expect(session.expiresAt).toBe(61_000);
+    expect(session.refreshToken).toBe('r1');
+  });
+
+  it('rejects responses without an ID token', () => {
+    expect(() => parseTokenResponse({ expires_in: 60 }, 0)).toThrow('id_token');
+  });
+});
+
+describe('isSessionFresh', () => {
+  it('treats tokens inside the expiry skew as stale', () => {
+    const session = { idToken: 't', expiresAt: 100_000 };
+    expect(isSessionFresh(session, 100_000 - TOKEN_EXPIRY_SKEW_MS - 1)).toBe(true);
+    expect(isSessionFresh(session, 100_000 - TOKEN_EXPIRY_SKEW_MS)).toBe(false);
+    expect(isSessionFresh(null, 0)).toBe(false);
+  });
+});
+
+describe('buildAuthorizeUrl', () => {
+  it('requests a code with an S256 challenge', () => {
+    const url = new URL(
+      buildAuthorizeUrl('https://id.example.com/authorize?tenant=a', {
+        clientId: 'shipit',
+        redirectUri: 'https://app.example.com/auth/callback',
+        state: 's1',
+        challenge: 'c1',
+      })
+    );
+    expect(url.origin + url.pathname).toBe('https://id.example.com/authorize');
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('client_id')).toBe('shipit');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('state')).toBe('s1');
+    expect(url.searchParams.get('scope')).toContain('openid');
+  });
+});
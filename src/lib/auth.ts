@@ -0,0 +1,246 @@
+/**
+ * Auth
+ *
+ * OpenID Connect sign-in (authorization code + PKCE) for the browser. The
+ * ID token is what Convex checks against convex/auth.config.ts, so the
+ * client ID here must match AUTH_APPLICATION_ID there.
+ *
+ * Configure with VITE_AUTH_ISSUER_URL and VITE_AUTH_CLIENT_ID. The
+ * provider redirects back to AUTH_CALLBACK_PATH, handled by AuthProvider
+ * (src/components/layout/AuthProvider.tsx).
+ */
+
+// ============================================
+// Configuration
+// ============================================
+
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+/** Refresh (or sign in again) this long before the ID token expires */
+export const TOKEN_EXPIRY_SKEW_MS = 60 * 1000;
+
+const SESSION_STORAGE_KEY = 'auth.session';
+const PENDING_STORAGE_KEY = 'auth.pending';
+
+export interface AuthConfig {
+  issuerUrl: string;
+  clientId: string;
+}
+
+export function getAuthConfig(): AuthConfig {
+  const issuerUrl = import.meta.env.VITE_AUTH_ISSUER_URL;
+  const clientId = import.meta.env.VITE_AUTH_CLIENT_ID;
+  if (!issuerUrl || !clientId) {
+    throw new Error(
+      'Missing VITE_AUTH_ISSUER_URL or VITE_AUTH_CLIENT_ID environment variable. Set them in .env.local.'
+    );
+  }
+  return { issuerUrl: issuerUrl.replace(/\/+$/, ''), clientId };
+}
+
+// ============================================
+// Sessions
+// ============================================
+
+export interface AuthSession {
+  idToken: string;
+  refreshToken?: string;
+  /** Epoch ms */
+  expiresAt: number;
+}
+
+interface TokenResponse {
+  id_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+/**
+ * Session from a token endpoint response. The ID token's own `exp` wins
+ * over expires_in (which describes the access token).
+ */
+export function parseTokenResponse(response: TokenResponse, now: number, previous?: AuthSession): AuthSession {
+  if (!response.id_token) throw new Error('Token response has no id_token');
+  const exp = readJwtExpiry(response.id_token);
+  return {
+    idToken: response.id_token,
+    refreshToken: response.refresh_token ?? previous?.refreshToken,
+    expiresAt: exp ?? now + (response.expires_in ?? 3600) * 1000,
+  };
+}
+
+/** The `exp` claim of a JWT in epoch ms, or null when it has none */
+export function readJwtExpiry(jwt: string): number | null {
+  const payload = jwt.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isSessionFresh(session: AuthSession | null, now: number): session is AuthSession {
+  return session !== null && session.expiresAt - TOKEN_EXPIRY_SKEW_MS > now;
+}
+
+export function loadSession(): AuthSession | null {
+  const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as AuthSession;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: AuthSession | null): void {
+  if (session) localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+// ============================================
+// Provider Endpoints
+// ============================================
+
+interface ProviderMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+let metadataPromise: Promise<ProviderMetadata> | null = null;
+
+function discover(config: AuthConfig): Promise<ProviderMetadata> {
+  metadataPromise ??= fetch(`${config.issuerUrl}/.well-known/openid-configuration`).then((res) => {
+    if (!res.ok) throw new Error(`OIDC discovery failed (${res.status})`);
+    return res.json() as Promise<ProviderMetadata>;
+  });
+  return metadataPromise;
+}
+
+async function requestTokens(config: AuthConfig, params: Record<string, string>): Promise<TokenResponse> {
+  const { token_endpoint } = await discover(config);
+  const res = await fetch(token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ client_id: config.clientId, ...params }),
+  });
+  if (!res.ok) throw new Error(`Token request failed (${res.status})`);
+  return res.json();
+}
+
+// ============================================
+// Authorization Code + PKCE
+// ============================================
+
+interface PendingSignIn {
+  state: string;
+  verifier: string;
+  returnTo: string;
+}
+
+function randomString(bytes = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+export function callbackUrl(origin: string): string {
+  return `${origin}${AUTH_CALLBACK_PATH}`;
+}
+
+export function buildAuthorizeUrl(
+  authorizationEndpoint: string,
+  params: { clientId: string; redirectUri: string; state: string; challenge: string }
+): string {
+  const url = new URL(authorizationEndpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: params.clientId,
+    redirect_uri: params.redirectUri,
+    scope: 'openid profile email offline_access',
+    state: params.state,
+    code_challenge: params.challenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+}
+
+/** Redirect to the provider; returns to `returnTo` after the callback */
+export async function startSignIn(config: AuthConfig, returnTo: string): Promise<void> {
+  const { authorization_endpoint } = await discover(config);
+  const pending: PendingSignIn = { state: randomString(16), verifier: randomString(), returnTo };
+  sessionStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+  window.location.assign(
+    buildAuthorizeUrl(authorization_endpoint, {
+      clientId: config.clientId,
+      redirectUri: callbackUrl(window.location.origin),
+      state: pending.state,
+      challenge: await codeChallenge(pending.verifier),
+    })
+  );
+}
+
+/**
+ * Exchange the callback's code for a session. Returns the path to go back
+ * to; throws when the state does not match the sign-in that was started.
+ */
+export async function completeSignIn(
+  config: AuthConfig,
+  callback: URLSearchParams
+): Promise<{ session: AuthSession; returnTo: string }> {
+  const raw = sessionStorage.getItem(PENDING_STORAGE_KEY);
+  sessionStorage.removeItem(PENDING_STORAGE_KEY);
+  const pending = raw ? (JSON.parse(raw) as PendingSignIn) : null;
+
+  const error = callback.get('error');
+  if (error) throw new Error(callback.get('error_description') ?? error);
+  const code = callback.get('code');
+  if (!pending || !code || callback.get('state') !== pending.state) {
+    throw new Error('Sign-in response does not match a pending sign-in');
+  }
+
+  const response = await requestTokens(config, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: callbackUrl(window.location.origin),
+    code_verifier: pending.verifier,
+  });
+  return { session: parseTokenResponse(response, Date.now()), returnTo: pending.returnTo };
+}
+
+/** New session from the refresh token, or null when it cannot be refreshed */
+export async function refreshSession(config: AuthConfig, session: AuthSession): Promise<AuthSession | null> {
+  if (!session.refreshToken) return null;
+  try {
+    const response = await requestTokens(config, {
+      grant_type: 'refresh_token',
+      refresh_token: session.refreshToken,
+    });
+    return parseTokenResponse(response, Date.now(), session);
+  } catch {
+    return null;
+  }
+}
+
+/** Provider logout URL when the provider has one */
+export async function signOutUrl(config: AuthConfig, session: AuthSession | null): Promise<string | null> {
+  const { end_session_endpoint } = await discover(config);
+  if (!end_session_endpoint) return null;
+  const url = new URL(end_session_endpoint);
+  url.search = new URLSearchParams({
+    client_id: config.clientId,
+    post_logout_redirect_uri: window.location.origin,
+    ...(session ? { id_token_hint: session.idToken } : {}),
+  }).toString();
+  return url.toString();
+}
@@ -0,0 +1,124 @@
+/**
+ * Tests for belief history
+ *
+ * Tests:
+ *   1. beliefChainKey: normalization and initiative scoping
+ *   2. toStoredEvidence: line mapping past leading blank lines
+ *   3. linkBeliefChain: ordering, supersession links, external resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { beliefChainKey, toStoredEvidence, linkBeliefChain, effectiveBeforeState } from './history';
+import type { BeliefChainMember } from './history';
+import type { BeliefEvidenceSpan } from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeMember(overrides: Partial<BeliefChainMember> = {}): BeliefChainMember {
+  return {
+    id: 'b1',
+    noteId: 'note-1',
+    notedAt: Date.UTC(2026, 2, 2),
+    position: 0,
+    sourceType: 'explicit',
+    beforeState: 'Launch in Q1',
+    afterState: 'Launch in Q2',
+    ...overrides,
+  };
+}
+
+function makeSpan(overrides: Partial<BeliefEvidenceSpan> = {}): BeliefEvidenceSpan {
+  return {
+    id: 'span-1',
+    meeting_id: 'note-1',
+    section_id: 'section-1',
+    utterance_id: 'utt-1',
+    start_char: 0,
+    end_char: 0,
+    role: 'after',
+    ...overrides,
+  };
+}
+
+// ============================================
+// Chain keys
+// ============================================
+
+describe('beliefChainKey', () => {
+  it('ignores case and spacing in the subject handle', () => {
+    expect(beliefChainKey({ initiativeId: 'i1', dimension: 'timeline', subjectHandle: 'Billing  Revamp ' }))
+      .toBe(beliefChainKey({ initiativeId: 'i1', dimension: 'timeline', subjectHandle: 'billing revamp' }));
+  });
+
+  it('keeps initiatives and dimensions apart', () => {
+    const key = beliefChainKey({ initiativeId: 'i1', dimension: 'timeline', subjectHandle: 'billing' });
+    expect(beliefChainKey({ initiativeId: 'i2', dimension: 'timeline', subjectHandle: 'billing' })).not.toBe(key);
+    expect(beliefChainKey({ initiativeId: 'i1', dimension: 'ownership', subjectHandle: 'billing' })).not.toBe(key);
+    expect(beliefChainKey({ dimension: 'timeline', subjectHandle: 'billing' })).toBe('unrouted::timeline::billing');
+  });
+});
+
+// ============================================
+// Evidence
+// ============================================
+
+describe('toStoredEvidence', () => {
+  it('maps normalized offsets to body lines and text', () => {
+    const body = '\n\n# Sync\r\n\r\nBilling moves to Q2.\r\nSarah owns it.  \r\n';
+    // Normalized: "# Sync\n\nBilling moves to Q2.\nSarah owns it."
+    const start = '# Sync\n\n'.length;
+    const evidence = toStoredEvidence({
+      evidence_spans: [
+        makeSpan({ start_char: start + 'Billing moves to Q2.\n'.length, end_char: start + 'Billing moves to Q2.\nSarah owns it.'.length, role: 'supporting' }),
+        makeSpan({ start_char: start, end_char: start + 'Billing moves to Q2.'.length }),
+      ],
+    }, body);
+
+    expect(evidence).toEqual([
+      { role: 'after', startChar: start, endChar: start + 20, startLine: 4, endLine: 4, text: 'Billing moves to Q2.' },
+      { role: 'supporting', startChar: start + 21, endChar: start + 35, startLine: 5, endLine: 5, text: 'Sarah owns it.' },
+    ]);
+  });
+});
+
+// ============================================
+// Supersession
+// ============================================
+
+describe('linkBeliefChain', () => {
+  it('links members by note date, then position in the note', () => {
+    const links = linkBeliefChain([
+      makeMember({ id: 'late', notedAt: Date.UTC(2026, 2, 2) + 7 * DAY }),
+      makeMember({ id: 'second', position: 40 }),
+      makeMember({ id: 'first', position: 10 }),
+    ]);
+
+    expect(links.map((l) => [l.id, l.supersedesId, l.supersededById])).toEqual([
+      ['first', undefined, 'second'],
+      ['second', 'first', 'late'],
+      ['late', 'second', undefined],
+    ]);
+  });
+
+  it('resolves external beliefs from the previous after state', () => {
+    const links = linkBeliefChain([
+      makeMember({ id: 'b1', afterState: 'Launch in Q2' }),
+      makeMember({
+        id: 'b2',
+        notedAt: Date.UTC(2026, 2, 9),
+        sourceType: 'external',
+        beforeState: 'Previous plan for billing (unspecified in this meeting)',
+        afterState: 'Launch in Q3',
+      }),
+    ]);
+
+    expect(links[1].resolvedBeforeState).toBe('Launch in Q2');
+    expect(effectiveBeforeState({ beforeState: 'placeholder', ...links[1] })).toBe('Launch in Q2');
+    expect(links[0].resolvedBeforeState).toBeUndefined();
+  });
+
+  it('leaves a lone external belief unresolved', () => {
+    const [link] = linkBeliefChain([makeMember({ sourceType: 'external' })]);
+    expect(link).toEqual({ id: 'b1' });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Belief History
+ *
+ * Pure helpers for persisting pipeline beliefs (convex/beliefs.ts):
+ * evidence spans mapped back to note lines, and supersession chains.
+ *
+ * A chain is every stored belief about the same subject_handle and dimension
+ * on the same initiative, ordered by when its note was taken. Each belief
+ * supersedes the one before it; the last one is the current belief. A belief
+ * with source_type "external" has no before state in its own note, so it is
+ * resolved from the after state of the belief it supersedes.
+ */
+
+import type { Belief, BeliefDimension, EvidenceSpanRole } from './types';
+import { normalizeLineEndings, normalizeSubjectHandle } from './utils';
+import { normalizeMeetingNote } from './normalization';
+
+// ============================================
+// Types
+// ============================================
+
+/** An evidence span as stored: offsets into the normalized note, lines into the note body */
+export interface StoredBeliefEvidence {
+  role: EvidenceSpanRole;
+  startChar: number;
+  endChar: number;
+  /** 0-based, inclusive */
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface BeliefChainMember {
+  id: string;
+  noteId: string;
+  /** Note's meetingAt ?? capturedAt */
+  notedAt: number;
+  /** Offset of the first evidence span; orders beliefs from the same note */
+  position: number;
+  sourceType: Belief['source_type'];
+  beforeState: string;
+  afterState: string;
+}
+
+export interface BeliefChainLink {
+  id: string;
+  supersedesId?: string;
+  supersededById?: string;
+  /** Set for external beliefs with a predecessor */
+  resolvedBeforeState?: string;
+}
+
+// ============================================
+// Chain Keys
+// ============================================
+
+/**
+ * Beliefs on the same key form one chain. Unrouted beliefs chain among
+ * themselves; handles are compared case- and whitespace-insensitively.
+ */
+export function beliefChainKey(input: {
+  initiativeId?: string;
+  dimension: BeliefDimension;
+  subjectHandle: string;
+}): string {
+  return `${input.initiativeId ?? 'unrouted'}::${input.dimension}::${normalizeSubjectHandle(input.subjectHandle)}`;
+}
+
+/** Text a belief is routed to an initiative by */
+export function beliefRoutingText(belief: Pick<Belief, 'subject_handle' | 'summary' | 'after_state'>): string {
+  return [belief.subject_handle, belief.after_state, belief.summary].join('\n');
+}
+
+// ============================================
+// Evidence
+// ============================================
+
+/**
+ * Map a belief's evidence spans to note lines and text. Span offsets point
+ * into the normalized markdown, which drops leading blank lines of the body.
+ */
+export function toStoredEvidence(belief: Pick<Belief, 'evidence_spans'>, rawMarkdown: string): StoredBeliefEvidence[] {
+  const normalized = normalizeMeetingNote({ id: '', occurred_at: '', raw_markdown: rawMarkdown }).raw_markdown;
+  const bodyLines = normalizeLineEndings(rawMarkdown).split('\n');
+  let leadingBlankLines = 0;
+  while (leadingBlankLines < bodyLines.length && bodyLines[leadingBlankLines].trim() === '') {
+    leadingBlankLines++;
+  }
+
+  const lineAt = (offset: number) => leadingBlankLines + normalized.slice(0, offset).split('\n').length - 1;
+
+  return belief.evidence_spans
+    .map((span) => ({
+      role: span.role,
+      startChar: span.start_char,
+      endChar: span.end_char,
+      startLine: lineAt(span.start_char),
+      endLine: lineAt(Math.max(span.start_char, span.end_char - 1)),
+      text: normalized.slice(span.start_char, span.end_char),
+    }))
+    .sort((a, b) => a.startChar - b.startChar);
+}
+
+// ============================================
+// Supersession
+// ============================================
+
+/** Chain order: note date, then position in the note */
+export function orderBeliefChain<T extends BeliefChainMember>(members: T[]): T[] {
+  return [...members].sort(
+    (a, b) => a.notedAt - b.notedAt || a.position - b.position || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Link one chain's members: each supersedes its predecessor. Returned in
+ * chain order.
+ */
+export function linkBeliefChain(members: BeliefChainMember[]): BeliefChainLink[] {
+  const ordered = orderBeliefChain(members);
+  return ordered.map((member, i) => {
+    const previous = ordered[i - 1];
+    const next = ordered[i + 1];
+    return {
+      id: member.id,
+      ...(previous ? { supersedesId: previous.id } : {}),
+      ...(next ? { supersededById: next.id } : {}),
+      ...(previous && member.sourceType === 'external' ? { resolvedBeforeState: previous.afterState } : {}),
+    };
+  });
+}
+
+/** What was believed before this one: resolved state for external beliefs */
+export function effectiveBeforeState(member: Pick<BeliefChainMember, 'beforeState'> & { resolvedBeforeState?: string }): string {
+  return member.resolvedBeforeState ?? member.beforeState;
+}
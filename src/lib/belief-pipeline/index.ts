@@ -53,3 +53,14 @@ export {
   max,
   groupBy,
 } from './utils';
+
+// Persistence and supersession chains (convex/beliefs.ts)
+export {
+  beliefChainKey,
+  beliefRoutingText,
+  toStoredEvidence,
+  orderBeliefChain,
+  linkBeliefChain,
+  effectiveBeforeState,
+} from './history';
+export type { StoredBeliefEvidence, BeliefChainMember, BeliefChainLink } from './history';
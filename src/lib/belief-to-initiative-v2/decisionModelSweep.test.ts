@@ -0,0 +1,75 @@
+/**
+ * Decision Model Sweep Tests
+ *
+ * DecisionModelConfigV2 thresholds tuned against labeled beliefs, with
+ * mutate_release_date as the positive class.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateDecisionModel, sweepDecisionModel } from './decisionModelSweep';
+import type { DecisionModelGoldenCase } from './decisionModelSweep';
+import { DEFAULT_DECISION_MODEL_CONFIG_V2 } from './types';
+import type { BeliefWithRouting } from './types';
+
+function dateBelief(id: string, confidence: number): BeliefWithRouting {
+  return {
+    id,
+    meeting_id: 'meeting_1',
+    summary: 'Checkout launch slips to April',
+    confidence_score: confidence,
+    impact_level: 'high',
+    dimension: 'timeline',
+    polarity: 'neutral',
+    subject_initiative_id: 'init_1',
+    timeline_signal: {
+      refers_to_date: true,
+      current_release_date: '2026-03-01',
+      mentioned_date: '2026-04-01',
+      suggested_delta_days: 31,
+      likelihood_meeting_current_date: 0.2,
+    },
+    evidence_spans: [{
+      id: `${id}_span`,
+      meeting_id: 'meeting_1',
+      section_id: 'section_1',
+      utterance_id: 'utt_1',
+      start_char: 0,
+      end_char: 20,
+      role: 'supporting',
+    }],
+  } as BeliefWithRouting;
+}
+
+const CASES: DecisionModelGoldenCase[] = [
+  { id: 'clear-slip', belief: dateBelief('b1', 0.9), expected_action: 'mutate_release_date' },
+  { id: 'probable-slip', belief: dateBelief('b2', 0.65), expected_action: 'mutate_release_date' },
+  { id: 'speculative-slip', belief: dateBelief('b3', 0.55), expected_action: 'comment' },
+  {
+    id: 'scope-cut',
+    belief: { ...dateBelief('b4', 0.95), dimension: 'scope', summary: 'Cut SSO from scope', timeline_signal: undefined } as BeliefWithRouting,
+    expected_action: 'comment',
+  },
+];
+
+describe('evaluateDecisionModel', () => {
+  it('counts proposed date changes against labels', () => {
+    expect(evaluateDecisionModel(CASES, DEFAULT_DECISION_MODEL_CONFIG_V2)).toMatchObject({
+      true_positives: 1,
+      false_positives: 0,
+      false_negatives: 1,
+      precision: 1,
+      recall: 0.5,
+    });
+  });
+});
+
+describe('sweepDecisionModel', () => {
+  it('finds the mutation confidence threshold that separates the labels', () => {
+    const result = sweepDecisionModel(CASES);
+
+    expect(result.best.metrics.f1).toBe(1);
+    expect(result.patch.target).toBe('DEFAULT_DECISION_MODEL_CONFIG_V2');
+    expect(result.patch.changes).toEqual([{ name: 'T_MIN_CONF_FOR_MUTATION', from: 0.7, to: 0.6 }]);
+    expect(result.frontier.map((t) => t.metrics.recall)).toEqual([1]);
+  });
+});
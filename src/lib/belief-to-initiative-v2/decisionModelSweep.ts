@@ -0,0 +1,79 @@
+/**
+ * Decision Model Sweep for V2
+ *
+ * Tunes the DecisionModelConfigV2 thresholds against labeled beliefs, using
+ * the same grid/random search, Pareto frontier and config patch as the
+ * suggestion engine's threshold sweep.
+ *
+ * V2 thresholds never hide a suggestion; they decide how it is surfaced.
+ * The sweep scores the decision that matters most: mutate_release_date is
+ * the positive class, so precision is "proposed date changes the reviewer
+ * agreed with" and recall is "labeled date changes we proposed".
+ */
+
+import type { BeliefWithRouting, DecisionModelConfigV2, SuggestionAction } from './types';
+import { DEFAULT_DECISION_MODEL_CONFIG_V2 } from './types';
+import { classifyBelief } from './beliefClassifier';
+import { decideForBelief } from './decisionModel';
+import { precisionRecall } from '../suggestion-engine-v2/goldenCorpus';
+import type { PrecisionRecall } from '../suggestion-engine-v2/goldenCorpus';
+import { sweepParameters } from '../suggestion-engine-v2/thresholdSweep';
+import type { SweepOptions, SweepResult, SweepSpace } from '../suggestion-engine-v2/thresholdSweep';
+
+/**
+ * A belief plus the action a reviewer expects for it
+ */
+export interface DecisionModelGoldenCase {
+  id: string;
+  belief: BeliefWithRouting;
+  expected_action: SuggestionAction;
+}
+
+/**
+ * Default search space around DEFAULT_DECISION_MODEL_CONFIG_V2 (25 grid
+ * combinations). Only the thresholds that pick the action are swept.
+ */
+export const DEFAULT_DECISION_MODEL_SWEEP_SPACE: SweepSpace<DecisionModelConfigV2> = {
+  T_MIN_CONF_FOR_MUTATION: [0.5, 0.6, 0.7, 0.8, 0.9],
+  T_MIN_ACT_FOR_MUTATION: [0.4, 0.5, 0.6, 0.7, 0.8],
+};
+
+/**
+ * Score a decision model config: mutate_release_date vs everything else
+ */
+export function evaluateDecisionModel(
+  cases: DecisionModelGoldenCase[],
+  config: DecisionModelConfigV2
+): PrecisionRecall {
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+
+  for (const goldenCase of cases) {
+    const decision = decideForBelief(goldenCase.belief, classifyBelief(goldenCase.belief), config);
+    const proposed = decision.should_emit_suggestion && decision.action === 'mutate_release_date';
+    const expected = goldenCase.expected_action === 'mutate_release_date';
+    if (proposed && expected) tp++;
+    else if (proposed) fp++;
+    else if (expected) fn++;
+  }
+
+  return precisionRecall(tp, fp, fn);
+}
+
+/**
+ * Sweep decision model thresholds against labeled beliefs
+ */
+export function sweepDecisionModel(
+  cases: DecisionModelGoldenCase[],
+  space: SweepSpace<DecisionModelConfigV2> = DEFAULT_DECISION_MODEL_SWEEP_SPACE,
+  options: SweepOptions & { base?: DecisionModelConfigV2 } = {}
+): SweepResult<DecisionModelConfigV2> {
+  return sweepParameters(
+    'DEFAULT_DECISION_MODEL_CONFIG_V2',
+    options.base ?? DEFAULT_DECISION_MODEL_CONFIG_V2,
+    space,
+    (config) => evaluateDecisionModel(cases, config),
+    options
+  );
+}
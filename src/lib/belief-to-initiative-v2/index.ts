@@ -18,3 +18,9 @@ export * from './suggestionBuilderV2';
 
 // Pipeline orchestrator
 export * from './pipelineV2';
+
+// Learned config (feedback loop)
+export * from './learnedConfig';
+
+// Decision model threshold sweep
+export * from './decisionModelSweep';
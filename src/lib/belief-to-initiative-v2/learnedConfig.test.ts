@@ -0,0 +1,203 @@
+/**
+ * Tests for the learned config feedback loop
+ *
+ * Tests:
+ *   1. Feedback store: store, filtered retrieval, swappable backend
+ *   2. Proposals from stored feedback (thresholds, decision model, patterns)
+ *   3. Pipeline runs with the learned config; explicit config wins
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  proposeLearnedConfig,
+  shiftDecisionModel,
+  BASELINE_LEARNED_CONFIG,
+} from './learnedConfig';
+import type { LearnedConfig } from './learnedConfig';
+import { executeBeliefToSuggestionPipelineV2 } from './pipelineV2';
+import { DEFAULT_DECISION_MODEL_CONFIG_V2 } from './types';
+import type { BeliefWithRouting } from './types';
+import {
+  createInMemoryFeedbackStore,
+  setFeedbackStore,
+  storeFeedbackEvent,
+  retrieveFeedbackEvents,
+} from '../belief-to-initiative/feedbackLoop';
+import type { FeedbackEvent } from '../belief-to-initiative/feedbackLoop';
+import { DEFAULT_SUGGESTION_THRESHOLDS } from '../belief-to-initiative/types';
+
+function event(i: number, overrides: Partial<FeedbackEvent> = {}): FeedbackEvent {
+  return {
+    suggestion_id: `s${i}`,
+    action: 'dismissed',
+    dismiss_reason: 'wrong_initiative',
+    timestamp: `2026-10-${String(1 + (i % 28)).padStart(2, '0')}T12:00:00.000Z`,
+    suggestion_action: 'comment',
+    suggestion_status: 'suggested',
+    suggestion_text: `Suggestion ${i}`,
+    ...overrides,
+  };
+}
+
+// 8 wrong-initiative dismissals, 4 acceptances
+const WRONG_INITIATIVE_FEEDBACK: FeedbackEvent[] = [
+  ...Array.from({ length: 8 }, (_, i) => event(i)),
+  ...Array.from({ length: 4 }, (_, i) =>
+    event(8 + i, { action: 'accepted', dismiss_reason: undefined })
+  ),
+];
+
+// ============================================
+// Feedback store
+// ============================================
+
+describe('feedback store', () => {
+  afterEach(() => setFeedbackStore(createInMemoryFeedbackStore()));
+
+  it('retrieves stored events with filters', async () => {
+    setFeedbackStore(createInMemoryFeedbackStore());
+    for (const e of WRONG_INITIATIVE_FEEDBACK) {
+      await storeFeedbackEvent(e);
+    }
+
+    expect(await retrieveFeedbackEvents()).toHaveLength(12);
+    expect(await retrieveFeedbackEvents({ action: 'accepted' })).toHaveLength(4);
+    expect(
+      (await retrieveFeedbackEvents({ start_date: '2026-10-05', end_date: '2026-10-08' })).map(e => e.suggestion_id)
+    ).toEqual(['s4', 's5', 's6']);
+  });
+
+  it('delegates to the configured store', async () => {
+    const stored: FeedbackEvent[] = [];
+    setFeedbackStore({
+      store: async (e) => { stored.push(e); },
+      retrieve: async () => stored,
+    });
+
+    await storeFeedbackEvent(event(1, { action: 'edited', edit_type: 'changed_target' }));
+    expect(await retrieveFeedbackEvents()).toEqual([expect.objectContaining({ edit_type: 'changed_target' })]);
+  });
+});
+
+// ============================================
+// Proposals
+// ============================================
+
+describe('proposeLearnedConfig', () => {
+  it('needs enough feedback to propose', () => {
+    expect(proposeLearnedConfig(WRONG_INITIATIVE_FEEDBACK.slice(0, 5))).toBeNull();
+  });
+
+  it('tightens initiative matching after wrong-initiative dismissals', () => {
+    const proposal = proposeLearnedConfig(WRONG_INITIATIVE_FEEDBACK)!;
+
+    expect(proposal.changed).toBe(true);
+    expect(proposal.event_count).toBe(12);
+    expect(proposal.stats.dismissal_rate).toBeCloseTo(8 / 12);
+    expect(proposal.thresholds.min_initiative_match_score).toBeCloseTo(0.75);
+    expect(proposal.thresholds.min_match_gap).toBeCloseTo(0.25);
+    expect(proposal.adjustments.map(a => a.threshold_name)).toEqual([
+      'min_initiative_match_score',
+      'min_match_gap',
+    ]);
+
+    // Actionability thresholds move with match score; confidence thresholds stay
+    expect(proposal.decision_model).toEqual({
+      ...DEFAULT_DECISION_MODEL_CONFIG_V2,
+      T_MIN_ACT_FOR_MUTATION: 0.65,
+      T_MIN_ACT_FOR_EXECUTION_ELIGIBLE: 0.75,
+    });
+    expect(proposal.validation_errors).toEqual([]);
+  });
+
+  it('builds on the active config rather than the defaults', () => {
+    const active = {
+      thresholds: { ...DEFAULT_SUGGESTION_THRESHOLDS, min_initiative_match_score: 0.75 },
+      decision_model: { ...DEFAULT_DECISION_MODEL_CONFIG_V2, T_MIN_ACT_FOR_MUTATION: 0.65 },
+    };
+    const proposal = proposeLearnedConfig(WRONG_INITIATIVE_FEEDBACK, active)!;
+    expect(proposal.thresholds.min_initiative_match_score).toBeCloseTo(0.8);
+    expect(proposal.decision_model.T_MIN_ACT_FOR_MUTATION).toBeCloseTo(0.7);
+  });
+
+  it('reports no change when nothing clears the confidence bar', () => {
+    const accepted = Array.from({ length: 12 }, (_, i) =>
+      event(i, { action: 'accepted', dismiss_reason: undefined })
+    );
+    const proposal = proposeLearnedConfig(accepted)!;
+    expect(proposal.changed).toBe(false);
+    expect(proposal.decision_model).toEqual(BASELINE_LEARNED_CONFIG.decision_model);
+  });
+
+  it('learns spam patterns from dismissed suggestion text', () => {
+    const spam = Array.from({ length: 12 }, (_, i) =>
+      event(i, { dismiss_reason: 'spam', suggestion_text: 'Weekly standup recap posted' })
+    );
+    const patterns = proposeLearnedConfig(spam)!.patterns.map(p => p.pattern);
+    expect(patterns).toEqual(expect.arrayContaining(['weekly', 'standup', 'recap', 'posted']));
+  });
+
+  it('shifts the decision model by the mapped threshold delta, clamped', () => {
+    const shifted = shiftDecisionModel(
+      { ...DEFAULT_DECISION_MODEL_CONFIG_V2, T_MAX_CONF_FOR_NEEDS_CLARIFICATION_FALSE: 0.98 },
+      DEFAULT_SUGGESTION_THRESHOLDS,
+      { ...DEFAULT_SUGGESTION_THRESHOLDS, min_belief_confidence: 0.65 }
+    );
+    expect(shifted.T_MIN_CONF_FOR_MUTATION).toBe(0.75);
+    expect(shifted.T_MAX_CONF_FOR_NEEDS_CLARIFICATION_FALSE).toBe(1);
+  });
+});
+
+// ============================================
+// Pipeline
+// ============================================
+
+describe('pipeline with a learned config', () => {
+  const belief: BeliefWithRouting = {
+    id: 'belief_release',
+    meeting_id: 'meeting_1',
+    summary: 'Checkout launch slips to April',
+    confidence_score: 0.9,
+    impact_level: 'high',
+    dimension: 'timeline',
+    polarity: 'neutral',
+    subject_initiative_id: 'init_1',
+    timeline_signal: {
+      refers_to_date: true,
+      current_release_date: '2026-03-01',
+      mentioned_date: '2026-04-01',
+      suggested_delta_days: 30,
+      likelihood_meeting_current_date: 0.2,
+    },
+    evidence_spans: [{
+      id: 'span_1',
+      meeting_id: 'meeting_1',
+      section_id: 'section_1',
+      utterance_id: 'utt_1',
+      start_char: 0,
+      end_char: 20,
+      role: 'supporting',
+    }],
+  } as BeliefWithRouting;
+
+  const strict: LearnedConfig = {
+    version: 3,
+    thresholds: DEFAULT_SUGGESTION_THRESHOLDS,
+    decision_model: { ...DEFAULT_DECISION_MODEL_CONFIG_V2, T_MIN_CONF_FOR_MUTATION: 0.95 },
+  };
+
+  it('records the version it ran with', () => {
+    expect(executeBeliefToSuggestionPipelineV2([belief]).debug?.learned_config_version).toBeNull();
+    expect(executeBeliefToSuggestionPipelineV2([belief], {}, strict).debug?.learned_config_version).toBe(3);
+  });
+
+  it('applies learned thresholds under explicit overrides', () => {
+    const defaults = executeBeliefToSuggestionPipelineV2([belief]);
+    const learned = executeBeliefToSuggestionPipelineV2([belief], {}, strict);
+    const overridden = executeBeliefToSuggestionPipelineV2([belief], { T_MIN_CONF_FOR_MUTATION: 0.7 }, strict);
+
+    expect(defaults.suggestions.map(s => s.action)).toEqual(['mutate_release_date']);
+    expect(learned.suggestions.map(s => s.action)).toEqual(['comment']);
+    expect(overridden.suggestions.map(s => s.action)).toEqual(['mutate_release_date']);
+  });
+});
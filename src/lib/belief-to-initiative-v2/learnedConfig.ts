@@ -0,0 +1,166 @@
+/**
+ * Learned Config for V2
+ *
+ * Closes the feedback loop: runs the V1 feedback recommenders over a window
+ * of stored feedback events and proposes a new versioned config. A proposal
+ * only takes effect once approved; the approved (active) config is passed to
+ * executeBeliefToSuggestionPipelineV2 at runtime.
+ *
+ * Recommenders speak in V1 thresholds. The V2 decision model moves by the
+ * same amount the mapped V1 thresholds move, so a proposal with no
+ * adjustments leaves the active decision model unchanged.
+ */
+
+import type { DecisionModelConfigV2 } from './types';
+import { DEFAULT_DECISION_MODEL_CONFIG_V2 } from './types';
+import { mapV1ThresholdsToV2Config, validateV2Config } from './configMapping';
+import type { InitiativeSuggestion, SuggestionThresholds } from '../belief-to-initiative/types';
+import { DEFAULT_SUGGESTION_THRESHOLDS } from '../belief-to-initiative/types';
+import type {
+  FeedbackEvent,
+  FeedbackStats,
+  LearnedPattern,
+  ThresholdAdjustment,
+} from '../belief-to-initiative/feedbackLoop';
+import {
+  computeFeedbackStats,
+  recommendThresholdAdjustments,
+  applyThresholdAdjustments,
+  learnSpamPatterns,
+  learnQualityPatterns,
+} from '../belief-to-initiative/feedbackLoop';
+
+/**
+ * A versioned config the pipeline can run with
+ */
+export interface LearnedConfig {
+  version: number;
+  thresholds: SuggestionThresholds;
+  decision_model: DecisionModelConfigV2;
+}
+
+/**
+ * Output of a recommender run, awaiting approval
+ */
+export interface LearnedConfigProposal {
+  thresholds: SuggestionThresholds;
+  decision_model: DecisionModelConfigV2;
+  adjustments: ThresholdAdjustment[];
+  patterns: LearnedPattern[];
+  stats: FeedbackStats;
+  event_count: number;
+  changed: boolean; // false when no adjustment cleared min_confidence
+  validation_errors: string[];
+}
+
+export interface ProposeLearnedConfigOptions {
+  min_events?: number;      // below this there is not enough signal to propose
+  min_confidence?: number;  // adjustments below this are reported, not applied
+}
+
+export const MIN_FEEDBACK_EVENTS_FOR_PROPOSAL = 10;
+
+/**
+ * The config in effect when nothing has been approved yet
+ */
+export const BASELINE_LEARNED_CONFIG: Omit<LearnedConfig, 'version'> = {
+  thresholds: DEFAULT_SUGGESTION_THRESHOLDS,
+  decision_model: DEFAULT_DECISION_MODEL_CONFIG_V2,
+};
+
+const DECISION_MODEL_THRESHOLD_KEYS = [
+  'T_MIN_CONF_FOR_MUTATION',
+  'T_MIN_ACT_FOR_MUTATION',
+  'T_MIN_CONF_FOR_EXECUTION_ELIGIBLE',
+  'T_MIN_ACT_FOR_EXECUTION_ELIGIBLE',
+  'T_MAX_CONF_FOR_NEEDS_CLARIFICATION_FALSE',
+] as const;
+
+/**
+ * Rebuild the suggestions feedback refers to from the snapshots on the events
+ * (first snapshot per suggestion wins)
+ */
+function suggestionsFromFeedback(events: FeedbackEvent[]): InitiativeSuggestion[] {
+  const byId = new Map<string, InitiativeSuggestion>();
+  for (const event of events) {
+    if (byId.has(event.suggestion_id)) continue;
+    const text = event.suggestion_text ?? '';
+    byId.set(event.suggestion_id, {
+      id: event.suggestion_id,
+      action: event.suggestion_action ?? 'comment',
+      status: event.suggestion_status ?? 'suggested',
+      payload: { body: text },
+      belief_ids: [],
+      evidence_spans: [],
+      created_at: event.timestamp,
+      spam_score: 0,
+      priority_score: 0,
+    });
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Shift the decision model by the change in mapped V1 thresholds
+ */
+export function shiftDecisionModel(
+  current: DecisionModelConfigV2,
+  fromThresholds: SuggestionThresholds,
+  toThresholds: SuggestionThresholds
+): DecisionModelConfigV2 {
+  const from = mapV1ThresholdsToV2Config(fromThresholds);
+  const to = mapV1ThresholdsToV2Config(toThresholds);
+  const shifted = { ...current };
+
+  for (const key of DECISION_MODEL_THRESHOLD_KEYS) {
+    const value = current[key] + (to[key] - from[key]);
+    shifted[key] = Math.round(Math.min(1, Math.max(0, value)) * 1000) / 1000;
+  }
+
+  return shifted;
+}
+
+/**
+ * Run the recommenders over feedback events and propose the next config
+ *
+ * Returns null when there are fewer than min_events events.
+ */
+export function proposeLearnedConfig(
+  events: FeedbackEvent[],
+  current: Omit<LearnedConfig, 'version'> = BASELINE_LEARNED_CONFIG,
+  options: ProposeLearnedConfigOptions = {}
+): LearnedConfigProposal | null {
+  const minEvents = options.min_events ?? MIN_FEEDBACK_EVENTS_FOR_PROPOSAL;
+  const minConfidence = options.min_confidence ?? 0.6;
+
+  if (events.length < minEvents) {
+    return null;
+  }
+
+  const suggestions = suggestionsFromFeedback(events);
+  const stats = computeFeedbackStats(events, suggestions);
+  const adjustments = recommendThresholdAdjustments(stats, current.thresholds);
+  const thresholds = applyThresholdAdjustments(current.thresholds, adjustments, minConfidence);
+
+  const dismissed = events.filter(e => e.action === 'dismissed');
+  const accepted = events.filter(e => e.action === 'accepted');
+  const patterns = [
+    ...learnSpamPatterns(suggestions.filter(s => dismissed.some(e => e.suggestion_id === s.id)), dismissed),
+    ...learnQualityPatterns(suggestions.filter(s => accepted.some(e => e.suggestion_id === s.id)), accepted),
+  ];
+
+  const decision_model = shiftDecisionModel(current.decision_model, current.thresholds, thresholds);
+  const changed = (Object.keys(thresholds) as (keyof SuggestionThresholds)[])
+    .some(key => thresholds[key] !== current.thresholds[key]);
+
+  return {
+    thresholds,
+    decision_model,
+    adjustments,
+    patterns,
+    stats,
+    event_count: events.length,
+    changed,
+    validation_errors: validateV2Config(decision_model),
+  };
+}
@@ -22,6 +22,7 @@ import { DEFAULT_DECISION_MODEL_CONFIG_V2 } from './types';
 import { classifyBeliefs } from './beliefClassifier';
 import { decideForBeliefs } from './decisionModel';
 import { buildSuggestionsFromDecisions } from './suggestionBuilderV2';
+import type { LearnedConfig } from './learnedConfig';
 
 /**
  * Execute the V2 belief-to-suggestion pipeline
@@ -30,13 +31,17 @@ import { buildSuggestionsFromDecisions } from './suggestionBuilderV2';
  * 1. Any non-pure-status belief produces at least one suggestion
  * 2. Low confidence downgrades suggestions, never hides them
  * 3. All suggestions have non-empty evidence spans
+ *
+ * Config precedence: defaults < approved learned config < explicit config.
  */
 export function executeBeliefToSuggestionPipelineV2(
   beliefs: BeliefWithRouting[],
-  config: Partial<DecisionModelConfigV2> = {}
+  config: Partial<DecisionModelConfigV2> = {},
+  learnedConfig: LearnedConfig | null = null
 ): BeliefToSuggestionResultV2 {
   const fullConfig = {
     ...DEFAULT_DECISION_MODEL_CONFIG_V2,
+    ...learnedConfig?.decision_model,
     ...config,
   };
   
@@ -54,6 +59,7 @@ export function executeBeliefToSuggestionPipelineV2(
     invariant_I1_holds: true,
     invariant_I2_holds: true,
     invariant_I5_holds: true,
+    learned_config_version: learnedConfig?.version ?? null,
   };
   
   // Step 1: Classify beliefs
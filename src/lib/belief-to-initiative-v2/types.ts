@@ -98,5 +98,6 @@ export interface BeliefToSuggestionResultV2 {
     invariant_I1_holds: boolean; // beliefCount > 0 && non_status > 0 => suggestionCount >= 1
     invariant_I2_holds: boolean; // Low confidence never hides suggestions
     invariant_I5_holds: boolean; // All suggestions have evidence spans
+    learned_config_version: number | null; // Approved learned config in effect, if any
   };
 }
@@ -7,6 +7,8 @@
 
 import type {
   InitiativeSuggestion,
+  SuggestionAction,
+  SuggestionStatus,
   SuggestionThresholds,
 } from './types';
 
@@ -26,6 +28,12 @@ export interface FeedbackEvent {
   dismiss_reason?: DismissReason;
   edit_type?: EditType;
   time_to_action_seconds?: number;
+  
+  // Snapshot of the suggestion when the user acted on it, so stored events
+  // can be analysed after the suggestion rows are regenerated
+  suggestion_action?: SuggestionAction;
+  suggestion_status?: SuggestionStatus;
+  suggestion_text?: string;
 }
 
 export type DismissReason =
@@ -292,7 +300,7 @@ export function applyThresholdAdjustments(
   
   for (const adjustment of adjustments) {
     if (adjustment.confidence >= minConfidence) {
-      updated[adjustment.threshold_name] = adjustment.recommended_value as any;
+      (updated as any)[adjustment.threshold_name] = adjustment.recommended_value;
     }
   }
   
@@ -396,27 +404,71 @@ export function learnQualityPatterns(
 // Feedback Storage & Retrieval
 // ============================================
 
+export interface FeedbackEventFilters {
+  start_date?: string;
+  end_date?: string;
+  action?: FeedbackAction;
+  user_id?: string;
+}
+
 /**
- * Store feedback event (to be implemented with actual DB)
+ * Where feedback events are persisted. The app backs this with Convex
+ * (beliefFeedbackEvents); the default keeps events in memory for tests and
+ * local runs.
+ */
+export interface FeedbackStore {
+  store(event: FeedbackEvent): Promise<void>;
+  retrieve(filters?: FeedbackEventFilters): Promise<FeedbackEvent[]>;
+}
+
+/**
+ * Apply retrieval filters to events (ISO timestamps compare lexically)
+ */
+export function filterFeedbackEvents(
+  events: FeedbackEvent[],
+  filters: FeedbackEventFilters = {}
+): FeedbackEvent[] {
+  return events.filter(e =>
+    (!filters.start_date || e.timestamp >= filters.start_date) &&
+    (!filters.end_date || e.timestamp <= filters.end_date) &&
+    (!filters.action || e.action === filters.action) &&
+    (!filters.user_id || e.user_id === filters.user_id)
+  );
+}
+
+export function createInMemoryFeedbackStore(): FeedbackStore {
+  const events: FeedbackEvent[] = [];
+  return {
+    async store(event) {
+      events.push(event);
+    },
+    async retrieve(filters) {
+      return filterFeedbackEvents(events, filters);
+    },
+  };
+}
+
+let activeStore: FeedbackStore = createInMemoryFeedbackStore();
+
+/**
+ * Replace the store used by storeFeedbackEvent / retrieveFeedbackEvents
+ */
+export function setFeedbackStore(store: FeedbackStore): void {
+  activeStore = store;
+}
+
+/**
+ * Store a feedback event
  */
 export async function storeFeedbackEvent(event: FeedbackEvent): Promise<void> {
-  // This would store to a database
-  // For now, it's a placeholder
-  console.log('Storing feedback event:', event);
+  await activeStore.store(event);
 }
 
 /**
- * Retrieve feedback events for analysis (to be implemented with actual DB)
+ * Retrieve feedback events for analysis
  */
 export async function retrieveFeedbackEvents(
-  filters?: {
-    start_date?: string;
-    end_date?: string;
-    action?: FeedbackAction;
-    user_id?: string;
-  }
+  filters?: FeedbackEventFilters
 ): Promise<FeedbackEvent[]> {
-  // This would query a database
-  // For now, return empty array
-  return [];
+  return activeStore.retrieve(filters);
 }
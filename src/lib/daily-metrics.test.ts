@@ -0,0 +1,46 @@
+/**
+ * Tests for daily metrics aggregation
+ *
+ * Tests:
+ *   1. Each event counts once per bucket when dimensions are missing
+ *   2. Per-team apply and dismiss rates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateDailyMetrics } from './daily-metrics';
+import type { DailyMetricsFact, MetricsEvent } from './daily-metrics';
+
+const DATE = '2026-03-02';
+
+function bucket(facts: DailyMetricsFact[], teamId?: string, surface?: string, suggestionFamily?: string) {
+  return facts.find((f) => f.teamId === teamId && f.surface === surface && f.suggestionFamily === suggestionFamily);
+}
+
+describe('aggregateDailyMetrics', () => {
+  it('counts an event once per bucket when team, surface or family is missing', () => {
+    // suggestions.apply / dismiss events carry no suggestionFamily
+    const events: MetricsEvent[] = [
+      { eventType: 'generated', teamId: 'team-a', suggestionFamily: 'project_update' },
+      { eventType: 'generated', teamId: 'team-a', suggestionFamily: 'project_update' },
+      { eventType: 'applied', teamId: 'team-a', uiSurface: 'note_detail_main' },
+      { eventType: 'dismissed', teamId: 'team-a', uiSurface: 'note_detail_main' },
+    ];
+    const facts = aggregateDailyMetrics(DATE, events);
+
+    expect(bucket(facts)).toMatchObject({ suggestionsGenerated: 2, suggestionsApplied: 1, suggestionsDismissed: 1 });
+    expect(bucket(facts, 'team-a')).toMatchObject({
+      suggestionsGenerated: 2,
+      suggestionsApplied: 1,
+      suggestionsDismissed: 1,
+      applyRate: 0.5,
+      dismissRate: 0.5,
+    });
+    expect(bucket(facts, 'team-a', 'note_detail_main')).toMatchObject({ suggestionsApplied: 1, suggestionsDismissed: 1 });
+    expect(bucket(facts, undefined, 'note_detail_main')).toMatchObject({ suggestionsApplied: 1 });
+  });
+
+  it('skips events excluded from metrics', () => {
+    const facts = aggregateDailyMetrics(DATE, [{ eventType: 'generated', excludeFromMetrics: true }]);
+    expect(facts).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Daily Metrics Aggregation
+ *
+ * Rolls one workspace's suggestion events for a day up into metric facts
+ * per team, surface and family combination (convex/dailyMetrics.ts stores
+ * them). Each event counts once per distinct combination: when a dimension
+ * is missing, several combinations collapse into the same bucket.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/** The parts of a suggestionEvents row aggregation reads */
+export interface MetricsEvent {
+  eventType: string;
+  teamId?: string;
+  uiSurface?: string;
+  suggestionFamily?: string;
+  excludeFromMetrics?: boolean;
+}
+
+export type DailyMetricsFact = {
+  dateUtc: string;
+  teamId?: string;
+  surface?: string;
+  suggestionFamily?: string;
+  suggestionsGenerated: number;
+  suggestionsApplied: number;
+  suggestionsDismissed: number;
+  clarificationRequests: number;
+  applyRate?: number;
+  dismissRate?: number;
+  clarificationRate?: number;
+  nhi?: number;
+};
+
+// ============================================
+// Aggregation
+// ============================================
+
+/**
+ * Aggregate one workspace's events for a day into metric facts per
+ * team, surface and family combination
+ */
+export function aggregateDailyMetrics(dateUtc: string, events: MetricsEvent[]): DailyMetricsFact[] {
+  // Group by dimensions and compute metrics
+  const metricsMap = new Map<string, DailyMetricsFact>();
+
+  for (const event of events) {
+    // Skip events marked for exclusion
+    if (event.excludeFromMetrics) {
+      continue;
+    }
+
+    // Compute dimension keys
+    const dimensions = [
+      // Global
+      { teamId: 'global', surface: undefined, suggestionFamily: undefined },
+      // By team
+      { teamId: event.teamId || 'global', surface: undefined, suggestionFamily: undefined },
+      // By surface
+      { teamId: 'global', surface: event.uiSurface, suggestionFamily: undefined },
+      // By family
+      { teamId: 'global', surface: undefined, suggestionFamily: event.suggestionFamily },
+      // By team + surface
+      { teamId: event.teamId || 'global', surface: event.uiSurface, suggestionFamily: undefined },
+      // By team + family
+      { teamId: event.teamId || 'global', surface: undefined, suggestionFamily: event.suggestionFamily },
+      // By surface + family
+      { teamId: 'global', surface: event.uiSurface, suggestionFamily: event.suggestionFamily },
+      // By all dimensions
+      { teamId: event.teamId || 'global', surface: event.uiSurface, suggestionFamily: event.suggestionFamily },
+    ];
+
+    // Missing dimensions make combinations share a key; count each key once
+    const counted = new Set<string>();
+    for (const dim of dimensions) {
+      const key = `${dim.teamId}|${dim.surface || ''}|${dim.suggestionFamily || ''}`;
+      if (counted.has(key)) continue;
+      counted.add(key);
+
+      if (!metricsMap.has(key)) {
+        metricsMap.set(key, {
+          dateUtc,
+          teamId: dim.teamId === 'global' ? undefined : dim.teamId,
+          surface: dim.surface,
+          suggestionFamily: dim.suggestionFamily,
+          suggestionsGenerated: 0,
+          suggestionsApplied: 0,
+          suggestionsDismissed: 0,
+          clarificationRequests: 0,
+        });
+      }
+
+      const metrics = metricsMap.get(key)!;
+
+      // Increment counters based on event type
+      switch (event.eventType) {
+        case 'generated':
+          metrics.suggestionsGenerated++;
+          break;
+        case 'applied':
+          metrics.suggestionsApplied++;
+          break;
+        case 'dismissed':
+          metrics.suggestionsDismissed++;
+          break;
+        case 'clarification_requested':
+          metrics.clarificationRequests++;
+          break;
+      }
+    }
+  }
+
+  const metricsToStore: DailyMetricsFact[] = [];
+
+  for (const metrics of metricsMap.values()) {
+    // Compute rates
+    const applyRate = metrics.suggestionsGenerated > 0
+      ? metrics.suggestionsApplied / metrics.suggestionsGenerated
+      : 0;
+    const dismissRate = metrics.suggestionsGenerated > 0
+      ? metrics.suggestionsDismissed / metrics.suggestionsGenerated
+      : 0;
+    const clarificationRate = metrics.suggestionsGenerated > 0
+      ? metrics.clarificationRequests / metrics.suggestionsGenerated
+      : 0;
+    const nhi = applyRate - dismissRate;
+
+    metricsToStore.push({
+      ...metrics,
+      applyRate,
+      dismissRate,
+      clarificationRate,
+      nhi,
+    });
+  }
+
+  return metricsToStore;
+}
@@ -0,0 +1,111 @@
+/**
+ * Tests for feature flags
+ *
+ * Tests:
+ *   1. validateFlagOverride: unknown keys, value types, rollout percentage
+ *   2. resolveFlag: scope precedence, defaults, sticky percentage rollouts
+ *   3. toEngineFeatureFlags: boolean flags only
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveFlag, resolveFlags, rolloutBucket, toEngineFeatureFlags, validateFlagOverride } from './feature-flags';
+import type { FlagOverride } from './feature-flags';
+
+function makeOverride(overrides: Partial<FlagOverride> = {}): FlagOverride {
+  return {
+    flagKey: 'belief_pipeline',
+    scope: 'global',
+    value: 'v2',
+    ...overrides,
+  };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+describe('validateFlagOverride', () => {
+  it('checks values against the flag definition', () => {
+    expect(validateFlagOverride('belief_pipeline', 'dual_run')).toBeNull();
+    expect(validateFlagOverride('belief_pipeline', 'v3')).toBe('belief_pipeline takes one of: v1, v2, dual_run');
+    expect(validateFlagOverride('llm_rewrite', 'true')).toBe('llm_rewrite takes true or false');
+    expect(validateFlagOverride('missing_flag', true)).toBe('Unknown feature flag: missing_flag');
+  });
+
+  it('accepts whole rollout percentages from 0 to 100', () => {
+    expect(validateFlagOverride('llm_rewrite', false, 0)).toBeNull();
+    expect(validateFlagOverride('llm_rewrite', false, 100)).toBeNull();
+    expect(validateFlagOverride('llm_rewrite', false, 12.5)).not.toBeNull();
+    expect(validateFlagOverride('llm_rewrite', false, 101)).not.toBeNull();
+  });
+});
+
+// ============================================
+// Resolution
+// ============================================
+
+describe('resolveFlag', () => {
+  it('falls back to the default without overrides', () => {
+    expect(resolveFlag('belief_pipeline', [])).toEqual({ value: 'v1', source: 'default' });
+  });
+
+  it('prefers note over team over global overrides', () => {
+    const overrides = [
+      makeOverride({ scope: 'global', value: 'v2' }),
+      makeOverride({ scope: 'team', scopeId: 'team-a', value: 'dual_run' }),
+      makeOverride({ scope: 'note', scopeId: 'note-1', value: 'v1' }),
+    ];
+
+    expect(resolveFlag('belief_pipeline', overrides, { noteId: 'note-1', teamId: 'team-a' }))
+      .toEqual({ value: 'v1', source: 'note' });
+    expect(resolveFlag('belief_pipeline', overrides, { noteId: 'note-2', teamId: 'team-a' }))
+      .toEqual({ value: 'dual_run', source: 'team' });
+    expect(resolveFlag('belief_pipeline', overrides, { noteId: 'note-2', teamId: 'team-b' }))
+      .toEqual({ value: 'v2', source: 'global' });
+  });
+
+  it('applies a percentage rollout to a stable share of notes', () => {
+    const noteIds = Array.from({ length: 400 }, (_, i) => `note-${i}`);
+    const enabledAt = (percent: number) => new Set(
+      noteIds.filter((noteId) =>
+        resolveFlag('belief_pipeline', [makeOverride({ rolloutPercent: percent })], { noteId }).source === 'global'
+      )
+    );
+
+    const at20 = enabledAt(20);
+    const at50 = enabledAt(50);
+    expect(at20.size).toBeGreaterThan(40);
+    expect(at20.size).toBeLessThan(120);
+    // Sticky: growing the rollout keeps every note already in it
+    expect([...at20].every((noteId) => at50.has(noteId))).toBe(true);
+    expect(rolloutBucket('belief_pipeline', 'note-7')).toBe(rolloutBucket('belief_pipeline', 'note-7'));
+  });
+
+  it('skips partial rollouts when there is no note to bucket', () => {
+    expect(resolveFlag('belief_pipeline', [makeOverride({ rolloutPercent: 99 })]).source).toBe('default');
+    expect(resolveFlag('belief_pipeline', [makeOverride({ rolloutPercent: 100 })]).source).toBe('global');
+  });
+
+  it('ignores stored values the definition no longer allows', () => {
+    expect(resolveFlag('belief_pipeline', [makeOverride({ value: 'v0' })])).toEqual({ value: 'v1', source: 'default' });
+  });
+});
+
+// ============================================
+// Engine flags
+// ============================================
+
+describe('toEngineFeatureFlags', () => {
+  it('passes boolean flags only', () => {
+    const flags = toEngineFeatureFlags(resolveFlags([
+      makeOverride({ flagKey: 'llm_rewrite', value: false }),
+    ]));
+
+    expect(flags).toEqual({
+      suggestion_debug: true,
+      suggestion_debug_full_text: false,
+      llm_classifiers: true,
+      llm_rewrite: false,
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Feature Flags
+ *
+ * Typed flag definitions and override resolution for pipeline rollouts.
+ * Overrides are stored in convex (featureFlags.ts) at three scopes; the most
+ * specific one that applies wins: note, then team, then global, then the
+ * flag's default. An override with a rollout percentage only applies to the
+ * notes whose bucket falls under it. Buckets are derived from the flag key
+ * and note ID, so a note keeps its variant as the percentage grows.
+ *
+ * Boolean flags are passed to the suggestion engine as
+ * GeneratorContext.feature_flags on every run.
+ */
+
+// ============================================
+// Definitions
+// ============================================
+
+interface BooleanFlagDefinition {
+  kind: 'boolean';
+  label: string;
+  description: string;
+  defaultValue: boolean;
+}
+
+interface VariantFlagDefinition {
+  kind: 'variant';
+  label: string;
+  description: string;
+  variants: readonly string[];
+  defaultValue: string;
+}
+
+export type FlagDefinition = BooleanFlagDefinition | VariantFlagDefinition;
+
+export const FLAG_DEFINITIONS = {
+  belief_pipeline: {
+    kind: 'variant',
+    label: 'Belief-to-initiative pipeline',
+    description: 'Pipeline used by generateFromBeliefsV2; dual_run runs both and records the diff as a shadow run.',
+    variants: ['v1', 'v2', 'dual_run'],
+    defaultValue: 'v1',
+  },
+  suggestion_debug: {
+    kind: 'boolean',
+    label: 'Suggestion debug runs',
+    description: 'Allow creating and viewing suggestion debug runs.',
+    defaultValue: true,
+  },
+  suggestion_debug_full_text: {
+    kind: 'boolean',
+    label: 'Full-text debug runs',
+    description: 'Allow FULL_TEXT verbosity in debug runs (stores note text).',
+    defaultValue: false,
+  },
+  llm_classifiers: {
+    kind: 'boolean',
+    label: 'LLM intent classification',
+    description: 'Blend LLM section intent scores when an LLM endpoint is configured.',
+    defaultValue: true,
+  },
+  llm_rewrite: {
+    kind: 'boolean',
+    label: 'LLM title rewrite',
+    description: 'Rewrite suggestion titles and bodies when LLM_REWRITE is enabled.',
+    defaultValue: true,
+  },
+} as const satisfies Record<string, FlagDefinition>;
+
+export type FlagKey = keyof typeof FLAG_DEFINITIONS;
+
+export type FlagValue<K extends FlagKey = FlagKey> = (typeof FLAG_DEFINITIONS)[K] extends { kind: 'variant'; variants: readonly (infer V)[] }
+  ? V
+  : boolean;
+
+export const FLAG_KEYS = Object.keys(FLAG_DEFINITIONS) as FlagKey[];
+
+export function isFlagKey(key: string): key is FlagKey {
+  return Object.prototype.hasOwnProperty.call(FLAG_DEFINITIONS, key);
+}
+
+/**
+ * Check a value (and rollout percentage) against the flag's definition.
+ * Returns an error message, or null when valid.
+ */
+export function validateFlagOverride(key: string, value: unknown, rolloutPercent?: number): string | null {
+  if (!isFlagKey(key)) return `Unknown feature flag: ${key}`;
+  const definition: FlagDefinition = FLAG_DEFINITIONS[key];
+  if (definition.kind === 'boolean' && typeof value !== 'boolean') {
+    return `${key} takes true or false`;
+  }
+  if (definition.kind === 'variant' && (typeof value !== 'string' || !definition.variants.includes(value))) {
+    return `${key} takes one of: ${definition.variants.join(', ')}`;
+  }
+  if (rolloutPercent !== undefined && !(Number.isInteger(rolloutPercent) && rolloutPercent >= 0 && rolloutPercent <= 100)) {
+    return 'Rollout percentage must be a whole number from 0 to 100';
+  }
+  return null;
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+export type FlagScope = 'global' | 'team' | 'note';
+
+export interface FlagOverride {
+  flagKey: string;
+  scope: FlagScope;
+  /** Team or note ID; absent for global overrides */
+  scopeId?: string;
+  value: boolean | string;
+  /** Applies to this share of notes (0-100); absent = all */
+  rolloutPercent?: number;
+}
+
+export interface FlagTarget {
+  noteId?: string;
+  teamId?: string;
+}
+
+export interface ResolvedFlag<K extends FlagKey = FlagKey> {
+  value: FlagValue<K>;
+  source: FlagScope | 'default';
+}
+
+export type ResolvedFlags = { [K in FlagKey]: ResolvedFlag<K> };
+
+/** Most specific first */
+const SCOPE_PRECEDENCE: FlagScope[] = ['note', 'team', 'global'];
+
+/**
+ * Sticky rollout bucket in [0, 100) for a note (FNV-1a over flag key and
+ * note ID). Salted by the flag so rollouts of different flags are independent.
+ */
+export function rolloutBucket(flagKey: string, noteId: string): number {
+  let hash = 0x811c9dc5;
+  const input = `${flagKey}:${noteId}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+function overrideApplies(override: FlagOverride, target: FlagTarget): boolean {
+  if (override.scope === 'note' && override.scopeId !== target.noteId) return false;
+  if (override.scope === 'team' && override.scopeId !== target.teamId) return false;
+  if (override.rolloutPercent === undefined || override.rolloutPercent >= 100) return true;
+  // Partial rollouts need a note to bucket
+  if (!target.noteId) return false;
+  return rolloutBucket(override.flagKey, target.noteId) < override.rolloutPercent;
+}
+
+export function resolveFlag<K extends FlagKey>(key: K, overrides: FlagOverride[], target: FlagTarget = {}): ResolvedFlag<K> {
+  for (const scope of SCOPE_PRECEDENCE) {
+    const override = overrides.find((o) => o.flagKey === key && o.scope === scope && overrideApplies(o, target));
+    // Values are validated on write; skip any left over from an older definition
+    if (override && validateFlagOverride(key, override.value) === null) {
+      return { value: override.value as FlagValue<K>, source: scope };
+    }
+  }
+  return { value: FLAG_DEFINITIONS[key].defaultValue as FlagValue<K>, source: 'default' };
+}
+
+export function resolveFlags(overrides: FlagOverride[], target: FlagTarget = {}): ResolvedFlags {
+  return Object.fromEntries(FLAG_KEYS.map((key) => [key, resolveFlag(key, overrides, target)])) as ResolvedFlags;
+}
+
+/** Boolean flags for GeneratorContext.feature_flags */
+export function toEngineFeatureFlags(flags: ResolvedFlags): Record<string, boolean> {
+  const out: Record<string, boolean> = {};
+  for (const key of FLAG_KEYS) {
+    const { value } = flags[key];
+    if (typeof value === 'boolean') out[key] = value;
+  }
+  return out;
+}
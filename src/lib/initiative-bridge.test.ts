@@ -0,0 +1,218 @@
+/**
+ * Engine → event-sourced initiative bridge
+ *
+ * Tests:
+ *   1. Field inference: release target date, risk level, status
+ *   2. buildProjectUpdatePatch: operations against canonical state, schedule deltas, skipped transitions
+ *   3. buildInitiativeCreatedCommand: slugs and collisions
+ *   4. buildActionItemComment: task line with owner and due date
+ *   5. buildConflictComment: both statements quoted
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  inferReleaseTargetDate,
+  inferRiskLevel,
+  inferStatus,
+  buildProjectUpdatePatch,
+  buildInitiativeCreatedCommand,
+  InitiativeBridgeError,
+  targetDateFromScheduleDelta,
+  buildActionItemComment,
+  buildConflictComment,
+} from './initiative-bridge';
+import { resolveScheduleDelta } from './suggestion-engine-v2/dateResolver';
+import type { BridgeInitiativeState, BridgeSuggestionInput } from './initiative-bridge';
+
+const MEETING_AT = Date.UTC(2026, 1, 10); // 2026-02-10
+
+const STATE: BridgeInitiativeState = {
+  description: 'Redesign the checkout flow.',
+  status: 'in_progress',
+  riskLevel: null,
+  releaseTargetDate: Date.UTC(2026, 2, 3),
+};
+
+function update(overrides: Partial<BridgeSuggestionInput> = {}): BridgeSuggestionInput {
+  return {
+    type: 'project_update',
+    title: 'Update: Checkout launch moves to March 24',
+    afterDescription: 'Checkout launch moves from March 3 to March 24 after the billing integration slipped.',
+    evidenceText: 'The checkout launch moves from March 3 to March 24.',
+    meetingAt: MEETING_AT,
+    ...overrides,
+  };
+}
+
+// ============================================
+// Field inference
+// ============================================
+
+describe('field inference', () => {
+  it('takes the last target date and anchors the year on the meeting', () => {
+    expect(inferReleaseTargetDate('moves from March 3 to March 24', MEETING_AT)).toBe(Date.UTC(2026, 2, 24));
+    expect(inferReleaseTargetDate('pushed to Jan 15', Date.UTC(2026, 10, 20))).toBe(Date.UTC(2027, 0, 15));
+    expect(inferReleaseTargetDate('slips to 2026-05-01', MEETING_AT)).toBe(Date.UTC(2026, 4, 1));
+    expect(inferReleaseTargetDate('we talked about March', MEETING_AT)).toBeUndefined();
+  });
+
+  it('resolves relative release dates the same way as schedule deltas', () => {
+    // MEETING_AT is Tuesday 2026-02-10; next Friday is the Friday of the following week
+    expect(inferReleaseTargetDate('We ship next Friday', MEETING_AT)).toBe(Date.UTC(2026, 1, 20));
+    expect(inferReleaseTargetDate('ETA next Friday', MEETING_AT)).toBe(Date.UTC(2026, 1, 20));
+    expect(inferReleaseTargetDate('Checkout moved to next Friday', MEETING_AT)).toBe(Date.UTC(2026, 1, 20));
+    expect(inferReleaseTargetDate('Checkout will slip by 2 sprints', MEETING_AT, Date.UTC(2026, 2, 3))).toBe(
+      Date.UTC(2026, 2, 31)
+    );
+  });
+
+  it('reads explicit risk and lifecycle language only', () => {
+    expect(inferRiskLevel('This is now a high-risk launch')).toBe('high');
+    expect(inferRiskLevel('Checkout is at risk')).toBe('medium');
+    expect(inferRiskLevel('Checkout moves to March')).toBeUndefined();
+
+    expect(inferStatus('Checkout is blocked on legal review')).toBe('blocked');
+    expect(inferStatus('Checkout got unblocked yesterday')).toBe('in_progress');
+    expect(inferStatus('Checkout shipped to all users')).toBe('released');
+    expect(inferStatus('Checkout launch moves to March')).toBeUndefined();
+  });
+});
+
+// ============================================
+// Project update patch
+// ============================================
+
+describe('buildProjectUpdatePatch', () => {
+  it('appends the update to the description and moves the target date', () => {
+    const patch = buildProjectUpdatePatch(update(), STATE, () => true);
+
+    expect(patch.kind).toBe('engine_project_update');
+    expect(patch.operations.map((op) => op.path)).toEqual(['/description', '/releaseTargetDate']);
+    expect(patch.operations[0]).toMatchObject({ op: 'replace', from: STATE.description });
+    expect(patch.operations[0].value).toBe(
+      'Redesign the checkout flow.\n\nUpdate (2026-02-10): Checkout launch moves from March 3 to March 24 after the billing integration slipped.'
+    );
+    expect(patch.operations[1]).toEqual({
+      op: 'replace',
+      path: '/releaseTargetDate',
+      from: STATE.releaseTargetDate,
+      value: Date.UTC(2026, 2, 24),
+    });
+  });
+
+  it('uses null "from" values for unset fields and adds risk and status', () => {
+    const patch = buildProjectUpdatePatch(
+      update({ title: 'Update: Checkout is blocked on legal review', afterDescription: 'High risk: legal review blocks checkout.', evidenceText: '' }),
+      STATE,
+      () => true
+    );
+    expect(patch.operations.find((op) => op.path === '/riskLevel')).toEqual({ op: 'replace', path: '/riskLevel', from: null, value: 'high' });
+    expect(patch.operations.find((op) => op.path === '/status')).toEqual({ op: 'replace', path: '/status', from: 'in_progress', value: 'blocked' });
+  });
+
+  it('prefers the resolved schedule delta and shifts the current target by bare slips', () => {
+    const slip = resolveScheduleDelta('Checkout will slip by 2 sprints', MEETING_AT)!;
+    const patch = buildProjectUpdatePatch(update({ evidenceText: 'Checkout will slip by 2 sprints', scheduleDelta: slip }), STATE, () => true);
+    expect(patch.operations.find((op) => op.path === '/releaseTargetDate')?.value).toBe(Date.UTC(2026, 2, 31));
+
+    const eta = resolveScheduleDelta('ETA end of Q3', MEETING_AT)!;
+    expect(targetDateFromScheduleDelta(eta, STATE.releaseTargetDate)).toBe(Date.UTC(2026, 8, 30));
+    expect(targetDateFromScheduleDelta(slip, null)).toBeUndefined();
+  });
+
+  it('skips status changes the state machine does not allow', () => {
+    const patch = buildProjectUpdatePatch(update({ title: 'Update: Checkout shipped' }), { ...STATE, status: 'draft' }, () => false);
+    expect(patch.operations.some((op) => op.path === '/status')).toBe(false);
+    expect(patch.skippedStatus).toBe('released');
+  });
+
+  it('does not repeat an update already in the description', () => {
+    const applied = buildProjectUpdatePatch(update(), STATE, () => true);
+    const state = { ...STATE, description: applied.operations[0].value as string, releaseTargetDate: Date.UTC(2026, 2, 24) };
+    expect(buildProjectUpdatePatch(update(), state, () => true).operations).toEqual([]);
+  });
+
+  it('rejects other suggestion types', () => {
+    expect(() => buildProjectUpdatePatch(update({ type: 'idea' }), STATE, () => true)).toThrow(InitiativeBridgeError);
+  });
+});
+
+// ============================================
+// InitiativeCreated command
+// ============================================
+
+describe('buildInitiativeCreatedCommand', () => {
+  it('slugifies the title and resolves collisions', () => {
+    const taken = new Set(['self-serve-onboarding', 'self-serve-onboarding-2']);
+    const command = buildInitiativeCreatedCommand(
+      { title: '  Self-serve onboarding! ', description: 'Let trials activate without sales. ' },
+      (slug) => taken.has(slug)
+    );
+    expect(command).toEqual({
+      slug: 'self-serve-onboarding-3',
+      title: 'Self-serve onboarding!',
+      description: 'Let trials activate without sales.',
+    });
+  });
+
+  it('requires a title', () => {
+    expect(() => buildInitiativeCreatedCommand({ title: ' ', description: '' })).toThrow(InitiativeBridgeError);
+  });
+});
+
+// ============================================
+// Action item comment
+// ============================================
+
+describe('buildActionItemComment', () => {
+  it('writes a task line with owner and resolved due date, then the evidence', () => {
+    const body = buildActionItemComment({
+      actionItem: {
+        assignee: 'dana',
+        deliverable: 'send the pricing doc',
+        due_text: 'by Thursday',
+        due: { date: '2026-05-14', precision: 'day', text: 'Thursday' },
+      },
+      evidenceText: '@dana to send the pricing doc by Thursday',
+    });
+    expect(body).toBe('- [ ] @dana: send the pricing doc (due 2026-05-14)\n\n> @dana to send the pricing doc by Thursday');
+  });
+
+  it('keeps an unresolved due clause and requires a deliverable', () => {
+    expect(buildActionItemComment({
+      actionItem: { assignee: null, deliverable: 'update the checklist', due_text: 'by EOW' },
+      evidenceText: '',
+    })).toBe('- [ ] update the checklist (by EOW)');
+    expect(() => buildActionItemComment({ actionItem: { assignee: null, deliverable: ' ' }, evidenceText: '' }))
+      .toThrow(InitiativeBridgeError);
+  });
+});
+
+// ============================================
+// Conflict comment
+// ============================================
+
+describe('buildConflictComment', () => {
+  const conflict = {
+    dimension: 'timeline' as const,
+    initiative_id: 'init-checkout',
+    initiative_title: 'Checkout v2',
+    note_statement: 'Launch is still on track for March 3',
+    conflicting_statement: 'release date: Apr 14',
+    conflicting_source: 'initiative' as const,
+  };
+
+  it('quotes the note and the side it contradicts', () => {
+    expect(buildConflictComment(conflict, 'Checkout weekly')).toBe(
+      '**Conflicting release date**\n\n' +
+        'This note (Checkout weekly):\n> Launch is still on track for March 3\n\n' +
+        'Initiative:\n> release date: Apr 14'
+    );
+    expect(buildConflictComment({ ...conflict, conflicting_source: 'note', conflicting_statement: 'Launch moved to April 14' }))
+      .toContain('Earlier note:\n> Launch moved to April 14');
+  });
+
+  it('requires both statements', () => {
+    expect(() => buildConflictComment({ ...conflict, conflicting_statement: ' ' })).toThrow(InitiativeBridgeError);
+  });
+});
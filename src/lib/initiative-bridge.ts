@@ -0,0 +1,318 @@
+/**
+ * Engine → Event-Sourced Initiative Bridge
+ *
+ * Turns v2 engine suggestions into commands for the event-sourced
+ * initiative model (convex/newInitiatives.ts):
+ * - project_update → PatchOperation[] (description, releaseTargetDate,
+ *   riskLevel, status) against the initiative's current canonical state
+ * - idea → InitiativeCreated command (slug, title, description)
+ * - action_item → task comment on the initiative (there is no task model;
+ *   the comment is the task)
+ * - conflict → comment quoting both statements so the owner can resolve it
+ *
+ * Pure functions only. convex/suggestionBridge.ts loads state, validates
+ * status transitions and runs the commands so they produce events, audit
+ * trail and undo.
+ */
+
+import type { ActionItemPayload, ConflictPayload, ScheduleDelta, SuggestionType } from './suggestion-engine-v2/types';
+import { resolveScheduleDelta, shiftDate } from './suggestion-engine-v2/dateResolver';
+
+// ============================================
+// Types
+// ============================================
+
+/** Mirrors InitiativeStatus in convex/initiativeEventStore.ts */
+export type BridgeInitiativeStatus =
+  | 'draft'
+  | 'proposed'
+  | 'approved'
+  | 'in_progress'
+  | 'blocked'
+  | 'released'
+  | 'completed'
+  | 'cancelled'
+  | 'archived';
+
+export type BridgeRiskLevel = 'low' | 'medium' | 'high';
+
+/** Same shape as PatchOperation in convex/initiativeSuggestions.ts */
+export interface InitiativePatchOperation {
+  op: 'replace';
+  path: '/description' | '/releaseTargetDate' | '/riskLevel' | '/status';
+  from: unknown;
+  value: unknown;
+}
+
+/**
+ * Fields of the initiative's canonical state (toCanonicalJSON) the bridge
+ * patches. Absent optional fields are null there, so `from` is null too.
+ */
+export interface BridgeInitiativeState {
+  description: string;
+  status: BridgeInitiativeStatus;
+  riskLevel: BridgeRiskLevel | null;
+  releaseTargetDate: number | null;
+}
+
+/** The parts of an engine suggestion the bridge reads */
+export interface BridgeSuggestionInput {
+  type: SuggestionType;
+  title: string;
+  /** payload.after_description */
+  afterDescription?: string;
+  /** Evidence span texts joined by newlines */
+  evidenceText: string;
+  /** Meeting time of the source note; anchors dates and the update line */
+  meetingAt?: number;
+  /** payload.schedule_delta; preferred over re-reading dates from the text */
+  scheduleDelta?: ScheduleDelta;
+}
+
+export interface ProjectUpdatePatch {
+  kind: 'engine_project_update';
+  operations: InitiativePatchOperation[];
+  /** Inferred status dropped because the transition is not allowed */
+  skippedStatus?: BridgeInitiativeStatus;
+}
+
+/** The parts of an action_item suggestion the bridge reads */
+export interface BridgeActionItemInput {
+  /** payload.action_item */
+  actionItem: ActionItemPayload;
+  /** Evidence span texts joined by newlines */
+  evidenceText: string;
+}
+
+export interface InitiativeCreatedCommand {
+  slug: string;
+  title: string;
+  description: string;
+}
+
+export class InitiativeBridgeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InitiativeBridgeError';
+  }
+}
+
+// ============================================
+// Field Inference
+// ============================================
+
+/**
+ * Infer a new release target date (UTC midnight) from update text with the
+ * date resolver: the target of the stated change ("from March 3 to March 24"
+ * → March 24, "ship next Friday"), or the current target moved by a bare
+ * shift ("slip by 2 sprints"). Relative dates are anchored on the meeting.
+ */
+export function inferReleaseTargetDate(
+  text: string,
+  meetingAt?: number,
+  currentTargetDate: number | null = null
+): number | undefined {
+  const delta = resolveScheduleDelta(text, meetingAt ?? Date.now());
+  return delta ? targetDateFromScheduleDelta(delta, currentTargetDate) : undefined;
+}
+
+/**
+ * Infer a risk level from explicit risk language
+ */
+export function inferRiskLevel(text: string): BridgeRiskLevel | undefined {
+  if (/\b(high|critical|major|severe)[- ]risk\b|\brisk is (high|critical)\b|\bcritical blocker\b/i.test(text)) {
+    return 'high';
+  }
+  if (/\b(medium|moderate)[- ]risk\b|\bat risk\b/i.test(text)) return 'medium';
+  if (/\b(low|minor)[- ]risk\b|\bde-?risked\b/i.test(text)) return 'low';
+  return undefined;
+}
+
+/**
+ * Infer a status change from explicit lifecycle language.
+ * Checked in priority order; the caller validates the transition.
+ */
+export function inferStatus(text: string): BridgeInitiativeStatus | undefined {
+  if (/\b(cancell?ed|scrapped|shelved|killed)\b/i.test(text)) return 'cancelled';
+  if (/\b(launched|shipped|released|went live|is live)\b/i.test(text)) return 'released';
+  if (/\b(unblocked|back on track|resumed)\b/i.test(text)) return 'in_progress';
+  if (/\b(is|are|now|got|remains?|still)\s+blocked\b|\bblocked (on|by)\b/i.test(text)) return 'blocked';
+  if (/\b(kicked off|has started|work (has )?started|now in progress)\b/i.test(text)) return 'in_progress';
+  return undefined;
+}
+
+/**
+ * New release target date from a resolved schedule delta: the resolved
+ * target date, or the current target moved by the stated shift
+ * ("slip by 2 sprints" has no date of its own).
+ */
+export function targetDateFromScheduleDelta(
+  delta: ScheduleDelta,
+  currentTargetDate: number | null
+): number | undefined {
+  if (delta.after) return Date.parse(delta.after.date);
+  if (delta.shift && currentTargetDate !== null) return shiftDate(currentTargetDate, delta.shift);
+  return undefined;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+// ============================================
+// Commands
+// ============================================
+
+/**
+ * Build patch operations for a project_update suggestion.
+ *
+ * The update is appended to the description as a dated line instead of
+ * replacing it; after_description describes the change, not the whole
+ * initiative. `canTransition` decides whether an inferred status is applied
+ * (pass the event store's isValidTransition for the current status).
+ */
+export function buildProjectUpdatePatch(
+  input: BridgeSuggestionInput,
+  state: BridgeInitiativeState,
+  canTransition: (to: BridgeInitiativeStatus) => boolean
+): ProjectUpdatePatch {
+  if (input.type !== 'project_update') {
+    throw new InitiativeBridgeError(`Expected a project_update suggestion, got ${input.type}`);
+  }
+
+  const operations: InitiativePatchOperation[] = [];
+  const update = (input.afterDescription || input.title).trim();
+  const text = [input.title, input.afterDescription ?? '', input.evidenceText].join('\n');
+
+  if (update && !state.description.includes(update)) {
+    const line = `Update (${formatDate(input.meetingAt ?? Date.now())}): ${update}`;
+    operations.push({
+      op: 'replace',
+      path: '/description',
+      from: state.description,
+      value: state.description.trim() ? `${state.description.trimEnd()}\n\n${line}` : line,
+    });
+  }
+
+  const targetDate =
+    (input.scheduleDelta && targetDateFromScheduleDelta(input.scheduleDelta, state.releaseTargetDate)) ??
+    inferReleaseTargetDate(text, input.meetingAt, state.releaseTargetDate);
+  if (targetDate !== undefined && targetDate !== state.releaseTargetDate) {
+    operations.push({ op: 'replace', path: '/releaseTargetDate', from: state.releaseTargetDate, value: targetDate });
+  }
+
+  const riskLevel = inferRiskLevel(text);
+  if (riskLevel && riskLevel !== state.riskLevel) {
+    operations.push({ op: 'replace', path: '/riskLevel', from: state.riskLevel, value: riskLevel });
+  }
+
+  let skippedStatus: BridgeInitiativeStatus | undefined;
+  const status = inferStatus(text);
+  if (status && status !== state.status) {
+    if (canTransition(status)) {
+      operations.push({ op: 'replace', path: '/status', from: state.status, value: status });
+    } else {
+      skippedStatus = status;
+    }
+  }
+
+  return { kind: 'engine_project_update', operations, skippedStatus };
+}
+
+/**
+ * URL-safe slug for a new initiative
+ */
+export function slugifyInitiativeTitle(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return slug || 'initiative';
+}
+
+/**
+ * Build the InitiativeCreated command for an idea suggestion.
+ * Title and description are the (possibly user-edited) values from the
+ * apply dialog; `isSlugTaken` resolves slug collisions with a numeric suffix.
+ */
+export function buildInitiativeCreatedCommand(
+  input: { title: string; description: string },
+  isSlugTaken: (slug: string) => boolean = () => false
+): InitiativeCreatedCommand {
+  const title = input.title.trim();
+  if (!title) {
+    throw new InitiativeBridgeError('Initiative title is required');
+  }
+
+  const base = slugifyInitiativeTitle(title);
+  let slug = base;
+  for (let n = 2; isSlugTaken(slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  return { slug, title, description: input.description.trim() };
+}
+
+/**
+ * Comment body for an action_item applied to an initiative: a markdown task
+ * line with owner and due date, followed by the quoted evidence.
+ *
+ *   - [ ] @Dana: send the pricing doc (due 2026-05-14)
+ *
+ *   > Dana to send the pricing doc by Thursday
+ *
+ * The resolved due date is preferred; the clause as written is kept when it
+ * could not be resolved.
+ */
+export function buildActionItemComment(input: BridgeActionItemInput): string {
+  const { assignee, deliverable, due, due_text } = input.actionItem;
+  if (!deliverable.trim()) {
+    throw new InitiativeBridgeError('Action item deliverable is required');
+  }
+
+  const owner = assignee ? `@${assignee.replace(/^@/, '')}: ` : '';
+  const dueLabel = due ? ` (due ${due.date})` : due_text ? ` (${due_text})` : '';
+  const task = `- [ ] ${owner}${deliverable.trim()}${dueLabel}`;
+
+  const quote = input.evidenceText
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => `> ${line}`)
+    .join('\n');
+  return quote ? `${task}\n\n${quote}` : task;
+}
+
+const CONFLICT_NOUNS: Record<ConflictPayload['dimension'], string> = {
+  timeline: 'release date',
+  scope: 'scope',
+  ownership: 'owner',
+  status: 'status',
+};
+
+/**
+ * Comment body for a conflict applied to its initiative: both sides quoted,
+ * so whoever owns the initiative can settle which one is current.
+ *
+ *   **Conflicting release date**
+ *
+ *   This note:
+ *   > Launch is still on track for March 3
+ *
+ *   Initiative:
+ *   > release date: Apr 14
+ */
+export function buildConflictComment(conflict: ConflictPayload, noteTitle?: string): string {
+  if (!conflict.note_statement.trim() || !conflict.conflicting_statement.trim()) {
+    throw new InitiativeBridgeError('Conflict needs both statements');
+  }
+
+  const source = noteTitle ? `This note (${noteTitle})` : 'This note';
+  const other = conflict.conflicting_source === 'note' ? 'Earlier note' : 'Initiative';
+  return [
+    `**Conflicting ${CONFLICT_NOUNS[conflict.dimension]}**`,
+    `${source}:\n> ${conflict.note_statement.trim()}`,
+    `${other}:\n> ${conflict.conflicting_statement.trim()}`,
+  ].join('\n\n');
+}
@@ -0,0 +1,173 @@
+/**
+ * Note import parsing
+ *
+ * Tests:
+ *   1. detectImportFileType: supported and unsupported extensions
+ *   2. htmlToMarkdown: headings, lists, entities, head/script stripping
+ *   3. captionsToTranscript: WebVTT voice tags, SRT speaker prefixes, cue merging
+ *   4. parseImportFile: title and meetingAt inference priority
+ *   5. Imported captions run through the v2 engine in transcript mode
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectImportFileType,
+  htmlToMarkdown,
+  captionsToTranscript,
+  parseDateFromText,
+  parseImportFile,
+  NoteImportError,
+} from './note-import';
+import { preprocessNote } from './suggestion-engine-v2/preprocessing';
+import { adaptConvexNote } from './suggestion-engine-v2';
+
+// ============================================
+// File type detection
+// ============================================
+
+describe('detectImportFileType', () => {
+  it('maps supported extensions', () => {
+    expect(detectImportFileType('notes.md')).toBe('md');
+    expect(detectImportFileType('notes.MARKDOWN')).toBe('md');
+    expect(detectImportFileType('export.htm')).toBe('html');
+    expect(detectImportFileType('call.srt')).toBe('srt');
+  });
+
+  it('returns null for unsupported files', () => {
+    expect(detectImportFileType('notes.docx')).toBeNull();
+    expect(detectImportFileType('README')).toBeNull();
+  });
+});
+
+// ============================================
+// HTML conversion
+// ============================================
+
+describe('htmlToMarkdown', () => {
+  it('converts headings, paragraphs and lists', () => {
+    const html = `<html><head><title>Sync</title><style>p { color: red; }</style></head>
+      <body><h2>Launch &amp; Pricing</h2><p>We moved the launch.</p>
+      <ul><li>Update the FAQ</li><li>Email <b>sales</b></li></ul>
+      <ol><li>First</li><li>Second</li></ol><script>alert(1)</script></body></html>`;
+
+    expect(htmlToMarkdown(html)).toBe(
+      ['## Launch & Pricing', '', 'We moved the launch.', '', '- Update the FAQ', '- Email sales', '', '1. First', '2. Second'].join('\n')
+    );
+  });
+});
+
+// ============================================
+// Caption conversion
+// ============================================
+
+describe('captionsToTranscript', () => {
+  it('reads WebVTT voice tags and merges consecutive cues', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      '00:00:05.000 --> 00:00:08.000',
+      '<v Alice>We need to push the launch.</v>',
+      '',
+      '00:00:08.500 --> 00:00:10.000',
+      '<v Alice>Payments slipped.</v>',
+      '',
+      '00:01:02.000 --> 00:01:04.000',
+      '<v Bob>By how much?</v>',
+    ].join('\n');
+
+    expect(captionsToTranscript(vtt)).toBe(
+      'Alice (00:00:05): We need to push the launch. Payments slipped.\nBob (00:01:02): By how much?'
+    );
+  });
+
+  it('reads SRT cues with "Name:" speaker prefixes', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:03,000',
+      'Dana: Two sprints.',
+      '',
+      '2',
+      '00:00:04,000 --> 00:00:06,000',
+      'Eli: Fine by me.',
+    ].join('\n');
+
+    expect(captionsToTranscript(srt)).toBe('Dana (00:00:01): Two sprints.\nEli (00:00:04): Fine by me.');
+  });
+});
+
+// ============================================
+// parseImportFile
+// ============================================
+
+describe('parseImportFile', () => {
+  it('reads title and date from markdown front matter', () => {
+    const parsed = parseImportFile({
+      fileName: '2024-01-02-sync.md',
+      content: '---\ntitle: "Roadmap Sync"\ndate: 2024-03-12\n---\n# Ignored H1\n\n- Launch moved to Q3',
+    });
+    expect(parsed.title).toBe('Roadmap Sync');
+    expect(parsed.body.startsWith('# Ignored H1')).toBe(true);
+    expect(parsed.meetingAt).toBe(Date.UTC(2024, 2, 12));
+    expect(parsed.meetingAtSource).toBe('metadata');
+  });
+
+  it('falls back to filename, then content, then file modified time', () => {
+    const fromName = parseImportFile({ fileName: 'standup_2024-05-06.txt', content: 'Met on March 1, 2024' });
+    expect(fromName.meetingAtSource).toBe('filename');
+    expect(fromName.meetingAt).toBe(Date.UTC(2024, 4, 6));
+    expect(fromName.title).toBe('standup 2024-05-06');
+
+    const fromContent = parseImportFile({ fileName: 'standup.txt', content: 'Met on March 1, 2024' });
+    expect(fromContent.meetingAtSource).toBe('content');
+    expect(fromContent.meetingAt).toBe(Date.UTC(2024, 2, 1));
+
+    const fromFile = parseImportFile({ fileName: 'standup.txt', content: 'No date here', lastModified: 1700000000000 });
+    expect(fromFile.meetingAtSource).toBe('file_modified');
+    expect(fromFile.meetingAt).toBe(1700000000000);
+  });
+
+  it('uses the HTML <title> and meta date', () => {
+    const parsed = parseImportFile({
+      fileName: 'export.html',
+      content: '<html><head><title>Design Review</title><meta name="date" content="2024-07-08"></head><body><p>Ship it.</p></body></html>',
+    });
+    expect(parsed.title).toBe('Design Review');
+    expect(parsed.body).toBe('Ship it.');
+    expect(parsed.meetingAtSource).toBe('metadata');
+  });
+
+  it('rejects unsupported and empty files', () => {
+    expect(() => parseImportFile({ fileName: 'deck.pptx', content: 'x' })).toThrow(NoteImportError);
+    expect(() => parseImportFile({ fileName: 'empty.md', content: '---\ntitle: x\n---\n  ' })).toThrow(NoteImportError);
+  });
+
+  it('ignores ambiguous numeric dates', () => {
+    expect(parseDateFromText('03/04/2024')).toBeUndefined();
+  });
+});
+
+// ============================================
+// Engine handoff
+// ============================================
+
+describe('imported captions', () => {
+  it('are preprocessed as transcripts via the Convex adapter', () => {
+    const srt = [
+      '1', '00:00:01,000 --> 00:00:03,000', 'Dana: The checkout launch moves to March 24.', '',
+      '2', '00:00:04,000 --> 00:00:06,000', 'Eli: Agreed.',
+    ].join('\n');
+    const parsed = parseImportFile({ fileName: 'call.srt', content: srt });
+    expect(parsed.isTranscript).toBe(true);
+
+    const note = adaptConvexNote({
+      _id: 'imported-1',
+      body: parsed.body,
+      createdAt: 0,
+      source: 'file_import',
+      importFileType: parsed.fileType,
+    });
+    const { format, lines } = preprocessNote(note);
+    expect(format).toBe('transcript');
+    expect(lines[0].speaker).toBe('Dana');
+  });
+});
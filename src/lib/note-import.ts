@@ -0,0 +1,375 @@
+/**
+ * Note Import Utilities
+ *
+ * Converts exported meeting-note files into the markdown body the v2
+ * suggestion engine expects:
+ * - .md / .markdown: passed through (YAML front matter is read and stripped)
+ * - .txt: passed through
+ * - .html / .htm: converted to markdown (headings, lists, paragraphs)
+ * - .vtt / .srt: caption cues converted to speaker-turn transcript lines
+ *   ("Alice (00:12:31): text") so the engine's transcript mode picks them up
+ *
+ * Also infers a title and meeting date. Pure functions only — the Convex
+ * action in convex/noteImport.ts handles persistence and deduplication.
+ */
+
+export type ImportFileType = 'md' | 'txt' | 'html' | 'vtt' | 'srt';
+
+/** Where the inferred meetingAt came from, in priority order */
+export type MeetingAtSource = 'metadata' | 'filename' | 'content' | 'file_modified';
+
+export interface ImportFileInput {
+  fileName: string;
+  content: string;
+  /** File.lastModified from the browser (ms since epoch) */
+  lastModified?: number;
+}
+
+export interface ParsedImportFile {
+  fileType: ImportFileType;
+  title: string;
+  /** Markdown (or transcript) body ready for notes.body */
+  body: string;
+  meetingAt?: number;
+  meetingAtSource?: MeetingAtSource;
+  /** True for caption files: the body is a speaker-turn transcript */
+  isTranscript: boolean;
+}
+
+/**
+ * Thrown when a file cannot be imported (unsupported type, empty body).
+ */
+export class NoteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoteImportError';
+  }
+}
+
+const EXTENSION_TO_TYPE: Record<string, ImportFileType> = {
+  md: 'md',
+  markdown: 'md',
+  txt: 'txt',
+  html: 'html',
+  htm: 'html',
+  vtt: 'vtt',
+  srt: 'srt',
+};
+
+/** File extensions accepted by the importer (for <input accept>) */
+export const SUPPORTED_IMPORT_EXTENSIONS = Object.keys(EXTENSION_TO_TYPE).map((ext) => `.${ext}`);
+
+/**
+ * Resolve the import type from a file name, or null when unsupported.
+ */
+export function detectImportFileType(fileName: string): ImportFileType | null {
+  const match = fileName.toLowerCase().match(/\.([a-z]+)$/);
+  if (!match) return null;
+  return EXTENSION_TO_TYPE[match[1]] ?? null;
+}
+
+// ============================================
+// Markdown / Text
+// ============================================
+
+interface FrontMatter {
+  title?: string;
+  date?: string;
+}
+
+/**
+ * Split YAML front matter ("---\nkey: value\n---") from a markdown body.
+ * Only flat `key: value` pairs are read.
+ */
+function splitFrontMatter(text: string): { frontMatter: FrontMatter; body: string } {
+  const match = text.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) return { frontMatter: {}, body: text };
+
+  const frontMatter: FrontMatter = {};
+  for (const line of match[1].split('\n')) {
+    const pair = line.match(/^(\w+):\s*(.*)$/);
+    if (!pair) continue;
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim().replace(/^["']|["']$/g, '');
+    if (key === 'title') frontMatter.title = value;
+    if (key === 'date' || key === 'meeting_date' || key === 'created') frontMatter.date ??= value;
+  }
+  return { frontMatter, body: text.slice(match[0].length) };
+}
+
+// ============================================
+// HTML
+// ============================================
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (entity, name) => HTML_ENTITIES[name.toLowerCase()] ?? entity);
+}
+
+/**
+ * Convert exported HTML (e.g. Word/Google Docs "save as web page") to markdown.
+ * Handles headings, ordered/unordered lists, paragraphs and line breaks; all
+ * other tags are stripped. Not a general-purpose converter.
+ */
+export function htmlToMarkdown(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script)\b[\s\S]*?<\/\1>/gi, '');
+
+  // Headings
+  text = text.replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) => {
+    return `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').trim()}\n\n`;
+  });
+
+  // Ordered lists: number items in order
+  text = text.replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, inner) => {
+    let n = 0;
+    return '\n' + inner.replace(/<li\b[^>]*>/gi, () => `\n${++n}. `) + '\n';
+  });
+
+  // Unordered list items
+  text = text.replace(/<li\b[^>]*>/gi, '\n- ');
+
+  // Block boundaries
+  text = text
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|ul|ol|tr|table|blockquote)>/gi, '\n')
+    .replace(/<(p|div|ul|ol|tr|table|blockquote)\b[^>]*>/gi, '\n');
+
+  // Strip remaining tags and decode
+  text = decodeEntities(text.replace(/<[^>]+>/g, ''));
+
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/^(-|\d+\.)$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function extractHtmlTitle(html: string): string | undefined {
+  const match = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const title = match ? decodeEntities(match[1]).trim() : '';
+  return title || undefined;
+}
+
+function extractHtmlDate(html: string): string | undefined {
+  const match = html.match(
+    /<meta\b[^>]*name=["'](?:date|created|dcterms\.created)["'][^>]*content=["']([^"']+)["']/i
+  );
+  return match?.[1];
+}
+
+// ============================================
+// Captions (WebVTT / SRT)
+// ============================================
+
+interface CaptionCue {
+  start: string; // hh:mm:ss
+  speaker?: string;
+  text: string;
+}
+
+const CUE_TIMING = /^(\d{1,2}:)?(\d{2}):(\d{2})[.,]\d{1,3}\s+-->\s+/;
+
+function normalizeCueTimestamp(line: string): string {
+  const match = line.match(CUE_TIMING);
+  if (!match) return '00:00:00';
+  const hours = (match[1] ?? '00:').replace(':', '').padStart(2, '0');
+  return `${hours}:${match[2]}:${match[3]}`;
+}
+
+/**
+ * Parse caption cues from WebVTT or SRT content.
+ * Speakers come from WebVTT voice tags (<v Alice>) or a "Name: " text prefix.
+ */
+export function parseCaptionCues(content: string): CaptionCue[] {
+  const blocks = content.replace(/^WEBVTT[^\n]*\n/, '').split(/\n\s*\n/);
+  const cues: CaptionCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').map((l) => l.trim()).filter((l) => l !== '');
+    const timingIndex = lines.findIndex((l) => CUE_TIMING.test(l));
+    if (timingIndex === -1) continue; // NOTE/STYLE blocks, stray text
+
+    const start = normalizeCueTimestamp(lines[timingIndex]);
+    let raw = lines.slice(timingIndex + 1).join(' ');
+    let speaker: string | undefined;
+
+    const voice = raw.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/);
+    if (voice) speaker = voice[1].trim();
+
+    raw = decodeEntities(raw.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+    if (!speaker) {
+      const prefix = raw.match(/^([A-Z][\w'.-]*(?:\s+[A-Z][\w'.-]*){0,2}):\s+(.*)$/);
+      if (prefix) {
+        speaker = prefix[1];
+        raw = prefix[2];
+      }
+    }
+
+    if (raw !== '') cues.push({ start, speaker, text: raw });
+  }
+
+  return cues;
+}
+
+/**
+ * Convert caption cues into transcript lines, merging consecutive cues by the
+ * same speaker. Cues without a speaker are attributed to "Speaker".
+ */
+export function captionsToTranscript(content: string): string {
+  const turns: CaptionCue[] = [];
+  for (const cue of parseCaptionCues(content)) {
+    const speaker = cue.speaker ?? 'Speaker';
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === speaker) {
+      last.text = `${last.text} ${cue.text}`;
+    } else {
+      turns.push({ ...cue, speaker });
+    }
+  }
+  return turns.map((t) => `${t.speaker} (${t.start}): ${t.text}`).join('\n');
+}
+
+// ============================================
+// Date Inference
+// ============================================
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+const LONG_DATE = new RegExp(
+  String.raw`\b(${MONTHS.join('|')}|${MONTHS.map((m) => m.slice(0, 3)).join('|')})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b`,
+  'i'
+);
+
+/**
+ * Parse the first recognizable calendar date in text ("2024-03-12",
+ * "March 12, 2024", "Mar 12 2024") as a UTC midnight timestamp.
+ * Numeric d/m/y formats are ignored as ambiguous.
+ */
+export function parseDateFromText(text: string): number | undefined {
+  const iso = text.match(ISO_DATE);
+  if (iso) {
+    const ts = Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    if (!Number.isNaN(ts) && Number(iso[2]) >= 1 && Number(iso[2]) <= 12) return ts;
+  }
+
+  const long = text.match(LONG_DATE);
+  if (long) {
+    const monthIndex = MONTHS.findIndex((m) => m.startsWith(long[1].toLowerCase().slice(0, 3)));
+    return Date.UTC(Number(long[3]), monthIndex, Number(long[2]));
+  }
+
+  return undefined;
+}
+
+/** Only the head of the content is searched for a meeting date */
+const CONTENT_DATE_SEARCH_CHARS = 500;
+
+function inferMeetingAt(
+  metadataDate: string | undefined,
+  fileName: string,
+  body: string,
+  lastModified: number | undefined
+): { meetingAt?: number; meetingAtSource?: MeetingAtSource } {
+  const fromMetadata = metadataDate ? parseDateFromText(metadataDate) ?? Date.parse(metadataDate) : undefined;
+  if (fromMetadata !== undefined && !Number.isNaN(fromMetadata)) {
+    return { meetingAt: fromMetadata, meetingAtSource: 'metadata' };
+  }
+
+  const fromFileName = parseDateFromText(fileName.replace(/_/g, ' '));
+  if (fromFileName !== undefined) return { meetingAt: fromFileName, meetingAtSource: 'filename' };
+
+  const fromContent = parseDateFromText(body.slice(0, CONTENT_DATE_SEARCH_CHARS));
+  if (fromContent !== undefined) return { meetingAt: fromContent, meetingAtSource: 'content' };
+
+  if (lastModified !== undefined) return { meetingAt: lastModified, meetingAtSource: 'file_modified' };
+
+  return {};
+}
+
+// ============================================
+// Entry Point
+// ============================================
+
+function titleFromFileName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '').replace(/[_]+/g, ' ').trim();
+}
+
+/**
+ * Parse an exported file into a note body, title and meeting date.
+ *
+ * @throws NoteImportError for unsupported extensions or files with no content
+ */
+export function parseImportFile(file: ImportFileInput): ParsedImportFile {
+  const fileType = detectImportFileType(file.fileName);
+  if (!fileType) {
+    throw new NoteImportError(`Unsupported file type: ${file.fileName}`);
+  }
+
+  const content = file.content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  let title: string | undefined;
+  let metadataDate: string | undefined;
+  let body: string;
+
+  switch (fileType) {
+    case 'md': {
+      const { frontMatter, body: mdBody } = splitFrontMatter(content);
+      title = frontMatter.title ?? mdBody.match(/^#\s+(.+)$/m)?.[1].trim();
+      metadataDate = frontMatter.date;
+      body = mdBody;
+      break;
+    }
+    case 'html':
+      title = extractHtmlTitle(content);
+      metadataDate = extractHtmlDate(content);
+      body = htmlToMarkdown(content);
+      break;
+    case 'vtt':
+    case 'srt':
+      body = captionsToTranscript(content);
+      break;
+    case 'txt':
+    default:
+      body = content;
+      break;
+  }
+
+  body = body.trim();
+  if (body === '') {
+    throw new NoteImportError(`File has no note content: ${file.fileName}`);
+  }
+
+  return {
+    fileType,
+    title: title || titleFromFileName(file.fileName),
+    body,
+    isTranscript: fileType === 'vtt' || fileType === 'srt',
+    ...inferMeetingAt(metadataDate, file.fileName, body, file.lastModified),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Tests for roles
+ *
+ * Tests:
+ *   1. hasRole: role ordering
+ *   2. roleForNewUser: first user bootstraps as admin
+ *   3. hashUserId: stable, salted
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hasRole, hashUserId, isRole, roleForNewUser } from './roles';
+
+describe('hasRole', () => {
+  it('grants each role everything below it', () => {
+    expect(hasRole('admin', 'editor')).toBe(true);
+    expect(hasRole('editor', 'editor')).toBe(true);
+    expect(hasRole('editor', 'admin')).toBe(false);
+    expect(hasRole('viewer', 'editor')).toBe(false);
+    expect(hasRole('viewer', 'viewer')).toBe(true);
+  });
+
+  it('recognizes role names', () => {
+    expect(isRole('editor')).toBe(true);
+    expect(isRole('owner')).toBe(false);
+  });
+});
+
+describe('roleForNewUser', () => {
+  it('makes the first user admin and later users viewers', () => {
+    expect(roleForNewUser(0)).toBe('admin');
+    expect(roleForNewUser(3)).toBe('viewer');
+  });
+});
+
+describe('hashUserId', () => {
+  it('is stable for a salt and differs across salts', () => {
+    expect(hashUserId('user-1', 'salt-a')).toBe(hashUserId('user-1', 'salt-a'));
+    expect(hashUserId('user-1', 'salt-a')).not.toBe(hashUserId('user-1', 'salt-b'));
+    expect(hashUserId('user-1', 'salt-a')).not.toContain('user-1');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Roles
+ *
+ * Access levels for signed-in users. Roles are ordered: each one includes
+ * the ones below it.
+ *
+ * - viewer: read notes, suggestions, initiatives and reports
+ * - editor: also create and change them (apply, dismiss, comment, ...)
+ * - admin: also manage users, teams, feature flags, shadow experiments,
+ *   learned configs and debug runs
+ *
+ * Enforced in convex (users.ts requireRole); the UI uses hasRole only to
+ * hide controls the user cannot use.
+ */
+
+import { sha1Hex } from './suggestion-keys';
+
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  admin: 'Admin',
+};
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+/** Whether `role` grants at least `required` */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Role for a user signing in for the first time. The first user becomes
+ * admin so a new deployment can be set up; everyone after starts as viewer
+ * until an admin grants more.
+ */
+export function roleForNewUser(existingUserCount: number): Role {
+  return existingUserCount === 0 ? 'admin' : 'viewer';
+}
+
+/**
+ * Salted user ID hash for analytics events (suggestionEvents.userIdHash),
+ * so metrics can count distinct users without storing who they are.
+ */
+export function hashUserId(userId: string, salt: string): string {
+  return sha1Hex(`${salt}:${userId}`);
+}
@@ -0,0 +1,162 @@
+/**
+ * Tests for shadow runs
+ *
+ * Tests:
+ *   1. validateShadowExperiment: pipeline flags and candidate values
+ *   2. diffShadowRun: added/removed, type flips, score deltas
+ *   3. fromInitiativeSuggestions: action changes for the same beliefs
+ *   4. summarizeShadowRuns / evaluatePromotion: rates and criteria
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffShadowRun,
+  evaluatePromotion,
+  fromInitiativeSuggestions,
+  summarizeShadowRuns,
+  toShadowRunCounts,
+  validateShadowExperiment,
+} from './shadow-runs';
+import type { ShadowItem } from './shadow-runs';
+import type { InitiativeSuggestion } from './belief-to-initiative/types';
+
+function makeItem(overrides: Partial<ShadowItem> = {}): ShadowItem {
+  return {
+    key: 'key-1',
+    type: 'project_update',
+    title: 'Push launch to Q3',
+    anchor: 'we are pushing the launch to Q3 because of the vendor delay',
+    score: 0.7,
+    ...overrides,
+  };
+}
+
+function makeInitiativeSuggestion(overrides: Partial<InitiativeSuggestion> = {}): InitiativeSuggestion {
+  return {
+    id: 'sugg-1',
+    target_initiative_id: 'init-1',
+    action: 'comment',
+    status: 'suggested',
+    payload: { body: 'Launch timeline is at risk' },
+    belief_ids: ['b2', 'b1'],
+    evidence_spans: [],
+    created_at: '2026-10-01T00:00:00.000Z',
+    spam_score: 0,
+    priority_score: 0.5,
+    ...overrides,
+  };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+describe('validateShadowExperiment', () => {
+  it('accepts pipeline versions of pipeline flags only', () => {
+    expect(validateShadowExperiment('belief_pipeline', 'v2')).toBeNull();
+    expect(validateShadowExperiment('llm_rewrite', false)).toBeNull();
+    expect(validateShadowExperiment('belief_pipeline', 'dual_run')).toBe('dual_run is not a pipeline version');
+    expect(validateShadowExperiment('suggestion_debug', false)).toBe('suggestion_debug does not select a pipeline version');
+    expect(validateShadowExperiment('belief_pipeline', 'v3')).not.toBeNull();
+  });
+});
+
+// ============================================
+// Diff
+// ============================================
+
+describe('diffShadowRun', () => {
+  it('reports nothing for identical runs', () => {
+    const diff = diffShadowRun([makeItem()], [makeItem()]);
+
+    expect(diff.hasDifferences).toBe(false);
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.meanAbsScoreDelta).toBe(0);
+  });
+
+  it('reports suggestions only one side emits as added or removed', () => {
+    const diff = diffShadowRun(
+      [makeItem(), makeItem({ key: 'key-2', anchor: 'hire two more designers' })],
+      [makeItem(), makeItem({ key: 'key-3', anchor: 'new onboarding checklist idea' })]
+    );
+
+    expect(diff.added.map((item) => item.key)).toEqual(['key-3']);
+    expect(diff.removed.map((item) => item.key)).toEqual(['key-2']);
+    expect(diff.hasDifferences).toBe(true);
+  });
+
+  it('pairs a suggestion re-keyed under another type as a type flip', () => {
+    const diff = diffShadowRun(
+      [makeItem({ key: 'project_update:abc' })],
+      [makeItem({ key: 'idea:def', type: 'idea', title: 'Vendor delay' })]
+    );
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.typeFlipCount).toBe(1);
+    expect(diff.changed[0]).toMatchObject({ typeFlip: true, titleChanged: true, scoreDelta: 0 });
+  });
+
+  it('counts score moves at or above the epsilon as changes', () => {
+    const small = diffShadowRun([makeItem()], [makeItem({ score: 0.72 })]);
+    const large = diffShadowRun([makeItem()], [makeItem({ score: 0.5 })]);
+
+    expect(small.hasDifferences).toBe(false);
+    expect(large.changed).toHaveLength(1);
+    expect(large.changed[0].scoreDelta).toBeCloseTo(-0.2);
+  });
+});
+
+describe('fromInitiativeSuggestions', () => {
+  it('keys by initiative and beliefs so a new action is a type flip', () => {
+    const production = fromInitiativeSuggestions([makeInitiativeSuggestion()]);
+    const candidate = fromInitiativeSuggestions([
+      makeInitiativeSuggestion({
+        id: 'sugg-2',
+        action: 'mutate_release_date',
+        belief_ids: ['b1', 'b2'],
+        payload: {
+          current_release_date: '2026-11-01',
+          proposed_release_date: '2026-12-01',
+          direction: 'push_back',
+          rationale: 'Vendor delay',
+          confidence: 0.8,
+        },
+      }),
+    ]);
+
+    expect(production[0].key).toBe('init-1::b1,b2');
+    expect(diffShadowRun(production, candidate).typeFlipCount).toBe(1);
+  });
+});
+
+// ============================================
+// Aggregation and promotion
+// ============================================
+
+describe('evaluatePromotion', () => {
+  const criteria = { minRuns: 3, maxDiffRate: 0.5, maxTypeFlipRate: 0.1 };
+  const same = toShadowRunCounts(diffShadowRun([makeItem()], [makeItem()]));
+  const flipped = toShadowRunCounts(diffShadowRun([makeItem()], [makeItem({ key: 'x', type: 'idea' })]));
+
+  it('needs the minimum number of runs', () => {
+    const summary = summarizeShadowRuns([same, same]);
+
+    expect(evaluatePromotion(summary, criteria)).toEqual({
+      eligible: false,
+      reasons: ['2 of 3 shadow runs recorded'],
+    });
+  });
+
+  it('checks diff and type flip rates against the criteria', () => {
+    const summary = summarizeShadowRuns([same, same, flipped]);
+
+    expect(summary.diffRate).toBeCloseTo(1 / 3);
+    expect(summary.typeFlipRate).toBeCloseTo(1 / 3);
+    expect(evaluatePromotion(summary, criteria)).toEqual({
+      eligible: false,
+      reasons: ['type flip rate 33% is above 10%'],
+    });
+    expect(evaluatePromotion(summary, { ...criteria, maxTypeFlipRate: 0.5 }).eligible).toBe(true);
+  });
+});
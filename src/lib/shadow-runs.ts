@@ -0,0 +1,307 @@
+/**
+ * Shadow Runs
+ *
+ * Compare a candidate pipeline version against production on the same
+ * input. A shadow experiment pins a feature flag to a candidate value; every
+ * production run of the pipeline also runs the candidate, without storing
+ * its output, and the structured diff is recorded in convex (shadowRuns.ts).
+ * Once enough runs agree closely enough, the candidate can be promoted to
+ * the flag's global value.
+ *
+ * Both pipelines are reduced to ShadowItems so one diff covers them:
+ * suggestion engine v2 output (fromEngineSuggestions) and belief-to-initiative
+ * v1/v2 output (fromInitiativeSuggestions).
+ */
+
+import type { Suggestion } from './suggestion-engine-v2/types';
+import type { InitiativeSuggestion } from './belief-to-initiative/types';
+import { FLAG_DEFINITIONS, validateFlagOverride } from './feature-flags';
+import type { FlagDefinition, FlagKey } from './feature-flags';
+import { tokenOverlap } from './suggestion-keys';
+
+// ============================================
+// Pipelines
+// ============================================
+
+export type ShadowPipeline = 'belief_to_initiative' | 'suggestion_engine';
+
+/** Flags that select between pipeline versions, and the pipeline each one drives */
+export const SHADOW_FLAG_PIPELINES: Partial<Record<FlagKey, ShadowPipeline>> = {
+  belief_pipeline: 'belief_to_initiative',
+  llm_classifiers: 'suggestion_engine',
+  llm_rewrite: 'suggestion_engine',
+};
+
+/** Variant values that are run modes rather than a pipeline version */
+const NON_CANDIDATE_VALUES = new Set(['dual_run']);
+
+/**
+ * Check a flag and candidate value for a shadow experiment.
+ * Returns an error message, or null when valid.
+ */
+export function validateShadowExperiment(flagKey: string, candidateValue: unknown): string | null {
+  const error = validateFlagOverride(flagKey, candidateValue);
+  if (error) return error;
+  if (!SHADOW_FLAG_PIPELINES[flagKey as FlagKey]) {
+    return `${flagKey} does not select a pipeline version`;
+  }
+  if (typeof candidateValue === 'string' && NON_CANDIDATE_VALUES.has(candidateValue)) {
+    return `${candidateValue} is not a pipeline version`;
+  }
+  return null;
+}
+
+export function describeFlagValue(flagKey: FlagKey, value: boolean | string): string {
+  const definition: FlagDefinition = FLAG_DEFINITIONS[flagKey];
+  if (definition.kind === 'variant') return String(value);
+  return value ? 'on' : 'off';
+}
+
+// ============================================
+// Items
+// ============================================
+
+/** What the diff needs to know about one suggestion from either pipeline */
+export interface ShadowItem {
+  /** Stable identity within a run pair; exact-key matches are paired first */
+  key: string;
+  /** Suggestion type (engine) or action (belief-to-initiative) */
+  type: string;
+  title: string;
+  /** Evidence text, used to pair suggestions whose key changed with the type */
+  anchor: string;
+  score?: number;
+}
+
+export function fromEngineSuggestions(suggestions: Suggestion[]): ShadowItem[] {
+  return suggestions.map((s) => ({
+    key: s.suggestionKey,
+    type: s.type,
+    title: s.title,
+    anchor: s.evidence_spans.map((span) => span.text).join(' '),
+    score: s.scores.overall,
+  }));
+}
+
+function initiativeSuggestionTitle(s: InitiativeSuggestion): string {
+  if ('body' in s.payload) return s.payload.body.slice(0, 120);
+  return `${s.payload.direction === 'push_back' ? 'Push back' : 'Pull in'} release to ${s.payload.proposed_release_date ?? 'TBD'}`;
+}
+
+/**
+ * Belief-to-initiative suggestions are keyed by target initiative and
+ * supporting beliefs, which both versions read from the same extraction,
+ * so a different action for the same beliefs shows up as a type flip.
+ */
+export function fromInitiativeSuggestions(suggestions: InitiativeSuggestion[]): ShadowItem[] {
+  return suggestions.map((s) => ({
+    key: `${s.target_initiative_id ?? 'unrouted'}::${[...s.belief_ids].sort().join(',')}`,
+    type: s.action,
+    title: initiativeSuggestionTitle(s),
+    anchor: s.evidence_spans.map((span) => span.snippet).join(' '),
+    score: s.priority_score,
+  }));
+}
+
+// ============================================
+// Diff
+// ============================================
+
+/** Min anchor token overlap to pair suggestions whose keys differ */
+const MIN_ANCHOR_OVERLAP = 0.6;
+/** Score moves smaller than this are noise, not a change */
+export const SCORE_DELTA_EPSILON = 0.05;
+
+export interface ShadowChange {
+  production: ShadowItem;
+  candidate: ShadowItem;
+  typeFlip: boolean;
+  titleChanged: boolean;
+  /** candidate - production, when both have a score */
+  scoreDelta?: number;
+}
+
+export interface ShadowDiff {
+  productionCount: number;
+  candidateCount: number;
+  /** Only in the candidate run */
+  added: ShadowItem[];
+  /** Only in the production run */
+  removed: ShadowItem[];
+  /** Paired, with a type flip, new title or score move */
+  changed: ShadowChange[];
+  unchangedCount: number;
+  typeFlipCount: number;
+  /** Mean |scoreDelta| over paired suggestions with scores */
+  meanAbsScoreDelta?: number;
+  hasDifferences: boolean;
+}
+
+/**
+ * Diff a candidate run against production, one to one.
+ *
+ * Suggestions with the same key are paired first; the rest are paired by
+ * anchor overlap regardless of type, best first, so a suggestion the
+ * candidate emits under a different type is a type flip rather than a
+ * removal plus an addition.
+ */
+export function diffShadowRun(production: ShadowItem[], candidate: ShadowItem[]): ShadowDiff {
+  const pairs: Array<[ShadowItem, ShadowItem]> = [];
+  const candidateByKey = new Map(candidate.map((item) => [item.key, item]));
+  const pairedCandidates = new Set<ShadowItem>();
+  const unpaired: ShadowItem[] = [];
+
+  for (const item of production) {
+    const match = candidateByKey.get(item.key);
+    if (match && !pairedCandidates.has(match)) {
+      pairs.push([item, match]);
+      pairedCandidates.add(match);
+    } else {
+      unpaired.push(item);
+    }
+  }
+
+  const fuzzy = unpaired
+    .flatMap((prod) =>
+      candidate
+        .filter((cand) => !pairedCandidates.has(cand))
+        .map((cand) => ({ prod, cand, overlap: prod.anchor.trim() ? tokenOverlap(prod.anchor, cand.anchor) : 0 }))
+    )
+    .filter((pair) => pair.overlap >= MIN_ANCHOR_OVERLAP)
+    .sort((a, b) => b.overlap - a.overlap);
+  const pairedProduction = new Set(pairs.map(([prod]) => prod));
+  for (const { prod, cand } of fuzzy) {
+    if (pairedProduction.has(prod) || pairedCandidates.has(cand)) continue;
+    pairs.push([prod, cand]);
+    pairedProduction.add(prod);
+    pairedCandidates.add(cand);
+  }
+
+  const changed: ShadowChange[] = [];
+  const deltas: number[] = [];
+  for (const [prod, cand] of pairs) {
+    const scoreDelta = prod.score !== undefined && cand.score !== undefined ? cand.score - prod.score : undefined;
+    if (scoreDelta !== undefined) deltas.push(Math.abs(scoreDelta));
+    const typeFlip = prod.type !== cand.type;
+    const titleChanged = prod.title !== cand.title;
+    if (typeFlip || titleChanged || (scoreDelta !== undefined && Math.abs(scoreDelta) >= SCORE_DELTA_EPSILON)) {
+      changed.push({ production: prod, candidate: cand, typeFlip, titleChanged, scoreDelta });
+    }
+  }
+
+  const added = candidate.filter((item) => !pairedCandidates.has(item));
+  const removed = production.filter((item) => !pairedProduction.has(item));
+
+  return {
+    productionCount: production.length,
+    candidateCount: candidate.length,
+    added,
+    removed,
+    changed,
+    unchangedCount: pairs.length - changed.length,
+    typeFlipCount: changed.filter((c) => c.typeFlip).length,
+    meanAbsScoreDelta: deltas.length > 0 ? deltas.reduce((sum, d) => sum + d, 0) / deltas.length : undefined,
+    hasDifferences: added.length > 0 || removed.length > 0 || changed.length > 0,
+  };
+}
+
+// ============================================
+// Aggregation and promotion
+// ============================================
+
+/** Per-run counts kept for aggregation */
+export type ShadowRunCounts = Pick<
+  ShadowDiff,
+  'productionCount' | 'candidateCount' | 'unchangedCount' | 'typeFlipCount' | 'meanAbsScoreDelta' | 'hasDifferences'
+> & {
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+};
+
+export function toShadowRunCounts(diff: ShadowDiff): ShadowRunCounts {
+  return {
+    productionCount: diff.productionCount,
+    candidateCount: diff.candidateCount,
+    addedCount: diff.added.length,
+    removedCount: diff.removed.length,
+    changedCount: diff.changed.length,
+    unchangedCount: diff.unchangedCount,
+    typeFlipCount: diff.typeFlipCount,
+    meanAbsScoreDelta: diff.meanAbsScoreDelta,
+    hasDifferences: diff.hasDifferences,
+  };
+}
+
+export interface ShadowSummary {
+  runs: number;
+  runsWithDifferences: number;
+  /** Share of runs where the candidate's output differed at all */
+  diffRate: number;
+  added: number;
+  removed: number;
+  changed: number;
+  typeFlips: number;
+  /** Type flips per production suggestion */
+  typeFlipRate: number;
+  /** Mean of the per-run mean |score delta|, over runs with paired scores */
+  meanAbsScoreDelta?: number;
+}
+
+export function summarizeShadowRuns(runs: ShadowRunCounts[]): ShadowSummary {
+  const sum = (pick: (run: ShadowRunCounts) => number) => runs.reduce((total, run) => total + pick(run), 0);
+  const runsWithDifferences = runs.filter((run) => run.hasDifferences).length;
+  const productionTotal = sum((run) => run.productionCount);
+  const typeFlips = sum((run) => run.typeFlipCount);
+  const scored = runs.filter((run) => run.meanAbsScoreDelta !== undefined);
+
+  return {
+    runs: runs.length,
+    runsWithDifferences,
+    diffRate: runs.length > 0 ? runsWithDifferences / runs.length : 0,
+    added: sum((run) => run.addedCount),
+    removed: sum((run) => run.removedCount),
+    changed: sum((run) => run.changedCount),
+    typeFlips,
+    typeFlipRate: productionTotal > 0 ? typeFlips / productionTotal : 0,
+    meanAbsScoreDelta: scored.length > 0
+      ? scored.reduce((total, run) => total + run.meanAbsScoreDelta!, 0) / scored.length
+      : undefined,
+  };
+}
+
+export interface PromotionCriteria {
+  minRuns: number;
+  /** Max share of runs with any difference */
+  maxDiffRate: number;
+  /** Max type flips per production suggestion */
+  maxTypeFlipRate: number;
+}
+
+export const DEFAULT_PROMOTION_CRITERIA: PromotionCriteria = {
+  minRuns: 20,
+  maxDiffRate: 0.25,
+  maxTypeFlipRate: 0.05,
+};
+
+export interface PromotionCheck {
+  eligible: boolean;
+  /** Why the candidate is not eligible yet; empty when eligible */
+  reasons: string[];
+}
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export function evaluatePromotion(summary: ShadowSummary, criteria: PromotionCriteria): PromotionCheck {
+  const reasons: string[] = [];
+  if (summary.runs < criteria.minRuns) {
+    reasons.push(`${summary.runs} of ${criteria.minRuns} shadow runs recorded`);
+  }
+  if (summary.diffRate > criteria.maxDiffRate) {
+    reasons.push(`diff rate ${percent(summary.diffRate)} is above ${percent(criteria.maxDiffRate)}`);
+  }
+  if (summary.typeFlipRate > criteria.maxTypeFlipRate) {
+    reasons.push(`type flip rate ${percent(summary.typeFlipRate)} is above ${percent(criteria.maxTypeFlipRate)}`);
+  }
+  return { eligible: reasons.length === 0, reasons };
+}
@@ -0,0 +1,130 @@
+/**
+ * Tests for initiative status reports
+ *
+ * Tests:
+ *   1. buildStatusReport: sections, date range, citation numbering
+ *   2. renderStatusReportMarkdown: headings, citations, sources, empty sections
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildStatusReport, renderStatusReportMarkdown } from './status-report';
+import type { StatusReportInput } from './status-report';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MAR_2 = Date.UTC(2026, 2, 2);
+const MAR_8 = Date.UTC(2026, 2, 8, 23, 59);
+
+function makeInput(overrides: Partial<StatusReportInput> = {}): StatusReportInput {
+  return {
+    initiative: { title: 'Checkout redesign', status: 'in_progress', releaseTargetDate: Date.UTC(2026, 2, 24) },
+    from: MAR_2,
+    to: MAR_8,
+    notes: [
+      { noteId: 'note-1', title: 'Weekly sync', notedAt: MAR_2 + DAY },
+      { noteId: 'note-2', title: 'Payments review', notedAt: MAR_2 + 3 * DAY },
+    ],
+    appliedSuggestions: [
+      { noteId: 'note-2', type: 'project_update', title: 'Update: Billing integration done', appliedAt: MAR_2 + 3 * DAY },
+      { noteId: 'note-1', type: 'idea', title: 'Idea: Saved carts', appliedAt: MAR_2 + DAY },
+      // Before the range
+      { noteId: 'note-1', type: 'project_update', title: 'Update: Kickoff held', appliedAt: MAR_2 - 5 * DAY },
+    ],
+    beliefs: [
+      { noteId: 'note-2', dimension: 'ownership', label: 'owner Dana', previousLabel: 'owner Sam', isChange: true, notedAt: MAR_2 + 3 * DAY },
+      { noteId: 'note-1', dimension: 'scope', label: 'Apple Pay in scope', isChange: false, notedAt: MAR_2 + DAY },
+    ],
+    decisions: [
+      {
+        noteId: 'note-1',
+        statement: 'Use Stripe for billing',
+        rationale: 'fastest integration',
+        decidedAt: MAR_2 + DAY,
+        lines: { startLine: 4, endLine: 5 },
+      },
+    ],
+    dateChanges: [
+      { dateType: 'target', oldDate: Date.UTC(2026, 2, 3), newDate: Date.UTC(2026, 2, 24), occurredAt: MAR_2 + 2 * DAY, noteId: 'note-1' },
+    ],
+    openRisks: [{ noteId: 'note-2', title: 'Risk: Fraud checks missing', raisedAt: MAR_2 + 3 * DAY }],
+    nextSteps: [
+      { noteId: 'note-2', title: 'Action: Dana to send the rollout plan', raisedAt: MAR_2 + 3 * DAY },
+      // Raised after the range
+      { noteId: 'note-2', title: 'Action: Later item', raisedAt: MAR_8 + DAY },
+    ],
+    ...overrides,
+  };
+}
+
+// ============================================
+// Build
+// ============================================
+
+describe('buildStatusReport', () => {
+  it('sorts items into progress, changes, risks and next steps within the range', () => {
+    const report = buildStatusReport(makeInput());
+    const texts = (heading: string) =>
+      report.sections.find((s) => s.heading === heading)!.lines.map((l) => l.text);
+
+    expect(texts('Progress')).toEqual(['Saved carts', 'Billing integration done']);
+    expect(texts('Changes')).toEqual([
+      '**Decision:** Use Stripe for billing (why: fastest integration)',
+      '**Target date:** 2026-03-03 → 2026-03-24',
+      '**Owner:** owner Dana (was owner Sam)',
+    ]);
+    expect(texts('Risks')).toEqual(['Fraud checks missing']);
+    expect(texts('Next steps')).toEqual(['Dana to send the rollout plan']);
+    expect(report.summary).toEqual(['Status: In progress', 'Target: 2026-03-24']);
+  });
+
+  it('numbers citations per note in reading order', () => {
+    const report = buildStatusReport(makeInput());
+
+    expect(report.sources.map((s) => [s.number, s.noteId])).toEqual([
+      [1, 'note-1'],
+      [2, 'note-2'],
+    ]);
+    const decision = report.sections[1].lines[0];
+    expect(decision.citations).toEqual([{ number: 1, noteId: 'note-1', lines: { startLine: 4, endLine: 5 } }]);
+  });
+
+  it('leaves lines from unknown notes uncited', () => {
+    const report = buildStatusReport(makeInput({
+      dateChanges: [{ dateType: 'target', oldDate: null, newDate: Date.UTC(2026, 2, 24), occurredAt: MAR_2 + DAY }],
+    }));
+    const change = report.sections[1].lines.find((l) => l.text.startsWith('**Target date'))!;
+    expect(change.text).toBe('**Target date:** none → 2026-03-24');
+    expect(change.citations).toEqual([]);
+  });
+});
+
+// ============================================
+// Render
+// ============================================
+
+describe('renderStatusReportMarkdown', () => {
+  it('renders sections with inline citations and a sources list', () => {
+    const markdown = renderStatusReportMarkdown(buildStatusReport(makeInput()), { linkBase: 'https://app.example' });
+
+    expect(markdown).toContain('# Status update: Checkout redesign\n\n_2026-03-02 – 2026-03-08_');
+    expect(markdown).toContain('## Progress\n\n- Saved carts [[1]](https://app.example/notes/note-1)');
+    expect(markdown).toContain(
+      '- **Decision:** Use Stripe for billing (why: fastest integration) [[1]](https://app.example/notes/note-1?lines=5-6)'
+    );
+    expect(markdown).toContain('## Sources\n\n1. [Weekly sync](https://app.example/notes/note-1) — 2026-03-03\n2. [Payments review]');
+  });
+
+  it('says so when a section is empty and omits sources without citations', () => {
+    const markdown = renderStatusReportMarkdown(buildStatusReport(makeInput({
+      appliedSuggestions: [],
+      beliefs: [],
+      decisions: [],
+      dateChanges: [],
+      openRisks: [],
+      nextSteps: [],
+    })));
+
+    expect(markdown).toContain('## Progress\n\n_No progress recorded in this period._');
+    expect(markdown).toContain('## Risks\n\n_No open risks._');
+    expect(markdown).not.toContain('## Sources');
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Initiative Status Reports
+ *
+ * Builds a weekly-style status update for one initiative from what the notes
+ * already recorded about it: applied suggestions, note assertions (what each
+ * note stated about timeline, scope, ownership and status), decisions,
+ * release date changes and open risks. Every line cites the note(s) it came
+ * from; citations are numbered per note in order of first use.
+ *
+ * Pure functions only. convex/statusReports.ts collects the input and saves
+ * the rendered markdown as an initiative comment.
+ */
+
+import type { SuggestionType } from './suggestion-engine-v2/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ReportNote {
+  noteId: string;
+  title: string;
+  /** Meeting time, or capture time */
+  notedAt: number;
+}
+
+/** Note lines a report line was taken from (0-based, inclusive) */
+export interface ReportLineRange {
+  startLine: number;
+  endLine: number;
+}
+
+interface Cited {
+  noteId?: string;
+  lines?: ReportLineRange;
+}
+
+export interface ReportAppliedSuggestion extends Cited {
+  noteId: string;
+  type: SuggestionType;
+  title: string;
+  appliedAt: number;
+}
+
+/** A note assertion (convex/noteAssertions.ts) */
+export interface ReportBelief extends Cited {
+  noteId: string;
+  dimension: 'timeline' | 'scope' | 'ownership' | 'status';
+  label: string;
+  previousLabel?: string;
+  isChange: boolean;
+  notedAt: number;
+}
+
+export interface ReportDecision extends Cited {
+  noteId: string;
+  statement: string;
+  rationale?: string;
+  decidedAt: number;
+}
+
+/** A release date change event; noteId when it came from an applied suggestion */
+export interface ReportDateChange extends Cited {
+  dateType: 'target' | 'windowStart' | 'windowEnd';
+  oldDate: number | null;
+  newDate: number | null;
+  occurredAt: number;
+}
+
+/** A risk raised in a note that has not been dismissed */
+export interface ReportRisk extends Cited {
+  noteId: string;
+  title: string;
+  raisedAt: number;
+}
+
+/** An action item raised in a note (applied, or still undecided) */
+export interface ReportNextStep extends Cited {
+  noteId: string;
+  title: string;
+  raisedAt: number;
+}
+
+export interface StatusReportInput {
+  initiative: {
+    title: string;
+    status?: string;
+    releaseTargetDate?: number;
+    riskLevel?: string;
+  };
+  /** Inclusive range the report covers */
+  from: number;
+  to: number;
+  notes: ReportNote[];
+  appliedSuggestions: ReportAppliedSuggestion[];
+  beliefs: ReportBelief[];
+  decisions: ReportDecision[];
+  dateChanges: ReportDateChange[];
+  openRisks: ReportRisk[];
+  nextSteps: ReportNextStep[];
+}
+
+export interface ReportCitation {
+  /** 1-based, in order of first use */
+  number: number;
+  noteId: string;
+  lines?: ReportLineRange;
+}
+
+export interface ReportLine {
+  text: string;
+  at: number;
+  citations: ReportCitation[];
+}
+
+export interface StatusReportSection {
+  heading: 'Progress' | 'Changes' | 'Risks' | 'Next steps';
+  lines: ReportLine[];
+}
+
+export interface StatusReport {
+  title: string;
+  from: number;
+  to: number;
+  summary: string[];
+  sections: StatusReportSection[];
+  /** Cited notes, in citation order */
+  sources: (ReportNote & { number: number })[];
+}
+
+export interface StatusReportRenderOptions {
+  /** Prefix for note links, e.g. the app origin for exported files */
+  linkBase?: string;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+const DIMENSION_LABELS: Record<ReportBelief['dimension'], string> = {
+  timeline: 'Timeline',
+  scope: 'Scope',
+  ownership: 'Owner',
+  status: 'Status',
+};
+
+const DATE_TYPE_LABELS: Record<ReportDateChange['dateType'], string> = {
+  target: 'Target date',
+  windowStart: 'Release window start',
+  windowEnd: 'Release window end',
+};
+
+export function formatReportDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatStatus(status: string): string {
+  const text = status.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/** Engine titles carry a type prefix ("Risk: …"); the section already says it */
+function stripTypePrefix(title: string): string {
+  return title.replace(/^(Update|Idea|Risk|Bug|Action|Conflict)\s*:\s*/i, '');
+}
+
+// ============================================
+// Build
+// ============================================
+
+/**
+ * Arrange the input into report sections. Dated items outside [from, to]
+ * are left out; open risks and next steps are included when raised before
+ * the end of the range.
+ */
+export function buildStatusReport(input: StatusReportInput): StatusReport {
+  const { from, to } = input;
+  const inRange = (at: number) => at >= from && at <= to;
+  const notesById = new Map(input.notes.map((n) => [n.noteId, n]));
+
+  // Numbered once the sections are sorted, so numbers follow reading order
+  const cite = (item: Cited): ReportCitation[] =>
+    item.noteId && notesById.has(item.noteId) ? [{ number: 0, noteId: item.noteId, lines: item.lines }] : [];
+  const byTime = (a: ReportLine, b: ReportLine) => a.at - b.at;
+
+  const applied = input.appliedSuggestions.filter((s) => inRange(s.appliedAt));
+
+  const progress: ReportLine[] = [
+    ...applied
+      .filter((s) => s.type === 'project_update' || s.type === 'idea' || s.type === 'bug')
+      .map((s) => ({ text: stripTypePrefix(s.title), at: s.appliedAt, citations: cite(s) })),
+    ...input.beliefs
+      .filter((b) => b.dimension === 'status' && inRange(b.notedAt))
+      .map((b) => ({ text: `Status: ${b.label}`, at: b.notedAt, citations: cite(b) })),
+  ].sort(byTime);
+
+  const changes: ReportLine[] = [
+    ...input.decisions
+      .filter((d) => inRange(d.decidedAt))
+      .map((d) => ({
+        text: `**Decision:** ${d.statement}${d.rationale ? ` (why: ${d.rationale})` : ''}`,
+        at: d.decidedAt,
+        citations: cite(d),
+      })),
+    ...input.dateChanges
+      .filter((c) => inRange(c.occurredAt))
+      .map((c) => ({
+        text: `**${DATE_TYPE_LABELS[c.dateType]}:** ${c.oldDate !== null ? formatReportDate(c.oldDate) : 'none'} → ${
+          c.newDate !== null ? formatReportDate(c.newDate) : 'none'
+        }`,
+        at: c.occurredAt,
+        citations: cite(c),
+      })),
+    ...input.beliefs
+      .filter((b) => b.isChange && b.dimension !== 'status' && inRange(b.notedAt))
+      .map((b) => ({
+        text: `**${DIMENSION_LABELS[b.dimension]}:** ${b.label}${b.previousLabel ? ` (was ${b.previousLabel})` : ''}`,
+        at: b.notedAt,
+        citations: cite(b),
+      })),
+  ].sort(byTime);
+
+  const risks: ReportLine[] = [
+    ...input.openRisks
+      .filter((r) => r.raisedAt <= to)
+      .map((r) => ({ text: stripTypePrefix(r.title), at: r.raisedAt, citations: cite(r) })),
+    ...applied
+      .filter((s) => s.type === 'risk')
+      .map((s) => ({ text: stripTypePrefix(s.title), at: s.appliedAt, citations: cite(s) })),
+  ].sort(byTime);
+
+  const nextSteps: ReportLine[] = input.nextSteps
+    .filter((s) => s.raisedAt <= to)
+    .map((s) => ({ text: stripTypePrefix(s.title), at: s.raisedAt, citations: cite(s) }))
+    .sort(byTime);
+
+  const summary: string[] = [];
+  if (input.initiative.status) summary.push(`Status: ${formatStatus(input.initiative.status)}`);
+  if (input.initiative.releaseTargetDate !== undefined) {
+    summary.push(`Target: ${formatReportDate(input.initiative.releaseTargetDate)}`);
+  }
+  if (input.initiative.riskLevel) summary.push(`Risk: ${input.initiative.riskLevel}`);
+
+  const sections: StatusReportSection[] = [
+    { heading: 'Progress', lines: progress },
+    { heading: 'Changes', lines: changes },
+    { heading: 'Risks', lines: risks },
+    { heading: 'Next steps', lines: nextSteps },
+  ];
+
+  const citationNumbers = new Map<string, number>();
+  for (const line of sections.flatMap((section) => section.lines)) {
+    for (const citation of line.citations) {
+      if (!citationNumbers.has(citation.noteId)) citationNumbers.set(citation.noteId, citationNumbers.size + 1);
+      citation.number = citationNumbers.get(citation.noteId)!;
+    }
+  }
+
+  return {
+    title: input.initiative.title,
+    from,
+    to,
+    summary,
+    sections,
+    sources: [...citationNumbers].map(([noteId, number]) => ({ ...notesById.get(noteId)!, number })),
+  };
+}
+
+// ============================================
+// Render
+// ============================================
+
+const EMPTY_SECTION_TEXT: Record<StatusReportSection['heading'], string> = {
+  Progress: 'No progress recorded in this period.',
+  Changes: 'No decisions or changes recorded in this period.',
+  Risks: 'No open risks.',
+  'Next steps': 'No open action items.',
+};
+
+function noteLink(noteId: string, options: StatusReportRenderOptions, lines?: ReportLineRange): string {
+  const path = `${options.linkBase ?? ''}/notes/${noteId}`;
+  return lines ? `${path}?lines=${lines.startLine + 1}-${lines.endLine + 1}` : path;
+}
+
+/**
+ * Markdown for a report. Inline citations link to the cited lines; the
+ * Sources list links to each note.
+ */
+export function renderStatusReportMarkdown(report: StatusReport, options: StatusReportRenderOptions = {}): string {
+  const out: string[] = [];
+  out.push(`# Status update: ${report.title}`);
+  out.push('');
+  out.push(`_${formatReportDate(report.from)} – ${formatReportDate(report.to)}_`);
+  if (report.summary.length > 0) {
+    out.push('');
+    out.push(report.summary.join(' · '));
+  }
+
+  for (const section of report.sections) {
+    out.push('');
+    out.push(`## ${section.heading}`);
+    out.push('');
+    if (section.lines.length === 0) {
+      out.push(`_${EMPTY_SECTION_TEXT[section.heading]}_`);
+      continue;
+    }
+    for (const line of section.lines) {
+      const citations = line.citations
+        .map((c) => `[[${c.number}]](${noteLink(c.noteId, options, c.lines)})`)
+        .join('');
+      out.push(`- ${line.text}${citations ? ` ${citations}` : ''}`);
+    }
+  }
+
+  if (report.sources.length > 0) {
+    out.push('');
+    out.push('## Sources');
+    out.push('');
+    for (const source of report.sources) {
+      out.push(`${source.number}. [${source.title || 'Untitled Note'}](${noteLink(source.noteId, options)}) — ${formatReportDate(source.notedAt)}`);
+    }
+  }
+
+  return out.join('\n') + '\n';
+}
@@ -0,0 +1,145 @@
+/**
+ * Tests for suggestion edit utilities (edit-then-apply)
+ *
+ * Tests:
+ *   1. computeEditRatio
+ *   2. summarizeSuggestionEdit: edit type per kind of change
+ *   3. toEditableSuggestion / applySuggestionEdit
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeEditRatio,
+  summarizeSuggestionEdit,
+  toEditableSuggestion,
+  applySuggestionEdit,
+  MAJOR_EDIT_RATIO,
+} from './suggestion-edits';
+import type { EditableSuggestion } from './suggestion-edits';
+import type { Suggestion } from './suggestion-engine-v2/types';
+
+const ORIGINAL: EditableSuggestion = {
+  type: 'project_update',
+  title: 'Push checkout launch to April',
+  body: 'Payments are not ready for the March launch.',
+  initiativeId: 'init-checkout',
+};
+
+function makeSuggestion(overrides: Partial<Suggestion> = {}): Suggestion {
+  return {
+    suggestion_id: 'sug-1',
+    note_id: 'note-1',
+    section_id: 'sec-1',
+    type: 'project_update',
+    title: 'Update: Push checkout launch to April',
+    payload: { after_description: 'Payments are not ready for the March launch.' },
+    evidence_spans: [{ start_line: 3, end_line: 3, text: 'Push the checkout launch to April.' }],
+    scores: {
+      section_actionability: 0.8,
+      type_choice_confidence: 0.8,
+      synthesis_confidence: 0.8,
+      overall: 0.8,
+    },
+    routing: { create_new: false, attached_initiative_id: 'init-checkout' },
+    suggestionKey: 'v2_key',
+    suggestion: {
+      title: 'Update: Push checkout launch to April',
+      body: 'Payments are not ready for the March launch.',
+      sourceSectionId: 'sec-1',
+      sourceHeading: 'Checkout',
+    },
+    ...overrides,
+  } as Suggestion;
+}
+
+// ============================================
+// Edit ratio
+// ============================================
+
+describe('computeEditRatio', () => {
+  it('is 0 for identical text, ignoring whitespace', () => {
+    expect(computeEditRatio('Push  the launch ', 'Push the launch')).toBe(0);
+    expect(computeEditRatio('', '')).toBe(0);
+  });
+
+  it('grows with the share of characters changed', () => {
+    const small = computeEditRatio('Push checkout launch to April', 'Push checkout launch to May');
+    const large = computeEditRatio('Push checkout launch to April', 'Hire a payments engineer');
+    expect(small).toBeGreaterThan(0);
+    expect(small).toBeLessThan(MAJOR_EDIT_RATIO);
+    expect(large).toBeGreaterThanOrEqual(MAJOR_EDIT_RATIO);
+    expect(computeEditRatio('', 'anything')).toBe(1);
+  });
+});
+
+// ============================================
+// Edit classification
+// ============================================
+
+describe('summarizeSuggestionEdit', () => {
+  it('reports no edit type when applied as-is', () => {
+    expect(summarizeSuggestionEdit(ORIGINAL, { ...ORIGINAL })).toEqual({
+      editType: undefined,
+      editedFields: [],
+      editRatio: 0,
+    });
+  });
+
+  it('classifies small wording fixes as minor_refinement', () => {
+    const summary = summarizeSuggestionEdit(ORIGINAL, { ...ORIGINAL, title: 'Push the checkout launch to April' });
+    expect(summary.editType).toBe('minor_refinement');
+    expect(summary.editedFields).toEqual(['title']);
+  });
+
+  it('classifies a type change or a rewrite as major_correction', () => {
+    expect(summarizeSuggestionEdit(ORIGINAL, { ...ORIGINAL, type: 'idea' }).editType).toBe('major_correction');
+
+    const rewritten = summarizeSuggestionEdit(ORIGINAL, {
+      ...ORIGINAL,
+      title: 'Hire a payments engineer',
+      body: 'We need dedicated payments capacity before any launch.',
+    });
+    expect(rewritten.editType).toBe('major_correction');
+    expect(rewritten.editedFields).toEqual(['title', 'body']);
+  });
+
+  it('classifies a different initiative as changed_target unless the text was rewritten', () => {
+    const retargeted = summarizeSuggestionEdit(ORIGINAL, { ...ORIGINAL, initiativeId: 'init-payments' });
+    expect(retargeted.editType).toBe('changed_target');
+    expect(retargeted.editedFields).toEqual(['initiative']);
+
+    // Routed to an existing initiative, applied as a new one
+    expect(summarizeSuggestionEdit(ORIGINAL, { ...ORIGINAL, initiativeId: undefined }).editType).toBe('changed_target');
+
+    expect(summarizeSuggestionEdit(ORIGINAL, { ...ORIGINAL, type: 'risk', initiativeId: 'init-payments' }).editType)
+      .toBe('major_correction');
+  });
+});
+
+// ============================================
+// Engine suggestions
+// ============================================
+
+describe('toEditableSuggestion / applySuggestionEdit', () => {
+  it('reads the title without its type prefix and the routed initiative', () => {
+    expect(toEditableSuggestion(makeSuggestion())).toEqual(ORIGINAL);
+    expect(toEditableSuggestion(makeSuggestion({ routing: { create_new: true } })).initiativeId).toBeUndefined();
+  });
+
+  it('applies the edit with the new type prefix and keeps key and evidence', () => {
+    const original = makeSuggestion();
+    const edited = applySuggestionEdit(original, {
+      type: 'idea',
+      title: ' Build a payments readiness checklist ',
+      body: 'Track what blocks the launch.',
+    });
+
+    expect(edited.type).toBe('idea');
+    expect(edited.title).toBe('Idea: Build a payments readiness checklist');
+    expect(edited.suggestion?.title).toBe(edited.title);
+    expect(edited.suggestion?.body).toBe('Track what blocks the launch.');
+    expect(edited.payload.after_description).toBe('Track what blocks the launch.');
+    expect(edited.suggestionKey).toBe(original.suggestionKey);
+    expect(edited.evidence_spans).toBe(original.evidence_spans);
+  });
+});
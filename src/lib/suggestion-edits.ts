@@ -0,0 +1,142 @@
+/**
+ * Suggestion Edit Utilities
+ *
+ * Users can edit a suggestion's type, title, body and target initiative
+ * before applying it. The engine output and the applied version are both
+ * stored on the decision; the edit is classified with the feedback loop's
+ * EditType so rule quality can tell "applied as-is" from "applied after
+ * heavy edits".
+ */
+
+import type { EditType } from './belief-to-initiative/feedbackLoop';
+import type { Suggestion, SuggestionType } from './suggestion-engine-v2/types';
+import { stripLegacyPrefix } from './suggestion-engine-v2/suggestionDisplay';
+import { normalizeTitlePrefix } from './suggestion-engine-v2/title-normalization';
+
+/**
+ * The user-editable part of a suggestion.
+ * initiativeId is the target initiative; undefined means "create new".
+ */
+export interface EditableSuggestion {
+  type: SuggestionType;
+  title: string;
+  body: string;
+  initiativeId?: string;
+}
+
+export type EditedField = 'type' | 'title' | 'body' | 'initiative';
+
+export interface SuggestionEditSummary {
+  /** undefined when the suggestion was applied as-is */
+  editType?: EditType;
+  editedFields: EditedField[];
+  /** Share of title + body characters changed (0 = identical, 1 = rewritten) */
+  editRatio: number;
+}
+
+/** Edit ratio at or above which a text edit counts as a major correction */
+export const MAJOR_EDIT_RATIO = 0.4;
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Levenshtein distance between two strings, O(min(a, b)) memory
+ */
+function levenshtein(a: string, b: string): number {
+  if (a.length < b.length) [a, b] = [b, a];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Share of characters changed between two texts (whitespace-normalized)
+ */
+export function computeEditRatio(original: string, edited: string): number {
+  const a = normalizeText(original);
+  const b = normalizeText(edited);
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : levenshtein(a, b) / longest;
+}
+
+/**
+ * Classify the edit between the engine output and what the user applied.
+ *
+ * - major_correction: the type changed, or title + body changed by at least
+ *   MAJOR_EDIT_RATIO
+ * - changed_target: only the target initiative changed (or the text change
+ *   was minor)
+ * - minor_refinement: small text changes
+ * - undefined: applied as-is
+ */
+export function summarizeSuggestionEdit(
+  original: EditableSuggestion,
+  edited: EditableSuggestion
+): SuggestionEditSummary {
+  const editedFields: EditedField[] = [];
+  if (original.type !== edited.type) editedFields.push('type');
+  if (normalizeText(original.title) !== normalizeText(edited.title)) editedFields.push('title');
+  if (normalizeText(original.body) !== normalizeText(edited.body)) editedFields.push('body');
+  if ((original.initiativeId ?? null) !== (edited.initiativeId ?? null)) editedFields.push('initiative');
+
+  const editRatio = computeEditRatio(
+    `${original.title}\n${original.body}`,
+    `${edited.title}\n${edited.body}`
+  );
+
+  let editType: EditType | undefined;
+  if (editedFields.includes('type') || editRatio >= MAJOR_EDIT_RATIO) {
+    editType = 'major_correction';
+  } else if (editedFields.includes('initiative')) {
+    editType = 'changed_target';
+  } else if (editedFields.length > 0) {
+    editType = 'minor_refinement';
+  }
+
+  return { editType, editedFields, editRatio };
+}
+
+/**
+ * The editable fields of an engine suggestion (title without its type
+ * prefix). The target is the initiative Stage 6 routed it to, if any.
+ */
+export function toEditableSuggestion(suggestion: Suggestion): EditableSuggestion {
+  return {
+    type: suggestion.type,
+    title: stripLegacyPrefix(suggestion.suggestion?.title ?? suggestion.title),
+    body: suggestion.suggestion?.body ?? suggestion.payload.after_description ?? '',
+    initiativeId: suggestion.routing.create_new ? undefined : suggestion.routing.attached_initiative_id,
+  };
+}
+
+/**
+ * Engine suggestion with the user's edits applied, for the apply flow.
+ * The title gets the new type's prefix; evidence, scores and key are
+ * unchanged.
+ */
+export function applySuggestionEdit(suggestion: Suggestion, edit: Omit<EditableSuggestion, 'initiativeId'>): Suggestion {
+  const title = normalizeTitlePrefix(edit.type, edit.title.trim());
+  return {
+    ...suggestion,
+    type: edit.type,
+    title,
+    payload: suggestion.payload.after_description !== undefined || edit.type === 'project_update'
+      ? { ...suggestion.payload, after_description: edit.body }
+      : suggestion.payload,
+    suggestion: suggestion.suggestion
+      ? { ...suggestion.suggestion, title, body: edit.body }
+      : suggestion.suggestion,
+  };
+}
@@ -22,6 +22,7 @@ import {
   type EvidenceDebug,
   type TextPreview,
   type ThresholdsUsed,
+  type LLMRunDebug,
 } from "./debugTypes";
 import {
   makePreview,
@@ -39,6 +40,7 @@ import type {
   ThresholdConfig,
   GeneratorConfig,
 } from "./types";
+import type { LLMClassificationRun } from "./llmClassifiers";
 
 // ============================================
 // UUID Generator (simple implementation)
@@ -96,6 +98,7 @@ export class DebugLedger {
   private sections: Map<string, SectionDebug>;
   private stageTimings: Partial<Record<DropStage, number>>;
   private globalError?: Error;
+  private llmRun?: LLMRunDebug;
 
   constructor(options: DebugLedgerOptions) {
     this.runId = generateUUID();
@@ -696,6 +699,43 @@ export class DebugLedger {
     this.stageTimings[stage] = durationMs;
   }
 
+  /**
+   * Record an LLM classification run. Each section is tagged with its
+   * intent source (llm / cache / rules) and, on fallback, the reason.
+   */
+  recordLLMRun(run: LLMClassificationRun): void {
+    if (!this.isActive()) return;
+
+    const fallbacks: LLMRunDebug["fallbacks"] = [];
+    for (const outcome of run.sections) {
+      const section = this.sections.get(outcome.section_id);
+      if (section) {
+        section.metadata = {
+          ...section.metadata,
+          llmSource: outcome.source,
+          ...(outcome.confidence !== undefined ? { llmConfidence: outcome.confidence } : {}),
+          ...(outcome.fallback_reason ? { llmFallbackReason: outcome.fallback_reason } : {}),
+        };
+      }
+      if (outcome.fallback_reason) {
+        fallbacks.push({
+          sectionId: outcome.section_id,
+          reason: outcome.fallback_reason,
+          error: outcome.error,
+        });
+      }
+    }
+
+    this.llmRun = {
+      providerId: run.provider_id,
+      tokenBudget: run.token_budget,
+      tokensUsed: run.tokens_used,
+      calls: run.calls,
+      cacheHits: run.cache_hits,
+      fallbacks,
+    };
+  }
+
   // ============================================
   // Build Final Report
   // ============================================
@@ -744,6 +784,7 @@ export class DebugLedger {
       config,
       noteSummary,
       sections,
+      ...(this.llmRun ? { llm: this.llmRun } : {}),
       runtimeStats,
     });
   }
@@ -786,7 +827,7 @@ export class DebugLedger {
         validationMinScore: 0.5, // Default
         overallMinScore: thresholds.T_overall_min,
       },
-      classificationModel: "rule-based-v2",
+      classificationModel: this.llmRun ? `${this.llmRun.providerId}+rule-based-v2` : "rule-based-v2",
       typeModel: "rule-based-v2",
       synthesisModel: "rule-based-v2",
       validationModels: {
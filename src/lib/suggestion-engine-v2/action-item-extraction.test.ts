@@ -0,0 +1,182 @@
+/**
+ * Action item extraction
+ *
+ * "Who does what by when" lines become action_item suggestions with an
+ * assignee, deliverable and due date instead of being dropped as
+ * out-of-scope role assignments.
+ *
+ * Tests:
+ *   1. extractActionItem: markers, @mentions, owner fields, roles, bare names
+ *   2. findDueClause: due clauses and end-of-day
+ *   3. Title contract and display bucket
+ *   4. Engine: "Next steps" sections emit action items in both pipelines
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { extractActionItem } from './signals';
+import { findDueClause, resolveDateExpression } from './dateResolver';
+import { normalizeTitlePrefix, stripKnownPrefix } from './title-normalization';
+import { groupSuggestionsForDisplay } from './presentation';
+import { generateSuggestions } from './index';
+import { generateSuggestionsWithDebug } from './debugGenerator';
+import { resetSectionCounter } from './preprocessing';
+import { resetSuggestionCounter } from './synthesis';
+import type { Suggestion } from './types';
+
+// Wednesday
+const MEETING_AT = Date.UTC(2026, 4, 13);
+
+function parts(sentence: string, actionSection = false) {
+  return extractActionItem([sentence], { actionSection })[0]?.actionItem;
+}
+
+// ============================================
+// Extractor
+// ============================================
+
+describe('extractActionItem', () => {
+  it('reads @mentions, markers and owner fields', () => {
+    expect(parts('- @dana to send the pricing doc by Thursday')).toEqual({
+      assignee: 'dana',
+      deliverable: 'send the pricing doc',
+      dueText: 'by Thursday',
+    });
+    expect(parts('TODO: update the onboarding checklist')).toEqual({
+      assignee: null,
+      deliverable: 'update the onboarding checklist',
+    });
+    expect(parts('Action: Priya - publish the migration guide due May 20')).toEqual({
+      assignee: 'Priya',
+      deliverable: 'publish the migration guide',
+      dueText: 'due May 20',
+    });
+    expect(parts('Draft the rollout plan (owner: @lee)')).toMatchObject({
+      assignee: 'lee',
+      deliverable: 'Draft the rollout plan',
+    });
+  });
+
+  it('accepts roles anywhere and bare names only in action sections', () => {
+    expect(parts('Legal to review the new terms before next Friday')?.assignee).toBe('Legal');
+    expect(parts('Dana to send the pricing doc by Thursday')).toBeUndefined();
+    expect(parts('Dana to send the pricing doc by Thursday', true)?.assignee).toBe('Dana');
+  });
+
+  it('skips schedule moves, pronouns and prose', () => {
+    expect(parts('Beta to slip by two weeks', true)).toBeUndefined();
+    expect(parts('We will ship the beta by March 24', true)).toBeUndefined();
+    expect(parts('Requirement to implement feature gating by the end of March')).toBeUndefined();
+    expect(parts('AI-assisted search is popular with trial users')).toBeUndefined();
+  });
+
+  it('scores explicit items with a due date highest', () => {
+    const [withDue, withoutDue] = extractActionItem([
+      '@dana to send the pricing doc by Thursday',
+      '@dana to send the pricing doc',
+    ]);
+    expect(withDue.confidence).toBe(0.85);
+    expect(withoutDue.confidence).toBe(0.75);
+  });
+});
+
+// ============================================
+// Due clauses
+// ============================================
+
+describe('findDueClause', () => {
+  it('finds the clause and its date expression', () => {
+    expect(findDueClause('send the doc by Thursday')).toEqual({ clause: 'by Thursday', expression: 'Thursday' });
+    expect(findDueClause('ship it no later than end of Q3')?.expression).toBe('end of Q3');
+    expect(findDueClause('send the doc by email')).toBeNull();
+  });
+
+  it('resolves end of day to the meeting date', () => {
+    expect(resolveDateExpression(findDueClause('reply by EOD')!.expression, MEETING_AT)?.date).toBe('2026-05-13');
+  });
+});
+
+// ============================================
+// Title and display
+// ============================================
+
+describe('action_item titles and buckets', () => {
+  it('uses the Action: prefix without touching "Action items:" content', () => {
+    expect(normalizeTitlePrefix('action_item', 'Idea: dana to send the doc')).toBe('Action: dana to send the doc');
+    expect(stripKnownPrefix('Action: dana to send the doc')).toBe('dana to send the doc');
+    expect(stripKnownPrefix('Action items: follow up')).toBe('Action items: follow up');
+  });
+
+  it('groups action items into their own bucket after bugs', () => {
+    const make = (type: Suggestion['type'], id: string): Suggestion => ({
+      suggestion_id: id,
+      note_id: 'n',
+      section_id: 's',
+      type,
+      title: id,
+      payload: {},
+      evidence_spans: [],
+      scores: { section_actionability: 0.8, type_choice_confidence: 0.8, synthesis_confidence: 0.8, overall: 0.8 },
+      routing: { create_new: false },
+      suggestionKey: id,
+    });
+    const { buckets } = groupSuggestionsForDisplay([make('action_item', 'a'), make('idea', 'i')]);
+    expect(buckets.map((b) => [b.key, b.title])).toEqual([
+      ['idea', 'Ideas'],
+      ['action_item', 'Action Items'],
+    ]);
+  });
+});
+
+// ============================================
+// Engine integration
+// ============================================
+
+describe('engine emits action items', () => {
+  beforeEach(() => {
+    resetSectionCounter();
+    resetSuggestionCounter();
+  });
+
+  const note = {
+    note_id: 'note-actions',
+    meeting_at: '2026-05-13T15:00:00Z',
+    raw_markdown: `# Pricing sync
+
+## Next steps
+- @dana to send the pricing doc by Thursday
+- Legal to review the new terms before next Friday
+- Sam to get sign-off from finance
+- We discussed the roadmap
+`,
+  };
+
+  it('extracts assignee, deliverable and a resolved due date from a suppressed section', () => {
+    const actions = generateSuggestions(note).suggestions.filter((s) => s.type === 'action_item');
+
+    expect(actions.map((s) => s.title)).toEqual(expect.arrayContaining([
+      'Action: dana to send the pricing doc (by Thursday)',
+      'Action: Legal to review the new terms (before next Friday)',
+      'Action: Sam to get sign-off from finance',
+    ]));
+    expect(actions).toHaveLength(3);
+    expect(actions.find((s) => s.title.includes('pricing doc'))?.payload.action_item).toEqual({
+      assignee: 'dana',
+      deliverable: 'send the pricing doc',
+      due_text: 'by Thursday',
+      due: { date: '2026-05-14', precision: 'day', text: 'Thursday' },
+    });
+  });
+
+  it('keeps the due clause without resolving it when there is no anchor', () => {
+    const action = generateSuggestions({ ...note, meeting_at: undefined }).suggestions.find((s) => s.title.includes('pricing doc'));
+    expect(action?.payload.action_item?.due_text).toBe('by Thursday');
+    expect(action?.payload.action_item?.due).toBeUndefined();
+  });
+
+  it('emits the same action items from the debug pipeline', () => {
+    const result = generateSuggestionsWithDebug(note, undefined, { enable_debug: true }, { verbosity: 'REDACTED' });
+    const titles = result.suggestions.filter((s) => s.type === 'action_item').map((s) => s.title);
+    expect(titles).toHaveLength(3);
+    expect(titles).toContain('Action: dana to send the pricing doc (by Thursday)');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Action Item Seeding
+ *
+ * Turns "who does what by when" lines into action_item candidates:
+ *   "@dana to send the pricing doc by Thursday"
+ *   → Action: dana to send the pricing doc (by Thursday)
+ *     payload.action_item = { assignee, deliverable, due_text, due }
+ *
+ * Runs over ALL classified sections. "Next steps" / "Action items" sections
+ * are suppressed as non-actionable for ideas and updates, but they are where
+ * action items live, so suppression does not apply here. Extraction is
+ * line-anchored (one candidate per sentence) and uses extractActionItem;
+ * see signals/extractActionItem.ts for the trigger rules.
+ *
+ * Due clauses are resolved to dates against the meeting date when an anchor
+ * is known (dateResolver.ts). Candidates carry metadata.explicitType so type
+ * normalization never turns them into ideas.
+ */
+
+import type {
+  ClassifiedSection,
+  DateResolverConfig,
+  EvidenceSpan,
+  Suggestion,
+  SuggestionContext,
+} from './types';
+import { DEFAULT_DATE_RESOLVER_CONFIG } from './types';
+import { extractActionItem, formatActionItemTitle } from './signals';
+import { findDueClause, resolveDateExpression } from './dateResolver';
+import { computeSuggestionKey } from '../suggestion-keys';
+
+// ============================================
+// ID generation
+// ============================================
+
+let actionItemCounter = 0;
+
+function generateActionItemId(noteId: string): string {
+  return `sug_action_${noteId.slice(0, 8)}_${++actionItemCounter}`;
+}
+
+/**
+ * Reset counter for deterministic test IDs.
+ */
+export function resetActionItemCounter(): void {
+  actionItemCounter = 0;
+}
+
+// ============================================
+// Section helpers
+// ============================================
+
+/** Headings whose bullets are action items even without @mentions or markers */
+const ACTION_SECTION_HEADING = /\b(action\s+items?|next\s+steps?|follow[- ]?ups?|to-?dos?|owners?|assignments?|takeaways)\b/i;
+
+export function isActionItemSection(headingText: string | undefined): boolean {
+  return ACTION_SECTION_HEADING.test(headingText ?? '');
+}
+
+interface AnchoredSentence {
+  text: string;
+  lineIndex: number;
+}
+
+/**
+ * Body sentences with the line they came from. Bullets are one sentence;
+ * paragraphs are split on sentence punctuation.
+ */
+function sentencesWithLines(section: ClassifiedSection): AnchoredSentence[] {
+  const sentences: AnchoredSentence[] = [];
+  for (const line of section.body_lines) {
+    if (line.line_type === 'heading' || line.is_code_fence) continue;
+    const parts = line.line_type === 'list_item' ? [line.text] : line.text.split(/(?<=[.!?])\s+/);
+    for (const part of parts) {
+      if (part.trim()) sentences.push({ text: part.trim(), lineIndex: line.index });
+    }
+  }
+  return sentences;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Seed action_item candidates from one section.
+ *
+ * @param anchorMs Meeting time for resolving due dates; without it only
+ *                 the due clause text is kept
+ */
+export function seedActionItemCandidates(
+  section: ClassifiedSection,
+  anchorMs?: number,
+  dateConfig: DateResolverConfig = DEFAULT_DATE_RESOLVER_CONFIG
+): Suggestion[] {
+  const sentences = sentencesWithLines(section);
+  if (sentences.length === 0) return [];
+
+  const signals = extractActionItem(
+    sentences.map((s) => s.text),
+    { actionSection: isActionItemSection(section.heading_text) }
+  );
+
+  return signals.map((signal) => {
+    const parts = signal.actionItem!;
+    const anchored = sentences[signal.sentenceIndex];
+    const title = formatActionItemTitle(parts);
+    const body = signal.sentence.replace(/^(?:[-*+]|\d+[.)])\s+/, '').trim();
+
+    const dueExpression = parts.dueText ? findDueClause(parts.dueText)?.expression : undefined;
+    const due =
+      dueExpression && anchorMs !== undefined
+        ? resolveDateExpression(dueExpression, anchorMs, dateConfig) ?? undefined
+        : undefined;
+
+    const evidenceSpan: EvidenceSpan = {
+      start_line: anchored.lineIndex,
+      end_line: anchored.lineIndex,
+      text: body,
+    };
+
+    const suggestionContext: SuggestionContext = {
+      title,
+      body,
+      evidencePreview: [body],
+      sourceSectionId: section.section_id,
+      sourceHeading: section.heading_text || '',
+    };
+
+    return {
+      suggestion_id: generateActionItemId(section.note_id),
+      note_id: section.note_id,
+      section_id: section.section_id,
+      type: 'action_item',
+      title,
+      payload: {
+        action_item: {
+          assignee: parts.assignee,
+          deliverable: parts.deliverable,
+          ...(parts.dueText ? { due_text: parts.dueText } : {}),
+          ...(due ? { due } : {}),
+        },
+      },
+      evidence_spans: [evidenceSpan],
+      scores: {
+        section_actionability: signal.confidence,
+        type_choice_confidence: signal.confidence,
+        synthesis_confidence: signal.confidence,
+        overall: signal.confidence,
+      },
+      routing: { create_new: false },
+      suggestionKey: computeSuggestionKey({
+        noteId: section.note_id,
+        sourceSectionId: section.section_id,
+        type: 'action_item',
+        title,
+      }),
+      metadata: {
+        source: 'action-item',
+        type: 'action_item',
+        label: 'action_item',
+        confidence: signal.confidence,
+        explicitType: true,
+      },
+      suggestion: suggestionContext,
+    };
+  });
+}
+
+/**
+ * Add action items to a candidate list. A candidate already grounded in the
+ * same line (an idea synthesized from "Dana to draft the FAQ") is replaced:
+ * the line is an assignment, not new work.
+ */
+export function mergeActionItemCandidates<T extends Suggestion>(
+  candidates: T[],
+  actionItems: T[]
+): { merged: T[]; replaced: T[] } {
+  if (actionItems.length === 0) return { merged: candidates, replaced: [] };
+
+  const actionLines = new Set(actionItems.map((a) => `${a.section_id}:${a.evidence_spans[0].start_line}`));
+  const replaced: T[] = [];
+  const kept = candidates.filter((candidate) => {
+    const overlaps =
+      candidate.type !== 'action_item' &&
+      candidate.type !== 'project_update' &&
+      candidate.evidence_spans.length === 1 &&
+      actionLines.has(`${candidate.section_id}:${candidate.evidence_spans[0].start_line}`);
+    if (overlaps) replaced.push(candidate);
+    return !overlaps;
+  });
+
+  return { merged: [...kept, ...actionItems], replaced };
+}
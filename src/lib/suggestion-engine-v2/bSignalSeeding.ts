@@ -8,7 +8,7 @@
 
 import type { ClassifiedSection, Suggestion, SuggestionPayload, SuggestionScores, SuggestionRouting, SuggestionContext } from './types';
 import type { Signal } from './signals/types';
-import { extractSignalsFromSentences } from './signals';
+import { extractSignalsFromSentences, formatActionItemTitle } from './signals';
 import { computeSuggestionKey } from '../suggestion-keys';
 import { shouldSuppressProcessSentence } from './processNoiseSuppression';
 import { isStrategyHeadingSection, isStrategyOnlySection } from './classifiers';
@@ -171,6 +171,8 @@ export function titleFromSignal(signal: Signal, headingText: string = ''): strin
       const obj = extractObjectFromSentence(signal.sentence);
       return obj ? `Fix ${obj} issue` : 'Fix reported issue';
     }
+    case 'ACTION_ITEM':
+      return signal.actionItem ? formatActionItemTitle(signal.actionItem) : 'Action: follow up';
   }
 }
 
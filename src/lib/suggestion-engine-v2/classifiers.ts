@@ -2222,8 +2222,8 @@ export function isPlanChangeCandidate(anchorLine: string): boolean {
 // LLM-Enhanced Classification (when enabled)
 // ============================================
 
-import type { LLMProvider } from './llmClassifiers';
-import { classifyIntentWithLLM, blendIntentScores } from './llmClassifiers';
+import type { LLMProvider, LLMClassificationRun } from './llmClassifiers';
+import { classifyIntentWithLLM, blendIntentScores, computeSectionHash } from './llmClassifiers';
 
 /**
  * Options for LLM-enhanced classification
@@ -2266,6 +2266,18 @@ export async function classifySectionWithLLM(
     intent = ruleBasedIntent;
   }
 
+  return classifySectionWithIntent(section, intent, thresholds);
+}
+
+/**
+ * Classify a section from precomputed intent scores (LLM or blended).
+ * Same gates as classifySectionWithLLM after the intent call.
+ */
+export function classifySectionWithIntent(
+  section: Section,
+  intent: IntentClassification,
+  thresholds: ThresholdConfig
+): ClassifiedSection {
   // Use canonical plan_change detection
   const isPlanChange = isPlanChangeIntentLabel(intent);
 
@@ -2404,6 +2416,30 @@ export async function classifySectionWithLLM(
   };
 }
 
+/**
+ * Classify sections using the intents of a finished LLM run.
+ *
+ * Sections the run has an intent for are blended with the rule-based
+ * intent (weighted by the LLM's confidence); every other section (budget
+ * exhausted, provider error, low confidence) uses the rule-based classifier
+ * unchanged.
+ */
+export function classifySectionsWithLLMRun(
+  sections: Section[],
+  thresholds: ThresholdConfig,
+  run: LLMClassificationRun
+): ClassifiedSection[] {
+  return sections.map((section) => {
+    const llm = run.intents[computeSectionHash(section)];
+    if (!llm) return classifySection(section, thresholds);
+    const ruleIntent = classifyIntent(section);
+    const intent = blendIntentScores(llm.intent, ruleIntent, llm.confidence);
+    // Routing flags come from rule-based signals only
+    if (ruleIntent.flags) intent.flags = ruleIntent.flags;
+    return classifySectionWithIntent(section, intent, thresholds);
+  });
+}
+
 /**
  * Classify all sections with LLM enhancement
  */
@@ -0,0 +1,234 @@
+/**
+ * Contradiction detection
+ *
+ * What a note asserts about an initiative's timeline, scope, ownership and
+ * status is compared with the initiative's recorded state and with earlier
+ * notes; disagreements become conflict suggestions with both sides.
+ *
+ * Tests:
+ *   1. Assertions from belief pipeline utterances, routed to initiatives
+ *   2. Conflicts against initiative state (all four dimensions)
+ *   3. Change language updates rather than contradicts
+ *   4. Conflicts against earlier notes
+ *   5. Date precision
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractNoteAssertions, detectConflicts, datesAgree } from './contradictions';
+import type { EarlierAssertion, InitiativeState, NoteAssertion } from './contradictions';
+import { DEFAULT_THRESHOLDS } from './types';
+import type { InitiativeSnapshot, NoteInput } from './types';
+
+const initiatives: InitiativeSnapshot[] = [
+  { id: 'init-checkout', title: 'Checkout v2', description: 'Rebuild the checkout flow and payment launch' },
+  { id: 'init-search', title: 'Search relevance', description: 'Ranking improvements for product search' },
+];
+
+const context = { initiatives };
+const config = { thresholds: { ...DEFAULT_THRESHOLDS, T_attach: 0.2 }, embedding_enabled: false };
+
+function note(raw_markdown: string, note_id = 'note-weekly'): NoteInput {
+  return { note_id, raw_markdown, meeting_at: '2026-02-10T15:00:00Z' };
+}
+
+const WEEKLY = `# Checkout weekly
+
+## Checkout v2
+- Launch is still on track for March 3
+- Checkout is owned by Priya
+- Apple Pay is out of scope for v1
+- We talked about the office move
+`;
+
+const CHECKOUT: InitiativeState = {
+  initiative_id: 'init-checkout',
+  title: 'Checkout v2',
+  release_target_date: '2026-04-14',
+  owner: 'user-dana',
+  status: 'in_progress',
+  scope: 'Card payments, Apple Pay and saved addresses',
+};
+
+// ============================================
+// Assertions
+// ============================================
+
+describe('extractNoteAssertions', () => {
+  it('reads comparable values from classified utterances', async () => {
+    const assertions = await extractNoteAssertions(note(WEEKLY), context, config);
+    expect(assertions.map((a) => [a.dimension, a.value, a.qualifier])).toEqual([
+      ['timeline', '2026-03-03', 'day'],
+      ['status', 'on_track', undefined],
+      ['ownership', 'priya', undefined],
+      ['scope', 'apple pay', 'out'],
+    ]);
+    expect(assertions.every((a) => a.initiative_id === 'init-checkout')).toBe(true);
+    expect(assertions[0].evidence).toEqual({ start_line: 3, end_line: 3, text: 'Launch is still on track for March 3' });
+  });
+
+  it('marks change language and the value it moves away from', async () => {
+    const [moved] = await extractNoteAssertions(
+      note('## Checkout v2\n- Checkout launch date moved from March 3 to March 17'),
+      context,
+      config
+    );
+    expect(moved).toMatchObject({
+      value: '2026-03-17',
+      is_change: true,
+      previous: { value: '2026-03-03', label: 'Mar 3' },
+    });
+  });
+
+  it('skips dates without a meeting anchor and lines that do not attach', async () => {
+    const unanchored = await extractNoteAssertions({ note_id: 'n', raw_markdown: WEEKLY }, context, config);
+    expect(unanchored.some((a) => a.dimension === 'timeline')).toBe(false);
+
+    const strict = await extractNoteAssertions(note(WEEKLY), context, { embedding_enabled: false });
+    expect(strict).toEqual([]);
+  });
+});
+
+// ============================================
+// Against initiative state
+// ============================================
+
+describe('detectConflicts against initiative state', () => {
+  it('flags each contradicted dimension with both sides', async () => {
+    const conflicts = detectConflicts(await extractNoteAssertions(note(WEEKLY), context, config), [CHECKOUT]);
+
+    expect(conflicts.map((c) => c.title)).toEqual([
+      'Conflict: Checkout v2 release date — note says Mar 3, initiative says Apr 14',
+      'Conflict: Checkout v2 owner — note says Priya, initiative says user-dana',
+      'Conflict: Checkout v2 scope of Apple Pay — note says out of scope, initiative says in scope',
+    ]);
+    expect(conflicts[0]).toMatchObject({
+      type: 'conflict',
+      needs_clarification: true,
+      clarification_reasons: ['conflicting_statements'],
+      routing: { attached_initiative_id: 'init-checkout', create_new: false },
+      payload: {
+        conflict: {
+          dimension: 'timeline',
+          initiative_title: 'Checkout v2',
+          note_statement: 'Launch is still on track for March 3',
+          conflicting_statement: 'release date: Apr 14',
+          conflicting_source: 'initiative',
+        },
+      },
+    });
+  });
+
+  it('flags status only against statuses it cannot coexist with', async () => {
+    const assertions = await extractNoteAssertions(note(WEEKLY), context, config);
+    const status = (s: string) =>
+      detectConflicts(assertions, [{ initiative_id: 'init-checkout', title: 'Checkout v2', status: s }]).map((c) => c.title);
+
+    expect(status('in_progress')).toEqual([]);
+    expect(status('blocked')).toEqual(['Conflict: Checkout v2 status — note says on track, initiative says blocked']);
+  });
+
+  it('is quiet when the note agrees with the initiative', async () => {
+    const assertions = await extractNoteAssertions(note(WEEKLY), context, config);
+    const agreeing: InitiativeState = {
+      ...CHECKOUT,
+      release_target_date: '2026-03-03',
+      owner: 'user-priya',
+      scope: 'Card payments. Apple Pay is out of scope',
+    };
+    expect(detectConflicts(assertions, [agreeing])).toEqual([]);
+  });
+
+  it('keeps the same key across regenerates', async () => {
+    const run = async () => detectConflicts(await extractNoteAssertions(note(WEEKLY), context, config), [CHECKOUT]);
+    expect((await run()).map((c) => c.suggestionKey)).toEqual((await run()).map((c) => c.suggestionKey));
+  });
+});
+
+// ============================================
+// Change language
+// ============================================
+
+describe('changes are updates, not conflicts', () => {
+  it('ignores a move away from the recorded date and flags a move from another one', async () => {
+    const [fromRecorded] = await extractNoteAssertions(
+      note('## Checkout v2\n- Checkout launch date moved from April 14 to April 28'),
+      context,
+      config
+    );
+    expect(detectConflicts([fromRecorded], [CHECKOUT])).toEqual([]);
+
+    const [fromOther] = await extractNoteAssertions(
+      note('## Checkout v2\n- Checkout launch date moved from March 3 to March 17'),
+      context,
+      config
+    );
+    expect(detectConflicts([fromOther], [CHECKOUT])[0]?.title).toBe(
+      'Conflict: Checkout v2 release date — note says Mar 3, initiative says Apr 14'
+    );
+  });
+
+  it('ignores a new owner', async () => {
+    const assertions = await extractNoteAssertions(note('## Checkout v2\n- Checkout is now owned by Priya'), context, config);
+    expect(assertions[0]).toMatchObject({ dimension: 'ownership', is_change: true });
+    expect(detectConflicts(assertions, [CHECKOUT])).toEqual([]);
+  });
+});
+
+// ============================================
+// Against earlier notes
+// ============================================
+
+describe('detectConflicts against earlier notes', () => {
+  const earlier = (overrides: Partial<EarlierAssertion>): EarlierAssertion => ({
+    note_id: 'note-earlier',
+    note_title: 'Checkout kickoff',
+    noted_at: Date.UTC(2026, 0, 20),
+    dimension: 'ownership',
+    initiative_id: 'init-checkout',
+    value: 'dana',
+    label: 'Dana',
+    is_change: false,
+    evidence: { start_line: 2, end_line: 2, text: 'Dana owns checkout' },
+    ...overrides,
+  });
+  const bare: InitiativeState = { initiative_id: 'init-checkout', title: 'Checkout v2' };
+
+  it('compares with the latest earlier assertion and cites its note', async () => {
+    const assertions = await extractNoteAssertions(note(WEEKLY), context, config);
+    const older = earlier({ noted_at: Date.UTC(2026, 0, 5), value: 'priya', label: 'Priya' });
+    const [conflict] = detectConflicts(assertions, [bare], [older, earlier({})]);
+
+    expect(conflict.title).toBe('Conflict: Checkout v2 owner — note says Priya, earlier note says Dana');
+    expect(conflict.evidence_spans).toEqual([
+      { start_line: 4, end_line: 4, text: 'Checkout is owned by Priya' },
+      { start_line: -1, end_line: -1, text: 'Dana owns checkout', note_id: 'note-earlier' },
+    ]);
+    expect(conflict.payload.conflict).toMatchObject({ conflicting_source: 'note', conflicting_note_id: 'note-earlier' });
+    expect(conflict.suggestion?.body).toContain('(Checkout kickoff)');
+  });
+
+  it('prefers the initiative state when both disagree', async () => {
+    const assertions = await extractNoteAssertions(note(WEEKLY), context, config);
+    const conflicts = detectConflicts(assertions, [CHECKOUT], [earlier({})]);
+    expect(conflicts.filter((c) => c.payload.conflict?.dimension === 'ownership')).toHaveLength(1);
+    expect(conflicts[1].payload.conflict?.conflicting_source).toBe('initiative');
+  });
+
+  it('does not compare status across meetings', () => {
+    const status: NoteAssertion = { ...earlier({}), note_id: 'note-weekly', dimension: 'status', value: 'on_track', label: 'on track' };
+    expect(detectConflicts([status], [bare], [earlier({ dimension: 'status', value: 'blocked', label: 'blocked' })])).toEqual([]);
+  });
+});
+
+// ============================================
+// Date precision
+// ============================================
+
+describe('datesAgree', () => {
+  it('compares at the coarser precision', () => {
+    expect(datesAgree({ date: '2026-03-31', precision: 'month' }, { date: '2026-03-03' })).toBe(true);
+    expect(datesAgree({ date: '2026-03-31', precision: 'month' }, { date: '2026-04-01' })).toBe(false);
+    expect(datesAgree({ date: '2026-06-30', precision: 'quarter' }, { date: '2026-04-14' })).toBe(true);
+    expect(datesAgree({ date: '2026-03-03' }, { date: '2026-03-04' })).toBe(false);
+  });
+});
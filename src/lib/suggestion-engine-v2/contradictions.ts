@@ -0,0 +1,598 @@
+/**
+ * Suggestion Engine v2 - Contradiction Detection
+ *
+ * A note that says "launch is still on track for March 3" while the
+ * initiative's release target is Apr 14 is not a plan change: one of the two
+ * is wrong. This pass reads what a note asserts about an initiative's
+ * timeline, scope, ownership and status, compares it with the initiative's
+ * recorded state and with what earlier notes asserted, and emits `conflict`
+ * suggestions that carry both pieces of evidence.
+ *
+ * Assertions come from the belief pipeline: every utterance it classifies
+ * into one of the four dimensions (plan changes and status updates alike) is
+ * read for a comparable value:
+ * - timeline: the target date, resolved against the meeting date
+ * - ownership: "owned by Priya", "Owner: Dana", "Priya owns checkout"
+ * - status: on track / at risk / blocked / done
+ * - scope: an item stated in or out of scope
+ * Each assertion is routed to an initiative with the suggestion routing.
+ *
+ * Only restatements conflict. "Moved to March 17" updates the plan (that is
+ * a project_update), so change language conflicts only when the state it
+ * moves away from ("from March 3") is not the recorded one.
+ *
+ * Conflicts carry needs_clarification with the belief pipeline's
+ * `conflicting_statements` reason: the engine cannot tell which side is
+ * stale, so the user decides.
+ *
+ * Persistence of assertions lives in convex/noteAssertions.ts.
+ */
+
+import type {
+  ConflictDimension,
+  ConflictPayload,
+  DatePrecision,
+  EvidenceSpan,
+  GeneratorConfig,
+  GeneratorContext,
+  NoteInput,
+  Suggestion,
+  SuggestionRouting,
+} from './types';
+import { DEFAULT_CONFIG } from './types';
+import { executeBeliefPipeline, DEFAULT_PIPELINE_CONFIG } from '../belief-pipeline';
+import { classifyUtterance } from '../belief-pipeline/belief-detection';
+import type { BeliefDimension, Section as BeliefSection } from '../belief-pipeline';
+import { formatResolvedDate, resolveDateAnchor, resolveScheduleDelta } from './dateResolver';
+import { routeText, routeTextWithEmbeddings } from './routing';
+import { getEmbeddingProvider, getInitiativeVectorStore } from './embeddings';
+import { computeSuggestionKey } from '../suggestion-keys';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * One comparable statement a note makes about an initiative
+ */
+export interface NoteAssertion {
+  note_id: string;
+  dimension: ConflictDimension;
+  initiative_id: string;
+  /**
+   * Comparable value: YYYY-MM-DD (timeline), lowercase name (ownership),
+   * StatusValue (status), normalized item (scope)
+   */
+  value: string;
+  /** Date precision (timeline) or 'in' / 'out' (scope) */
+  qualifier?: string;
+  /** How the value reads in a title: "Mar 3", "Priya", "on track" */
+  label: string;
+  /** Change language: the note updates the value rather than restating it */
+  is_change: boolean;
+  /** Value the change moves away from, when the note states it */
+  previous?: { value: string; qualifier?: string; label: string };
+  evidence: EvidenceSpan;
+  routing_similarity?: number;
+}
+
+/**
+ * An assertion from an earlier note, as persisted
+ */
+export interface EarlierAssertion extends NoteAssertion {
+  noted_at: number;
+  note_title?: string;
+}
+
+/**
+ * Recorded initiative state (v0 initiative + its event-sourced record)
+ */
+export interface InitiativeState {
+  initiative_id: string;
+  title: string;
+  /** YYYY-MM-DD */
+  release_target_date?: string;
+  owner?: string;
+  /** newInitiatives status; v0 'done' maps to 'completed' */
+  status?: string;
+  scope?: string;
+}
+
+type StatusValue = 'on_track' | 'at_risk' | 'blocked' | 'done';
+
+// ============================================
+// Patterns
+// ============================================
+
+const CONFLICT_DIMENSIONS: ReadonlySet<BeliefDimension> = new Set<BeliefDimension>([
+  'timeline',
+  'scope',
+  'ownership',
+  'status',
+]);
+
+const CHANGE_RE =
+  /\b(?:mov(?:e|es|ed|ing)|push(?:es|ed|ing)?|slip(?:s|ped|ping)?|delay(?:s|ed|ing)?|postpon(?:e|es|ed|ing)|reschedul(?:e|es|ed|ing)|pull(?:s|ed|ing)?\s+in|now|new|changed?|updated?|reassign(?:s|ed|ing)?|hand(?:s|ed|ing)?\s+(?:off|over)|transferr?(?:s|ed|ing)?|taking\s+over|takes\s+over|add(?:s|ed|ing)?|remov(?:e|es|ed|ing)|drop(?:s|ped|ping)?|cut(?:s|ting)?|descop(?:e|es|ed|ing)|no\s+longer)\b/i;
+
+const OWNER_PATTERNS: RegExp[] = [
+  /\bowned\s+by\s+@?([A-Z][\w.-]*)/,
+  /\bowner\s*[:=]\s*@?([A-Z][\w.-]*)/i,
+  /\b(?:lead|led)\s+by\s+@?([A-Z][\w.-]*)/,
+  /(?:^|[\s(])@?([A-Z][\w.-]*)\s+(?:owns|is\s+(?:the\s+)?(?:new\s+)?(?:owner|lead|dri)|is\s+leading|leads|(?:is\s+)?taking\s+over|takes\s+over)\b/,
+  /\b(?:handed|handing|transferred|transferring|reassigned|reassigning)\s+(?:(?:it|this|ownership)\s+)?(?:over\s+|off\s+)?to\s+@?([A-Z][\w.-]*)/,
+];
+
+// Capitalized words that start sentences without naming a person
+const NOT_A_NAME = new Set([
+  'we', 'i', 'you', 'they', 'he', 'she', 'it', 'this', 'that', 'the', 'team',
+  'everyone', 'someone', 'nobody', 'who', 'owner', 'launch', 'release', 'status',
+]);
+
+const STATUS_PATTERNS: Array<[StatusValue, RegExp]> = [
+  ['at_risk', /\b(?:at\s+risk|off\s+track|behind\s+schedule|slipping)\b/i],
+  ['blocked', /\b(?:blocked|stalled|on\s+hold)\b/i],
+  ['done', /\b(?:done|complete[d]?|shipped|launched|released|live\s+(?:for|to)\s+all)\b/i],
+  ['on_track', /\b(?:on\s+track|on\s+schedule|on\s+target|going\s+well|green)\b/i],
+];
+
+const STATUS_LABELS: Record<StatusValue, string> = {
+  on_track: 'on track',
+  at_risk: 'at risk',
+  blocked: 'blocked',
+  done: 'done',
+};
+
+/**
+ * Initiative statuses each note status contradicts. A note calling the work
+ * blocked while the initiative is in progress is news, not a contradiction;
+ * calling it on track while the initiative is blocked or finished is.
+ */
+const STATUS_CONTRADICTS: Record<StatusValue, ReadonlySet<string>> = {
+  on_track: new Set(['blocked', 'completed', 'released', 'cancelled', 'archived']),
+  at_risk: new Set(['completed', 'released', 'cancelled', 'archived']),
+  blocked: new Set(['completed', 'released', 'cancelled', 'archived']),
+  done: new Set(['draft', 'proposed', 'blocked', 'cancelled', 'archived']),
+};
+
+const SCOPE_OUT_RE = /^(.+?)\s+(?:is|are)\s+(?:now\s+)?(?:out\s+of\s+scope|not\s+in\s+scope|descoped|excluded)\b/i;
+const SCOPE_IN_RE = /^(.+?)\s+(?:is|are)\s+(?:still\s+|now\s+)?(?:in\s+scope|in\s+(?:v\d+|the\s+mvp)|included)\b/i;
+const SCOPE_VERB_RE =
+  /\b(?:(adding|add|include|including|keep|keeping)|(removing|remove|dropping|drop|cutting|cut|excluding|exclude|descoping|descope))\s+(.+?)\s+(?:to|from|in|out\s+of)\s+(?:the\s+)?(?:scope|v\d+|mvp|release)\b/i;
+const SCOPE_OUT_MARKER_RE = /\b(?:out\s+of\s+scope|not\s+in\s+scope|non-?goals?|excluded?|descoped|won'?t\s+(?:do|include|ship))\b/i;
+
+// ============================================
+// Value extraction
+// ============================================
+
+function ownerIn(text: string): string | null {
+  for (const re of OWNER_PATTERNS) {
+    const name = text.match(re)?.[1];
+    if (name && !NOT_A_NAME.has(name.toLowerCase())) return name.replace(/[.,]+$/, '');
+  }
+  return null;
+}
+
+function statusIn(text: string): StatusValue | null {
+  for (const [status, re] of STATUS_PATTERNS) {
+    if (re.test(text)) return status;
+  }
+  return null;
+}
+
+function normalizeScopeItem(item: string): string {
+  return item
+    .toLowerCase()
+    .replace(/^(?:the|a|an)\s+/, '')
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function scopeIn(text: string): { item: string; polarity: 'in' | 'out'; change: boolean } | null {
+  const stripped = text.replace(/^(?:[-*+]|\d+[.)])\s+/, '');
+  const out = stripped.match(SCOPE_OUT_RE);
+  if (out) return { item: out[1], polarity: 'out', change: false };
+  const inScope = stripped.match(SCOPE_IN_RE);
+  if (inScope) return { item: inScope[1], polarity: 'in', change: false };
+  const verb = stripped.match(SCOPE_VERB_RE);
+  if (verb) {
+    const keep = /^keep/i.test(verb[1] ?? '');
+    return { item: verb[3], polarity: verb[1] ? 'in' : 'out', change: !keep };
+  }
+  return null;
+}
+
+/**
+ * Whether two dates are the same at the coarser of their precisions:
+ * "March" (Mar 31, month) matches Mar 3; "Q2" matches any date in Q2.
+ */
+export function datesAgree(a: { date: string; precision?: string }, b: { date: string; precision?: string }): boolean {
+  const order: DatePrecision[] = ['day', 'week', 'month', 'quarter', 'year'];
+  const precision = [a.precision ?? 'day', b.precision ?? 'day']
+    .map((p) => order.indexOf(p as DatePrecision))
+    .reduce((max, i) => Math.max(max, i), 0);
+  const days = Math.abs(Date.parse(a.date) - Date.parse(b.date)) / 86_400_000;
+
+  switch (order[precision]) {
+    case 'day':
+      return a.date === b.date;
+    case 'week':
+      return days <= 6;
+    case 'month':
+      return a.date.slice(0, 7) === b.date.slice(0, 7);
+    case 'quarter':
+      return days < 92;
+    default:
+      return a.date.slice(0, 4) === b.date.slice(0, 4);
+  }
+}
+
+// ============================================
+// Assertion extraction
+// ============================================
+
+interface AssertionDraft {
+  dimension: ConflictDimension;
+  value: string;
+  qualifier?: string;
+  label: string;
+  is_change: boolean;
+  previous?: NoteAssertion['previous'];
+}
+
+function valuesIn(text: string, anchorMs: number | undefined): AssertionDraft[] {
+  const drafts: AssertionDraft[] = [];
+  const isChange = CHANGE_RE.test(text);
+
+  if (anchorMs !== undefined) {
+    const delta = resolveScheduleDelta(text, anchorMs);
+    if (delta?.after) {
+      drafts.push({
+        dimension: 'timeline',
+        value: delta.after.date,
+        qualifier: delta.after.precision,
+        label: formatResolvedDate(delta.after, delta.anchor),
+        is_change: isChange || delta.before !== undefined || delta.shift !== undefined,
+        ...(delta.before
+          ? {
+              previous: {
+                value: delta.before.date,
+                qualifier: delta.before.precision,
+                label: formatResolvedDate(delta.before, delta.anchor),
+              },
+            }
+          : {}),
+      });
+    }
+  }
+
+  const owner = ownerIn(text);
+  if (owner) {
+    drafts.push({ dimension: 'ownership', value: owner.toLowerCase(), label: owner, is_change: isChange });
+  }
+
+  const status = statusIn(text);
+  if (status) {
+    drafts.push({ dimension: 'status', value: status, label: STATUS_LABELS[status], is_change: false });
+  }
+
+  const scope = scopeIn(text);
+  if (scope) {
+    const item = normalizeScopeItem(scope.item);
+    if (item) {
+      drafts.push({
+        dimension: 'scope',
+        value: item,
+        qualifier: scope.polarity,
+        label: `${scope.item.trim()} ${scope.polarity === 'in' ? 'in scope' : 'out of scope'}`,
+        is_change: scope.change,
+      });
+    }
+  }
+
+  return drafts;
+}
+
+/** Note line (0-based) holding an utterance, found by its text */
+function lineOf(lines: string[], text: string, from: number): number {
+  const needle = text.trim().slice(0, 60);
+  for (let i = from; i < lines.length; i++) {
+    if (lines[i].includes(needle)) return i;
+  }
+  return lines.findIndex((line) => line.includes(needle));
+}
+
+function sectionTitle(sections: BeliefSection[] | undefined, sectionId: string): string {
+  return sections?.find((s) => s.id === sectionId)?.title ?? '';
+}
+
+/**
+ * Read a note's timeline, scope, ownership and status assertions and route
+ * each one to an initiative. Assertions that do not attach are dropped.
+ *
+ * Uses embedding routing when config.embedding_enabled is set (the same
+ * routing as suggestions), lexical routing otherwise.
+ */
+export async function extractNoteAssertions(
+  note: NoteInput,
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>
+): Promise<NoteAssertion[]> {
+  const initiatives = context?.initiatives || [];
+  if (initiatives.length === 0) return [];
+
+  const anchorMs = resolveDateAnchor(note, context);
+  const result = await executeBeliefPipeline(
+    {
+      id: note.note_id,
+      occurred_at: new Date(anchorMs ?? 0).toISOString(),
+      raw_markdown: note.raw_markdown,
+    },
+    { ...DEFAULT_PIPELINE_CONFIG, include_introspection: true }
+  );
+
+  // Utterances the pipeline placed in a conflict dimension, either through a
+  // belief or as a status update (status utterances never become beliefs)
+  const beliefUtterances = new Set(
+    result.beliefs
+      .filter((b) => CONFLICT_DIMENSIONS.has(b.dimension))
+      .flatMap((b) => b.evidence_spans.map((span) => span.utterance_id))
+  );
+  const utterances = (result.utterances ?? []).filter((u) => {
+    if (beliefUtterances.has(u.id)) return true;
+    const classification = classifyUtterance(u);
+    return classification.dimension !== null && CONFLICT_DIMENSIONS.has(classification.dimension);
+  });
+
+  const thresholds = { ...DEFAULT_CONFIG.thresholds, ...config?.thresholds };
+  const embeddingEnabled = config?.embedding_enabled ?? DEFAULT_CONFIG.embedding_enabled;
+  const provider = embeddingEnabled ? getEmbeddingProvider(context?.embedding_model ?? 'local') : null;
+  const vectorStore = provider ? getInitiativeVectorStore(provider) : undefined;
+
+  const lines = note.raw_markdown.split('\n');
+  const assertions: NoteAssertion[] = [];
+  let cursor = 0;
+  for (const utterance of utterances) {
+    const drafts = valuesIn(utterance.text, anchorMs);
+    if (drafts.length === 0) continue;
+
+    const line = lineOf(lines, utterance.text, cursor);
+    if (line < 0) continue;
+    cursor = line;
+
+    const routingText = `${sectionTitle(result.sections, utterance.section_id)}\n${utterance.text}`;
+    const routing: SuggestionRouting = provider
+      ? await routeTextWithEmbeddings(routingText, initiatives, thresholds, provider, vectorStore)
+      : routeText(routingText, initiatives, thresholds);
+    if (!routing.attached_initiative_id) continue;
+
+    for (const draft of drafts) {
+      assertions.push({
+        note_id: note.note_id,
+        initiative_id: routing.attached_initiative_id,
+        ...draft,
+        evidence: { start_line: line, end_line: line, text: lines[line].trim().replace(/^(?:[-*+]|\d+[.)])\s+/, '') },
+        routing_similarity: routing.similarity,
+      });
+    }
+  }
+
+  return assertions;
+}
+
+// ============================================
+// Conflict detection
+// ============================================
+
+interface Contradiction {
+  assertion: NoteAssertion;
+  state: InitiativeState;
+  /** The recorded side, as it reads in a title */
+  recorded_label: string;
+  source: ConflictPayload['conflicting_source'];
+  earlier?: EarlierAssertion;
+}
+
+const DIMENSION_NOUNS: Record<ConflictDimension, string> = {
+  timeline: 'release date',
+  ownership: 'owner',
+  status: 'status',
+  scope: 'scope',
+};
+
+/** The value the note claims is current before its own change, if any */
+function claimedCurrent(assertion: NoteAssertion): { value: string; qualifier?: string; label: string } | null {
+  if (!assertion.is_change) return assertion;
+  return assertion.previous ?? null;
+}
+
+function ownerMatches(asserted: string, recorded: string): boolean {
+  const tokens = recorded.toLowerCase().replace(/^user[-_]/, '').split(/[^a-z0-9]+/);
+  return tokens.includes(asserted.toLowerCase());
+}
+
+function scopePolarity(scope: string, item: string): 'in' | 'out' | null {
+  const line = scope
+    .split(/\n|;|\.\s/)
+    .find((part) => normalizeScopeItem(part).includes(item));
+  if (!line) return null;
+  return SCOPE_OUT_MARKER_RE.test(line) ? 'out' : 'in';
+}
+
+function againstInitiative(assertion: NoteAssertion, state: InitiativeState): Contradiction | null {
+  const claimed = claimedCurrent(assertion);
+  if (!claimed) return null;
+
+  switch (assertion.dimension) {
+    case 'timeline': {
+      if (!state.release_target_date) return null;
+      if (datesAgree({ date: claimed.value, precision: claimed.qualifier }, { date: state.release_target_date })) {
+        return null;
+      }
+      const recorded = formatResolvedDate(
+        { date: state.release_target_date, precision: 'day', text: state.release_target_date },
+        claimed.value
+      );
+      return { assertion, state, recorded_label: recorded, source: 'initiative' };
+    }
+    case 'ownership':
+      if (!state.owner || ownerMatches(claimed.value, state.owner)) return null;
+      return { assertion, state, recorded_label: state.owner, source: 'initiative' };
+    case 'status': {
+      const status = claimed.value as StatusValue;
+      if (!state.status || !STATUS_CONTRADICTS[status]?.has(state.status)) return null;
+      return { assertion, state, recorded_label: state.status.replace(/_/g, ' '), source: 'initiative' };
+    }
+    case 'scope': {
+      const polarity = state.scope ? scopePolarity(state.scope, claimed.value) : null;
+      if (!polarity || polarity === claimed.qualifier) return null;
+      return {
+        assertion,
+        state,
+        recorded_label: polarity === 'in' ? 'in scope' : 'out of scope',
+        source: 'initiative',
+      };
+    }
+  }
+}
+
+function sameSubject(a: NoteAssertion, b: NoteAssertion): boolean {
+  if (a.initiative_id !== b.initiative_id || a.dimension !== b.dimension) return false;
+  return a.dimension !== 'scope' || a.value === b.value;
+}
+
+function againstEarlier(
+  assertion: NoteAssertion,
+  state: InitiativeState,
+  earlier: EarlierAssertion[]
+): Contradiction | null {
+  // Status is expected to move between meetings
+  if (assertion.dimension === 'status') return null;
+  const claimed = claimedCurrent(assertion);
+  if (!claimed) return null;
+
+  const latest = earlier
+    .filter((e) => e.note_id !== assertion.note_id && sameSubject(e, assertion))
+    .sort((a, b) => b.noted_at - a.noted_at)[0];
+  if (!latest) return null;
+
+  const agree =
+    assertion.dimension === 'timeline'
+      ? datesAgree({ date: claimed.value, precision: claimed.qualifier }, { date: latest.value, precision: latest.qualifier })
+      : assertion.dimension === 'ownership'
+        ? claimed.value === latest.value
+        : claimed.qualifier === latest.qualifier;
+  if (agree) return null;
+
+  return { assertion, state, recorded_label: latest.label, source: 'note', earlier: latest };
+}
+
+function conflictTitle(c: Contradiction): string {
+  const subject = c.assertion.dimension === 'scope' ? c.assertion.label.replace(/ (?:in|out of) scope$/, '') : '';
+  const noun = subject ? `scope of ${subject}` : DIMENSION_NOUNS[c.assertion.dimension];
+  const claimed = claimedCurrent(c.assertion)!;
+  const noteSays = c.assertion.dimension === 'scope'
+    ? (claimed.qualifier === 'in' ? 'in scope' : 'out of scope')
+    : claimed.label;
+  const other = c.source === 'initiative' ? 'initiative says' : 'earlier note says';
+  return `Conflict: ${c.state.title} ${noun} — note says ${noteSays}, ${other} ${c.recorded_label}`;
+}
+
+function toSuggestion(c: Contradiction): Suggestion {
+  const { assertion, state } = c;
+  const sourceSectionId = `conflict:${state.initiative_id}:${assertion.dimension}`;
+  const title = conflictTitle(c);
+  const suggestionKey = computeSuggestionKey({
+    noteId: assertion.note_id,
+    sourceSectionId,
+    type: 'conflict',
+    title: `${assertion.dimension} ${assertion.evidence.text}`,
+  });
+
+  const evidence: EvidenceSpan[] = [assertion.evidence];
+  if (c.earlier) {
+    evidence.push({ start_line: -1, end_line: -1, text: c.earlier.evidence.text, note_id: c.earlier.note_id });
+  }
+
+  const conflictingStatement = c.earlier
+    ? c.earlier.evidence.text
+    : `${DIMENSION_NOUNS[assertion.dimension]}: ${c.recorded_label}`;
+  const body = c.earlier
+    ? `This note says "${assertion.evidence.text}", but an earlier note${c.earlier.note_title ? ` (${c.earlier.note_title})` : ''} says "${c.earlier.evidence.text}". Confirm which is current.`
+    : `This note says "${assertion.evidence.text}", but ${state.title} records ${conflictingStatement}. Confirm which is current.`;
+
+  return {
+    suggestion_id: `conflict_${suggestionKey.slice(0, 12)}`,
+    note_id: assertion.note_id,
+    section_id: sourceSectionId,
+    type: 'conflict',
+    title,
+    payload: {
+      conflict: {
+        dimension: assertion.dimension,
+        initiative_id: state.initiative_id,
+        initiative_title: state.title,
+        note_statement: assertion.evidence.text,
+        conflicting_statement: conflictingStatement,
+        conflicting_source: c.source,
+        ...(c.earlier ? { conflicting_note_id: c.earlier.note_id } : {}),
+      },
+    },
+    evidence_spans: evidence,
+    scores: {
+      section_actionability: 1,
+      type_choice_confidence: 1,
+      synthesis_confidence: 1,
+      overall: assertion.routing_similarity ?? 1,
+    },
+    routing: {
+      attached_initiative_id: state.initiative_id,
+      similarity: assertion.routing_similarity,
+      create_new: false,
+      candidates: [
+        { initiative_id: state.initiative_id, title: state.title, similarity: assertion.routing_similarity ?? 1 },
+      ],
+    },
+    suggestionKey,
+    needs_clarification: true,
+    clarification_reasons: ['conflicting_statements'],
+    suggestion: {
+      title,
+      body,
+      evidencePreview: evidence.map((span) => span.text),
+      sourceSectionId,
+      sourceHeading: state.title,
+    },
+  };
+}
+
+/**
+ * Compare a note's assertions with initiative state and earlier notes.
+ *
+ * The initiative's recorded state wins over earlier notes: when both
+ * disagree with the note, one conflict is emitted against the initiative.
+ * At most one conflict per initiative, dimension and scope item.
+ */
+export function detectConflicts(
+  assertions: NoteAssertion[],
+  states: InitiativeState[],
+  earlier: EarlierAssertion[] = []
+): Suggestion[] {
+  const stateById = new Map(states.map((s) => [s.initiative_id, s]));
+  const seen = new Set<string>();
+  const conflicts: Suggestion[] = [];
+
+  for (const assertion of assertions) {
+    const state = stateById.get(assertion.initiative_id);
+    if (!state) continue;
+    const subject = `${assertion.initiative_id}|${assertion.dimension}|${assertion.dimension === 'scope' ? assertion.value : ''}`;
+    if (seen.has(subject)) continue;
+
+    const contradiction = againstInitiative(assertion, state) ?? againstEarlier(assertion, state, earlier);
+    if (!contradiction) continue;
+    seen.add(subject);
+    conflicts.push(toSuggestion(contradiction));
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,175 @@
+/**
+ * Cross-note suggestion clustering
+ *
+ * The same suggestion raised in three weekly syncs used to appear three
+ * times, and dismissing it in one note left the other two untouched.
+ *
+ * Tests:
+ *   1. areEquivalentAcrossNotes: type, title similarity, evidence overlap, conflicting targets
+ *   2. clusterAcrossNotes: members across three notes, representative, stable key
+ *   3. getClusterDecision: dismissal on any member decides the cluster
+ *   4. applyCrossNoteClusters: hides decided clusters, merges evidence from other notes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  areEquivalentAcrossNotes,
+  clusterAcrossNotes,
+  getClusterDecision,
+  applyCrossNoteClusters,
+  memberKey,
+} from './crossNoteClustering';
+import type { ClusterableSuggestion, MemberDecision } from './crossNoteClustering';
+import type { Suggestion } from './types';
+
+function member(overrides: Partial<ClusterableSuggestion> = {}): ClusterableSuggestion {
+  return {
+    note_id: 'note-a',
+    suggestionKey: 'key-a',
+    type: 'project_update',
+    title: 'Update: Move checkout launch to March',
+    evidence_text: 'The checkout launch moves to March because billing slipped.',
+    noted_at: 1,
+    ...overrides,
+  };
+}
+
+function makeSuggestion(overrides: Partial<Suggestion> = {}): Suggestion {
+  return {
+    suggestion_id: 'sug-1',
+    note_id: 'note-c',
+    section_id: 'sec-1',
+    type: 'project_update',
+    title: 'Update: Move checkout launch to March',
+    payload: { after_description: 'Checkout launch moves to March.' },
+    evidence_spans: [{ start_line: 2, end_line: 2, text: 'Checkout launch is now March.' }],
+    scores: {
+      section_actionability: 0.8,
+      type_choice_confidence: 0.8,
+      synthesis_confidence: 0.8,
+      overall: 0.8,
+    },
+    routing: { create_new: true },
+    suggestionKey: 'key-c',
+    ...overrides,
+  } as Suggestion;
+}
+
+// ============================================
+// Equivalence
+// ============================================
+
+describe('areEquivalentAcrossNotes', () => {
+  it('matches the same suggestion worded differently in another note', () => {
+    const a = member();
+    const b = member({ note_id: 'note-b', suggestionKey: 'key-b', title: 'Checkout launch moving to March' });
+    expect(areEquivalentAcrossNotes(a, b)).toBe(true);
+  });
+
+  it('never matches within the same note or across types', () => {
+    expect(areEquivalentAcrossNotes(member(), member({ suggestionKey: 'key-2' }))).toBe(false);
+    expect(areEquivalentAcrossNotes(member(), member({ note_id: 'note-b', type: 'risk' }))).toBe(false);
+  });
+
+  it('does not merge conflicting targets (March vs April)', () => {
+    const b = member({ note_id: 'note-b', title: 'Update: Move checkout launch to April' });
+    expect(areEquivalentAcrossNotes(member(), b)).toBe(false);
+  });
+
+  it('needs evidence overlap when titles are only loosely similar', () => {
+    const a = member({ title: 'Checkout launch slips', evidence_text: 'Billing provider integration slipped three weeks' });
+    const overlapping = member({
+      note_id: 'note-b',
+      title: 'Delay checkout launch for billing',
+      evidence_text: 'Billing provider integration slipped, so checkout waits',
+    });
+    const unrelated = member({
+      note_id: 'note-b',
+      title: 'Delay checkout launch for billing',
+      evidence_text: 'Design review found accessibility gaps',
+    });
+    expect(areEquivalentAcrossNotes(a, overlapping)).toBe(true);
+    expect(areEquivalentAcrossNotes(a, unrelated)).toBe(false);
+  });
+});
+
+// ============================================
+// Clustering
+// ============================================
+
+describe('clusterAcrossNotes', () => {
+  it('groups one suggestion raised in three notes', () => {
+    const items = [
+      member({ note_id: 'note-c', suggestionKey: 'key-c', title: 'Move checkout launch to March', noted_at: 3 }),
+      member({ note_id: 'note-a', suggestionKey: 'key-a', noted_at: 1 }),
+      member({ note_id: 'note-b', suggestionKey: 'key-b', title: 'Checkout launch moving to March', noted_at: 2 }),
+      member({ note_id: 'note-b', suggestionKey: 'key-x', type: 'idea', title: 'Add dark mode', noted_at: 2 }),
+    ];
+
+    const clusters = clusterAcrossNotes(items);
+    expect(clusters).toHaveLength(2);
+
+    const [checkout] = clusters;
+    expect(checkout.note_ids).toEqual(['note-a', 'note-b', 'note-c']);
+    expect(checkout.cluster_key).toBe('note-a::key-a');
+    expect(checkout.representative.note_id).toBe('note-c');
+  });
+});
+
+// ============================================
+// Decisions
+// ============================================
+
+describe('getClusterDecision', () => {
+  const [cluster] = clusterAcrossNotes([
+    member(),
+    member({ note_id: 'note-b', suggestionKey: 'key-b', noted_at: 2 }),
+  ]);
+
+  it('is undecided when no member has a decision', () => {
+    expect(getClusterDecision(cluster, new Map())).toBeNull();
+  });
+
+  it('lets a dismissal on any member win', () => {
+    const decisions = new Map<string, MemberDecision>([
+      ['note-a::key-a', 'applied'],
+      ['note-b::key-b', 'dismissed'],
+    ]);
+    expect(getClusterDecision(cluster, decisions)).toBe('dismissed');
+  });
+});
+
+// ============================================
+// Applying clusters to a note
+// ============================================
+
+describe('applyCrossNoteClusters', () => {
+  const others = [
+    member({ note_id: 'note-a', suggestionKey: 'key-a', evidence_text: 'Launch moves to March.' }),
+    member({ note_id: 'note-b', suggestionKey: 'key-b', evidence_text: 'Still targeting March for checkout.', noted_at: 2 }),
+  ];
+
+  it('merges evidence from every other note, tagged with note_id', () => {
+    const { suggestions, hidden } = applyCrossNoteClusters([makeSuggestion()], others, 3);
+    expect(hidden).toEqual([]);
+    const spans = suggestions[0].evidence_spans;
+    expect(spans[0].note_id).toBeUndefined();
+    expect(spans.slice(1).map((s) => s.note_id)).toEqual(['note-a', 'note-b']);
+    expect(spans[1]).toMatchObject({ start_line: -1, end_line: -1, text: 'Launch moves to March.' });
+  });
+
+  it('hides the suggestion when it was dismissed in another note', () => {
+    const dismissed = others.map((m) => (m.note_id === 'note-a' ? { ...m, decision: 'dismissed' as const } : m));
+    const unrelated = makeSuggestion({ suggestionKey: 'key-y', type: 'idea', title: 'Add dark mode' });
+
+    const { suggestions, hidden } = applyCrossNoteClusters([makeSuggestion(), unrelated], dismissed, 3);
+    expect(suggestions.map((s) => s.suggestionKey)).toEqual(['key-y']);
+    expect(hidden).toEqual([{ suggestionKey: 'key-c', decision: 'dismissed', decided_in_note_ids: ['note-a'] }]);
+    expect(memberKey(unrelated)).toBe('note-c::key-y');
+  });
+
+  it('returns suggestions untouched when there are no other notes', () => {
+    const input = [makeSuggestion()];
+    expect(applyCrossNoteClusters(input, []).suggestions).toBe(input);
+  });
+});
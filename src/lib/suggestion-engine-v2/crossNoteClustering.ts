@@ -0,0 +1,343 @@
+/**
+ * Suggestion Engine v2 - Cross-Note Clustering
+ *
+ * Per-note dedupe (suggestionKey, fingerprint) cannot see that "Move beta to
+ * March" raised in three weekly syncs is one suggestion. This pass clusters
+ * equivalent suggestions from different notes:
+ *
+ * - same type
+ * - no conflicting delta tokens in the titles ("March" vs "April" are two
+ *   different proposals, not duplicates)
+ * - similar titles, or somewhat similar titles with overlapping evidence
+ *
+ * A cluster is decided (hidden) as soon as any member has been dismissed or
+ * applied in its own note. Pure functions only; persistence lives in
+ * convex/suggestionClusters.ts.
+ */
+
+import type { Suggestion, SuggestionType, EvidenceSpan } from './types';
+import { stripKnownPrefix } from './title-normalization';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Minimal suggestion shape needed for clustering. Built from engine output
+ * (fromEngineSuggestion) or from persisted suggestion rows.
+ */
+export interface ClusterableSuggestion {
+  note_id: string;
+  suggestionKey: string;
+  type: SuggestionType;
+  title: string;
+  evidence_text: string;
+  /** Meeting/capture time of the source note; orders members */
+  noted_at?: number;
+}
+
+export interface SuggestionCluster<T extends ClusterableSuggestion = ClusterableSuggestion> {
+  /** Stable while the earliest member stays in the cluster */
+  cluster_key: string;
+  type: SuggestionType;
+  /** Most recent member: latest wording of the suggestion */
+  representative: T;
+  /** All members, oldest first */
+  members: T[];
+  /** Distinct source notes, oldest first */
+  note_ids: string[];
+}
+
+export interface CrossNoteClusterOptions {
+  /** Title token Jaccard at or above which two suggestions match on title alone */
+  T_title_match: number;
+  /** Lower title similarity that still matches when evidence overlaps */
+  T_title_min: number;
+  /** Evidence token Jaccard required together with T_title_min */
+  T_evidence_overlap: number;
+}
+
+export const DEFAULT_CROSS_NOTE_CLUSTER_OPTIONS: CrossNoteClusterOptions = {
+  T_title_match: 0.5,
+  T_title_min: 0.25,
+  T_evidence_overlap: 0.3,
+};
+
+/** Decision state of a member, keyed by memberKey() */
+export type MemberDecision = 'dismissed' | 'applied';
+
+// ============================================
+// Tokenization
+// ============================================
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'our', 'are', 'was',
+  'were', 'will', 'should', 'would', 'could', 'need', 'needs', 'we', 'to', 'of',
+  'in', 'on', 'by', 'at', 'be', 'is', 'it', 'an', 'a', 'or', 'as', 'so',
+]);
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter((w) => w.length > 1 && !STOPWORDS.has(w))
+      .map(stem)
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const token of a) if (b.has(token)) intersection++;
+  return intersection / (a.size + b.size - intersection);
+}
+
+const MONTH_WORDS = new Set([
+  'jan', 'january', 'feb', 'february', 'mar', 'march', 'apr', 'april', 'may', 'jun', 'june',
+  'jul', 'july', 'aug', 'august', 'sep', 'sept', 'september', 'oct', 'october', 'nov',
+  'november', 'dec', 'december',
+]);
+
+/**
+ * Tokens that pin a suggestion to a specific target: months (normalized to
+ * three letters), quarters, and numbers.
+ */
+function deltaTokens(text: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^a-z0-9]+/)) {
+    if (MONTH_WORDS.has(word)) tokens.add(word.slice(0, 3));
+    else if (/^q[1-4]$/.test(word) || /^\d+$/.test(word)) tokens.add(word);
+  }
+  return tokens;
+}
+
+function normalizeTitle(title: string): string {
+  return stripKnownPrefix(title).trim();
+}
+
+// ============================================
+// Equivalence
+// ============================================
+
+/**
+ * Build the clustering shape from an engine suggestion.
+ */
+export function fromEngineSuggestion(suggestion: Suggestion, notedAt?: number): ClusterableSuggestion {
+  return {
+    note_id: suggestion.note_id,
+    suggestionKey: suggestion.suggestionKey,
+    type: suggestion.type,
+    title: suggestion.title,
+    evidence_text: suggestion.evidence_spans.map((span) => span.text).join('\n'),
+    noted_at: notedAt,
+  };
+}
+
+/**
+ * Key identifying a member across notes (decisions are per note)
+ */
+export function memberKey(item: Pick<ClusterableSuggestion, 'note_id' | 'suggestionKey'>): string {
+  return `${item.note_id}::${item.suggestionKey}`;
+}
+
+/**
+ * Whether two suggestions from different notes are the same suggestion.
+ * Suggestions from the same note are never equivalent here; per-note dedupe
+ * already handles them.
+ */
+export function areEquivalentAcrossNotes(
+  a: ClusterableSuggestion,
+  b: ClusterableSuggestion,
+  options: CrossNoteClusterOptions = DEFAULT_CROSS_NOTE_CLUSTER_OPTIONS
+): boolean {
+  if (a.note_id === b.note_id) return false;
+  if (a.type !== b.type) return false;
+
+  const titleA = normalizeTitle(a.title);
+  const titleB = normalizeTitle(b.title);
+
+  // Conflicting targets ("to March" vs "to April") are different proposals
+  const deltaA = deltaTokens(titleA);
+  const deltaB = deltaTokens(titleB);
+  if (deltaA.size > 0 && deltaB.size > 0 && ![...deltaA].some((t) => deltaB.has(t))) {
+    return false;
+  }
+
+  const titleSimilarity = jaccard(tokenize(titleA), tokenize(titleB));
+  if (titleSimilarity >= options.T_title_match) return true;
+  if (titleSimilarity < options.T_title_min) return false;
+
+  return jaccard(tokenize(a.evidence_text), tokenize(b.evidence_text)) >= options.T_evidence_overlap;
+}
+
+// ============================================
+// Clustering
+// ============================================
+
+/**
+ * Cluster suggestions across notes (single-link, union-find).
+ * Every input ends up in exactly one cluster; singletons are returned too.
+ * Output is ordered by each cluster's earliest member.
+ */
+export function clusterAcrossNotes<T extends ClusterableSuggestion>(
+  items: T[],
+  options: CrossNoteClusterOptions = DEFAULT_CROSS_NOTE_CLUSTER_OPTIONS
+): SuggestionCluster<T>[] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (find(i) === find(j)) continue;
+      if (areEquivalentAcrossNotes(items[i], items[j], options)) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? [];
+    group.push(item);
+    groups.set(root, group);
+  });
+
+  const byTime = (x: T, y: T) => (x.noted_at ?? 0) - (y.noted_at ?? 0);
+
+  return [...groups.values()]
+    .map((members) => {
+      const sorted = [...members].sort(byTime);
+      const earliest = sorted[0];
+      return {
+        cluster_key: memberKey(earliest),
+        type: earliest.type,
+        representative: sorted[sorted.length - 1],
+        members: sorted,
+        note_ids: [...new Set(sorted.map((m) => m.note_id))],
+      };
+    })
+    .sort((a, b) => byTime(a.members[0], b.members[0]));
+}
+
+/**
+ * The decision that hides a cluster, if any member has one.
+ * Dismissal wins over application.
+ */
+export function getClusterDecision(
+  cluster: SuggestionCluster,
+  decisions: Map<string, MemberDecision>
+): MemberDecision | null {
+  let decision: MemberDecision | null = null;
+  for (const member of cluster.members) {
+    const memberDecision = decisions.get(memberKey(member));
+    if (memberDecision === 'dismissed') return 'dismissed';
+    if (memberDecision === 'applied') decision = 'applied';
+  }
+  return decision;
+}
+
+/**
+ * Merge evidence from the other members of a cluster into a suggestion.
+ * Appended spans carry note_id so the UI can cite the source note; the
+ * suggestion's own spans are kept first and unchanged.
+ */
+export function mergeClusterEvidence(
+  suggestion: Suggestion,
+  otherEvidence: Array<{ note_id: string; text: string }>
+): Suggestion {
+  const seen = new Set(suggestion.evidence_spans.map((span) => span.text.trim()));
+  const merged: EvidenceSpan[] = [];
+  for (const evidence of otherEvidence) {
+    const text = evidence.text.trim();
+    if (text === '' || seen.has(text)) continue;
+    seen.add(text);
+    // Lines refer to the other note; -1 marks them as not addressable here
+    merged.push({ start_line: -1, end_line: -1, text, note_id: evidence.note_id });
+  }
+  if (merged.length === 0) return suggestion;
+  return { ...suggestion, evidence_spans: [...suggestion.evidence_spans, ...merged] };
+}
+
+/** A suggestion from another note, with that note's decision if any */
+export type CrossNoteMember = ClusterableSuggestion & { decision?: MemberDecision };
+
+export interface CrossNoteClusterResult {
+  /** Undecided suggestions, with evidence merged from equivalent suggestions in other notes */
+  suggestions: Suggestion[];
+  /** Suggestions hidden because an equivalent suggestion was decided in another note */
+  hidden: Array<{ suggestionKey: string; decision: MemberDecision; decided_in_note_ids: string[] }>;
+}
+
+/**
+ * Apply cross-note clusters to one note's engine output.
+ *
+ * A suggestion whose cluster has a dismissed/applied member in another note
+ * is hidden; otherwise it gains the evidence of every other member note.
+ */
+export function applyCrossNoteClusters(
+  suggestions: Suggestion[],
+  otherNoteMembers: CrossNoteMember[],
+  notedAt?: number,
+  options: CrossNoteClusterOptions = DEFAULT_CROSS_NOTE_CLUSTER_OPTIONS
+): CrossNoteClusterResult {
+  if (suggestions.length === 0 || otherNoteMembers.length === 0) {
+    return { suggestions, hidden: [] };
+  }
+
+  const decisions = new Map<string, MemberDecision>();
+  for (const member of otherNoteMembers) {
+    if (member.decision) decisions.set(memberKey(member), member.decision);
+  }
+
+  const own: CrossNoteMember[] = suggestions.map((s) => fromEngineSuggestion(s, notedAt));
+  const clusters = clusterAcrossNotes([...own, ...otherNoteMembers], options);
+  const clusterByMember = new Map<string, SuggestionCluster<CrossNoteMember>>();
+  for (const cluster of clusters) {
+    for (const member of cluster.members) clusterByMember.set(memberKey(member), cluster);
+  }
+
+  const result: CrossNoteClusterResult = { suggestions: [], hidden: [] };
+  for (const suggestion of suggestions) {
+    const cluster = clusterByMember.get(memberKey(suggestion));
+    if (!cluster || cluster.note_ids.length === 1) {
+      result.suggestions.push(suggestion);
+      continue;
+    }
+
+    const others = cluster.members.filter((m) => m.note_id !== suggestion.note_id);
+    const decision = getClusterDecision(cluster, decisions);
+    if (decision) {
+      result.hidden.push({
+        suggestionKey: suggestion.suggestionKey,
+        decision,
+        decided_in_note_ids: [...new Set(others.filter((m) => m.decision).map((m) => m.note_id))],
+      });
+      continue;
+    }
+
+    result.suggestions.push(
+      mergeClusterEvidence(
+        suggestion,
+        others.map((m) => ({ note_id: m.note_id, text: m.evidence_text }))
+      )
+    );
+  }
+  return result;
+}
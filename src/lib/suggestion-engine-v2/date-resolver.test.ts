@@ -0,0 +1,202 @@
+/**
+ * Date / duration resolver
+ *
+ * Schedule language in project updates is resolved against the meeting date
+ * so "slip by 2 sprints" or "ETA end of Q3" can move an initiative's
+ * releaseTargetDate and show up as real dates in titles.
+ *
+ * Tests:
+ *   1. resolveDateExpression: weekdays, months, fiscal quarters, relative periods
+ *   2. resolveDuration: sprints use the configured length
+ *   3. resolveScheduleDelta: ranges, targets, shifts, year rollover
+ *   4. ensureUpdateTitleIncludesDelta: renders resolved dates
+ *   5. Engine: payload.schedule_delta anchored on meeting_at
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  resolveDateExpression,
+  resolveDuration,
+  resolveScheduleDelta,
+  formatScheduleDelta,
+} from './dateResolver';
+import { ensureUpdateTitleIncludesDelta } from './title-normalization';
+import { generateSuggestions } from './index';
+import { resetSectionCounter } from './preprocessing';
+import { resetSuggestionCounter } from './synthesis';
+import type { DateResolverConfig, EvidenceSpan } from './types';
+
+// Wednesday
+const MEETING_AT = Date.UTC(2026, 4, 13);
+
+const OCTOBER_FY: DateResolverConfig = { sprint_length_days: 10, fiscal_year_start_month: 10 };
+
+function dateOf(text: string, config?: DateResolverConfig): string | undefined {
+  return resolveDateExpression(text, MEETING_AT, config)?.date;
+}
+
+// ============================================
+// Date expressions
+// ============================================
+
+describe('resolveDateExpression', () => {
+  it('resolves weekdays with Monday-start weeks', () => {
+    expect(dateOf('Friday')).toBe('2026-05-15');
+    expect(dateOf('this Friday')).toBe('2026-05-15');
+    expect(dateOf('next Friday')).toBe('2026-05-22');
+    expect(dateOf('this Monday')).toBe('2026-05-18');
+    expect(dateOf('next week')).toBe('2026-05-22');
+    expect(dateOf('tomorrow')).toBe('2026-05-14');
+  });
+
+  it('gives bare months and quarters deadline semantics', () => {
+    expect(resolveDateExpression('March', Date.UTC(2026, 0, 10))).toEqual({
+      date: '2026-03-31',
+      precision: 'month',
+      text: 'March',
+    });
+    expect(dateOf('mid-June')).toBe('2026-06-15');
+    expect(dateOf('early March 2027')).toBe('2027-03-01');
+    expect(dateOf('end of Q3')).toBe('2026-09-30');
+    expect(dateOf('Q1')).toBe('2027-03-31');
+    expect(dateOf('end of next quarter')).toBe('2026-09-30');
+    expect(dateOf('eoy')).toBe('2026-12-31');
+  });
+
+  it('uses the configured fiscal year for quarters', () => {
+    expect(dateOf('Q1', OCTOBER_FY)).toBe('2026-12-31');
+    expect(dateOf('Q3 FY27', OCTOBER_FY)).toBe('2027-06-30');
+    expect(dateOf('end of quarter', OCTOBER_FY)).toBe('2026-06-30');
+  });
+
+  it('rolls dates long before the meeting into next year', () => {
+    expect(dateOf('Jan 15')).toBe('2026-01-15');
+    expect(resolveDateExpression('Jan 15', Date.UTC(2026, 10, 20))?.date).toBe('2027-01-15');
+    expect(dateOf('2026-09-01')).toBe('2026-09-01');
+    expect(dateOf('sometime soon')).toBeUndefined();
+  });
+});
+
+// ============================================
+// Durations
+// ============================================
+
+describe('resolveDuration', () => {
+  it('converts sprints with the configured sprint length', () => {
+    expect(resolveDuration('2 sprints')).toMatchObject({ amount: 2, unit: 'sprint', days: 28 });
+    expect(resolveDuration('2 sprints', OCTOBER_FY)?.days).toBe(20);
+    expect(resolveDuration('three weeks')).toMatchObject({ amount: 3, unit: 'week', days: 21 });
+    expect(resolveDuration('4-week')?.days).toBe(28);
+    expect(resolveDuration('soon')).toBeNull();
+  });
+});
+
+// ============================================
+// Schedule deltas
+// ============================================
+
+describe('resolveScheduleDelta', () => {
+  it('reads explicit ranges as before and after', () => {
+    const delta = resolveScheduleDelta('Launch moves from March 3 to March 24.', Date.UTC(2026, 1, 10));
+    expect(delta).toMatchObject({
+      anchor: '2026-02-10',
+      before: { date: '2026-03-03', precision: 'day' },
+      after: { date: '2026-03-24', precision: 'day' },
+      shift_days: 21,
+    });
+  });
+
+  it('rolls the end of a range across the year boundary', () => {
+    const delta = resolveScheduleDelta('Checkout moved from Dec to Jan', Date.UTC(2026, 10, 2));
+    expect(delta?.before?.date).toBe('2026-12-31');
+    expect(delta?.after?.date).toBe('2027-01-31');
+  });
+
+  it('resolves targets relative to the meeting', () => {
+    expect(resolveScheduleDelta('ETA end of Q3', MEETING_AT)?.after?.date).toBe('2026-09-30');
+    expect(resolveScheduleDelta('Beta launch moved to next Friday', MEETING_AT)?.after?.date).toBe('2026-05-22');
+    expect(resolveScheduleDelta('We ship next Friday', MEETING_AT)?.after?.date).toBe('2026-05-22');
+    expect(resolveScheduleDelta('We ship in 3 weeks', MEETING_AT)?.after?.date).toBe('2026-06-03');
+  });
+
+  it('keeps a bare shift without inventing dates', () => {
+    const delta = resolveScheduleDelta('Billing will slip by 2 sprints', MEETING_AT);
+    expect(delta?.before).toBeUndefined();
+    expect(delta?.after).toBeUndefined();
+    expect(delta?.shift).toMatchObject({ amount: 2, unit: 'sprint', days: 28 });
+    expect(delta?.shift_days).toBe(28);
+    expect(resolveScheduleDelta('Onboarding pulled in by a week', MEETING_AT)?.shift_days).toBe(-7);
+  });
+
+  it('derives the missing side from a shift and a target', () => {
+    const delta = resolveScheduleDelta('Beta delayed 2 weeks to June 5', MEETING_AT);
+    expect(delta?.before?.date).toBe('2026-05-22');
+    expect(delta?.after?.date).toBe('2026-06-05');
+    expect(formatScheduleDelta(delta!)).toBe('delayed 2 weeks to Jun 5');
+  });
+
+  it('ignores text without schedule language', () => {
+    expect(resolveScheduleDelta('Launch may slip if legal is late', MEETING_AT)).toBeNull();
+    expect(resolveScheduleDelta('On Friday we discussed pricing', MEETING_AT)).toBeNull();
+  });
+});
+
+// ============================================
+// Title rendering
+// ============================================
+
+describe('ensureUpdateTitleIncludesDelta with a schedule delta', () => {
+  const spans: EvidenceSpan[] = [{ start_line: 0, end_line: 0, text: 'Checkout moved from Jan to Feb' }];
+  const delta = resolveScheduleDelta(spans[0].text, Date.UTC(2026, 0, 5))!;
+
+  it('renders the resolved dates', () => {
+    expect(ensureUpdateTitleIncludesDelta('launch timeline', spans, delta)).toBe('Checkout delayed from Jan to Feb');
+    expect(
+      ensureUpdateTitleIncludesDelta('launch', [{ start_line: 0, end_line: 0, text: 'Checkout ETA end of Q3' }],
+        resolveScheduleDelta('Checkout ETA end of Q3', MEETING_AT)!)
+    ).toBe('Checkout now targeting Q3 (Sep 30)');
+  });
+
+  it('leaves titles that already name the target date', () => {
+    expect(ensureUpdateTitleIncludesDelta('Checkout moves to Feb', spans, delta)).toBe('Checkout moves to Feb');
+  });
+});
+
+// ============================================
+// Engine integration
+// ============================================
+
+describe('engine attaches payload.schedule_delta', () => {
+  beforeEach(() => {
+    resetSectionCounter();
+    resetSuggestionCounter();
+  });
+
+  const markdown = `# Weekly sync
+
+## Checkout launch
+- The checkout launch will slip by 2 sprints to next Friday because the billing integration is late
+- Owner confirmed the new timeline with finance
+`;
+
+  it('anchors on meeting_at and honours the sprint length', () => {
+    const result = generateSuggestions(
+      { note_id: 'note-1', raw_markdown: markdown, authored_at: '2026-06-30T12:00:00Z', meeting_at: '2026-05-13T15:00:00Z' },
+      undefined,
+      { dates: { sprint_length_days: 7, fiscal_year_start_month: 1 } }
+    );
+    const update = result.suggestions.find((s) => s.type === 'project_update');
+    expect(update?.payload.schedule_delta).toMatchObject({
+      anchor: '2026-05-13',
+      after: { date: '2026-05-22' },
+      before: { date: '2026-05-08' },
+      shift: { unit: 'sprint', days: 14 },
+    });
+  });
+
+  it('does not resolve dates without an anchor', () => {
+    const result = generateSuggestions({ note_id: 'note-1', raw_markdown: markdown });
+    const update = result.suggestions.find((s) => s.type === 'project_update');
+    expect(update?.payload.schedule_delta).toBeUndefined();
+  });
+});
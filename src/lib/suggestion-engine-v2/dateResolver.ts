@@ -0,0 +1,571 @@
+/**
+ * Date / Duration Resolver
+ *
+ * Turns schedule language in project updates ("slip by 2 sprints", "moved
+ * from Jan to Feb", "ETA end of Q3", "next Friday") into concrete dates
+ * relative to the meeting the note was taken in.
+ *
+ * Conventions:
+ * - Weeks start on Monday. "this Friday" is the Friday of the meeting's week
+ *   (the following one if it already passed); "next Friday" is the Friday of
+ *   the following week. "next week" / "end of week" resolve to Friday.
+ * - Bare months and quarters have deadline semantics: "moved to March" is
+ *   March 31 with precision 'month'.
+ * - Quarters are fiscal quarters (DateResolverConfig.fiscal_year_start_month).
+ *   "Q3 2027" / "Q3 FY27" is Q3 of the fiscal year that ends in 2027.
+ * - Dates without a year take the occurrence that is not more than ~6 months
+ *   before the meeting.
+ * - Sprints are DateResolverConfig.sprint_length_days long.
+ *
+ * NO LLM. Deterministic given the anchor, so nothing is resolved when the
+ * note has no meeting/authored time and the context has no `now`.
+ */
+
+import type {
+  DatePrecision,
+  DateResolverConfig,
+  GeneratorContext,
+  NoteInput,
+  ResolvedDate,
+  ResolvedDuration,
+  ScheduleDelta,
+  Suggestion,
+} from './types';
+import { DEFAULT_DATE_RESOLVER_CONFIG } from './types';
+
+// ============================================
+// Patterns
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Dates this far before the meeting are assumed to mean next year */
+const YEAR_ROLLOVER_DAYS = 183;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, couple: 2,
+};
+
+const MONTH = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const WEEKDAY = WEEKDAYS.join('|');
+const ORDINAL = '(?:st|nd|rd|th)';
+const PART = '(?:start|beginning|early|mid|middle|end|late)';
+const NUMBER = '\\d+|(?:a\\s+)?couple\\s+of|an?|one|two|three|four|five|six|seven|eight|nine|ten|twelve';
+const UNIT = 'days?|weeks?|wks?|sprints?|months?|quarters?';
+
+const DURATION = `(?:${NUMBER})[\\s-]*(?:${UNIT})`;
+
+/**
+ * One date expression. Alternatives are ordered longest-first because JS
+ * alternation takes the first alternative that matches.
+ */
+const DATE = [
+  '\\d{4}-\\d{2}-\\d{2}',
+  `(?:${MONTH})\\.?\\s+\\d{1,2}${ORDINAL}?(?:,?\\s+\\d{4})?`,
+  `\\d{1,2}${ORDINAL}?\\s+(?:of\\s+)?(?:${MONTH})(?:,?\\s+\\d{4})?`,
+  `(?:${PART}(?:\\s+of)?\\s+(?:the\\s+)?)?(?:fy\\s?\\d{2,4}\\s+)?q[1-4](?:\\s+(?:fy\\s?)?(?:\\d{4}|\\d{2}))?`,
+  `(?:${PART}\\s+of\\s+(?:the\\s+)?)?(?:this|next)\\s+(?:week|month|quarter|year)`,
+  'end\\s+of\\s+(?:the\\s+)?(?:week|month|quarter|year)',
+  'eo[wmqy]',
+  `(?:${PART}(?:\\s+of)?\\s+|mid-)?(?:${MONTH})(?:\\s+\\d{4})?`,
+  `(?:(?:this|next)\\s+)?(?:${WEEKDAY})`,
+  'today|tomorrow|eod|end\\s+of\\s+(?:the\\s+)?day',
+  `in\\s+${DURATION}`,
+  `\\d{1,2}${ORDINAL}`,
+].join('|');
+
+/** "from March 3 to March 24", "from Jan to Feb" */
+const FROM_TO_RE = new RegExp(
+  `\\bfrom\\s+(?:the\\s+)?(${DATE})(?![\\w-])\\s+(?:to|until|till|→|->)\\s+(?:the\\s+)?(${DATE})(?![\\w-])`,
+  'gi'
+);
+
+/** "12th → 19th", "Mar 3 -> Mar 24" */
+const ARROW_RE = new RegExp(`\\b(${DATE})(?![\\w-])\\s*(?:→|->)\\s*(${DATE})(?![\\w-])`, 'gi');
+
+/** "slip by 2 sprints", "pushed back three weeks", "pulled in by a week" */
+const SHIFT_VERB_RE = new RegExp(
+  `\\b(slip(?:s|ped|ping)?|delay(?:s|ed|ing)?|push(?:es|ed|ing)?(?:\\s+(?:back|out))?|mov(?:e|es|ed|ing)\\s+(?:out|back)|extend(?:s|ed|ing)?|postpon(?:e|es|ed|ing)|pull(?:s|ed|ing)?\\s+(?:in|forward)|br(?:ing|ings|ought)\\s+forward)\\s+(?:by\\s+)?(?:another\\s+|an\\s+(?:extra|additional)\\s+)?(${DURATION})\\b`,
+  'gi'
+);
+
+/** "4-week delay", "2 sprint slip" */
+const SHIFT_NOUN_RE = new RegExp(`\\b(${DURATION})\\s+(?:slip(?:page)?|delay|extension|push(?:back)?)\\b`, 'gi');
+
+const SCHEDULE_VERB =
+  'mov(?:e|es|ed|ing)|push(?:es|ed|ing)?|delay(?:s|ed)?|slip(?:s|ped)?|postponed|rescheduled|launch(?:es|ed|ing)?|ship(?:s|ping)?|releas(?:e|es|ing)|go[- ]live|land(?:s|ing)?';
+
+/**
+ * "ETA end of Q3", "moved to next Friday", "launch by March 24", "ships in 2 weeks",
+ * "ship next Friday". Schedule verbs need a connector so "launch may slip" is
+ * not read as May; only this/next dates may follow the verb directly.
+ */
+const TARGET_RE = new RegExp(
+  `(?:\\b(?:eta|deadline|due|target(?:s|ed|ing)?)\\b:?\\s*(?:(?:to|until|by|for|on|of|is)\\s+)?|\\b(?:${SCHEDULE_VERB})\\s+(?=(?:this|next)\\s)|\\b(?:${SCHEDULE_VERB})\\b[^.;\\n]{0,30}?(?:\\b(?:to|until|till|by|for|on|at|is|of)\\s+|(?=in\\s))|(?:→|->)\\s*)(?:the\\s+)?(${DATE})(?![\\w-])`,
+  'gi'
+);
+
+/** "by Thursday", "due May 14", "before end of Q3", "no later than next Friday" */
+const DUE_RE = new RegExp(
+  `\\b(?:by|due(?:\\s+(?:by|on))?|before|no\\s+later\\s+than)\\s+(?:the\\s+)?(${DATE})(?![\\w-])`,
+  'i'
+);
+
+// ============================================
+// Calendar Helpers
+// ============================================
+
+function startOfUtcDay(ms: number): number {
+  const d = new Date(ms);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+/** Monday = 0 … Sunday = 6 */
+function weekdayIndex(ms: number): number {
+  return (new Date(ms).getUTCDay() + 6) % 7;
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return Date.UTC(year, month + 1, 0);
+}
+
+function toIsoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function parseYear(raw: string): number {
+  const year = Number(raw);
+  return raw.length === 2 ? 2000 + year : year;
+}
+
+function parseNumber(raw: string): number {
+  const word = raw.trim().toLowerCase().replace(/^a\s+/, '').replace(/\s+of$/, '');
+  return /^\d+$/.test(word) ? Number(word) : NUMBER_WORDS[word] ?? NaN;
+}
+
+/** Same month/day in the anchor's year, or next year if that is long past */
+function nearestYear(anchor: number, build: (year: number) => number): number {
+  const year = new Date(anchor).getUTCFullYear();
+  const date = build(year);
+  return date < anchor - YEAR_ROLLOVER_DAYS * DAY_MS ? build(year + 1) : date;
+}
+
+function dayInMonth(part: string | undefined, year: number, month: number): number {
+  if (part === 'start' || part === 'beginning' || part === 'early') return Date.UTC(year, month, 1);
+  if (part === 'mid' || part === 'middle') return Date.UTC(year, month, 15);
+  return lastDayOfMonth(year, month);
+}
+
+/** Fiscal quarter q of the fiscal year starting in `fyStartYear` */
+function fiscalQuarterDate(
+  q: number,
+  fyStartYear: number,
+  part: string | undefined,
+  config: DateResolverConfig
+): number {
+  const firstMonth = config.fiscal_year_start_month - 1 + 3 * (q - 1);
+  if (part === 'start' || part === 'beginning' || part === 'early') return Date.UTC(fyStartYear, firstMonth, 1);
+  if (part === 'mid' || part === 'middle') return Date.UTC(fyStartYear, firstMonth + 1, 15);
+  return Date.UTC(fyStartYear, firstMonth + 3, 0);
+}
+
+/** Fiscal year (by start year) and quarter containing `ms` */
+function currentFiscalQuarter(ms: number, config: DateResolverConfig): { fyStartYear: number; q: number } {
+  const d = new Date(ms);
+  const startMonth = config.fiscal_year_start_month - 1;
+  const offset = (d.getUTCMonth() - startMonth + 12) % 12;
+  return {
+    fyStartYear: d.getUTCMonth() >= startMonth ? d.getUTCFullYear() : d.getUTCFullYear() - 1,
+    q: Math.floor(offset / 3) + 1,
+  };
+}
+
+/**
+ * Shift a date by a duration. Months and quarters move by calendar month
+ * (clamped to the month's last day); everything else by days.
+ */
+export function shiftDate(ms: number, duration: ResolvedDuration): number {
+  if (duration.unit === 'month' || duration.unit === 'quarter') {
+    const months = duration.unit === 'month' ? duration.amount : duration.amount * 3;
+    const d = new Date(ms);
+    const target = Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1);
+    const t = new Date(target);
+    const lastDay = new Date(lastDayOfMonth(t.getUTCFullYear(), t.getUTCMonth())).getUTCDate();
+    return Date.UTC(t.getUTCFullYear(), t.getUTCMonth(), Math.min(d.getUTCDate(), lastDay));
+  }
+  return ms + duration.days * DAY_MS;
+}
+
+// ============================================
+// Expression Resolution
+// ============================================
+
+/**
+ * Resolve a duration expression ("2 sprints", "three weeks", "4-week")
+ */
+export function resolveDuration(
+  text: string,
+  config: DateResolverConfig = DEFAULT_DATE_RESOLVER_CONFIG
+): ResolvedDuration | null {
+  const match = text.trim().match(new RegExp(`^(${NUMBER})[\\s-]*(${UNIT})$`, 'i'));
+  if (!match) return null;
+  const amount = parseNumber(match[1]);
+  if (!Number.isFinite(amount) || amount <= 0) return null;
+
+  const rawUnit = match[2].toLowerCase();
+  const unit: ResolvedDuration['unit'] = rawUnit.startsWith('w')
+    ? 'week'
+    : (rawUnit.replace(/s$/, '') as ResolvedDuration['unit']);
+  const unitDays: Record<ResolvedDuration['unit'], number> = {
+    day: 1,
+    week: 7,
+    sprint: config.sprint_length_days,
+    month: 30,
+    quarter: 91,
+  };
+  return { amount, unit, days: amount * unitDays[unit], text: text.trim() };
+}
+
+/**
+ * Resolve one date expression relative to the meeting date.
+ * Returns null for anything the resolver does not understand.
+ */
+export function resolveDateExpression(
+  text: string,
+  anchorMs: number,
+  config: DateResolverConfig = DEFAULT_DATE_RESOLVER_CONFIG
+): ResolvedDate | null {
+  const anchor = startOfUtcDay(anchorMs);
+  const expr = text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\bthe /g, '');
+  const resolved = (ms: number, precision: DatePrecision): ResolvedDate => ({
+    date: toIsoDate(ms),
+    precision,
+    text: text.trim(),
+  });
+  let m: RegExpMatchArray | null;
+
+  if ((m = expr.match(/^(\d{4})-(\d{2})-(\d{2})$/))) {
+    return resolved(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])), 'day');
+  }
+
+  // "March 24", "Mar 24th, 2027", "24 March", "24th of March"
+  m = expr.match(new RegExp(`^(${MONTH})\\.? (\\d{1,2})${ORDINAL}?(?:,? (\\d{4}))?$`));
+  const dayFirst = m ? null : expr.match(new RegExp(`^(\\d{1,2})${ORDINAL}? (?:of )?(${MONTH})(?:,? (\\d{4}))?$`));
+  if (m || dayFirst) {
+    const [monthName, dayRaw, yearRaw] = m ? [m[1], m[2], m[3]] : [dayFirst![2], dayFirst![1], dayFirst![3]];
+    const month = MONTHS[monthName.slice(0, 3)];
+    const day = Number(dayRaw);
+    if (day < 1 || day > 31) return null;
+    const ms = yearRaw ? Date.UTC(Number(yearRaw), month, day) : nearestYear(anchor, (y) => Date.UTC(y, month, day));
+    return resolved(ms, 'day');
+  }
+
+  // "Q3", "end of Q3", "Q1 2027", "Q2 FY27", "FY27 Q2"
+  if ((m = expr.match(new RegExp(`^(?:(${PART})(?: of)? )?(?:fy ?(\\d{2,4}) )?q([1-4])(?: (?:fy ?)?(\\d{4}|\\d{2}))?$`)))) {
+    const part = m[1];
+    const q = Number(m[3]);
+    const label = m[2] ?? m[4];
+    if (label) {
+      // Fiscal years are labelled by the calendar year they end in
+      const endYear = parseYear(label);
+      const fyStartYear = config.fiscal_year_start_month === 1 ? endYear : endYear - 1;
+      return resolved(fiscalQuarterDate(q, fyStartYear, part, config), 'quarter');
+    }
+    const { fyStartYear } = currentFiscalQuarter(anchor, config);
+    for (const year of [fyStartYear, fyStartYear + 1]) {
+      if (fiscalQuarterDate(q, year, undefined, config) >= anchor) {
+        return resolved(fiscalQuarterDate(q, year, part, config), 'quarter');
+      }
+    }
+    return null;
+  }
+
+  // "next week", "end of this month", "start of next quarter", "eoy"
+  m = expr.match(new RegExp(`^(?:(${PART}) of )?(this|next) (week|month|quarter|year)$`));
+  const endOf = m ? null : expr.match(/^(?:end of (week|month|quarter|year)|eo([wmqy]))$/);
+  if (m || endOf) {
+    const part = m ? m[1] : 'end';
+    const offset = m && m[2] === 'next' ? 1 : 0;
+    const unitKey = m ? m[3] : endOf![1] ?? { w: 'week', m: 'month', q: 'quarter', y: 'year' }[endOf![2] as 'w' | 'm' | 'q' | 'y'];
+    const starts = part === 'start' || part === 'beginning' || part === 'early';
+    const d = new Date(anchor);
+
+    if (unitKey === 'week') {
+      const monday = anchor - weekdayIndex(anchor) * DAY_MS + offset * 7 * DAY_MS;
+      return resolved(starts ? monday : monday + 4 * DAY_MS, 'week');
+    }
+    if (unitKey === 'month') {
+      return resolved(dayInMonth(part, d.getUTCFullYear(), d.getUTCMonth() + offset), 'month');
+    }
+    if (unitKey === 'quarter') {
+      const current = currentFiscalQuarter(anchor, config);
+      const index = current.q - 1 + offset;
+      return resolved(
+        fiscalQuarterDate((index % 4) + 1, current.fyStartYear + Math.floor(index / 4), part, config),
+        'quarter'
+      );
+    }
+    const year = d.getUTCFullYear() + offset;
+    return resolved(starts ? Date.UTC(year, 0, 1) : Date.UTC(year, 11, 31), 'year');
+  }
+
+  // "March", "end of March", "mid-March", "early March 2027"
+  if ((m = expr.match(new RegExp(`^(?:(${PART})(?: of)? |mid-)?(${MONTH})(?: (\\d{4}))?$`)))) {
+    const part = m[1] ?? (expr.startsWith('mid-') ? 'mid' : undefined);
+    const month = MONTHS[m[2].slice(0, 3)];
+    const ms = m[3]
+      ? dayInMonth(part, Number(m[3]), month)
+      : nearestYear(anchor, (y) => dayInMonth(part, y, month));
+    return resolved(ms, 'month');
+  }
+
+  // "Friday", "this Friday", "next Friday"
+  if ((m = expr.match(new RegExp(`^(?:(this|next) )?(${WEEKDAY})$`)))) {
+    const today = weekdayIndex(anchor);
+    const target = WEEKDAYS.indexOf(m[2]);
+    let days: number;
+    if (m[1] === 'next') {
+      days = 7 - today + target;
+    } else if (m[1] === 'this') {
+      days = target >= today ? target - today : 7 - today + target;
+    } else {
+      days = (target - today + 7) % 7 || 7;
+    }
+    return resolved(anchor + days * DAY_MS, 'day');
+  }
+
+  if (expr === 'today' || expr === 'eod' || expr === 'end of day') return resolved(anchor, 'day');
+  if (expr === 'tomorrow') return resolved(anchor + DAY_MS, 'day');
+
+  if ((m = expr.match(/^in (.+)$/))) {
+    const duration = resolveDuration(m[1], config);
+    return duration ? resolved(shiftDate(anchor, duration), 'day') : null;
+  }
+
+  // "19th" — a day in the meeting's month
+  if ((m = expr.match(new RegExp(`^(\\d{1,2})${ORDINAL}$`)))) {
+    const day = Number(m[1]);
+    if (day < 1 || day > 31) return null;
+    const d = new Date(anchor);
+    return resolved(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), day), 'day');
+  }
+
+  return null;
+}
+
+/**
+ * Find a due-date clause ("by Thursday", "due May 14") in free text.
+ * Returns the whole clause as written and its date expression; resolving
+ * the expression needs an anchor (resolveDateExpression).
+ */
+export function findDueClause(text: string): { clause: string; expression: string } | null {
+  const m = text.match(DUE_RE);
+  return m ? { clause: m[0], expression: m[1] } : null;
+}
+
+// ============================================
+// Schedule Delta
+// ============================================
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/** "to" side of a range written without a year that lands before the "from" side */
+function rollForward(before: ResolvedDate, after: ResolvedDate): ResolvedDate {
+  if (after.date >= before.date || /\d{4}/.test(after.text)) return after;
+  const d = new Date(Date.parse(after.date));
+  if (/^\d{1,2}(?:st|nd|rd|th)$/i.test(after.text.trim())) {
+    // "28th → 3rd" crosses into the next month
+    return { ...after, date: toIsoDate(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate())) };
+  }
+  const next =
+    after.precision === 'month'
+      ? dayInMonth(d.getUTCDate() === 1 ? 'start' : d.getUTCDate() === 15 ? 'mid' : undefined, d.getUTCFullYear() + 1, d.getUTCMonth())
+      : Date.UTC(d.getUTCFullYear() + 1, d.getUTCMonth(), d.getUTCDate());
+  return { ...after, date: toIsoDate(next) };
+}
+
+/**
+ * Resolve the schedule change described by `text` into before/after dates.
+ *
+ * Priority: an explicit range ("from X to Y", "X → Y") supplies both dates;
+ * otherwise the last target ("moved to Y", "ETA Y") supplies `after`. A
+ * stated shift ("slip by 2 sprints") fills in whichever side is missing.
+ *
+ * @param text     Evidence text (one or more lines)
+ * @param anchorMs Meeting time the note was taken in
+ * @returns The delta, or null when the text has no schedule change
+ */
+export function resolveScheduleDelta(
+  text: string,
+  anchorMs: number,
+  config: DateResolverConfig = DEFAULT_DATE_RESOLVER_CONFIG
+): ScheduleDelta | null {
+  let before: ResolvedDate | undefined;
+  let after: ResolvedDate | undefined;
+  let shift: ResolvedDuration | undefined;
+
+  for (const re of [FROM_TO_RE, ARROW_RE]) {
+    for (const match of text.matchAll(re)) {
+      const from = resolveDateExpression(match[1], anchorMs, config);
+      const to = resolveDateExpression(match[2], anchorMs, config);
+      if (from && to) {
+        before = from;
+        after = rollForward(from, to);
+      }
+    }
+    if (after) break;
+  }
+
+  if (!after) {
+    for (const match of text.matchAll(TARGET_RE)) {
+      after = resolveDateExpression(match[1], anchorMs, config) ?? after;
+    }
+  }
+
+  for (const match of text.matchAll(SHIFT_VERB_RE)) {
+    const duration = resolveDuration(match[2], config);
+    if (!duration) continue;
+    const pulledIn = /^(pull|br)/i.test(match[1]);
+    shift = pulledIn ? { ...duration, amount: -duration.amount, days: -duration.days } : duration;
+  }
+  if (!shift) {
+    for (const match of text.matchAll(SHIFT_NOUN_RE)) {
+      shift = resolveDuration(match[1], config) ?? shift;
+    }
+  }
+
+  if (!before && !after && !shift) return null;
+
+  if (shift && before && !after) {
+    after = { date: toIsoDate(shiftDate(Date.parse(before.date), shift)), precision: before.precision, text: shift.text };
+  } else if (shift && after && !before) {
+    const back = { ...shift, amount: -shift.amount, days: -shift.days };
+    before = { date: toIsoDate(shiftDate(Date.parse(after.date), back)), precision: after.precision, text: shift.text };
+  }
+
+  const delta: ScheduleDelta = {
+    anchor: toIsoDate(startOfUtcDay(anchorMs)),
+    source_text: text.trim(),
+  };
+  if (before) delta.before = before;
+  if (after) delta.after = after;
+  if (shift) delta.shift = shift;
+  if (before && after) delta.shift_days = daysBetween(before.date, after.date);
+  else if (shift) delta.shift_days = shift.days;
+  return delta;
+}
+
+// ============================================
+// Engine Integration
+// ============================================
+
+/**
+ * Anchor for relative dates: meeting time, then authored time, then
+ * context.now. Undefined when none is known.
+ */
+export function resolveDateAnchor(note: NoteInput, context?: GeneratorContext): number | undefined {
+  for (const iso of [note.meeting_at, note.authored_at]) {
+    const ms = iso ? Date.parse(iso) : NaN;
+    if (Number.isFinite(ms)) return ms;
+  }
+  return context?.now;
+}
+
+/**
+ * Resolve a suggestion's schedule delta from its own evidence spans
+ * (spans merged in from other notes are ignored).
+ */
+export function resolveSuggestionScheduleDelta(
+  suggestion: Pick<Suggestion, 'evidence_spans'>,
+  anchorMs: number | undefined,
+  config: DateResolverConfig = DEFAULT_DATE_RESOLVER_CONFIG
+): ScheduleDelta | null {
+  if (anchorMs === undefined) return null;
+  const text = suggestion.evidence_spans
+    .filter((span) => !span.note_id)
+    .map((span) => span.text)
+    .join('\n');
+  return text.trim() ? resolveScheduleDelta(text, anchorMs, config) : null;
+}
+
+/**
+ * Attach payload.schedule_delta to project_update suggestions
+ */
+export function attachScheduleDeltas<T extends Suggestion>(
+  suggestions: T[],
+  anchorMs: number | undefined,
+  config: DateResolverConfig = DEFAULT_DATE_RESOLVER_CONFIG
+): T[] {
+  if (anchorMs === undefined) return suggestions;
+  return suggestions.map((s) => {
+    if (s.type !== 'project_update') return s;
+    const scheduleDelta = resolveSuggestionScheduleDelta(s, anchorMs, config);
+    return scheduleDelta ? { ...s, payload: { ...s.payload, schedule_delta: scheduleDelta } } : s;
+  });
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+/**
+ * Short label for a resolved date: "Mar 24", "Feb", "Q3 (Sep 30)".
+ * The year is added when it differs from the anchor's.
+ */
+export function formatResolvedDate(resolved: ResolvedDate, anchor: string): string {
+  const [year, month, day] = resolved.date.split('-').map(Number);
+  const yearSuffix = String(year) !== anchor.slice(0, 4) ? ` ${year}` : '';
+  const dayLabel = `${MONTH_LABELS[month - 1]} ${day}`;
+
+  switch (resolved.precision) {
+    case 'month':
+      return /\d{1,2}(?:st|nd|rd|th)?\b|start|beginning|early|mid|end|late/i.test(resolved.text.replace(/\d{4}/, ''))
+        ? `${dayLabel}${yearSuffix ? `,${yearSuffix}` : ''}`
+        : `${MONTH_LABELS[month - 1]}${yearSuffix}`;
+    case 'quarter': {
+      const q = resolved.text.match(/q([1-4])/i);
+      const label = `${dayLabel}${yearSuffix ? `,${yearSuffix}` : ''}`;
+      return q ? `Q${q[1]} (${label})` : label;
+    }
+    case 'year':
+      return `${dayLabel}, ${year}`;
+    default:
+      return `${dayLabel}${yearSuffix ? `,${yearSuffix}` : ''}`;
+  }
+}
+
+/**
+ * Render the delta for a title: "delayed 2 sprints to Apr 7",
+ * "moved from Jan to Feb", "now targeting Q3 (Sep 30)".
+ * Returns null when the delta has no resolved target date.
+ */
+export function formatScheduleDelta(delta: ScheduleDelta): string | null {
+  if (!delta.after) return null;
+  const after = formatResolvedDate(delta.after, delta.anchor);
+  const verb =
+    delta.shift_days === undefined || delta.shift_days === 0
+      ? 'moved'
+      : delta.shift_days > 0
+        ? 'delayed'
+        : 'pulled in';
+
+  if (delta.shift) {
+    return `${verb} ${delta.shift.text} to ${after}`;
+  }
+  if (delta.before) {
+    return `${verb} from ${formatResolvedDate(delta.before, delta.anchor)} to ${after}`;
+  }
+  return `now targeting ${after}`;
+}
@@ -13,7 +13,7 @@ import type {
   Suggestion,
   ClassifiedSection,
 } from "./types";
-import { DEFAULT_CONFIG } from "./types";
+import { DEFAULT_CONFIG, DEFAULT_DATE_RESOLVER_CONFIG } from "./types";
 import type { DebugRun, DebugVerbosity } from "./debugTypes";
 import { DropReason, DropStage } from "./debugTypes";
 import {
@@ -22,7 +22,12 @@ import {
   sectionToDebug,
 } from "./DebugLedger";
 import { preprocessNote, resetSectionCounter } from "./preprocessing";
-import { classifySections, filterActionableSections, isPlanChangeIntentLabel, qualifiesForStructuralIdeaBypass } from "./classifiers";
+import { attributeEvidenceSpans } from "./transcript";
+import { anchorSuggestionKeys } from "./keyAnchoring";
+import { classifySections, classifySectionsWithLLMRun, filterActionableSections, isPlanChangeIntentLabel, qualifiesForStructuralIdeaBypass } from "./classifiers";
+import { runLLMClassification } from "./llmClassifiers";
+import { runLLMRewrite } from "./llmRewrite";
+import type { LLMClassificationRun } from "./llmClassifiers";
 import { sectionHasDeltaSignal } from "./consolidateBySection";
 import { applyFinalEmissionEnforcement } from "./finalEmissionEnforcement";
 import { normalizeTitlePrefix } from "./title-normalization";
@@ -30,6 +35,7 @@ import { extractIdeaCandidates, resetIdeaSemanticCounter } from "./extractIdeaCa
 import { computeSuggestionKey } from "../suggestion-keys";
 import { extractSignalsFromSentences } from "./signals";
 import { seedCandidatesFromBSignals, resetBSignalCounter } from "./bSignalSeeding";
+import { seedActionItemCandidates, mergeActionItemCandidates, resetActionItemCounter } from "./actionItemSeeding";
 import {
   synthesizeSuggestions,
   resetSuggestionCounter,
@@ -46,6 +52,7 @@ import { runScoringPipeline } from "./scoring";
 import { routeSuggestions } from "./routing";
 import { shouldSuppressProcessSentence } from "./processNoiseSuppression";
 import { computeNoteHash } from "./noteHash";
+import { attachScheduleDeltas, resolveDateAnchor } from "./dateResolver";
 
 // ============================================
 // Debug Generator Options
@@ -54,12 +61,57 @@ import { computeNoteHash } from "./noteHash";
 export interface DebugGeneratorOptions {
   verbosity?: DebugVerbosity;
   userId?: string;
+  /** Precomputed LLM classification (see generateSuggestionsWithDebugAsync) */
+  llmRun?: LLMClassificationRun | null;
 }
 
 export interface DebugGeneratorResult extends GeneratorResult {
   debugRun?: DebugRun;
 }
 
+/**
+ * Async variant of generateSuggestionsWithDebug.
+ *
+ * Runs LLM classification first when config.use_llm_classifiers is set and
+ * context.llm_model names a registered provider; the debug run records the
+ * provider, token use and every section that fell back to rules. With
+ * config.use_llm_rewrite the emitted suggestions are then rewritten, and
+ * debugRun.llmRewrite lists rule output and rewrite side by side.
+ */
+export async function generateSuggestionsWithDebugAsync(
+  note: NoteInput,
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>,
+  debugOptions?: DebugGeneratorOptions
+): Promise<DebugGeneratorResult> {
+  const llmRun = await runLLMClassification(note, context, config);
+  const result = generateSuggestionsWithDebug(note, context, config, { ...debugOptions, llmRun });
+
+  const rewrite = await runLLMRewrite(result.suggestions, context, config);
+  if (!rewrite) return result;
+  if (result.debug) result.debug.llm_rewrite = rewrite.run;
+  const debugRun: DebugRun | undefined = result.debugRun && {
+    ...result.debugRun,
+    llmRewrite: {
+      providerId: rewrite.run.provider_id,
+      tokensUsed: rewrite.run.tokens_used,
+      calls: rewrite.run.calls,
+      cacheHits: rewrite.run.cache_hits,
+      items: rewrite.run.outcomes.map((outcome) => ({
+        suggestionId: outcome.suggestion_id,
+        ruleTitle: outcome.rule_title,
+        ruleBody: outcome.rule_body,
+        rewriteTitle: outcome.rewrite_title,
+        rewriteBody: outcome.rewrite_body,
+        applied: outcome.applied,
+        fallbackReason: outcome.fallback_reason,
+        ungroundedTerms: outcome.ungrounded_terms,
+      })),
+    },
+  };
+  return { ...result, suggestions: rewrite.suggestions, debugRun };
+}
+
 // ============================================
 // Structural bypass ID generation
 // ============================================
@@ -96,6 +148,7 @@ export function generateSuggestionsWithDebug(
   resetBSignalCounter();
   resetIdeaSemanticCounter();
   resetDebugBypassCounter();
+  resetActionItemCounter();
 
   // Compute deterministic hash of note content
   const noteHash = computeNoteHash(note.raw_markdown);
@@ -129,7 +182,7 @@ export function generateSuggestionsWithDebug(
     // Stage 1: Preprocessing
     // ============================================
     const segmentStart = Date.now();
-    const { lines, sections } = preprocessNote(note);
+    const { lines, sections, format } = preprocessNote(note);
     
     if (ledger) {
       ledger.recordStageTiming(DropStage.SEGMENTATION, Date.now() - segmentStart);
@@ -150,10 +203,14 @@ export function generateSuggestionsWithDebug(
     // Stage 2: Classification
     // ============================================
     const classifyStart = Date.now();
-    const classifiedSections = classifySections(sections, finalConfig.thresholds);
+    const llmRun = debugOptions?.llmRun;
+    const classifiedSections = llmRun
+      ? classifySectionsWithLLMRun(sections, finalConfig.thresholds, llmRun)
+      : classifySections(sections, finalConfig.thresholds);
     
     // Record classification results
     if (ledger) {
+      if (llmRun) ledger.recordLLMRun(llmRun);
       for (const classified of classifiedSections) {
         const sectionDebug = ledger.getSection(classified.section_id);
         if (sectionDebug) {
@@ -230,7 +287,15 @@ export function generateSuggestionsWithDebug(
       return qualifiesForStructuralIdeaBypass(s, sectionHasDeltaSignal(s.raw_text));
     });
 
-    if (actionableSections.length === 0 && !hasStructuralBypassCandidate) {
+    // Action items come from every section, including suppressed "Next steps"
+    // sections (see actionItemSeeding.ts), and keep the pipeline running.
+    const dateAnchor = resolveDateAnchor(note, context);
+    const dateConfig = finalConfig.dates ?? DEFAULT_DATE_RESOLVER_CONFIG;
+    const actionItemCandidates = classifiedSections.flatMap((s) =>
+      seedActionItemCandidates(s, dateAnchor, dateConfig)
+    );
+
+    if (actionableSections.length === 0 && !hasStructuralBypassCandidate && actionItemCandidates.length === 0) {
       return buildResult([], noteHash, ledger, finalConfig.enable_debug);
     }
 
@@ -827,7 +892,7 @@ export function generateSuggestionsWithDebug(
       }
     }
 
-    if (synthesizedSuggestions.length === 0 && !hasStructuralBypassCandidate) {
+    if (synthesizedSuggestions.length === 0 && !hasStructuralBypassCandidate && actionItemCandidates.length === 0) {
       return buildResult([], noteHash, ledger, finalConfig.enable_debug);
     }
 
@@ -915,7 +980,7 @@ export function generateSuggestionsWithDebug(
       ledger.recordStageTiming(DropStage.VALIDATION, Date.now() - validStart);
     }
 
-    if (validatedSuggestions.length === 0 && !hasStructuralBypassCandidate) {
+    if (validatedSuggestions.length === 0 && !hasStructuralBypassCandidate && actionItemCandidates.length === 0) {
       return buildResult([], noteHash, ledger, finalConfig.enable_debug);
     }
 
@@ -1098,11 +1163,32 @@ export function generateSuggestionsWithDebug(
       }
     }
 
+    // ============================================
+    // Stage 4.599: Action Item Seeding (additive)
+    // ============================================
+    // Mirror production pipeline: action items replace idea candidates grounded
+    // in the same line.
+    const { merged: withActionItems, replaced: replacedByActionItems } = mergeActionItemCandidates(
+      validatedSuggestions,
+      actionItemCandidates
+    );
+    if (ledger) {
+      for (const replaced of replacedByActionItems) {
+        ledger.dropCandidateById(replaced.suggestion_id, DropReason.REPLACED_BY_ACTION_ITEM);
+      }
+      for (const candidate of actionItemCandidates) {
+        const sectionDebug = ledger.getSection(candidate.section_id);
+        if (sectionDebug) {
+          ledger.afterSynthesis(sectionDebug, candidate);
+        }
+      }
+    }
+
     // ============================================
     // Stage 4.6: Grounding Invariant (anti-hallucination hard gate)
     // ============================================
     const groundedSuggestions: Suggestion[] = [];
-    for (const suggestion of validatedSuggestions) {
+    for (const suggestion of withActionItems) {
       const section =
         sectionMap.get(suggestion.section_id) ||
         (suggestion.section_id.includes('__topic_')
@@ -1148,8 +1234,10 @@ export function generateSuggestionsWithDebug(
         suggestion.suggestion?.body ||
         '';
       const titleText = suggestion.title;
+      // An assigned action item is delivery ownership, not ownership ambiguity
+      const isAssignedActionItem = suggestion.type === "action_item" && !!suggestion.payload.action_item?.assignee;
 
-      if (shouldSuppressProcessSentence(evidenceText) || shouldSuppressProcessSentence(titleText)) {
+      if (!isAssignedActionItem && (shouldSuppressProcessSentence(evidenceText) || shouldSuppressProcessSentence(titleText))) {
         if (ledger) {
           ledger.dropCandidateById(suggestion.suggestion_id, DropReason.PROCESS_NOISE);
         }
@@ -1253,7 +1341,18 @@ export function generateSuggestionsWithDebug(
     // ============================================
     // Stage 8: Final-emission enforcement
     // ============================================
-    const finalSuggestions = applyFinalEmissionEnforcement(dedupedSuggestions, sectionMap, note.note_id);
+    const enforcedSuggestions = applyFinalEmissionEnforcement(dedupedSuggestions, sectionMap, note.note_id);
+
+    // Resolve schedule deltas against the meeting date (payload.schedule_delta)
+    const datedSuggestions = attachScheduleDeltas(enforcedSuggestions, dateAnchor, dateConfig);
+
+    // Transcript notes: cite speaker and timestamp on evidence spans
+    const attributedSuggestions = format === "transcript"
+      ? attributeEvidenceSpans(datedSuggestions, lines)
+      : datedSuggestions;
+
+    // Evidence-anchored v2 keys (v1 kept as legacySuggestionKey)
+    const finalSuggestions = anchorSuggestionKeys(attributedSuggestions, sections);
 
     // Instrumentation: Log final suggestions state
     if (process.env.DEBUG_AGGREGATION === 'true' || finalConfig.enable_debug) {
@@ -53,6 +53,7 @@ export enum DropReason {
   SPLIT_INTO_SUBSECTIONS = "SPLIT_INTO_SUBSECTIONS",
   UNGROUNDED_EVIDENCE = "UNGROUNDED_EVIDENCE",
   PROCESS_NOISE = "PROCESS_NOISE",
+  REPLACED_BY_ACTION_ITEM = "REPLACED_BY_ACTION_ITEM",
 }
 
 /**
@@ -83,6 +84,7 @@ export const DROP_REASON_STAGE: Record<DropReason, DropStage> = {
   [DropReason.SPLIT_INTO_SUBSECTIONS]: DropStage.TOPIC_ISOLATION,
   [DropReason.UNGROUNDED_EVIDENCE]: DropStage.VALIDATION,
   [DropReason.PROCESS_NOISE]: DropStage.POST_SYNTHESIS_SUPPRESS,
+  [DropReason.REPLACED_BY_ACTION_ITEM]: DropStage.POST_SYNTHESIS_SUPPRESS,
 };
 
 // ============================================
@@ -326,6 +328,46 @@ export interface DebugRunMetadata {
   noteHash?: string;
 }
 
+/**
+ * LLM classification for a run (use_llm_classifiers).
+ * Every section without an LLM intent is listed in fallbacks.
+ */
+export interface LLMRunDebug {
+  providerId: string;
+  tokenBudget: number;
+  tokensUsed: number;
+  calls: number;
+  cacheHits: number;
+  fallbacks: {
+    sectionId: string;
+    /** LLMProviderErrorKind or 'low_confidence' */
+    reason: string;
+    error?: string;
+  }[];
+}
+
+/**
+ * LLM title/body rewrite for a run (use_llm_rewrite): rule output and
+ * rewrite side by side for every emitted suggestion.
+ */
+export interface LLMRewriteDebug {
+  providerId: string;
+  tokensUsed: number;
+  calls: number;
+  cacheHits: number;
+  items: {
+    suggestionId: string;
+    ruleTitle: string;
+    ruleBody: string;
+    rewriteTitle?: string;
+    rewriteBody?: string;
+    applied: boolean;
+    /** LLMProviderErrorKind, 'title_contract', 'ungrounded' or 'unchanged' */
+    fallbackReason?: string;
+    ungroundedTerms?: string[];
+  }[];
+}
+
 /**
  * Complete debug run report
  */
@@ -342,6 +384,12 @@ export interface DebugRun {
 
   sections: SectionDebug[];
 
+  /** Present when sections were classified with an LLM */
+  llm?: LLMRunDebug;
+
+  /** Present when titles/bodies went through the LLM rewrite */
+  llmRewrite?: LLMRewriteDebug;
+
   runtimeStats?: {
     totalMs: number;
     stageMs?: Partial<Record<DropStage, number>>;
@@ -0,0 +1,156 @@
+/**
+ * Decision records
+ *
+ * Decisions in meeting notes become records with rationale, alternatives
+ * considered and participants, anchored to their evidence lines and routed
+ * to an initiative for the decision log.
+ *
+ * Tests:
+ *   1. Decision language and "Decisions" sections; tentative lines skipped
+ *   2. Rationale and alternatives from the sentence and follow-up lines
+ *   3. Participants: named, @mentioned, speakers, attendee fallback
+ *   4. Stable decision keys
+ *   5. Routing to initiatives (lexical and embedding)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractDecisionRecords, applyDecisionEmbeddingRouting } from './decisionRecords';
+import { DEFAULT_THRESHOLDS } from './types';
+import type { NoteInput, InitiativeSnapshot } from './types';
+
+function note(raw_markdown: string, note_id = 'note-decisions'): NoteInput {
+  return { note_id, raw_markdown };
+}
+
+const PLATFORM_SYNC = `# Platform sync
+Attendees: Dana, Lee, @priya
+
+## Auth
+- We decided to drop SSO from v1 because enterprise deals slipped to Q3
+- Need to decide on the SCIM vendor
+- Should we keep magic links?
+
+## Decisions
+- Go with Stripe over Adyen for billing
+  - Adyen onboarding takes 6 weeks
+- Keep the free tier
+  - Why: it drives 40% of signups
+  - Alternatives considered: 14-day trial, usage cap
+- Dana and Lee agreed to freeze the API until the beta ships
+
+## Notes
+The team agreed to move standups to Tuesday instead of Monday. Because of the offsite.
+`;
+
+// ============================================
+// Detection
+// ============================================
+
+describe('extractDecisionRecords', () => {
+  const records = extractDecisionRecords(note(PLATFORM_SYNC));
+
+  it('finds decision language anywhere and every item in a Decisions section', () => {
+    expect(records.map((r) => r.statement)).toEqual([
+      'We decided to drop SSO from v1',
+      'Go with Stripe for billing',
+      'Keep the free tier',
+      'Dana and Lee agreed to freeze the API until the beta ships',
+      'The team agreed to move standups to Tuesday',
+    ]);
+  });
+
+  it('skips open questions and decisions still to be made', () => {
+    const statements = records.map((r) => r.statement.toLowerCase()).join('\n');
+    expect(statements).not.toContain('scim');
+    expect(statements).not.toContain('magic links');
+  });
+
+  it('anchors evidence to note lines', () => {
+    const sso = records[0];
+    expect(sso.section_heading).toBe('Auth');
+    expect(sso.evidence_spans).toEqual([
+      { start_line: 4, end_line: 4, text: 'We decided to drop SSO from v1 because enterprise deals slipped to Q3' },
+    ]);
+    expect(records[2].evidence_spans.map((s) => s.start_line)).toEqual([11, 12, 13]);
+  });
+
+  // ============================================
+  // Rationale and alternatives
+  // ============================================
+
+  it('reads rationale and alternatives from the decision sentence', () => {
+    expect(records[0].rationale).toBe('enterprise deals slipped to Q3');
+    expect(records[1].alternatives).toEqual(['Adyen']);
+    expect(records[4]).toMatchObject({ alternatives: ['Monday'], rationale: 'the offsite' });
+  });
+
+  it('reads labelled follow-up lines and sub-bullets', () => {
+    expect(records[1].rationale).toBe('Adyen onboarding takes 6 weeks');
+    expect(records[2]).toMatchObject({
+      rationale: 'it drives 40% of signups',
+      alternatives: ['14-day trial', 'usage cap'],
+    });
+  });
+
+  // ============================================
+  // Participants
+  // ============================================
+
+  it('uses named deciders, else the attendee list', () => {
+    expect(records[3].participants).toEqual(['Dana', 'Lee']);
+    expect(records[0].participants).toEqual(['Dana', 'Lee', 'priya']);
+  });
+
+  it('uses the transcript speaker', () => {
+    const [record] = extractDecisionRecords({
+      note_id: 'note-transcript',
+      format: 'transcript',
+      raw_markdown: [
+        'Alice (00:01:02): pricing page is still slow',
+        'Bob (00:02:10): we decided to ship the cached pricing page this sprint',
+      ].join('\n'),
+    });
+    expect(record.participants).toEqual(['Bob']);
+    expect(record.evidence_spans[0]).toMatchObject({ speaker: 'Bob', timestamp: '00:02:10' });
+  });
+});
+
+// ============================================
+// Keys
+// ============================================
+
+describe('decision keys', () => {
+  it('survive moving the decision to another section', () => {
+    const [a] = extractDecisionRecords(note('## Auth\n- We decided to drop SSO from v1'));
+    const [b] = extractDecisionRecords(note('## Decisions\n\nWe decided to drop SSO from v1.'));
+    const [other] = extractDecisionRecords(note('## Auth\n- We decided to drop SSO from v1', 'note-other'));
+    expect(a.decisionKey).toBe(b.decisionKey);
+    expect(a.decisionKey).not.toBe(other.decisionKey);
+  });
+});
+
+// ============================================
+// Routing
+// ============================================
+
+describe('decision routing', () => {
+  const initiatives: InitiativeSnapshot[] = [
+    { id: 'init-billing', title: 'Billing on Stripe', description: 'Move billing to Stripe for all plans' },
+    { id: 'init-auth', title: 'Enterprise SSO', description: 'SAML single sign-on for enterprise customers' },
+  ];
+  const markdown = '## Billing\n- Go with Stripe over Adyen for billing on all plans';
+
+  it('routes lexically with the suggestion thresholds', () => {
+    const [strict] = extractDecisionRecords(note(markdown), { initiatives });
+    expect(strict.routing.candidates?.[0].initiative_id).toBe('init-billing');
+
+    const [loose] = extractDecisionRecords(note(markdown), { initiatives }, { thresholds: { ...DEFAULT_THRESHOLDS, T_attach: 0.3 } });
+    expect(loose.routing.attached_initiative_id).toBe('init-billing');
+  });
+
+  it('attaches with embedding routing', async () => {
+    const records = extractDecisionRecords(note(markdown), { initiatives });
+    const [routed] = await applyDecisionEmbeddingRouting(records, { initiatives, embedding_model: 'local' }, { embedding_enabled: true });
+    expect(routed.routing.attached_initiative_id).toBe('init-billing');
+  });
+});
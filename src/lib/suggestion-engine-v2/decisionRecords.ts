@@ -0,0 +1,374 @@
+/**
+ * Suggestion Engine v2 - Decision Records
+ *
+ * Decisions ("We decided to drop SSO from v1") are not suggestions: there is
+ * nothing to apply, but the team needs to find them again months later. This
+ * pass extracts them as records with rationale, alternatives considered and
+ * participants, anchored to the note lines they came from, and routes each
+ * record to an initiative with the same routing as suggestions.
+ *
+ * A sentence is a decision when it:
+ * - sits in a "Decisions" / "Agreed" section, OR
+ * - uses decision language ("decided", "agreed to", "settled on",
+ *   "going with", "Decision: …")
+ * and is not tentative ("need to decide", "TBD", "should we …?").
+ *
+ * Rationale and alternatives come from the decision sentence ("because …",
+ * "instead of …") and from the lines right after it ("Why: …",
+ * "Alternatives considered: …", or an indented sub-bullet). Participants are
+ * the people the decision names plus the transcript speaker; when neither is
+ * known, the note's attendee list.
+ *
+ * Pure functions only; persistence lives in convex/decisionRecords.ts.
+ */
+
+import type {
+  EvidenceSpan,
+  GeneratorConfig,
+  GeneratorContext,
+  Line,
+  NoteInput,
+  Section,
+  SuggestionRouting,
+} from './types';
+import { DEFAULT_CONFIG } from './types';
+import { preprocessNote } from './preprocessing';
+import { routeText, routeTextWithEmbeddings } from './routing';
+import { getEmbeddingProvider, getInitiativeVectorStore } from './embeddings';
+import { computeDecisionKey } from '../suggestion-keys';
+
+// ============================================
+// Types
+// ============================================
+
+export interface DecisionRecord {
+  decision_id: string;
+  /** Stable across regenerates (note + normalized statement) */
+  decisionKey: string;
+  note_id: string;
+  section_heading?: string;
+  /** The decision itself, without rationale or alternatives clauses */
+  statement: string;
+  rationale?: string;
+  alternatives: string[];
+  participants: string[];
+  /** Decision line first, then rationale/alternatives lines */
+  evidence_spans: EvidenceSpan[];
+  confidence: number;
+  routing: SuggestionRouting;
+}
+
+// ============================================
+// Patterns
+// ============================================
+
+const DECISION_SECTION_RE = /\b(decisions?|decided|agreements?|agreed|resolutions?)\b/i;
+
+// "Decision: …", "Agreed - …"
+const DECISION_LABEL_RE = /^(?:decision(?:\s+made)?|decided|agreed|resolution)\s*[:\-–]\s*/i;
+
+const DECISION_VERB_RE =
+  /\b(?:decided|decision\s+(?:is|was)|agreed\s+(?:to|that|on)|settled\s+on|opted\s+(?:to|for)|chose\s+to|going\s+(?:forward\s+)?with|go\s+with|went\s+with|signed\s+off\s+on)\b/i;
+
+const TENTATIVE_RE =
+  /\b(?:not\s+(?:yet\s+)?decided|undecided|to\s+be\s+decided|tbd|(?:need|needs|have|has)\s+to\s+(?:decide|agree)|(?:haven'?t|hasn'?t|didn'?t|did\s+not|have\s+not)\s+(?:decided|agreed)|pending\s+(?:a\s+)?decision|if\s+we\s+(?:decide|go\s+with)|should\s+we|whether\s+(?:to|we))\b/i;
+
+const RATIONALE_CLAUSE_RE = /\s*[,;(—–-]?\s*\b(?:because(?:\s+of)?|due\s+to|given\s+that|as\s+a\s+result\s+of|so\s+that)\s+(.+?)\)?$/i;
+
+const ALTERNATIVE_CLAUSE_RE = /\s*[,;(]?\s*\b(?:instead\s+of|rather\s+than)\s+(.+?)(?=\s*[,;.)]|\s+(?:because|due\s+to|given\s+that|so\s+that)\b|$)/i;
+
+// "chose Stripe over Adyen for billing" — "over" only counts after a choice verb
+const CHOICE_OVER_RE = /\b(?:chose|choose|picked|pick|went\s+with|go(?:ing)?\s+with|prefer(?:red)?)\s+.+?(\s+over\s+(.+?))(?=\s*[,;.)]|\s+(?:for|to|in|on|as|because|due\s+to|given\s+that|so\s+that)\b|$)/i;
+
+const RATIONALE_LINE_RE = /^(?:(?:rationale|reason(?:ing)?|why)\s*[:\-–]\s*|because\s+(?:of\s+)?|the\s+reason\s+(?:is|was)\s+(?:that\s+)?)(.+)$/i;
+
+const ALTERNATIVES_LINE_RE =
+  /^(?:(?:alternatives?(?:\s+considered)?|options?\s+considered|other\s+options?|rejected(?:\s+options?)?|considered)\s*[:\-–]\s*|(?:we\s+)?(?:also\s+)?considered\s+)(.+)$/i;
+
+const ATTENDEES_LINE_RE = /^(?:attendees|participants|present|attending|in\s+attendance)\s*[:\-–]\s*(.+)$/i;
+
+const ATTENDEES_HEADING_RE = /^(?:attendees|participants|present|who)$/i;
+
+// "Dana and Lee agreed …", "Priya decided …"
+const NAMED_SUBJECT_RE =
+  /^([A-Z][\w-]+(?:\s*(?:,|and|&)\s*[A-Z][\w-]+)*)\s+(?:have\s+|has\s+|then\s+)?(?:decided|agreed|chose|signed\s+off|settled)\b/;
+
+const MENTION_RE = /@([\w][\w.-]*)/g;
+
+// Capitalized sentence starts that are not people
+const NOT_A_NAME = new Set([
+  'we', 'i', 'you', 'they', 'he', 'she', 'it', 'this', 'that', 'the', 'our',
+  'team', 'everyone', 'leadership', 'product', 'engineering', 'finally', 'then',
+]);
+
+const LIST_MARKER_RE = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]?\]\s*)?/;
+
+// ============================================
+// Helpers
+// ============================================
+
+interface AnchoredSentence {
+  text: string;
+  line: Line;
+}
+
+function sentencesOf(section: Section): AnchoredSentence[] {
+  const sentences: AnchoredSentence[] = [];
+  for (const line of section.body_lines) {
+    if (line.line_type === 'heading' || line.line_type === 'blank' || line.line_type === 'code') continue;
+    const text = line.text.replace(LIST_MARKER_RE, '').trim();
+    const parts = line.line_type === 'list_item' ? [text] : text.split(/(?<=[.!?])\s+/);
+    for (const part of parts) {
+      if (part.trim()) sentences.push({ text: part.trim(), line });
+    }
+  }
+  return sentences;
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(/\s*(?:,|;|\/|\bor\b|\band\b)\s*/i)
+    .map((item) => item.replace(/^(?:the|a|an)\s+/i, '').replace(/[.)\s]+$/, '').trim())
+    .filter((item) => item.length > 0);
+}
+
+function trimPunctuation(text: string): string {
+  return text.replace(/^[\s:\-–]+/, '').replace(/[\s.;,:]+$/, '').trim();
+}
+
+function isDecisionSentence(text: string, inDecisionSection: boolean): boolean {
+  if (text.endsWith('?') || TENTATIVE_RE.test(text)) return false;
+  if (ATTENDEES_LINE_RE.test(text) || RATIONALE_LINE_RE.test(text) || ALTERNATIVES_LINE_RE.test(text)) return false;
+  if (DECISION_LABEL_RE.test(text) || DECISION_VERB_RE.test(text)) return true;
+  return inDecisionSection && text.split(/\s+/).length >= 3;
+}
+
+function namesIn(text: string): string[] {
+  const names: string[] = [];
+  for (const match of text.matchAll(MENTION_RE)) names.push(match[1]);
+  const subject = text.match(NAMED_SUBJECT_RE);
+  if (subject) {
+    for (const name of subject[1].split(/\s*(?:,|and|&)\s*/)) {
+      if (name && !NOT_A_NAME.has(name.toLowerCase())) names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Attendees from "Attendees: Dana, Lee" lines, an "Attendees" section, or
+ * (for transcripts) the distinct speakers.
+ */
+function collectAttendees(sections: Section[], lines: Line[]): string[] {
+  const attendees: string[] = [];
+  for (const line of lines) {
+    const match = line.text.replace(LIST_MARKER_RE, '').trim().match(ATTENDEES_LINE_RE);
+    if (match) attendees.push(...splitList(match[1]).map((n) => n.replace(/^@/, '')));
+  }
+  for (const section of sections) {
+    if (!ATTENDEES_HEADING_RE.test((section.heading_text ?? '').trim())) continue;
+    for (const line of section.body_lines) {
+      if (line.line_type !== 'list_item') continue;
+      const name = line.text.replace(LIST_MARKER_RE, '').replace(/^@/, '').trim();
+      if (name && name.split(/\s+/).length <= 4) attendees.push(name);
+    }
+  }
+  for (const line of lines) {
+    if (line.speaker) attendees.push(line.speaker);
+  }
+  return unique(attendees);
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function spanOf(sentence: AnchoredSentence): EvidenceSpan {
+  return {
+    start_line: sentence.line.index,
+    end_line: sentence.line.index,
+    text: sentence.text,
+    ...(sentence.line.speaker ? { speaker: sentence.line.speaker } : {}),
+    ...(sentence.line.timestamp ? { timestamp: sentence.line.timestamp } : {}),
+  };
+}
+
+interface DecisionDraft {
+  sentence: AnchoredSentence;
+  statement: string;
+  rationale: string[];
+  alternatives: string[];
+  participants: string[];
+  spans: EvidenceSpan[];
+  confidence: number;
+}
+
+function startDraft(sentence: AnchoredSentence, inDecisionSection: boolean): DecisionDraft {
+  let text = sentence.text;
+  const explicit = DECISION_LABEL_RE.test(text) || DECISION_VERB_RE.test(text);
+  text = text.replace(DECISION_LABEL_RE, '');
+
+  const alternatives: string[] = [];
+  const choiceOver = text.match(CHOICE_OVER_RE);
+  if (choiceOver) {
+    alternatives.push(...splitList(choiceOver[2]));
+    text = text.replace(choiceOver[1], '');
+  }
+  const instead = text.match(ALTERNATIVE_CLAUSE_RE);
+  if (instead) {
+    alternatives.push(...splitList(instead[1]));
+    text = text.replace(instead[0], '');
+  }
+
+  const rationale: string[] = [];
+  const because = text.match(RATIONALE_CLAUSE_RE);
+  if (because) {
+    rationale.push(trimPunctuation(because[1]));
+    text = text.slice(0, because.index);
+  }
+
+  const statement = trimPunctuation(text);
+  return {
+    sentence,
+    statement: statement.charAt(0).toUpperCase() + statement.slice(1),
+    rationale,
+    alternatives,
+    participants: [...namesIn(sentence.text), ...(sentence.line.speaker ? [sentence.line.speaker] : [])],
+    spans: [spanOf(sentence)],
+    confidence: explicit ? (inDecisionSection ? 0.9 : 0.8) : 0.7,
+  };
+}
+
+/**
+ * Attach a sentence following a decision as rationale or alternatives.
+ * Returns false when the sentence does not belong to the decision.
+ */
+function attachFollowUp(draft: DecisionDraft, sentence: AnchoredSentence): boolean {
+  const rationale = sentence.text.match(RATIONALE_LINE_RE);
+  if (rationale) {
+    draft.rationale.push(trimPunctuation(rationale[1]));
+    draft.spans.push(spanOf(sentence));
+    return true;
+  }
+
+  const alternatives = sentence.text.match(ALTERNATIVES_LINE_RE);
+  if (alternatives) {
+    draft.alternatives.push(...splitList(alternatives[1]));
+    draft.spans.push(spanOf(sentence));
+    return true;
+  }
+
+  // Unlabelled sub-bullet under a decision bullet: the reasoning behind it
+  const parentIndent = draft.sentence.line.indent_level ?? 0;
+  if (sentence.line.line_type === 'list_item' && (sentence.line.indent_level ?? 0) > parentIndent) {
+    draft.rationale.push(trimPunctuation(sentence.text));
+    draft.spans.push(spanOf(sentence));
+    return true;
+  }
+
+  return false;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Extract decision records from a note. Routing is lexical; call
+ * applyDecisionEmbeddingRouting to replace it with embedding routing.
+ */
+export function extractDecisionRecords(
+  note: NoteInput,
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>
+): DecisionRecord[] {
+  const { lines, sections } = preprocessNote(note);
+  const attendees = collectAttendees(sections, lines);
+  const thresholds = { ...DEFAULT_CONFIG.thresholds, ...config?.thresholds };
+
+  const drafts: Array<{ draft: DecisionDraft; heading?: string }> = [];
+  for (const section of sections) {
+    if (ATTENDEES_HEADING_RE.test((section.heading_text ?? '').trim())) continue;
+    const inDecisionSection = DECISION_SECTION_RE.test(section.heading_text ?? '');
+
+    let current: DecisionDraft | null = null;
+    for (const sentence of sentencesOf(section)) {
+      if (current && attachFollowUp(current, sentence)) continue;
+      if (isDecisionSentence(sentence.text, inDecisionSection)) {
+        current = startDraft(sentence, inDecisionSection);
+        if (current.statement.split(/\s+/).length >= 2) {
+          drafts.push({ draft: current, heading: section.heading_text });
+        }
+      } else {
+        current = null;
+      }
+    }
+  }
+
+  const records: DecisionRecord[] = [];
+  const seen = new Set<string>();
+  for (const { draft, heading } of drafts) {
+    const decisionKey = computeDecisionKey({ noteId: note.note_id, statement: draft.statement });
+    if (seen.has(decisionKey)) continue;
+    seen.add(decisionKey);
+
+    const rationale = draft.rationale.filter(Boolean).join('; ');
+    const participants = unique(draft.participants);
+    const record: Omit<DecisionRecord, 'routing'> = {
+      decision_id: `dec_${note.note_id.slice(0, 8)}_${records.length + 1}`,
+      decisionKey,
+      note_id: note.note_id,
+      ...(heading ? { section_heading: heading } : {}),
+      statement: draft.statement,
+      ...(rationale ? { rationale } : {}),
+      alternatives: unique(draft.alternatives),
+      participants: participants.length > 0 ? participants : attendees,
+      evidence_spans: draft.spans,
+      confidence: draft.confidence,
+    };
+    records.push({
+      ...record,
+      routing: routeText(decisionRoutingText(record), context?.initiatives ?? [], thresholds),
+    });
+  }
+
+  return records;
+}
+
+function decisionRoutingText(record: Pick<DecisionRecord, 'statement' | 'rationale' | 'section_heading'>): string {
+  return [record.section_heading, record.statement, record.rationale].filter(Boolean).join('\n');
+}
+
+/**
+ * Replace lexical routing with embedding routing (same provider and
+ * thresholds as applyEmbeddingRouting for suggestions).
+ */
+export async function applyDecisionEmbeddingRouting(
+  records: DecisionRecord[],
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>
+): Promise<DecisionRecord[]> {
+  const embeddingEnabled = config?.embedding_enabled ?? DEFAULT_CONFIG.embedding_enabled;
+  const initiatives = context?.initiatives || [];
+  if (!embeddingEnabled || initiatives.length === 0 || records.length === 0) return records;
+
+  const provider = getEmbeddingProvider(context?.embedding_model ?? 'local');
+  if (!provider) return records;
+
+  const thresholds = { ...DEFAULT_CONFIG.thresholds, ...config?.thresholds };
+  const vectorStore = getInitiativeVectorStore(provider);
+  const routed: DecisionRecord[] = [];
+  for (const record of records) {
+    routed.push({
+      ...record,
+      routing: await routeTextWithEmbeddings(decisionRoutingText(record), initiatives, thresholds, provider, vectorStore),
+    });
+  }
+  return routed;
+}
@@ -0,0 +1,237 @@
+/**
+ * Embedding-based initiative routing
+ *
+ * Lexical routing (enhancedSimilarity) cannot attach paraphrases such as
+ * "checkout revamp" vs "new payment flow" because they share no tokens.
+ *
+ * Tests:
+ *   1. LocalEmbeddingProvider: determinism, normalization, paraphrase similarity
+ *   2. Provider registry: default 'local', 'none', custom providers
+ *   3. InitiativeVectorStore: cache keyed by content hash
+ *   4. routeSuggestionsWithEmbeddings: paraphrase attachment
+ *   5. generateSuggestionsAsync: embedding_enabled switches routing
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  LocalEmbeddingProvider,
+  InitiativeVectorStore,
+  getEmbeddingProvider,
+  registerEmbeddingProvider,
+  listEmbeddingProviders,
+  cosineSimilarity,
+} from './embeddings';
+import { routeSuggestionsWithEmbeddings, routeSuggestion } from './routing';
+import { generateSuggestions, generateSuggestionsAsync } from './index';
+import { resetSectionCounter } from './preprocessing';
+import { resetSuggestionCounter } from './synthesis';
+import { DEFAULT_THRESHOLDS } from './types';
+import type { InitiativeSnapshot, Suggestion, NoteInput } from './types';
+
+const CHECKOUT: InitiativeSnapshot = {
+  id: 'init-checkout',
+  title: 'Checkout revamp',
+  description: 'Redesign the checkout to reduce cart abandonment.',
+};
+
+const ONBOARDING: InitiativeSnapshot = {
+  id: 'init-onboarding',
+  title: 'Onboarding emails',
+  description: 'Automated welcome sequence for trial accounts.',
+};
+
+function makeSuggestion(title: string, description = ''): Suggestion {
+  return {
+    suggestion_id: 'sug-1',
+    note_id: 'note-1',
+    section_id: 'sec-1',
+    type: 'project_update',
+    title,
+    payload: { after_description: description },
+    evidence_spans: [],
+    scores: {
+      section_actionability: 0.8,
+      type_choice_confidence: 0.8,
+      synthesis_confidence: 0.8,
+      overall: 0.8,
+    },
+    routing: { create_new: true },
+    suggestionKey: 'key-1',
+  } as Suggestion;
+}
+
+beforeEach(() => {
+  resetSectionCounter();
+  resetSuggestionCounter();
+});
+
+// ============================================
+// Local provider
+// ============================================
+
+describe('LocalEmbeddingProvider', () => {
+  const provider = new LocalEmbeddingProvider();
+
+  it('is deterministic and L2-normalized', () => {
+    const a = provider.embedSync('Checkout revamp');
+    const b = provider.embedSync('Checkout revamp');
+    expect(a).toEqual(b);
+    const norm = Math.sqrt(a.reduce((sum, x) => sum + x * x, 0));
+    expect(norm).toBeCloseTo(1, 6);
+  });
+
+  it('scores paraphrases above unrelated text', () => {
+    const checkout = provider.embedSync('Checkout revamp');
+    const paraphrase = provider.embedSync('New payment flow');
+    const unrelated = provider.embedSync('Onboarding emails');
+
+    const paraphraseScore = provider.computeSimilarity(checkout, paraphrase);
+    const unrelatedScore = provider.computeSimilarity(checkout, unrelated);
+    expect(paraphraseScore).toBeGreaterThan(0.3);
+    expect(paraphraseScore).toBeGreaterThan(unrelatedScore + 0.2);
+  });
+
+  it('returns 0 similarity for empty text', () => {
+    const empty = provider.embedSync('');
+    expect(cosineSimilarity(empty, provider.embedSync('checkout'))).toBe(0);
+  });
+});
+
+// ============================================
+// Registry
+// ============================================
+
+describe('embedding provider registry', () => {
+  it('registers the local provider by default', () => {
+    expect(listEmbeddingProviders()).toContain('local');
+    expect(getEmbeddingProvider()).toBeInstanceOf(LocalEmbeddingProvider);
+  });
+
+  it('resolves "none" and unknown names to null', () => {
+    expect(getEmbeddingProvider('none')).toBeNull();
+    expect(getEmbeddingProvider('openai')).toBeNull();
+  });
+
+  it('accepts custom providers', () => {
+    const custom = {
+      embed: async () => [1, 0],
+      computeSimilarity: () => 1,
+    };
+    registerEmbeddingProvider('test-constant', custom);
+    expect(getEmbeddingProvider('test-constant')).toBe(custom);
+  });
+});
+
+// ============================================
+// Vector store
+// ============================================
+
+describe('InitiativeVectorStore', () => {
+  it('embeds each initiative content once', async () => {
+    let calls = 0;
+    const provider = new LocalEmbeddingProvider();
+    const counting = {
+      embed: async (text: string) => {
+        calls++;
+        return provider.embed(text);
+      },
+      computeSimilarity: provider.computeSimilarity.bind(provider),
+    };
+    const store = new InitiativeVectorStore(counting);
+
+    await store.getVector(CHECKOUT);
+    await store.getVector(CHECKOUT);
+    // Same content under a different ID shares the cached vector
+    await store.getVector({ ...CHECKOUT, id: 'copy' });
+    expect(calls).toBe(1);
+    expect(store.stats()).toEqual({ size: 1, hits: 2, misses: 1 });
+
+    // Edited initiative is re-embedded
+    await store.getVector({ ...CHECKOUT, description: 'Now includes Apple Pay.' });
+    expect(calls).toBe(2);
+  });
+
+  it('does not share vectors between texts that collide under a 32-bit hash', async () => {
+    const store = new InitiativeVectorStore(new LocalEmbeddingProvider());
+    // "stylist\n" and "subgenera\n" have the same djb2 hash
+    await store.getVector({ ...CHECKOUT, title: 'stylist', description: '' });
+    await store.getVector({ ...CHECKOUT, title: 'subgenera', description: '' });
+    expect(store.stats()).toEqual({ size: 2, hits: 0, misses: 2 });
+  });
+});
+
+// ============================================
+// Routing
+// ============================================
+
+describe('routeSuggestionsWithEmbeddings', () => {
+  const provider = new LocalEmbeddingProvider();
+
+  it('attaches paraphrased updates that lexical routing misses', async () => {
+    const suggestion = makeSuggestion('New payment flow slips to March');
+
+    const lexical = routeSuggestion(suggestion, [CHECKOUT, ONBOARDING], DEFAULT_THRESHOLDS);
+    expect(lexical.routing.create_new).toBe(true);
+
+    const [routed] = await routeSuggestionsWithEmbeddings(
+      [suggestion],
+      [CHECKOUT, ONBOARDING],
+      DEFAULT_THRESHOLDS,
+      provider,
+      new InitiativeVectorStore(provider)
+    );
+    expect(routed.routing.attached_initiative_id).toBe('init-checkout');
+    expect(routed.routing.create_new).toBe(false);
+  });
+
+  it('marks unrelated suggestions create_new', async () => {
+    const [routed] = await routeSuggestionsWithEmbeddings(
+      [makeSuggestion('Hire a second data engineer')],
+      [CHECKOUT, ONBOARDING],
+      DEFAULT_THRESHOLDS,
+      provider
+    );
+    expect(routed.routing.create_new).toBe(true);
+    expect(routed.routing.attached_initiative_id).toBeUndefined();
+  });
+});
+
+// ============================================
+// Async entry point
+// ============================================
+
+describe('generateSuggestionsAsync', () => {
+  const note: NoteInput = {
+    note_id: 'embedding-e2e',
+    raw_markdown: [
+      '## Payment Flow',
+      '',
+      'The new payment flow launch moves from March 3 to March 24 because the billing provider integration slipped by 3 weeks.',
+    ].join('\n'),
+  };
+  const context = { initiatives: [CHECKOUT, ONBOARDING] };
+
+  it('matches generateSuggestions when embedding is disabled', async () => {
+    const sync = generateSuggestions(note, context);
+    resetSectionCounter();
+    resetSuggestionCounter();
+    const async = await generateSuggestionsAsync(note, context);
+    expect(async.suggestions.map((s) => s.routing)).toEqual(sync.suggestions.map((s) => s.routing));
+  });
+
+  it('attaches to the paraphrased initiative when embedding is enabled', async () => {
+    const result = await generateSuggestionsAsync(note, context, { embedding_enabled: true, enable_debug: true });
+    expect(result.suggestions.length).toBeGreaterThan(0);
+    expect(result.suggestions[0].routing.attached_initiative_id).toBe('init-checkout');
+    expect(result.debug?.routing_attached).toBeGreaterThan(0);
+  });
+
+  it('falls back to lexical routing when embedding_model is "none"', async () => {
+    const result = await generateSuggestionsAsync(
+      note,
+      { ...context, embedding_model: 'none' },
+      { embedding_enabled: true }
+    );
+    expect(result.suggestions.every((s) => s.routing.create_new)).toBe(true);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Suggestion Engine v2 - Embeddings
+ *
+ * Embedding providers for initiative routing (Stage 6):
+ * - Provider registry keyed by GeneratorContext.embedding_model
+ * - Deterministic local provider: hashed word, concept and character
+ *   trigram features (no network, no model weights)
+ * - Initiative vector store that caches vectors by initiative content hash,
+ *   so unchanged initiatives are embedded once per process
+ *
+ * The local provider is not a semantic model. Paraphrase recall comes from a
+ * small product-vocabulary concept lexicon ("checkout" ~ "payment") plus
+ * trigram overlap for morphological variants ("revamp" ~ "revamped").
+ */
+
+import type { InitiativeSnapshot } from './types';
+import type { EmbeddingProvider } from './routing';
+import { sha1Hex } from '../suggestion-keys';
+
+// ============================================
+// Provider Registry
+// ============================================
+
+const providerRegistry = new Map<string, EmbeddingProvider>();
+
+/**
+ * Register (or replace) an embedding provider under a name.
+ * Names match GeneratorContext.embedding_model ('local', 'openai', ...).
+ */
+export function registerEmbeddingProvider(name: string, provider: EmbeddingProvider): void {
+  providerRegistry.set(name, provider);
+}
+
+/**
+ * Look up a registered provider. Returns null for 'none' or unknown names.
+ */
+export function getEmbeddingProvider(name: string = 'local'): EmbeddingProvider | null {
+  if (name === 'none') return null;
+  return providerRegistry.get(name) ?? null;
+}
+
+/**
+ * Names of all registered providers
+ */
+export function listEmbeddingProviders(): string[] {
+  return [...providerRegistry.keys()];
+}
+
+// ============================================
+// Local Provider
+// ============================================
+
+/** Product vocabulary groups; every member also emits the group's concept feature */
+const CONCEPT_GROUPS: Record<string, string[]> = {
+  checkout: ['checkout', 'payment', 'payments', 'pay', 'billing', 'purchase', 'cart', 'invoice', 'invoicing', 'subscription'],
+  redesign: ['revamp', 'redesign', 'overhaul', 'rebuild', 'rework', 'refresh', 'rewrite', 'modernize', 'revamped', 'redesigned'],
+  onboarding: ['onboarding', 'signup', 'registration', 'activation', 'welcome', 'trial'],
+  auth: ['login', 'signin', 'authentication', 'auth', 'sso', 'password', 'credentials', 'mfa', '2fa'],
+  search: ['search', 'discovery', 'lookup', 'filtering'],
+  notification: ['notification', 'notifications', 'email', 'emails', 'alert', 'alerts', 'reminder', 'reminders'],
+  performance: ['performance', 'latency', 'speed', 'slow', 'faster', 'perf'],
+  mobile: ['mobile', 'ios', 'android'],
+  analytics: ['analytics', 'metrics', 'dashboard', 'dashboards', 'reporting', 'insights', 'tracking', 'telemetry'],
+  pricing: ['pricing', 'price', 'prices', 'tier', 'tiers', 'discount', 'packaging'],
+  infrastructure: ['infrastructure', 'infra', 'migration', 'database', 'server', 'servers', 'cloud', 'kubernetes', 'hosting'],
+  security: ['security', 'compliance', 'soc2', 'gdpr', 'privacy', 'encryption', 'audit'],
+  support: ['support', 'helpdesk', 'ticket', 'tickets', 'zendesk'],
+  integration: ['integration', 'integrations', 'api', 'webhook', 'webhooks', 'connector', 'connectors'],
+  flow: ['flow', 'flows', 'funnel', 'journey', 'experience', 'ux'],
+  reliability: ['outage', 'incident', 'incidents', 'downtime', 'reliability', 'uptime', 'crash', 'crashes'],
+  personalization: ['personalization', 'recommendation', 'recommendations', 'ranking', 'relevance'],
+  collaboration: ['sharing', 'share', 'collaboration', 'comments', 'workspace', 'workspaces'],
+};
+
+const CONCEPT_BY_TERM = new Map<string, string>();
+for (const [concept, terms] of Object.entries(CONCEPT_GROUPS)) {
+  for (const term of terms) CONCEPT_BY_TERM.set(term, concept);
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'onto', 'our', 'their',
+  'will', 'should', 'would', 'could', 'need', 'needs', 'new', 'are', 'was', 'were',
+  'has', 'have', 'had', 'its', 'not', 'but', 'all', 'any', 'can', 'just', 'also',
+  'update', 'updates', 'project', 'initiative', 'work', 'team', 'via', 'per',
+]);
+
+const FEATURE_WEIGHTS = {
+  word: 1.0,
+  concept: 3.0,
+  trigram: 0.15,
+};
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Light suffix stripping so "payments"/"payment" and "launched"/"launch" collide
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Extract weighted string features from text
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (feature: string, weight: number) => {
+    counts.set(feature, (counts.get(feature) ?? 0) + weight);
+  };
+
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w));
+
+  for (const word of words) {
+    const stemmed = stem(word);
+    add(`w:${stemmed}`, FEATURE_WEIGHTS.word);
+
+    const concept = CONCEPT_BY_TERM.get(word) ?? CONCEPT_BY_TERM.get(stemmed);
+    if (concept) add(`c:${concept}`, FEATURE_WEIGHTS.concept);
+
+    const padded = `#${stemmed}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, FEATURE_WEIGHTS.trigram);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Deterministic local embedding provider.
+ *
+ * Features are hashed into a fixed-size vector with a sign bit (the hashing
+ * trick), using sublinear term frequency, then L2-normalized.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly dimensions: number = 512) {
+    this.id = `local-hashed-v1-${dimensions}`;
+  }
+
+  embedSync(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, weight] of extractFeatures(text)) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * Math.log1p(weight);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm === 0 ? vector : vector.map((x) => x / norm);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.embedSync(text);
+  }
+
+  computeSimilarity(embedding1: number[], embedding2: number[]): number {
+    return Math.max(0, cosineSimilarity(embedding1, embedding2));
+  }
+}
+
+registerEmbeddingProvider('local', new LocalEmbeddingProvider());
+
+// ============================================
+// Initiative Vector Store
+// ============================================
+
+/** Max cached initiative vectors per store (oldest evicted first) */
+const MAX_CACHED_VECTORS = 2000;
+
+/**
+ * Text embedded for an initiative (same input as lexical routing)
+ */
+function getInitiativeEmbeddingText(initiative: InitiativeSnapshot): string {
+  return `${initiative.title}\n${initiative.description || ''}`;
+}
+
+/**
+ * Caches initiative vectors keyed by content hash.
+ *
+ * Keys are `sha1Hex(title + description)`, not initiative IDs, so an
+ * edited initiative is re-embedded automatically and two initiatives with the
+ * same text share a vector.
+ */
+export class InitiativeVectorStore {
+  private readonly vectors = new Map<string, number[]>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(readonly provider: EmbeddingProvider) {}
+
+  async getVector(initiative: InitiativeSnapshot): Promise<number[]> {
+    const text = getInitiativeEmbeddingText(initiative);
+    const key = sha1Hex(text);
+
+    const cached = this.vectors.get(key);
+    if (cached) {
+      this.hits++;
+      return cached;
+    }
+
+    this.misses++;
+    const vector = await this.provider.embed(text);
+    if (this.vectors.size >= MAX_CACHED_VECTORS) {
+      const oldest = this.vectors.keys().next().value;
+      if (oldest !== undefined) this.vectors.delete(oldest);
+    }
+    this.vectors.set(key, vector);
+    return vector;
+  }
+
+  stats(): { size: number; hits: number; misses: number } {
+    return { size: this.vectors.size, hits: this.hits, misses: this.misses };
+  }
+
+  clear(): void {
+    this.vectors.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
+
+const sharedStores = new Map<EmbeddingProvider, InitiativeVectorStore>();
+
+/**
+ * Process-wide vector store for a provider. Warm Convex action instances
+ * reuse it across invocations.
+ */
+export function getInitiativeVectorStore(provider: EmbeddingProvider): InitiativeVectorStore {
+  let store = sharedStores.get(provider);
+  if (!store) {
+    store = new InitiativeVectorStore(provider);
+    sharedStores.set(provider, store);
+  }
+  return store;
+}
@@ -221,6 +221,9 @@ export function evaluateBatch(
 
 /**
  * Analyze sensitivity to a specific threshold
+ *
+ * Reports suggestion counts only. To tune several thresholds against
+ * labeled expectations, use sweepGeneratorThresholds (thresholdSweep.ts).
  */
 export function analyzeThresholdSensitivity(
   notes: NoteInput[],
@@ -156,7 +156,9 @@ export function applyFinalEmissionEnforcement(
     const nonTimeline: Suggestion[] = [];
     const bySectionTimeline = new Map<string, Suggestion[]>();
     for (const s of finalSuggestions) {
-      if (timelineSectionIds.has(s.section_id)) {
+      // Action items keep their own owner and due date; they are not folded
+      // into the section's timeline update
+      if (timelineSectionIds.has(s.section_id) && s.type !== 'action_item') {
         const group = bySectionTimeline.get(s.section_id);
         if (group) group.push(s);
         else bySectionTimeline.set(s.section_id, [s]);
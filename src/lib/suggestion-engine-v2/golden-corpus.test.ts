@@ -0,0 +1,231 @@
+/**
+ * Golden corpus runner
+ *
+ * Labeled notes are scored against engine output: precision/recall/F1 per
+ * suggestion type and after each drop stage, with the stage that lost each
+ * missed label, and a diff between two reports (engine versions).
+ *
+ * Tests:
+ *   1. Matching labels to suggestions (type, title pattern, evidence lines)
+ *   2. Per-type metrics and false positives
+ *   3. Drop stage attribution and per-stage metrics
+ *   4. Version diff
+ *   5. The shipped corpus: well-formed labels and a quality floor
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  runGoldenCorpus,
+  diffGoldenReports,
+  formatGoldenDiff,
+  matchExpectations,
+  DROP_STAGE_ORDER,
+} from './goldenCorpus';
+import type { GoldenCorpus, GoldenReport, GoldenSuggestion } from './goldenCorpus';
+import { GOLDEN_CORPUS } from './goldenCorpusFixtures';
+import { GENERATOR_VERSION } from './DebugLedger';
+
+const PRICING: GoldenCorpus['cases'][number] = {
+  id: 'pricing',
+  note: {
+    note_id: 'golden-test-pricing',
+    meeting_at: '2026-05-13T15:00:00Z',
+    raw_markdown: `# Pricing sync
+
+## Next steps
+- @dana to send the pricing doc by Thursday
+- Legal to review the new terms before next Friday
+- Sam to get sign-off from finance
+`,
+  },
+  expected: [
+    { type: 'action_item', title_pattern: 'dana.*pricing doc', evidence_lines: [3, 3] },
+    { type: 'action_item', title_pattern: 'Legal.*terms', evidence_lines: [4, 4] },
+  ],
+};
+
+const STATUS_ONLY: GoldenCorpus['cases'][number] = {
+  id: 'status-only',
+  note: {
+    note_id: 'golden-test-status',
+    raw_markdown: `# Weekly
+
+## Updates
+Had a good sync with the team. Everyone is aligned on priorities.
+`,
+  },
+  expected: [{ type: 'idea', title_pattern: 'sync', evidence_lines: [3, 3] }],
+};
+
+// ============================================
+// Matching
+// ============================================
+
+describe('matchExpectations', () => {
+  const suggestions: GoldenSuggestion[] = [
+    { type: 'risk', title: 'Risk: GDPR compliance blocks partnership', evidence_lines: [[4, 4]] },
+    { type: 'project_update', title: 'Update: Launch delayed 4 weeks', evidence_lines: [[7, 8]] },
+  ];
+
+  it('requires type, title pattern and overlapping evidence', () => {
+    expect(matchExpectations(suggestions, [
+      { type: 'risk', title_pattern: 'gdpr', evidence_lines: [3, 5] },
+      { type: 'project_update', title_pattern: '4 weeks', evidence_lines: [8, 10] },
+    ])).toEqual([0, 1]);
+
+    expect(matchExpectations(suggestions, [
+      { type: 'bug', title_pattern: 'gdpr' },
+      { type: 'risk', title_pattern: 'gdpr', evidence_lines: [5, 6] },
+      { type: 'project_update', title_pattern: 'pulled in' },
+    ])).toEqual([null, null, null]);
+  });
+
+  it('assigns each suggestion to at most one label', () => {
+    expect(matchExpectations(suggestions, [
+      { type: 'risk', title_pattern: 'risk' },
+      { type: 'risk', title_pattern: 'gdpr' },
+    ])).toEqual([0, null]);
+  });
+
+  it('matches on evidence lines alone when titles are ignored', () => {
+    expect(matchExpectations(suggestions, [
+      { type: 'risk', title_pattern: 'something else', evidence_lines: [4, 4] },
+      { type: 'project_update', title_pattern: 'something else' },
+    ], { ignoreTitle: true })).toEqual([0, null]);
+  });
+});
+
+// ============================================
+// Per-type metrics
+// ============================================
+
+describe('runGoldenCorpus per type', () => {
+  const report = runGoldenCorpus({ name: 'pricing', cases: [PRICING] });
+
+  it('scores emitted suggestions against labels', () => {
+    expect(report.generator_version).toBe(GENERATOR_VERSION);
+    expect(report.cases[0].matches).toEqual([0, 1]);
+
+    // "Sam to get sign-off" is emitted but unlabeled
+    expect(report.per_type.action_item).toMatchObject({
+      true_positives: 2,
+      false_positives: 1,
+      false_negatives: 0,
+      recall: 1,
+    });
+    expect(report.per_type.action_item?.precision).toBeCloseTo(2 / 3);
+    expect(report.cases[0].false_positives.map((s) => s.title)).toEqual(['Action: Sam to get sign-off from finance']);
+  });
+
+  it('counts a label with nothing emitted as a false negative for its type', () => {
+    const missed = runGoldenCorpus({ name: 'status', cases: [STATUS_ONLY] });
+    expect(missed.per_type.idea).toMatchObject({ true_positives: 0, false_negatives: 1, recall: 0, f1: 0 });
+    expect(missed.overall.recall).toBe(0);
+  });
+});
+
+// ============================================
+// Drop stages
+// ============================================
+
+describe('runGoldenCorpus per drop stage', () => {
+  it('attributes a missed label to the stage that dropped its section', () => {
+    const report = runGoldenCorpus({ name: 'status', cases: [STATUS_ONLY] });
+    expect(report.cases[0].lost_at).toEqual(['ACTIONABILITY']);
+    expect(report.lost_by_stage).toEqual({ ACTIONABILITY: 1 });
+    expect(report.per_stage.find((m) => m.stage === 'ACTIONABILITY')?.lost).toBe(1);
+  });
+
+  it('reports every stage in pipeline order with non-increasing recall', () => {
+    const report = runGoldenCorpus(GOLDEN_CORPUS);
+    expect(report.per_stage.map((m) => m.stage)).toEqual(DROP_STAGE_ORDER);
+    for (let i = 1; i < report.per_stage.length; i++) {
+      expect(report.per_stage[i].recall).toBeLessThanOrEqual(report.per_stage[i - 1].recall);
+    }
+  });
+});
+
+// ============================================
+// Version diff
+// ============================================
+
+describe('diffGoldenReports', () => {
+  const base = runGoldenCorpus({ name: 'pricing', cases: [PRICING] });
+
+  it('reports no changes for identical output', () => {
+    const diff = diffGoldenReports(base, runGoldenCorpus({ name: 'pricing', cases: [PRICING] }));
+    expect(diff.cases).toEqual([]);
+    expect(diff.overall_delta).toEqual({ precision: 0, recall: 0, f1: 0 });
+    expect(formatGoldenDiff(diff)).toContain('No note gained or lost suggestions.');
+  });
+
+  it('lists gained and lost suggestions and label changes per note', () => {
+    const head: GoldenReport = {
+      ...base,
+      generator_version: 'next',
+      cases: [
+        {
+          ...base.cases[0],
+          emitted: [
+            base.cases[0].emitted[0],
+            { type: 'risk', title: 'Risk: Legal review may slip', evidence_lines: [[4, 4]] },
+          ],
+          matches: [0, null],
+        },
+      ],
+    };
+
+    const diff = diffGoldenReports(base, head);
+    expect(diff).toMatchObject({ base_version: GENERATOR_VERSION, head_version: 'next' });
+    expect(diff.cases).toEqual([
+      {
+        case_id: 'pricing',
+        gained: [expect.objectContaining({ title: 'Risk: Legal review may slip' })],
+        lost: [
+          expect.objectContaining({ title: 'Action: Legal to review the new terms (before next Friday)' }),
+          expect.objectContaining({ title: 'Action: Sam to get sign-off from finance' }),
+        ],
+        newly_matched: [],
+        newly_missed: [1],
+      },
+    ]);
+    expect(formatGoldenDiff(diff)).toContain('+ [risk] Risk: Legal review may slip');
+  });
+
+  it('lists cases only one report has', () => {
+    const other = runGoldenCorpus({ name: 'status', cases: [STATUS_ONLY] });
+    const diff = diffGoldenReports(base, other);
+    expect(diff.added_cases).toEqual(['status-only']);
+    expect(diff.removed_cases).toEqual(['pricing']);
+  });
+});
+
+// ============================================
+// Shipped corpus
+// ============================================
+
+describe('GOLDEN_CORPUS', () => {
+  it('has unique ids, valid patterns and evidence ranges inside the note', () => {
+    const ids = GOLDEN_CORPUS.cases.map((c) => c.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    for (const goldenCase of GOLDEN_CORPUS.cases) {
+      const lineCount = goldenCase.note.raw_markdown.split('\n').length;
+      for (const expectation of goldenCase.expected) {
+        expect(() => new RegExp(expectation.title_pattern, 'i')).not.toThrow();
+        if (expectation.evidence_lines) {
+          const [start, end] = expectation.evidence_lines;
+          expect(start).toBeLessThanOrEqual(end);
+          expect(end).toBeLessThan(lineCount);
+        }
+      }
+    }
+  });
+
+  it('stays above the recorded quality floor', () => {
+    const report = runGoldenCorpus(GOLDEN_CORPUS);
+    expect(report.overall.recall).toBeGreaterThanOrEqual(0.8);
+    expect(report.overall.precision).toBeGreaterThanOrEqual(0.6);
+    expect(report.per_type.action_item?.f1).toBe(1);
+  });
+});
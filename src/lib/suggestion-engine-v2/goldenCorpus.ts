@@ -0,0 +1,513 @@
+/**
+ * Suggestion Engine v2 - Golden Corpus
+ *
+ * Labeled regression corpus and runner. Each case is a note plus the
+ * suggestions a reviewer expects (type, title pattern, evidence lines).
+ * The runner scores engine output against the labels:
+ *
+ * - precision / recall / F1 per SuggestionType, from generateSuggestions
+ *   (the production path);
+ * - precision / recall / F1 of the surviving candidates after each drop
+ *   stage, from the debug run, plus which stage lost each missed label.
+ *   Debug candidates carry pre-normalization titles, so stage metrics
+ *   match on type and evidence lines only.
+ *
+ * Reports carry GENERATOR_VERSION and are plain JSON, so a report saved on
+ * one branch can be diffed against another with diffGoldenReports.
+ */
+
+import type {
+  NoteInput,
+  InitiativeSnapshot,
+  GeneratorConfig,
+  Suggestion,
+  SuggestionType,
+} from './types';
+import { generateSuggestions } from './index';
+import { generateSuggestionsWithDebug } from './debugGenerator';
+import { GENERATOR_VERSION } from './DebugLedger';
+import { DropStage } from './debugTypes';
+import type { CandidateSuggestionDebug, DebugRun } from './debugTypes';
+
+// ============================================
+// Corpus Format
+// ============================================
+
+/**
+ * A suggestion the engine should emit for a note
+ */
+export interface GoldenExpectation {
+  type: SuggestionType;
+  /** Regular expression source, matched case-insensitively against the title */
+  title_pattern: string;
+  /** 0-based inclusive line range; some evidence span must overlap it */
+  evidence_lines?: [number, number];
+}
+
+export interface GoldenCase {
+  id: string;
+  note: NoteInput;
+  initiatives?: InitiativeSnapshot[];
+  expected: GoldenExpectation[];
+  tags?: string[];
+}
+
+export interface GoldenCorpus {
+  name: string;
+  cases: GoldenCase[];
+}
+
+// ============================================
+// Report Types
+// ============================================
+
+export interface PrecisionRecall {
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/**
+ * Engine output reduced to what the labels and diffs compare
+ */
+export interface GoldenSuggestion {
+  type: SuggestionType;
+  title: string;
+  evidence_lines: [number, number][];
+}
+
+/**
+ * Where a missed label was lost: a drop stage, or never generated at all
+ */
+export type GoldenLossStage = DropStage | 'NOT_GENERATED';
+
+export interface GoldenCaseResult {
+  case_id: string;
+  emitted: GoldenSuggestion[];
+  /** Index into emitted for each expectation, or null when missed */
+  matches: (number | null)[];
+  /** Stage that lost each missed expectation (null when matched) */
+  lost_at: (GoldenLossStage | null)[];
+  false_positives: GoldenSuggestion[];
+}
+
+export interface GoldenStageMetrics extends PrecisionRecall {
+  stage: DropStage;
+  /** Candidates dropped at this stage */
+  dropped: number;
+  /** Expectations whose only matching candidates were dropped at this stage */
+  lost: number;
+}
+
+export interface GoldenReport {
+  corpus: string;
+  generator_version: string;
+  created_at: string;
+  overall: PrecisionRecall;
+  per_type: Partial<Record<SuggestionType, PrecisionRecall>>;
+  per_stage: GoldenStageMetrics[];
+  /** Missed expectations by the stage that lost them */
+  lost_by_stage: Partial<Record<GoldenLossStage, number>>;
+  cases: GoldenCaseResult[];
+}
+
+/**
+ * Drop stages in the order the pipeline applies them
+ */
+export const DROP_STAGE_ORDER: DropStage[] = [
+  DropStage.SEGMENTATION,
+  DropStage.ACTIONABILITY,
+  DropStage.TYPE,
+  DropStage.TOPIC_ISOLATION,
+  DropStage.SYNTHESIS,
+  DropStage.POST_SYNTHESIS_SUPPRESS,
+  DropStage.EVIDENCE,
+  DropStage.VALIDATION,
+  DropStage.THRESHOLD,
+  DropStage.DEDUPE,
+];
+
+// ============================================
+// Matching
+// ============================================
+
+function toGoldenSuggestion(suggestion: Suggestion): GoldenSuggestion {
+  return {
+    type: suggestion.type,
+    title: suggestion.title,
+    evidence_lines: suggestion.evidence_spans
+      .filter((span) => span.start_line >= 0)
+      .map((span) => [span.start_line, span.end_line] as [number, number]),
+  };
+}
+
+function candidateToGoldenSuggestion(candidate: CandidateSuggestionDebug): GoldenSuggestion {
+  return {
+    type: (candidate.metadata?.type as SuggestionType | undefined) ?? 'idea',
+    title: candidate.suggestion?.title ?? candidate.rawSuggestionText ?? candidate.suggestionPreview?.preview ?? '',
+    evidence_lines: (candidate.evidence?.lineIds ?? []).map((line) => [line, line] as [number, number]),
+  };
+}
+
+function overlaps(a: [number, number], b: [number, number]): boolean {
+  return a[0] <= b[1] && b[0] <= a[1];
+}
+
+export interface MatchOptions {
+  ignoreType?: boolean;
+  /** Match on evidence lines alone; labels without lines still match on title */
+  ignoreTitle?: boolean;
+}
+
+/**
+ * Whether a suggestion satisfies an expectation
+ */
+export function matchesExpectation(
+  suggestion: GoldenSuggestion,
+  expectation: GoldenExpectation,
+  options: MatchOptions = {}
+): boolean {
+  if (!options.ignoreType && suggestion.type !== expectation.type) return false;
+  const checkTitle = !options.ignoreTitle || !expectation.evidence_lines;
+  if (checkTitle && !new RegExp(expectation.title_pattern, 'i').test(suggestion.title)) return false;
+  if (expectation.evidence_lines) {
+    const range = expectation.evidence_lines;
+    if (!suggestion.evidence_lines.some((lines) => overlaps(lines, range))) return false;
+  }
+  return true;
+}
+
+/**
+ * Greedy one-to-one assignment of suggestions to expectations, in label order
+ */
+export function matchExpectations(
+  suggestions: GoldenSuggestion[],
+  expected: GoldenExpectation[],
+  options: MatchOptions = {}
+): (number | null)[] {
+  const used = new Set<number>();
+  return expected.map((expectation) => {
+    const index = suggestions.findIndex((s, i) => !used.has(i) && matchesExpectation(s, expectation, options));
+    if (index === -1) return null;
+    used.add(index);
+    return index;
+  });
+}
+
+/**
+ * Precision / recall / F1 from counts. An empty denominator counts as 1,
+ * so a case with no labels and no output is perfect.
+ */
+export function precisionRecall(tp: number, fp: number, fn: number): PrecisionRecall {
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 1;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 1;
+  return {
+    true_positives: tp,
+    false_positives: fp,
+    false_negatives: fn,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+  };
+}
+
+// ============================================
+// Drop Stage Attribution
+// ============================================
+
+const LINES_ONLY: MatchOptions = { ignoreType: true, ignoreTitle: true };
+
+function stageIndex(stage: DropStage | null): number {
+  return stage === null ? Infinity : DROP_STAGE_ORDER.indexOf(stage);
+}
+
+/**
+ * The stage that lost a missed expectation: the latest stage that dropped a
+ * candidate covering its lines (of any type), else the drop stage of a
+ * candidate-less section covering them
+ */
+function findLossStage(expectation: GoldenExpectation, debugRun: DebugRun | undefined): GoldenLossStage {
+  if (!debugRun) return 'NOT_GENERATED';
+
+  let latest: DropStage | null = null;
+  for (const section of debugRun.sections) {
+    for (const candidate of section.candidates) {
+      if (!candidate.dropStage) continue;
+      if (!matchesExpectation(candidateToGoldenSuggestion(candidate), expectation, LINES_ONLY)) continue;
+      if (latest === null || stageIndex(candidate.dropStage) > stageIndex(latest)) {
+        latest = candidate.dropStage;
+      }
+    }
+  }
+  if (latest) return latest;
+
+  if (expectation.evidence_lines) {
+    const range = expectation.evidence_lines;
+    const section = debugRun.sections.find(
+      (s) => s.dropStage && s.candidates.length === 0 && overlaps(s.lineRange, range)
+    );
+    if (section?.dropStage) return section.dropStage;
+  }
+
+  return 'NOT_GENERATED';
+}
+
+// ============================================
+// Runner
+// ============================================
+
+/**
+ * Run the engine over a golden corpus and score it against the labels
+ */
+export function runGoldenCorpus(
+  corpus: GoldenCorpus,
+  config?: Partial<GeneratorConfig>
+): GoldenReport {
+  const cases: GoldenCaseResult[] = [];
+  const typeCounts = new Map<SuggestionType, { tp: number; fp: number; fn: number }>();
+  const stageCounts = DROP_STAGE_ORDER.map(() => ({ tp: 0, fp: 0, dropped: 0, lost: 0 }));
+  const lostByStage: Partial<Record<GoldenLossStage, number>> = {};
+  let totalExpected = 0;
+
+  const countsFor = (type: SuggestionType) => {
+    let counts = typeCounts.get(type);
+    if (!counts) {
+      counts = { tp: 0, fp: 0, fn: 0 };
+      typeCounts.set(type, counts);
+    }
+    return counts;
+  };
+
+  for (const goldenCase of corpus.cases) {
+    const context = { initiatives: goldenCase.initiatives ?? [] };
+    const result = generateSuggestions(goldenCase.note, context, config);
+    const { debugRun } = generateSuggestionsWithDebug(goldenCase.note, context, config, { verbosity: 'FULL_TEXT' });
+
+    const emitted = result.suggestions.map(toGoldenSuggestion);
+    const matches = matchExpectations(emitted, goldenCase.expected);
+    const matched = new Set(matches.filter((m): m is number => m !== null));
+    totalExpected += goldenCase.expected.length;
+
+    goldenCase.expected.forEach((expectation, i) => {
+      const counts = countsFor(expectation.type);
+      if (matches[i] === null) counts.fn++;
+      else counts.tp++;
+    });
+    emitted.forEach((suggestion, i) => {
+      if (!matched.has(i)) countsFor(suggestion.type).fp++;
+    });
+
+    const lostAt = goldenCase.expected.map((expectation, i) =>
+      matches[i] === null ? findLossStage(expectation, debugRun) : null
+    );
+    for (const stage of lostAt) {
+      if (stage) lostByStage[stage] = (lostByStage[stage] ?? 0) + 1;
+    }
+
+    // Candidates surviving each stage, scored against the same labels
+    const candidates = (debugRun?.sections ?? []).flatMap((section) => section.candidates);
+    DROP_STAGE_ORDER.forEach((stage, stageIdx) => {
+      const survivors = candidates
+        .filter((c) => stageIndex(c.dropStage) > stageIdx)
+        .map(candidateToGoldenSuggestion);
+      const survivorMatches = matchExpectations(survivors, goldenCase.expected, { ignoreTitle: true });
+      const tp = survivorMatches.filter((m) => m !== null).length;
+      stageCounts[stageIdx].tp += tp;
+      stageCounts[stageIdx].fp += survivors.length - tp;
+      stageCounts[stageIdx].dropped += candidates.filter((c) => c.dropStage === stage).length;
+      stageCounts[stageIdx].lost += lostAt.filter((s) => s === stage).length;
+    });
+
+    cases.push({
+      case_id: goldenCase.id,
+      emitted,
+      matches,
+      lost_at: lostAt,
+      false_positives: emitted.filter((_, i) => !matched.has(i)),
+    });
+  }
+
+  const perType: Partial<Record<SuggestionType, PrecisionRecall>> = {};
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const [type, counts] of typeCounts) {
+    perType[type] = precisionRecall(counts.tp, counts.fp, counts.fn);
+    tp += counts.tp;
+    fp += counts.fp;
+    fn += counts.fn;
+  }
+
+  return {
+    corpus: corpus.name,
+    generator_version: GENERATOR_VERSION,
+    created_at: new Date().toISOString(),
+    overall: precisionRecall(tp, fp, fn),
+    per_type: perType,
+    per_stage: DROP_STAGE_ORDER.map((stage, i) => ({
+      stage,
+      ...precisionRecall(stageCounts[i].tp, stageCounts[i].fp, totalExpected - stageCounts[i].tp),
+      dropped: stageCounts[i].dropped,
+      lost: stageCounts[i].lost,
+    })),
+    lost_by_stage: lostByStage,
+    cases,
+  };
+}
+
+// ============================================
+// Version Diff
+// ============================================
+
+export interface GoldenCaseDiff {
+  case_id: string;
+  gained: GoldenSuggestion[];
+  lost: GoldenSuggestion[];
+  /** Expectation indices matched in head but not in base */
+  newly_matched: number[];
+  /** Expectation indices matched in base but not in head */
+  newly_missed: number[];
+}
+
+export interface GoldenDiff {
+  base_version: string;
+  head_version: string;
+  overall_delta: { precision: number; recall: number; f1: number };
+  per_type_delta: Partial<Record<SuggestionType, { precision: number; recall: number; f1: number }>>;
+  cases: GoldenCaseDiff[];
+  added_cases: string[];
+  removed_cases: string[];
+}
+
+function suggestionKey(s: GoldenSuggestion): string {
+  return `${s.type}|${s.title.trim().toLowerCase()}`;
+}
+
+function delta(base: PrecisionRecall | undefined, head: PrecisionRecall | undefined) {
+  const b = base ?? precisionRecall(0, 0, 0);
+  const h = head ?? precisionRecall(0, 0, 0);
+  return { precision: h.precision - b.precision, recall: h.recall - b.recall, f1: h.f1 - b.f1 };
+}
+
+/**
+ * Compare two reports (typically two GENERATOR_VERSIONs over the same
+ * corpus). Suggestions are compared by type and title; only cases whose
+ * output or label matches changed are listed.
+ */
+export function diffGoldenReports(base: GoldenReport, head: GoldenReport): GoldenDiff {
+  const baseCases = new Map(base.cases.map((c) => [c.case_id, c]));
+  const headIds = new Set(head.cases.map((c) => c.case_id));
+  const cases: GoldenCaseDiff[] = [];
+
+  for (const headCase of head.cases) {
+    const baseCase = baseCases.get(headCase.case_id);
+    if (!baseCase) continue;
+
+    const baseKeys = new Set(baseCase.emitted.map(suggestionKey));
+    const headKeys = new Set(headCase.emitted.map(suggestionKey));
+    const gained = headCase.emitted.filter((s) => !baseKeys.has(suggestionKey(s)));
+    const lost = baseCase.emitted.filter((s) => !headKeys.has(suggestionKey(s)));
+
+    const newlyMatched: number[] = [];
+    const newlyMissed: number[] = [];
+    headCase.matches.forEach((match, i) => {
+      const was = baseCase.matches[i] ?? null;
+      if (match !== null && was === null) newlyMatched.push(i);
+      if (match === null && was !== null) newlyMissed.push(i);
+    });
+
+    if (gained.length || lost.length || newlyMatched.length || newlyMissed.length) {
+      cases.push({ case_id: headCase.case_id, gained, lost, newly_matched: newlyMatched, newly_missed: newlyMissed });
+    }
+  }
+
+  const types = new Set([...Object.keys(base.per_type), ...Object.keys(head.per_type)] as SuggestionType[]);
+  const perTypeDelta: GoldenDiff['per_type_delta'] = {};
+  for (const type of types) {
+    perTypeDelta[type] = delta(base.per_type[type], head.per_type[type]);
+  }
+
+  return {
+    base_version: base.generator_version,
+    head_version: head.generator_version,
+    overall_delta: delta(base.overall, head.overall),
+    per_type_delta: perTypeDelta,
+    cases,
+    added_cases: head.cases.filter((c) => !baseCases.has(c.case_id)).map((c) => c.case_id),
+    removed_cases: base.cases.filter((c) => !headIds.has(c.case_id)).map((c) => c.case_id),
+  };
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+const signedPct = (n: number) => `${n >= 0 ? '+' : ''}${(n * 100).toFixed(1)}`;
+
+/**
+ * Human-readable golden corpus report
+ */
+export function formatGoldenReport(report: GoldenReport): string {
+  const lines: string[] = [
+    `=== Golden Corpus: ${report.corpus} (${report.generator_version}) ===`,
+    '',
+    `Overall: P ${pct(report.overall.precision)}  R ${pct(report.overall.recall)}  F1 ${pct(report.overall.f1)}` +
+      `  (tp ${report.overall.true_positives}, fp ${report.overall.false_positives}, fn ${report.overall.false_negatives})`,
+    '',
+    '## Per type',
+  ];
+
+  for (const [type, m] of Object.entries(report.per_type)) {
+    lines.push(`- ${type}: P ${pct(m.precision)}  R ${pct(m.recall)}  F1 ${pct(m.f1)}  (tp ${m.true_positives}, fp ${m.false_positives}, fn ${m.false_negatives})`);
+  }
+
+  lines.push('', '## After each drop stage');
+  for (const m of report.per_stage) {
+    lines.push(`- ${m.stage}: P ${pct(m.precision)}  R ${pct(m.recall)}  F1 ${pct(m.f1)}  (dropped ${m.dropped}, lost ${m.lost})`);
+  }
+
+  const misses = report.cases.flatMap((c) =>
+    c.lost_at.flatMap((stage, i) => (stage ? [`- ${c.case_id} #${i}: lost at ${stage}`] : []))
+  );
+  if (misses.length > 0) {
+    lines.push('', '## Missed expectations', ...misses);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Human-readable diff between two golden reports
+ */
+export function formatGoldenDiff(diff: GoldenDiff): string {
+  const d = diff.overall_delta;
+  const lines: string[] = [
+    `=== Golden Diff: ${diff.base_version} → ${diff.head_version} ===`,
+    '',
+    `Overall: P ${signedPct(d.precision)}  R ${signedPct(d.recall)}  F1 ${signedPct(d.f1)}`,
+  ];
+
+  for (const [type, t] of Object.entries(diff.per_type_delta)) {
+    lines.push(`- ${type}: P ${signedPct(t.precision)}  R ${signedPct(t.recall)}  F1 ${signedPct(t.f1)}`);
+  }
+
+  if (diff.cases.length === 0) {
+    lines.push('', 'No note gained or lost suggestions.');
+  }
+  for (const c of diff.cases) {
+    lines.push('', `## ${c.case_id}`);
+    for (const s of c.gained) lines.push(`+ [${s.type}] ${s.title}`);
+    for (const s of c.lost) lines.push(`- [${s.type}] ${s.title}`);
+    if (c.newly_matched.length) lines.push(`  newly matched expectations: ${c.newly_matched.join(', ')}`);
+    if (c.newly_missed.length) lines.push(`  newly missed expectations: ${c.newly_missed.join(', ')}`);
+  }
+
+  if (diff.added_cases.length) lines.push('', `Added cases: ${diff.added_cases.join(', ')}`);
+  if (diff.removed_cases.length) lines.push('', `Removed cases: ${diff.removed_cases.join(', ')}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,165 @@
+/**
+ * Golden corpus for the v2 engine.
+ *
+ * Each case labels what a reviewer expects from the note, not what the
+ * engine currently emits: misses and extra suggestions are the point.
+ * Evidence line ranges are 0-based and inclusive.
+ *
+ * Add a case when a classifier change fixes or breaks a note, then run
+ * `npx tsx scripts/golden-corpus.ts` before and after the change.
+ */
+
+import type { GoldenCorpus } from './goldenCorpus';
+import { CLOUDSCALE_NOTE } from './cloudscale-regression-helpers';
+
+export const GOLDEN_CORPUS: GoldenCorpus = {
+  name: 'engine-v2-core',
+  cases: [
+    {
+      id: 'plan-mutation-onboarding',
+      tags: ['plan_change'],
+      note: {
+        note_id: 'golden-plan-mutation',
+        meeting_at: '2026-04-06T15:00:00Z',
+        raw_markdown: `# Q2 Onboarding Roadmap
+
+## Scope Changes
+
+We need to shift our focus from enterprise onboarding to self-serve onboarding for Q2.
+
+- Defer enterprise features to Q3
+- Prioritize self-serve signup flow
+- Remove SSO from Q2 scope (move to Q3)
+- Add in-app tutorials and tooltips
+
+The goal is to reduce onboarding time from 2 weeks to 2 days for SMB customers.
+
+## Timeline
+
+- Phase 1: Basic signup flow (by end of April)
+- Phase 2: In-app tutorials (May)
+- Phase 3: Analytics integration (June)
+`,
+      },
+      expected: [
+        { type: 'project_update', title_pattern: 'Q3', evidence_lines: [4, 9] },
+      ],
+    },
+    {
+      id: 'mixed-weekly-planning',
+      tags: ['plan_change', 'new_workstream', 'noise'],
+      note: {
+        note_id: 'golden-mixed',
+        meeting_at: '2026-04-06T15:00:00Z',
+        raw_markdown: `# Weekly Planning
+
+## Updates
+Had a good sync with the team. Everyone is aligned on priorities.
+
+## Communication
+- Send out weekly summary to stakeholders
+- Schedule meeting with design team
+
+## Roadmap Changes
+
+Shifting mobile app from Q2 to Q3 due to resource constraints.
+- iOS app pushed to Q3
+- Focus on web experience first
+- Add PWA support instead
+
+## New Initiative: API v2
+
+Launch new API version with breaking changes.
+
+Objective: Simplify integration and improve performance by 50%.
+
+Scope includes:
+- New authentication model
+- Batch endpoints
+- Rate limiting improvements
+`,
+      },
+      expected: [
+        { type: 'project_update', title_pattern: 'Q3', evidence_lines: [11, 14] },
+        { type: 'idea', title_pattern: 'API v2', evidence_lines: [16, 25] },
+      ],
+    },
+    {
+      id: 'micro-tasks-only',
+      tags: ['noise'],
+      note: {
+        note_id: 'golden-micro-tasks',
+        raw_markdown: `# Tasks
+
+## To Do
+- Update slide deck
+- Send email to team
+- Schedule meeting
+- Follow up with customer
+- Review documents
+`,
+      },
+      expected: [],
+    },
+    {
+      id: 'product-planning-problems',
+      tags: ['idea', 'bug'],
+      note: {
+        note_id: 'golden-product-planning',
+        raw_markdown: `# Product Planning
+
+## Onboarding improvements
+
+We need boundary detection so we can see where users drop.
+
+Users are hitting errors during signup and we don't know why. The support team is getting frustrated.
+
+## Status updates
+
+Random thought about the design. No action needed, but something to consider later.
+
+## Performance monitoring
+
+We don't have dashboard errors visibility because the logging infrastructure is incomplete.
+
+This has been blocking debugging efforts for weeks. The team needs a solution soon.
+`,
+      },
+      expected: [
+        { type: 'idea', title_pattern: 'boundary detection', evidence_lines: [4, 4] },
+        { type: 'bug', title_pattern: 'signup|errors', evidence_lines: [6, 6] },
+        { type: 'idea', title_pattern: 'logging|visibility|dashboard', evidence_lines: [14, 16] },
+      ],
+    },
+    {
+      id: 'pricing-next-steps',
+      tags: ['action_item'],
+      note: {
+        note_id: 'golden-pricing-sync',
+        meeting_at: '2026-05-13T15:00:00Z',
+        raw_markdown: `# Pricing sync
+
+## Next steps
+- @dana to send the pricing doc by Thursday
+- Legal to review the new terms before next Friday
+- Sam to get sign-off from finance
+- We discussed the roadmap
+`,
+      },
+      expected: [
+        { type: 'action_item', title_pattern: 'dana.*pricing doc', evidence_lines: [3, 3] },
+        { type: 'action_item', title_pattern: 'Legal.*terms', evidence_lines: [4, 4] },
+        { type: 'action_item', title_pattern: 'Sam.*finance', evidence_lines: [5, 5] },
+      ],
+    },
+    {
+      id: 'cloudscale-dense-paragraph',
+      tags: ['dense_paragraph', 'risk'],
+      note: CLOUDSCALE_NOTE,
+      expected: [
+        { type: 'risk', title_pattern: 'risk|GDPR|compliance', evidence_lines: [0, 0] },
+        { type: 'project_update', title_pattern: '4-week|delay', evidence_lines: [0, 0] },
+      ],
+    },
+  ],
+};
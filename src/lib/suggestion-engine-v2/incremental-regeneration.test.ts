@@ -0,0 +1,169 @@
+/**
+ * Incremental regeneration
+ *
+ * After a note edit only sections whose content hash changed go through the
+ * pipeline again; previous suggestions are carried forward, continued or
+ * superseded.
+ *
+ * Tests:
+ *   1. Section content hashes
+ *   2. First run (no snapshot) matches a full generation
+ *   3. Carry forward, continue, supersede after edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { regenerateIncrementally, computeNoteSectionHashes } from './incremental';
+import type { IncrementalRegenerationResult, PreviousSuggestion } from './incremental';
+import { generateSuggestions } from './index';
+import type { NoteInput } from './types';
+
+const CHECKOUT = `## Checkout
+- We need to push the checkout launch from March to April because payments are not ready.
+`;
+const ONBOARDING = `## Onboarding
+- We should build a new onboarding email sequence for trial accounts to improve activation.
+`;
+const PRICING = `## Pricing
+- Risk: the enterprise pricing change may cause churn among mid-market customers.
+`;
+const SUPPORT = `## Support
+- We need to add a live chat widget to the help center so customers get faster answers.
+`;
+
+// Topic anchors split this section inside the pipeline (`…__topic_…` ids)
+const DISCUSSION = `## Discussion details
+
+New Feature Requests:
+Launch offline mode for mobile app to support disconnected users in the field.
+
+Project Timelines:
+Project Ares migration will slip by 2 weeks due to infrastructure dependencies.
+
+Internal Operations:
+Standardize deployment scripts across all environments.
+`;
+
+function note(...sections: string[]): NoteInput {
+  return { note_id: 'note-inc', raw_markdown: `# Planning sync\n\nAttendees: Dana, Lee\n\n${sections.join('\n')}` };
+}
+
+/** Store a run's output the way suggestions.regenerate does */
+function stored(run: IncrementalRegenerationResult, status: (type: string) => string = () => 'new'): PreviousSuggestion[] {
+  return run.fresh.map((item, i) => ({
+    id: `prev-${i}`,
+    type: item.suggestion.type,
+    status: status(item.suggestion.type),
+    suggestion_key: item.suggestion.suggestionKey,
+    section_hash: item.section_hash,
+    evidence_texts: item.evidence_texts,
+  }));
+}
+
+const byType = (previous: PreviousSuggestion[], type: string) => previous.find((p) => p.type === type)!.id;
+
+// ============================================
+// Section hashes
+// ============================================
+
+describe('computeNoteSectionHashes', () => {
+  it('keeps a section hash when other sections are added or moved', () => {
+    const before = computeNoteSectionHashes(note(CHECKOUT, ONBOARDING)).hashes;
+    const after = computeNoteSectionHashes(note(SUPPORT, ONBOARDING, CHECKOUT)).hashes;
+
+    expect(after).toEqual(expect.arrayContaining(before));
+    expect(after).toHaveLength(before.length + 1);
+  });
+});
+
+// ============================================
+// First run
+// ============================================
+
+describe('regenerateIncrementally without a snapshot', () => {
+  it('runs every section and matches a full generation', async () => {
+    const input = note(CHECKOUT, ONBOARDING, PRICING);
+    const run = await regenerateIncrementally({ suggestions: [] }, input);
+
+    expect(run.stats).toMatchObject({ full_run: true, sections_reused: 0 });
+    expect(run.fresh.map((f) => f.suggestion.title)).toEqual(generateSuggestions(input).suggestions.map((s) => s.title));
+    for (const { suggestion } of run.fresh) {
+      const lines = input.raw_markdown.split('\n');
+      expect(lines[suggestion.evidence_spans[0].start_line]).toContain(suggestion.evidence_spans[0].text.trim().slice(0, 20));
+    }
+  });
+});
+
+// ============================================
+// Edits
+// ============================================
+
+describe('regenerateIncrementally after edits', () => {
+  it('reuses unchanged sections and reports nothing for an unedited note', async () => {
+    const input = note(CHECKOUT, ONBOARDING);
+    const first = await regenerateIncrementally({ suggestions: [] }, input);
+    const previous = stored(first);
+
+    const again = await regenerateIncrementally({ section_hashes: first.section_hashes, suggestions: previous }, input);
+
+    expect(again.stats).toMatchObject({ sections_changed: 0, full_run: false });
+    expect(again.fresh).toEqual([]);
+    expect(again.superseded).toEqual([]);
+    expect(again.carried_forward.map((c) => c.previous_id).sort()).toEqual(previous.map((p) => p.id).sort());
+  });
+
+  it('carries forward, continues edited lines, supersedes deleted evidence and adds new sections', async () => {
+    const first = await regenerateIncrementally({ suggestions: [] }, note(CHECKOUT, ONBOARDING, PRICING));
+    const previous = stored(first);
+    const edited = note(
+      SUPPORT,
+      CHECKOUT,
+      ONBOARDING.replace('trial accounts', 'trial and freemium accounts')
+    );
+
+    const second = await regenerateIncrementally({ section_hashes: first.section_hashes, suggestions: previous }, edited);
+
+    expect(second.stats).toMatchObject({ sections_changed: 2, full_run: false });
+    expect(second.carried_forward.map((c) => c.previous_id)).toEqual([byType(previous, 'project_update')]);
+    expect(second.continued).toHaveLength(1);
+    expect(second.continued[0].previous_id).toBe(byType(previous, 'idea'));
+    expect(second.continued[0].suggestion.title).toContain('freemium');
+    expect(second.superseded).toEqual([byType(previous, 'risk')]);
+    expect(second.fresh.map((f) => f.suggestion.title).join(' ')).toContain('live chat');
+    expect(second.fresh.every((f) => f.suggestion.note_id === 'note-inc')).toBe(true);
+  });
+
+  it('ties suggestions from topic-split sections to their own section', async () => {
+    const input = note(CHECKOUT, DISCUSSION);
+    const first = await regenerateIncrementally({ suggestions: [] }, input);
+    const [checkoutHash, discussionHash] = first.section_hashes.slice(-2);
+    const fromDiscussion = first.fresh.filter((f) => f.section_hash === discussionHash);
+
+    expect(fromDiscussion.length).toBeGreaterThan(1);
+    expect(first.fresh.filter((f) => f.section_hash === checkoutHash)).toHaveLength(1);
+    const [discussionId] = [...computeNoteSectionHashes(input).by_section_id].find(([, hash]) => hash === discussionHash)!;
+    expect(fromDiscussion.every((f) => f.suggestion.section_id === discussionId)).toBe(true);
+
+    // Editing only Checkout carries every Discussion details suggestion forward
+    const previous = stored(first);
+    const second = await regenerateIncrementally(
+      { section_hashes: first.section_hashes, suggestions: previous },
+      note(CHECKOUT.replace('April', 'May'), DISCUSSION)
+    );
+    expect(second.stats).toMatchObject({ sections_changed: 1 });
+    expect(second.carried_forward).toHaveLength(fromDiscussion.length);
+    expect(second.fresh).toEqual([]);
+    expect(second.continued).toHaveLength(1);
+  });
+
+  it('never supersedes a decided suggestion', async () => {
+    const first = await regenerateIncrementally({ suggestions: [] }, note(CHECKOUT, PRICING));
+    const previous = stored(first, (type) => (type === 'risk' ? 'dismissed' : 'new'));
+
+    const second = await regenerateIncrementally(
+      { section_hashes: first.section_hashes, suggestions: previous },
+      note(CHECKOUT)
+    );
+
+    expect(second.superseded).toEqual([]);
+  });
+});
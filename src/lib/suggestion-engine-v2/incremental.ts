@@ -0,0 +1,277 @@
+/**
+ * Suggestion Engine v2 - Incremental Regeneration
+ *
+ * Re-generating after a note edit re-runs the pipeline only for sections
+ * whose content changed. Sections are identified by a content hash (not
+ * the positional section_id, which shifts when sections are inserted).
+ *
+ * Previous suggestions are then reconciled against the new note:
+ * - carried forward: their section is unchanged, so identity and decision
+ *   stay exactly as they were
+ * - continued: a fresh suggestion from a changed section matches them by
+ *   suggestionKey or overlapping evidence, so the fresh text updates the
+ *   existing suggestion (and keeps its decision) instead of creating a new one
+ * - superseded: still undecided, and none of their evidence is left in the
+ *   note
+ * Everything else from changed sections is new.
+ */
+
+import type { NoteInput, GeneratorContext, GeneratorConfig, GeneratorResult, Section, Suggestion } from './types';
+import { computeNoteHash } from './noteHash';
+import { preprocessNote, resetSectionCounter, normalizeForComparison, resolveNoteFormat } from './preprocessing';
+import { generateSuggestionsAsync } from './index';
+import { anchorSuggestionKeys } from './keyAnchoring';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A suggestion stored from an earlier generation of the same note
+ */
+export interface PreviousSuggestion {
+  id: string;
+  type: Suggestion['type'];
+  /** 'new' suggestions can be superseded; decided ones keep their decision */
+  status: string;
+  suggestion_key?: string;
+  /** Absent on suggestions stored before incremental regeneration */
+  section_hash?: string;
+  evidence_texts?: string[];
+}
+
+export interface IncrementalPreviousState {
+  /** Section hashes recorded at the last generation; absent forces a full run */
+  section_hashes?: string[];
+  suggestions: PreviousSuggestion[];
+}
+
+/**
+ * A generated suggestion with what the next incremental run needs to match it
+ */
+export interface IncrementalSuggestion {
+  suggestion: Suggestion;
+  section_hash: string;
+  evidence_texts: string[];
+}
+
+export interface IncrementalRegenerationResult {
+  /** Store on the note for the next run */
+  section_hashes: string[];
+  /** New suggestions to insert */
+  fresh: IncrementalSuggestion[];
+  /** Fresh output that continues an existing suggestion */
+  continued: (IncrementalSuggestion & { previous_id: string })[];
+  /** Existing suggestions from unchanged sections (section_id is the new positional id) */
+  carried_forward: { previous_id: string; section_id: string; section_hash: string }[];
+  /** Undecided suggestions whose evidence was deleted */
+  superseded: string[];
+  stats: {
+    sections_total: number;
+    sections_changed: number;
+    sections_reused: number;
+    /** True when there was no previous snapshot, so every section ran */
+    full_run: boolean;
+  };
+  /** Pipeline result for the changed sections only */
+  result: GeneratorResult;
+}
+
+// ============================================
+// Section and Evidence Hashing
+// ============================================
+
+/**
+ * Content hash of a section: heading level, heading and trimmed body.
+ * Stable when surrounding sections are added, removed or reordered.
+ */
+export function computeSectionContentHash(section: Section): string {
+  return computeNoteHash(`${section.heading_level ?? 0}|${section.heading_text ?? ''}|${section.raw_text.trim()}`);
+}
+
+/**
+ * Section content hashes for a note, in document order, plus section_id → hash
+ */
+export function computeNoteSectionHashes(note: NoteInput): { hashes: string[]; by_section_id: Map<string, string> } {
+  resetSectionCounter();
+  const { sections } = preprocessNote(note);
+  const bySectionId = new Map(sections.map((s) => [s.section_id, computeSectionContentHash(s)]));
+  return { hashes: [...bySectionId.values()], by_section_id: bySectionId };
+}
+
+/**
+ * The preprocessed section a suggestion came from. Topic and sentence
+ * splits (`<section>__topic_<slug>__<n>`, `<section>__sent_<n>`) only exist
+ * inside the pipeline, so their suggestions belong to the parent section.
+ */
+export function getParentSectionId(sectionId: string): string {
+  return sectionId.replace(/__(?:topic|sent)_.*$/, '');
+}
+
+/**
+ * Evidence text from this note (cross-note evidence is skipped)
+ */
+export function getOwnEvidenceTexts(suggestion: Suggestion): string[] {
+  return suggestion.evidence_spans
+    .filter((span) => !span.note_id || span.note_id === suggestion.note_id)
+    .map((span) => span.text)
+    .filter((text) => text.trim().length > 0);
+}
+
+/** Min token overlap for an edited evidence line to count as the same evidence */
+const MIN_EVIDENCE_OVERLAP = 0.6;
+
+function tokenSet(text: string): Set<string> {
+  return new Set(normalizeForComparison(text).split(' ').filter(Boolean));
+}
+
+/**
+ * Best Jaccard overlap between any evidence text in `a` and any in `b`,
+ * so an edited line ("trial accounts" → "trial and freemium accounts")
+ * still matches.
+ */
+function evidenceOverlap(a: string[], b: string[]): number {
+  let best = 0;
+  for (const left of a.map(tokenSet)) {
+    for (const right of b.map(tokenSet)) {
+      const shared = [...left].filter((token) => right.has(token)).length;
+      const union = left.size + right.size - shared;
+      if (union > 0) best = Math.max(best, shared / union);
+    }
+  }
+  return best;
+}
+
+// ============================================
+// Incremental Regeneration
+// ============================================
+
+/**
+ * Build a note containing only the given sections, with a map from its
+ * line numbers back to the original note's.
+ */
+function buildPartialNote(note: NoteInput, sections: Section[]): { note: NoteInput; lineMap: number[] } {
+  const lines = note.raw_markdown.replace(/\r\n?/g, '\n').split('\n');
+  const partialLines: string[] = [];
+  const lineMap: number[] = [];
+  for (const section of sections) {
+    for (let i = section.start_line; i <= section.end_line && i < lines.length; i++) {
+      partialLines.push(lines[i]);
+      lineMap.push(i);
+    }
+  }
+  return {
+    note: { ...note, raw_markdown: partialLines.join('\n'), format: resolveNoteFormat(note, note.raw_markdown) },
+    lineMap,
+  };
+}
+
+function remapSuggestion(suggestion: Suggestion, noteId: string, sectionId: string, lineMap: number[]): Suggestion {
+  const toOriginal = (line: number) => (line >= 0 && line < lineMap.length ? lineMap[line] : line);
+  return {
+    ...suggestion,
+    note_id: noteId,
+    section_id: sectionId,
+    evidence_spans: suggestion.evidence_spans.map((span) =>
+      span.note_id && span.note_id !== noteId
+        ? span
+        : { ...span, start_line: toOriginal(span.start_line), end_line: toOriginal(span.end_line) }
+    ),
+  };
+}
+
+/**
+ * Regenerate a note's suggestions, re-running the pipeline only for
+ * changed sections, and reconcile the output with previous suggestions.
+ */
+export async function regenerateIncrementally(
+  previous: IncrementalPreviousState,
+  note: NoteInput,
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>
+): Promise<IncrementalRegenerationResult> {
+  resetSectionCounter();
+  const { sections } = preprocessNote(note);
+  const hashes = sections.map(computeSectionContentHash);
+
+  const previousHashes = new Set(previous.section_hashes ?? []);
+  const fullRun = previous.section_hashes === undefined;
+  const changed = sections.filter((_, i) => fullRun || !previousHashes.has(hashes[i]));
+  const unchangedHashes = new Set(hashes.filter((h) => previousHashes.has(h)));
+
+  // Pipeline over changed sections; results are mapped back to the full
+  // note's section ids and line numbers
+  const partial = buildPartialNote(note, changed);
+  const result: GeneratorResult = changed.length > 0
+    ? await generateSuggestionsAsync(partial.note, context, config)
+    : { suggestions: [], noteHash: computeNoteHash(note.raw_markdown) };
+  resetSectionCounter();
+  const partialSections = changed.length > 0 ? preprocessNote(partial.note).sections : [];
+  const originalSectionAt = (line: number) =>
+    changed.find((c) => line >= c.start_line && line <= c.end_line) ?? changed[0];
+  const sectionByPartialId = new Map(
+    partialSections.map((s) => [s.section_id, originalSectionAt(partial.lineMap[s.start_line] ?? -1)])
+  );
+
+  const remapped = result.suggestions.map((s) => {
+    const section = sectionByPartialId.get(getParentSectionId(s.section_id)) ?? changed[0];
+    return { section, suggestion: remapSuggestion(s, note.note_id, section.section_id, partial.lineMap) };
+  });
+  // Re-key against the full note: the partial note lacks parent headings,
+  // so its heading paths (and v2 keys) would differ from a full run's
+  const keyed = anchorSuggestionKeys(remapped.map((r) => r.suggestion), sections);
+  const generated: IncrementalSuggestion[] = remapped.map(({ section }, i) => ({
+    suggestion: keyed[i],
+    section_hash: computeSectionContentHash(section),
+    evidence_texts: getOwnEvidenceTexts(keyed[i]),
+  }));
+
+  // Reconcile with previous suggestions
+  const carriedForward: IncrementalRegenerationResult['carried_forward'] = [];
+  const candidates: PreviousSuggestion[] = [];
+  for (const prev of previous.suggestions) {
+    const index = prev.section_hash && unchangedHashes.has(prev.section_hash) ? hashes.indexOf(prev.section_hash) : -1;
+    if (index >= 0) {
+      carriedForward.push({ previous_id: prev.id, section_id: sections[index].section_id, section_hash: prev.section_hash! });
+    } else {
+      candidates.push(prev);
+    }
+  }
+
+  const claimed = new Set<string>();
+  const continued: IncrementalRegenerationResult['continued'] = [];
+  const fresh: IncrementalSuggestion[] = [];
+  for (const item of generated) {
+    const match =
+      candidates.find((p) => !claimed.has(p.id) && p.type === item.suggestion.type && p.suggestion_key === item.suggestion.suggestionKey) ??
+      candidates.find((p) => !claimed.has(p.id) && p.type === item.suggestion.type &&
+        evidenceOverlap(p.evidence_texts ?? [], item.evidence_texts) >= MIN_EVIDENCE_OVERLAP);
+    if (match) {
+      claimed.add(match.id);
+      continued.push({ ...item, previous_id: match.id });
+    } else {
+      fresh.push(item);
+    }
+  }
+
+  const noteText = normalizeForComparison(note.raw_markdown);
+  const superseded = candidates
+    .filter((p) => !claimed.has(p.id) && p.status === 'new' && p.evidence_texts && p.evidence_texts.length > 0)
+    .filter((p) => p.evidence_texts!.every((text) => !noteText.includes(normalizeForComparison(text))))
+    .map((p) => p.id);
+
+  return {
+    section_hashes: hashes,
+    fresh,
+    continued,
+    carried_forward: carriedForward,
+    superseded,
+    stats: {
+      sections_total: sections.length,
+      sections_changed: changed.length,
+      sections_reused: sections.length - changed.length,
+      full_run: fullRun,
+    },
+    result,
+  };
+}
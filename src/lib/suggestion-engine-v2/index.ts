@@ -7,10 +7,12 @@
  * Pipeline:
  * 1. Preprocessing: Parse markdown, annotate lines, segment into sections
  * 2. Classification: Classify section intent and determine actionability
+ *    (LLM-blended via generateSuggestionsAsync when use_llm_classifiers)
  * 3. Synthesis: Generate suggestion titles, payloads, and evidence spans
  * 4. Validation: Run V2-V3 quality validators (hard gates)
  * 5. Scoring: Compute confidence scores and threshold pruning
  * 6. Routing: Attach to initiatives or mark as create_new
+ *    (embedding-based via generateSuggestionsAsync when embedding_enabled)
  */
 
 import type {
@@ -27,21 +29,29 @@ import type {
   RunInvariants,
   RunDrop,
 } from './types';
-import { DEFAULT_CONFIG as defaultConfig } from './types';
+import { DEFAULT_CONFIG as defaultConfig, DEFAULT_DATE_RESOLVER_CONFIG } from './types';
 import { preprocessNote, resetSectionCounter } from './preprocessing';
-import { classifySections, filterActionableSections, qualifiesForStructuralIdeaBypass } from './classifiers';
+import { attributeEvidenceSpans } from './transcript';
+import { anchorSuggestionKeys } from './keyAnchoring';
+import { classifySections, classifySectionsWithLLMRun, filterActionableSections, qualifiesForStructuralIdeaBypass } from './classifiers';
+import { runLLMClassification } from './llmClassifiers';
+import { runLLMRewrite } from './llmRewrite';
+import type { LLMClassificationRun } from './llmClassifiers';
 import { synthesizeSuggestions, resetSuggestionCounter, shouldSplitByTopic, splitSectionByTopic, checkSectionSuppression, shouldSplitDenseParagraph, splitDenseParagraphIntoSentences } from './synthesis';
 import { runQualityValidators } from './validators';
 import { runScoringPipeline, refineSuggestionScores } from './scoring';
-import { routeSuggestions, computeRoutingStats } from './routing';
+import { routeSuggestions, computeRoutingStats, routeSuggestionsWithEmbeddings } from './routing';
+import { getEmbeddingProvider, getInitiativeVectorStore } from './embeddings';
 import { seedCandidatesFromBSignals, resetBSignalCounter } from './bSignalSeeding';
 import { shouldSuppressProcessSentence } from './processNoiseSuppression';
 import { extractDenseParagraphCandidates, isDenseParagraphSection, resetDenseParagraphCounter } from './denseParagraphExtraction';
 import { extractIdeaCandidates, resetIdeaSemanticCounter } from './extractIdeaCandidates';
+import { seedActionItemCandidates, mergeActionItemCandidates, resetActionItemCounter } from './actionItemSeeding';
 import { consolidateBySection, resetConsolidationCounter, sectionHasDeltaSignal } from './consolidateBySection';
 import { enforceTitleContract, normalizeTitlePrefix, truncateTitleSmart, ensureUpdateTitleIncludesDelta, stripKnownPrefix } from './title-normalization';
 import { computeSuggestionKey } from '../suggestion-keys';
 import { computeNoteHash } from './noteHash';
+import { resolveDateAnchor, resolveSuggestionScheduleDelta } from './dateResolver';
 import { applyFinalEmissionEnforcement } from './finalEmissionEnforcement';
 import {
   isAutomationSection,
@@ -68,15 +78,32 @@ export {
 } from './debugRedaction';
 export type { DebugFeatureFlags, DebugUserContext, DebugEnvContext } from './debugRedaction';
 export { DebugLedger, createDebugLedger, sectionToDebug, GENERATOR_VERSION } from './DebugLedger';
-export { generateSuggestionsWithDebug } from './debugGenerator';
+export { generateSuggestionsWithDebug, generateSuggestionsWithDebugAsync } from './debugGenerator';
 export type { DebugGeneratorOptions, DebugGeneratorResult } from './debugGenerator';
 
 // Re-export modules for advanced usage
-export { preprocessNote } from './preprocessing';
-export { classifySections, classifySection, classifyIntent, classifyType, filterActionableSections, isActionable, computeActionabilitySignals, isPlanChangeIntentLabel, isPlanChangeCandidate, hasPlanChangeEligibility, isStrategyHeadingSection, qualifiesForStructuralIdeaBypass, computeTypeLabel, isSpecOrFrameworkSection, classifySectionWithLLM, classifySectionsWithLLM } from './classifiers';
+export { preprocessNote, resolveNoteFormat } from './preprocessing';
+export { parseSpeakerTurn, looksLikeTranscript, attributeEvidenceSpans } from './transcript';
+export type { SpeakerTurn } from './transcript';
+export { classifySections, classifySection, classifyIntent, classifyType, filterActionableSections, isActionable, computeActionabilitySignals, isPlanChangeIntentLabel, isPlanChangeCandidate, hasPlanChangeEligibility, isStrategyHeadingSection, qualifiesForStructuralIdeaBypass, computeTypeLabel, isSpecOrFrameworkSection, classifySectionWithLLM, classifySectionsWithLLM, classifySectionWithIntent, classifySectionsWithLLMRun } from './classifiers';
 export type { LLMClassificationOptions } from './classifiers';
-export { classifyIntentWithLLM, classifyTypeWithLLM, blendIntentScores, MockLLMProvider } from './llmClassifiers';
-export type { LLMProvider, LLMIntentResponse, LLMTypeResponse } from './llmClassifiers';
+export { classifyIntentWithLLM, classifyTypeWithLLM, blendIntentScores, MockLLMProvider, requestIntentFromLLM, classifySectionsForRun, runLLMClassification, computeSectionHash, MIN_LLM_CONFIDENCE, DEFAULT_LLM_TOKEN_BUDGET } from './llmClassifiers';
+export type { LLMProvider, LLMIntentResponse, LLMTypeResponse, LLMUsage, LLMClassificationRun, LLMSectionOutcome, LLMRunOptions } from './llmClassifiers';
+export {
+  OpenAICompatibleProvider,
+  LLMProviderError,
+  LLMResponseCache,
+  registerLLMProvider,
+  unregisterLLMProvider,
+  getLLMProvider,
+  getLLMResponseCache,
+  validateJsonSchema,
+  parseJsonResponse,
+} from './llmProviders';
+export type { OpenAICompatibleProviderOptions, LLMProviderErrorKind } from './llmProviders';
+export { rewriteSuggestionsWithLLM, runLLMRewrite, extractGroundingTerms, findUngroundedTerms } from './llmRewrite';
+export type { LLMRewriteResponse, LLMRewriteRun, LLMRewriteOutcome, LLMRewriteOptions, LLMRewriteFallbackReason } from './llmRewrite';
+export { anchorSuggestionKeys, computeHeadingPaths } from './keyAnchoring';
 export { synthesizeSuggestions, synthesizeSuggestion, shouldSplitDenseParagraph, splitDenseParagraphIntoSentences } from './synthesis';
 export {
   runQualityValidators,
@@ -95,8 +122,52 @@ export {
 } from './scoring';
 export { groupSuggestionsForDisplay } from './presentation';
 export type { SuggestionBucket, GroupedSuggestions, GroupSuggestionsOptions } from './presentation';
-export { routeSuggestions, routeSuggestion, computeRoutingStats } from './routing';
+export { routeSuggestions, routeSuggestion, computeRoutingStats, routeWithEmbeddings, routeSuggestionsWithEmbeddings, routeText, routeTextWithEmbeddings, ROUTING_TOP_K } from './routing';
+export type { EmbeddingProvider, InitiativeVectorSource } from './routing';
+export {
+  registerEmbeddingProvider,
+  getEmbeddingProvider,
+  listEmbeddingProviders,
+  LocalEmbeddingProvider,
+  InitiativeVectorStore,
+  getInitiativeVectorStore,
+} from './embeddings';
+export {
+  areEquivalentAcrossNotes,
+  clusterAcrossNotes,
+  getClusterDecision,
+  mergeClusterEvidence,
+  applyCrossNoteClusters,
+  fromEngineSuggestion,
+  memberKey,
+  DEFAULT_CROSS_NOTE_CLUSTER_OPTIONS,
+} from './crossNoteClustering';
+export type {
+  ClusterableSuggestion,
+  SuggestionCluster,
+  CrossNoteClusterOptions,
+  CrossNoteMember,
+  CrossNoteClusterResult,
+  MemberDecision,
+} from './crossNoteClustering';
 export { computeNoteHash } from './noteHash';
+export { extractDecisionRecords, applyDecisionEmbeddingRouting } from './decisionRecords';
+export type { DecisionRecord } from './decisionRecords';
+export { extractNoteAssertions, detectConflicts, datesAgree } from './contradictions';
+export type { NoteAssertion, EarlierAssertion, InitiativeState } from './contradictions';
+export {
+  resolveScheduleDelta,
+  resolveDateExpression,
+  resolveDuration,
+  resolveDateAnchor,
+  attachScheduleDeltas,
+  formatScheduleDelta,
+  formatResolvedDate,
+  shiftDate,
+  findDueClause,
+} from './dateResolver';
+export { seedActionItemCandidates, isActionItemSection } from './actionItemSeeding';
+export { extractActionItem, formatActionItemTitle } from './signals';
 export { enforceTitleContract, normalizeTitlePrefix, ensureUpdateTitleIncludesDelta, stripKnownPrefix } from './title-normalization';
 export {
   evaluateNote,
@@ -105,6 +176,56 @@ export {
   generateReport,
   quickEvaluate,
 } from './evaluation';
+export {
+  runGoldenCorpus,
+  diffGoldenReports,
+  formatGoldenReport,
+  formatGoldenDiff,
+  matchesExpectation,
+  matchExpectations,
+  precisionRecall,
+  DROP_STAGE_ORDER,
+} from './goldenCorpus';
+export type {
+  GoldenCorpus,
+  GoldenCase,
+  GoldenExpectation,
+  GoldenReport,
+  GoldenDiff,
+  GoldenSuggestion,
+  PrecisionRecall,
+} from './goldenCorpus';
+export { GOLDEN_CORPUS } from './goldenCorpusFixtures';
+export {
+  sweepParameters,
+  sweepGeneratorThresholds,
+  paretoFrontier,
+  buildConfigPatch,
+  formatConfigPatch,
+  formatSweepResult,
+  DEFAULT_THRESHOLD_SWEEP_SPACE,
+} from './thresholdSweep';
+export type {
+  SweepSpace,
+  SweepOptions,
+  SweepTrial,
+  SweepResult,
+  ConfigPatch,
+  ConfigPatchChange,
+} from './thresholdSweep';
+export {
+  regenerateIncrementally,
+  computeSectionContentHash,
+  computeNoteSectionHashes,
+  getParentSectionId,
+  getOwnEvidenceTexts,
+} from './incremental';
+export type {
+  PreviousSuggestion,
+  IncrementalPreviousState,
+  IncrementalSuggestion,
+  IncrementalRegenerationResult,
+} from './incremental';
 
 // ============================================
 // Structural Idea Bypass ID counter
@@ -186,6 +307,69 @@ export function generateSuggestions(
   return generateSuggestionsInternal(note, context, config).result;
 }
 
+/**
+ * Re-route suggestions with the configured embedding provider.
+ *
+ * No-op (returns the input) when embedding_enabled is false, there are no
+ * initiatives, or context.embedding_model resolves to no provider — in which
+ * case the lexical Stage 6 routing stands.
+ */
+export async function applyEmbeddingRouting(
+  suggestions: Suggestion[],
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>
+): Promise<Suggestion[]> {
+  const embeddingEnabled = config?.embedding_enabled ?? defaultConfig.embedding_enabled;
+  const initiatives = context?.initiatives || [];
+  if (!embeddingEnabled || initiatives.length === 0) return suggestions;
+
+  const provider = getEmbeddingProvider(context?.embedding_model ?? 'local');
+  if (!provider) return suggestions;
+
+  const thresholds = { ...defaultConfig.thresholds, ...config?.thresholds };
+  return routeSuggestionsWithEmbeddings(
+    suggestions,
+    initiatives,
+    thresholds,
+    provider,
+    getInitiativeVectorStore(provider)
+  );
+}
+
+/**
+ * Async variant of generateSuggestions.
+ *
+ * Identical pipeline, except:
+ * - Stage 2 blends LLM intent scores when config.use_llm_classifiers is set
+ *   (see runLLMClassification);
+ * - titles and bodies are rewritten after Stage 7 when config.use_llm_rewrite
+ *   is set and the rewrite is grounded (see runLLMRewrite);
+ * - Stage 6 routing is replaced by embedding routing when
+ *   config.embedding_enabled is set (see applyEmbeddingRouting).
+ */
+export async function generateSuggestionsAsync(
+  note: NoteInput,
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>
+): Promise<GeneratorResult> {
+  const llmRun = await runLLMClassification(note, context, config);
+  const result = generateSuggestionsInternal(note, context, config, llmRun).result;
+  const rewrite = await runLLMRewrite(result.suggestions, context, config);
+  if (rewrite && result.debug) result.debug.llm_rewrite = rewrite.run;
+  const rewritten = rewrite?.suggestions ?? result.suggestions;
+  const suggestions = await applyEmbeddingRouting(rewritten, context, config);
+  if (suggestions === result.suggestions) return result;
+  if (suggestions === rewritten) return { ...result, suggestions };
+
+  if (result.debug) {
+    const routingStats = computeRoutingStats(suggestions);
+    result.debug.routing_attached = routingStats.attached;
+    result.debug.routing_create_new = routingStats.create_new;
+    result.debug.routing_ambiguous = routingStats.ambiguous;
+  }
+  return { ...result, suggestions };
+}
+
 /**
  * Internal implementation — returns both the public result and the sectionMap
  * so that generateRunResult can use it for final-emission enforcement without
@@ -194,7 +378,8 @@ export function generateSuggestions(
 function generateSuggestionsInternal(
   note: NoteInput,
   context?: GeneratorContext,
-  config?: Partial<GeneratorConfig>
+  config?: Partial<GeneratorConfig>,
+  llmRun?: LLMClassificationRun | null
 ): InternalGeneratorResult {
   // Reset counters for deterministic IDs (useful for testing)
   resetSectionCounter();
@@ -204,6 +389,7 @@ function generateSuggestionsInternal(
   resetIdeaSemanticCounter();
   resetConsolidationCounter();
   resetStructuralBypassCounter();
+  resetActionItemCounter();
 
   // Compute deterministic hash of note content
   const noteHash = computeNoteHash(note.raw_markdown);
@@ -237,11 +423,12 @@ function generateSuggestionsInternal(
     high_confidence_count: 0,
     invariant_plan_change_always_emitted: true,
   };
+  if (llmRun) debug.llm = llmRun;
 
   // ============================================
   // Stage 1: Preprocessing
   // ============================================
-  const { lines, sections } = preprocessNote(note);
+  const { lines, sections, format } = preprocessNote(note);
   debug.sections_count = sections.length;
 
   if (sections.length === 0) {
@@ -251,7 +438,9 @@ function generateSuggestionsInternal(
   // ============================================
   // Stage 2: Classification
   // ============================================
-  const classifiedSections = classifySections(sections, finalConfig.thresholds);
+  const classifiedSections = llmRun
+    ? classifySectionsWithLLMRun(sections, finalConfig.thresholds, llmRun)
+    : classifySections(sections, finalConfig.thresholds);
   const actionableSections = filterActionableSections(classifiedSections);
   debug.actionable_sections_count = actionableSections.length;
 
@@ -268,7 +457,16 @@ function generateSuggestionsInternal(
       return qualifiesForStructuralIdeaBypass(s, sectionHasDeltaSignal(s.raw_text));
     });
 
-  if (actionableSections.length === 0 && !hasStructuralBypassCandidate) {
+  // Action items are seeded from every section, including "Next steps" /
+  // "Action items" sections that are never actionable, so they are computed
+  // here and keep the pipeline running on notes that only assign work.
+  const dateAnchor = resolveDateAnchor(note, context);
+  const dateConfig = finalConfig.dates ?? DEFAULT_DATE_RESOLVER_CONFIG;
+  const actionItemCandidates = classifiedSections.flatMap((s) =>
+    seedActionItemCandidates(s, dateAnchor, dateConfig)
+  );
+
+  if (actionableSections.length === 0 && !hasStructuralBypassCandidate && actionItemCandidates.length === 0) {
     return { result: buildResult([], noteHash, debug, finalConfig.enable_debug), sectionMap: new Map() };
   }
 
@@ -309,7 +507,7 @@ function generateSuggestionsInternal(
 
   // When synthesis is empty AND there are no structural bypass candidates, exit early.
   // If structural bypass candidates exist we continue so Stage 4.59 can emit them.
-  if (synthesizedSuggestions.length === 0 && !hasStructuralBypassCandidate) {
+  if (synthesizedSuggestions.length === 0 && !hasStructuralBypassCandidate && actionItemCandidates.length === 0) {
     return { result: buildResult([], noteHash, debug, finalConfig.enable_debug), sectionMap };
   }
 
@@ -714,11 +912,28 @@ function generateSuggestionsInternal(
     };
   }
 
+  // ============================================
+  // Stage 4.599: Action Item Seeding (additive)
+  // ============================================
+  // Action items computed after classification are added last so they can
+  // replace idea candidates grounded in the same line ("Dana to draft the FAQ"
+  // is an assignment, not new work).
+  const { merged: withActionItems, replaced: replacedByActionItems } = mergeActionItemCandidates(
+    filteredValidatedSuggestions,
+    actionItemCandidates
+  );
+  for (const replaced of replacedByActionItems) {
+    debug.dropped_suggestions.push({
+      section_id: replaced.section_id,
+      reason: 'REPLACED_BY_ACTION_ITEM',
+    });
+  }
+
   // ============================================
   // Stage 4.6: Grounding Invariant (anti-hallucination hard gate)
   // ============================================
   const groundedSuggestions: Suggestion[] = [];
-  for (const suggestion of filteredValidatedSuggestions) {
+  for (const suggestion of withActionItems) {
     const section =
       sectionMap.get(suggestion.section_id) ||
       (suggestion.section_id.includes('__topic_')
@@ -760,8 +975,10 @@ function generateSuggestionsInternal(
       suggestion.suggestion?.body ||
       '';
     const titleText = suggestion.title;
+    // An assigned action item is delivery ownership, not ownership ambiguity
+    const isAssignedActionItem = suggestion.type === 'action_item' && !!suggestion.payload.action_item?.assignee;
 
-    if (shouldSuppressProcessSentence(evidenceText) || shouldSuppressProcessSentence(titleText)) {
+    if (!isAssignedActionItem && (shouldSuppressProcessSentence(evidenceText) || shouldSuppressProcessSentence(titleText))) {
       debug.dropped_suggestions.push({
         section_id: suggestion.section_id,
         reason: 'PROCESS_NOISE',
@@ -867,6 +1084,7 @@ function generateSuggestionsInternal(
   const routingStats = computeRoutingStats(routedSuggestions);
   debug.routing_attached = routingStats.attached;
   debug.routing_create_new = routingStats.create_new;
+  debug.routing_ambiguous = routingStats.ambiguous;
 
   // ============================================
   // Stage 7: Title Quality Contract
@@ -883,19 +1101,26 @@ function generateSuggestionsInternal(
   //     a concrete delta token from evidence when the title is vague and the evidence
   //     contains one. Runs after the contract so we only enrich validated content, and
   //     before normalizeTitlePrefix so the prefix is attached cleanly in step 2.
+  //     The schedule delta is resolved against the meeting date first and attached to
+  //     payload.schedule_delta, so the title renders the actual dates.
   // 2. normalizeTitlePrefix        — guarantees the correct "Type:" prefix after any replacement
   // 3. truncateTitleSmart          — caps final length at 80 chars
   const UPDATE_TYPES = new Set(['project_update', 'plan_change']);
   const contractedSuggestions = routedSuggestions.map(s => {
+    const scheduleDelta = UPDATE_TYPES.has(s.type)
+      ? resolveSuggestionScheduleDelta(s, dateAnchor, dateConfig)
+      : null;
+    const payload = scheduleDelta ? { ...s.payload, schedule_delta: scheduleDelta } : s.payload;
     const enforcedTitle = enforceTitleContract(s.type, s.title, s.evidence_spans);
     const deltaEnrichedTitle = UPDATE_TYPES.has(s.type)
-      ? ensureUpdateTitleIncludesDelta(stripKnownPrefix(enforcedTitle), s.evidence_spans)
+      ? ensureUpdateTitleIncludesDelta(stripKnownPrefix(enforcedTitle), s.evidence_spans, scheduleDelta ?? undefined)
       : stripKnownPrefix(enforcedTitle);
     const prefixedTitle = normalizeTitlePrefix(s.type, deltaEnrichedTitle);
     const finalTitle = truncateTitleSmart(prefixedTitle, 80);
-    if (finalTitle === s.title) return s;
+    if (finalTitle === s.title) return payload === s.payload ? s : { ...s, payload };
     return {
       ...s,
+      payload,
       title: finalTitle,
       // Keep SuggestionContext.title in sync so the UI always reads the Stage-7
       // canonical title regardless of which field it inspects.
@@ -903,7 +1128,21 @@ function generateSuggestionsInternal(
     };
   });
 
-  return { result: buildResult(contractedSuggestions, noteHash, debug, finalConfig.enable_debug), sectionMap };
+  // ============================================
+  // Stage 7.5: Transcript Attribution
+  // ============================================
+  // For transcript notes, cite who said the evidence and when.
+  const attributedSuggestions = format === 'transcript'
+    ? attributeEvidenceSpans(contractedSuggestions, lines)
+    : contractedSuggestions;
+
+  // ============================================
+  // Stage 7.6: Evidence-Anchored Keys
+  // ============================================
+  // v2 keys survive title rewording; the v1 key moves to legacySuggestionKey.
+  const keyedSuggestions = anchorSuggestionKeys(attributedSuggestions, sections);
+
+  return { result: buildResult(keyedSuggestions, noteHash, debug, finalConfig.enable_debug), sectionMap };
 }
 
 /**
@@ -939,11 +1178,22 @@ export function adaptConvexNote(convexNote: {
   body: string;
   createdAt: number;
   title?: string;
+  source?: string;
+  importFileType?: string;
+  meetingAt?: number;
 }): NoteInput {
+  // Granola pastes and imported caption files are raw transcripts;
+  // everything else is auto-detected
+  const isTranscript =
+    convexNote.source === 'granola_manual' ||
+    convexNote.importFileType === 'vtt' ||
+    convexNote.importFileType === 'srt';
   return {
     note_id: convexNote._id,
     raw_markdown: convexNote.body,
     authored_at: new Date(convexNote.createdAt).toISOString(),
+    meeting_at: convexNote.meetingAt !== undefined ? new Date(convexNote.meetingAt).toISOString() : undefined,
+    format: isTranscript ? 'transcript' : undefined,
   };
 }
 
@@ -982,9 +1232,11 @@ export function suggestionToContent(suggestion: Suggestion): string {
  * Get a summary string for a suggestion (for display)
  */
 export function getSuggestionSummary(suggestion: Suggestion): string {
-  const routeInfo = suggestion.routing.create_new
-    ? '[New Initiative]'
-    : `[Update: ${suggestion.routing.attached_initiative_id}]`;
+  const routeInfo = suggestion.routing.ambiguous
+    ? `[Ambiguous: ${(suggestion.routing.candidates ?? []).map((c) => c.initiative_id).join(' | ')}]`
+    : suggestion.routing.create_new
+      ? '[New Initiative]'
+      : `[Update: ${suggestion.routing.attached_initiative_id}]`;
 
   return `${routeInfo} ${suggestion.title} (score: ${suggestion.scores.overall.toFixed(2)})`;
 }
@@ -0,0 +1,81 @@
+/**
+ * Suggestion Engine v2 - Evidence-Anchored Suggestion Keys
+ *
+ * Final suggestions are re-keyed with v2 keys (computeSuggestionKeyV2):
+ * the primary evidence span plus the section's heading path. The v1 key the
+ * pipeline used for dedupe is kept as legacySuggestionKey so decisions
+ * stored under it can be remapped.
+ */
+
+import type { Section, Suggestion } from './types';
+import { computeSuggestionKeyV2, getSuggestionKeyVersion } from '../suggestion-keys';
+
+/**
+ * Heading path per section ("Roadmap > Checkout > Payments"), built from the
+ * heading levels of the sections that precede it. Sections without a
+ * heading inherit their parent's path.
+ */
+export function computeHeadingPaths(sections: Section[]): Map<string, string> {
+  const paths = new Map<string, string>();
+  const stack: { level: number; heading: string }[] = [];
+
+  for (const section of sections) {
+    const heading = section.heading_text?.trim();
+    if (heading) {
+      const level = section.heading_level ?? 1;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, heading });
+    }
+    paths.set(section.section_id, stack.map((entry) => entry.heading).join(' > '));
+  }
+
+  return paths;
+}
+
+/**
+ * Text a suggestion's key is anchored on: its first evidence span from this
+ * note, or the title when there is no evidence.
+ */
+function primaryEvidenceText(suggestion: Suggestion): string {
+  const span = suggestion.evidence_spans.find(
+    (s) => (!s.note_id || s.note_id === suggestion.note_id) && s.text.trim().length > 0
+  );
+  return span?.text ?? suggestion.title;
+}
+
+/**
+ * Give each suggestion a v2 key and keep its v1 key as legacySuggestionKey.
+ *
+ * Same-type suggestions on the same evidence line would collide; those are
+ * disambiguated by title, then by order, so keys stay unique and
+ * deterministic.
+ */
+export function anchorSuggestionKeys(suggestions: Suggestion[], sections: Section[]): Suggestion[] {
+  const headingPaths = computeHeadingPaths(sections);
+  const used = new Set<string>();
+
+  return suggestions.map((suggestion) => {
+    const params = {
+      noteId: suggestion.note_id,
+      type: suggestion.type,
+      // Topic subsections ("<parent>__topic_<slug>__<n>") use their parent's path
+      headingPath: headingPaths.get(suggestion.section_id)
+        ?? headingPaths.get(suggestion.section_id.split('__')[0])
+        ?? suggestion.suggestion?.sourceHeading
+        ?? '',
+      evidenceText: primaryEvidenceText(suggestion),
+    };
+
+    let key = computeSuggestionKeyV2(params);
+    if (used.has(key)) key = computeSuggestionKeyV2({ ...params, disambiguator: suggestion.title });
+    for (let n = 2; used.has(key); n++) {
+      key = computeSuggestionKeyV2({ ...params, disambiguator: `${suggestion.title} ${n}` });
+    }
+    used.add(key);
+
+    const legacySuggestionKey = getSuggestionKeyVersion(suggestion.suggestionKey) === 1
+      ? suggestion.suggestionKey
+      : suggestion.legacySuggestionKey;
+    return { ...suggestion, suggestionKey: key, legacySuggestionKey };
+  });
+}
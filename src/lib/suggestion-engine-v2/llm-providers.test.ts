@@ -0,0 +1,326 @@
+/**
+ * LLM provider adapters
+ *
+ * OpenAI-compatible provider behind the LLMProvider interface, and the
+ * per-section classification run that falls back to rules on any failure.
+ *
+ * Tests:
+ *   1. validateJsonSchema / parseJsonResponse
+ *   2. OpenAICompatibleProvider: request shape, retries, timeout, bad output
+ *   3. classifySectionsForRun: cache, token budget, fallbacks
+ *   4. Pipeline: generateSuggestionsAsync / generateSuggestionsWithDebugAsync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  OpenAICompatibleProvider,
+  LLMProviderError,
+  LLMResponseCache,
+  validateJsonSchema,
+  parseJsonResponse,
+  registerLLMProvider,
+  unregisterLLMProvider,
+  getLLMResponseCache,
+} from './llmProviders';
+import { classifySectionsForRun, computeSectionHash } from './llmClassifiers';
+import type { LLMIntentResponse, LLMProvider, LLMUsage } from './llmClassifiers';
+import { generateSuggestions, generateSuggestionsAsync } from './index';
+import { generateSuggestionsWithDebugAsync } from './debugGenerator';
+import { preprocessNote, resetSectionCounter } from './preprocessing';
+import { resetSuggestionCounter } from './synthesis';
+import type { NoteInput } from './types';
+
+const INTENT: LLMIntentResponse = {
+  plan_change: 0.8,
+  new_workstream: 0.1,
+  status_informational: 0.1,
+  communication: 0,
+  research: 0,
+  calendar: 0,
+  micro_tasks: 0,
+  confidence: 0.9,
+};
+
+const NOTE: NoteInput = {
+  note_id: 'note-llm',
+  raw_markdown: `# Planning sync
+
+## Checkout
+- We need to push the checkout launch from March to April because payments are not ready.
+
+## Logistics
+- Alice will send the notes around after the call.
+`,
+};
+
+function completion(content: string, usage?: LLMUsage): Response {
+  return new Response(
+    JSON.stringify({ choices: [{ message: { content } }], ...(usage ? { usage } : {}) }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/** fetch stub that replays responses in order and records request bodies */
+function fetchSequence(...responses: (Response | Error | 'hang')[]) {
+  const requests: { url: string; body: Record<string, unknown>; headers: Record<string, string> }[] = [];
+  const impl = (async (url: string, init?: RequestInit) => {
+    requests.push({
+      url,
+      body: JSON.parse(String(init?.body)),
+      headers: init?.headers as Record<string, string>,
+    });
+    const next = responses.shift();
+    if (next === 'hang') {
+      return new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    }
+    if (next instanceof Error) throw next;
+    if (!next) throw new Error('No more responses');
+    return next;
+  }) as unknown as typeof fetch;
+  return { impl, requests };
+}
+
+function provider(fetchImpl: typeof fetch, extra: Partial<ConstructorParameters<typeof OpenAICompatibleProvider>[0]> = {}) {
+  return new OpenAICompatibleProvider({
+    base_url: 'http://localhost:11434/v1/',
+    model: 'test-model',
+    retry_delay_ms: 0,
+    fetch: fetchImpl,
+    ...extra,
+  });
+}
+
+/** Provider stub answering from a function of the prompt */
+class StubProvider implements LLMProvider {
+  readonly id = 'stub';
+  calls = 0;
+  last_usage: LLMUsage | null = null;
+  constructor(private readonly answer: (prompt: string) => LLMIntentResponse | Error) {}
+  async complete<T>(prompt: string): Promise<T> {
+    this.calls++;
+    this.last_usage = { prompt_tokens: 40, completion_tokens: 10, total_tokens: 50 };
+    const result = this.answer(prompt);
+    if (result instanceof Error) throw result;
+    return result as T;
+  }
+}
+
+function sectionsOf(note: NoteInput) {
+  resetSectionCounter();
+  return preprocessNote(note).sections;
+}
+
+// ============================================
+// Schema validation
+// ============================================
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      score: { type: 'number', minimum: 0, maximum: 1 },
+      kind: { type: 'string', enum: ['a', 'b'] },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['score', 'kind'],
+  };
+
+  it('accepts matching values', () => {
+    expect(validateJsonSchema({ score: 0.5, kind: 'a', tags: ['x'] }, schema)).toEqual([]);
+  });
+
+  it('reports missing, out-of-range and mistyped fields with paths', () => {
+    expect(validateJsonSchema({ score: 2, tags: [1] }, schema)).toEqual([
+      '$.kind: required',
+      '$.score: above maximum 1',
+      '$.tags[0]: expected string',
+    ]);
+    expect(validateJsonSchema([], schema)).toEqual(['$: expected object']);
+  });
+
+  it('parses fenced JSON and rejects prose', () => {
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(() => parseJsonResponse('Sure! Here you go')).toThrow(LLMProviderError);
+  });
+});
+
+// ============================================
+// OpenAICompatibleProvider
+// ============================================
+
+describe('OpenAICompatibleProvider', () => {
+  it('posts a chat completion and returns the validated JSON', async () => {
+    const { impl, requests } = fetchSequence(
+      completion(JSON.stringify(INTENT), { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 })
+    );
+    const llm = provider(impl, { api_key: 'secret' });
+
+    await expect(llm.complete('classify', { type: 'object', required: ['confidence'] })).resolves.toEqual(INTENT);
+    expect(llm.id).toBe('openai-compatible:test-model');
+    expect(llm.last_usage?.total_tokens).toBe(150);
+    expect(requests[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(requests[0].headers.Authorization).toBe('Bearer secret');
+    expect(requests[0].body).toMatchObject({ model: 'test-model', temperature: 0, response_format: { type: 'json_object' } });
+  });
+
+  it('retries server errors and malformed output, then succeeds', async () => {
+    const { impl, requests } = fetchSequence(
+      new Response('overloaded', { status: 503 }),
+      completion('not json'),
+      completion(JSON.stringify(INTENT))
+    );
+    await expect(provider(impl).complete('classify', {})).resolves.toEqual(INTENT);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const { impl, requests } = fetchSequence(new Response('bad request', { status: 400 }));
+    const error = await provider(impl).complete('classify', {}).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error).toMatchObject({ kind: 'http', status: 400, retryable: false });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('times out each attempt and reports the last error', async () => {
+    const { impl } = fetchSequence('hang', 'hang');
+    const error = await provider(impl, { timeout_ms: 5, max_retries: 1 }).complete('classify', {}).catch((e) => e);
+    expect(error).toMatchObject({ kind: 'timeout' });
+  });
+
+  it('rejects responses that do not match the schema', async () => {
+    const { impl } = fetchSequence(completion('{"confidence": 3}'));
+    const error = await provider(impl, { max_retries: 0 })
+      .complete('classify', { type: 'object', properties: { confidence: { type: 'number', maximum: 1 } } })
+      .catch((e) => e);
+    expect(error).toMatchObject({ kind: 'schema' });
+  });
+});
+
+// ============================================
+// Classification run
+// ============================================
+
+describe('classifySectionsForRun', () => {
+  it('classifies each section once and serves repeats from the cache', async () => {
+    const sections = sectionsOf(NOTE);
+    const stub = new StubProvider(() => INTENT);
+
+    const first = await classifySectionsForRun(sections, stub);
+    expect(first.provider_id).toBe('stub');
+    expect(first.calls).toBe(sections.length);
+    expect(first.tokens_used).toBe(50 * sections.length);
+    expect(Object.keys(first.intents)).toContain(computeSectionHash(sections[0]));
+    expect(computeSectionHash(sections[0])).toMatch(/^[0-9a-f]{40}$/);
+
+    const second = await classifySectionsForRun(sectionsOf(NOTE), stub);
+    expect(second.calls).toBe(0);
+    expect(second.cache_hits).toBe(sections.length);
+    expect(second.sections.every((s) => s.source === 'cache')).toBe(true);
+    expect(stub.calls).toBe(sections.length);
+  });
+
+  it('falls back per section on errors and low confidence', async () => {
+    const sections = sectionsOf(NOTE);
+    const stub = new StubProvider((prompt) =>
+      prompt.includes('Logistics')
+        ? new LLMProviderError('schema', 'bad output')
+        : { ...INTENT, confidence: 0.1 }
+    );
+
+    const run = await classifySectionsForRun(sections, stub, { use_cache: false });
+    expect(run.fallbacks).toBe(sections.length);
+    expect(run.intents).toEqual({});
+    const reasons = run.sections.map((s) => s.fallback_reason);
+    expect(reasons).toContain('schema');
+    expect(reasons).toContain('low_confidence');
+  });
+
+  it('stops calling the provider once the token budget is spent', async () => {
+    const sections = sectionsOf(NOTE);
+    const stub = new StubProvider(() => INTENT);
+
+    const run = await classifySectionsForRun(sections, stub, { token_budget: 10, use_cache: false });
+    expect(stub.calls).toBe(0);
+    expect(run.sections.every((s) => s.fallback_reason === 'budget_exhausted')).toBe(true);
+  });
+
+  it('keeps one cache per provider instance', () => {
+    const a = new StubProvider(() => INTENT);
+    expect(getLLMResponseCache(a)).toBe(getLLMResponseCache(a));
+    expect(getLLMResponseCache(a)).not.toBe(getLLMResponseCache(new StubProvider(() => INTENT)));
+    expect(new LLMResponseCache().stats()).toEqual({ size: 0, hits: 0, misses: 0 });
+  });
+});
+
+// ============================================
+// Pipeline
+// ============================================
+
+describe('LLM classification in the pipeline', () => {
+  beforeEach(() => {
+    resetSectionCounter();
+    resetSuggestionCounter();
+  });
+
+  afterEach(() => {
+    unregisterLLMProvider('test-llm');
+  });
+
+  it('is a no-op unless use_llm_classifiers is set', async () => {
+    registerLLMProvider('test-llm', new StubProvider(() => INTENT));
+    const rules = generateSuggestions(NOTE, {}, { enable_debug: true });
+    resetSectionCounter();
+    resetSuggestionCounter();
+    const result = await generateSuggestionsAsync(NOTE, { llm_model: 'test-llm' }, { enable_debug: true });
+
+    expect(result.debug?.llm).toBeUndefined();
+    expect(result.suggestions.map((s) => s.title)).toEqual(rules.suggestions.map((s) => s.title));
+  });
+
+  it('is skipped when the llm_classifiers feature flag is off', async () => {
+    const stub = new StubProvider(() => INTENT);
+    registerLLMProvider('test-llm', stub);
+
+    const result = await generateSuggestionsAsync(
+      NOTE,
+      { llm_model: 'test-llm', feature_flags: { llm_classifiers: false } },
+      { enable_debug: true, use_llm_classifiers: true }
+    );
+
+    expect(result.debug?.llm).toBeUndefined();
+  });
+
+  it('records the run in debug info when a provider is configured', async () => {
+    const stub = new StubProvider(() => INTENT);
+    registerLLMProvider('test-llm', stub);
+
+    const result = await generateSuggestionsAsync(
+      NOTE,
+      { llm_model: 'test-llm' },
+      { enable_debug: true, use_llm_classifiers: true, llm_token_budget: 5000 }
+    );
+
+    expect(result.debug?.llm?.provider_id).toBe('stub');
+    expect(result.debug?.llm?.token_budget).toBe(5000);
+    expect(result.debug?.llm?.sections.length).toBeGreaterThan(0);
+  });
+
+  it('surfaces fallbacks on the debug run and section metadata', async () => {
+    registerLLMProvider('test-llm', new StubProvider(() => new LLMProviderError('timeout', 'slow')));
+
+    const { debugRun } = await generateSuggestionsWithDebugAsync(
+      NOTE,
+      { llm_model: 'test-llm' },
+      { use_llm_classifiers: true },
+      { verbosity: 'REDACTED' }
+    );
+
+    expect(debugRun?.llm?.providerId).toBe('stub');
+    expect(debugRun?.llm?.fallbacks.length).toBeGreaterThan(0);
+    expect(debugRun?.llm?.fallbacks.every((f) => f.reason === 'timeout')).toBe(true);
+    const metadata = debugRun?.sections.map((s) => s.metadata?.llmFallbackReason);
+    expect(metadata).toContain('timeout');
+  });
+});
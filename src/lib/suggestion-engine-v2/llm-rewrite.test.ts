@@ -0,0 +1,233 @@
+/**
+ * LLM title/body rewrite
+ *
+ * Optional polish pass after Stage 7. A rewrite is applied only when it
+ * passes the title contract and every entity/number is in the evidence.
+ *
+ * Tests:
+ *   1. Grounding terms and the grounding check
+ *   2. rewriteSuggestionsWithLLM: apply, reject, fall back
+ *   3. Pipeline: generateSuggestionsAsync / generateSuggestionsWithDebugAsync
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { extractGroundingTerms, findUngroundedTerms, rewriteSuggestionsWithLLM } from './llmRewrite';
+import type { LLMRewriteResponse } from './llmRewrite';
+import type { LLMProvider, LLMUsage } from './llmClassifiers';
+import { LLMProviderError, registerLLMProvider, unregisterLLMProvider } from './llmProviders';
+import { generateSuggestionsAsync } from './index';
+import { generateSuggestionsWithDebugAsync } from './debugGenerator';
+import { resetSectionCounter } from './preprocessing';
+import { resetSuggestionCounter } from './synthesis';
+import type { NoteInput, Suggestion } from './types';
+
+const EVIDENCE = [
+  { start_line: 3, end_line: 3, text: 'We need to push the Checkout launch from March 3 to April 14 because EMEA payments are not ready.' },
+];
+
+function makeSuggestion(overrides: Partial<Suggestion> = {}): Suggestion {
+  return {
+    suggestion_id: 'sug-1',
+    note_id: 'note-1',
+    section_id: 'sec-1',
+    type: 'project_update',
+    title: 'Update: Push checkout launch',
+    payload: { after_description: 'Launch moves out.' },
+    evidence_spans: EVIDENCE,
+    scores: {
+      section_actionability: 0.8,
+      type_choice_confidence: 0.8,
+      synthesis_confidence: 0.8,
+      overall: 0.8,
+    },
+    routing: { create_new: true },
+    suggestionKey: 'key-1',
+    suggestion: {
+      title: 'Update: Push checkout launch',
+      body: 'We need to push the Checkout launch from March 3 to April 14.',
+      sourceSectionId: 'sec-1',
+      sourceHeading: 'Checkout',
+    },
+    ...overrides,
+  } as Suggestion;
+}
+
+/** Provider stub answering from a function of the prompt */
+class StubProvider implements LLMProvider {
+  readonly id = 'stub';
+  calls = 0;
+  last_usage: LLMUsage | null = null;
+  constructor(private readonly answer: (prompt: string) => LLMRewriteResponse | Error) {}
+  async complete<T>(prompt: string): Promise<T> {
+    this.calls++;
+    this.last_usage = { prompt_tokens: 80, completion_tokens: 20, total_tokens: 100 };
+    const result = this.answer(prompt);
+    if (result instanceof Error) throw result;
+    return result as T;
+  }
+}
+
+// ============================================
+// Grounding
+// ============================================
+
+describe('extractGroundingTerms', () => {
+  it('collects numbers, acronyms, mentions and mid-sentence proper nouns', () => {
+    const terms = extractGroundingTerms('Move the Checkout launch to April 14 for EMEA. Ask @dana about Q3 pricing ($40k).');
+    expect(terms).toEqual(expect.arrayContaining(['Checkout', 'April', '14', 'EMEA', 'dana', 'Q3', '$40k']));
+    expect(terms).not.toContain('Move');
+    expect(terms).not.toContain('Ask');
+  });
+
+  it('reports only terms missing from the evidence', () => {
+    expect(findUngroundedTerms('Delay Checkout to April 14', EVIDENCE)).toEqual([]);
+    expect(findUngroundedTerms('Delay Checkout to April 21 pending Stripe', EVIDENCE)).toEqual(['21', 'Stripe']);
+  });
+});
+
+// ============================================
+// Rewrite
+// ============================================
+
+describe('rewriteSuggestionsWithLLM', () => {
+  it('applies a grounded rewrite and keeps the suggestion key', async () => {
+    const stub = new StubProvider(() => ({
+      title: 'Delay Checkout launch to April 14',
+      body: 'EMEA payments are not ready, so the launch moves from March 3 to April 14.',
+    }));
+
+    const { suggestions, run } = await rewriteSuggestionsWithLLM([makeSuggestion()], stub, { use_cache: false });
+
+    expect(suggestions[0].title).toBe('Update: Delay Checkout launch to April 14');
+    expect(suggestions[0].suggestion?.title).toBe(suggestions[0].title);
+    expect(suggestions[0].suggestion?.body).toContain('EMEA payments');
+    expect(suggestions[0].suggestionKey).toBe('key-1');
+    expect(run).toMatchObject({ provider_id: 'stub', calls: 1, rewritten: 1, fallbacks: 0, tokens_used: 100 });
+    expect(run.outcomes[0]).toMatchObject({ applied: true, rule_title: 'Update: Push checkout launch' });
+  });
+
+  it('keeps the rule output when the rewrite adds facts', async () => {
+    const stub = new StubProvider(() => ({ title: 'Delay Checkout to April 21', body: 'Blocked on Stripe.' }));
+    const original = makeSuggestion();
+
+    const { suggestions, run } = await rewriteSuggestionsWithLLM([original], stub, { use_cache: false });
+
+    expect(suggestions[0]).toBe(original);
+    expect(run.outcomes[0]).toMatchObject({
+      applied: false,
+      fallback_reason: 'ungrounded',
+      ungrounded_terms: ['21', 'Stripe'],
+      rewrite_title: 'Update: Delay Checkout to April 21',
+    });
+  });
+
+  it('keeps the rule output when the rewritten title fails the contract', async () => {
+    const stub = new StubProvider(() => ({ title: '', body: 'Launch moves.' }));
+    const { run } = await rewriteSuggestionsWithLLM([makeSuggestion()], stub, { use_cache: false });
+    expect(run.outcomes[0].fallback_reason).toBe('title_contract');
+  });
+
+  it('falls back on provider errors and once the budget is spent', async () => {
+    const failing = new StubProvider(() => new LLMProviderError('timeout', 'slow'));
+    const failed = await rewriteSuggestionsWithLLM([makeSuggestion()], failing, { use_cache: false });
+    expect(failed.run.outcomes[0]).toMatchObject({ applied: false, fallback_reason: 'timeout', error: 'slow' });
+
+    const stub = new StubProvider(() => ({ title: 'Delay Checkout launch', body: '' }));
+    const broke = await rewriteSuggestionsWithLLM([makeSuggestion()], stub, { token_budget: 10, use_cache: false });
+    expect(stub.calls).toBe(0);
+    expect(broke.run.outcomes[0].fallback_reason).toBe('budget_exhausted');
+  });
+
+  it('serves repeated suggestions from the cache', async () => {
+    const stub = new StubProvider(() => ({ title: 'Delay Checkout launch', body: '' }));
+    await rewriteSuggestionsWithLLM([makeSuggestion()], stub);
+    const { run } = await rewriteSuggestionsWithLLM([makeSuggestion()], stub);
+    expect(stub.calls).toBe(1);
+    expect(run.cache_hits).toBe(1);
+    expect(run.outcomes[0].source).toBe('cache');
+  });
+});
+
+// ============================================
+// Pipeline
+// ============================================
+
+const NOTE: NoteInput = {
+  note_id: 'note-rewrite',
+  raw_markdown: `# Planning sync
+
+## Checkout
+- We need to push the checkout launch from March to April because payments are not ready.
+`,
+};
+
+/** Echoes the rule title back with a plain body, which is always grounded */
+const echoProvider = () =>
+  new StubProvider((prompt) => ({
+    title: prompt.match(/^Current title: (.*)$/m)?.[1] ?? '',
+    body: 'Reworded for clarity.',
+  }));
+
+describe('LLM rewrite in the pipeline', () => {
+  beforeEach(() => {
+    resetSectionCounter();
+    resetSuggestionCounter();
+  });
+
+  afterEach(() => {
+    unregisterLLMProvider('test-rewrite');
+  });
+
+  it('only runs when use_llm_rewrite is set', async () => {
+    const stub = echoProvider();
+    registerLLMProvider('test-rewrite', stub);
+
+    const result = await generateSuggestionsAsync(NOTE, { llm_model: 'test-rewrite' }, { enable_debug: true });
+    expect(stub.calls).toBe(0);
+    expect(result.debug?.llm_rewrite).toBeUndefined();
+  });
+
+  it('is skipped when the llm_rewrite feature flag is off', async () => {
+    const stub = echoProvider();
+    registerLLMProvider('test-rewrite', stub);
+
+    const result = await generateSuggestionsAsync(
+      NOTE,
+      { llm_model: 'test-rewrite', feature_flags: { llm_rewrite: false } },
+      { enable_debug: true, use_llm_rewrite: true }
+    );
+    expect(stub.calls).toBe(0);
+    expect(result.debug?.llm_rewrite).toBeUndefined();
+  });
+
+  it('rewrites emitted suggestions and records the run', async () => {
+    registerLLMProvider('test-rewrite', echoProvider());
+
+    const result = await generateSuggestionsAsync(
+      NOTE,
+      { llm_model: 'test-rewrite' },
+      { enable_debug: true, use_llm_rewrite: true }
+    );
+
+    expect(result.suggestions.length).toBeGreaterThan(0);
+    expect(result.suggestions.every((s) => s.suggestion?.body === 'Reworded for clarity.')).toBe(true);
+    expect(result.debug?.llm_rewrite?.rewritten).toBe(result.suggestions.length);
+  });
+
+  it('shows rule output and rewrite side by side on the debug run', async () => {
+    registerLLMProvider('test-rewrite', echoProvider());
+
+    const { suggestions, debugRun } = await generateSuggestionsWithDebugAsync(
+      NOTE,
+      { llm_model: 'test-rewrite' },
+      { use_llm_rewrite: true },
+      { verbosity: 'REDACTED' }
+    );
+
+    const items = debugRun?.llmRewrite?.items ?? [];
+    expect(items).toHaveLength(suggestions.length);
+    expect(items[0]).toMatchObject({ applied: true, rewriteBody: 'Reworded for clarity.' });
+    expect(items[0].ruleTitle).toBe(suggestions[0].title);
+    expect(items[0].ruleBody).not.toBe('Reworded for clarity.');
+  });
+});
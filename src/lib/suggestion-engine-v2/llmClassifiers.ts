@@ -14,7 +14,15 @@ import type {
   Section,
   IntentClassification,
   SectionType,
+  NoteInput,
+  GeneratorContext,
+  GeneratorConfig,
 } from './types';
+import { DEFAULT_CONFIG } from './types';
+import { sha1Hex } from '../suggestion-keys';
+import { preprocessNote, resetSectionCounter } from './preprocessing';
+import type { LLMProviderErrorKind } from './llmProviders';
+import { LLMProviderError, getLLMProvider, getLLMResponseCache } from './llmProviders';
 
 // ============================================
 // LLM Response Types
@@ -50,10 +58,23 @@ export interface LLMTypeResponse {
 // LLM Provider Interface
 // ============================================
 
+/**
+ * Token usage reported for one completion
+ */
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
 /**
  * Interface for LLM providers (OpenAI, Anthropic, local, etc.)
  */
 export interface LLMProvider {
+  /** Stable identifier (provider + model), recorded in debug output */
+  readonly id?: string;
+  /** Usage of the most recent complete() call, when the provider reports it */
+  readonly last_usage?: LLMUsage | null;
   /**
    * Call the LLM with a prompt and get structured JSON response
    */
@@ -137,6 +158,55 @@ Return JSON with exactly these fields:
 // LLM Classification Functions
 // ============================================
 
+const INTENT_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    plan_change: { type: 'number', minimum: 0, maximum: 1 },
+    new_workstream: { type: 'number', minimum: 0, maximum: 1 },
+    status_informational: { type: 'number', minimum: 0, maximum: 1 },
+    communication: { type: 'number', minimum: 0, maximum: 1 },
+    research: { type: 'number', minimum: 0, maximum: 1 },
+    calendar: { type: 'number', minimum: 0, maximum: 1 },
+    micro_tasks: { type: 'number', minimum: 0, maximum: 1 },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    reasoning: { type: 'string' },
+  },
+  required: ['plan_change', 'new_workstream', 'status_informational', 'communication', 'research', 'calendar', 'micro_tasks', 'confidence'],
+};
+
+/**
+ * Text sent to the LLM for a section (heading + body)
+ */
+export function getSectionPromptText(section: Section): string {
+  return `${section.heading_text ? `## ${section.heading_text}\n\n` : ''}${section.raw_text}`;
+}
+
+function buildIntentPrompt(section: Section): string {
+  return INTENT_CLASSIFICATION_PROMPT.replace('{{SECTION_TEXT}}', getSectionPromptText(section));
+}
+
+function toIntentClassification(response: LLMIntentResponse): IntentClassification {
+  return {
+    plan_change: response.plan_change,
+    new_workstream: response.new_workstream,
+    status_informational: response.status_informational,
+    communication: response.communication,
+    research: response.research,
+    calendar: response.calendar,
+    micro_tasks: response.micro_tasks,
+  };
+}
+
+/**
+ * Request intent scores for a section. Throws on provider failure.
+ */
+export async function requestIntentFromLLM(
+  section: Section,
+  llmProvider: LLMProvider
+): Promise<LLMIntentResponse> {
+  return llmProvider.complete<LLMIntentResponse>(buildIntentPrompt(section), INTENT_RESPONSE_SCHEMA);
+}
+
 /**
  * Classify section intent using LLM
  */
@@ -144,38 +214,9 @@ export async function classifyIntentWithLLM(
   section: Section,
   llmProvider: LLMProvider
 ): Promise<IntentClassification> {
-  const sectionText = `${section.heading_text ? `## ${section.heading_text}\n\n` : ''}${section.raw_text}`;
-
-  const prompt = INTENT_CLASSIFICATION_PROMPT.replace('{{SECTION_TEXT}}', sectionText);
-
-  const schema = {
-    type: 'object',
-    properties: {
-      plan_change: { type: 'number', minimum: 0, maximum: 1 },
-      new_workstream: { type: 'number', minimum: 0, maximum: 1 },
-      status_informational: { type: 'number', minimum: 0, maximum: 1 },
-      communication: { type: 'number', minimum: 0, maximum: 1 },
-      research: { type: 'number', minimum: 0, maximum: 1 },
-      calendar: { type: 'number', minimum: 0, maximum: 1 },
-      micro_tasks: { type: 'number', minimum: 0, maximum: 1 },
-      confidence: { type: 'number', minimum: 0, maximum: 1 },
-      reasoning: { type: 'string' },
-    },
-    required: ['plan_change', 'new_workstream', 'status_informational', 'communication', 'research', 'calendar', 'micro_tasks', 'confidence'],
-  };
-
   try {
-    const response = await llmProvider.complete<LLMIntentResponse>(prompt, schema);
-
-    return {
-      plan_change: response.plan_change,
-      new_workstream: response.new_workstream,
-      status_informational: response.status_informational,
-      communication: response.communication,
-      research: response.research,
-      calendar: response.calendar,
-      micro_tasks: response.micro_tasks,
-    };
+    const response = await requestIntentFromLLM(section, llmProvider);
+    return toIntentClassification(response);
   } catch (error) {
     // Return neutral scores on failure - caller should fall back to rule-based
     console.warn('LLM intent classification failed, returning neutral scores:', error);
@@ -204,10 +245,8 @@ export async function classifyTypeWithLLM(
   p_mutation: number;
   p_artifact: number;
 }> {
-  const sectionText = `${section.heading_text ? `## ${section.heading_text}\n\n` : ''}${section.raw_text}`;
-
   const prompt = TYPE_CLASSIFICATION_PROMPT
-    .replace('{{SECTION_TEXT}}', sectionText)
+    .replace('{{SECTION_TEXT}}', getSectionPromptText(section))
     .replace('{{PLAN_CHANGE}}', intent.plan_change.toFixed(2))
     .replace('{{NEW_WORKSTREAM}}', intent.new_workstream.toFixed(2));
 
@@ -248,6 +287,9 @@ export async function classifyTypeWithLLM(
 // Hybrid Classification (LLM + Rule-based)
 // ============================================
 
+/** Below this self-reported confidence the LLM intent is ignored */
+export const MIN_LLM_CONFIDENCE = 0.3;
+
 /**
  * Blend LLM and rule-based intent scores
  *
@@ -261,7 +303,7 @@ export function blendIntentScores(
   ruleIntent: IntentClassification,
   llmConfidence: number = 0.5
 ): IntentClassification {
-  if (!llmIntent || llmConfidence < 0.3) {
+  if (!llmIntent || llmConfidence < MIN_LLM_CONFIDENCE) {
     // Fall back to rule-based
     return ruleIntent;
   }
@@ -281,6 +323,177 @@ export function blendIntentScores(
   };
 }
 
+// ============================================
+// Classification Run (budget, cache, fallback)
+// ============================================
+
+/** Default token budget for one generator run */
+export const DEFAULT_LLM_TOKEN_BUDGET = 20000;
+
+/** Completion tokens reserved per call when checking the budget */
+export const RESERVED_COMPLETION_TOKENS = 200;
+
+/**
+ * How one section was classified in an LLM run
+ */
+export interface LLMSectionOutcome {
+  section_id: string;
+  section_hash: string;
+  source: 'llm' | 'cache' | 'rules';
+  /** LLM self-reported confidence (llm / cache sources) */
+  confidence?: number;
+  /** Tokens charged to the run budget for this section */
+  tokens: number;
+  /** Why the section fell back to the rule-based classifier */
+  fallback_reason?: LLMProviderErrorKind | 'low_confidence';
+  error?: string;
+}
+
+/**
+ * Result of classifying a note's sections with an LLM.
+ *
+ * Plain JSON (no Maps) so it can be stored with debug output.
+ */
+export interface LLMClassificationRun {
+  provider_id: string;
+  token_budget: number;
+  tokens_used: number;
+  calls: number;
+  cache_hits: number;
+  fallbacks: number;
+  sections: LLMSectionOutcome[];
+  /** LLM intent and confidence by section hash; fallback sections are absent */
+  intents: Record<string, { intent: IntentClassification; confidence: number }>;
+}
+
+export interface LLMRunOptions {
+  /** Max tokens for the whole run. Default: DEFAULT_LLM_TOKEN_BUDGET */
+  token_budget?: number;
+  /** Reuse responses across runs. Default: true (shared per-provider cache) */
+  use_cache?: boolean;
+}
+
+/**
+ * Hash used to key LLM intents and cached responses for a section.
+ * SHA-1 of the prompt text; a 32-bit hash collides often enough across
+ * cached sections to serve one section another's intent.
+ */
+export function computeSectionHash(section: Section): string {
+  return sha1Hex(getSectionPromptText(section));
+}
+
+/** Rough token count (~4 chars per token) when the provider reports no usage */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Classify section intents with an LLM under a token budget.
+ *
+ * Sections run one at a time so the budget is enforced exactly. A section
+ * falls back to the rule-based classifier (no entry in `intents`) when the
+ * budget would be exceeded, the provider fails after its retries, or the
+ * model reports confidence below MIN_LLM_CONFIDENCE. Never throws.
+ */
+export async function classifySectionsForRun(
+  sections: Section[],
+  llmProvider: LLMProvider,
+  options: LLMRunOptions = {}
+): Promise<LLMClassificationRun> {
+  const cache = options.use_cache === false ? null : getLLMResponseCache(llmProvider);
+  const run: LLMClassificationRun = {
+    provider_id: llmProvider.id ?? 'unknown',
+    token_budget: options.token_budget ?? DEFAULT_LLM_TOKEN_BUDGET,
+    tokens_used: 0,
+    calls: 0,
+    cache_hits: 0,
+    fallbacks: 0,
+    sections: [],
+    intents: {},
+  };
+
+  for (const section of sections) {
+    const sectionHash = computeSectionHash(section);
+    const outcome: LLMSectionOutcome = {
+      section_id: section.section_id,
+      section_hash: sectionHash,
+      source: 'rules',
+      tokens: 0,
+    };
+    run.sections.push(outcome);
+
+    const cacheKey = `intent:${sectionHash}`;
+    let response = cache?.get<LLMIntentResponse>(cacheKey);
+    if (response) {
+      run.cache_hits++;
+      outcome.source = 'cache';
+    } else {
+      const prompt = buildIntentPrompt(section);
+      const estimate = estimateTokens(prompt) + RESERVED_COMPLETION_TOKENS;
+      if (run.tokens_used + estimate > run.token_budget) {
+        outcome.fallback_reason = 'budget_exhausted';
+        outcome.error = `Needs ~${estimate} tokens, ${run.token_budget - run.tokens_used} left`;
+        run.fallbacks++;
+        continue;
+      }
+
+      run.calls++;
+      try {
+        response = await llmProvider.complete<LLMIntentResponse>(prompt, INTENT_RESPONSE_SCHEMA);
+        outcome.tokens = llmProvider.last_usage?.total_tokens
+          ?? estimateTokens(prompt + JSON.stringify(response));
+        outcome.source = 'llm';
+        cache?.set(cacheKey, response);
+      } catch (error) {
+        outcome.tokens = estimateTokens(prompt);
+        outcome.fallback_reason = error instanceof LLMProviderError ? error.kind : 'network';
+        outcome.error = error instanceof Error ? error.message : String(error);
+      } finally {
+        run.tokens_used += outcome.tokens;
+      }
+      if (!response) {
+        run.fallbacks++;
+        continue;
+      }
+    }
+
+    outcome.confidence = response.confidence;
+    if (response.confidence < MIN_LLM_CONFIDENCE) {
+      outcome.source = 'rules';
+      outcome.fallback_reason = 'low_confidence';
+      run.fallbacks++;
+      continue;
+    }
+    run.intents[sectionHash] = { intent: toIntentClassification(response), confidence: response.confidence };
+  }
+
+  return run;
+}
+
+/**
+ * Classify the note's sections with the configured LLM provider.
+ *
+ * Returns null (rule-based classification only) when use_llm_classifiers is
+ * false, the llm_classifiers feature flag is off, or context.llm_model
+ * resolves to no registered provider. Provider failures never throw:
+ * affected sections are recorded as fallbacks.
+ */
+export async function runLLMClassification(
+  note: NoteInput,
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>
+): Promise<LLMClassificationRun | null> {
+  if (!(config?.use_llm_classifiers ?? DEFAULT_CONFIG.use_llm_classifiers)) return null;
+  if (context?.feature_flags?.llm_classifiers === false) return null;
+  const provider = context?.llm_model ? getLLMProvider(context.llm_model) : null;
+  if (!provider) return null;
+
+  // Same section ids as the pipeline run that consumes this result
+  resetSectionCounter();
+  const { sections } = preprocessNote(note);
+  return classifySectionsForRun(sections, provider, {
+    token_budget: config?.llm_token_budget ?? DEFAULT_LLM_TOKEN_BUDGET,
+  });
+}
+
 // ============================================
 // Mock LLM Provider (for testing)
 // ============================================
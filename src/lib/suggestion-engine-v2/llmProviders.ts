@@ -0,0 +1,353 @@
+/**
+ * Suggestion Engine v2 - LLM Providers
+ *
+ * Production adapters behind the LLMProvider interface (llmClassifiers.ts):
+ * - Provider registry keyed by GeneratorContext.llm_model
+ * - OpenAI-compatible chat completions adapter. Any server that speaks
+ *   POST /chat/completions works, so a local llama.cpp or Ollama server can
+ *   stand in for a hosted model.
+ * - JSON-schema validation of responses (the subset our prompts use)
+ * - Per-provider response cache keyed by section hash
+ *
+ * Providers throw LLMProviderError; the classification run
+ * (classifySectionsForRun) turns every error into a rule-based fallback.
+ */
+
+import type { LLMProvider, LLMUsage } from './llmClassifiers';
+
+// ============================================
+// Errors
+// ============================================
+
+export type LLMProviderErrorKind =
+  | 'timeout'
+  | 'network'
+  | 'http'
+  | 'invalid_json'
+  | 'schema'
+  | 'budget_exhausted';
+
+/**
+ * Thrown by providers (and the token budget) when no usable response exists.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    readonly kind: LLMProviderErrorKind,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  /** Worth another attempt: timeouts, network errors, 429 / 5xx, malformed output */
+  get retryable(): boolean {
+    if (this.kind === 'http') return this.status === 429 || (this.status ?? 0) >= 500;
+    return this.kind !== 'budget_exhausted';
+  }
+}
+
+// ============================================
+// Provider Registry
+// ============================================
+
+const providerRegistry = new Map<string, LLMProvider>();
+
+/**
+ * Register (or replace) an LLM provider under a name.
+ * Names match GeneratorContext.llm_model.
+ */
+export function registerLLMProvider(name: string, provider: LLMProvider): void {
+  providerRegistry.set(name, provider);
+}
+
+/**
+ * Look up a registered provider. Returns null for unknown names.
+ */
+export function getLLMProvider(name: string): LLMProvider | null {
+  return providerRegistry.get(name) ?? null;
+}
+
+/**
+ * Remove a provider (e.g. when its endpoint is no longer configured)
+ */
+export function unregisterLLMProvider(name: string): void {
+  providerRegistry.delete(name);
+}
+
+// ============================================
+// JSON Schema Validation
+// ============================================
+
+/**
+ * Validate a value against a JSON schema.
+ *
+ * Supports the subset our prompts use: type (object, number, integer,
+ * string, boolean, array), properties, required, enum, minimum, maximum,
+ * items. Returns a list of errors; empty means valid.
+ */
+export function validateJsonSchema(value: unknown, schema: object, path: string = '$'): string[] {
+  const s = schema as {
+    type?: string;
+    properties?: Record<string, object>;
+    required?: string[];
+    enum?: unknown[];
+    minimum?: number;
+    maximum?: number;
+    items?: object;
+  };
+  const errors: string[] = [];
+
+  if (s.enum && !s.enum.includes(value)) {
+    errors.push(`${path}: expected one of ${s.enum.map((e) => JSON.stringify(e)).join(', ')}`);
+    return errors;
+  }
+
+  switch (s.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of s.required ?? []) {
+        if (!(key in record)) errors.push(`${path}.${key}: required`);
+      }
+      for (const [key, propertySchema] of Object.entries(s.properties ?? {})) {
+        if (key in record) errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+      break;
+    }
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path}: expected number`];
+      if (s.type === 'integer' && !Number.isInteger(value)) errors.push(`${path}: expected integer`);
+      if (s.minimum !== undefined && value < s.minimum) errors.push(`${path}: below minimum ${s.minimum}`);
+      if (s.maximum !== undefined && value > s.maximum) errors.push(`${path}: above maximum ${s.maximum}`);
+      break;
+    case 'string':
+      if (typeof value !== 'string') errors.push(`${path}: expected string`);
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${path}: expected boolean`);
+      break;
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected array`];
+      if (s.items) {
+        value.forEach((item, i) => errors.push(...validateJsonSchema(item, s.items as object, `${path}[${i}]`)));
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Parse model output as JSON, tolerating a ```json fence around it
+ */
+export function parseJsonResponse(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced ? fenced[1] : content).trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new LLMProviderError('invalid_json', `Response is not JSON: ${text.slice(0, 80)}`);
+  }
+}
+
+// ============================================
+// OpenAI-compatible Provider
+// ============================================
+
+export interface OpenAICompatibleProviderOptions {
+  /** Base URL up to and including the version, e.g. http://localhost:11434/v1 */
+  base_url: string;
+  model: string;
+  /** Sent as a Bearer token when set; local servers usually need none */
+  api_key?: string;
+  /** Per-attempt timeout. Default: 15000 */
+  timeout_ms?: number;
+  /** Attempts after the first for retryable errors. Default: 2 */
+  max_retries?: number;
+  /** Delay before retry n is retry_delay_ms * 2^(n-1). Default: 500 */
+  retry_delay_ms?: number;
+  /** Default: 0, so the same section classifies the same way */
+  temperature?: number;
+  /** Completion token cap per request. Default: 400 */
+  max_tokens?: number;
+  /** Injected for tests; defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+const SYSTEM_PROMPT =
+  'You classify meeting notes for a product planning tool. ' +
+  'Reply with a single JSON object that matches the requested fields. No prose.';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+/**
+ * LLMProvider for any OpenAI-compatible /chat/completions endpoint.
+ *
+ * Each complete() call retries timeouts, network errors, 429 / 5xx and
+ * responses that fail JSON parsing or schema validation, then throws the
+ * last LLMProviderError.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: string;
+  last_usage: LLMUsage | null = null;
+
+  private readonly endpoint: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: OpenAICompatibleProviderOptions) {
+    this.id = `openai-compatible:${options.model}`;
+    this.endpoint = `${options.base_url.replace(/\/+$/, '')}/chat/completions`;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async complete<T>(prompt: string, schema: object): Promise<T> {
+    const maxRetries = this.options.max_retries ?? 2;
+    const retryDelayMs = this.options.retry_delay_ms ?? 500;
+    let lastError: LLMProviderError | undefined;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1)));
+      }
+      try {
+        return await this.attempt<T>(prompt, schema);
+      } catch (error) {
+        lastError = error instanceof LLMProviderError
+          ? error
+          : new LLMProviderError('network', error instanceof Error ? error.message : String(error));
+        if (!lastError.retryable) break;
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async attempt<T>(prompt: string, schema: object): Promise<T> {
+    const timeoutMs = this.options.timeout_ms ?? 15000;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.api_key ? { Authorization: `Bearer ${this.options.api_key}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          temperature: this.options.temperature ?? 0,
+          max_tokens: this.options.max_tokens ?? 400,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: prompt },
+          ],
+        }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new LLMProviderError('timeout', `No response within ${timeoutMs}ms`);
+      }
+      throw new LLMProviderError('network', error instanceof Error ? error.message : String(error));
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw new LLMProviderError('http', `${this.endpoint} returned ${response.status}`, response.status);
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    const usage = body.usage;
+    this.last_usage = usage?.total_tokens !== undefined
+      ? {
+          prompt_tokens: usage.prompt_tokens ?? 0,
+          completion_tokens: usage.completion_tokens ?? 0,
+          total_tokens: usage.total_tokens,
+        }
+      : null;
+
+    const content = body.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMProviderError('invalid_json', 'Response has no message content');
+    }
+
+    const parsed = parseJsonResponse(content);
+    const errors = validateJsonSchema(parsed, schema);
+    if (errors.length > 0) {
+      throw new LLMProviderError('schema', `Response does not match schema: ${errors.join('; ')}`);
+    }
+    return parsed as T;
+  }
+}
+
+// ============================================
+// Response Cache
+// ============================================
+
+/** Max cached responses per provider (oldest evicted first) */
+const MAX_CACHED_RESPONSES = 2000;
+
+/**
+ * Caches parsed LLM responses keyed by `<kind>:<section hash>`.
+ *
+ * Sections are hashed on their text, so an unchanged section is classified
+ * once per process no matter which note or run it appears in.
+ */
+export class LLMResponseCache {
+  private readonly entries = new Map<string, unknown>();
+  private hits = 0;
+  private misses = 0;
+
+  get<T>(key: string): T | undefined {
+    const cached = this.entries.get(key);
+    if (cached === undefined) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return cached as T;
+  }
+
+  set(key: string, value: unknown): void {
+    if (this.entries.size >= MAX_CACHED_RESPONSES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, value);
+  }
+
+  stats(): { size: number; hits: number; misses: number } {
+    return { size: this.entries.size, hits: this.hits, misses: this.misses };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
+
+const sharedCaches = new Map<LLMProvider, LLMResponseCache>();
+
+/**
+ * Shared response cache for a provider (one per provider instance)
+ */
+export function getLLMResponseCache(provider: LLMProvider): LLMResponseCache {
+  let cache = sharedCaches.get(provider);
+  if (!cache) {
+    cache = new LLMResponseCache();
+    sharedCaches.set(provider, cache);
+  }
+  return cache;
+}
@@ -0,0 +1,295 @@
+/**
+ * Suggestion Engine v2 - LLM Title/Body Rewrite
+ *
+ * Optional polish pass after Stage 7 (use_llm_rewrite). The LLM rewrites
+ * each suggestion's title and body; the rewrite is only applied when it
+ * - still passes the title quality contract (enforceTitleContract), and
+ * - is grounded: every entity and number it mentions appears in the
+ *   suggestion's evidence_spans.
+ * Anything else (provider failure, budget, contract, grounding) keeps the
+ * rule output. suggestionKey is never changed, so dedupe and persisted
+ * decisions are unaffected by rewording.
+ */
+
+import type { Suggestion, EvidenceSpan, GeneratorContext, GeneratorConfig } from './types';
+import { sha1Hex } from '../suggestion-keys';
+import {
+  enforceTitleContract,
+  normalizeTitlePrefix,
+  stripKnownPrefix,
+  truncateTitleSmart,
+} from './title-normalization';
+import type { LLMProvider } from './llmClassifiers';
+import { DEFAULT_LLM_TOKEN_BUDGET, RESERVED_COMPLETION_TOKENS, estimateTokens } from './llmClassifiers';
+import type { LLMProviderErrorKind } from './llmProviders';
+import { LLMProviderError, getLLMProvider, getLLMResponseCache } from './llmProviders';
+
+// ============================================
+// Prompt
+// ============================================
+
+export interface LLMRewriteResponse {
+  title: string;
+  body: string;
+}
+
+const REWRITE_PROMPT = `Rewrite this product-planning suggestion so it reads clearly to a PM.
+
+Rules:
+- Title: one short imperative or declarative phrase, no type prefix, at most 70 characters
+- Body: 1-3 plain sentences
+- Use ONLY names, dates and numbers that appear in the evidence. Do not add facts.
+
+Suggestion type: {{TYPE}}
+Current title: {{TITLE}}
+Current body: {{BODY}}
+
+Evidence:
+{{EVIDENCE}}
+
+Return JSON: {"title": "...", "body": "..."}`;
+
+const REWRITE_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    body: { type: 'string' },
+  },
+  required: ['title', 'body'],
+};
+
+function ruleBody(suggestion: Suggestion): string {
+  return suggestion.suggestion?.body ?? '';
+}
+
+function buildRewritePrompt(suggestion: Suggestion): string {
+  return REWRITE_PROMPT
+    .replace('{{TYPE}}', suggestion.type)
+    .replace('{{TITLE}}', stripKnownPrefix(suggestion.title))
+    .replace('{{BODY}}', ruleBody(suggestion) || '(none)')
+    .replace('{{EVIDENCE}}', suggestion.evidence_spans.map((span) => `- ${span.text.trim()}`).join('\n'));
+}
+
+// ============================================
+// Grounding Check
+// ============================================
+
+const NUMBER_TOKEN = /[$€£]?\d[\d.,:/%-]*[a-z]*/gi;
+const WORD_TOKEN = /[A-Za-z][\w'&-]*/g;
+
+/**
+ * Entities and numbers a rewrite asserts: numbers (including "Q3", "$40k",
+ * "2.5%"), all-caps acronyms, @mentions, and capitalized words that do not
+ * start a sentence.
+ */
+export function extractGroundingTerms(text: string): string[] {
+  const terms = new Set<string>();
+
+  for (const match of text.match(/@\w+/g) ?? []) terms.add(match.slice(1));
+  for (const match of text.match(NUMBER_TOKEN) ?? []) {
+    const term = match.replace(/[.,:/-]+$/, '');
+    if (term) terms.add(term);
+  }
+
+  for (const sentence of text.split(/(?<=[.!?:;])\s+|\n+/)) {
+    const words = sentence.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').match(WORD_TOKEN) ?? [];
+    words.forEach((word, index) => {
+      const isAcronym = word.length >= 2 && word === word.toUpperCase() && /[A-Z]/.test(word);
+      const isProperNoun = index > 0 && /^[A-Z]/.test(word) && word !== 'I';
+      if (isAcronym || isProperNoun) terms.add(word.replace(/'s$/, ''));
+      else if (/\d/.test(word)) terms.add(word);
+    });
+  }
+
+  return [...terms];
+}
+
+/**
+ * Terms in `text` that appear nowhere in the evidence (case-insensitive).
+ * Empty means the text is grounded.
+ */
+export function findUngroundedTerms(text: string, evidenceSpans: EvidenceSpan[]): string[] {
+  const evidence = evidenceSpans.map((span) => span.text).join('\n').toLowerCase();
+  return extractGroundingTerms(text).filter((term) => !evidence.includes(term.toLowerCase()));
+}
+
+// ============================================
+// Rewrite Run
+// ============================================
+
+export type LLMRewriteFallbackReason = LLMProviderErrorKind | 'title_contract' | 'ungrounded' | 'unchanged';
+
+export interface LLMRewriteOutcome {
+  suggestion_id: string;
+  source: 'llm' | 'cache' | 'rules';
+  rule_title: string;
+  rule_body: string;
+  /** What the model returned (after prefix/length normalization), applied or not */
+  rewrite_title?: string;
+  rewrite_body?: string;
+  applied: boolean;
+  fallback_reason?: LLMRewriteFallbackReason;
+  /** Entities/numbers in the rewrite missing from the evidence */
+  ungrounded_terms?: string[];
+  error?: string;
+  tokens: number;
+}
+
+export interface LLMRewriteRun {
+  provider_id: string;
+  token_budget: number;
+  tokens_used: number;
+  calls: number;
+  cache_hits: number;
+  rewritten: number;
+  fallbacks: number;
+  outcomes: LLMRewriteOutcome[];
+}
+
+export interface LLMRewriteOptions {
+  token_budget?: number;
+  /** Default true; tests disable it to force provider calls */
+  use_cache?: boolean;
+}
+
+/**
+ * Check a model response against the title contract and the evidence.
+ * Returns the rewrite to apply, or the reason it was rejected.
+ */
+function vetRewrite(
+  suggestion: Suggestion,
+  response: LLMRewriteResponse,
+  outcome: LLMRewriteOutcome
+): { title: string; body: string } | null {
+  const content = stripKnownPrefix(response.title.trim());
+  const title = truncateTitleSmart(normalizeTitlePrefix(suggestion.type, content), 80);
+  const body = response.body.trim() || outcome.rule_body;
+  outcome.rewrite_title = title;
+  outcome.rewrite_body = body;
+
+  if (enforceTitleContract(suggestion.type, content, suggestion.evidence_spans) !== content) {
+    outcome.fallback_reason = 'title_contract';
+    return null;
+  }
+
+  const ungrounded = findUngroundedTerms(`${content}\n${body}`, suggestion.evidence_spans);
+  if (ungrounded.length > 0) {
+    outcome.fallback_reason = 'ungrounded';
+    outcome.ungrounded_terms = ungrounded;
+    return null;
+  }
+
+  if (title === suggestion.title && body === outcome.rule_body) {
+    outcome.fallback_reason = 'unchanged';
+    return null;
+  }
+  return { title, body };
+}
+
+/**
+ * Rewrite suggestion titles and bodies with an LLM under a token budget.
+ *
+ * Suggestions run one at a time so the budget is enforced exactly. Each
+ * suggestion keeps its rule output unless the rewrite passes vetting.
+ * Never throws.
+ */
+export async function rewriteSuggestionsWithLLM(
+  suggestions: Suggestion[],
+  llmProvider: LLMProvider,
+  options: LLMRewriteOptions = {}
+): Promise<{ suggestions: Suggestion[]; run: LLMRewriteRun }> {
+  const cache = options.use_cache === false ? null : getLLMResponseCache(llmProvider);
+  const run: LLMRewriteRun = {
+    provider_id: llmProvider.id ?? 'unknown',
+    token_budget: options.token_budget ?? DEFAULT_LLM_TOKEN_BUDGET,
+    tokens_used: 0,
+    calls: 0,
+    cache_hits: 0,
+    rewritten: 0,
+    fallbacks: 0,
+    outcomes: [],
+  };
+
+  const rewritten: Suggestion[] = [];
+  for (const suggestion of suggestions) {
+    const outcome: LLMRewriteOutcome = {
+      suggestion_id: suggestion.suggestion_id,
+      source: 'rules',
+      rule_title: suggestion.title,
+      rule_body: ruleBody(suggestion),
+      applied: false,
+      tokens: 0,
+    };
+    run.outcomes.push(outcome);
+
+    const prompt = buildRewritePrompt(suggestion);
+    const cacheKey = `rewrite:${sha1Hex(prompt)}`;
+    let response = cache?.get<LLMRewriteResponse>(cacheKey);
+    if (response) {
+      run.cache_hits++;
+      outcome.source = 'cache';
+    } else {
+      const estimate = estimateTokens(prompt) + RESERVED_COMPLETION_TOKENS;
+      if (run.tokens_used + estimate > run.token_budget) {
+        outcome.fallback_reason = 'budget_exhausted';
+        outcome.error = `Needs ~${estimate} tokens, ${run.token_budget - run.tokens_used} left`;
+      } else {
+        run.calls++;
+        try {
+          response = await llmProvider.complete<LLMRewriteResponse>(prompt, REWRITE_RESPONSE_SCHEMA);
+          outcome.tokens = llmProvider.last_usage?.total_tokens
+            ?? estimateTokens(prompt + JSON.stringify(response));
+          outcome.source = 'llm';
+          cache?.set(cacheKey, response);
+        } catch (error) {
+          outcome.tokens = estimateTokens(prompt);
+          outcome.fallback_reason = error instanceof LLMProviderError ? error.kind : 'network';
+          outcome.error = error instanceof Error ? error.message : String(error);
+        } finally {
+          run.tokens_used += outcome.tokens;
+        }
+      }
+    }
+
+    const vetted = response ? vetRewrite(suggestion, response, outcome) : null;
+    if (!vetted) {
+      if (outcome.fallback_reason !== 'unchanged') run.fallbacks++;
+      rewritten.push(suggestion);
+      continue;
+    }
+
+    outcome.applied = true;
+    run.rewritten++;
+    rewritten.push({
+      ...suggestion,
+      title: vetted.title,
+      suggestion: suggestion.suggestion
+        ? { ...suggestion.suggestion, title: vetted.title, body: vetted.body }
+        : suggestion.suggestion,
+    });
+  }
+
+  return { suggestions: rewritten, run };
+}
+
+/**
+ * Run the rewrite stage for a generator result.
+ *
+ * Returns null (rule output stands) when use_llm_rewrite is false, the
+ * llm_rewrite feature flag is off, or context.llm_model resolves to no
+ * registered provider.
+ */
+export async function runLLMRewrite(
+  suggestions: Suggestion[],
+  context?: GeneratorContext,
+  config?: Partial<GeneratorConfig>
+): Promise<{ suggestions: Suggestion[]; run: LLMRewriteRun } | null> {
+  if (!config?.use_llm_rewrite || suggestions.length === 0) return null;
+  if (context?.feature_flags?.llm_rewrite === false) return null;
+  const provider = context?.llm_model ? getLLMProvider(context.llm_model) : null;
+  if (!provider) return null;
+
+  return rewriteSuggestionsWithLLM(suggestions, provider, {
+    token_budget: config.llm_token_budget ?? DEFAULT_LLM_TOKEN_BUDGET,
+  });
+}
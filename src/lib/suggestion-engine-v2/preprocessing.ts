@@ -2,16 +2,20 @@
  * Suggestion Engine v2 - Preprocessing
  *
  * Markdown parsing, line annotation, and section segmentation.
+ * Speaker-turn transcripts are segmented by topic cues and speaker runs
+ * instead of headings (see transcript.ts for turn parsing).
  */
 
 import type {
   NoteInput,
+  NoteFormat,
   Line,
   LineType,
   Section,
   StructuralFeatures,
   PreprocessingResult,
 } from './types';
+import { annotateTranscriptLines, looksLikeTranscript, timestampToSeconds } from './transcript';
 
 // ============================================
 // Line Annotation
@@ -497,10 +501,134 @@ export function segmentIntoSections(noteId: string, lines: Line[]): Section[] {
   return removeEmptySections(sections);
 }
 
+// ============================================
+// Transcript Segmentation
+// ============================================
+
+/**
+ * Utterances that explicitly move the meeting to a new topic.
+ * Capture group 1 is the (optional) topic phrase.
+ */
+const TOPIC_SHIFT_PATTERN =
+  /^(?:(?:ok(?:ay)?|alright|all right|so|cool|great|right)[,.!]?\s+)*(?:(?:let'?s|can we|we should)\s+(?:move on to|talk about|switch to|discuss|go over|turn to|get to)|moving on(?: to)?|next (?:topic|item|up)(?: is)?:?|on to|switching (?:gears )?to|the next thing is)\b\s*(.*)$/i;
+
+/** A silence this long between turns starts a new section */
+const TRANSCRIPT_PAUSE_SECONDS = 300;
+
+/** Maximum speaker runs per section before a new one is started */
+const MAX_SPEAKER_RUNS_PER_SECTION = 12;
+
+/**
+ * Extract a heading from a topic-shift utterance, or undefined when the
+ * utterance is not a topic shift. Returns 'General' for shifts without a
+ * usable topic phrase ("ok, moving on").
+ */
+function getTopicShiftHeading(text: string): string | undefined {
+  const match = text.trim().match(TOPIC_SHIFT_PATTERN);
+  if (!match) return undefined;
+
+  const topic = (match[1] ?? '')
+    .split(/[.,;!?]/)[0]
+    .replace(/^(?:the|our|a|an)\s+/i, '')
+    .trim();
+
+  if (topic.length < 3 || topic.length > 50) return 'General';
+  return topic.charAt(0).toUpperCase() + topic.slice(1);
+}
+
+/**
+ * Segment annotated transcript lines into sections.
+ *
+ * A new section starts when:
+ * - an utterance announces a topic shift ("let's talk about pricing")
+ * - the gap between consecutive timestamps is >= TRANSCRIPT_PAUSE_SECONDS
+ * - the current section already holds MAX_SPEAKER_RUNS_PER_SECTION speaker runs
+ *   and the speaker changes
+ *
+ * Header-only turn lines ("Alice  00:12:31", annotated blank) are not added
+ * to section bodies; their timestamp applies to the first utterance line after
+ * them, which is checked for a topic shift like an inline turn.
+ */
+export function segmentTranscriptIntoSections(noteId: string, lines: Line[]): Section[] {
+  const sections: Section[] = [];
+  let heading = 'General';
+  let bodyLines: Line[] = [];
+  let speakerRuns = 0;
+  let lastSpeaker: string | undefined;
+  let lastSeconds: number | undefined;
+  let pendingHeader: Line | undefined;
+
+  function finalizeSection(): void {
+    if (bodyLines.length > 0) {
+      sections.push({
+        section_id: generateSectionId(noteId),
+        note_id: noteId,
+        heading_text: heading,
+        heading_level: 2,
+        start_line: bodyLines[0].index,
+        end_line: bodyLines[bodyLines.length - 1].index,
+        body_lines: bodyLines,
+        structural_features: computeStructuralFeatures(bodyLines),
+        raw_text: bodyLines.map((l) => l.text).join('\n'),
+      });
+    }
+    heading = 'General';
+    bodyLines = [];
+    speakerRuns = 0;
+    lastSpeaker = undefined;
+  }
+
+  for (const line of lines) {
+    if (line.line_type === 'blank') {
+      if (line.is_turn_start) pendingHeader = line;
+      continue;
+    }
+
+    const turnStart = line.is_turn_start ? line : pendingHeader;
+    pendingHeader = undefined;
+
+    const seconds = turnStart?.timestamp ? timestampToSeconds(turnStart.timestamp) : undefined;
+    const topicHeading = turnStart ? getTopicShiftHeading(line.text) : undefined;
+    const isNewSpeaker = line.speaker !== lastSpeaker;
+
+    const paused =
+      seconds !== undefined && lastSeconds !== undefined && seconds - lastSeconds >= TRANSCRIPT_PAUSE_SECONDS;
+    const runLimitReached = isNewSpeaker && speakerRuns >= MAX_SPEAKER_RUNS_PER_SECTION;
+
+    if (bodyLines.length > 0 && (topicHeading !== undefined || paused || runLimitReached)) {
+      finalizeSection();
+    }
+    if (topicHeading !== undefined) {
+      heading = topicHeading;
+    }
+
+    if (line.speaker !== lastSpeaker) {
+      speakerRuns++;
+      lastSpeaker = line.speaker;
+    }
+    if (seconds !== undefined) {
+      lastSeconds = seconds;
+    }
+    bodyLines.push(line);
+  }
+
+  finalizeSection();
+  return sections;
+}
+
 // ============================================
 // Full Preprocessing Pipeline
 // ============================================
 
+/**
+ * Resolve which segmenter to use. An explicit note.format wins; otherwise
+ * transcripts are auto-detected and everything else is treated as markdown.
+ */
+export function resolveNoteFormat(note: NoteInput, normalizedText: string): NoteFormat {
+  if (note.format) return note.format;
+  return looksLikeTranscript(normalizedText) ? 'transcript' : 'markdown';
+}
+
 /**
  * Preprocess a note: annotate lines and segment into sections
  */
@@ -508,6 +636,14 @@ export function preprocessNote(note: NoteInput): PreprocessingResult {
   // Normalize line endings
   const normalizedMarkdown = note.raw_markdown.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
 
+  const format = resolveNoteFormat(note, normalizedMarkdown);
+
+  if (format === 'transcript') {
+    const lines = annotateTranscriptLines(normalizedMarkdown);
+    const sections = segmentTranscriptIntoSections(note.note_id, lines);
+    return { lines, sections, format };
+  }
+
   // Annotate lines
   const lines = annotateLines(normalizedMarkdown);
 
@@ -517,6 +653,7 @@ export function preprocessNote(note: NoteInput): PreprocessingResult {
   return {
     lines,
     sections,
+    format,
   };
 }
 
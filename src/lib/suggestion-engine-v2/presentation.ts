@@ -19,7 +19,7 @@ import { rankingScore } from './scoring';
 // ============================================
 
 export interface SuggestionBucket {
-  /** Bucket key: "project_update", "idea", "risk", or "bug" */
+  /** Bucket key: "project_update", "idea", "risk", "bug", "action_item" or "conflict" */
   key: string;
   /** Human-readable label for UI display */
   title: string;
@@ -45,6 +45,8 @@ export interface GroupedSuggestions {
     risk: number;
     bug: number;
     idea: number;
+    action_item: number;
+    conflict: number;
   };
 }
 
@@ -60,12 +62,14 @@ export interface GroupedSuggestions {
  * 2. metadata.label === "bug"   → "bug"
  * 3. type === "project_update"  → "project_update"
  * 4. type === "idea"            → "idea"
+ * 5. type === "action_item"     → "action_item"
+ * 6. type === "conflict"        → "conflict"
  */
 function getBucketKey(s: Suggestion): string {
   const label = s.metadata?.label;
   if (label === 'risk') return 'risk';
   if (label === 'bug') return 'bug';
-  return s.type; // "project_update" | "idea"
+  return s.type; // "project_update" | "idea" | "action_item" | "conflict"
 }
 
 const BUCKET_TITLES: Record<string, string> = {
@@ -73,14 +77,19 @@ const BUCKET_TITLES: Record<string, string> = {
   bug: 'Bugs',
   project_update: 'Plan Changes',
   idea: 'Ideas',
+  action_item: 'Action Items',
+  conflict: 'Conflicts',
 };
 
-// Display order for buckets (risks first, then plan changes, then ideas, then bugs)
+// Display order for buckets (conflicts first since they block trusting the
+// rest, then risks, plan changes, ideas, bugs and action items)
 const BUCKET_ORDER: Record<string, number> = {
+  conflict: -1,
   risk: 0,
   project_update: 1,
   idea: 2,
   bug: 3,
+  action_item: 4,
 };
 
 // ============================================
@@ -150,6 +159,8 @@ export function groupSuggestionsForDisplay(
     risk: 0,
     bug: 0,
     idea: 0,
+    action_item: 0,
+    conflict: 0,
   };
   for (const bucket of buckets) {
     const key = bucket.key as keyof typeof remainingByType;
@@ -0,0 +1,177 @@
+/**
+ * Top-K routing candidates and ambiguity handling
+ *
+ * Previously routing kept only the best initiative: two initiatives scoring
+ * 0.78 and 0.76 against T_attach = 0.80 silently produced create_new.
+ *
+ * Tests:
+ *   1. Candidates: ranked, capped at ROUTING_TOP_K, zero scores excluded, margin
+ *   2. Decision: attach / ambiguous (close runner-up) / ambiguous (near miss) / create_new
+ *   3. Clarification: ambiguous sets ambiguous_initiative; re-routing clears it
+ *   4. computeRoutingStats counts ambiguous suggestions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { routeWithEmbeddings, routeSuggestion, computeRoutingStats, ROUTING_TOP_K } from './routing';
+import type { EmbeddingProvider } from './routing';
+import { DEFAULT_THRESHOLDS } from './types';
+import type { InitiativeSnapshot, Suggestion, ThresholdConfig } from './types';
+
+const THRESHOLDS: ThresholdConfig = {
+  ...DEFAULT_THRESHOLDS,
+  T_attach_embedding: 0.8,
+  T_ambiguity_margin: 0.05,
+  T_ambiguity_band: 0.05,
+};
+
+function initiative(id: string): InitiativeSnapshot {
+  return { id, title: `Initiative ${id}`, description: '' };
+}
+
+/**
+ * Provider whose similarity to each initiative is fixed by a score table.
+ * Initiative texts start with "Initiative <id>", which is used as the key.
+ */
+function tableProvider(scores: Record<string, number>): EmbeddingProvider {
+  const ids = Object.keys(scores);
+  return {
+    async embed(text: string) {
+      const index = ids.findIndex((id) => text.startsWith(`Initiative ${id}\n`));
+      return [index];
+    },
+    computeSimilarity(suggestionEmbed: number[], initiativeEmbed: number[]) {
+      const index = initiativeEmbed[0];
+      return index >= 0 ? scores[ids[index]] : 0;
+    },
+  };
+}
+
+function makeSuggestion(overrides: Partial<Suggestion> = {}): Suggestion {
+  return {
+    suggestion_id: 'sug-1',
+    note_id: 'note-1',
+    section_id: 'sec-1',
+    type: 'project_update',
+    title: 'Launch moves to March 24',
+    payload: { after_description: 'Launch moves to March 24.' },
+    evidence_spans: [],
+    scores: {
+      section_actionability: 0.8,
+      type_choice_confidence: 0.8,
+      synthesis_confidence: 0.8,
+      overall: 0.8,
+    },
+    routing: { create_new: true },
+    suggestionKey: 'key-1',
+    ...overrides,
+  } as Suggestion;
+}
+
+async function route(scores: Record<string, number>, suggestion = makeSuggestion()) {
+  return routeWithEmbeddings(
+    suggestion,
+    Object.keys(scores).map(initiative),
+    THRESHOLDS,
+    tableProvider(scores)
+  );
+}
+
+// ============================================
+// Candidates
+// ============================================
+
+describe('routing candidates', () => {
+  it('ranks candidates best first and caps at ROUTING_TOP_K', async () => {
+    const { routing } = await route({ a: 0.2, b: 0.9, c: 0.5, d: 0.4, e: 0.1 });
+    expect(routing.candidates?.map((c) => c.initiative_id)).toEqual(['b', 'c', 'd']);
+    expect(routing.candidates).toHaveLength(ROUTING_TOP_K);
+    expect(routing.candidates?.[0].title).toBe('Initiative b');
+    expect(routing.margin).toBeCloseTo(0.4, 6);
+  });
+
+  it('excludes zero-similarity initiatives and omits margin for a single candidate', async () => {
+    const { routing } = await route({ a: 0, b: 0.3 });
+    expect(routing.candidates?.map((c) => c.initiative_id)).toEqual(['b']);
+    expect(routing.margin).toBeUndefined();
+  });
+});
+
+// ============================================
+// Decision
+// ============================================
+
+describe('routing decision', () => {
+  it('attaches when the best candidate is above threshold and clearly ahead', async () => {
+    const { routing } = await route({ a: 0.9, b: 0.6 });
+    expect(routing).toMatchObject({ attached_initiative_id: 'a', create_new: false });
+    expect(routing.ambiguous).toBeUndefined();
+  });
+
+  it('is ambiguous when two candidates above threshold are within the margin', async () => {
+    const { routing } = await route({ a: 0.88, b: 0.86 });
+    expect(routing.ambiguous).toBe(true);
+    expect(routing.create_new).toBe(false);
+    expect(routing.attached_initiative_id).toBeUndefined();
+  });
+
+  it('is ambiguous for near misses just below threshold (0.78 / 0.76)', async () => {
+    const { routing } = await route({ a: 0.78, b: 0.76 });
+    expect(routing.ambiguous).toBe(true);
+    expect(routing.candidates?.map((c) => c.similarity)).toEqual([0.78, 0.76]);
+  });
+
+  it('creates new when the best candidate is well below threshold', async () => {
+    const { routing } = await route({ a: 0.6, b: 0.58 });
+    expect(routing.create_new).toBe(true);
+    expect(routing.ambiguous).toBeUndefined();
+    expect(routing.candidates).toHaveLength(2);
+  });
+
+  it('keeps the legacy create_new shape when there are no initiatives', () => {
+    const routed = routeSuggestion(makeSuggestion(), [], DEFAULT_THRESHOLDS);
+    expect(routed.routing).toEqual({ create_new: true });
+  });
+});
+
+// ============================================
+// Clarification
+// ============================================
+
+describe('ambiguous_initiative clarification', () => {
+  it('marks ambiguous suggestions as needing clarification', async () => {
+    const routed = await route({ a: 0.78, b: 0.76 });
+    expect(routed.needs_clarification).toBe(true);
+    expect(routed.clarification_reasons).toEqual(['ambiguous_initiative']);
+  });
+
+  it('preserves existing clarification reasons', async () => {
+    const routed = await route(
+      { a: 0.78, b: 0.76 },
+      makeSuggestion({ needs_clarification: true, clarification_reasons: ['low_overall_score'] })
+    );
+    expect(routed.clarification_reasons).toEqual(['low_overall_score', 'ambiguous_initiative']);
+  });
+
+  it('clears the reason when re-routing resolves the ambiguity', async () => {
+    const ambiguous = await route({ a: 0.78, b: 0.76 });
+    const resolved = await route({ a: 0.95, b: 0.2 }, ambiguous);
+    expect(resolved.routing.attached_initiative_id).toBe('a');
+    expect(resolved.needs_clarification).toBe(false);
+    expect(resolved.clarification_reasons).toEqual([]);
+  });
+});
+
+// ============================================
+// Stats
+// ============================================
+
+describe('computeRoutingStats', () => {
+  it('counts ambiguous suggestions separately', async () => {
+    const suggestions = [
+      await route({ a: 0.9, b: 0.1 }),
+      await route({ a: 0.78, b: 0.76 }),
+      await route({ a: 0.1 }),
+    ];
+    expect(computeRoutingStats(suggestions)).toMatchObject({ attached: 1, ambiguous: 1, create_new: 1 });
+  });
+});
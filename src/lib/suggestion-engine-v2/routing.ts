@@ -1,13 +1,15 @@
 /**
  * Suggestion Engine v2 - Routing
  *
- * Post-generation routing that attaches suggestions to existing initiatives
- * or marks them as create_new. Never discards suggestions.
+ * Post-generation routing that attaches suggestions to existing initiatives,
+ * marks them ambiguous (close candidates, user picks), or marks them
+ * create_new. Never discards suggestions.
  */
 
 import type {
   Suggestion,
   SuggestionRouting,
+  RoutingCandidate,
   InitiativeSnapshot,
   ThresholdConfig,
 } from './types';
@@ -127,50 +129,117 @@ function getInitiativeText(initiative: InitiativeSnapshot): string {
 // ============================================
 
 /**
- * Compute similarity between a suggestion and all initiatives
+ * Compute similarity between a text (suggestion title + description) and all initiatives
  */
 function computeSimilarities(
-  suggestion: Suggestion,
+  text: string,
   initiatives: InitiativeSnapshot[]
 ): Array<{ initiative: InitiativeSnapshot; similarity: number }> {
-  const suggestionText = getSuggestionText(suggestion);
-
   return initiatives.map((initiative) => {
     const initiativeText = getInitiativeText(initiative);
-    const similarity = enhancedSimilarity(suggestionText, initiativeText);
+    const similarity = enhancedSimilarity(text, initiativeText);
     return { initiative, similarity };
   });
 }
 
+// ============================================
+// Routing Logic
+// ============================================
+
+/** Max ranked initiative candidates kept on SuggestionRouting */
+export const ROUTING_TOP_K = 3;
+
 /**
- * Find the best matching initiative
+ * Rank initiatives by similarity (best first), keeping at most ROUTING_TOP_K
+ * candidates with a non-zero score.
  */
-function findBestMatch(
-  suggestion: Suggestion,
-  initiatives: InitiativeSnapshot[]
-): { initiative: InitiativeSnapshot | null; similarity: number } {
-  if (initiatives.length === 0) {
-    return { initiative: null, similarity: 0 };
+function rankCandidates(
+  scored: Array<{ initiative: InitiativeSnapshot; similarity: number }>
+): RoutingCandidate[] {
+  return scored
+    .filter((s) => s.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, ROUTING_TOP_K)
+    .map((s) => ({
+      initiative_id: s.initiative.id,
+      title: s.initiative.title,
+      similarity: s.similarity,
+    }));
+}
+
+/**
+ * Decide routing from ranked candidates.
+ *
+ * - attach: best >= attach threshold and clearly ahead of the runner-up
+ * - ambiguous: best >= attach threshold but the runner-up is within
+ *   T_ambiguity_margin, OR best is a near miss (within T_ambiguity_band
+ *   below the threshold) — the user picks from the candidates
+ * - create_new: otherwise
+ */
+function decideRouting(
+  candidates: RoutingCandidate[],
+  attachThreshold: number,
+  thresholds: ThresholdConfig
+): SuggestionRouting {
+  const best = candidates[0];
+  if (!best) {
+    return { create_new: true };
+  }
+
+  const runnerUp = candidates[1];
+  const margin = runnerUp ? best.similarity - runnerUp.similarity : undefined;
+  const marginThreshold = thresholds.T_ambiguity_margin ?? 0;
+  const band = thresholds.T_ambiguity_band ?? 0;
+
+  const base = { similarity: best.similarity, candidates, ...(margin !== undefined && { margin }) };
+
+  if (best.similarity >= attachThreshold) {
+    if (margin !== undefined && margin < marginThreshold) {
+      return { ...base, create_new: false, ambiguous: true };
+    }
+    return { ...base, attached_initiative_id: best.initiative_id, create_new: false };
+  }
+
+  if (band > 0 && best.similarity >= attachThreshold - band) {
+    return { ...base, create_new: false, ambiguous: true };
   }
 
-  const similarities = computeSimilarities(suggestion, initiatives);
+  return { ...base, create_new: true };
+}
 
-  // Sort by similarity descending
-  similarities.sort((a, b) => b.similarity - a.similarity);
+/**
+ * Apply a routing decision to a suggestion. Ambiguous routing asks the user to
+ * pick an initiative via the ambiguous_initiative clarification reason.
+ */
+function withRouting(suggestion: Suggestion, routing: SuggestionRouting): Suggestion {
+  const reasons = suggestion.clarification_reasons ?? [];
+
+  if (!routing.ambiguous) {
+    if (!reasons.includes('ambiguous_initiative')) {
+      return { ...suggestion, routing };
+    }
+    // Re-routed (e.g. lexical → embedding) and no longer ambiguous
+    const remaining = reasons.filter((r) => r !== 'ambiguous_initiative');
+    return {
+      ...suggestion,
+      routing,
+      needs_clarification: remaining.length > 0,
+      clarification_reasons: remaining,
+    };
+  }
 
-  const best = similarities[0];
   return {
-    initiative: best.initiative,
-    similarity: best.similarity,
+    ...suggestion,
+    routing,
+    needs_clarification: true,
+    clarification_reasons: reasons.includes('ambiguous_initiative')
+      ? reasons
+      : [...reasons, 'ambiguous_initiative'],
   };
 }
 
-// ============================================
-// Routing Logic
-// ============================================
-
 /**
- * Route a single suggestion (attach to initiative or mark create_new)
+ * Route a single suggestion (attach to initiative, mark ambiguous, or mark create_new)
  */
 export function routeSuggestion(
   suggestion: Suggestion,
@@ -187,29 +256,23 @@ export function routeSuggestion(
     };
   }
 
-  // Find best match
-  const { initiative, similarity } = findBestMatch(suggestion, initiatives);
-
-  // Apply routing rule
-  let routing: SuggestionRouting;
+  return withRouting(suggestion, routeText(getSuggestionText(suggestion), initiatives, thresholds));
+}
 
-  if (initiative && similarity >= thresholds.T_attach) {
-    routing = {
-      attached_initiative_id: initiative.id,
-      similarity,
-      create_new: false,
-    };
-  } else {
-    routing = {
-      similarity: similarity || undefined,
-      create_new: true,
-    };
+/**
+ * Lexical routing for free text (decision records and other non-suggestion
+ * artifacts). Same ranking and thresholds as suggestions.
+ */
+export function routeText(
+  text: string,
+  initiatives: InitiativeSnapshot[],
+  thresholds: ThresholdConfig
+): SuggestionRouting {
+  if (!initiatives || initiatives.length === 0) {
+    return { create_new: true };
   }
-
-  return {
-    ...suggestion,
-    routing,
-  };
+  const candidates = rankCandidates(computeSimilarities(text, initiatives));
+  return decideRouting(candidates, thresholds.T_attach, thresholds);
 }
 
 /**
@@ -236,6 +299,7 @@ export function computeRoutingStats(suggestions: Suggestion[]): {
   total: number;
   attached: number;
   create_new: number;
+  ambiguous: number;
   avgSimilarity: number;
 } {
   const attached = suggestions.filter(
@@ -256,23 +320,40 @@ export function computeRoutingStats(suggestions: Suggestion[]): {
     total: suggestions.length,
     attached: attached.length,
     create_new: createNew.length,
+    ambiguous: suggestions.filter((s) => s.routing.ambiguous).length,
     avgSimilarity,
   };
 }
 
 // ============================================
-// Embedding Support (Placeholder)
+// Embedding Routing
 // ============================================
 
 /**
- * Placeholder for embedding-based similarity
- * In production, this would call an embedding API (OpenAI, local model, etc.)
+ * Embedding provider contract. Providers are registered in embeddings.ts and
+ * selected by GeneratorContext.embedding_model.
  */
 export interface EmbeddingProvider {
   embed(text: string): Promise<number[]>;
   computeSimilarity(embedding1: number[], embedding2: number[]): number;
 }
 
+/**
+ * Source of initiative vectors. InitiativeVectorStore caches by content hash;
+ * without a store every initiative is embedded on each call.
+ */
+export interface InitiativeVectorSource {
+  getVector(initiative: InitiativeSnapshot): Promise<number[]>;
+}
+
+/**
+ * Attachment threshold for embedding similarity. Embedding cosine scores sit
+ * on a different scale than the lexical score, so they have their own threshold.
+ */
+function getEmbeddingAttachThreshold(thresholds: ThresholdConfig): number {
+  return thresholds.T_attach_embedding ?? thresholds.T_attach;
+}
+
 /**
  * Route with embeddings (when embedding provider is available)
  */
@@ -280,7 +361,8 @@ export async function routeWithEmbeddings(
   suggestion: Suggestion,
   initiatives: InitiativeSnapshot[],
   thresholds: ThresholdConfig,
-  embedProvider: EmbeddingProvider
+  embedProvider: EmbeddingProvider,
+  vectorSource?: InitiativeVectorSource
 ): Promise<Suggestion> {
   if (!initiatives || initiatives.length === 0) {
     return {
@@ -291,46 +373,59 @@ export async function routeWithEmbeddings(
     };
   }
 
-  // Get suggestion embedding
-  const suggestionText = getSuggestionText(suggestion);
-  const suggestionEmbed = await embedProvider.embed(suggestionText);
+  return withRouting(
+    suggestion,
+    await routeTextWithEmbeddings(getSuggestionText(suggestion), initiatives, thresholds, embedProvider, vectorSource)
+  );
+}
 
-  // Get initiative embeddings and compute similarities
-  let bestInitiative: InitiativeSnapshot | null = null;
-  let bestSimilarity = 0;
+/**
+ * Embedding routing for free text. Same ranking and thresholds as
+ * routeWithEmbeddings.
+ */
+export async function routeTextWithEmbeddings(
+  text: string,
+  initiatives: InitiativeSnapshot[],
+  thresholds: ThresholdConfig,
+  embedProvider: EmbeddingProvider,
+  vectorSource?: InitiativeVectorSource
+): Promise<SuggestionRouting> {
+  if (!initiatives || initiatives.length === 0) {
+    return { create_new: true };
+  }
 
-  for (const initiative of initiatives) {
-    const initiativeText = getInitiativeText(initiative);
-    const initiativeEmbed = await embedProvider.embed(initiativeText);
-    const similarity = embedProvider.computeSimilarity(
-      suggestionEmbed,
-      initiativeEmbed
-    );
+  const textEmbed = await embedProvider.embed(text);
 
-    if (similarity > bestSimilarity) {
-      bestSimilarity = similarity;
-      bestInitiative = initiative;
-    }
+  // Get initiative embeddings and compute similarities
+  const scored: Array<{ initiative: InitiativeSnapshot; similarity: number }> = [];
+  for (const initiative of initiatives) {
+    const initiativeEmbed = vectorSource
+      ? await vectorSource.getVector(initiative)
+      : await embedProvider.embed(getInitiativeText(initiative));
+    const similarity = embedProvider.computeSimilarity(textEmbed, initiativeEmbed);
+    scored.push({ initiative, similarity });
   }
 
-  // Apply routing rule
-  let routing: SuggestionRouting;
+  const candidates = rankCandidates(scored);
+  return decideRouting(candidates, getEmbeddingAttachThreshold(thresholds), thresholds);
+}
 
-  if (bestInitiative && bestSimilarity >= thresholds.T_attach) {
-    routing = {
-      attached_initiative_id: bestInitiative.id,
-      similarity: bestSimilarity,
-      create_new: false,
-    };
-  } else {
-    routing = {
-      similarity: bestSimilarity || undefined,
-      create_new: true,
-    };
+/**
+ * Route all suggestions with embeddings. Sequential so a single vector source
+ * embeds each initiative at most once.
+ */
+export async function routeSuggestionsWithEmbeddings(
+  suggestions: Suggestion[],
+  initiatives: InitiativeSnapshot[],
+  thresholds: ThresholdConfig,
+  embedProvider: EmbeddingProvider,
+  vectorSource?: InitiativeVectorSource
+): Promise<Suggestion[]> {
+  const routed: Suggestion[] = [];
+  for (const suggestion of suggestions) {
+    routed.push(
+      await routeWithEmbeddings(suggestion, initiatives, thresholds, embedProvider, vectorSource)
+    );
   }
-
-  return {
-    ...suggestion,
-    routing,
-  };
+  return routed;
 }
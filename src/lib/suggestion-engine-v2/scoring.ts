@@ -299,6 +299,11 @@ export function refineSuggestionScores(
        suggestion.metadata?.source === 'structural-idea-bypass')) {
     return suggestion;
   }
+  // Action items score the line they were extracted from ("@dana to send the
+  // deck by Friday"); the section's actionability says nothing about them.
+  if (suggestion.metadata?.source === 'action-item') {
+    return suggestion;
+  }
 
   const sectionActionability = computeSectionActionability(section);
   const typeChoiceConfidence = computeTypeChoiceConfidence(section);
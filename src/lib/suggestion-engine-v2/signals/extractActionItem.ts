@@ -0,0 +1,139 @@
+import type { ActionItemParts, Signal } from "./types";
+import { findDueClause } from "../dateResolver";
+
+// Explicit action markers: "Action: …", "AI: …", "TODO: …", "Follow-up: …", "[ ] …"
+const MARKER_RE = /^(?:\[\s?\]\s*|(?:action(?:\s+item)?|ai|todo|to-?do|follow[- ]?up)(?:\s*:|\s+[-–])\s*)/i;
+
+// "@dana to send …", "@dana will send …"
+const MENTION_RE = /@([\w][\w.-]*)\s+(?:to|will|should|needs?\s+to|is\s+going\s+to|owns?)\s+(.+)$/i;
+
+// "Owner: Dana", "(owner: @dana)"
+const OWNER_FIELD_RE = /\(?\bowner\s*[:=]\s*@?([\w][\w.-]*(?:\s+[A-Z][\w-]*)?)\)?/i;
+
+// "Dana: send …" / "Dana - send …" after an explicit marker
+const NAME_COLON_RE = /^@?([A-Z][\w.-]*(?:\s+[A-Z][\w-]*)?)\s*[:\-–]\s+(.+)$/;
+
+// "Dana to send …", "PM to confirm …" (the meeting-notes convention)
+const NAME_TO_RE = /^@?([A-Z][\w.-]*(?:\s+[A-Z][\w-]*)?)\s+(?:to|will)\s+([a-z].+)$/;
+
+// Roles accepted as assignees without a name (mirrors V3_ROLE_ASSIGNMENT_PATTERNS)
+const ROLE_RE = /^(?:pm|cs|eng|design|designer|legal|finance|ops|qa|engineering|product|marketing|sales|customer success|project manager|product manager)$/i;
+
+// Capitalized sentence starts that are not people
+const NOT_A_NAME = new Set([
+  "we", "i", "you", "they", "he", "she", "it", "this", "that", "these", "those",
+  "there", "the", "our", "everyone", "someone", "nobody", "team", "launch",
+  "release", "beta", "checkout", "timeline", "scope",
+]);
+
+// Schedule verbs: "Beta to slip by two weeks" is a plan change, not an action
+const SCHEDULE_VERB_RE = /^(?:slip|slide|move|push|delay|shift|land|launch|ship|go live)\b/i;
+
+/**
+ * Split an action sentence into assignee, deliverable and due clause.
+ */
+function parseActionItem(body: string, explicitMarker: boolean, allowBareName: boolean): ActionItemParts | null {
+  let text = body.trim().replace(/[.;]+$/, "");
+  let assignee: string | null = null;
+
+  const owner = text.match(OWNER_FIELD_RE);
+  if (owner) {
+    assignee = owner[1].trim();
+    text = text.replace(owner[0], "").replace(/\s*[,;]\s*$/, "").trim();
+  }
+
+  const mention = text.match(MENTION_RE);
+  if (mention) {
+    assignee = assignee ?? mention[1];
+    text = mention[2];
+  } else {
+    const byName = text.match(NAME_TO_RE) ?? (explicitMarker ? text.match(NAME_COLON_RE) : null);
+    const name = byName?.[1];
+    const isPerson =
+      name !== undefined &&
+      !NOT_A_NAME.has(name.split(/\s+/)[0].toLowerCase()) &&
+      (ROLE_RE.test(name) || allowBareName || explicitMarker);
+    if (byName && isPerson) {
+      assignee = assignee ?? name;
+      text = byName[2];
+    } else if (!explicitMarker && !owner) {
+      return null;
+    }
+  }
+
+  const due = findDueClause(text);
+  let deliverable = due ? text.replace(due.clause, "") : text;
+  deliverable = deliverable
+    .replace(/\s*[(),]\s*$/, "")
+    .replace(/\s{2,}/g, " ")
+    .replace(/^(?:please\s+)/i, "")
+    .trim();
+
+  if (deliverable.split(/\s+/).length < 2 || SCHEDULE_VERB_RE.test(deliverable)) return null;
+
+  return {
+    assignee,
+    deliverable,
+    ...(due ? { dueText: due.clause } : {}),
+  };
+}
+
+/**
+ * Extracts ACTION_ITEM signals from a list of sentences.
+ *
+ * Triggers when a sentence:
+ * - starts with an explicit marker ("Action:", "AI:", "TODO:", "[ ]"), OR
+ * - @mentions an owner ("@dana to send the deck"), OR
+ * - names an owner field ("Owner: Dana"), OR
+ * - reads "<Role> to <verb> …" ("PM to confirm pricing"), OR
+ * - reads "<Name> to <verb> …" inside an action-items section
+ *   (options.actionSection). Outside one a capitalized subject is too often
+ *   not a person ("Requirement to implement … by March").
+ *
+ * Sentences whose deliverable is a schedule move ("Beta to slip …") are
+ * plan changes and are skipped.
+ *
+ * Confidence: 0.85 with an explicit marker or @mention and a due date,
+ * 0.75 with only one of them, 0.7 for a bare name or role with a due date,
+ * 0.65 without one.
+ */
+export function extractActionItem(
+  sentences: string[],
+  options: { actionSection?: boolean } = {}
+): Signal[] {
+  const signals: Signal[] = [];
+
+  for (let i = 0; i < sentences.length; i++) {
+    const sentence = sentences[i];
+    const stripped = sentence.trim().replace(/^(?:[-*+]|\d+[.)])\s+/, "");
+    const marker = stripped.match(MARKER_RE);
+    const body = marker ? stripped.slice(marker[0].length) : stripped;
+
+    const parts = parseActionItem(body, marker !== null, options.actionSection === true);
+    if (!parts) continue;
+
+    const explicit = marker !== null || /@[\w]/.test(body) || OWNER_FIELD_RE.test(body);
+    const confidence = explicit ? (parts.dueText ? 0.85 : 0.75) : parts.dueText ? 0.7 : 0.65;
+
+    signals.push({
+      signalType: "ACTION_ITEM",
+      label: "action_item",
+      proposedType: "action_item",
+      confidence,
+      sentence,
+      sentenceIndex: i,
+      actionItem: parts,
+    });
+  }
+
+  return signals;
+}
+
+/**
+ * Title for an action item: "Action: Dana to send the pricing doc (by Thursday)"
+ */
+export function formatActionItemTitle(parts: ActionItemParts): string {
+  const who = parts.assignee ? `${parts.assignee} to ` : "";
+  const due = parts.dueText ? ` (${parts.dueText})` : "";
+  return `Action: ${who}${parts.deliverable}${due}`;
+}
@@ -4,13 +4,17 @@ import { extractScopeRisk } from "./extractScopeRisk";
 import { extractBug } from "./extractBug";
 import type { Signal } from "./types";
 
-export type { Signal, SignalType, SuggestedLabel } from "./types";
+export type { Signal, SignalType, SuggestedLabel, ActionItemParts } from "./types";
+export { extractActionItem, formatActionItemTitle } from "./extractActionItem";
 
 /**
  * Run all signal extractors over a list of sentences and return the combined results.
  *
  * Each extractor operates independently. Results are flattened and returned as-is
  * (no deduplication at this stage).
+ *
+ * Action items are not included: they are seeded on their own (actionItemSeeding.ts),
+ * also from sections that are otherwise suppressed ("Next steps").
  */
 export function extractSignalsFromSentences(sentences: string[]): Signal[] {
   return [
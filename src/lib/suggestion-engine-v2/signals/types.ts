@@ -2,15 +2,29 @@ export type SignalType =
   | "FEATURE_DEMAND"
   | "PLAN_CHANGE"
   | "SCOPE_RISK"
-  | "BUG";
+  | "BUG"
+  | "ACTION_ITEM";
 
-export type SuggestedLabel = "idea" | "project_update" | "risk" | "bug";
+export type SuggestedLabel = "idea" | "project_update" | "risk" | "bug" | "action_item";
 
 export interface Signal {
   signalType: SignalType;
   label: SuggestedLabel;
-  proposedType: "idea" | "project_update" | "bug" | "risk";
+  proposedType: "idea" | "project_update" | "bug" | "risk" | "action_item";
   confidence: number;
   sentence: string;
   sentenceIndex: number;
+  /** Set on ACTION_ITEM signals */
+  actionItem?: ActionItemParts;
+}
+
+/**
+ * Parts of an action item sentence, as written
+ */
+export interface ActionItemParts {
+  /** Name or role without the @; null for unassigned "TODO:" items */
+  assignee: string | null;
+  deliverable: string;
+  /** Due clause, e.g. "by Thursday" */
+  dueText?: string;
 }
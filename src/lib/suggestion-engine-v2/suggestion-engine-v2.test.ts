@@ -4398,10 +4398,13 @@ Feature request will be logged in the backlog. No near-term resourcing; revisit
       // At least one section should emit a suggestion (either Decision or Next Steps)
       expect(result.suggestions.length).toBeGreaterThanOrEqual(1);
 
-      // If suggestions were emitted, they should be project_update type
-      for (const suggestion of result.suggestions) {
+      // If suggestions were emitted, they should be project_update type;
+      // the role assignments in Next Steps are emitted as action items
+      for (const suggestion of result.suggestions.filter(s => s.type !== 'action_item')) {
         expect(suggestion.type).toBe('project_update');
       }
+      expect(result.suggestions.filter(s => s.type === 'action_item').map(s => s.payload.action_item?.assignee))
+        .toEqual(expect.arrayContaining(['PM', 'CS', 'Eng']));
     });
   });
 });
@@ -13,6 +13,8 @@ const TYPE_PREFIX: Record<SuggestionType, string> = {
   project_update: 'Update',
   risk: 'Risk',
   bug: 'Bug',
+  action_item: 'Action',
+  conflict: 'Conflict',
 };
 
 /**
@@ -32,11 +34,11 @@ const LEGACY_PREFIX_RE = /^Add\s+(Update|Idea|Risk|Bug)\s*:\s*/i;
 
 /**
  * Regex that matches bare engine-generated type prefixes at the start of titles.
- * Examples: "Update: …", "Idea: …", "Risk: …", "Bug: …"
+ * Examples: "Update: …", "Idea: …", "Risk: …", "Bug: …", "Action: …", "Conflict: …"
  * These are added by normalizeTitlePrefix in the engine pipeline and must be
  * stripped so the UI can re-add the prefix from suggestion.type without doubling.
  */
-const ENGINE_PREFIX_RE = /^(Update|Idea|Risk|Bug)\s*:\s*/i;
+const ENGINE_PREFIX_RE = /^(Update|Idea|Risk|Bug|Action|Conflict)\s*:\s*/i;
 
 /**
  * Strips legacy "Add <Type>:" and bare engine "<Type>:" prefixes from a title.
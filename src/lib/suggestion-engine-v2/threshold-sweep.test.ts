@@ -0,0 +1,172 @@
+/**
+ * Threshold sweeps
+ *
+ * Grid / random search over config fields scored against labeled
+ * expectations, the precision-recall Pareto frontier, and the config patch.
+ *
+ * Tests:
+ *   1. Grid and seeded random search
+ *   2. Pareto frontier
+ *   3. Best trial and config patch
+ *   4. Generator thresholds against the golden corpus
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  sweepParameters,
+  sweepGeneratorThresholds,
+  paretoFrontier,
+  formatConfigPatch,
+  formatSweepResult,
+} from './thresholdSweep';
+import type { SweepTrial } from './thresholdSweep';
+import { precisionRecall, runGoldenCorpus } from './goldenCorpus';
+import { GOLDEN_CORPUS } from './goldenCorpusFixtures';
+import { DEFAULT_THRESHOLDS } from './types';
+
+interface ToyConfig {
+  a: number;
+  b: number;
+  label: string;
+}
+
+const BASE: ToyConfig = { a: 0.5, b: 0.5, label: 'toy' };
+
+/**
+ * Toy model: raising `a` trades recall for precision (best F1 at a = 0.6);
+ * `b` = 0.9 costs two true positives.
+ */
+const TOY_COUNTS: Record<number, { tp: number; fp: number }> = {
+  0.3: { tp: 10, fp: 9 },
+  0.4: { tp: 9, fp: 6 },
+  0.5: { tp: 8, fp: 4 },
+  0.6: { tp: 8, fp: 2 },
+  0.7: { tp: 6, fp: 1 },
+  0.8: { tp: 5, fp: 0 },
+};
+
+function evaluateToy(config: ToyConfig) {
+  const { tp, fp } = TOY_COUNTS[config.a];
+  const kept = config.b === 0.9 ? tp - 2 : tp;
+  return precisionRecall(kept, fp, 10 - kept);
+}
+
+// ============================================
+// Search
+// ============================================
+
+describe('sweepParameters search', () => {
+  it('grid search tries every combination plus the baseline', () => {
+    const evaluated: ToyConfig[] = [];
+    const result = sweepParameters('TOY', BASE, { a: [0.4, 0.6], b: [0.5, 0.9] }, (config) => {
+      evaluated.push(config);
+      return evaluateToy(config);
+    });
+
+    expect(result.strategy).toBe('grid');
+    expect(result.trials.map((t) => t.params)).toEqual([
+      { a: 0.4, b: 0.5 },
+      { a: 0.4, b: 0.9 },
+      { a: 0.6, b: 0.5 },
+      { a: 0.6, b: 0.9 },
+    ]);
+    expect(evaluated[0]).toEqual(BASE);
+    expect(evaluated.every((config) => config.label === 'toy')).toBe(true);
+    expect(result.trials[2].changed).toEqual(['a']);
+  });
+
+  it('refuses grids larger than max_trials', () => {
+    expect(() =>
+      sweepParameters('TOY', BASE, { a: [0.3, 0.4, 0.5], b: [0.5, 0.7, 0.9] }, evaluateToy, { max_trials: 8 })
+    ).toThrow('Grid has 9 combinations');
+  });
+
+  it('random search is reproducible and samples distinct combinations', () => {
+    const space = { a: [0.3, 0.4, 0.5, 0.6, 0.7], b: [0.5, 0.7, 0.9] };
+    const first = sweepParameters('TOY', BASE, space, evaluateToy, { strategy: 'random', samples: 6, seed: 7 });
+    const again = sweepParameters('TOY', BASE, space, evaluateToy, { strategy: 'random', samples: 6, seed: 7 });
+
+    expect(first.trials).toHaveLength(6);
+    expect(again.trials.map((t) => t.params)).toEqual(first.trials.map((t) => t.params));
+    expect(new Set(first.trials.map((t) => JSON.stringify(t.params))).size).toBe(6);
+
+    const small = sweepParameters('TOY', BASE, { a: [0.4, 0.6] }, evaluateToy, { strategy: 'random', samples: 50 });
+    expect(small.trials).toHaveLength(2);
+  });
+});
+
+// ============================================
+// Pareto frontier
+// ============================================
+
+describe('paretoFrontier', () => {
+  const trial = (precision: number, recall: number, changed: string[]): SweepTrial<ToyConfig> => ({
+    params: {},
+    metrics: { true_positives: 0, false_positives: 0, false_negatives: 0, precision, recall, f1: 0 },
+    changed: changed as SweepTrial<ToyConfig>['changed'],
+  });
+
+  it('keeps non-dominated trials sorted by recall', () => {
+    const frontier = paretoFrontier([
+      trial(0.9, 0.5, ['a']),
+      trial(0.6, 0.9, ['a']),
+      trial(0.6, 0.6, []),
+      trial(0.8, 0.7, ['b']),
+    ]);
+    expect(frontier.map((t) => [t.metrics.precision, t.metrics.recall])).toEqual([
+      [0.9, 0.5],
+      [0.8, 0.7],
+      [0.6, 0.9],
+    ]);
+  });
+
+  it('collapses equal points to the trial with fewest changes', () => {
+    const frontier = paretoFrontier([trial(0.8, 0.8, ['a', 'b']), trial(0.8, 0.8, ['b'])]);
+    expect(frontier).toHaveLength(1);
+    expect(frontier[0].changed).toEqual(['b']);
+  });
+});
+
+// ============================================
+// Best trial and patch
+// ============================================
+
+describe('sweepParameters patch', () => {
+  it('patches only the fields the best trial changed', () => {
+    const result = sweepParameters('TOY', BASE, { a: [0.4, 0.6, 0.8], b: [0.5, 0.9] }, evaluateToy);
+
+    expect(result.best.params).toEqual({ a: 0.6, b: 0.5 });
+    expect(result.best.metrics.f1).toBeGreaterThan(result.baseline.metrics.f1);
+    expect(result.patch.changes).toEqual([{ name: 'a', from: 0.5, to: 0.6 }]);
+    expect(result.patch.overrides).toEqual({ a: 0.6 });
+    expect(result.frontier).toContainEqual(expect.objectContaining({ params: { a: 0.6, b: 0.5 } }));
+
+    expect(formatConfigPatch(result.patch)).toContain('TOY:\n-  a: 0.5,\n+  a: 0.6,');
+    expect(formatSweepResult(result)).toContain('* P ');
+  });
+
+  it('leaves the config alone when nothing beats the baseline', () => {
+    const result = sweepParameters('TOY', BASE, { b: [0.9] }, evaluateToy);
+    expect(result.best).toBe(result.baseline);
+    expect(result.patch.changes).toEqual([]);
+    expect(formatConfigPatch(result.patch)).toContain('No change to TOY');
+  });
+});
+
+// ============================================
+// Generator thresholds
+// ============================================
+
+describe('sweepGeneratorThresholds', () => {
+  it('scores DEFAULT_THRESHOLDS as the baseline and never patches to a worse F1', () => {
+    const result = sweepGeneratorThresholds(GOLDEN_CORPUS, { T_action: [0.5, 0.7] });
+
+    expect(result.baseline.metrics).toEqual(runGoldenCorpus(GOLDEN_CORPUS).overall);
+    expect(result.trials).toHaveLength(2);
+    expect(result.patch.target).toBe('DEFAULT_THRESHOLDS');
+    expect(result.best.metrics.f1).toBeGreaterThanOrEqual(result.baseline.metrics.f1);
+    for (const change of result.patch.changes) {
+      expect(change.from).toBe(DEFAULT_THRESHOLDS[change.name as keyof typeof DEFAULT_THRESHOLDS]);
+    }
+  });
+});
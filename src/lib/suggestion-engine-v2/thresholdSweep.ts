@@ -0,0 +1,332 @@
+/**
+ * Suggestion Engine v2 - Threshold Sweeps
+ *
+ * Multi-parameter search over numeric config fields, scored against
+ * labeled expectations. Replaces one-field-at-a-time tuning
+ * (analyzeThresholdSensitivity) with:
+ *
+ * - grid search (every combination) or seeded random search;
+ * - the Pareto frontier of precision vs recall across trials;
+ * - a config patch for the best trial (highest F1, fewest changes),
+ *   formatted as a diff against the base config for review.
+ *
+ * The search itself is config-agnostic: sweepParameters takes a base
+ * config and an evaluate function. sweepGeneratorThresholds wires it to
+ * DEFAULT_THRESHOLDS and the golden corpus; the belief-to-initiative V2
+ * decision model uses the same search (sweepDecisionModel).
+ */
+
+import type { ThresholdConfig, GeneratorConfig } from './types';
+import { DEFAULT_THRESHOLDS } from './types';
+import { runGoldenCorpus } from './goldenCorpus';
+import type { GoldenCorpus, PrecisionRecall } from './goldenCorpus';
+
+// ============================================
+// Types
+// ============================================
+
+/** Config fields that hold numbers */
+export type NumericKeys<T> = {
+  [K in keyof T]: T[K] extends number ? K : never;
+}[keyof T];
+
+/** Candidate values per swept field */
+export type SweepSpace<T> = Partial<Record<NumericKeys<T>, number[]>>;
+
+export interface SweepOptions {
+  /** 'grid' tries every combination; 'random' samples combinations. Default: 'grid' */
+  strategy?: 'grid' | 'random';
+  /** Random search: number of distinct combinations to try. Default: 50 */
+  samples?: number;
+  /** Random search: PRNG seed, so runs are reproducible. Default: 1 */
+  seed?: number;
+  /** Grid search refuses spaces larger than this. Default: 500 */
+  max_trials?: number;
+}
+
+export interface SweepTrial<T> {
+  /** Values of the swept fields only */
+  params: Partial<T>;
+  metrics: PrecisionRecall;
+  /** Swept fields whose value differs from the base config */
+  changed: NumericKeys<T>[];
+}
+
+export interface ConfigPatchChange {
+  name: string;
+  from: number;
+  to: number;
+}
+
+/**
+ * Reviewable change to a config object
+ */
+export interface ConfigPatch<T> {
+  /** Where the defaults live, e.g. 'DEFAULT_THRESHOLDS' */
+  target: string;
+  changes: ConfigPatchChange[];
+  /** Partial config with only the changed fields */
+  overrides: Partial<T>;
+  before: PrecisionRecall;
+  after: PrecisionRecall;
+}
+
+export interface SweepResult<T> {
+  strategy: 'grid' | 'random';
+  baseline: SweepTrial<T>;
+  trials: SweepTrial<T>[];
+  /** Non-dominated trials by (precision, recall), sorted by recall */
+  frontier: SweepTrial<T>[];
+  best: SweepTrial<T>;
+  patch: ConfigPatch<T>;
+}
+
+// ============================================
+// Search
+// ============================================
+
+const DEFAULT_SAMPLES = 50;
+const DEFAULT_MAX_TRIALS = 500;
+
+/** mulberry32: small seeded PRNG, deterministic across runs */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gridCombinations(ranges: [string, number[]][]): Record<string, number>[] {
+  let combos: Record<string, number>[] = [{}];
+  for (const [name, values] of ranges) {
+    combos = combos.flatMap((combo) => values.map((value) => ({ ...combo, [name]: value })));
+  }
+  return combos;
+}
+
+function randomCombinations(
+  ranges: [string, number[]][],
+  samples: number,
+  seed: number
+): Record<string, number>[] {
+  const space = ranges.reduce((n, [, values]) => n * values.length, 1);
+  const target = Math.min(samples, space);
+  const random = seededRandom(seed);
+  const seen = new Set<string>();
+  const combos: Record<string, number>[] = [];
+
+  while (combos.length < target) {
+    const combo: Record<string, number> = {};
+    for (const [name, values] of ranges) {
+      combo[name] = values[Math.floor(random() * values.length)];
+    }
+    const key = JSON.stringify(combo);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    combos.push(combo);
+  }
+  return combos;
+}
+
+function dominates(a: PrecisionRecall, b: PrecisionRecall): boolean {
+  return (
+    a.precision >= b.precision &&
+    a.recall >= b.recall &&
+    (a.precision > b.precision || a.recall > b.recall)
+  );
+}
+
+/**
+ * Trials no other trial beats on both precision and recall. Trials with
+ * the same (precision, recall) collapse to the one with fewest changes.
+ */
+export function paretoFrontier<T>(trials: SweepTrial<T>[]): SweepTrial<T>[] {
+  const byPoint = new Map<string, SweepTrial<T>>();
+  for (const trial of trials) {
+    const key = `${trial.metrics.precision}|${trial.metrics.recall}`;
+    const existing = byPoint.get(key);
+    if (!existing || trial.changed.length < existing.changed.length) {
+      byPoint.set(key, trial);
+    }
+  }
+
+  const points = [...byPoint.values()];
+  return points
+    .filter((trial) => !points.some((other) => dominates(other.metrics, trial.metrics)))
+    .sort((a, b) => a.metrics.recall - b.metrics.recall || b.metrics.precision - a.metrics.precision);
+}
+
+/**
+ * Build the patch that moves a base config to a trial's values
+ */
+export function buildConfigPatch<T>(
+  target: string,
+  base: T,
+  baseline: SweepTrial<T>,
+  trial: SweepTrial<T>
+): ConfigPatch<T> {
+  const overrides: Partial<T> = {};
+  const changes: ConfigPatchChange[] = trial.changed.map((name) => {
+    const to = trial.params[name] as number;
+    overrides[name] = to as T[typeof name];
+    return { name: String(name), from: base[name] as number, to };
+  });
+
+  return { target, changes, overrides, before: baseline.metrics, after: trial.metrics };
+}
+
+/**
+ * Evaluate a base config and every combination of the swept values
+ *
+ * The baseline (base config unchanged) is always evaluated, so the patch
+ * is empty when nothing beats it.
+ */
+export function sweepParameters<T extends object>(
+  target: string,
+  base: T,
+  space: SweepSpace<T>,
+  evaluate: (config: T) => PrecisionRecall,
+  options: SweepOptions = {}
+): SweepResult<T> {
+  const strategy = options.strategy ?? 'grid';
+  const ranges = (Object.entries(space) as [string, number[] | undefined][])
+    .filter((entry): entry is [string, number[]] => Array.isArray(entry[1]) && entry[1].length > 0);
+
+  let combos: Record<string, number>[];
+  if (strategy === 'grid') {
+    const size = ranges.reduce((n, [, values]) => n * values.length, 1);
+    const maxTrials = options.max_trials ?? DEFAULT_MAX_TRIALS;
+    if (size > maxTrials) {
+      throw new Error(`Grid has ${size} combinations (max ${maxTrials}); narrow the space or use random search`);
+    }
+    combos = gridCombinations(ranges);
+  } else {
+    combos = randomCombinations(ranges, options.samples ?? DEFAULT_SAMPLES, options.seed ?? 1);
+  }
+
+  const sweptNames = ranges.map(([name]) => name as NumericKeys<T>);
+  const runTrial = (combo: Record<string, number>): SweepTrial<T> => {
+    const config = { ...base, ...combo } as T;
+    const params: Partial<T> = {};
+    for (const name of sweptNames) params[name] = config[name];
+    return {
+      params,
+      metrics: evaluate(config),
+      changed: sweptNames.filter((name) => config[name] !== base[name]),
+    };
+  };
+
+  const baseline = runTrial({});
+  const trials = combos.map(runTrial);
+  const all = [baseline, ...trials];
+
+  // Highest F1; ties go to the smaller change, then to the baseline
+  const best = all.reduce((winner, trial) =>
+    trial.metrics.f1 > winner.metrics.f1 ||
+    (trial.metrics.f1 === winner.metrics.f1 && trial.changed.length < winner.changed.length)
+      ? trial
+      : winner
+  );
+
+  return {
+    strategy,
+    baseline,
+    trials,
+    frontier: paretoFrontier(all),
+    best,
+    patch: buildConfigPatch(target, base, baseline, best),
+  };
+}
+
+// ============================================
+// Generator Thresholds
+// ============================================
+
+/**
+ * Default search space around DEFAULT_THRESHOLDS (108 grid combinations).
+ * Routing thresholds are left out: the golden corpus does not label routing.
+ */
+export const DEFAULT_THRESHOLD_SWEEP_SPACE: SweepSpace<ThresholdConfig> = {
+  T_action: [0.4, 0.5, 0.6, 0.7],
+  T_out_of_scope: [0.3, 0.4, 0.5],
+  T_section_min: [0.5, 0.6, 0.7],
+  T_overall_min: [0.55, 0.65, 0.75],
+};
+
+/**
+ * Sweep generator thresholds against a golden corpus
+ */
+export function sweepGeneratorThresholds(
+  corpus: GoldenCorpus,
+  space: SweepSpace<ThresholdConfig> = DEFAULT_THRESHOLD_SWEEP_SPACE,
+  options: SweepOptions & { base?: ThresholdConfig; config?: Partial<GeneratorConfig> } = {}
+): SweepResult<ThresholdConfig> {
+  const base = options.base ?? DEFAULT_THRESHOLDS;
+  return sweepParameters(
+    'DEFAULT_THRESHOLDS',
+    base,
+    space,
+    (thresholds) => runGoldenCorpus(corpus, { ...options.config, thresholds }).overall,
+    options
+  );
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+function formatMetrics(m: PrecisionRecall): string {
+  return `P ${pct(m.precision)}  R ${pct(m.recall)}  F1 ${pct(m.f1)}`;
+}
+
+function formatParams<T>(trial: SweepTrial<T>): string {
+  if (trial.changed.length === 0) return '(baseline)';
+  return trial.changed.map((name) => `${String(name)}=${trial.params[name]}`).join(', ');
+}
+
+/**
+ * Config patch as a reviewable diff
+ */
+export function formatConfigPatch<T>(patch: ConfigPatch<T>): string {
+  if (patch.changes.length === 0) {
+    return `No change to ${patch.target}: no trial beat the current values (${formatMetrics(patch.before)}).`;
+  }
+
+  return [
+    `${patch.target}:`,
+    ...patch.changes.flatMap((c) => [`-  ${c.name}: ${c.from},`, `+  ${c.name}: ${c.to},`]),
+    '',
+    `Before: ${formatMetrics(patch.before)}`,
+    `After:  ${formatMetrics(patch.after)}`,
+  ].join('\n');
+}
+
+/**
+ * Human-readable sweep summary: baseline, frontier and patch
+ */
+export function formatSweepResult<T>(result: SweepResult<T>): string {
+  const lines: string[] = [
+    `=== Threshold Sweep: ${result.patch.target} (${result.strategy}, ${result.trials.length} trials) ===`,
+    '',
+    `Baseline: ${formatMetrics(result.baseline.metrics)}`,
+    '',
+    '## Pareto frontier (precision vs recall)',
+  ];
+
+  for (const trial of result.frontier) {
+    const isBest =
+      trial.metrics.precision === result.best.metrics.precision &&
+      trial.metrics.recall === result.best.metrics.recall;
+    const marker = isBest ? '*' : '-';
+    lines.push(`${marker} ${formatMetrics(trial.metrics)}  ${formatParams(trial)}`);
+  }
+
+  lines.push('', '## Patch', formatConfigPatch(result.patch));
+  return lines.join('\n');
+}
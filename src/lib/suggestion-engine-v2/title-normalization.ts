@@ -7,7 +7,8 @@
  * NO LLM. NO embeddings. Pure deterministic rules.
  */
 
-import type { SuggestionType, EvidenceSpan } from './types';
+import type { SuggestionType, EvidenceSpan, ScheduleDelta } from './types';
+import { formatResolvedDate, formatScheduleDelta } from './dateResolver';
 
 /**
  * Strong imperative verbs we want titles to start with
@@ -551,7 +552,7 @@ const TITLE_CONTRACT_LEADING_STOPWORDS = [
  * Known title prefixes emitted by the engine (e.g. "Update:", "Risk:").
  * We split on these to isolate the content portion.
  */
-const KNOWN_TITLE_PREFIXES = /^(Update|Risk|Idea|Bug|Action items|Implement|Fix|Add|Build|Create|Enable|Launch|Evaluate|Investigate|Improve|Reduce|Transition|Develop|Remove|Migrate|Refactor|Optimize|Integrate|Deploy|Configure|Establish|Streamline):\s*/i;
+const KNOWN_TITLE_PREFIXES = /^(Update|Risk|Idea|Bug|Action items|Action|Conflict|Implement|Fix|Add|Build|Create|Enable|Launch|Evaluate|Investigate|Improve|Reduce|Transition|Develop|Remove|Migrate|Refactor|Optimize|Integrate|Deploy|Configure|Establish|Streamline):\s*/i;
 
 /**
  * Extract the first concrete entity from evidence span tokens.
@@ -630,6 +631,10 @@ function buildFallbackTitle(type: SuggestionType, evidenceSpans: EvidenceSpan[])
       return entity ? `${entity} improvement` : 'Idea identified';
     case 'bug':
       return entity ? `${entity} issue` : 'Bug identified';
+    case 'action_item':
+      return entity ? `Follow up on ${entity}` : 'Follow up on action item';
+    case 'conflict':
+      return entity ? `Conflicting statements about ${entity}` : 'Conflicting statements';
     default:
       return entity ? `${entity} issue` : 'Issue identified';
   }
@@ -691,13 +696,16 @@ const TYPE_PREFIX: Record<string, string> = {
   risk: 'Risk:',
   idea: 'Idea:',
   bug: 'Bug:',
+  action_item: 'Action:',
+  conflict: 'Conflict:',
 };
 
 /**
- * Matches any of the four user-facing prefixes at the start of a title.
- * Case-insensitive so "update:" and "Update:" are both caught.
+ * Matches any of the user-facing type prefixes at the start of a title.
+ * Case-insensitive so "update:" and "Update:" are both caught. "Action:" must
+ * be followed by the colon, so "Action items:" content is not matched.
  */
-const USER_FACING_PREFIXES = /^(Update|Risk|Idea|Bug):\s*/i;
+const USER_FACING_PREFIXES = /^(Update|Risk|Idea|Bug|Action|Conflict):\s*/i;
 
 /**
  * Normalize the title prefix for a suggestion so it matches the expected
@@ -777,19 +785,35 @@ export function stripKnownPrefix(title: string): string {
  *     meaningful for project updates and plan changes but would be noise or
  *     misleading in risk/idea/bug titles whose framing is different.
  *
+ * WITH A RESOLVED scheduleDelta (payload.schedule_delta):
+ *   - The actual dates are rendered ("Checkout delayed 2 sprints to Apr 7")
+ *     unless the title already names the target date as written or rendered.
+ *   - Deltas without a target date fall through to the evidence-token path.
+ *
  * @param titleContent - The prefix-free title content (e.g. "project plan")
  * @param evidenceSpans - Evidence spans from which delta/entity are extracted
+ * @param scheduleDelta - Optional delta resolved against the meeting date
  * @returns Enriched content string (prefix-free), or original if no delta found
  */
 export function ensureUpdateTitleIncludesDelta(
   titleContent: string,
-  evidenceSpans: EvidenceSpan[]
+  evidenceSpans: EvidenceSpan[],
+  scheduleDelta?: ScheduleDelta
 ): string {
+  // Guard: title already contains the delta (case-insensitive, normalise whitespace)
+  const normalise = (s: string) => s.replace(/\s+/g, ' ').toLowerCase();
+
+  const rendered = scheduleDelta ? formatScheduleDelta(scheduleDelta) : null;
+  if (scheduleDelta?.after && rendered) {
+    const title = normalise(titleContent);
+    const targetLabels = [scheduleDelta.after.text, formatResolvedDate(scheduleDelta.after, scheduleDelta.anchor)];
+    if (targetLabels.some((label) => title.includes(normalise(label)))) return titleContent;
+    return `${extractEntityFromEvidence(evidenceSpans) ?? 'Timeline'} ${rendered}`;
+  }
+
   const delta = extractDeltaFromEvidence(evidenceSpans);
   if (!delta) return titleContent;
 
-  // Guard: title already contains the delta (case-insensitive, normalise whitespace)
-  const normalise = (s: string) => s.replace(/\s+/g, ' ').toLowerCase();
   if (normalise(titleContent).includes(normalise(delta))) return titleContent;
 
   const entity = extractEntityFromEvidence(evidenceSpans);
@@ -0,0 +1,258 @@
+/**
+ * Transcript preprocessing: speaker-turn aware segmentation
+ *
+ * Raw Granola/Zoom transcripts have no markdown structure. Before transcript
+ * mode they collapsed into one giant "General" paragraph section.
+ *
+ * Tests:
+ *   1. parseSpeakerTurn: supported turn formats and label rejection
+ *   2. looksLikeTranscript: positive detection and markdown negative controls
+ *   3. preprocessNote: auto-detection, explicit format override, topic/pause segmentation
+ *   4. generateSuggestions: evidence spans carry speaker and timestamp
+ *   5. adaptConvexNote: granola_manual source selects transcript mode
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseSpeakerTurn, looksLikeTranscript, timestampToSeconds } from './transcript';
+import { preprocessNote, resetSectionCounter } from './preprocessing';
+import { generateSuggestions, adaptConvexNote } from './index';
+import { resetSuggestionCounter } from './synthesis';
+
+const TRANSCRIPT = [
+  'Alice (00:00:05): Thanks everyone for joining.',
+  'Bob (00:00:12): Happy to be here.',
+  "Alice (00:00:20): Let's talk about the checkout revamp.",
+  'Bob (00:00:31): We need to push the checkout launch from March 3 to March 24 because the payment provider integration slipped by 3 weeks.',
+  'Carol (00:00:50): That works, the revised launch date is March 24.',
+  'Alice (00:01:10): Okay, moving on to onboarding emails.',
+  'Carol (00:01:20): We should build an automated onboarding email sequence for new trial accounts to improve activation.',
+].join('\n');
+
+beforeEach(() => {
+  resetSectionCounter();
+  resetSuggestionCounter();
+});
+
+// ============================================
+// Unit: parseSpeakerTurn
+// ============================================
+
+describe('parseSpeakerTurn', () => {
+  it('parses "Name (hh:mm:ss): text"', () => {
+    expect(parseSpeakerTurn('Alice (00:12:31): we need to push the launch')).toEqual({
+      speaker: 'Alice',
+      timestamp: '00:12:31',
+      text: 'we need to push the launch',
+    });
+  });
+
+  it('parses "[mm:ss] Name: text"', () => {
+    expect(parseSpeakerTurn('[12:31] Bob Smith: by how much?')).toEqual({
+      speaker: 'Bob Smith',
+      timestamp: '12:31',
+      text: 'by how much?',
+    });
+  });
+
+  it('parses header-only "Name  hh:mm:ss" lines with empty text', () => {
+    expect(parseSpeakerTurn('Speaker 1  0:03:02')).toEqual({
+      speaker: 'Speaker 1',
+      timestamp: '0:03:02',
+      text: '',
+    });
+  });
+
+  it('parses "Name: text" without timestamp', () => {
+    expect(parseSpeakerTurn('Dana: I can take the pricing doc')).toEqual({
+      speaker: 'Dana',
+      text: 'I can take the pricing doc',
+    });
+  });
+
+  it('rejects note labels that look like speakers', () => {
+    expect(parseSpeakerTurn('Status: on track')).toBeNull();
+    expect(parseSpeakerTurn('Next steps: follow up with legal')).toBeNull();
+  });
+
+  it('rejects list items and plain prose', () => {
+    expect(parseSpeakerTurn('- Alice: owns the migration')).toBeNull();
+    expect(parseSpeakerTurn('we need to push the launch')).toBeNull();
+  });
+
+  it('converts timestamps to seconds', () => {
+    expect(timestampToSeconds('00:12:31')).toBe(751);
+    expect(timestampToSeconds('12:31')).toBe(751);
+    expect(timestampToSeconds('1:00:00.250')).toBe(3600);
+  });
+});
+
+// ============================================
+// Unit: looksLikeTranscript
+// ============================================
+
+describe('looksLikeTranscript', () => {
+  it('detects a timestamped transcript', () => {
+    expect(looksLikeTranscript(TRANSCRIPT)).toBe(true);
+  });
+
+  it('detects an untimestamped transcript when speakers repeat', () => {
+    const text = ['Alice: hi', 'Bob: hey', 'Alice: launch slips', 'Bob: ok'].join('\n');
+    expect(looksLikeTranscript(text)).toBe(true);
+  });
+
+  it('does not detect markdown notes with headings', () => {
+    const text = ['# Sync', 'Alice (00:00:05): hi', 'Bob (00:00:12): hey', 'Alice (00:00:20): ok'].join('\n');
+    expect(looksLikeTranscript(text)).toBe(false);
+  });
+
+  it('does not detect label-style notes', () => {
+    const text = ['Owner: Dana', 'Launch: Q3', 'We are moving the launch to Q3 due to hiring delays.'].join('\n');
+    expect(looksLikeTranscript(text)).toBe(false);
+  });
+
+  it('does not detect a single speaker monologue', () => {
+    const text = ['Alice: one', 'Alice: two', 'Alice: three'].join('\n');
+    expect(looksLikeTranscript(text)).toBe(false);
+  });
+});
+
+// ============================================
+// Integration: preprocessNote
+// ============================================
+
+describe('preprocessNote: transcript mode', () => {
+  it('auto-detects transcripts and segments by topic shifts', () => {
+    const { sections, format } = preprocessNote({ note_id: 'transcript-1', raw_markdown: TRANSCRIPT });
+
+    expect(format).toBe('transcript');
+    expect(sections.map((s) => s.heading_text)).toEqual(['General', 'Checkout revamp', 'Onboarding emails']);
+    // Speaker prefixes are stripped from the body text
+    expect(sections[1].raw_text).not.toContain('Bob (00:00:31)');
+    expect(sections[1].raw_text).toContain('We need to push the checkout launch');
+  });
+
+  it('keeps original note line indexes on transcript lines', () => {
+    const { sections } = preprocessNote({ note_id: 'transcript-1', raw_markdown: TRANSCRIPT });
+    const bobLine = sections[1].body_lines.find((l) => l.speaker === 'Bob');
+    expect(bobLine?.index).toBe(3);
+    expect(bobLine?.timestamp).toBe('00:00:31');
+  });
+
+  it('starts a new section after a long pause', () => {
+    const text = [
+      'Alice (00:00:05): The dashboard export is broken for large accounts.',
+      'Bob (00:00:15): I saw that too.',
+      'Alice (00:20:00): Back from the break.',
+      'Bob (00:20:10): Sure.',
+    ].join('\n');
+    const { sections } = preprocessNote({ note_id: 'pause', raw_markdown: text });
+    expect(sections.length).toBe(2);
+    expect(sections[1].start_line).toBe(2);
+  });
+
+  it('attaches header-only turns to their continuation lines', () => {
+    const text = [
+      'Alice  00:00:05',
+      'We need to push the launch by two sprints.',
+      '',
+      'Bob  00:00:30',
+      'Agreed.',
+      '',
+      'Alice  00:00:40',
+      'Great.',
+    ].join('\n');
+    const { sections, format } = preprocessNote({ note_id: 'headers', raw_markdown: text });
+    expect(format).toBe('transcript');
+    const continuation = sections[0].body_lines.find((l) => l.index === 1);
+    expect(continuation?.speaker).toBe('Alice');
+    expect(continuation?.timestamp).toBe('00:00:05');
+  });
+
+  it('splits header-format transcripts on long pauses and topic shifts', () => {
+    const text = [
+      'Alice  00:00:05',
+      'The dashboard export is broken for large accounts.',
+      '',
+      'Bob  00:00:15',
+      'I saw that too.',
+      '',
+      'Alice  00:20:00',
+      'Back from the break.',
+      '',
+      'Bob  00:20:10',
+      "Let's talk about the pricing page.",
+      '',
+      'Alice  00:20:20',
+      'The annual plan toggle is confusing.',
+    ].join('\n');
+    const { sections, format } = preprocessNote({ note_id: 'header-splits', raw_markdown: text });
+    expect(format).toBe('transcript');
+    expect(sections.map((s) => s.heading_text)).toEqual(['General', 'General', 'Pricing page']);
+    expect(sections[1].start_line).toBe(7);
+    expect(sections[2].start_line).toBe(10);
+  });
+
+  it('explicit markdown format disables detection', () => {
+    const { format, sections } = preprocessNote({
+      note_id: 'forced-md',
+      raw_markdown: TRANSCRIPT,
+      format: 'markdown',
+    });
+    expect(format).toBe('markdown');
+    expect(sections.length).toBe(1);
+  });
+
+  it('leaves regular markdown notes on the markdown path', () => {
+    const { format } = preprocessNote({
+      note_id: 'md',
+      raw_markdown: '# Launch\n\n- Move launch to Q3\n- Hire two engineers',
+    });
+    expect(format).toBe('markdown');
+  });
+});
+
+// ============================================
+// End-to-end: speaker attribution on evidence
+// ============================================
+
+describe('generateSuggestions: transcript evidence attribution', () => {
+  it('cites speaker and timestamp on evidence spans', () => {
+    const result = generateSuggestions({ note_id: 'transcript-e2e', raw_markdown: TRANSCRIPT });
+    expect(result.suggestions.length).toBeGreaterThan(0);
+
+    for (const suggestion of result.suggestions) {
+      const [span] = suggestion.evidence_spans;
+      expect(span.speaker).toBeDefined();
+      expect(['Alice', 'Bob', 'Carol']).toContain(span.speaker);
+    }
+
+    const launchUpdate = result.suggestions.find((s) => s.evidence_spans[0].text.includes('March 24'));
+    expect(launchUpdate?.evidence_spans[0].timestamp).toMatch(/^00:00:(31|50)$/);
+  });
+
+  it('does not attribute evidence for markdown notes', () => {
+    const result = generateSuggestions({
+      note_id: 'md-e2e',
+      raw_markdown: '## Launch Status\n\nThe launch moved from Jan to Feb because of vendor delays.',
+    });
+    for (const suggestion of result.suggestions) {
+      expect(suggestion.evidence_spans.every((span) => span.speaker === undefined)).toBe(true);
+    }
+  });
+});
+
+// ============================================
+// Adapter: note source selects transcript mode
+// ============================================
+
+describe('adaptConvexNote: source', () => {
+  it('maps granola_manual to transcript format', () => {
+    const note = adaptConvexNote({ _id: 'n1', body: 'x', createdAt: 0, source: 'granola_manual' });
+    expect(note.format).toBe('transcript');
+  });
+
+  it('leaves manual notes to auto-detection', () => {
+    const note = adaptConvexNote({ _id: 'n1', body: 'x', createdAt: 0, source: 'manual' });
+    expect(note.format).toBeUndefined();
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Suggestion Engine v2 - Transcript Parsing
+ *
+ * Recognizes raw meeting transcripts (Granola, Zoom, Otter exports) where
+ * content is a sequence of speaker turns rather than markdown structure:
+ *
+ *   Alice (00:12:31): we need to push the launch
+ *   [00:12:40] Bob: by how much?
+ *   Carol  00:13:02
+ *   two sprints, the payment provider is late
+ *
+ * Parsing is purely lexical. Segmentation of the annotated lines into
+ * sections lives in preprocessing.ts next to the markdown segmenter.
+ */
+
+import type { Line, Suggestion, EvidenceSpan } from './types';
+
+// ============================================
+// Speaker Turn Parsing
+// ============================================
+
+/**
+ * A single parsed speaker turn.
+ * `text` is empty for header-only turns ("Carol  00:13:02") whose utterance
+ * continues on the following lines.
+ */
+export interface SpeakerTurn {
+  speaker: string;
+  timestamp?: string;
+  text: string;
+}
+
+const TIMESTAMP = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:\.\d{1,3})?`;
+const SPEAKER_NAME = String.raw`[A-Z][\w'.-]*(?:\s+(?:[A-Z][\w'.-]*|\d{1,2})){0,2}`;
+
+/** "Alice (00:12:31): text" or "Alice [12:31] text" */
+const NAME_THEN_TIMESTAMP = new RegExp(
+  String.raw`^(${SPEAKER_NAME})\s*[([](${TIMESTAMP})[)\]]\s*:?\s*(.*)$`
+);
+/** "[00:12:31] Alice: text" or "00:12:31 - Alice: text" */
+const TIMESTAMP_THEN_NAME = new RegExp(
+  String.raw`^[([]?(${TIMESTAMP})[)\]]?\s*[-–]?\s*(${SPEAKER_NAME})\s*:\s*(.*)$`
+);
+/** "[00:12:31] Alice" header line, utterance on following lines */
+const TIMESTAMP_NAME_HEADER = new RegExp(
+  String.raw`^[([]?(${TIMESTAMP})[)\]]?\s+(${SPEAKER_NAME})\s*$`
+);
+/** "Alice  00:12:31" header line, utterance on following lines */
+const NAME_TIMESTAMP_HEADER = new RegExp(
+  String.raw`^(${SPEAKER_NAME})\s+(${TIMESTAMP})\s*$`
+);
+/** "Alice: text" (no timestamp) */
+const NAME_ONLY = new RegExp(String.raw`^(${SPEAKER_NAME}):\s+(.+)$`);
+
+/**
+ * Labels that look like "Name: text" but are note fields, not speakers.
+ * Only consulted for the timestamp-less form, which is the ambiguous one.
+ */
+const NON_SPEAKER_LABELS = new Set([
+  'action', 'action items', 'agenda', 'attendees', 'background', 'blocker',
+  'blockers', 'context', 'date', 'decision', 'decisions', 'deadline', 'due',
+  'eta', 'goal', 'goals', 'idea', 'issue', 'next', 'next steps', 'note',
+  'notes', 'owner', 'owners', 'plan', 'priority', 'problem', 'q', 'a',
+  'question', 'risk', 'risks', 'scope', 'status', 'summary', 'timeline',
+  'todo', 'topic', 'update', 'updates', 'why', 'what', 'how', 'when', 'who',
+]);
+
+function isPlausibleSpeaker(name: string): boolean {
+  return !NON_SPEAKER_LABELS.has(name.trim().toLowerCase());
+}
+
+/**
+ * Parse a single line as a speaker turn.
+ * Returns null when the line is not a turn (continuation text, blank, etc.).
+ */
+export function parseSpeakerTurn(text: string): SpeakerTurn | null {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  let match = trimmed.match(NAME_THEN_TIMESTAMP);
+  if (match) {
+    return { speaker: match[1].trim(), timestamp: match[2], text: match[3].trim() };
+  }
+
+  match = trimmed.match(TIMESTAMP_THEN_NAME);
+  if (match) {
+    return { speaker: match[2].trim(), timestamp: match[1], text: match[3].trim() };
+  }
+
+  match = trimmed.match(TIMESTAMP_NAME_HEADER);
+  if (match) {
+    return { speaker: match[2].trim(), timestamp: match[1], text: '' };
+  }
+
+  match = trimmed.match(NAME_TIMESTAMP_HEADER);
+  if (match) {
+    return { speaker: match[1].trim(), timestamp: match[2], text: '' };
+  }
+
+  match = trimmed.match(NAME_ONLY);
+  if (match && isPlausibleSpeaker(match[1])) {
+    return { speaker: match[1].trim(), text: match[2].trim() };
+  }
+
+  return null;
+}
+
+/**
+ * Convert a transcript timestamp ("1:02:03", "12:31", "00:12:31.500") to seconds.
+ */
+export function timestampToSeconds(timestamp: string): number {
+  const [clock] = timestamp.split('.');
+  const parts = clock.split(':').map((p) => parseInt(p, 10));
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// ============================================
+// Line Annotation
+// ============================================
+
+/**
+ * Annotate transcript lines.
+ *
+ * Speaker/timestamp prefixes are stripped from `text` so classifiers see the
+ * utterance only; `index` still points at the original note line so evidence
+ * spans stay addressable. Header-only turn lines become blank lines that carry
+ * the speaker forward to the continuation lines below them.
+ */
+export function annotateTranscriptLines(rawText: string): Line[] {
+  const rawLines = rawText.split('\n');
+  const lines: Line[] = [];
+  let currentSpeaker: string | undefined;
+  let currentTimestamp: string | undefined;
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const turn = parseSpeakerTurn(rawLines[i]);
+
+    if (turn) {
+      currentSpeaker = turn.speaker;
+      currentTimestamp = turn.timestamp;
+      lines.push({
+        index: i,
+        text: turn.text,
+        line_type: turn.text === '' ? 'blank' : 'paragraph',
+        speaker: turn.speaker,
+        timestamp: turn.timestamp,
+        is_turn_start: true,
+      });
+      continue;
+    }
+
+    const trimmed = rawLines[i].trim();
+    if (trimmed === '') {
+      lines.push({ index: i, text: '', line_type: 'blank' });
+      continue;
+    }
+
+    // Continuation of the current speaker's utterance
+    lines.push({
+      index: i,
+      text: trimmed,
+      line_type: 'paragraph',
+      speaker: currentSpeaker,
+      timestamp: currentTimestamp,
+    });
+  }
+
+  return lines;
+}
+
+// ============================================
+// Detection
+// ============================================
+
+/** Minimum number of speaker turns before a note can be treated as a transcript */
+const MIN_TRANSCRIPT_TURNS = 3;
+
+/**
+ * Heuristically decide whether raw note text is a speaker-turn transcript.
+ *
+ * Conservative by design: a false positive would strip structure from a
+ * regular markdown note. Requires:
+ * - no markdown headings
+ * - at least 3 turns from at least 2 distinct speakers
+ * - turn lines make up at least half of the non-blank lines
+ * - when no turn carries a timestamp, every speaker must talk at least twice
+ *   (label-style lines like "Owner: Dana" rarely repeat)
+ */
+export function looksLikeTranscript(rawText: string): boolean {
+  const rawLines = rawText.split('\n');
+  const nonBlank = rawLines.filter((l) => l.trim() !== '');
+  if (nonBlank.length === 0) return false;
+  if (nonBlank.some((l) => /^#{1,6}\s/.test(l.trim()))) return false;
+
+  const turns = nonBlank
+    .map((l) => parseSpeakerTurn(l))
+    .filter((t): t is SpeakerTurn => t !== null);
+
+  if (turns.length < MIN_TRANSCRIPT_TURNS) return false;
+
+  const speakerCounts = new Map<string, number>();
+  for (const turn of turns) {
+    speakerCounts.set(turn.speaker, (speakerCounts.get(turn.speaker) ?? 0) + 1);
+  }
+  if (speakerCounts.size < 2) return false;
+
+  if (turns.length / nonBlank.length < 0.5) return false;
+
+  const timestamped = turns.filter((t) => t.timestamp !== undefined).length;
+  if (timestamped === 0) {
+    return [...speakerCounts.values()].every((count) => count >= 2);
+  }
+  return timestamped / turns.length >= 0.5;
+}
+
+// ============================================
+// Evidence Attribution
+// ============================================
+
+/**
+ * Attach speaker and timestamp to every evidence span whose first line is a
+ * transcript line, so suggestions can cite who said what and when.
+ * Spans that already carry a speaker are left untouched.
+ */
+export function attributeEvidenceSpans(suggestions: Suggestion[], lines: Line[]): Suggestion[] {
+  const byIndex = new Map<number, Line>();
+  for (const line of lines) byIndex.set(line.index, line);
+
+  return suggestions.map((suggestion) => {
+    let changed = false;
+    const spans = suggestion.evidence_spans.map((span): EvidenceSpan => {
+      if (span.speaker) return span;
+      const line = byIndex.get(span.start_line);
+      if (!line?.speaker) return span;
+      changed = true;
+      return { ...span, speaker: line.speaker, timestamp: line.timestamp };
+    });
+    return changed ? { ...suggestion, evidence_spans: spans } : suggestion;
+  });
+}
@@ -5,6 +5,10 @@
  * and execution artifacts with hard quality gates.
  */
 
+import type { ClarificationReason as BeliefClarificationReason } from '../belief-pipeline/types';
+import type { LLMClassificationRun } from './llmClassifiers';
+import type { LLMRewriteRun } from './llmRewrite';
+
 // ============================================
 // External Input Types
 // ============================================
@@ -17,9 +21,21 @@ export interface NoteInput {
   raw_markdown: string;
   author_id?: string;
   authored_at?: string; // ISO8601
+  /** When the meeting took place (ISO8601); anchors relative dates. Falls back to authored_at */
+  meeting_at?: string;
   source?: 'doc' | 'meeting' | 'ad_hoc';
+  /**
+   * How raw_markdown should be segmented. When omitted the preprocessor
+   * auto-detects speaker-turn transcripts and falls back to markdown.
+   */
+  format?: NoteFormat;
 }
 
+/**
+ * Note body format: structured markdown or a raw speaker-turn transcript
+ */
+export type NoteFormat = 'markdown' | 'transcript';
+
 /**
  * Initiative snapshot for routing (optional, not required for generation)
  */
@@ -36,7 +52,8 @@ export interface InitiativeSnapshot {
  */
 export interface GeneratorContext {
   initiatives?: InitiativeSnapshot[];
-  embedding_model?: 'openai' | 'local' | 'none';
+  embedding_model?: 'openai' | 'local' | 'none'; // registry name (embeddings.ts); default 'local'
+  llm_model?: string; // registry name (llmProviders.ts); used when use_llm_classifiers
   now?: number; // timestamp
   feature_flags?: Record<string, boolean>;
 }
@@ -66,6 +83,10 @@ export interface Line {
   heading_level?: number; // 1-6 for headings
   indent_level?: number; // for list items
   is_code_fence?: boolean;
+  // Transcript-only annotations (see transcript.ts)
+  speaker?: string;
+  timestamp?: string; // as written in the transcript, e.g. "00:12:31"
+  is_turn_start?: boolean; // true on the line that opened the speaker turn
 }
 
 /**
@@ -153,6 +174,12 @@ export interface EvidenceSpan {
   start_line: number;
   end_line: number;
   text: string;
+  // Set when the evidence comes from a transcript speaker turn
+  speaker?: string;
+  timestamp?: string;
+  // Set on evidence merged from another note (cross-note clustering);
+  // start_line/end_line are -1 because they refer to that note
+  note_id?: string;
 }
 
 // ============================================
@@ -162,7 +189,7 @@ export interface EvidenceSpan {
 /**
  * Suggestion type enum
  */
-export type SuggestionType = 'idea' | 'project_update' | 'bug' | 'risk';
+export type SuggestionType = 'idea' | 'project_update' | 'bug' | 'risk' | 'action_item' | 'conflict';
 
 /**
  * Plan mutation payload
@@ -192,8 +219,98 @@ export interface ExecutionArtifactPayload {
 export type SuggestionPayload = {
   after_description?: string;
   draft_initiative?: DraftInitiative;
+  /** Schedule change resolved to calendar dates (project_update only; see dateResolver.ts) */
+  schedule_delta?: ScheduleDelta;
+  /** Who does what by when (action_item only; see actionItemSeeding.ts) */
+  action_item?: ActionItemPayload;
+  /** Note vs initiative state or earlier note (conflict only; see contradictions.ts) */
+  conflict?: ConflictPayload;
 };
 
+/**
+ * An action item from the note: "@Dana to send the pricing doc by Thursday"
+ */
+export interface ActionItemPayload {
+  /** Name or role as written, without the @; null when nobody was named */
+  assignee: string | null;
+  /** What is to be delivered, e.g. "send the pricing doc" */
+  deliverable: string;
+  /** Due clause as written, e.g. "by Thursday" */
+  due_text?: string;
+  /** Due date resolved against the meeting date (absent without an anchor) */
+  due?: ResolvedDate;
+}
+
+/**
+ * Initiative dimensions a note can contradict
+ */
+export type ConflictDimension = 'timeline' | 'scope' | 'ownership' | 'status';
+
+/**
+ * Both sides of a contradiction: "launch is still on track for March 3"
+ * against a release target of Apr 14
+ */
+export interface ConflictPayload {
+  dimension: ConflictDimension;
+  initiative_id: string;
+  initiative_title: string;
+  /** What this note says (its evidence line) */
+  note_statement: string;
+  /** What the initiative records, or the earlier note's evidence line */
+  conflicting_statement: string;
+  conflicting_source: 'initiative' | 'note';
+  /** Set when conflicting_source is 'note' */
+  conflicting_note_id?: string;
+}
+
+/**
+ * How specific a resolved date is. "March" resolves to March 31 with
+ * precision 'month'; renderers use this to avoid inventing a day.
+ */
+export type DatePrecision = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * A date expression from the note resolved against the meeting date
+ */
+export interface ResolvedDate {
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+  precision: DatePrecision;
+  /** Expression as written, e.g. "end of Q3" */
+  text: string;
+}
+
+/**
+ * A duration expression ("2 sprints", "three weeks")
+ */
+export interface ResolvedDuration {
+  amount: number;
+  unit: 'day' | 'week' | 'sprint' | 'month' | 'quarter';
+  /** Calendar days; sprints use DateResolverConfig.sprint_length_days */
+  days: number;
+  text: string;
+}
+
+/**
+ * Concrete before/after dates for a schedule change.
+ *
+ * Only what the note states is filled in: "slip by 2 sprints" has a shift
+ * but no dates, so appliers compute `after` from the initiative's current
+ * target date.
+ */
+export interface ScheduleDelta {
+  /** Meeting date the expressions were resolved against (YYYY-MM-DD) */
+  anchor: string;
+  before?: ResolvedDate;
+  after?: ResolvedDate;
+  /** Stated shift; negative when pulled in */
+  shift?: ResolvedDuration;
+  /** after - before in days when both are known, otherwise the signed shift */
+  shift_days?: number;
+  /** Evidence text the delta was resolved from */
+  source_text: string;
+}
+
 /**
  * Confidence scores for a suggestion
  */
@@ -209,8 +326,24 @@ export interface SuggestionScores {
  */
 export interface SuggestionRouting {
   attached_initiative_id?: string;
-  similarity?: number;
+  similarity?: number; // best candidate similarity
   create_new: boolean;
+  // Ranked initiative candidates, best first (at most ROUTING_TOP_K, similarity > 0)
+  candidates?: RoutingCandidate[];
+  // Best minus runner-up similarity (set when there are >= 2 candidates)
+  margin?: number;
+  // True when no single initiative can be picked; create_new is false and
+  // the suggestion carries the ambiguous_initiative clarification reason
+  ambiguous?: boolean;
+}
+
+/**
+ * Initiative candidate considered during routing
+ */
+export interface RoutingCandidate {
+  initiative_id: string;
+  title: string;
+  similarity: number;
 }
 
 /**
@@ -230,7 +363,9 @@ export type ClarificationReason =
   | 'low_overall_score'
   | 'low_section_actionability'
   | 'ambiguous_initiative'
-  | 'fallback_synthesis';
+  | 'fallback_synthesis'
+  // Shared with the belief pipeline; set on conflict suggestions
+  | Extract<BeliefClarificationReason, 'conflicting_statements'>;
 
 /**
  * Standalone suggestion context (additive)
@@ -262,7 +397,10 @@ export interface Suggestion {
   scores: SuggestionScores;
   routing: SuggestionRouting;
   // Stable identifier for dedupe and persistence across regenerates
+  // (v2 evidence-anchored key on final output; see keyAnchoring.ts)
   suggestionKey: string;
+  // v1 title-based key, kept so decisions stored under it can be remapped
+  legacySuggestionKey?: string;
   // Structural hint: idea (new work) or project_update (plan change)
   structural_hint?: 'idea' | 'project_update';
   // Title source tracking (for validation and debugging)
@@ -305,6 +443,9 @@ export interface ThresholdConfig {
   T_section_min: number; // min section actionability
   T_generic: number; // max generic ratio for anti-vacuity
   T_attach: number; // min similarity for initiative attachment
+  T_attach_embedding?: number; // min embedding similarity for attachment (defaults to T_attach)
+  T_ambiguity_margin?: number; // min best-vs-runner-up gap to attach without asking
+  T_ambiguity_band?: number; // near-miss band below the attach threshold that is ambiguous, not create_new
   MIN_EVIDENCE_CHARS: number; // min evidence character count
 }
 
@@ -318,6 +459,9 @@ export const DEFAULT_THRESHOLDS: ThresholdConfig = {
   T_section_min: 0.6,
   T_generic: 0.55,
   T_attach: 0.80,
+  T_attach_embedding: 0.30,
+  T_ambiguity_margin: 0.05,
+  T_ambiguity_band: 0.05,
   MIN_EVIDENCE_CHARS: 120,
 };
 
@@ -343,10 +487,31 @@ export interface GeneratorConfig {
   /** Display cap config passed through to the presentation layer. */
   display?: DisplayConfig;
   enable_debug: boolean;
-  use_llm_classifiers: boolean; // false = rule-based only
-  embedding_enabled: boolean; // for routing
+  use_llm_classifiers: boolean; // false = rule-based only (async entry points only)
+  /** Max LLM tokens per run; sections beyond it use rule-based classification */
+  llm_token_budget?: number;
+  /** LLM polish of titles/bodies after Stage 7, kept only when grounded (llmRewrite.ts; async entry points only) */
+  use_llm_rewrite?: boolean;
+  embedding_enabled: boolean; // for routing (async entry points only)
+  /** Calendar conventions for resolving schedule deltas */
+  dates?: DateResolverConfig;
 }
 
+/**
+ * Team calendar conventions used by dateResolver.ts
+ */
+export interface DateResolverConfig {
+  /** Days per sprint ("slip by 2 sprints") */
+  sprint_length_days: number;
+  /** First month of the fiscal year, 1-12 ("Q3" = fiscal Q3) */
+  fiscal_year_start_month: number;
+}
+
+export const DEFAULT_DATE_RESOLVER_CONFIG: DateResolverConfig = {
+  sprint_length_days: 14,
+  fiscal_year_start_month: 1,
+};
+
 /**
  * Default configuration
  */
@@ -357,6 +522,7 @@ export const DEFAULT_CONFIG: GeneratorConfig = {
   enable_debug: false,
   use_llm_classifiers: false,
   embedding_enabled: false,
+  dates: DEFAULT_DATE_RESOLVER_CONFIG,
 };
 
 // ============================================
@@ -376,6 +542,7 @@ export interface GeneratorDebugInfo {
   suggestions_after_scoring: number;
   routing_attached: number;
   routing_create_new: number;
+  routing_ambiguous?: number;
   dropped_suggestions: Array<{
     section_id: string;
     reason: string;
@@ -388,6 +555,10 @@ export interface GeneratorDebugInfo {
   high_confidence_count?: number;
   // Invariant tracking
   invariant_plan_change_always_emitted?: boolean;
+  /** LLM classification run (use_llm_classifiers), including per-section fallbacks */
+  llm?: LLMClassificationRun;
+  /** LLM title/body rewrite (use_llm_rewrite): rule output vs rewrite per suggestion */
+  llm_rewrite?: LLMRewriteRun;
 }
 
 /**
@@ -478,4 +649,6 @@ export interface RunResult {
 export interface PreprocessingResult {
   lines: Line[];
   sections: Section[];
+  /** Format actually used for segmentation (explicit or auto-detected) */
+  format: NoteFormat;
 }
@@ -1,9 +1,27 @@
 /**
  * Tests for suggestion key utilities
+ *
+ * Tests:
+ *   1. normalizeTitle / computeSuggestionKey (v1)
+ *   2. sha1Hex and v2 evidence-anchored keys
+ *   3. Pipeline keys: anchored on evidence, stable under title rewording
+ *   4. matchSuggestionKeys / remapSuggestionKeys (decision migration)
  */
 
 import { describe, it, expect } from 'vitest';
-import { normalizeTitle, computeSuggestionKey } from './suggestion-keys';
+import {
+  normalizeTitle,
+  computeSuggestionKey,
+  computeSuggestionKeyV2,
+  getSuggestionKeyVersion,
+  matchSuggestionKeys,
+  remapSuggestionKeys,
+  sha1Hex,
+} from './suggestion-keys';
+import type { KeyedSuggestionSnapshot } from './suggestion-keys';
+import { generateSuggestions, anchorSuggestionKeys, computeHeadingPaths, preprocessNote } from './suggestion-engine-v2';
+import { resetSectionCounter } from './suggestion-engine-v2/preprocessing';
+import type { NoteInput } from './suggestion-engine-v2/types';
 
 describe('normalizeTitle', () => {
   it('converts to lowercase', () => {
@@ -189,3 +207,170 @@ describe('computeSuggestionKey', () => {
     expect(key2).toBe(key3);
   });
 });
+
+// ============================================
+// v2 keys
+// ============================================
+
+describe('sha1Hex', () => {
+  it('matches standard SHA-1 digests', () => {
+    expect(sha1Hex('')).toBe('da39a3ee5e6b4b0d3255bfef95601890afd80709');
+    expect(sha1Hex('abc')).toBe('a9993e364706816aba3e25717850c26c9cd0d89d');
+    expect(sha1Hex('The quick brown fox jumps over the lazy dog')).toBe('2fd4e1c67a2d28fced849ee1bb76e7391b93eb12');
+  });
+
+  it('hashes UTF-8 bytes', () => {
+    expect(sha1Hex('héllo')).toBe('35b5ea45c5e41f78b46a937cc74d41dfea920890');
+  });
+});
+
+describe('computeSuggestionKeyV2', () => {
+  const params = {
+    noteId: 'note123',
+    type: 'project_update' as const,
+    headingPath: 'Planning sync > Checkout',
+    evidenceText: '- Push the checkout launch to April.',
+  };
+
+  it('keeps stored v1 keys reproducible', () => {
+    expect(computeSuggestionKey({ noteId: 'note123', sourceSectionId: 'sec456', type: 'idea', title: 'Build user dashboard' }))
+      .toBe('z1l7ie');
+  });
+
+  it('is versioned and ignores list markers, case and punctuation', () => {
+    const key = computeSuggestionKeyV2(params);
+    expect(key).toMatch(/^v2_[0-9a-f]{40}$/);
+    expect(getSuggestionKeyVersion(key)).toBe(2);
+    expect(getSuggestionKeyVersion('z1l7ie')).toBe(1);
+    expect(computeSuggestionKeyV2({ ...params, evidenceText: 'push the Checkout launch to April' })).toBe(key);
+    expect(computeSuggestionKeyV2({ ...params, headingPath: 'planning sync>checkout' })).toBe(key);
+  });
+
+  it('changes with evidence, heading path, type and disambiguator', () => {
+    const key = computeSuggestionKeyV2(params);
+    expect(computeSuggestionKeyV2({ ...params, evidenceText: 'Push the checkout launch to May.' })).not.toBe(key);
+    expect(computeSuggestionKeyV2({ ...params, headingPath: 'Checkout' })).not.toBe(key);
+    expect(computeSuggestionKeyV2({ ...params, type: 'risk' })).not.toBe(key);
+    expect(computeSuggestionKeyV2({ ...params, disambiguator: 'Delay launch' })).not.toBe(key);
+  });
+});
+
+// ============================================
+// Pipeline keys
+// ============================================
+
+const NOTE: NoteInput = {
+  note_id: 'note-keys',
+  raw_markdown: `# Roadmap
+
+Quarterly planning notes.
+
+## Checkout
+
+### Payments
+- We need to push the checkout launch from March to April because payments are not ready.
+`,
+};
+
+describe('evidence-anchored pipeline keys', () => {
+  it('builds heading paths from heading levels', () => {
+    resetSectionCounter();
+    const { sections } = preprocessNote(NOTE);
+    const paths = [...computeHeadingPaths(sections).values()];
+    expect(paths).toContain('Roadmap > Checkout > Payments');
+  });
+
+  it('emits v2 keys and keeps the v1 key as legacySuggestionKey', () => {
+    const { suggestions } = generateSuggestions(NOTE);
+    expect(suggestions.length).toBeGreaterThan(0);
+    for (const suggestion of suggestions) {
+      expect(getSuggestionKeyVersion(suggestion.suggestionKey)).toBe(2);
+      expect(getSuggestionKeyVersion(suggestion.legacySuggestionKey!)).toBe(1);
+    }
+  });
+
+  it('keeps the key when the title is reworded', () => {
+    resetSectionCounter();
+    const { sections } = preprocessNote(NOTE);
+    const { suggestions } = generateSuggestions(NOTE);
+    const reworded = suggestions.map((s) => ({ ...s, title: `Update: ${s.title} (reworded)` }));
+
+    expect(anchorSuggestionKeys(reworded, sections).map((s) => s.suggestionKey))
+      .toEqual(suggestions.map((s) => s.suggestionKey));
+    expect(anchorSuggestionKeys(reworded, sections)[0].legacySuggestionKey).toBe(suggestions[0].legacySuggestionKey);
+  });
+
+  it('disambiguates same-type suggestions on the same evidence', () => {
+    resetSectionCounter();
+    const { sections } = preprocessNote(NOTE);
+    const [first] = generateSuggestions(NOTE).suggestions;
+    const keys = anchorSuggestionKeys([first, { ...first, title: 'Other title' }, first], sections)
+      .map((s) => s.suggestionKey);
+    expect(new Set(keys).size).toBe(3);
+  });
+});
+
+// ============================================
+// Matching and migration
+// ============================================
+
+function snapshot(overrides: Partial<KeyedSuggestionSnapshot>): KeyedSuggestionSnapshot {
+  return {
+    suggestionKey: 'k',
+    type: 'project_update',
+    title: 'Update: Push checkout launch',
+    evidenceText: 'We need to push the checkout launch from March to April.',
+    ...overrides,
+  };
+}
+
+describe('matchSuggestionKeys', () => {
+  it('matches identical keys, then legacy keys, then overlapping evidence', () => {
+    const previous = [
+      snapshot({ suggestionKey: 'v2_same' }),
+      snapshot({ suggestionKey: 'old1', evidenceText: 'Hire a data engineer.' }),
+      snapshot({ suggestionKey: 'old2', type: 'risk', evidenceText: 'Vendor contract may lapse in June.' }),
+    ];
+    const current = [
+      snapshot({ suggestionKey: 'v2_same' }),
+      snapshot({ suggestionKey: 'v2_hire', legacySuggestionKey: 'old1', evidenceText: 'Hire a data engineer.' }),
+      snapshot({ suggestionKey: 'v2_risk', type: 'risk', title: 'Risk: Contract lapse', evidenceText: 'Vendor contract may lapse in late June.' }),
+    ];
+
+    expect(matchSuggestionKeys(previous, current)).toEqual(
+      new Map([['v2_same', 'v2_same'], ['old1', 'v2_hire'], ['old2', 'v2_risk']])
+    );
+  });
+
+  it('does not match across types or unrelated evidence', () => {
+    const previous = [snapshot({ suggestionKey: 'old' })];
+    expect(matchSuggestionKeys(previous, [snapshot({ suggestionKey: 'new', type: 'idea' })]).size).toBe(0);
+    expect(matchSuggestionKeys(previous, [snapshot({ suggestionKey: 'new', evidenceText: 'Ship dark mode.' })]).size).toBe(0);
+  });
+
+  it('falls back to title overlap when evidence is missing', () => {
+    const matches = matchSuggestionKeys(
+      [snapshot({ suggestionKey: 'old', evidenceText: '' })],
+      [snapshot({ suggestionKey: 'new', title: 'Update: push the checkout launch', evidenceText: 'Unrelated line.' })]
+    );
+    expect(matches.get('old')).toBe('new');
+  });
+});
+
+describe('remapSuggestionKeys', () => {
+  it('remaps only keys the current run no longer produces', () => {
+    const current = [
+      snapshot({ suggestionKey: 'v2_a', legacySuggestionKey: 'legacy_a' }),
+      snapshot({ suggestionKey: 'v2_b', evidenceText: 'Hire a data engineer.' }),
+    ];
+    const previous = [snapshot({ suggestionKey: 'old_b', evidenceText: 'Hire a data engineer soon.' })];
+
+    const remaps = remapSuggestionKeys(['legacy_a', 'old_b', 'v2_b', 'gone'], previous, current);
+
+    // v2_b is still produced, so old_b cannot take it over
+    expect(remaps).toEqual(new Map([['legacy_a', 'v2_a']]));
+    expect(remapSuggestionKeys(['legacy_a', 'old_b'], previous, current)).toEqual(
+      new Map([['legacy_a', 'v2_a'], ['old_b', 'v2_b']])
+    );
+  });
+});
@@ -2,9 +2,20 @@
  * Suggestion Key Utilities
  *
  * Provides stable identifiers for suggestions across regenerates.
- * Key format: sha1(noteId|sourceSectionId|type|normalizedTitle)
+ *
+ * Key versions:
+ * - v1: hash(noteId|sourceSectionId|type|normalizedTitle). Changes whenever
+ *   the title is reworded or the section index shifts.
+ * - v2: "v2_" + sha1(v2|noteId|type|headingPath|normalizedEvidence). Anchored
+ *   on the evidence line and where it sits in the note, so title rewording
+ *   (Stage 7 contract, LLM rewrite) keeps the key.
+ *
+ * Both hashes are pure JS, so the browser and Convex compute identical keys.
+ * Decisions stored under v1 keys are remapped with remapSuggestionKeys.
  */
 
+import type { SuggestionType } from './suggestion-engine-v2/types';
+
 /**
  * Normalize a suggestion title to a canonical form for stable key generation.
  *
@@ -31,42 +42,81 @@ export function normalizeTitle(title: string): string {
 }
 
 /**
- * Simple SHA1 implementation for stable key generation.
- * This is sufficient for deduplication purposes (not cryptographic security).
+ * 32-bit rolling hash used for v1 suggestion keys and decision keys.
+ *
+ * The original implementation only fell back to real SHA-1 when
+ * crypto.subtle was missing, which no supported runtime (browsers, Node 18+,
+ * Convex) hits, so every stored v1 key is this hash.
  */
-function sha1(str: string): string {
-  // Simple hash implementation using built-in functionality
-  // For Node.js and modern environments
-  if (typeof crypto !== 'undefined' && crypto.subtle) {
-    // Browser environment - we'll use a simpler hash for now
-    // In production, you might want to use a proper SHA1 library
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return Math.abs(hash).toString(36);
+function legacyHash(str: string): string {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32bit integer
   }
+  return Math.abs(hash).toString(36);
+}
+
+/**
+ * Synchronous SHA-1 (hex) over the UTF-8 bytes of `input`.
+ *
+ * Not for security: it exists so key generation gives the same result in the
+ * browser and in Convex without the async crypto.subtle API.
+ */
+export function sha1Hex(input: string): string {
+  const bytes = new TextEncoder().encode(input);
+  const bitLength = bytes.length * 8;
+  const paddedLength = (((bytes.length + 8) >> 6) + 1) << 6;
+  const data = new Uint8Array(paddedLength);
+  data.set(bytes);
+  data[bytes.length] = 0x80;
+  const view = new DataView(data.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89;
+  let h2 = 0x98badcfe;
+  let h3 = 0x10325476;
+  let h4 = 0xc3d2e1f0;
+  const w = new Uint32Array(80);
 
-  // For Node.js environment (used in Convex backend)
-  try {
-    const crypto = require('crypto');
-    return crypto.createHash('sha1').update(str).digest('hex');
-  } catch {
-    // Fallback: simple hash for environments without crypto
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
     }
-    return Math.abs(hash).toString(36);
+
+    let a = h0, b = h1, c = h2, d = h3, e = h4;
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) { f = (b & c) | (~b & d); k = 0x5a827999; }
+      else if (i < 40) { f = b ^ c ^ d; k = 0x6ed9eba1; }
+      else if (i < 60) { f = (b & c) | (b & d) | (c & d); k = 0x8f1bbcdc; }
+      else { f = b ^ c ^ d; k = 0xca62c1d6; }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+
+    h0 = (h0 + a) >>> 0;
+    h1 = (h1 + b) >>> 0;
+    h2 = (h2 + c) >>> 0;
+    h3 = (h3 + d) >>> 0;
+    h4 = (h4 + e) >>> 0;
   }
+
+  return [h0, h1, h2, h3, h4].map((h) => h.toString(16).padStart(8, '0')).join('');
 }
 
 /**
- * Compute a stable suggestion key from its core attributes.
+ * Compute a v1 suggestion key from its core attributes.
  *
  * The key uniquely identifies a suggestion across regenerates based on:
  * - The note it came from
@@ -74,15 +124,17 @@ function sha1(str: string): string {
  * - The suggestion type (idea vs project_update)
  * - The normalized title
  *
- * Uses SHA1 hash of the concatenated components for stability.
+ * The pipeline still uses v1 keys internally (dedupe, candidate ids); final
+ * suggestions are re-keyed with computeSuggestionKeyV2 and keep this key as
+ * legacySuggestionKey.
  *
  * @param params - Suggestion key components
- * @returns Stable suggestion key string (SHA1 hash)
+ * @returns v1 suggestion key string
  */
 export function computeSuggestionKey(params: {
   noteId: string;
   sourceSectionId: string;
-  type: 'idea' | 'project_update';
+  type: SuggestionType;
   title: string;
 }): string {
   const { noteId, sourceSectionId, type, title } = params;
@@ -91,6 +143,217 @@ export function computeSuggestionKey(params: {
   // Concatenate with pipe separator as specified in the task
   const payload = `${noteId}|${sourceSectionId}|${type}|${normalized}`;
 
-  // Return SHA1 hash
-  return sha1(payload);
+  return legacyHash(payload);
+}
+
+/**
+ * Compute a stable decision record key.
+ *
+ * Decisions are keyed by note and normalized statement (not section), so
+ * re-heading a note or moving the line keeps the same decision record.
+ *
+ * @param params - Decision key components
+ * @returns Stable decision key string
+ */
+export function computeDecisionKey(params: {
+  noteId: string;
+  statement: string;
+}): string {
+  return legacyHash(`${params.noteId}|decision|${normalizeTitle(params.statement)}`);
+}
+
+// ============================================
+// v2: Evidence-Anchored Keys
+// ============================================
+
+export const SUGGESTION_KEY_VERSION = 2;
+
+const V2_KEY_PREFIX = 'v2_';
+
+/**
+ * Version of a stored suggestion key (keys without a version prefix are v1)
+ */
+export function getSuggestionKeyVersion(key: string): 1 | 2 {
+  return key.startsWith(V2_KEY_PREFIX) ? 2 : 1;
+}
+
+/**
+ * Normalize evidence text for key generation: list markers, punctuation,
+ * case and whitespace are ignored; capped at 240 chars.
+ */
+export function normalizeEvidenceText(text: string): string {
+  return text
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s+/gm, '')
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 240);
+}
+
+/**
+ * Normalize a heading path ("Planning sync > Checkout") part by part
+ */
+export function normalizeHeadingPath(headingPath: string): string {
+  return headingPath
+    .split('>')
+    .map(normalizeTitle)
+    .filter(Boolean)
+    .join(' > ');
+}
+
+/**
+ * Compute a v2 suggestion key anchored on the evidence and heading path.
+ *
+ * The title is not part of the key, so rewording keeps it. Two suggestions
+ * of the same type on the same evidence line are told apart by passing a
+ * disambiguator (the pipeline passes the title).
+ *
+ * @param params - Key components; evidenceText is the primary evidence span
+ * @returns "v2_" + SHA-1 hex
+ */
+export function computeSuggestionKeyV2(params: {
+  noteId: string;
+  type: SuggestionType;
+  headingPath: string;
+  evidenceText: string;
+  disambiguator?: string;
+}): string {
+  const { noteId, type, headingPath, evidenceText, disambiguator } = params;
+  const parts = [`v${SUGGESTION_KEY_VERSION}`, noteId, type, normalizeHeadingPath(headingPath), normalizeEvidenceText(evidenceText)];
+  if (disambiguator !== undefined) parts.push(normalizeTitle(disambiguator));
+  return V2_KEY_PREFIX + sha1Hex(parts.join('|'));
+}
+
+// ============================================
+// Key Matching and Migration
+// ============================================
+
+/**
+ * What key matching needs to know about a suggestion from one engine run
+ */
+export interface KeyedSuggestionSnapshot {
+  suggestionKey: string;
+  type: SuggestionType;
+  title: string;
+  evidenceText: string;
+  /** v1 key of the same suggestion, when suggestionKey is v2 */
+  legacySuggestionKey?: string;
+}
+
+/** Min evidence token overlap for two runs' suggestions to be the same one */
+const MIN_EVIDENCE_OVERLAP = 0.6;
+/** Min title token overlap, used when either side has no evidence */
+const MIN_TITLE_OVERLAP = 0.75;
+
+/** Jaccard overlap of normalized tokens, 0-1 */
+export function tokenOverlap(a: string, b: string): number {
+  const left = new Set(normalizeEvidenceText(a).split(' ').filter(Boolean));
+  const right = new Set(normalizeEvidenceText(b).split(' ').filter(Boolean));
+  const shared = [...left].filter((token) => right.has(token)).length;
+  const union = left.size + right.size - shared;
+  return union > 0 ? shared / union : 0;
+}
+
+function matchScore(previous: KeyedSuggestionSnapshot, current: KeyedSuggestionSnapshot): number {
+  if (previous.type !== current.type) return 0;
+  if (previous.evidenceText.trim() && current.evidenceText.trim()) {
+    const overlap = tokenOverlap(previous.evidenceText, current.evidenceText);
+    return overlap >= MIN_EVIDENCE_OVERLAP ? overlap : 0;
+  }
+  const overlap = tokenOverlap(previous.title, current.title);
+  return overlap >= MIN_TITLE_OVERLAP ? overlap : 0;
+}
+
+/**
+ * Match the previous run's suggestions to the current run's, one to one.
+ *
+ * In order: identical key, then legacy key (a v1 key now carried as
+ * legacySuggestionKey), then fuzzy — same type and overlapping evidence
+ * (or overlapping title when evidence is missing), best score first.
+ *
+ * @returns previous key → current key for every matched suggestion
+ */
+export function matchSuggestionKeys(
+  previous: KeyedSuggestionSnapshot[],
+  current: KeyedSuggestionSnapshot[]
+): Map<string, string> {
+  const matches = new Map<string, string>();
+  const claimed = new Set<string>();
+  const claim = (from: string, to: string) => {
+    matches.set(from, to);
+    claimed.add(to);
+  };
+
+  const currentKeys = new Set(current.map((s) => s.suggestionKey));
+  const byLegacyKey = new Map(
+    current.filter((s) => s.legacySuggestionKey).map((s) => [s.legacySuggestionKey!, s.suggestionKey])
+  );
+
+  const unmatched: KeyedSuggestionSnapshot[] = [];
+  for (const prev of previous) {
+    if (currentKeys.has(prev.suggestionKey) && !claimed.has(prev.suggestionKey)) {
+      claim(prev.suggestionKey, prev.suggestionKey);
+    } else {
+      unmatched.push(prev);
+    }
+  }
+
+  const fuzzy: KeyedSuggestionSnapshot[] = [];
+  for (const prev of unmatched) {
+    const legacyMatch = byLegacyKey.get(prev.suggestionKey);
+    if (legacyMatch && !claimed.has(legacyMatch)) {
+      claim(prev.suggestionKey, legacyMatch);
+    } else {
+      fuzzy.push(prev);
+    }
+  }
+
+  const pairs = fuzzy
+    .flatMap((prev) => current.map((cur) => ({ prev, cur, score: matchScore(prev, cur) })))
+    .filter((pair) => pair.score > 0)
+    .sort((a, b) => b.score - a.score);
+  for (const { prev, cur } of pairs) {
+    if (matches.has(prev.suggestionKey) || claimed.has(cur.suggestionKey)) continue;
+    claim(prev.suggestionKey, cur.suggestionKey);
+  }
+
+  return matches;
+}
+
+/**
+ * New keys for stored keys (e.g. suggestionDecisions) that the current run
+ * no longer produces.
+ *
+ * A stored key is remapped when a current suggestion carries it as its
+ * legacy key, or when the previous run's suggestion with that key matches a
+ * current one (matchSuggestionKeys). Keys still produced, and keys with no
+ * match, are left out. Two stored keys never map to the same new key.
+ *
+ * @param storedKeys - Keys to carry forward
+ * @param previous - Previous run's suggestions (may be empty)
+ * @param current - Current run's suggestions
+ * @returns stored key → current key
+ */
+export function remapSuggestionKeys(
+  storedKeys: string[],
+  previous: KeyedSuggestionSnapshot[],
+  current: KeyedSuggestionSnapshot[]
+): Map<string, string> {
+  const currentKeys = new Set(current.map((s) => s.suggestionKey));
+  const byLegacyKey = new Map(
+    current.filter((s) => s.legacySuggestionKey).map((s) => [s.legacySuggestionKey!, s.suggestionKey])
+  );
+  const matches = matchSuggestionKeys(previous, current);
+
+  const remaps = new Map<string, string>();
+  const targets = new Set(storedKeys.filter((key) => currentKeys.has(key)));
+  for (const key of storedKeys) {
+    if (currentKeys.has(key)) continue;
+    const target = byLegacyKey.get(key) ?? matches.get(key);
+    if (!target || targets.has(target)) continue;
+    remaps.set(key, target);
+    targets.add(target);
+  }
+  return remaps;
 }
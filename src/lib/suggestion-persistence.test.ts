@@ -6,6 +6,7 @@
  * - Applied suggestions stay applied after regenerate
  * - Dedupe uses suggestionKey, not ephemeral ids
  * - suggestionKey is computed correctly and includes required fields
+ *   (v2 evidence-anchored key, v1 kept as legacySuggestionKey)
  */
 
 import { describe, it, expect } from 'vitest';
@@ -51,7 +52,7 @@ Build an AI-powered search feature to help users find relevant documents faster.
       }
     });
 
-    it('computes suggestionKey from note, section, type, and title', () => {
+    it('keeps the v1 key (note, section, type, title) as legacySuggestionKey', () => {
       const note: NoteInput = {
         note_id: 'test-note-002',
         raw_markdown: `# Meeting Notes
@@ -66,7 +67,7 @@ Shift the Q2 launch to Q3 because we need more time for testing.`,
       if (result.suggestions.length > 0) {
         const suggestion = result.suggestions[0];
 
-        // Verify the suggestionKey is deterministic
+        // The v1 key is deterministic and kept for decision migration
         const expectedKey = computeSuggestionKey({
           noteId: suggestion.note_id,
           sourceSectionId: suggestion.suggestion?.sourceSectionId || suggestion.section_id,
@@ -74,7 +75,8 @@ Shift the Q2 launch to Q3 because we need more time for testing.`,
           title: suggestion.title,
         });
 
-        expect(suggestion.suggestionKey).toBe(expectedKey);
+        expect(suggestion.legacySuggestionKey).toBe(expectedKey);
+        expect(suggestion.suggestionKey).toMatch(/^v2_[0-9a-f]{40}$/);
       }
     });
   });
@@ -14,7 +14,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { generateSuggestions, adaptConvexNote, computeNoteHash, type NoteInput } from './suggestion-engine-v2';
+import { generateSuggestions, adaptConvexNote, computeNoteHash, DEFAULT_CONFIG, type NoteInput } from './suggestion-engine-v2';
+import { applyWorkspaceThresholds, filterEnabledSuggestions } from './workspace-config';
 
 // Fixed note input designed to produce both idea and project_update suggestions
 const FIXED_NOTE_INPUT: NoteInput = {
@@ -302,6 +303,34 @@ describe('Single source of truth: rendered count matches engine output', () => {
   });
 });
 
+describe('UI Contract: workspace engine config', () => {
+  it('hides suggestion types the workspace disabled', () => {
+    const engineNote = adaptConvexNote({
+      _id: 'workspace-config-test' as any,
+      body: FIXED_NOTE_INPUT.raw_markdown,
+      createdAt: Date.now(),
+      title: 'Product Strategy Session',
+    });
+
+    // Mirrors getWithComputedSuggestions: overrides on the run thresholds,
+    // then the enabled-type filter on the final list
+    const runWith = (workspaceConfig: Parameters<typeof filterEnabledSuggestions>[1]) =>
+      filterEnabledSuggestions(
+        generateSuggestions(engineNote, undefined, {
+          thresholds: applyWorkspaceThresholds(DEFAULT_CONFIG.thresholds, workspaceConfig),
+        }).suggestions,
+        workspaceConfig
+      );
+
+    const all = runWith(undefined);
+    expect(all.some((s) => s.type === 'idea')).toBe(true);
+
+    const withoutIdeas = runWith({ enabledTypes: ['project_update', 'risk', 'bug', 'action_item', 'conflict'] });
+    expect(withoutIdeas.some((s) => s.type === 'idea')).toBe(false);
+    expect(withoutIdeas.some((s) => s.type === 'project_update')).toBe(true);
+  });
+});
+
 describe('noteHash contract', () => {
   it('noteHash is not "unknown" for non-empty note text', () => {
     const engineNote = adaptConvexNote({
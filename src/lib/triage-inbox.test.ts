@@ -0,0 +1,144 @@
+/**
+ * Tests for triage inbox utilities
+ *
+ * Tests:
+ *   1. matchesTriageFilters: type, confidence, routed initiative, note date
+ *   2. groupTriageDuplicates: cross-note duplicates, inbox order
+ *   3. resolveTriageShortcut
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matchesTriageFilters,
+  groupTriageDuplicates,
+  resolveTriageShortcut,
+  UNROUTED_FILTER,
+} from './triage-inbox';
+import type { TriageItem } from './triage-inbox';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MAR_1 = Date.UTC(2026, 2, 1);
+
+function makeItem(overrides: Partial<TriageItem> = {}): TriageItem {
+  return {
+    id: 'sug-1',
+    noteId: 'note-1',
+    noteTitle: 'Weekly sync',
+    notedAt: MAR_1,
+    suggestionKey: 'v2_key-1',
+    type: 'project_update',
+    title: 'Update: Move checkout beta to April',
+    body: 'Payments are not ready.',
+    evidencePreview: 'Move the checkout beta to April.',
+    confidence: 0.8,
+    routedInitiativeId: 'init-checkout',
+    createdAt: MAR_1,
+    ...overrides,
+  };
+}
+
+// ============================================
+// Filtering
+// ============================================
+
+describe('matchesTriageFilters', () => {
+  it('matches everything with no filters', () => {
+    expect(matchesTriageFilters(makeItem(), {})).toBe(true);
+    expect(matchesTriageFilters(makeItem(), { types: [] })).toBe(true);
+  });
+
+  it('filters by type and minimum confidence', () => {
+    expect(matchesTriageFilters(makeItem(), { types: ['idea', 'project_update'] })).toBe(true);
+    expect(matchesTriageFilters(makeItem(), { types: ['risk'] })).toBe(false);
+
+    expect(matchesTriageFilters(makeItem(), { minConfidence: 0.8 })).toBe(true);
+    expect(matchesTriageFilters(makeItem(), { minConfidence: 0.9 })).toBe(false);
+    expect(matchesTriageFilters(makeItem({ confidence: undefined }), { minConfidence: 0.1 })).toBe(false);
+  });
+
+  it('filters by routed initiative, including unrouted', () => {
+    const unrouted = makeItem({ routedInitiativeId: undefined });
+    expect(matchesTriageFilters(makeItem(), { routedInitiativeId: 'init-checkout' })).toBe(true);
+    expect(matchesTriageFilters(makeItem(), { routedInitiativeId: 'init-payments' })).toBe(false);
+    expect(matchesTriageFilters(unrouted, { routedInitiativeId: 'init-checkout' })).toBe(false);
+    expect(matchesTriageFilters(unrouted, { routedInitiativeId: UNROUTED_FILTER })).toBe(true);
+    expect(matchesTriageFilters(makeItem(), { routedInitiativeId: UNROUTED_FILTER })).toBe(false);
+  });
+
+  it('filters by note date, bounds inclusive', () => {
+    expect(matchesTriageFilters(makeItem(), { notedFrom: MAR_1, notedTo: MAR_1 })).toBe(true);
+    expect(matchesTriageFilters(makeItem(), { notedFrom: MAR_1 + DAY })).toBe(false);
+    expect(matchesTriageFilters(makeItem(), { notedTo: MAR_1 - DAY })).toBe(false);
+  });
+});
+
+// ============================================
+// Duplicate grouping
+// ============================================
+
+describe('groupTriageDuplicates', () => {
+  it('groups the same suggestion from different notes under the latest wording', () => {
+    const older = makeItem();
+    const newer = makeItem({
+      id: 'sug-2',
+      noteId: 'note-2',
+      notedAt: MAR_1 + 7 * DAY,
+      suggestionKey: 'v2_key-2',
+      title: 'Update: Move the checkout beta to April',
+    });
+    const other = makeItem({
+      id: 'sug-3',
+      noteId: 'note-3',
+      suggestionKey: 'v2_key-3',
+      type: 'risk',
+      title: 'Risk: Fraud checks missing',
+      evidencePreview: 'No fraud checks yet.',
+    });
+
+    const groups = groupTriageDuplicates([newer, other, older]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0].primary.id).toBe('sug-2');
+    expect(groups[0].duplicates.map((d) => d.id)).toEqual(['sug-1']);
+    expect(groups[0].members.map((m) => m.id)).toEqual(['sug-1', 'sug-2']);
+    expect(groups[1].primary.id).toBe('sug-3');
+    expect(groups[1].duplicates).toEqual([]);
+  });
+
+  it('keeps conflicting targets and same-note suggestions apart', () => {
+    const april = makeItem();
+    const march = makeItem({ id: 'sug-2', noteId: 'note-2', suggestionKey: 'v2_key-2', title: 'Update: Move checkout beta to March' });
+    const sameNote = makeItem({ id: 'sug-3', suggestionKey: 'v2_key-3' });
+
+    expect(groupTriageDuplicates([april, march, sameNote])).toHaveLength(3);
+  });
+});
+
+// ============================================
+// Keyboard shortcuts
+// ============================================
+
+describe('resolveTriageShortcut', () => {
+  it('maps navigation, selection and actions', () => {
+    expect(resolveTriageShortcut({ key: 'j' })).toEqual({ kind: 'next' });
+    expect(resolveTriageShortcut({ key: 'ArrowUp' })).toEqual({ kind: 'previous' });
+    expect(resolveTriageShortcut({ key: 'x' })).toEqual({ kind: 'toggle_select' });
+    expect(resolveTriageShortcut({ key: 'A', shiftKey: true })).toEqual({ kind: 'select_all' });
+    expect(resolveTriageShortcut({ key: 'a' })).toEqual({ kind: 'apply' });
+    expect(resolveTriageShortcut({ key: 'd' })).toEqual({ kind: 'dismiss' });
+    expect(resolveTriageShortcut({ key: 'o' })).toEqual({ kind: 'open_note' });
+    expect(resolveTriageShortcut({ key: 'q' })).toBeNull();
+  });
+
+  it('ignores keys with Cmd/Ctrl/Alt', () => {
+    expect(resolveTriageShortcut({ key: 'a', metaKey: true })).toBeNull();
+    expect(resolveTriageShortcut({ key: 'd', ctrlKey: true })).toBeNull();
+  });
+
+  it('only accepts reason digits and Escape while a dismissal is pending', () => {
+    expect(resolveTriageShortcut({ key: '3' }, true)).toEqual({ kind: 'dismiss_reason', index: 2 });
+    expect(resolveTriageShortcut({ key: 'a' }, true)).toBeNull();
+    expect(resolveTriageShortcut({ key: 'Escape' }, true)).toEqual({ kind: 'cancel' });
+    expect(resolveTriageShortcut({ key: '3' })).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Triage Inbox Utilities
+ *
+ * The triage inbox lists every undecided suggestion across notes so they can
+ * be worked through in one place instead of note by note. This module holds
+ * the pure parts: filter matching (shared with convex/triage.ts), duplicate
+ * grouping (cross-note clustering over the loaded items) and the keyboard
+ * shortcut map.
+ */
+
+import type { SuggestionType } from './suggestion-engine-v2/types';
+import { clusterAcrossNotes } from './suggestion-engine-v2/crossNoteClustering';
+import type { ClusterableSuggestion } from './suggestion-engine-v2/crossNoteClustering';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * An undecided suggestion joined with its source note
+ */
+export interface TriageItem {
+  id: string;
+  noteId: string;
+  noteTitle: string;
+  /** Meeting time of the source note, or its capture time */
+  notedAt: number;
+  suggestionKey: string;
+  type: SuggestionType;
+  title: string;
+  body: string;
+  evidencePreview: string;
+  /** Engine confidence in [0, 1]; absent on rows stored before it was recorded */
+  confidence?: number;
+  routedInitiativeId?: string;
+  createdAt: number;
+}
+
+/** routedInitiativeId filter value for suggestions with no routed initiative */
+export const UNROUTED_FILTER = 'unrouted';
+
+export interface TriageFilters {
+  types?: SuggestionType[];
+  /** Items without a recorded confidence never match a minimum */
+  minConfidence?: number;
+  /** Initiative id, or UNROUTED_FILTER */
+  routedInitiativeId?: string;
+  /** Inclusive bounds on the source note's date */
+  notedFrom?: number;
+  notedTo?: number;
+}
+
+/**
+ * A suggestion and its equivalents from other notes
+ */
+export interface TriageGroup {
+  key: string;
+  /** Most recent member: latest wording of the suggestion */
+  primary: TriageItem;
+  /** The other members, oldest first */
+  duplicates: TriageItem[];
+  members: TriageItem[];
+}
+
+// ============================================
+// Filtering
+// ============================================
+
+export function matchesTriageFilters(item: TriageItem, filters: TriageFilters): boolean {
+  if (filters.types && filters.types.length > 0 && !filters.types.includes(item.type)) return false;
+
+  if (filters.minConfidence !== undefined) {
+    if (item.confidence === undefined || item.confidence < filters.minConfidence) return false;
+  }
+
+  if (filters.routedInitiativeId !== undefined) {
+    if (filters.routedInitiativeId === UNROUTED_FILTER) {
+      if (item.routedInitiativeId) return false;
+    } else if (item.routedInitiativeId !== filters.routedInitiativeId) {
+      return false;
+    }
+  }
+
+  if (filters.notedFrom !== undefined && item.notedAt < filters.notedFrom) return false;
+  if (filters.notedTo !== undefined && item.notedAt > filters.notedTo) return false;
+
+  return true;
+}
+
+// ============================================
+// Duplicate Grouping
+// ============================================
+
+type ClusterableTriageItem = ClusterableSuggestion & { item: TriageItem };
+
+/**
+ * Group equivalent suggestions from different notes (clusterAcrossNotes).
+ * Groups keep the inbox order: each sits where its first member was listed.
+ */
+export function groupTriageDuplicates(items: TriageItem[]): TriageGroup[] {
+  const position = new Map(items.map((item, i) => [item.id, i]));
+  const clusters = clusterAcrossNotes<ClusterableTriageItem>(
+    items.map((item) => ({
+      note_id: item.noteId,
+      suggestionKey: item.suggestionKey,
+      type: item.type,
+      title: item.title,
+      evidence_text: item.evidencePreview,
+      noted_at: item.notedAt,
+      item,
+    }))
+  );
+
+  const firstPosition = (members: TriageItem[]) => Math.min(...members.map((m) => position.get(m.id) ?? 0));
+
+  return clusters
+    .map((cluster) => {
+      const members = cluster.members.map((m) => m.item);
+      const primary = cluster.representative.item;
+      return {
+        key: cluster.cluster_key,
+        primary,
+        duplicates: members.filter((m) => m.id !== primary.id),
+        members,
+      };
+    })
+    .sort((a, b) => firstPosition(a.members) - firstPosition(b.members));
+}
+
+// ============================================
+// Keyboard Shortcuts
+// ============================================
+
+export type TriageShortcut =
+  | { kind: 'next' }
+  | { kind: 'previous' }
+  | { kind: 'toggle_select' }
+  | { kind: 'select_all' }
+  | { kind: 'apply' }
+  | { kind: 'dismiss' }
+  /** Index into the dismiss reasons shown while a dismissal is pending */
+  | { kind: 'dismiss_reason'; index: number }
+  | { kind: 'open_note' }
+  | { kind: 'cancel' };
+
+export const TRIAGE_SHORTCUT_HELP: { keys: string; description: string }[] = [
+  { keys: 'j / ↓', description: 'Next suggestion' },
+  { keys: 'k / ↑', description: 'Previous suggestion' },
+  { keys: 'x', description: 'Select / deselect' },
+  { keys: 'Shift+A', description: 'Select all loaded' },
+  { keys: 'a', description: 'Apply to routed initiative (selected, or focused)' },
+  { keys: 'd', description: 'Dismiss (selected, or focused)' },
+  { keys: '1–9', description: 'Pick dismiss reason' },
+  { keys: 'o', description: 'Open source note' },
+  { keys: 'Esc', description: 'Cancel / clear selection' },
+];
+
+export interface TriageKeyEvent {
+  key: string;
+  shiftKey?: boolean;
+  metaKey?: boolean;
+  ctrlKey?: boolean;
+  altKey?: boolean;
+}
+
+/**
+ * Map a keydown to a triage action. While a dismissal is pending only the
+ * reason digits and Escape are active. Returns null for anything else,
+ * including keys with Cmd/Ctrl/Alt so browser shortcuts keep working.
+ */
+export function resolveTriageShortcut(event: TriageKeyEvent, dismissPending = false): TriageShortcut | null {
+  if (event.metaKey || event.ctrlKey || event.altKey) return null;
+  if (event.key === 'Escape') return { kind: 'cancel' };
+
+  if (dismissPending) {
+    return /^[1-9]$/.test(event.key) ? { kind: 'dismiss_reason', index: Number(event.key) - 1 } : null;
+  }
+
+  switch (event.key) {
+    case 'j':
+    case 'ArrowDown':
+      return { kind: 'next' };
+    case 'k':
+    case 'ArrowUp':
+      return { kind: 'previous' };
+    case 'x':
+      return { kind: 'toggle_select' };
+    case 'A':
+      return event.shiftKey ? { kind: 'select_all' } : null;
+    case 'a':
+      return { kind: 'apply' };
+    case 'd':
+      return { kind: 'dismiss' };
+    case 'o':
+      return { kind: 'open_note' };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for workspace-config
+ *
+ * Tests:
+ *   1. validateWorkspaceEngineConfig: bounds, unknown keys and types
+ *   2. applyWorkspaceThresholds: overrides win, defaults kept; the attach
+ *      override changes embedding routing
+ *   3. filterEnabledSuggestions: absent = all types
+ */
+
+import { describe, it, expect } from 'vitest';
+import { routeWithEmbeddings } from './suggestion-engine-v2/routing';
+import type { EmbeddingProvider } from './suggestion-engine-v2/routing';
+import { DEFAULT_THRESHOLDS } from './suggestion-engine-v2/types';
+import type { Suggestion } from './suggestion-engine-v2/types';
+import {
+  applyWorkspaceThresholds,
+  filterEnabledSuggestions,
+  validateWorkspaceEngineConfig,
+} from './workspace-config';
+import type { WorkspaceEngineConfig } from './workspace-config';
+
+describe('validateWorkspaceEngineConfig', () => {
+  it('accepts an empty config and values inside the bounds', () => {
+    expect(validateWorkspaceEngineConfig({})).toEqual([]);
+    expect(
+      validateWorkspaceEngineConfig({
+        thresholds: { T_overall_min: 0.8, MIN_EVIDENCE_CHARS: 0 },
+        enabledTypes: ['risk', 'bug'],
+      })
+    ).toEqual([]);
+  });
+
+  it('rejects out-of-range values, unknown keys and unknown types', () => {
+    const config = {
+      thresholds: { T_overall_min: 1.5, T_generic: 0.2 },
+      enabledTypes: ['risk', 'memo'],
+    } as unknown as WorkspaceEngineConfig;
+    const errors = validateWorkspaceEngineConfig(config);
+    expect(errors).toHaveLength(3);
+    expect(errors.join(' ')).toContain('between 0 and 1');
+    expect(errors.join(' ')).toContain('T_generic');
+    expect(errors.join(' ')).toContain('memo');
+  });
+
+  it('requires at least one enabled type', () => {
+    expect(validateWorkspaceEngineConfig({ enabledTypes: [] })).toHaveLength(1);
+  });
+});
+
+describe('applyWorkspaceThresholds', () => {
+  it('lays workspace overrides over the run thresholds', () => {
+    const base = { T_overall_min: 0.65, T_section_min: 0.6 };
+    expect(applyWorkspaceThresholds(base, undefined)).toEqual(base);
+    expect(applyWorkspaceThresholds(base, { thresholds: { T_overall_min: 0.8, T_attach_embedding: 0.7 } })).toEqual({
+      T_overall_min: 0.8,
+      T_section_min: 0.6,
+      T_attach_embedding: 0.7,
+    });
+  });
+
+  it('moves the embedding routing attach threshold', async () => {
+    // Every initiative scores 0.5 against the suggestion
+    const provider: EmbeddingProvider = {
+      async embed() {
+        return [1];
+      },
+      computeSimilarity() {
+        return 0.5;
+      },
+    };
+    const suggestion = {
+      suggestion_id: 'sug-1',
+      note_id: 'note-1',
+      section_id: 'sec-1',
+      type: 'project_update',
+      title: 'Checkout launch moves to March 24',
+      payload: { after_description: 'Checkout launch moves to March 24.' },
+      evidence_spans: [],
+      scores: { section_actionability: 0.8, type_choice_confidence: 0.8, synthesis_confidence: 0.8, overall: 0.8 },
+      routing: { create_new: true },
+      suggestionKey: 'key-1',
+    } as unknown as Suggestion;
+    const initiatives = [{ id: 'checkout', title: 'Checkout revamp', description: '' }];
+    const routeWith = (config: WorkspaceEngineConfig | undefined) =>
+      routeWithEmbeddings(suggestion, initiatives, applyWorkspaceThresholds(DEFAULT_THRESHOLDS, config), provider);
+
+    expect((await routeWith(undefined)).routing.attached_initiative_id).toBe('checkout');
+    const strict = await routeWith({ thresholds: { T_attach_embedding: 0.7 } });
+    expect(strict.routing.attached_initiative_id).toBeUndefined();
+    expect(strict.routing.create_new).toBe(true);
+  });
+});
+
+describe('filterEnabledSuggestions', () => {
+  const suggestions = [
+    { id: 1, type: 'risk' as const },
+    { id: 2, type: 'idea' as const },
+    { id: 3, type: 'bug' as const },
+  ];
+
+  it('keeps everything when no types are configured', () => {
+    expect(filterEnabledSuggestions(suggestions, undefined)).toEqual(suggestions);
+    expect(filterEnabledSuggestions(suggestions, {})).toEqual(suggestions);
+  });
+
+  it('keeps only enabled types', () => {
+    expect(filterEnabledSuggestions(suggestions, { enabledTypes: ['risk', 'bug'] }).map((s) => s.id)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Workspace Engine Config
+ *
+ * Per-workspace overrides for the suggestion engine, stored on the
+ * workspace (convex/workspaces.ts) and applied by every engine run in that
+ * workspace (note page, generate, regenerate, note analysis, debug runs):
+ *
+ * - thresholds: a subset of ThresholdConfig, each within EDITABLE_THRESHOLDS
+ *   bounds; anything not set keeps the deployment default
+ * - enabledTypes: suggestion types the workspace wants; absent = all
+ *
+ * Validation happens on write, so a stored config is always usable.
+ */
+
+import type { SuggestionType, ThresholdConfig } from './suggestion-engine-v2/types';
+
+// ============================================
+// Types
+// ============================================
+
+export const SUGGESTION_TYPES: readonly SuggestionType[] = [
+  'idea',
+  'project_update',
+  'bug',
+  'risk',
+  'action_item',
+  'conflict',
+];
+
+export type EditableThresholdKey =
+  | 'T_action'
+  | 'T_overall_min'
+  | 'T_section_min'
+  | 'T_attach_embedding'
+  | 'MIN_EVIDENCE_CHARS';
+
+export interface WorkspaceEngineConfig {
+  thresholds?: Partial<Record<EditableThresholdKey, number>>;
+  enabledTypes?: SuggestionType[];
+}
+
+export interface ThresholdBounds {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const EDITABLE_THRESHOLDS: Record<EditableThresholdKey, ThresholdBounds> = {
+  T_action: { label: 'Min actionability', min: 0, max: 1, step: 0.05 },
+  T_overall_min: { label: 'Min overall score', min: 0, max: 1, step: 0.05 },
+  T_section_min: { label: 'Min section actionability', min: 0, max: 1, step: 0.05 },
+  // Embedding routing (every Convex run) reads T_attach_embedding, not the
+  // lexical T_attach
+  T_attach_embedding: { label: 'Initiative attach similarity', min: 0, max: 1, step: 0.05 },
+  MIN_EVIDENCE_CHARS: { label: 'Min evidence characters', min: 0, max: 1000, step: 10 },
+};
+
+export const SUGGESTION_TYPE_LABELS: Record<SuggestionType, string> = {
+  idea: 'Ideas',
+  project_update: 'Project updates',
+  bug: 'Bugs',
+  risk: 'Risks',
+  action_item: 'Action items',
+  conflict: 'Conflicts',
+};
+
+// ============================================
+// Validation
+// ============================================
+
+/** Problems with a config, one message each; empty when it can be stored */
+export function validateWorkspaceEngineConfig(config: WorkspaceEngineConfig): string[] {
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(config.thresholds ?? {})) {
+    const bounds = EDITABLE_THRESHOLDS[key as EditableThresholdKey];
+    if (!bounds) {
+      errors.push(`${key} is not an editable threshold`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value < bounds.min || value > bounds.max) {
+      errors.push(`${bounds.label} must be between ${bounds.min} and ${bounds.max}`);
+    }
+  }
+  if (config.enabledTypes) {
+    const unknown = config.enabledTypes.filter((type) => !SUGGESTION_TYPES.includes(type));
+    if (unknown.length > 0) errors.push(`Unknown suggestion types: ${unknown.join(', ')}`);
+    if (config.enabledTypes.length === 0) errors.push('At least one suggestion type must be enabled');
+  }
+  return errors;
+}
+
+// ============================================
+// Application
+// ============================================
+
+/** Base thresholds for the run with the workspace's overrides on top */
+export function applyWorkspaceThresholds<T extends Partial<ThresholdConfig>>(
+  base: T,
+  config: WorkspaceEngineConfig | undefined
+): T {
+  return { ...base, ...config?.thresholds };
+}
+
+/** Whether the workspace wants suggestions of this type */
+export function isSuggestionTypeEnabled(type: SuggestionType, config: WorkspaceEngineConfig | undefined): boolean {
+  return !config?.enabledTypes || config.enabledTypes.includes(type);
+}
+
+/** Engine output limited to the workspace's enabled types */
+export function filterEnabledSuggestions<T extends { type: SuggestionType }>(
+  suggestions: T[],
+  config: WorkspaceEngineConfig | undefined
+): T[] {
+  return suggestions.filter((suggestion) => isSuggestionTypeEnabled(suggestion.type, config));
+}
@@ -1,5 +1,6 @@
 import { useState, useRef } from "react";
 import { useMutation, useAction } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
 import { api } from "../../convex/_generated/api";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,26 +9,71 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Upload, CalendarIcon, Loader2, Sparkles, Save } from "lucide-react";
+import { ArrowLeft, Upload, CalendarIcon, Loader2, Sparkles, Save, FileUp } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { Id } from "../../convex/_generated/dataModel";
+import type { NoteSource } from "@/types";
+import { looksLikeTranscript } from "@/lib/suggestion-engine-v2/transcript";
+import { SUPPORTED_IMPORT_EXTENSIONS } from "@/lib/note-import";
+
+type ImportResult = FunctionReturnType<typeof api.noteImport.importFiles>[number];
 
 export default function AddNotePage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const [title, setTitle] = useState("");
   const [body, setBody] = useState("");
   const [meetingDate, setMeetingDate] = useState<Date | undefined>();
+  const [source, setSource] = useState<NoteSource>("manual");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResults, setImportResults] = useState<ImportResult[]>([]);
   
   const createNote = useMutation(api.notes.create);
   const generateSuggestions = useAction(api.suggestions.generate);
+  const importFiles = useAction(api.noteImport.importFiles);
+
+  const handleBulkImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const payload = await Promise.all(
+        files.map(async (file) => ({
+          fileName: file.name,
+          content: await file.text(),
+          lastModified: file.lastModified,
+        }))
+      );
+      const results = await importFiles({ files: payload });
+      setImportResults(results);
+
+      const imported = results.filter((r) => r.status === "imported").length;
+      const duplicates = results.filter((r) => r.status === "duplicate").length;
+      toast({
+        title: "Import complete",
+        description: `${imported} imported, ${duplicates} already existed, ${results.length - imported - duplicates} failed`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: "Failed to import files. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -82,6 +128,7 @@ export default function AddNotePage() {
         title: title.trim() || undefined,
         body: body.trim(),
         meetingAt: meetingDate?.getTime(),
+        source,
       });
 
       if (generateAfterSave) {
@@ -134,7 +181,7 @@ export default function AddNotePage() {
           <div>
             <h1 className="text-2xl font-bold">Add Meeting Note</h1>
             <p className="text-muted-foreground mt-1">
-              Paste your meeting notes or upload a file
+              Paste your meeting notes, upload a file, or bulk import exports
             </p>
           </div>
         </div>
@@ -187,8 +234,22 @@ export default function AddNotePage() {
                 </Popover>
               </div>
               
-              <div className="text-sm text-muted-foreground">
-                <span className="font-medium">Source:</span> Manual
+              <div className="space-y-2">
+                <Label>Source</Label>
+                <Select value={source} onValueChange={(value) => setSource(value as NoteSource)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">Manual notes</SelectItem>
+                    <SelectItem value="granola_manual">Granola / Zoom transcript</SelectItem>
+                  </SelectContent>
+                </Select>
+                {source === "manual" && looksLikeTranscript(body) && (
+                  <p className="text-xs text-muted-foreground">
+                    Speaker turns detected — this note will be processed as a transcript.
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -240,6 +301,60 @@ Example:
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Bulk Import</CardTitle>
+              <CardDescription>
+                Import exported notes ({SUPPORTED_IMPORT_EXTENSIONS.join(", ")}). Each file becomes
+                its own note; files matching an existing note are skipped.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <input
+                ref={importInputRef}
+                type="file"
+                multiple
+                accept={SUPPORTED_IMPORT_EXTENSIONS.join(",")}
+                className="hidden"
+                onChange={handleBulkImport}
+              />
+              <Button
+                variant="outline"
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting}
+              >
+                {isImporting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <FileUp className="h-4 w-4 mr-2" />
+                )}
+                Import files
+              </Button>
+
+              {importResults.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {importResults.map((result) => (
+                    <li key={result.fileName} className="flex items-center justify-between gap-4">
+                      <span className="truncate">{result.fileName}</span>
+                      {result.status === "failed" ? (
+                        <span className="text-destructive shrink-0">{result.error}</span>
+                      ) : (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 shrink-0"
+                          onClick={() => navigate(`/notes/${result.noteId}`)}
+                        >
+                          {result.status === "imported" ? "Imported" : "Already exists"}
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Action Buttons */}
           <div className="flex gap-3 justify-end pb-6">
             <Button
@@ -273,11 +273,15 @@ export default function AnalyticsPage() {
                               Score: {rule.qualityScore.toFixed(3)}
                             </Badge>
                           </div>
-                          <div className="grid grid-cols-4 gap-2 text-xs">
+                          <div className="grid grid-cols-5 gap-2 text-xs">
                             <div>
                               <span className="text-muted-foreground">Apply: </span>
                               {formatPercentage(rule.applyRate)}
                             </div>
+                            <div>
+                              <span className="text-muted-foreground">As-is: </span>
+                              {rule.asIsApplyRate !== undefined ? formatPercentage(rule.asIsApplyRate) : "—"}
+                            </div>
                             <div>
                               <span className="text-muted-foreground">Dismiss: </span>
                               {formatPercentage(rule.dismissRate)}
@@ -324,11 +328,15 @@ export default function AnalyticsPage() {
                               Score: {rule.qualityScore.toFixed(3)}
                             </Badge>
                           </div>
-                          <div className="grid grid-cols-4 gap-2 text-xs">
+                          <div className="grid grid-cols-5 gap-2 text-xs">
                             <div>
                               <span className="text-muted-foreground">Apply: </span>
                               {formatPercentage(rule.applyRate)}
                             </div>
+                            <div>
+                              <span className="text-muted-foreground">As-is: </span>
+                              {rule.asIsApplyRate !== undefined ? formatPercentage(rule.asIsApplyRate) : "—"}
+                            </div>
                             <div>
                               <span className="text-muted-foreground">Dismiss: </span>
                               {formatPercentage(rule.dismissRate)}
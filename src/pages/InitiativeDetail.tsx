@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
@@ -8,21 +9,29 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useNavigate, useParams, Link } from "react-router-dom";
-import { ArrowLeft, Target, Calendar, Clock, FileText, CheckCircle2, Loader2, ExternalLink } from "lucide-react";
+import { ArrowLeft, Target, Calendar, Clock, FileText, CheckCircle2, Loader2, ExternalLink, Gavel, Users, FileBarChart } from "lucide-react";
 import { format, formatDistanceToNow } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { V0_INITIATIVE_STATUS_LABELS, V0InitiativeStatus } from "@/types";
+import { StatusReportDialog } from "@/components/initiatives/StatusReportDialog";
+import { BeliefStateCard } from "@/components/initiatives/BeliefStateCard";
 
 export default function InitiativeDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [showReport, setShowReport] = useState(false);
 
   const data = useQuery(
     api.v0Initiatives.getWithSuggestions,
     id ? { id: id as Id<"v0Initiatives"> } : "skip"
   );
   
+  const decisions = useQuery(
+    api.decisionRecords.listByInitiative,
+    id ? { initiativeId: id as Id<"v0Initiatives"> } : "skip"
+  );
+
   const updateInitiative = useMutation(api.v0Initiatives.update);
 
   if (!id) {
@@ -120,9 +129,15 @@ export default function InitiativeDetailPage() {
               </div>
             </div>
           </div>
+          <Button variant="outline" onClick={() => setShowReport(true)}>
+            <FileBarChart className="h-4 w-4 mr-2" />
+            Status report
+          </Button>
         </div>
       </div>
 
+      <StatusReportDialog initiativeId={initiative._id} open={showReport} onOpenChange={setShowReport} />
+
       {/* Main Content */}
       <ScrollArea className="flex-1">
         <div className="p-6 space-y-6 max-w-4xl">
@@ -141,6 +156,92 @@ export default function InitiativeDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Current beliefs and how they changed */}
+          <BeliefStateCard initiativeId={initiative._id} />
+
+          {/* Decision Log */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Gavel className="h-5 w-5" />
+                Decision Log ({decisions?.length ?? 0})
+              </CardTitle>
+              <CardDescription>
+                Decisions recorded in meeting notes about this initiative
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {decisions === undefined ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : decisions.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  No decisions recorded for this initiative yet.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {decisions.map((decision) => (
+                    <div key={decision._id} className="p-4 rounded-lg border">
+                      <div className="flex items-start justify-between gap-4">
+                        <p className="text-sm font-medium">{decision.statement}</p>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {format(decision.decidedAt, "PP")}
+                        </span>
+                      </div>
+                      {decision.rationale && (
+                        <p className="text-sm text-muted-foreground mt-2">
+                          <span className="font-medium text-foreground">Why: </span>
+                          {decision.rationale}
+                        </p>
+                      )}
+                      {decision.alternatives.length > 0 && (
+                        <p className="text-sm text-muted-foreground mt-1">
+                          <span className="font-medium text-foreground">Considered: </span>
+                          {decision.alternatives.join(", ")}
+                        </p>
+                      )}
+                      {decision.participants.length > 0 && (
+                        <div className="flex items-center gap-2 mt-2 flex-wrap">
+                          <Users className="h-3 w-3 text-muted-foreground" />
+                          {decision.participants.map((participant) => (
+                            <Badge key={participant} variant="secondary" className="text-xs">
+                              {participant}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Evidence lines in the source note */}
+                      <Separator className="my-3" />
+                      <div className="flex items-start gap-2">
+                        <FileText className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <Link
+                            to={`/notes/${decision.noteId}`}
+                            className="text-sm font-medium hover:underline flex items-center gap-1"
+                          >
+                            {decision.noteTitle || "Untitled Note"}
+                            <ExternalLink className="h-3 w-3" />
+                          </Link>
+                          {decision.evidence.map((span) => (
+                            <Link
+                              key={`${span.startLine}-${span.endLine}`}
+                              to={`/notes/${decision.noteId}?lines=${span.startLine + 1}-${span.endLine + 1}`}
+                              className="block text-xs text-muted-foreground hover:text-foreground hover:underline"
+                            >
+                              L{span.startLine + 1}: “{span.text}”
+                            </Link>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Linked Suggestions */}
           <Card>
             <CardHeader>
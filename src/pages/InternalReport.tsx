@@ -15,6 +15,7 @@ import { format, subDays, startOfDay, endOfDay } from "date-fns";
 import { cn } from "@/lib/utils";
 import { V0_DISMISS_REASON_LABELS, V0DismissReason } from "@/types";
 import { DateRange } from "react-day-picker";
+import { LearnedConfigPanel } from "@/components/debug/LearnedConfigPanel";
 
 export default function InternalReportPage() {
   const navigate = useNavigate();
@@ -171,6 +172,7 @@ export default function InternalReportPage() {
               <TabsTrigger value="initiatives">Initiatives</TabsTrigger>
               <TabsTrigger value="per-note">Per-Note Breakdown</TabsTrigger>
               <TabsTrigger value="raw-events">Raw Events</TabsTrigger>
+              <TabsTrigger value="learned-config">Learned Config</TabsTrigger>
             </TabsList>
 
             {/* Dismiss Reasons Tab */}
@@ -460,6 +462,11 @@ export default function InternalReportPage() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            {/* Learned Config Tab */}
+            <TabsContent value="learned-config">
+              <LearnedConfigPanel />
+            </TabsContent>
           </Tabs>
         </div>
       </ScrollArea>
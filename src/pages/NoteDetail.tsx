@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQuery, useMutation, useAction } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
@@ -13,21 +13,51 @@ import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useNavigate, useParams, Link } from "react-router-dom";
-import { ArrowLeft, Calendar, Clock, FileText, CheckCircle2, XCircle, Sparkles, Loader2, Target, Plus, ExternalLink, RotateCw, Trash2, Info } from "lucide-react";
+import { useNavigate, useParams, useSearchParams, Link } from "react-router-dom";
+import { ArrowLeft, Calendar, Clock, FileText, CheckCircle2, XCircle, Sparkles, Loader2, Target, Plus, ExternalLink, RotateCw, Trash2, Info, AlertTriangle, Pencil } from "lucide-react";
 import { SuggestionDebugPanel } from "@/components/debug/SuggestionDebugPanel";
 import { format, formatDistanceToNow } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { V0_DISMISS_REASON_LABELS } from "@/types";
-import type { RunResult, Suggestion as RunSuggestion } from "@/lib/suggestion-engine-v2/types";
+import type { RunResult, Suggestion as RunSuggestion, SuggestionRouting, RoutingCandidate } from "@/lib/suggestion-engine-v2/types";
 import type { DebugRun } from "@/lib/suggestion-engine-v2/debugTypes";
 import { getTypePrefix, stripLegacyPrefix } from "@/lib/suggestion-engine-v2/suggestionDisplay";
+import { applySuggestionEdit, summarizeSuggestionEdit, toEditableSuggestion } from "@/lib/suggestion-edits";
+import type { EditableSuggestion } from "@/lib/suggestion-edits";
+import type { EditType } from "@/lib/belief-to-initiative/feedbackLoop";
+
+/** Types a suggestion can be changed to before applying (others need type-specific payloads) */
+const EDITABLE_TYPES = ["idea", "project_update", "risk", "bug"] as const;
+
+const EDIT_TYPE_LABELS: Record<EditType, string> = {
+  minor_refinement: "Minor refinement",
+  major_correction: "Major correction",
+  changed_target: "Changed target",
+};
+
+/** Pending edit of one suggestion, applied when the user confirms the initiative */
+type SuggestionEditDraft = Omit<EditableSuggestion, "initiativeId"> & { suggestionKey: string };
+
+/** Parse a "?lines=12-14" (or "12") line range; null when absent or invalid */
+function parseLineRange(value: string | null): { start: number; end: number } | null {
+  const match = value?.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : start;
+  return start > 0 && end >= start ? { start, end } : null;
+}
 
 export default function NoteDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // Evidence links (decision log) open the note at ?lines=start-end (1-based)
+  const [searchParams] = useSearchParams();
+  const highlightedLines = parseLineRange(searchParams.get("lines"));
+  const firstHighlightedLineRef = useRef<HTMLSpanElement>(null);
+
   const getWithComputedSuggestions = useAction(api.notes.getWithComputedSuggestions);
   const activeInitiatives = useQuery(api.v0Initiatives.listActive);
 
@@ -75,6 +105,11 @@ export default function NoteDetailPage() {
       });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [id, refetchTrigger]); // Note: getWithComputedSuggestions is stable from useAction
+
+  // Bring the linked evidence lines into view once the note has rendered
+  useEffect(() => {
+    firstHighlightedLineRef.current?.scrollIntoView({ block: "center" });
+  }, [noteData, searchParams]);
   
   const recordShown = useMutation(api.suggestions.recordShown);
   const applySuggestion = useMutation(api.suggestions.apply);
@@ -90,6 +125,14 @@ export default function NoteDetailPage() {
   const dismissSuggestionDecision = useMutation(api.suggestionDecisions.dismissSuggestion);
   const applySuggestionToExisting = useMutation(api.suggestionDecisions.applySuggestionToExisting);
   const applySuggestionCreateNew = useMutation(api.suggestionDecisions.applySuggestionCreateNew);
+
+  // Event-sourced initiative bridge (project_update patches, idea creation, undo)
+  const applyProjectUpdate = useMutation(api.suggestionBridge.applyProjectUpdate);
+  const applyIdeaAsInitiative = useMutation(api.suggestionBridge.applyIdeaAsInitiative);
+  const applyActionItem = useMutation(api.suggestionBridge.applyActionItem);
+  const applyConflict = useMutation(api.suggestionBridge.applyConflict);
+  const undoApply = useMutation(api.suggestionBridge.undoApply);
+  const recordApplyEdit = useMutation(api.suggestionDecisions.recordApplyEdit);
   
   // Track which suggestions have been marked as shown in this session
   const [shownSuggestions, setShownSuggestions] = useState<Set<string>>(new Set());
@@ -99,6 +142,8 @@ export default function NoteDetailPage() {
   const [applyingSuggestionContent, setApplyingSuggestionContent] = useState<string>("");
   const [initiativeTab, setInitiativeTab] = useState<"existing" | "new">("existing");
   const [selectedInitiativeId, setSelectedInitiativeId] = useState<string>("");
+  // Ranked routing candidates for the suggestion being applied (picker)
+  const [applyingCandidates, setApplyingCandidates] = useState<RoutingCandidate[]>([]);
   const [newInitiativeTitle, setNewInitiativeTitle] = useState("");
   const [newInitiativeDescription, setNewInitiativeDescription] = useState("");
   
@@ -123,6 +168,10 @@ export default function NoteDetailPage() {
   // Track suggestionKey for apply flow (must be before early returns)
   const [applyingSuggestionKey, setApplyingSuggestionKey] = useState<string | null>(null);
 
+  // Edit-then-apply: the draft is applied in place of the engine output
+  const [editModalOpen, setEditModalOpen] = useState(false);
+  const [editDraft, setEditDraft] = useState<SuggestionEditDraft | null>(null);
+
   // Record shown events for new suggestions
   useEffect(() => {
     if (!noteData?.suggestions) return;
@@ -169,23 +218,43 @@ export default function NoteDetailPage() {
   // Single source of truth: render from lastRunResult.finalSuggestions
   const displayed: RunSuggestion[] = lastRunResult?.finalSuggestions ?? [];
 
+  // Edit dialog: engine output of the suggestion being edited, and the edit so far
+  const editingSuggestion = editDraft ? displayed.find((s) => s.suggestionKey === editDraft.suggestionKey) : undefined;
+  const editOriginal = editingSuggestion ? toEditableSuggestion(editingSuggestion) : null;
+  const editPreview = editOriginal && editDraft
+    ? summarizeSuggestionEdit(editOriginal, { ...editDraft, initiativeId: editOriginal.initiativeId })
+    : null;
+  const editTypeLocked = !EDITABLE_TYPES.some((t) => t === editOriginal?.type);
+
   // Persisted suggestions for the "Saved" section (applied/dismissed only)
   const appliedSuggestions = suggestions.filter((s) => s.status === "applied");
   const dismissedSuggestions = suggestions.filter((s) => s.status === "dismissed");
 
-  // Opens the initiative selection modal for adding to existing initiative
-  const handleAddToExistingClick = (suggestionKey: string, content: string) => {
+  // Routing candidates that are still active initiatives
+  const getActiveCandidates = (routing?: SuggestionRouting): RoutingCandidate[] =>
+    (routing?.candidates ?? []).filter((c) => activeInitiatives?.some((i) => i._id === c.initiative_id));
+
+  // Opens the initiative selection modal for adding to existing initiative.
+  // Pre-selects the initiative the engine routed the suggestion to, if any.
+  const handleAddToExistingClick = (suggestionKey: string, content: string, routing?: SuggestionRouting) => {
+    setEditDraft(null);
+    const candidates = getActiveCandidates(routing);
     setApplyingSuggestionKey(suggestionKey);
     setApplyingSuggestionContent(content);
+    setApplyingCandidates(candidates);
     setInitiativeTab("existing");
-    setSelectedInitiativeId("");
+    setSelectedInitiativeId(
+      candidates.find((c) => c.initiative_id === routing?.attached_initiative_id)?.initiative_id ?? ""
+    );
     setInitiativeModalOpen(true);
   };
 
   // Opens the initiative creation modal
   const handleCreateNewClick = (suggestionKey: string, content: string) => {
+    setEditDraft(null);
     setApplyingSuggestionKey(suggestionKey);
     setApplyingSuggestionContent(content);
+    setApplyingCandidates([]);
     // Pre-populate new initiative fields from suggestion content
     const suggestedTitle = content.length > 60 ? content.slice(0, 60) + "..." : content;
     setNewInitiativeTitle(suggestedTitle);
@@ -195,9 +264,12 @@ export default function NoteDetailPage() {
   };
 
   // Legacy handler for backwards compatibility (Apply anyway button)
-  const handleApplyClick = (suggestionKey: string, content: string) => {
+  // Ambiguous routing lands here too (needs clarification): show the candidates.
+  const handleApplyClick = (suggestionKey: string, content: string, routing?: SuggestionRouting) => {
+    setEditDraft(null);
     setApplyingSuggestionKey(suggestionKey);
     setApplyingSuggestionContent(content);
+    setApplyingCandidates(getActiveCandidates(routing));
     const suggestedTitle = content.length > 60 ? content.slice(0, 60) + "..." : content;
     setNewInitiativeTitle(suggestedTitle);
     setNewInitiativeDescription(content);
@@ -206,13 +278,122 @@ export default function NoteDetailPage() {
     setInitiativeModalOpen(true);
   };
 
+  // Opens the edit dialog with the engine's type, title and body
+  const handleEditClick = (suggestion: RunSuggestion) => {
+    const { type, title, body } = toEditableSuggestion(suggestion);
+    setEditDraft({ suggestionKey: suggestion.suggestionKey, type, title, body });
+    setEditModalOpen(true);
+  };
+
+  // Continues from the edit dialog to initiative selection with the edited version
+  const handleEditContinue = () => {
+    const suggestion = displayed.find((s) => s.suggestionKey === editDraft?.suggestionKey);
+    if (!suggestion || !editDraft) return;
+
+    const candidates = getActiveCandidates(suggestion.routing);
+    const canCreateNew = !["action_item", "conflict"].includes(editDraft.type);
+    setApplyingSuggestionKey(suggestion.suggestionKey);
+    setApplyingSuggestionContent(editDraft.title);
+    setApplyingCandidates(candidates);
+    setNewInitiativeTitle(editDraft.title);
+    setNewInitiativeDescription(editDraft.body);
+    setInitiativeTab(
+      canCreateNew && (editDraft.type === "idea" || !activeInitiatives || activeInitiatives.length === 0)
+        ? "new"
+        : "existing"
+    );
+    setSelectedInitiativeId(
+      candidates.find((c) => c.initiative_id === suggestion.routing?.attached_initiative_id)?.initiative_id ?? ""
+    );
+    setEditModalOpen(false);
+    setInitiativeModalOpen(true);
+  };
+
   // Handles the actual apply after initiative selection
   const handleInitiativeSubmit = async () => {
     if (!applyingSuggestionKey || !id) return;
 
     setIsProcessing(true);
     try {
-      if (initiativeTab === "existing" && selectedInitiativeId) {
+      const engineSuggestion = displayed.find((s) => s.suggestionKey === applyingSuggestionKey);
+      const pendingEdit = editDraft?.suggestionKey === applyingSuggestionKey ? editDraft : null;
+      const applying = engineSuggestion && pendingEdit
+        ? applySuggestionEdit(engineSuggestion, pendingEdit)
+        : engineSuggestion;
+
+      if (initiativeTab === "existing" && selectedInitiativeId && applying?.type === "project_update") {
+        // Patch the event-sourced initiative (description, dates, risk, status)
+        const suggestionKey = applyingSuggestionKey;
+        const result = await applyProjectUpdate({
+          noteId: id as Id<"notes">,
+          suggestionKey,
+          initiativeId: selectedInitiativeId as Id<"v0Initiatives">,
+          suggestion: {
+            type: "project_update",
+            title: applying.title,
+            afterDescription: applying.payload.after_description,
+            evidenceText: applying.evidence_spans
+              .filter((span) => !span.note_id)
+              .map((span) => span.text)
+              .join("\n"),
+            scheduleDelta: applying.payload.schedule_delta,
+          },
+        });
+        setAppliedInitiativeId(result.initiative._id);
+        toast({
+          title: "Suggestion applied",
+          description: result.changedFields.length > 0
+            ? `Updated ${result.initiative.title}: ${result.changedFields.join(", ")}`
+            : `Linked to initiative: ${result.initiative.title}`,
+          action: result.initiativeSuggestionId ? (
+            <ToastAction altText="Undo" onClick={() => handleUndoApply(suggestionKey)}>
+              Undo
+            </ToastAction>
+          ) : undefined,
+        });
+      } else if (initiativeTab === "existing" && selectedInitiativeId && applying?.type === "action_item" && applying.payload.action_item) {
+        // Add the action item to the initiative as a task comment
+        const suggestionKey = applyingSuggestionKey;
+        const result = await applyActionItem({
+          noteId: id as Id<"notes">,
+          suggestionKey,
+          initiativeId: selectedInitiativeId as Id<"v0Initiatives">,
+          actionItem: applying.payload.action_item,
+          evidenceText: applying.evidence_spans
+            .filter((span) => !span.note_id)
+            .map((span) => span.text)
+            .join("\n"),
+        });
+        setAppliedInitiativeId(result.initiative._id);
+        toast({
+          title: "Action item added",
+          description: `Added to ${result.initiative.title}`,
+          action: (
+            <ToastAction altText="Undo" onClick={() => handleUndoApply(suggestionKey)}>
+              Undo
+            </ToastAction>
+          ),
+        });
+      } else if (initiativeTab === "existing" && selectedInitiativeId && applying?.type === "conflict" && applying.payload.conflict) {
+        // Flag the conflict on the initiative as a comment quoting both sides
+        const suggestionKey = applyingSuggestionKey;
+        const result = await applyConflict({
+          noteId: id as Id<"notes">,
+          suggestionKey,
+          initiativeId: selectedInitiativeId as Id<"v0Initiatives">,
+          conflict: applying.payload.conflict,
+        });
+        setAppliedInitiativeId(result.initiative._id);
+        toast({
+          title: "Conflict flagged",
+          description: `Added a comment to ${result.initiative.title}`,
+          action: (
+            <ToastAction altText="Undo" onClick={() => handleUndoApply(suggestionKey)}>
+              Undo
+            </ToastAction>
+          ),
+        });
+      } else if (initiativeTab === "existing" && selectedInitiativeId) {
         // Apply to existing initiative using decision persistence
         const result = await applySuggestionToExisting({
           noteId: id as Id<"notes">,
@@ -225,8 +406,9 @@ export default function NoteDetailPage() {
           description: `Linked to initiative: ${result.initiative.title}`,
         });
       } else if (initiativeTab === "new" && newInitiativeTitle.trim()) {
-        // Create new initiative and apply using decision persistence
-        const result = await applySuggestionCreateNew({
+        // Ideas also emit InitiativeCreated in the event-sourced model
+        const createNew = applying?.type === "idea" ? applyIdeaAsInitiative : applySuggestionCreateNew;
+        const result = await createNew({
           noteId: id as Id<"notes">,
           suggestionKey: applyingSuggestionKey,
           title: newInitiativeTitle.trim(),
@@ -247,12 +429,30 @@ export default function NoteDetailPage() {
         return;
       }
 
+      // Store engine output vs applied version (also when applied as-is)
+      if (engineSuggestion && applying) {
+        const original = toEditableSuggestion(engineSuggestion);
+        recordApplyEdit({
+          noteId: id as Id<"notes">,
+          suggestionKey: applyingSuggestionKey,
+          edited: {
+            type: applying.type,
+            title: pendingEdit?.title.trim() ?? original.title,
+            body: pendingEdit?.body.trim() ?? original.body,
+            initiativeId: initiativeTab === "existing" ? selectedInitiativeId : undefined,
+          },
+        }).catch((err) => {
+          console.error("Failed to record suggestion edit:", err);
+        });
+      }
+
       // Close initiative modal and refetch to see updated suggestions
       setInitiativeModalOpen(false);
       refetchNoteData();
 
       // Clean up state
       setApplyingSuggestionKey(null);
+      setEditDraft(null);
       setApplyingSuggestionContent("");
       setNewInitiativeTitle("");
       setNewInitiativeDescription("");
@@ -269,6 +469,22 @@ export default function NoteDetailPage() {
   };
 
 
+  // Reverts an applied initiative update (compensating events) and reopens the suggestion
+  const handleUndoApply = async (suggestionKey: string) => {
+    try {
+      await undoApply({ noteId: id as Id<"notes">, suggestionKey });
+      setAppliedInitiativeId(null);
+      refetchNoteData();
+      toast({ title: "Update undone" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to undo update",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDismissClick = (suggestionKey: string) => {
     setDismissingSuggestionKey(suggestionKey);
     setDismissModalOpen(true);
@@ -313,27 +529,27 @@ export default function NoteDetailPage() {
       // Refetch the note data after regeneration
       refetchNoteData();
 
-      if (result.newCount === 0) {
-        toast({
-          title: "No new suggestions",
-          description: result.noteChanged
-            ? "No suggestions found for the current note content"
-            : "Try editing the note to generate new suggestions",
-        });
-      } else if (result.added > 0) {
+      if (result.added > 0) {
         toast({
           title: "Suggestions regenerated",
-          description: `${result.added} new suggestion${result.added > 1 ? 's' : ''} generated`,
+          description: `${result.added} new suggestion${result.added > 1 ? 's' : ''} generated from ${result.sectionsChanged} edited section${result.sectionsChanged === 1 ? '' : 's'}`,
         });
-      } else if (result.added < 0) {
+      } else if (result.superseded > 0 || result.updated > 0) {
         toast({
           title: "Suggestions updated",
-          description: "Some previous suggestions are no longer relevant",
+          description: result.superseded > 0
+            ? `${result.superseded} suggestion${result.superseded > 1 ? 's' : ''} no longer backed by the note`
+            : "Existing suggestions were updated to match your edits",
         });
-      } else {
+      } else if (!result.noteChanged) {
         toast({
           title: "Suggestions unchanged",
-          description: "The same suggestions are still relevant",
+          description: "Try editing the note to generate new suggestions",
+        });
+      } else {
+        toast({
+          title: "No new suggestions",
+          description: "No suggestions found in the edited sections",
         });
       }
     } catch (error) {
@@ -457,7 +673,21 @@ export default function NoteDetailPage() {
           <ScrollArea className="flex-1 p-4">
             <div className="prose prose-sm max-w-none">
               <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed">
-                {note.body}
+                {highlightedLines
+                  ? note.body.split(/\r?\n/).map((line: string, index: number) => {
+                      const lineNumber = index + 1;
+                      const highlighted = lineNumber >= highlightedLines.start && lineNumber <= highlightedLines.end;
+                      return (
+                        <span
+                          key={index}
+                          ref={lineNumber === highlightedLines.start ? firstHighlightedLineRef : undefined}
+                          className={highlighted ? "block bg-yellow-100 dark:bg-yellow-900/40" : "block"}
+                        >
+                          {line || "\u00a0"}
+                        </span>
+                      );
+                    })
+                  : note.body}
               </pre>
             </div>
           </ScrollArea>
@@ -513,6 +743,19 @@ export default function NoteDetailPage() {
                       const typePrefix = getTypePrefix(suggestion.type);
                       const displayBody = suggestion.suggestion?.body;
                       const evidencePreview = suggestion.suggestion?.evidencePreview;
+                      // Transcript notes: evidence is attributed to a speaker turn
+                      const citedSpan = suggestion.evidence_spans?.find((span) => span.speaker);
+                      // Evidence merged from equivalent suggestions in other notes
+                      const crossNoteSpans = suggestion.evidence_spans?.filter((span) => span.note_id) ?? [];
+                      const crossNoteCount = new Set(crossNoteSpans.map((span) => span.note_id)).size;
+                      // Stage 6 routing target (embedding match), if it is still active
+                      const routedInitiative = suggestion.routing?.create_new === false
+                        ? activeInitiatives?.find((i) => i._id === suggestion.routing.attached_initiative_id)
+                        : undefined;
+                      // Action items are added to an existing initiative, never create one
+                      const actionItem = suggestion.type === "action_item" ? suggestion.payload.action_item : undefined;
+                      // Conflicts are flagged on the initiative they contradict
+                      const conflict = suggestion.type === "conflict" ? suggestion.payload.conflict : undefined;
 
                       return (
                         <Card key={suggestion.suggestion_id} className={needsClarification ? "border-warning dark:bg-surface-elevated dark:border-border" : "dark:bg-surface-elevated dark:border-border"}>
@@ -531,14 +774,52 @@ export default function NoteDetailPage() {
                                     "{line}"
                                   </p>
                                 ))}
+                                {citedSpan && (
+                                  <p className="text-xs text-muted-foreground">
+                                    — {citedSpan.speaker}{citedSpan.timestamp && ` (${citedSpan.timestamp})`}
+                                  </p>
+                                )}
+                              </div>
+                            )}
+                            {crossNoteSpans.length > 0 && (
+                              <div className="pl-3 border-l-2 border-muted mb-3 space-y-1">
+                                <p className="text-xs text-muted-foreground">
+                                  {conflict
+                                    ? "Contradicts an earlier note:"
+                                    : `Also raised in ${crossNoteCount} other ${crossNoteCount === 1 ? "note" : "notes"}:`}
+                                </p>
+                                {crossNoteSpans.map((span, idx) => (
+                                  <p key={`${span.note_id}-${idx}`} className="text-xs italic text-muted-foreground line-clamp-2">
+                                    <Link to={`/notes/${span.note_id}`} className="not-italic underline mr-1">
+                                      View note
+                                    </Link>
+                                    "{span.text}"
+                                  </p>
+                                ))}
                               </div>
                             )}
                             <div className="flex items-center justify-between gap-2">
                               <div className="flex gap-2 flex-wrap">
                                 <Badge variant="secondary">New</Badge>
+                                {actionItem?.assignee && (
+                                  <Badge variant="outline">@{actionItem.assignee}</Badge>
+                                )}
+                                {actionItem && (actionItem.due || actionItem.due_text) && (
+                                  <Badge variant="outline">Due {actionItem.due?.date ?? actionItem.due_text}</Badge>
+                                )}
+                                {routedInitiative && (
+                                  <Badge variant="outline" className="max-w-[12rem] truncate">
+                                    Matches {routedInitiative.title}
+                                  </Badge>
+                                )}
+                                {suggestion.routing?.ambiguous && (
+                                  <Badge variant="outline">
+                                    {suggestion.routing.candidates?.length ?? 0} possible initiatives
+                                  </Badge>
+                                )}
                                 {needsClarification && (
                                   <Badge variant="outline" className="border-warning text-warning">
-                                    Needs clarification
+                                    {conflict ? "Conflicting statements" : "Needs clarification"}
                                   </Badge>
                                 )}
                               </div>
@@ -552,30 +833,53 @@ export default function NoteDetailPage() {
                                   <XCircle className="h-4 w-4 mr-1" />
                                   Dismiss
                                 </Button>
+                                {!conflict && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleEditClick(suggestion)}
+                                    disabled={isProcessing}
+                                  >
+                                    <Pencil className="h-4 w-4 mr-1" />
+                                    Edit
+                                  </Button>
+                                )}
+                                {conflict && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => handleAddToExistingClick(suggestion.suggestionKey, suggestion.title, suggestion.routing)}
+                                    disabled={isProcessing}
+                                  >
+                                    <AlertTriangle className="h-4 w-4 mr-1" />
+                                    Flag on initiative
+                                  </Button>
+                                )}
                                 {!needsClarification && (
                                   <>
                                     <Button
                                       size="sm"
-                                      onClick={() => handleAddToExistingClick(suggestion.suggestionKey, suggestion.title)}
+                                      onClick={() => handleAddToExistingClick(suggestion.suggestionKey, suggestion.title, suggestion.routing)}
                                       disabled={isProcessing}
                                     >
                                       Add to existing initiative
                                     </Button>
-                                    <Button
-                                      size="sm"
-                                      variant="secondary"
-                                      onClick={() => handleCreateNewClick(suggestion.suggestionKey, suggestion.title)}
-                                      disabled={isProcessing}
-                                    >
-                                      Create new initiative
-                                    </Button>
+                                    {!actionItem && (
+                                      <Button
+                                        size="sm"
+                                        variant="secondary"
+                                        onClick={() => handleCreateNewClick(suggestion.suggestionKey, suggestion.title)}
+                                        disabled={isProcessing}
+                                      >
+                                        Create new initiative
+                                      </Button>
+                                    )}
                                   </>
                                 )}
-                                {needsClarification && (
+                                {needsClarification && !conflict && (
                                   <Button
                                     size="sm"
                                     variant="secondary"
-                                    onClick={() => handleApplyClick(suggestion.suggestionKey, suggestion.title)}
+                                    onClick={() => handleApplyClick(suggestion.suggestionKey, suggestion.title, suggestion.routing)}
                                     disabled={isProcessing}
                                   >
                                     <CheckCircle2 className="h-4 w-4 mr-1" />
@@ -687,7 +991,9 @@ export default function NoteDetailPage() {
               Apply to Initiative
             </DialogTitle>
             <DialogDescription>
-              Link this suggestion to an initiative for tracking, or apply without linking.
+              {editDraft?.suggestionKey === applyingSuggestionKey
+                ? "Your edited version of this suggestion will be applied."
+                : "Link this suggestion to an initiative for tracking, or apply without linking."}
             </DialogDescription>
           </DialogHeader>
           
@@ -696,16 +1002,43 @@ export default function NoteDetailPage() {
               <TabsTrigger value="existing" disabled={!activeInitiatives || activeInitiatives.length === 0}>
                 Existing Initiative
               </TabsTrigger>
-              <TabsTrigger value="new">
+              <TabsTrigger
+                value="new"
+                disabled={["action_item", "conflict"].includes(
+                  (editDraft?.suggestionKey === applyingSuggestionKey ? editDraft.type : undefined)
+                    ?? displayed.find((s) => s.suggestionKey === applyingSuggestionKey)?.type
+                    ?? ""
+                )}
+              >
                 <Plus className="h-4 w-4 mr-1" />
                 New Initiative
               </TabsTrigger>
             </TabsList>
             
             <TabsContent value="existing" className="space-y-4 mt-4">
+              {applyingCandidates.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Suggested matches</Label>
+                  <div className="space-y-1">
+                    {applyingCandidates.map((candidate) => (
+                      <Button
+                        key={candidate.initiative_id}
+                        variant={selectedInitiativeId === candidate.initiative_id ? "default" : "outline"}
+                        className="w-full justify-between"
+                        onClick={() => setSelectedInitiativeId(candidate.initiative_id)}
+                      >
+                        <span className="truncate">{candidate.title}</span>
+                        <span className="text-xs opacity-70 ml-2 shrink-0">
+                          {Math.round(candidate.similarity * 100)}% match
+                        </span>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
               {activeInitiatives && activeInitiatives.length > 0 ? (
                 <div className="space-y-2">
-                  <Label>Select an initiative</Label>
+                  <Label>{applyingCandidates.length > 0 ? "Or choose another initiative" : "Select an initiative"}</Label>
                   <Select value={selectedInitiativeId} onValueChange={setSelectedInitiativeId}>
                     <SelectTrigger>
                       <SelectValue placeholder="Choose an initiative..." />
@@ -775,6 +1108,83 @@ export default function NoteDetailPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Edit Before Apply Modal */}
+      <Dialog open={editModalOpen} onOpenChange={setEditModalOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Pencil className="h-5 w-5" />
+              Edit before applying
+            </DialogTitle>
+            <DialogDescription>
+              Fix the type, title or body. You choose the initiative next.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editDraft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={editDraft.type}
+                  onValueChange={(type) => setEditDraft({ ...editDraft, type: type as SuggestionEditDraft["type"] })}
+                  disabled={editTypeLocked}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(editTypeLocked ? [editDraft.type] : EDITABLE_TYPES).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {getTypePrefix(type) ?? type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-suggestion-title">Title</Label>
+                <Input
+                  id="edit-suggestion-title"
+                  value={editDraft.title}
+                  onChange={(e) => setEditDraft({ ...editDraft, title: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-suggestion-body">Body</Label>
+                <Textarea
+                  id="edit-suggestion-body"
+                  value={editDraft.body}
+                  onChange={(e) => setEditDraft({ ...editDraft, body: e.target.value })}
+                  rows={4}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Badge variant="outline">{editPreview?.editType ? EDIT_TYPE_LABELS[editPreview.editType] : "No changes"}</Badge>
+                {editOriginal && editPreview?.editType && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setEditDraft({ suggestionKey: editDraft.suggestionKey, type: editOriginal.type, title: editOriginal.title, body: editOriginal.body })}
+                  >
+                    Reset
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditModalOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleEditContinue} disabled={!editDraft?.title.trim()}>
+              Continue to apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Dismiss Confirmation Modal */}
       <Dialog open={dismissModalOpen} onOpenChange={setDismissModalOpen}>
         <DialogContent>
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Plus, FileText, CheckCircle2, XCircle, Eye } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { formatDistanceToNow } from "date-fns";
+import { NOTE_SOURCE_LABELS } from "@/types";
 
 export default function NotesPage() {
   const navigate = useNavigate();
@@ -71,7 +72,7 @@ export default function NotesPage() {
                       </CardDescription>
                     </div>
                     <Badge variant="secondary" className="ml-4 shrink-0">
-                      {note.source === "manual" ? "Manual" : "Granola"}
+                      {NOTE_SOURCE_LABELS[note.source]}
                     </Badge>
                   </div>
                 </CardHeader>
@@ -4,10 +4,20 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Video, FileText, GitBranch, Shield, Check, X, Info } from 'lucide-react';
+import { Video, FileText, GitBranch, Shield, Check, X, Info, Flag, FlaskConical, Users, Building2 } from 'lucide-react';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
 import { ConvexExample } from '@/components/examples/ConvexExample';
+import { FeatureFlagsSection } from '@/components/settings/FeatureFlagsSection';
+import { ShadowRunsSection } from '@/components/settings/ShadowRunsSection';
+import { UsersTeamsSection } from '@/components/settings/UsersTeamsSection';
+import { WorkspacesSection } from '@/components/settings/WorkspacesSection';
+import { hasRole } from '@/lib/roles';
 
 export default function SettingsPage() {
+  const viewer = useQuery(api.users.viewer);
+  const isAdmin = viewer ? hasRole(viewer.role, 'admin') : false;
+
   // Connections will be loaded from Convex in the future
   const connections: any[] = [];
 
@@ -27,7 +37,7 @@ export default function SettingsPage() {
     <div className="h-full overflow-auto p-6 max-w-4xl mx-auto">
       <div className="mb-8">
         <h1 className="text-2xl font-bold">Settings</h1>
-        <p className="text-muted-foreground">Manage connections and safety settings</p>
+        <p className="text-muted-foreground">Manage connections, feature flags and safety settings</p>
       </div>
 
       {/* Connections */}
@@ -137,6 +147,54 @@ export default function SettingsPage() {
 
       <Separator className="my-8" />
 
+      {isAdmin && (
+        <>
+          {/* Users & Teams */}
+          <section className="mb-8">
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Users &amp; Teams
+            </h2>
+            <UsersTeamsSection />
+          </section>
+
+          <Separator className="my-8" />
+
+          {/* Workspaces */}
+          <section className="mb-8">
+            <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Workspaces
+            </h2>
+            <WorkspacesSection />
+          </section>
+
+          <Separator className="my-8" />
+        </>
+      )}
+
+      {/* Feature Flags */}
+      <section className="mb-8">
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <Flag className="h-5 w-5" />
+          Feature Flags
+        </h2>
+        <FeatureFlagsSection />
+      </section>
+
+      <Separator className="my-8" />
+
+      {/* Shadow Runs */}
+      <section className="mb-8">
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Shadow Runs
+        </h2>
+        <ShadowRunsSection />
+      </section>
+
+      <Separator className="my-8" />
+
       {/* Convex Integration Example */}
       <section className="mb-8">
         <h2 className="text-lg font-semibold mb-4">Convex Integration</h2>
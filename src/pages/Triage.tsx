@@ -0,0 +1,540 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNavigate } from "react-router-dom";
+import { CheckCircle2, XCircle, Inbox, Keyboard, Loader2, Target, Copy } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { V0_DISMISS_REASON_LABELS } from "@/types";
+import type { V0DismissReason } from "@/types";
+import type { SuggestionType } from "@/lib/suggestion-engine-v2/types";
+import { getTypePrefix, stripLegacyPrefix } from "@/lib/suggestion-engine-v2/suggestionDisplay";
+import {
+  groupTriageDuplicates,
+  resolveTriageShortcut,
+  TRIAGE_SHORTCUT_HELP,
+  UNROUTED_FILTER,
+} from "@/lib/triage-inbox";
+import type { TriageFilters, TriageGroup } from "@/lib/triage-inbox";
+
+const PAGE_SIZE = 25;
+const ANY = "any";
+
+const SUGGESTION_TYPES: SuggestionType[] = ["project_update", "idea", "risk", "bug", "action_item", "conflict"];
+
+const CONFIDENCE_OPTIONS = [
+  { value: "0.85", label: "High (≥ 85%)" },
+  { value: "0.7", label: "Medium+ (≥ 70%)" },
+  { value: "0.5", label: "≥ 50%" },
+];
+
+const DISMISS_REASONS = Object.keys(V0_DISMISS_REASON_LABELS) as V0DismissReason[];
+
+/** Parse a yyyy-mm-dd input as a local-time day boundary */
+function parseDay(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+export default function TriagePage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [typeFilter, setTypeFilter] = useState<string>(ANY);
+  const [confidenceFilter, setConfidenceFilter] = useState<string>(ANY);
+  const [routedFilter, setRoutedFilter] = useState<string>(ANY);
+  const [notedFrom, setNotedFrom] = useState("");
+  const [notedTo, setNotedTo] = useState("");
+  const [groupDuplicates, setGroupDuplicates] = useState(true);
+
+  const [focusIndex, setFocusIndex] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Suggestion ids waiting for a dismiss reason / an initiative
+  const [dismissTarget, setDismissTarget] = useState<string[] | null>(null);
+  const [applyTarget, setApplyTarget] = useState<string[] | null>(null);
+  const [applyInitiativeId, setApplyInitiativeId] = useState<string>("");
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const filters = useMemo<TriageFilters>(() => ({
+    types: typeFilter === ANY ? undefined : [typeFilter as SuggestionType],
+    minConfidence: confidenceFilter === ANY ? undefined : Number(confidenceFilter),
+    routedInitiativeId: routedFilter === ANY ? undefined : routedFilter,
+    notedFrom: parseDay(notedFrom, false),
+    notedTo: parseDay(notedTo, true),
+  }), [typeFilter, confidenceFilter, routedFilter, notedFrom, notedTo]);
+
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.triage.listInbox,
+    { filters },
+    { initialNumItems: PAGE_SIZE }
+  );
+  const initiatives = useQuery(api.v0Initiatives.listActive);
+  const dismissMany = useMutation(api.triage.dismissMany);
+  const applyManyToInitiative = useMutation(api.triage.applyManyToInitiative);
+
+  const initiativeTitles = useMemo(
+    () => new Map<string, string>((initiatives ?? []).map((i) => [i._id, i.title])),
+    [initiatives]
+  );
+
+  const groups: TriageGroup[] = useMemo(
+    () => groupDuplicates
+      ? groupTriageDuplicates(results)
+      : results.map((item) => ({ key: item.id, primary: item, duplicates: [], members: [item] })),
+    [results, groupDuplicates]
+  );
+
+  // Keep focus and selection on what is still listed
+  useEffect(() => {
+    setFocusIndex((i) => Math.max(0, Math.min(i, groups.length - 1)));
+    const listed = new Set(results.map((item) => item.id));
+    setSelected((prev) => {
+      const next = new Set([...prev].filter((id) => listed.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [groups.length, results]);
+
+  const focused = groups[focusIndex];
+
+  /** Selected suggestions, or the focused group when nothing is selected */
+  const actionTargets = (): string[] =>
+    selected.size > 0 ? [...selected] : focused ? focused.members.map((m) => m.id) : [];
+
+  const toggleGroup = (group: TriageGroup) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const allSelected = group.members.every((m) => next.has(m.id));
+      for (const member of group.members) {
+        if (allSelected) next.delete(member.id);
+        else next.add(member.id);
+      }
+      return next;
+    });
+  };
+
+  /** The initiative all of these suggestions were routed to, if they share one */
+  const commonRoutedInitiative = (ids: string[]): string | undefined => {
+    const routed = results.filter((item) => ids.includes(item.id)).map((item) => item.routedInitiativeId);
+    return routed.length > 0 && routed.every((id) => id && id === routed[0]) ? routed[0] : undefined;
+  };
+
+  const openApply = (ids: string[]) => {
+    if (ids.length === 0) return;
+    setApplyInitiativeId(commonRoutedInitiative(ids) ?? "");
+    setApplyTarget(ids);
+  };
+
+  const handleDismiss = async (reason: V0DismissReason) => {
+    if (!dismissTarget) return;
+    setIsProcessing(true);
+    try {
+      const { dismissed } = await dismissMany({
+        ids: dismissTarget as Id<"suggestions">[],
+        dismissReason: reason,
+      });
+      toast({
+        title: dismissed === 1 ? "Suggestion dismissed" : `${dismissed} suggestions dismissed`,
+        description: V0_DISMISS_REASON_LABELS[reason],
+      });
+      setSelected(new Set());
+      setDismissTarget(null);
+    } catch (error) {
+      console.error("Failed to dismiss suggestions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to dismiss suggestions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleApply = async (ids: string[], initiativeId: string) => {
+    setIsProcessing(true);
+    try {
+      const { applied, skipped } = await applyManyToInitiative({
+        ids: ids as Id<"suggestions">[],
+        initiativeId: initiativeId as Id<"v0Initiatives">,
+      });
+      toast({
+        title: applied === 1 ? "Suggestion applied" : `${applied} suggestions applied`,
+        description: skipped > 0
+          ? `${skipped} skipped`
+          : `Applied to ${initiativeTitles.get(initiativeId) ?? "initiative"}`,
+      });
+      setSelected(new Set());
+      setApplyTarget(null);
+    } catch (error) {
+      console.error("Failed to apply suggestions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to apply suggestions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target) || applyTarget || isProcessing) return;
+      const shortcut = resolveTriageShortcut(event, dismissTarget !== null);
+      if (!shortcut) return;
+      event.preventDefault();
+
+      switch (shortcut.kind) {
+        case "next":
+          setFocusIndex((i) => Math.min(i + 1, groups.length - 1));
+          break;
+        case "previous":
+          setFocusIndex((i) => Math.max(i - 1, 0));
+          break;
+        case "toggle_select":
+          if (focused) toggleGroup(focused);
+          break;
+        case "select_all":
+          setSelected(new Set(results.map((item) => item.id)));
+          break;
+        case "apply": {
+          // Straight to the routed initiative when there is one; otherwise pick
+          const ids = actionTargets();
+          const routed = commonRoutedInitiative(ids);
+          if (routed) void handleApply(ids, routed);
+          else openApply(ids);
+          break;
+        }
+        case "dismiss": {
+          const ids = actionTargets();
+          if (ids.length > 0) setDismissTarget(ids);
+          break;
+        }
+        case "dismiss_reason":
+          if (shortcut.index < DISMISS_REASONS.length) void handleDismiss(DISMISS_REASONS[shortcut.index]);
+          break;
+        case "open_note":
+          if (focused) navigate(`/notes/${focused.primary.noteId}`);
+          break;
+        case "cancel":
+          if (dismissTarget) setDismissTarget(null);
+          else setSelected(new Set());
+          break;
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  const clearFilters = () => {
+    setTypeFilter(ANY);
+    setConfidenceFilter(ANY);
+    setRoutedFilter(ANY);
+    setNotedFrom("");
+    setNotedTo("");
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="p-6 border-b bg-background">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Triage</h1>
+            <p className="text-muted-foreground mt-1">
+              Undecided suggestions from all notes
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setShowShortcuts(true)}>
+            <Keyboard className="h-4 w-4 mr-2" />
+            Shortcuts
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-3 mt-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All types</SelectItem>
+                {SUGGESTION_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{getTypePrefix(type) ?? type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Confidence</Label>
+            <Select value={confidenceFilter} onValueChange={setConfidenceFilter}>
+              <SelectTrigger className="w-[170px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any confidence</SelectItem>
+                {CONFIDENCE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Routed to</Label>
+            <Select value={routedFilter} onValueChange={setRoutedFilter}>
+              <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any initiative</SelectItem>
+                <SelectItem value={UNROUTED_FILTER}>Not routed</SelectItem>
+                {(initiatives ?? []).map((initiative) => (
+                  <SelectItem key={initiative._id} value={initiative._id}>{initiative.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="triage-noted-from" className="text-xs">Note date from</Label>
+            <Input id="triage-noted-from" type="date" className="w-[150px]" value={notedFrom} onChange={(e) => setNotedFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="triage-noted-to" className="text-xs">to</Label>
+            <Input id="triage-noted-to" type="date" className="w-[150px]" value={notedTo} onChange={(e) => setNotedTo(e.target.value)} />
+          </div>
+          <Button variant="ghost" size="sm" onClick={clearFilters}>Clear</Button>
+          <div className="flex items-center gap-2 ml-auto">
+            <Switch id="triage-group-duplicates" checked={groupDuplicates} onCheckedChange={setGroupDuplicates} />
+            <Label htmlFor="triage-group-duplicates" className="text-sm">Group duplicates</Label>
+          </div>
+        </div>
+
+        {/* Bulk actions */}
+        {selected.size > 0 && (
+          <div className="flex items-center gap-3 mt-4 p-3 rounded-md bg-muted">
+            <span className="text-sm font-medium">{selected.size} selected</span>
+            <Button size="sm" onClick={() => openApply([...selected])}>
+              <Target className="h-4 w-4 mr-2" />
+              Apply to initiative
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setDismissTarget([...selected])}>
+              <XCircle className="h-4 w-4 mr-2" />
+              Dismiss
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())}>Clear selection</Button>
+          </div>
+        )}
+      </div>
+
+      {/* Inbox */}
+      <ScrollArea className="flex-1 p-6">
+        {status === "LoadingFirstPage" ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-pulse text-muted-foreground">Loading suggestions...</div>
+          </div>
+        ) : groups.length === 0 && status === "Exhausted" ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <Inbox className="h-12 w-12 text-muted-foreground/50 mb-4" />
+            <h3 className="text-lg font-medium mb-2">Inbox zero</h3>
+            <p className="text-muted-foreground max-w-md">
+              No undecided suggestions match these filters.
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-3 max-w-4xl mx-auto">
+            {groups.map((group, index) => {
+              const item = group.primary;
+              const isFocused = index === focusIndex;
+              const isSelected = group.members.every((m) => selected.has(m.id));
+              return (
+                <Card
+                  key={group.key}
+                  className={`transition-shadow ${isFocused ? "ring-2 ring-primary" : ""}`}
+                  onClick={() => setFocusIndex(index)}
+                >
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start gap-3">
+                      <Checkbox
+                        className="mt-1"
+                        checked={isSelected}
+                        onCheckedChange={() => toggleGroup(group)}
+                        onClick={(e) => e.stopPropagation()}
+                        aria-label="Select suggestion"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Badge variant="secondary">{getTypePrefix(item.type) ?? item.type}</Badge>
+                          <span className="font-medium">{stripLegacyPrefix(item.title)}</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1 flex items-center gap-2 flex-wrap">
+                          <button
+                            className="hover:underline"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              navigate(`/notes/${item.noteId}`);
+                            }}
+                          >
+                            {item.noteTitle || "Untitled Note"}
+                          </button>
+                          <span>· {format(item.notedAt, "MMM d, yyyy")}</span>
+                          {item.confidence !== undefined && <span>· {Math.round(item.confidence * 100)}% confidence</span>}
+                          {item.routedInitiativeId && (
+                            <span>· → {initiativeTitles.get(item.routedInitiativeId) ?? "Initiative"}</span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openApply(group.members.map((m) => m.id));
+                          }}
+                        >
+                          <CheckCircle2 className="h-4 w-4 mr-1" />
+                          Apply
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDismissTarget(group.members.map((m) => m.id));
+                          }}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Dismiss
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="pl-10">
+                    {item.body && <p className="text-sm text-muted-foreground line-clamp-2">{item.body}</p>}
+                    {item.evidencePreview && (
+                      <p className="text-xs italic text-muted-foreground mt-2 line-clamp-1">“{item.evidencePreview}”</p>
+                    )}
+                    {group.duplicates.length > 0 && (
+                      <div className="mt-3 text-xs text-muted-foreground">
+                        <div className="flex items-center gap-1 font-medium">
+                          <Copy className="h-3 w-3" />
+                          Also raised in {group.duplicates.length} other {group.duplicates.length === 1 ? "note" : "notes"}
+                        </div>
+                        <ul className="mt-1 space-y-0.5">
+                          {group.duplicates.map((duplicate) => (
+                            <li key={duplicate.id}>
+                              {duplicate.noteTitle || "Untitled Note"} · {format(duplicate.notedAt, "MMM d, yyyy")}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            {status !== "Exhausted" && (
+              <div className="flex justify-center py-4">
+                <Button variant="outline" onClick={() => loadMore(PAGE_SIZE)} disabled={status !== "CanLoadMore"}>
+                  {status === "LoadingMore" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </ScrollArea>
+
+      {/* Dismiss reason */}
+      <Dialog open={dismissTarget !== null} onOpenChange={(open) => !open && setDismissTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Dismiss {dismissTarget && dismissTarget.length > 1 ? `${dismissTarget.length} suggestions` : "suggestion"}
+            </DialogTitle>
+            <DialogDescription>Pick a reason (or press its number).</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            {DISMISS_REASONS.map((reason, index) => (
+              <Button
+                key={reason}
+                variant="outline"
+                className="justify-start"
+                disabled={isProcessing}
+                onClick={() => handleDismiss(reason)}
+              >
+                <span className="text-muted-foreground mr-3">{index + 1}</span>
+                {V0_DISMISS_REASON_LABELS[reason]}
+              </Button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Apply to initiative */}
+      <Dialog open={applyTarget !== null} onOpenChange={(open) => !open && setApplyTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Apply {applyTarget && applyTarget.length > 1 ? `${applyTarget.length} suggestions` : "suggestion"}
+            </DialogTitle>
+            <DialogDescription>Link to an existing initiative.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Initiative</Label>
+            <Select value={applyInitiativeId} onValueChange={setApplyInitiativeId}>
+              <SelectTrigger><SelectValue placeholder="Select an initiative" /></SelectTrigger>
+              <SelectContent>
+                {(initiatives ?? []).map((initiative) => (
+                  <SelectItem key={initiative._id} value={initiative._id}>{initiative.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplyTarget(null)}>Cancel</Button>
+            <Button
+              onClick={() => applyTarget && handleApply(applyTarget, applyInitiativeId)}
+              disabled={!applyInitiativeId || isProcessing}
+            >
+              {isProcessing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Shortcut help */}
+      <Dialog open={showShortcuts} onOpenChange={setShowShortcuts}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Keyboard shortcuts</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-2 text-sm">
+            {TRIAGE_SHORTCUT_HELP.map(({ keys, description }) => (
+              <div key={keys} className="flex justify-between">
+                <span>{description}</span>
+                <kbd className="px-2 py-0.5 rounded bg-muted font-mono text-xs">{keys}</kbd>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ export type DismissReason =
 // Shipit v0 Types
 // ============================================
 
-export type NoteSource = 'manual' | 'granola_manual';
+export type NoteSource = 'manual' | 'granola_manual' | 'file_import';
 
 export type V0SuggestionStatus = 'new' | 'applied' | 'dismissed';
 
@@ -96,6 +96,13 @@ export interface V0Initiative {
   updatedAt: number;
 }
 
+// Note source display labels
+export const NOTE_SOURCE_LABELS: Record<NoteSource, string> = {
+  manual: 'Manual',
+  granola_manual: 'Granola',
+  file_import: 'Imported',
+};
+
 // V0 Initiative status display labels
 export const V0_INITIATIVE_STATUS_LABELS: Record<V0InitiativeStatus, string> = {
   draft: 'Draft',